@@ -0,0 +1,74 @@
+/**
+ * DropDeck service worker
+ * Renders Web Push notifications and opens the delivery card when one is clicked.
+ */
+
+const DEFAULT_URL = '/dashboard';
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  let payload;
+  try {
+    payload = event.data.json();
+  } catch {
+    payload = { title: 'DropDeck', body: event.data.text() };
+  }
+
+  const data = payload.data || {};
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'DropDeck', {
+      body: payload.body,
+      tag: payload.tag,
+      renotify: Boolean(payload.tag),
+      icon: '/favicon.ico',
+      badge: '/favicon.ico',
+      data: {
+        ...data,
+        url: data.actionUrl || DEFAULT_URL,
+      },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  const data = event.notification.data || {};
+  const url = new URL(data.url || DEFAULT_URL, self.location.origin);
+
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+
+      // Reuse an open dashboard tab instead of opening another one
+      const dashboard = windows.find((client) => {
+        const clientUrl = new URL(client.url);
+        return clientUrl.origin === url.origin && clientUrl.pathname === url.pathname;
+      });
+
+      if (dashboard) {
+        await dashboard.focus();
+        if (data.deliveryId) {
+          dashboard.postMessage({
+            type: 'open-delivery',
+            deliveryId: data.deliveryId,
+            url: url.href,
+          });
+        }
+        return;
+      }
+
+      await self.clients.openWindow(url.href);
+    })()
+  );
+});
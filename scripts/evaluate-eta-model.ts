@@ -0,0 +1,56 @@
+#!/usr/bin/env bun
+/**
+ * Offline evaluation of the learned ETA model
+ * Run with: bun run eta:evaluate [holdout fraction, default 0.2]
+ *
+ * Learns from older delivery history and scores the most recent deliveries,
+ * comparing the platforms' own promises with the learned correction.
+ * Read-only - the stored statistics are not touched.
+ */
+
+import { db } from '../src/lib/db';
+import { etaModelService } from '../src/lib/services/eta-model';
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+async function main(): Promise<void> {
+  if (!db) {
+    console.error('DATABASE_URL is required to evaluate the ETA model');
+    process.exit(1);
+  }
+
+  const holdout = Number(process.argv[2] ?? 0.2);
+  if (!(holdout > 0 && holdout < 1)) {
+    console.error('Holdout fraction must be between 0 and 1');
+    process.exit(1);
+  }
+
+  const report = await etaModelService.evaluate(new Date(), holdout);
+
+  console.log(
+    `[eta] Trained on ${report.trainSamples} deliveries, tested on ${report.testSamples}`
+  );
+  if (report.testSamples === 0) {
+    console.log('[eta] Not enough history with promised arrivals to evaluate');
+    process.exit(0);
+  }
+
+  console.log('');
+  console.log('  platform        tested  promise MAE  learned MAE  in range');
+  for (const row of [...report.platforms, { platform: 'all', ...report }]) {
+    console.log(
+      `  ${row.platform.padEnd(14)}  ${String(row.testSamples).padStart(6)}  ${`${row.baselineMae} min`.padStart(11)}  ${`${row.learnedMae} min`.padStart(11)}  ${formatPercent(row.coverage).padStart(8)}`
+    );
+  }
+  console.log('');
+  console.log('  MAE = mean absolute error; in range = arrivals inside the 10th-90th percentile range');
+
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('[eta] Evaluation failed:', error);
+  process.exit(1);
+});
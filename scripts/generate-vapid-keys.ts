@@ -0,0 +1,16 @@
+#!/usr/bin/env bun
+/**
+ * Generate a VAPID key pair for Web Push
+ * Run with: bun run push:keys
+ *
+ * Paste the output into .env.local. Changing the keys invalidates every
+ * existing push subscription, so generate them once per environment.
+ */
+
+import { generateVapidKeys } from '../src/lib/push/vapid';
+
+const keys = generateVapidKeys();
+
+console.log(`NEXT_PUBLIC_VAPID_PUBLIC_KEY=${keys.publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${keys.privateKey}`);
+console.log('VAPID_SUBJECT=mailto:you@example.com');
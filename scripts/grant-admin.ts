@@ -0,0 +1,58 @@
+#!/usr/bin/env bun
+/**
+ * Grant the admin role to an existing user
+ * Run with: bun run admin:grant <email>
+ *
+ * Used to set up the first admin; after that, admins manage roles from
+ * /admin/users. The change is written to the admin audit log.
+ */
+
+import { eq } from 'drizzle-orm';
+import { db } from '../src/lib/db';
+import { users } from '../src/lib/db/schema';
+import { recordAdminAction } from '../src/lib/services/admin';
+
+async function main(): Promise<void> {
+  if (!db) {
+    console.error('DATABASE_URL is required to grant the admin role');
+    process.exit(1);
+  }
+
+  const email = process.argv[2]?.trim().toLowerCase();
+  if (!email) {
+    console.error('Usage: bun run admin:grant <email>');
+    process.exit(1);
+  }
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.email, email),
+    columns: { id: true, role: true },
+  });
+
+  if (!user) {
+    console.error(`[admin] No user with email ${email} - sign in once before granting the role`);
+    process.exit(1);
+  }
+
+  if (user.role === 'admin') {
+    console.log(`[admin] ${email} is already an admin`);
+    process.exit(0);
+  }
+
+  await db.update(users).set({ role: 'admin' }).where(eq(users.id, user.id));
+  await recordAdminAction({
+    actorId: null,
+    action: 'user.set_role',
+    targetType: 'user',
+    targetId: user.id,
+    details: { from: user.role, to: 'admin', source: 'script' },
+  });
+
+  console.log(`[admin] ${email} is now an admin`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('[admin] Failed to grant the admin role:', error);
+  process.exit(1);
+});
@@ -0,0 +1,51 @@
+#!/usr/bin/env bun
+/**
+ * Re-encrypt stored secrets under the active encryption key
+ * Run with: bun run tokens:reencrypt
+ *
+ * Moves platform credentials, webhook signing secrets and notification channel
+ * settings to TOKEN_ENCRYPTION_KEY. Safe to stop and run again: each run picks
+ * up the rows still under an older key. Once a run finishes with nothing
+ * skipped or failed, old keys can be removed from TOKEN_ENCRYPTION_KEYRING.
+ */
+
+import { db } from '../src/lib/db';
+import { reencryptStoredSecrets } from '../src/lib/services/key-rotation';
+
+async function main(): Promise<void> {
+  if (!db) {
+    console.error('DATABASE_URL is required to re-encrypt tokens');
+    process.exit(1);
+  }
+
+  const result = await reencryptStoredSecrets({
+    onProgress: ({ total, reencrypted, skipped, failed }) => {
+      const done = reencrypted + skipped + failed;
+      console.log(
+        `[tokens] ${done}/${total} rows (${reencrypted} re-encrypted, ${skipped} skipped, ${failed} failed)`
+      );
+    },
+  });
+
+  if (result.total === 0) {
+    console.log(`[tokens] Everything is already under key version ${result.activeVersion}`);
+    process.exit(0);
+  }
+
+  for (const failure of result.failures) {
+    console.error(`[tokens] ${failure.table} ${failure.id}: ${failure.error}`);
+  }
+
+  if (result.skipped > 0 || result.failed > 0) {
+    console.log('[tokens] Some rows are still under an older key - run again to retry them');
+    process.exit(1);
+  }
+
+  console.log(`[tokens] ${result.reencrypted} rows moved to key version ${result.activeVersion}`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('[tokens] Re-encryption failed:', error);
+  process.exit(1);
+});
@@ -5,6 +5,7 @@ import { db } from '@/lib/db';
 import { platformConnections } from '@/lib/db/schema';
 import { encryptToken } from '@/lib/encryption/tokens';
 import { redis } from '@/lib/realtime/redis';
+import { clearConnectionErrors } from '@/lib/services/connections';
 import type { Platform } from '@/types/platform';
 
 /**
@@ -180,6 +181,7 @@ export async function GET(
           refreshTokenEncrypted,
           expiresAt: tokens.expiresAt,
           status: 'connected',
+          metadata: clearConnectionErrors(),
           lastSyncAt: new Date(),
           updatedAt: new Date(),
         },
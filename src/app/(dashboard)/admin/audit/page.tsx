@@ -0,0 +1,68 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { trpc } from '@/lib/trpc/react';
+
+/**
+ * Summarise an entry's details, e.g. "from: new, to: resolved"
+ */
+function formatDetails(details: Record<string, unknown> | null): string {
+  if (!details) return '';
+  return Object.entries(details)
+    .map(([key, value]) => `${key}: ${Array.isArray(value) ? value.length : String(value)}`)
+    .join(', ');
+}
+
+/**
+ * Admin Audit Log Page
+ * The most recent admin actions
+ */
+export default function AdminAuditPage() {
+  const { data: entries, isLoading } = trpc.admin.listAuditLog.useQuery();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Audit log</CardTitle>
+        <CardDescription>The 100 most recent admin actions</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-[var(--dd-text-muted)]">Loading...</p>
+        ) : !entries?.length ? (
+          <p className="text-sm text-[var(--dd-text-muted)]">No admin actions yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-[var(--dd-text-muted)]">
+                <th className="pb-2 font-medium">When</th>
+                <th className="pb-2 font-medium">Admin</th>
+                <th className="pb-2 font-medium">Action</th>
+                <th className="pb-2 font-medium">Target</th>
+                <th className="pb-2 font-medium">Details</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[var(--dd-border)]">
+              {entries.map((entry) => (
+                <tr key={entry.id}>
+                  <td className="py-2 whitespace-nowrap text-[var(--dd-text-secondary)]">
+                    {new Date(entry.createdAt).toLocaleString()}
+                  </td>
+                  <td className="py-2 text-[var(--dd-text-primary)]">{entry.actorEmail ?? '-'}</td>
+                  <td className="py-2 font-mono text-xs">{entry.action}</td>
+                  <td className="py-2 text-[var(--dd-text-secondary)]">
+                    {entry.targetType}
+                    {entry.targetId && ` ${entry.targetId.slice(0, 8)}`}
+                  </td>
+                  <td className="py-2 text-xs text-[var(--dd-text-muted)]">
+                    {formatDetails(entry.details)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
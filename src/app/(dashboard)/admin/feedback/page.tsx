@@ -0,0 +1,137 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from '@/hooks/use-toast';
+import { trpc } from '@/lib/trpc/react';
+import { FEEDBACK_STATUS_OPTIONS, type FeedbackStatus } from '@/types/admin';
+
+/**
+ * A feedback entry as listed for triage
+ */
+interface FeedbackEntry {
+  id: string;
+  category: string;
+  title: string;
+  description: string;
+  status: FeedbackStatus;
+  adminNotes: string | null;
+  userEmail: string;
+  createdAt: Date;
+  metadata: { url?: string; platform?: string; userAgent?: string } | null;
+}
+
+/**
+ * One feedback entry with its status and notes
+ */
+function FeedbackCard({ entry }: { entry: FeedbackEntry }) {
+  const utils = trpc.useUtils();
+  const [notes, setNotes] = useState(entry.adminNotes ?? '');
+
+  const update = trpc.admin.updateFeedback.useMutation({
+    onSuccess: () => {
+      toast({ title: 'Feedback updated' });
+      void utils.admin.listFeedback.invalidate();
+    },
+    onError: (error) =>
+      toast({ title: 'Something went wrong', description: error.message, variant: 'destructive' }),
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="min-w-0">
+          <CardTitle className="text-base">{entry.title}</CardTitle>
+          <CardDescription>
+            {entry.category.replace(/_/g, ' ')} · {entry.userEmail} ·{' '}
+            {new Date(entry.createdAt).toLocaleString()}
+            {entry.metadata?.url && ` · ${entry.metadata.url}`}
+          </CardDescription>
+        </div>
+        <select
+          value={entry.status}
+          onChange={(e) =>
+            update.mutate({ id: entry.id, status: e.target.value as FeedbackStatus })
+          }
+          aria-label={`Status of ${entry.title}`}
+          className="h-8 rounded-md border border-[var(--dd-border)] bg-[var(--dd-bg-card)] px-2 text-xs text-[var(--dd-text-primary)]"
+        >
+          {FEEDBACK_STATUS_OPTIONS.map(({ value, label }) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="whitespace-pre-wrap text-sm text-[var(--dd-text-secondary)]">
+          {entry.description}
+        </p>
+        <form
+          className="flex items-start gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            update.mutate({ id: entry.id, adminNotes: notes });
+          }}
+        >
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Admin notes"
+            aria-label={`Admin notes for ${entry.title}`}
+            maxLength={2000}
+            rows={2}
+            className="flex-1 resize-none rounded-md border border-[var(--dd-border)] bg-[var(--dd-bg-card)] px-3 py-2 text-sm"
+          />
+          <Button
+            type="submit"
+            variant="outline"
+            size="sm"
+            disabled={update.isPending || notes === (entry.adminNotes ?? '')}
+          >
+            Save notes
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Admin Feedback Page
+ * Triage beta feedback through its statuses
+ */
+export default function AdminFeedbackPage() {
+  const [status, setStatus] = useState<FeedbackStatus | ''>('new');
+
+  const { data: entries, isLoading } = trpc.admin.listFeedback.useQuery({
+    status: status || undefined,
+  });
+
+  return (
+    <div className="space-y-4">
+      <select
+        value={status}
+        onChange={(e) => setStatus(e.target.value as FeedbackStatus | '')}
+        aria-label="Filter by status"
+        className="h-9 rounded-md border border-[var(--dd-border)] bg-[var(--dd-bg-card)] px-3 text-sm text-[var(--dd-text-primary)]"
+      >
+        <option value="">All statuses</option>
+        {FEEDBACK_STATUS_OPTIONS.map(({ value, label }) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>
+
+      {isLoading ? (
+        <p className="text-sm text-[var(--dd-text-muted)]">Loading...</p>
+      ) : !entries?.length ? (
+        <p className="text-sm text-[var(--dd-text-muted)]">No feedback here.</p>
+      ) : (
+        entries.map((entry) => <FeedbackCard key={entry.id} entry={entry} />)
+      )}
+    </div>
+  );
+}
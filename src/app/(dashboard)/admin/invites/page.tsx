@@ -0,0 +1,177 @@
+'use client';
+
+import { Copy, Plus } from 'lucide-react';
+import { useState } from 'react';
+import { RedemptionChart } from '@/components/admin';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { showError } from '@/hooks/use-toast';
+import { trpc } from '@/lib/trpc/react';
+
+/**
+ * Admin Invite Codes Page
+ * Create and revoke beta invite codes and follow their redemptions
+ */
+export default function AdminInvitesPage() {
+  const utils = trpc.useUtils();
+  const [count, setCount] = useState(1);
+  const [maxRedemptions, setMaxRedemptions] = useState(1);
+  const [expiresInDays, setExpiresInDays] = useState('');
+  const [note, setNote] = useState('');
+  const [createdCodes, setCreatedCodes] = useState<string[]>([]);
+
+  const { data: codes, isLoading } = trpc.admin.listInviteCodes.useQuery();
+  const { data: stats, isLoading: statsLoading } = trpc.admin.redemptionStats.useQuery();
+
+  const create = trpc.admin.createInviteCodes.useMutation({
+    onSuccess: (result) => {
+      setCreatedCodes(result.codes.map((code) => code.code));
+      setNote('');
+      void utils.admin.listInviteCodes.invalidate();
+    },
+    onError: showError,
+  });
+  const revoke = trpc.admin.revokeInviteCode.useMutation({
+    onSuccess: () => utils.admin.listInviteCodes.invalidate(),
+    onError: showError,
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Create invite codes</CardTitle>
+          <CardDescription>
+            Codes can be redeemed the given number of times before they are exhausted.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form
+            className="grid gap-2 sm:grid-cols-5"
+            onSubmit={(e) => {
+              e.preventDefault();
+              create.mutate({
+                count,
+                maxRedemptions,
+                expiresInDays: expiresInDays ? Number(expiresInDays) : undefined,
+                note: note || undefined,
+              });
+            }}
+          >
+            <Input
+              type="number"
+              min={1}
+              max={100}
+              value={count}
+              onChange={(e) => setCount(Number(e.target.value))}
+              aria-label="Number of codes"
+            />
+            <Input
+              type="number"
+              min={1}
+              max={1000}
+              value={maxRedemptions}
+              onChange={(e) => setMaxRedemptions(Number(e.target.value))}
+              aria-label="Redemptions per code"
+            />
+            <Input
+              type="number"
+              min={1}
+              max={365}
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(e.target.value)}
+              placeholder="Expires in days"
+              aria-label="Expires in days"
+            />
+            <Input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Note"
+              aria-label="Note"
+              maxLength={255}
+            />
+            <Button type="submit" disabled={create.isPending}>
+              <Plus className="w-4 h-4" />
+              Create
+            </Button>
+          </form>
+
+          {createdCodes.length > 0 && (
+            <div className="flex items-start gap-2">
+              <code className="flex-1 whitespace-pre-wrap rounded bg-[var(--dd-bg-tertiary)] px-3 py-2 text-sm">
+                {createdCodes.join('\n')}
+              </code>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => void navigator.clipboard.writeText(createdCodes.join('\n'))}
+              >
+                <Copy className="w-4 h-4" />
+                Copy
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <RedemptionChart stats={stats} isLoading={statsLoading} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Codes</CardTitle>
+          <CardDescription>The 100 most recently created codes</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-[var(--dd-text-muted)]">Loading...</p>
+          ) : !codes?.length ? (
+            <p className="text-sm text-[var(--dd-text-muted)]">No invite codes yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-[var(--dd-text-muted)]">
+                  <th className="pb-2 font-medium">Code</th>
+                  <th className="pb-2 font-medium">Status</th>
+                  <th className="pb-2 text-right font-medium">Redeemed</th>
+                  <th className="pb-2 font-medium">Expires</th>
+                  <th className="pb-2 font-medium">Note</th>
+                  <th className="pb-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[var(--dd-border)]">
+                {codes.map((code) => (
+                  <tr key={code.id}>
+                    <td className="py-2 font-mono text-[var(--dd-text-primary)]">{code.code}</td>
+                    <td className="py-2 capitalize text-[var(--dd-text-secondary)]">
+                      {code.status}
+                    </td>
+                    <td className="py-2 text-right tabular-nums">
+                      {code.redemptionCount}/{code.maxRedemptions}
+                    </td>
+                    <td className="py-2 text-[var(--dd-text-secondary)]">
+                      {code.expiresAt ? new Date(code.expiresAt).toLocaleDateString() : 'Never'}
+                    </td>
+                    <td className="py-2 text-[var(--dd-text-secondary)]">{code.note}</td>
+                    <td className="py-2 text-right">
+                      {code.status === 'active' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => revoke.mutate({ id: code.id })}
+                          disabled={revoke.isPending}
+                        >
+                          Revoke
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { notFound } from 'next/navigation';
+import { AdminNav } from '@/components/admin';
+import { auth } from '@/lib/auth';
+import { isAdmin } from '@/lib/services/admin';
+
+/**
+ * Admin Layout
+ * Only admins can see the console; everyone else gets a 404 rather than a
+ * hint that it exists.
+ */
+export default async function AdminLayout({ children }: { children: React.ReactNode }) {
+  const session = await auth();
+
+  if (!session?.user?.id || !(await isAdmin(session.user.id))) {
+    notFound();
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-[var(--dd-text-primary)]">Admin</h1>
+        <p className="text-sm text-[var(--dd-text-muted)]">
+          Every change made here is written to the audit log.
+        </p>
+      </div>
+      <AdminNav />
+      {children}
+    </div>
+  );
+}
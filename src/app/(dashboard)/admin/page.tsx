@@ -0,0 +1,9 @@
+import { redirect } from 'next/navigation';
+
+/**
+ * Admin Page
+ * Opens the first admin section
+ */
+export default function AdminPage() {
+  redirect('/admin/invites');
+}
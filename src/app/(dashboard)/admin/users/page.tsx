@@ -0,0 +1,173 @@
+'use client';
+
+import { Search } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { toast } from '@/hooks/use-toast';
+import { trpc } from '@/lib/trpc/react';
+import { cn } from '@/lib/utils';
+import { PLATFORM_CONFIGS } from '@/types/platform';
+
+/**
+ * Text color for each connection status
+ */
+const STATUS_COLORS: Record<string, string> = {
+  connected: 'text-success',
+  expired: 'text-warning',
+  error: 'text-error',
+  disconnected: 'text-[var(--dd-text-muted)]',
+};
+
+/**
+ * Account, invite and connection health of one user
+ */
+function UserDetails({ userId }: { userId: string }) {
+  const utils = trpc.useUtils();
+  const { data: user, isLoading } = trpc.admin.getUser.useQuery({ userId });
+
+  const setRole = trpc.admin.setUserRole.useMutation({
+    onSuccess: () => {
+      void utils.admin.getUser.invalidate({ userId });
+      void utils.admin.searchUsers.invalidate();
+    },
+    onError: (error) =>
+      toast({ title: 'Something went wrong', description: error.message, variant: 'destructive' }),
+  });
+
+  if (isLoading || !user) {
+    return <p className="text-sm text-[var(--dd-text-muted)]">Loading...</p>;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="min-w-0">
+          <CardTitle className="text-base">{user.name ?? user.email}</CardTitle>
+          <CardDescription>
+            {user.email} · joined {new Date(user.createdAt).toLocaleDateString()}
+            {user.invite ? ` · invited with ${user.invite.code}` : ' · no invite code redeemed'} ·{' '}
+            {user.feedbackCount} feedback
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            setRole.mutate({ userId: user.id, role: user.role === 'admin' ? 'user' : 'admin' })
+          }
+          disabled={setRole.isPending}
+        >
+          {user.role === 'admin' ? 'Remove admin' : 'Make admin'}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {user.connections.length === 0 ? (
+          <p className="text-sm text-[var(--dd-text-muted)]">No platforms connected.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-[var(--dd-text-muted)]">
+                <th className="pb-2 font-medium">Platform</th>
+                <th className="pb-2 font-medium">Status</th>
+                <th className="pb-2 font-medium">Last sync</th>
+                <th className="pb-2 text-right font-medium">Errors</th>
+                <th className="pb-2 font-medium">Last error</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[var(--dd-border)]">
+              {user.connections.map((connection) => (
+                <tr key={connection.platform}>
+                  <td className="py-2 text-[var(--dd-text-primary)]">
+                    {PLATFORM_CONFIGS[connection.platform]?.name ?? connection.platform}
+                  </td>
+                  <td className={cn('py-2 capitalize', STATUS_COLORS[connection.status])}>
+                    {connection.status}
+                  </td>
+                  <td className="py-2 text-[var(--dd-text-secondary)]">
+                    {connection.lastSyncAt
+                      ? new Date(connection.lastSyncAt).toLocaleString()
+                      : 'Never'}
+                  </td>
+                  <td className="py-2 text-right tabular-nums">{connection.errorCount}</td>
+                  <td className="max-w-xs truncate py-2 text-[var(--dd-text-secondary)]">
+                    {connection.lastError}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Admin Users Page
+ * Look up users and the health of their platform connections
+ */
+export default function AdminUsersPage() {
+  const [query, setQuery] = useState('');
+  const [search, setSearch] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: results, isFetching } = trpc.admin.searchUsers.useQuery(
+    { query: search },
+    { enabled: search.length >= 2 }
+  );
+
+  return (
+    <div className="space-y-4">
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setSearch(query.trim());
+          setSelectedId(null);
+        }}
+      >
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Email or name"
+          aria-label="Search users"
+          maxLength={100}
+        />
+        <Button type="submit" disabled={query.trim().length < 2 || isFetching}>
+          <Search className="w-4 h-4" />
+          Search
+        </Button>
+      </form>
+
+      {results && results.length === 0 && (
+        <p className="text-sm text-[var(--dd-text-muted)]">No users match.</p>
+      )}
+
+      {results && results.length > 0 && (
+        <ul className="divide-y divide-[var(--dd-border)] rounded-md border border-[var(--dd-border)]">
+          {results.map((user) => (
+            <li key={user.id}>
+              <button
+                type="button"
+                onClick={() => setSelectedId(user.id)}
+                className={cn(
+                  'flex w-full items-center justify-between gap-2 px-3 py-2 text-left text-sm hover:bg-[var(--dd-bg-tertiary)]',
+                  selectedId === user.id && 'bg-[var(--dd-bg-tertiary)]'
+                )}
+              >
+                <span className="truncate text-[var(--dd-text-primary)]">
+                  {user.name ? `${user.name} · ${user.email}` : user.email}
+                </span>
+                {user.role === 'admin' && <span className="text-xs text-brand-cyan">Admin</span>}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selectedId && <UserDetails userId={selectedId} />}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import { BarChart3, List } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import {
+  HistoryAnalytics,
+  HistoryFilters,
+  type HistoryFilterValues,
+  HistoryList,
+} from '@/components/history';
+import { Button } from '@/components/ui/button';
+import { trpc } from '@/lib/trpc/react';
+
+/**
+ * Deliveries per page
+ */
+const PAGE_SIZE = 20;
+
+/**
+ * Turn the form's local dates into the half-open range the server filters on
+ */
+function toServerFilters(filters: HistoryFilterValues) {
+  const to = filters.to ? new Date(`${filters.to}T00:00:00`) : undefined;
+  to?.setDate(to.getDate() + 1);
+
+  return {
+    platform: filters.platform,
+    finalStatus: filters.finalStatus,
+    from: filters.from ? new Date(`${filters.from}T00:00:00`) : undefined,
+    to,
+    search: filters.search,
+  };
+}
+
+/**
+ * Delivery History Page
+ * Browse past deliveries and see what they add up to
+ */
+export default function HistoryPage() {
+  const [tab, setTab] = useState<'deliveries' | 'analytics'>('deliveries');
+  const [filters, setFilters] = useState<HistoryFilterValues>({});
+  const [offset, setOffset] = useState(0);
+
+  const serverFilters = useMemo(() => toServerFilters(filters), [filters]);
+  const timezone = useMemo(() => Intl.DateTimeFormat().resolvedOptions().timeZone, []);
+
+  const history = trpc.delivery.getHistory.useQuery(
+    { ...serverFilters, limit: PAGE_SIZE, offset },
+    { enabled: tab === 'deliveries', placeholderData: (previous) => previous }
+  );
+  const analytics = trpc.delivery.getHistoryAnalytics.useQuery(
+    { ...serverFilters, timezone },
+    { enabled: tab === 'analytics', staleTime: 5 * 60 * 1000 }
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-[var(--dd-text-primary)]">History</h1>
+          <p className="text-sm text-[var(--dd-text-muted)]">
+            Every delivered and cancelled order, and how your deliveries have gone.
+          </p>
+        </div>
+        <div className="flex gap-2" role="tablist">
+          <Button
+            role="tab"
+            aria-selected={tab === 'deliveries'}
+            variant={tab === 'deliveries' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setTab('deliveries')}
+          >
+            <List className="h-4 w-4" />
+            Deliveries
+          </Button>
+          <Button
+            role="tab"
+            aria-selected={tab === 'analytics'}
+            variant={tab === 'analytics' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setTab('analytics')}
+          >
+            <BarChart3 className="h-4 w-4" />
+            Analytics
+          </Button>
+        </div>
+      </div>
+
+      <HistoryFilters
+        filters={filters}
+        onChange={(next) => {
+          setFilters(next);
+          setOffset(0);
+        }}
+      />
+
+      {tab === 'deliveries' ? (
+        <HistoryList
+          deliveries={history.data?.items ?? []}
+          total={history.data?.total ?? 0}
+          offset={offset}
+          limit={PAGE_SIZE}
+          onPageChange={setOffset}
+          isLoading={history.isLoading}
+        />
+      ) : (
+        <HistoryAnalytics analytics={analytics.data} isLoading={analytics.isLoading} />
+      )}
+    </div>
+  );
+}
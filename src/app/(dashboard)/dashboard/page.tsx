@@ -2,19 +2,29 @@
 
 import { AnimatePresence, motion } from 'framer-motion';
 import { Map as MapIcon, Maximize2, Minimize2, RefreshCw } from 'lucide-react';
-import { useCallback, useMemo } from 'react';
-import { DeliveryFilters, DeliveryGrid, DeliveryStats } from '@/components/delivery';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  DeliveryFilters,
+  DeliveryGrid,
+  DeliveryStats,
+  TrackPackageDialog,
+  type TrackPackageValues,
+} from '@/components/delivery';
 import { LiveTrackingMap } from '@/components/map';
+import { ShareDeliveryDialog, type ShareDeliveryValues } from '@/components/share';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useDeliveryDeepLink } from '@/hooks/use-push-subscription';
 import { useRealTimeUpdates } from '@/hooks/use-realtime';
+import { toast } from '@/hooks/use-toast';
+import { trpc } from '@/lib/trpc/react';
 import {
   useDashboardStats,
   useDashboardStore,
   useSortedDeliveries,
 } from '@/stores/dashboard-store';
-import type { DeliveryStatus } from '@/types/delivery';
-import type { Platform } from '@/types/platform';
+import type { DeliveryStatus, UnifiedDelivery } from '@/types/delivery';
+import { PLATFORM_CONFIGS, type Platform } from '@/types/platform';
 
 /**
  * Dashboard Page
@@ -35,6 +45,7 @@ export default function DashboardPage() {
     selectedDeliveryId,
     expandedDeliveryId,
     // Actions
+    addDelivery,
     updateDelivery,
     togglePlatformFilter,
     toggleStatusFilter,
@@ -48,6 +59,7 @@ export default function DashboardPage() {
     setLoading,
     selectDelivery,
     toggleExpandDelivery,
+    setEtaModel,
   } = useDashboardStore();
 
   const sortedDeliveries = useSortedDeliveries();
@@ -71,9 +83,15 @@ export default function DashboardPage() {
     };
   }, [deliveries, sortedDeliveries]);
 
+  // Household members share the deck, so follow their deliveries too
+  const { data: household } = trpc.household.get.useQuery(undefined, {
+    staleTime: 5 * 60 * 1000,
+  });
+
   // Real-time updates
   const { connectionState, isConnected } = useRealTimeUpdates({
     userId: 'demo-user', // In production, get from auth context
+    householdId: household?.id,
     onDeliveryUpdate: (event) => {
       // Update delivery in store
       const existingDelivery = deliveries.find((d) => d.id === event.payload.deliveryId);
@@ -107,8 +125,32 @@ export default function DashboardPage() {
         });
       }
     },
+    onConnectionStatus: (event) => {
+      const { platform, status, message } = event.payload;
+      if (status !== 'expired' && status !== 'error') return;
+
+      // Prompt the user to reconnect accounts that stopped syncing
+      const name = PLATFORM_CONFIGS[platform as Platform]?.name ?? platform;
+      toast({
+        title: status === 'expired' ? `Reconnect ${name}` : `${name} is having trouble`,
+        description: message,
+        variant: status === 'expired' ? 'destructive' : 'warning',
+      });
+    },
   });
 
+  // Open the delivery card a clicked push notification points at
+  const openDelivery = useCallback(
+    (deliveryId: string) => {
+      selectDelivery(deliveryId);
+      if (useDashboardStore.getState().expandedDeliveryId !== deliveryId) {
+        toggleExpandDelivery(deliveryId);
+      }
+    },
+    [selectDelivery, toggleExpandDelivery]
+  );
+  useDeliveryDeepLink(openDelivery);
+
   // Determine empty state type
   const emptyType = useMemo(() => {
     if (deliveries.length === 0) {
@@ -136,6 +178,61 @@ export default function DashboardPage() {
     );
   }, [sortedDeliveries]);
 
+  // Refine ETAs with what was learned from past deliveries
+  const { data: etaModel } = trpc.delivery.getEtaModel.useQuery(undefined, {
+    staleTime: 60 * 60 * 1000,
+  });
+  useEffect(() => {
+    setEtaModel(etaModel ?? null);
+  }, [etaModel, setEtaModel]);
+
+  // Track a package by tracking number
+  const trackPackage = trpc.package.track.useMutation({
+    onSuccess: ({ delivery }) => {
+      // Tracking a number again only renames it
+      const exists = useDashboardStore.getState().deliveries.some((d) => d.id === delivery.id);
+      if (exists) {
+        updateDelivery(delivery.id, delivery);
+      } else {
+        addDelivery(delivery);
+      }
+      toast({ title: 'Tracking package', description: delivery.label ?? delivery.statusLabel });
+    },
+  });
+  const handleTrackPackage = useCallback(
+    async (values: TrackPackageValues) => {
+      await trackPackage.mutateAsync(values);
+    },
+    [trackPackage]
+  );
+
+  // Share a delivery through a public tracking link
+  const [sharingDelivery, setSharingDelivery] = useState<UnifiedDelivery | null>(null);
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const utils = trpc.useUtils();
+  const { data: shares } = trpc.share.list.useQuery(
+    { deliveryId: sharingDelivery?.id ?? '' },
+    { enabled: !!sharingDelivery }
+  );
+  const createShare = trpc.share.create.useMutation({
+    onSuccess: ({ url }) => {
+      setShareUrl(url);
+      void utils.share.list.invalidate();
+    },
+  });
+  const revokeShare = trpc.share.revoke.useMutation({
+    onSuccess: () => utils.share.list.invalidate(),
+  });
+  const handleShareOpenChange = useCallback(
+    (open: boolean) => {
+      if (open) return;
+      setSharingDelivery(null);
+      setShareUrl(null);
+      createShare.reset();
+    },
+    [createShare]
+  );
+
   // Refresh handler
   const handleRefresh = useCallback(() => {
     setLoading(true);
@@ -169,6 +266,12 @@ export default function DashboardPage() {
             {isConnected ? 'Live' : connectionState === 'connecting' ? 'Connecting...' : 'Offline'}
           </div>
 
+          <TrackPackageDialog
+            onSubmit={handleTrackPackage}
+            isSubmitting={trackPackage.isPending}
+            error={trackPackage.error?.message}
+          />
+
           {/* Refresh button */}
           <Button variant="outline" size="sm" onClick={handleRefresh} disabled={isLoading}>
             <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
@@ -276,6 +379,7 @@ export default function DashboardPage() {
             expandedId={expandedDeliveryId}
             onSelect={selectDelivery}
             onExpand={toggleExpandDelivery}
+            onShare={setSharingDelivery}
             isLoading={isLoading}
             error={error}
             emptyType={emptyType}
@@ -288,6 +392,25 @@ export default function DashboardPage() {
           />
         </CardContent>
       </Card>
+
+      <ShareDeliveryDialog
+        open={!!sharingDelivery}
+        onOpenChange={handleShareOpenChange}
+        deliveryName={
+          sharingDelivery?.label ??
+          `${sharingDelivery ? PLATFORM_CONFIGS[sharingDelivery.platform].name : ''} delivery`
+        }
+        shares={shares}
+        createdUrl={shareUrl}
+        onCreate={(values: ShareDeliveryValues) => {
+          if (sharingDelivery) {
+            createShare.mutate({ deliveryId: sharingDelivery.id, ...values });
+          }
+        }}
+        onRevoke={(shareId) => revokeShare.mutate({ shareId })}
+        isCreating={createShare.isPending}
+        error={createShare.error?.message}
+      />
     </div>
   );
 }
@@ -0,0 +1,174 @@
+'use client';
+
+import { ShieldCheck, Trash2 } from 'lucide-react';
+import Link from 'next/link';
+import { signOut } from 'next-auth/react';
+import { useEffect, useState } from 'react';
+import { SignOutButton } from '@/components/auth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { toast } from '@/hooks/use-toast';
+import { trpc } from '@/lib/trpc/react';
+
+/**
+ * Sign-in provider names
+ */
+const PROVIDER_NAMES: Record<string, string> = {
+  google: 'Google',
+  github: 'GitHub',
+};
+
+/**
+ * Account Settings Page
+ * Profile, sign-in providers, signing out and deleting the account
+ */
+export default function AccountSettingsPage() {
+  const utils = trpc.useUtils();
+  const [name, setName] = useState('');
+  const [deleteOpen, setDeleteOpen] = useState(false);
+
+  const { data: me, isLoading } = trpc.user.me.useQuery();
+  const { data: stats } = trpc.user.stats.useQuery();
+
+  useEffect(() => {
+    if (me?.name) setName(me.name);
+  }, [me?.name]);
+
+  const updateProfile = trpc.user.updateProfile.useMutation({
+    onSuccess: () => {
+      void utils.user.me.invalidate();
+      toast({ title: 'Profile saved', variant: 'success' });
+    },
+    onError: (error) =>
+      toast({ title: 'Something went wrong', description: error.message, variant: 'destructive' }),
+  });
+
+  const deleteAccount = trpc.user.deleteAccount.useMutation({
+    onSuccess: () => signOut({ callbackUrl: '/login' }),
+    onError: (error) =>
+      toast({ title: 'Something went wrong', description: error.message, variant: 'destructive' }),
+  });
+
+  if (isLoading || !me) {
+    return <p className="text-sm text-[var(--dd-text-muted)]">Loading...</p>;
+  }
+
+  const trimmedName = name.trim();
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-[var(--dd-text-primary)]">Account</h1>
+        <p className="text-sm text-[var(--dd-text-muted)]">
+          {me.email} · member since {new Date(me.createdAt).toLocaleDateString()}
+        </p>
+      </div>
+
+      {/* Profile */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Profile</CardTitle>
+          <CardDescription>The name shown to your household.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              updateProfile.mutate({ name: trimmedName });
+            }}
+          >
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Your name"
+              aria-label="Name"
+              maxLength={100}
+            />
+            <Button
+              type="submit"
+              disabled={!trimmedName || trimmedName === me.name || updateProfile.isPending}
+            >
+              Save
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Sign-in */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Sign-in</CardTitle>
+          <CardDescription>
+            {me.connectedProviders.length > 0
+              ? `You sign in with ${me.connectedProviders
+                  .map((provider) => PROVIDER_NAMES[provider] ?? provider)
+                  .join(' or ')}.`
+              : 'You sign in with your email address.'}
+            {stats &&
+              ` ${stats.connectedPlatforms} platforms connected, ${stats.totalDeliveries} deliveries tracked.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/settings/security">
+              <ShieldCheck className="w-4 h-4" />
+              Security log
+            </Link>
+          </Button>
+          <SignOutButton variant="outline" size="sm" />
+        </CardContent>
+      </Card>
+
+      {/* Delete account */}
+      <Card className="border-error/40">
+        <CardHeader>
+          <CardTitle className="text-base">Delete account</CardTitle>
+          <CardDescription>
+            Disconnects every platform and removes your deliveries, history and settings. This
+            cannot be undone.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button variant="destructive" size="sm" onClick={() => setDeleteOpen(true)}>
+            <Trash2 className="w-4 h-4" />
+            Delete account
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Dialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete your account?</DialogTitle>
+            <DialogDescription>
+              Everything in DropDeck for {me.email} is removed and you are signed out.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleteAccount.mutate()}
+              disabled={deleteAccount.isPending}
+            >
+              Delete account
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+'use client';
+
+import { ArrowDown, ArrowUp, Monitor, Moon, Sun } from 'lucide-react';
+import { useTheme } from 'next-themes';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from '@/hooks/use-toast';
+import { trpc } from '@/lib/trpc/react';
+import { PLATFORM_CONFIGS, type Platform } from '@/types/platform';
+
+/**
+ * Theme choices
+ */
+const THEMES = [
+  { value: 'light', label: 'Light', icon: Sun },
+  { value: 'dark', label: 'Dark', icon: Moon },
+  { value: 'system', label: 'System', icon: Monitor },
+] as const;
+
+/**
+ * Delivery sort order choices
+ */
+const SORT_ORDERS = [
+  { value: 'eta', label: 'Soonest arrival first' },
+  { value: 'recent', label: 'Most recently ordered first' },
+  { value: 'alphabetical', label: 'By platform name' },
+  { value: 'manual', label: 'In my platform order' },
+] as const;
+
+/**
+ * Appearance Settings Page
+ * Theme and delivery sort order, saved to the account
+ */
+export default function AppearanceSettingsPage() {
+  const utils = trpc.useUtils();
+  const { setTheme } = useTheme();
+
+  const { data: prefs, isLoading } = trpc.preference.get.useQuery();
+  const { data: connections = [] } = trpc.platform.getConnections.useQuery();
+
+  const update = trpc.preference.update.useMutation({
+    onSuccess: () => utils.preference.get.invalidate(),
+    onError: (error) =>
+      toast({ title: 'Something went wrong', description: error.message, variant: 'destructive' }),
+  });
+
+  if (isLoading || !prefs) {
+    return <p className="text-sm text-[var(--dd-text-muted)]">Loading...</p>;
+  }
+
+  // Saved order first, then connected platforms not yet placed
+  const platformOrder = [
+    ...(prefs.manualPlatformOrder ?? []),
+    ...connections
+      .map((connection) => connection.platform as string)
+      .filter((platform) => !prefs.manualPlatformOrder?.includes(platform)),
+  ];
+
+  const movePlatform = (index: number, offset: -1 | 1) => {
+    const order = [...platformOrder];
+    const [platform] = order.splice(index, 1);
+    if (!platform) return;
+    order.splice(index + offset, 0, platform);
+    update.mutate({ manualPlatformOrder: order });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-[var(--dd-text-primary)]">Appearance</h1>
+        <p className="text-sm text-[var(--dd-text-muted)]">
+          How DropDeck looks and how your deliveries are ordered, on every device you sign in on.
+        </p>
+      </div>
+
+      {/* Theme */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Theme</CardTitle>
+          <CardDescription>
+            System follows your device&apos;s light or dark setting.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap gap-2" role="radiogroup" aria-label="Theme">
+          {THEMES.map(({ value, label, icon: Icon }) => (
+            <Button
+              key={value}
+              variant={prefs.theme === value ? 'default' : 'outline'}
+              size="sm"
+              role="radio"
+              aria-checked={prefs.theme === value}
+              onClick={() => {
+                setTheme(value);
+                update.mutate({ theme: value });
+              }}
+            >
+              <Icon className="w-4 h-4" />
+              {label}
+            </Button>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Sort order */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Delivery order</CardTitle>
+          <CardDescription>How active deliveries are sorted.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <select
+            value={prefs.sortOrder}
+            onChange={(e) =>
+              update.mutate({ sortOrder: e.target.value as (typeof SORT_ORDERS)[number]['value'] })
+            }
+            aria-label="Delivery order"
+            className="h-10 rounded-md border border-[var(--dd-border)] bg-[var(--dd-bg-card)] px-3 text-sm text-[var(--dd-text-primary)]"
+          >
+            {SORT_ORDERS.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+
+          {prefs.sortOrder === 'manual' &&
+            (platformOrder.length === 0 ? (
+              <p className="text-sm text-[var(--dd-text-muted)]">
+                Connect a platform to choose its place in the order.
+              </p>
+            ) : (
+              <ol className="divide-y divide-[var(--dd-border)] rounded-md border border-[var(--dd-border)]">
+                {platformOrder.map((platform, index) => (
+                  <li
+                    key={platform}
+                    className="flex items-center justify-between gap-2 px-3 py-2 text-sm"
+                  >
+                    <span className="text-[var(--dd-text-primary)]">
+                      {PLATFORM_CONFIGS[platform as Platform]?.name ?? platform}
+                    </span>
+                    <span className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => movePlatform(index, -1)}
+                        disabled={index === 0 || update.isPending}
+                        aria-label={`Move ${platform} up`}
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => movePlatform(index, 1)}
+                        disabled={index === platformOrder.length - 1 || update.isPending}
+                        aria-label={`Move ${platform} down`}
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </Button>
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
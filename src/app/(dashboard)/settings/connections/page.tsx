@@ -0,0 +1,210 @@
+'use client';
+
+import { Plus } from 'lucide-react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Suspense, useEffect, useState } from 'react';
+import { type ConnectionAction, ConnectionCard, LinkedSessionCard } from '@/components/settings';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { showError, toast } from '@/hooks/use-toast';
+import { trpc } from '@/lib/trpc/react';
+import { isCarrierPlatform, PLATFORM_CONFIGS, type Platform } from '@/types/platform';
+
+/**
+ * Platforms that can be connected from here
+ * Carriers are tracked by tracking number, and platforms without OAuth are
+ * linked with a captured browser session instead.
+ */
+const OAUTH_PLATFORMS = (Object.keys(PLATFORM_CONFIGS) as Platform[]).filter(
+  (platform) => PLATFORM_CONFIGS[platform].supportsOAuth && !isCarrierPlatform(platform)
+);
+
+/**
+ * Platforms that also read orders with a linked browser session, by website
+ * Matches the adapters whose supportsLinkedSession() is true.
+ */
+const SESSION_SITES: Partial<Record<Platform, string>> = {
+  costco: 'costco.com',
+};
+
+/**
+ * Connection settings content
+ */
+function ConnectionSettings() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const utils = trpc.useUtils();
+  const [pending, setPending] = useState<{ platform: Platform; action: ConnectionAction } | null>(
+    null
+  );
+
+  const { data: connections = [], isLoading } = trpc.platform.getConnections.useQuery();
+
+  const initiateOAuth = trpc.platform.initiateOAuth.useMutation({
+    onSuccess: ({ authUrl }) => {
+      window.location.href = authUrl;
+    },
+    onError: (error) => {
+      setPending(null);
+      showError(error);
+    },
+  });
+  const disconnect = trpc.platform.disconnect.useMutation({
+    onSuccess: () => {
+      void utils.platform.getConnections.invalidate();
+      void utils.delivery.getActive.invalidate();
+    },
+    onError: showError,
+    onSettled: () => setPending(null),
+  });
+  const linkSession = trpc.platform.linkSession.useMutation({
+    onSuccess: (_, { platform }) => {
+      toast({ title: `${SESSION_SITES[platform]} session linked`, variant: 'success' });
+      void utils.platform.getConnections.invalidate();
+      void utils.delivery.getActive.invalidate();
+    },
+    onError: showError,
+  });
+  const unlinkSession = trpc.platform.unlinkSession.useMutation({
+    onSuccess: () => {
+      void utils.platform.getConnections.invalidate();
+      void utils.delivery.getActive.invalidate();
+    },
+    onError: showError,
+  });
+
+  // Outcome of an OAuth round trip, reported by the callback route
+  useEffect(() => {
+    const platform = searchParams.get('platform') as Platform | null;
+    const name = platform ? (PLATFORM_CONFIGS[platform]?.name ?? platform) : 'Platform';
+
+    if (searchParams.get('success')) {
+      toast({ title: `${name} connected`, variant: 'success' });
+    } else if (searchParams.get('error')) {
+      toast({
+        title: `Could not connect ${name}`,
+        description: searchParams.get('description') || searchParams.get('error') || undefined,
+        variant: 'destructive',
+      });
+    } else {
+      return;
+    }
+
+    router.replace('/settings/connections');
+  }, [searchParams, router]);
+
+  const reconnect = (platform: Platform) => {
+    setPending({ platform, action: 'reconnect' });
+    initiateOAuth.mutate({ platform });
+  };
+
+  const test = async (platform: Platform) => {
+    setPending({ platform, action: 'test' });
+    try {
+      const result = await utils.platform.testConnection.fetch({ platform });
+      toast({
+        title: result.connected ? 'Connection works' : 'Connection failed',
+        description: result.connected ? undefined : result.error,
+        variant: result.connected ? 'success' : 'destructive',
+      });
+    } catch (error) {
+      showError(error as Error);
+    } finally {
+      setPending(null);
+      void utils.platform.getConnections.invalidate();
+    }
+  };
+
+  const connected = new Set(connections.map((connection) => connection.platform));
+  const available = OAUTH_PLATFORMS.filter((platform) => !connected.has(platform));
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-[var(--dd-text-primary)]">Connections</h1>
+        <p className="text-sm text-[var(--dd-text-muted)]">
+          The delivery platforms DropDeck tracks for you.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-[var(--dd-text-muted)]">Loading...</p>
+      ) : connections.length === 0 ? (
+        <p className="text-sm text-[var(--dd-text-muted)]">No platforms connected yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {connections.map((connection) => (
+            <ConnectionCard
+              key={connection.id}
+              platform={connection.platform}
+              status={connection.status}
+              lastSyncAt={connection.lastSyncAt}
+              lastError={connection.metadata?.lastError}
+              accountEmail={connection.metadata?.accountEmail}
+              canReconnect={OAUTH_PLATFORMS.includes(connection.platform)}
+              pendingAction={pending?.platform === connection.platform ? pending.action : null}
+              onReconnect={() => reconnect(connection.platform)}
+              onTest={() => void test(connection.platform)}
+              onDisconnect={() => {
+                setPending({ platform: connection.platform, action: 'disconnect' });
+                disconnect.mutate({ platform: connection.platform });
+              }}
+            />
+          ))}
+        </div>
+      )}
+
+      {(Object.keys(SESSION_SITES) as Platform[]).map((platform) => (
+        <LinkedSessionCard
+          key={platform}
+          platform={platform}
+          site={SESSION_SITES[platform] ?? platform}
+          linked={connections.some(
+            (connection) => connection.platform === platform && connection.hasLinkedSession
+          )}
+          isPending={linkSession.isPending || unlinkSession.isPending}
+          onLink={(session) => linkSession.mutate({ platform, session })}
+          onUnlink={() => unlinkSession.mutate({ platform })}
+        />
+      ))}
+
+      {available.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Add a platform</CardTitle>
+            <CardDescription>
+              You will be sent to the platform to sign in and approve access.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-2">
+            {available.map((platform) => (
+              <Button
+                key={platform}
+                variant="outline"
+                size="sm"
+                onClick={() => reconnect(platform)}
+                disabled={pending !== null}
+              >
+                <Plus className="w-4 h-4" />
+                {PLATFORM_CONFIGS[platform].name}
+              </Button>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Connection Settings Page
+ * Platform connection health, with reconnect, test and disconnect
+ */
+export default function ConnectionSettingsPage() {
+  return (
+    <Suspense>
+      <ConnectionSettings />
+    </Suspense>
+  );
+}
@@ -0,0 +1,206 @@
+'use client';
+
+import { Copy, KeyRound, Mail, Upload } from 'lucide-react';
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { toast } from '@/hooks/use-toast';
+import { trpc } from '@/lib/trpc/react';
+import { PLATFORM_CONFIGS, type Platform } from '@/types/platform';
+
+/**
+ * What each import result means to the user
+ */
+const RESULT_LABELS: Record<string, string> = {
+  imported: 'Added to dashboard',
+  updated: 'Updated delivery',
+  duplicate: 'Already tracked',
+  archived: 'Already delivered',
+  unrecognized: 'No order found',
+  processed: 'Already imported',
+};
+
+/**
+ * Email Import Settings Page
+ * Forward order confirmations and shipping notices to DropDeck
+ */
+export default function EmailImportSettingsPage() {
+  const utils = trpc.useUtils();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [revealedUrl, setRevealedUrl] = useState<string | null>(null);
+
+  const { data: inbox, isLoading } = trpc.emailImport.getInbox.useQuery();
+  const { data: recent = [] } = trpc.emailImport.listRecent.useQuery();
+
+  const rotateToken = trpc.emailImport.rotateToken.useMutation({
+    onSuccess: ({ url }) => {
+      setRevealedUrl(url);
+      void utils.emailImport.getInbox.invalidate();
+    },
+  });
+  const setEnabled = trpc.emailImport.setEnabled.useMutation({
+    onSuccess: () => utils.emailImport.getInbox.invalidate(),
+  });
+  const upload = trpc.emailImport.upload.useMutation({
+    onSuccess: ({ result }) => {
+      toast({
+        title: RESULT_LABELS[result] ?? result,
+        variant: result === 'imported' || result === 'updated' ? 'success' : 'default',
+      });
+      void utils.emailImport.listRecent.invalidate();
+      void utils.delivery.getActive.invalidate();
+    },
+    onError: (error) => {
+      toast({ title: 'Import failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    upload.mutate({ raw: await file.text() });
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-[var(--dd-text-primary)]">Email Import</h1>
+        <p className="text-sm text-[var(--dd-text-muted)]">
+          Track orders from retailers without an API by forwarding their order and shipping emails.
+        </p>
+      </div>
+
+      {/* Newly created or rotated inbox URL - shown once */}
+      {revealedUrl && (
+        <Card className="border-brand-cyan">
+          <CardHeader>
+            <CardTitle className="text-base">Inbox URL</CardTitle>
+            <CardDescription>
+              Copy the URL now - it will not be shown again. Point your mail provider&apos;s inbound
+              routing at it, or post raw messages to it from a mail filter.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex items-center gap-2">
+            <code className="flex-1 truncate rounded bg-[var(--dd-bg-tertiary)] px-3 py-2 text-sm">
+              {revealedUrl}
+            </code>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => void navigator.clipboard.writeText(revealedUrl)}
+            >
+              <Copy className="w-4 h-4" />
+              Copy
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setRevealedUrl(null)}>
+              Done
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Forwarding inbox */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-base">Forwarding inbox</CardTitle>
+            <CardDescription>
+              {isLoading
+                ? 'Loading...'
+                : inbox
+                  ? `Token ending in ${inbox.tokenHint}${
+                      inbox.lastReceivedAt
+                        ? ` · last email ${new Date(inbox.lastReceivedAt).toLocaleString()}`
+                        : ' · no emails yet'
+                    }`
+                  : 'Not set up'}
+            </CardDescription>
+          </div>
+          {inbox && (
+            <Switch
+              checked={inbox.enabled}
+              onCheckedChange={(enabled) => setEnabled.mutate({ enabled })}
+              aria-label="Email import enabled"
+            />
+          )}
+        </CardHeader>
+        <CardContent>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => rotateToken.mutate()}
+            disabled={rotateToken.isPending}
+          >
+            <KeyRound className="w-4 h-4" />
+            {inbox ? 'Rotate URL' : 'Create inbox'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Manual upload */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Import an email</CardTitle>
+          <CardDescription>
+            Save the email from your mail client (.eml) and upload it here.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".eml,message/rfc822"
+            className="hidden"
+            onChange={(e) => void handleFile(e.target.files?.[0])}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInput.current?.click()}
+            disabled={upload.isPending}
+          >
+            <Upload className="w-4 h-4" />
+            {upload.isPending ? 'Importing...' : 'Upload .eml'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Recent emails */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Recent emails</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {recent.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 py-6 text-center">
+              <Mail className="w-8 h-8 text-[var(--dd-text-muted)]" />
+              <p className="text-sm text-[var(--dd-text-muted)]">No emails imported yet.</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-[var(--dd-border)]">
+              {recent.map((email) => (
+                <li key={email.id} className="flex items-center justify-between gap-4 py-2">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm text-[var(--dd-text-primary)]">
+                      {email.subject || '(no subject)'}
+                    </p>
+                    <p className="truncate text-xs text-[var(--dd-text-muted)]">
+                      {email.fromAddress} · {new Date(email.receivedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <span className="shrink-0 text-xs text-[var(--dd-text-muted)]">
+                    {RESULT_LABELS[email.result] ?? email.result}
+                    {email.platform &&
+                      ` · ${PLATFORM_CONFIGS[email.platform as Platform]?.name ?? email.platform}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
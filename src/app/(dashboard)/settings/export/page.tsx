@@ -0,0 +1,175 @@
+'use client';
+
+import { CalendarDays, Copy, Download, KeyRound } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { trpc } from '@/lib/trpc/react';
+
+/**
+ * Deliveries each download can cover
+ */
+const SCOPES = [
+  { value: 'all', label: 'Active and past' },
+  { value: 'active', label: 'Active only' },
+  { value: 'history', label: 'Past only' },
+] as const;
+
+/**
+ * Export Settings Page
+ * Download delivery data and subscribe to upcoming deliveries in a calendar
+ */
+export default function ExportSettingsPage() {
+  const utils = trpc.useUtils();
+  const [scope, setScope] = useState<(typeof SCOPES)[number]['value']>('all');
+  const [perItem, setPerItem] = useState(false);
+  const [revealedUrl, setRevealedUrl] = useState<string | null>(null);
+
+  const { data: feed, isLoading } = trpc.export.getCalendarFeed.useQuery();
+
+  const rotateToken = trpc.export.rotateCalendarToken.useMutation({
+    onSuccess: ({ url }) => {
+      setRevealedUrl(url);
+      void utils.export.getCalendarFeed.invalidate();
+    },
+  });
+  const setEnabled = trpc.export.setCalendarEnabled.useMutation({
+    onSuccess: () => utils.export.getCalendarFeed.invalidate(),
+  });
+
+  const csvUrl = `/api/export?format=csv&scope=${scope}${perItem ? '&items=true' : ''}`;
+  const ndjsonUrl = `/api/export?format=ndjson&scope=${scope}`;
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-[var(--dd-text-primary)]">Export</h1>
+        <p className="text-sm text-[var(--dd-text-muted)]">
+          Download your delivery data, or see upcoming deliveries in your calendar.
+        </p>
+      </div>
+
+      {/* Downloads */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Download my data</CardTitle>
+          <CardDescription>
+            CSV opens in any spreadsheet. NDJSON has every detail DropDeck keeps, one delivery per
+            line.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-4">
+            <select
+              value={scope}
+              onChange={(e) => setScope(e.target.value as typeof scope)}
+              aria-label="Deliveries to export"
+              className="h-10 rounded-md border border-[var(--dd-border)] bg-[var(--dd-bg-card)] px-3 text-sm text-[var(--dd-text-primary)]"
+            >
+              {SCOPES.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <div className="flex items-center gap-2">
+              <Switch id="export-per-item" checked={perItem} onCheckedChange={setPerItem} />
+              <label htmlFor="export-per-item" className="text-sm text-[var(--dd-text-secondary)]">
+                One CSV row per item
+              </label>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <a href={csvUrl} download>
+                <Download className="w-4 h-4" />
+                CSV
+              </a>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <a href={ndjsonUrl} download>
+                <Download className="w-4 h-4" />
+                NDJSON
+              </a>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <a href="/api/export?format=ics" download>
+                <CalendarDays className="w-4 h-4" />
+                Upcoming (.ics)
+              </a>
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Newly created or rotated feed URL - shown once */}
+      {revealedUrl && (
+        <Card className="border-brand-cyan">
+          <CardHeader>
+            <CardTitle className="text-base">Calendar URL</CardTitle>
+            <CardDescription>
+              Copy the URL now - it will not be shown again. Add it to your calendar app as a
+              subscription (&quot;From URL&quot; or &quot;Subscribe to calendar&quot;).
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex items-center gap-2">
+            <code className="flex-1 truncate rounded bg-[var(--dd-bg-tertiary)] px-3 py-2 text-sm">
+              {revealedUrl}
+            </code>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => void navigator.clipboard.writeText(revealedUrl)}
+            >
+              <Copy className="w-4 h-4" />
+              Copy
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setRevealedUrl(null)}>
+              Done
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Calendar subscription */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-base">Calendar subscription</CardTitle>
+            <CardDescription>
+              {isLoading
+                ? 'Loading...'
+                : feed
+                  ? `Token ending in ${feed.tokenHint}${
+                      feed.lastAccessedAt
+                        ? ` · last synced ${new Date(feed.lastAccessedAt).toLocaleString()}`
+                        : ' · not synced yet'
+                    }`
+                  : 'Each upcoming delivery appears as an event spanning its ETA range.'}
+            </CardDescription>
+          </div>
+          {feed && (
+            <Switch
+              checked={feed.enabled}
+              onCheckedChange={(enabled) => setEnabled.mutate({ enabled })}
+              aria-label="Calendar feed enabled"
+            />
+          )}
+        </CardHeader>
+        <CardContent>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => rotateToken.mutate()}
+            disabled={rotateToken.isPending}
+          >
+            <KeyRound className="w-4 h-4" />
+            {feed ? 'Rotate URL' : 'Create calendar URL'}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,350 @@
+'use client';
+
+import { Copy, LogOut, Trash2, UserPlus, Users } from 'lucide-react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Suspense, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { showError, toast } from '@/hooks/use-toast';
+import { trpc } from '@/lib/trpc/react';
+import { HOUSEHOLD_MEMBER_COLORS, type HouseholdRole } from '@/types/household';
+
+/**
+ * Roles members can be given
+ */
+const ROLES: Array<{ value: HouseholdRole; label: string }> = [
+  { value: 'viewer', label: 'Viewer' },
+  { value: 'admin', label: 'Admin' },
+];
+
+/**
+ * Join a household from an invite link
+ */
+function JoinHouseholdCard({ token, inHousehold }: { token: string; inHousehold: boolean }) {
+  const router = useRouter();
+  const utils = trpc.useUtils();
+
+  const acceptInvite = trpc.household.acceptInvite.useMutation({
+    onSuccess: () => {
+      toast({ title: 'Joined household' });
+      void utils.household.get.invalidate();
+      void utils.delivery.getActive.invalidate();
+      router.replace('/settings/household');
+    },
+    onError: showError,
+  });
+
+  return (
+    <Card className="border-brand-cyan">
+      <CardHeader>
+        <CardTitle className="text-base">You have been invited to a household</CardTitle>
+        <CardDescription>
+          {inHousehold
+            ? 'Leave your current household to accept this invite.'
+            : "Members see each other's active deliveries. Your platform connections stay private."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex gap-2">
+        <Button
+          size="sm"
+          onClick={() => acceptInvite.mutate({ token })}
+          disabled={inHousehold || acceptInvite.isPending}
+        >
+          Join household
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => router.replace('/settings/household')}>
+          Dismiss
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Household settings content
+ */
+function HouseholdSettings() {
+  const utils = trpc.useUtils();
+  const inviteToken = useSearchParams().get('invite');
+  const [name, setName] = useState('');
+  const [inviteRole, setInviteRole] = useState<HouseholdRole>('viewer');
+  const [revealedUrl, setRevealedUrl] = useState<string | null>(null);
+
+  const { data: household, isLoading } = trpc.household.get.useQuery();
+  const { data: me } = trpc.user.me.useQuery();
+
+  const onChanged = () => {
+    void utils.household.get.invalidate();
+    void utils.delivery.getActive.invalidate();
+  };
+
+  const create = trpc.household.create.useMutation({
+    onSuccess: () => {
+      setName('');
+      onChanged();
+    },
+    onError: showError,
+  });
+  const createInvite = trpc.household.createInvite.useMutation({
+    onSuccess: ({ url }) => {
+      setRevealedUrl(url);
+      void utils.household.get.invalidate();
+    },
+    onError: showError,
+  });
+  const revokeInvite = trpc.household.revokeInvite.useMutation({
+    onSuccess: () => utils.household.get.invalidate(),
+    onError: showError,
+  });
+  const setRole = trpc.household.setRole.useMutation({ onSuccess: onChanged, onError: showError });
+  const setColor = trpc.household.setColor.useMutation({
+    onSuccess: onChanged,
+    onError: showError,
+  });
+  const removeMember = trpc.household.removeMember.useMutation({
+    onSuccess: onChanged,
+    onError: showError,
+  });
+  const leave = trpc.household.leave.useMutation({ onSuccess: onChanged, onError: showError });
+
+  const isAdmin = household?.role === 'admin';
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-[var(--dd-text-primary)]">Household</h1>
+        <p className="text-sm text-[var(--dd-text-muted)]">
+          Share one deck with the people you live with. Each member&apos;s deliveries are shown in
+          their color.
+        </p>
+      </div>
+
+      {inviteToken && <JoinHouseholdCard token={inviteToken} inHousehold={!!household} />}
+
+      {isLoading ? (
+        <p className="text-sm text-[var(--dd-text-muted)]">Loading...</p>
+      ) : !household ? (
+        /* No household yet */
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Create a household</CardTitle>
+            <CardDescription>
+              You will be its admin and can invite others. Platform connections are never shared.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                create.mutate({ name });
+              }}
+            >
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Home"
+                aria-label="Household name"
+                maxLength={60}
+              />
+              <Button type="submit" disabled={!name.trim() || create.isPending}>
+                <Users className="w-4 h-4" />
+                Create
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Members */}
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between gap-4">
+              <div>
+                <CardTitle className="text-base">{household.name}</CardTitle>
+                <CardDescription>
+                  {household.members.length} member{household.members.length === 1 ? '' : 's'}
+                </CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => leave.mutate()}
+                disabled={leave.isPending}
+              >
+                <LogOut className="w-4 h-4" />
+                Leave
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {household.members.map((member) => {
+                const isMe = member.userId === me?.id;
+                return (
+                  <div key={member.userId} className="flex items-center gap-3">
+                    <div
+                      className="w-3 h-3 rounded-full shrink-0"
+                      style={{ backgroundColor: member.color }}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-[var(--dd-text-primary)] truncate">
+                        {member.name ?? member.email}
+                        {isMe && ' (you)'}
+                      </p>
+                      <p className="text-xs text-[var(--dd-text-muted)] truncate">{member.email}</p>
+                    </div>
+                    {isMe && (
+                      <select
+                        value={member.color}
+                        onChange={(e) =>
+                          setColor.mutate({
+                            color: e.target.value as (typeof HOUSEHOLD_MEMBER_COLORS)[number],
+                          })
+                        }
+                        aria-label="Your color"
+                        className="h-8 rounded-md border border-[var(--dd-border)] bg-[var(--dd-bg-card)] px-2 text-xs"
+                        style={{ color: member.color }}
+                      >
+                        {HOUSEHOLD_MEMBER_COLORS.map((color) => (
+                          <option key={color} value={color} style={{ color }}>
+                            {color}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    {isAdmin ? (
+                      <select
+                        value={member.role}
+                        onChange={(e) =>
+                          setRole.mutate({
+                            userId: member.userId,
+                            role: e.target.value as HouseholdRole,
+                          })
+                        }
+                        aria-label={`Role of ${member.name ?? member.email}`}
+                        className="h-8 rounded-md border border-[var(--dd-border)] bg-[var(--dd-bg-card)] px-2 text-xs text-[var(--dd-text-primary)]"
+                      >
+                        {ROLES.map(({ value, label }) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className="text-xs capitalize text-[var(--dd-text-secondary)]">
+                        {member.role}
+                      </span>
+                    )}
+                    {isAdmin && !isMe && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeMember.mutate({ userId: member.userId })}
+                        aria-label={`Remove ${member.name ?? member.email}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+
+          {/* Newly created invite link - shown once */}
+          {revealedUrl && (
+            <Card className="border-brand-cyan">
+              <CardHeader>
+                <CardTitle className="text-base">Invite link</CardTitle>
+                <CardDescription>
+                  Copy the link now - it will not be shown again. It works once and expires in 7
+                  days.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="flex items-center gap-2">
+                <code className="flex-1 truncate rounded bg-[var(--dd-bg-tertiary)] px-3 py-2 text-sm">
+                  {revealedUrl}
+                </code>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => void navigator.clipboard.writeText(revealedUrl)}
+                >
+                  <Copy className="w-4 h-4" />
+                  Copy
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setRevealedUrl(null)}>
+                  Done
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Invites */}
+          {isAdmin && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Invites</CardTitle>
+                <CardDescription>
+                  Viewers see the shared deck. Admins can also manage members and invites.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center gap-2">
+                  <select
+                    value={inviteRole}
+                    onChange={(e) => setInviteRole(e.target.value as HouseholdRole)}
+                    aria-label="Role for the invited member"
+                    className="h-9 rounded-md border border-[var(--dd-border)] bg-[var(--dd-bg-card)] px-3 text-sm text-[var(--dd-text-primary)]"
+                  >
+                    {ROLES.map(({ value, label }) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => createInvite.mutate({ role: inviteRole })}
+                    disabled={createInvite.isPending}
+                  >
+                    <UserPlus className="w-4 h-4" />
+                    Create invite link
+                  </Button>
+                </div>
+                {household.invites.map((invite) => (
+                  <div key={invite.id} className="flex items-center justify-between gap-2 text-sm">
+                    <span className="text-[var(--dd-text-secondary)]">
+                      Link ending in {invite.tokenHint} · {invite.role} · expires{' '}
+                      {new Date(invite.expiresAt).toLocaleDateString()}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revokeInvite.mutate({ inviteId: invite.id })}
+                    >
+                      Revoke
+                    </Button>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Household Settings Page
+ * Manage a shared deck, its members and invites
+ */
+export default function HouseholdSettingsPage() {
+  return (
+    <Suspense>
+      <HouseholdSettings />
+    </Suspense>
+  );
+}
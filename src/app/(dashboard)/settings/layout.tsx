@@ -0,0 +1,14 @@
+import { SettingsNav } from '@/components/settings';
+
+/**
+ * Settings Layout
+ * Section tabs above every settings page
+ */
+export default function SettingsLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="space-y-6">
+      <SettingsNav />
+      {children}
+    </div>
+  );
+}
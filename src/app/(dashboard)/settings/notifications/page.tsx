@@ -0,0 +1,146 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  EmailDigestSettings,
+  EtaSlipSettings,
+  NotificationChannels,
+  NotificationPreferences,
+} from '@/components/notifications';
+import { usePushSubscription } from '@/hooks/use-push-subscription';
+import { toast } from '@/hooks/use-toast';
+import { trpc } from '@/lib/trpc/react';
+import type { NotificationChannelType } from '@/types/notification';
+
+/**
+ * Notification Settings Page
+ * Which delivery updates to hear about, daily email digest, ETA slip alerts and forwarding to
+ * self-hosted ntfy and Gotify servers
+ */
+export default function NotificationSettingsPage() {
+  const utils = trpc.useUtils();
+  const [pendingType, setPendingType] = useState<NotificationChannelType | null>(null);
+  const push = usePushSubscription();
+
+  const { data: preferences, isLoading: preferencesLoading } =
+    trpc.notification.preferences.useQuery();
+  const { data: channels = [] } = trpc.notification.channels.useQuery();
+  const { data: digest } = trpc.notification.digestSettings.useQuery();
+  const { data: etaSlip } = trpc.notification.etaSlipSettings.useQuery();
+
+  const updatePreferences = trpc.notification.updatePreferences.useMutation({
+    onSuccess: () => {
+      void utils.notification.preferences.invalidate();
+      // The digest is sent in the same timezone
+      void utils.notification.digestSettings.invalidate();
+    },
+    onError: (error) =>
+      toast({ title: 'Something went wrong', description: error.message, variant: 'destructive' }),
+  });
+  const updateDigest = trpc.notification.updateDigest.useMutation({
+    onSuccess: () => utils.notification.digestSettings.invalidate(),
+  });
+  const updateEtaSlip = trpc.notification.updateEtaSlip.useMutation({
+    onSuccess: () => utils.notification.etaSlipSettings.invalidate(),
+  });
+
+  const invalidate = () => utils.notification.channels.invalidate();
+  const saveChannel = trpc.notification.saveChannel.useMutation({ onSuccess: invalidate });
+  const setChannelEnabled = trpc.notification.setChannelEnabled.useMutation({
+    onSuccess: invalidate,
+  });
+  const removeChannel = trpc.notification.removeChannel.useMutation({ onSuccess: invalidate });
+  const testChannel = trpc.notification.testChannel.useMutation({
+    onSuccess: (result) => {
+      toast({
+        title: result.success ? 'Test notification sent' : 'Test notification failed',
+        description: result.success ? undefined : result.error,
+        variant: result.success ? 'success' : 'destructive',
+      });
+    },
+    onSettled: invalidate,
+  });
+
+  const withPending = async (type: NotificationChannelType, action: () => Promise<unknown>) => {
+    setPendingType(type);
+    try {
+      await action();
+    } finally {
+      setPendingType(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-[var(--dd-text-primary)]">Notifications</h1>
+        <p className="text-sm text-[var(--dd-text-muted)]">
+          Choose which delivery updates reach you, get a morning digest by email, hear when an ETA
+          slips, and forward notifications to ntfy or Gotify.
+        </p>
+      </div>
+
+      {preferences && (
+        <NotificationPreferences
+          preferences={preferences}
+          onPreferenceChange={(key, value) => {
+            // The slip threshold is saved with the ETA slip settings below
+            if (key === 'etaSlipMinutes') return;
+            updatePreferences.mutate({ [key]: value });
+          }}
+          onRequestPushPermission={async () => {
+            await push.subscribe();
+          }}
+          pushPermission={push.permission}
+          isLoading={preferencesLoading || push.isLoading}
+        />
+      )}
+
+      {digest && (
+        <EmailDigestSettings
+          settings={digest}
+          emailConfigured={digest.emailConfigured}
+          isSaving={updateDigest.isPending}
+          onChange={({ enabled, time, timezone }) =>
+            updateDigest.mutate({
+              enabled,
+              time,
+              // Default to the browser's timezone the first time the digest is turned on
+              timezone:
+                enabled && !digest.enabled && timezone === 'UTC'
+                  ? Intl.DateTimeFormat().resolvedOptions().timeZone
+                  : timezone,
+            })
+          }
+        />
+      )}
+
+      {etaSlip && (
+        <EtaSlipSettings
+          settings={etaSlip}
+          isSaving={updateEtaSlip.isPending}
+          onChange={(settings) => updateEtaSlip.mutate(settings)}
+        />
+      )}
+
+      <NotificationChannels
+        channels={channels}
+        onSave={(values) =>
+          withPending(values.type, () =>
+            saveChannel.mutateAsync(
+              values.type === 'ntfy'
+                ? { ...values, type: 'ntfy', topic: values.topic ?? '' }
+                : { ...values, type: 'gotify' }
+            )
+          )
+        }
+        onToggle={(type, enabled) => setChannelEnabled.mutate({ type, enabled })}
+        onRemove={(type) => removeChannel.mutate({ type })}
+        onTest={(type) => void withPending(type, () => testChannel.mutateAsync({ type }))}
+        pendingType={pendingType}
+        error={saveChannel.error?.message}
+      />
+    </div>
+  );
+}
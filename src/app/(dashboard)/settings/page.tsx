@@ -0,0 +1,9 @@
+import { redirect } from 'next/navigation';
+
+/**
+ * Settings Page
+ * Opens the first settings section
+ */
+export default function SettingsPage() {
+  redirect('/settings/connections');
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import { Download, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { trpc } from '@/lib/trpc/react';
+import { SECURITY_EVENT_LABELS } from '@/types/security';
+
+/**
+ * Describe an entry's details in one line
+ */
+function describeDetails(details: Record<string, unknown> | null): string | null {
+  if (!details) return null;
+
+  const parts = Object.entries(details)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([key, value]) => `${key}: ${Array.isArray(value) ? value.join(', ') : String(value)}`);
+
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+/**
+ * Security Settings Page
+ * The account's security log, with a check that no entry has been changed
+ */
+export default function SecuritySettingsPage() {
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    trpc.security.list.useInfiniteQuery(
+      { limit: 50 },
+      { getNextPageParam: (page) => page.nextCursor ?? undefined }
+    );
+  const { data: verification, isLoading: isVerifying } = trpc.security.verify.useQuery();
+
+  const events = data?.pages.flatMap((page) => page.events) ?? [];
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-[var(--dd-text-primary)]">Security</h1>
+        <p className="text-sm text-[var(--dd-text-muted)]">
+          Sign-ins, platform connections and other changes to your account.
+        </p>
+      </div>
+
+      {/* Chain check and downloads */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-base">
+              {verification?.valid === false ? (
+                <ShieldAlert className="w-4 h-4 text-error" />
+              ) : (
+                <ShieldCheck className="w-4 h-4 text-success" />
+              )}
+              {isVerifying
+                ? 'Checking log...'
+                : verification?.valid === false
+                  ? `Log altered at entry #${verification.sequence}`
+                  : 'Log intact'}
+            </CardTitle>
+            <CardDescription>
+              Each entry is chained to the one before it, so an edited or removed entry is detected.
+              {verification && ` ${verification.entries} entries checked.`}
+            </CardDescription>
+          </div>
+          <div className="flex shrink-0 gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <a href="/api/export/security-log?format=csv" download>
+                <Download className="w-4 h-4" />
+                CSV
+              </a>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <a href="/api/export/security-log?format=ndjson" download>
+                <Download className="w-4 h-4" />
+                NDJSON
+              </a>
+            </Button>
+          </div>
+        </CardHeader>
+      </Card>
+
+      {/* Log entries */}
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <p className="text-sm text-[var(--dd-text-muted)]">Loading...</p>
+          ) : events.length === 0 ? (
+            <p className="text-sm text-[var(--dd-text-muted)]">No events recorded yet.</p>
+          ) : (
+            <ul className="divide-y divide-[var(--dd-border)]">
+              {events.map((event) => {
+                const details = describeDetails(event.details);
+                return (
+                  <li key={event.id} className="py-3 text-sm">
+                    <div className="flex items-baseline justify-between gap-4">
+                      <span className="font-medium text-[var(--dd-text-primary)]">
+                        {SECURITY_EVENT_LABELS[event.event]}
+                      </span>
+                      <span className="shrink-0 text-xs text-[var(--dd-text-muted)]">
+                        {new Date(event.createdAt).toLocaleString()}
+                      </span>
+                    </div>
+                    {details && <p className="text-[var(--dd-text-secondary)]">{details}</p>}
+                    {(event.ipAddress || event.userAgent) && (
+                      <p className="truncate text-xs text-[var(--dd-text-muted)]">
+                        {[event.ipAddress, event.userAgent].filter(Boolean).join(' · ')}
+                      </p>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {hasNextPage && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-4"
+              onClick={() => void fetchNextPage()}
+              disabled={isFetchingNextPage}
+            >
+              {isFetchingNextPage ? 'Loading...' : 'Load more'}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+'use client';
+
+import { Copy, KeyRound, ScrollText, Send, Trash2, Webhook } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { WebhookDeliveryLog, WebhookEndpointForm } from '@/components/webhooks';
+import { toast } from '@/hooks/use-toast';
+import { trpc } from '@/lib/trpc/react';
+import { STATUS_CONFIGS, type DeliveryStatus } from '@/types/delivery';
+import { PLATFORM_CONFIGS, type Platform } from '@/types/platform';
+
+/**
+ * Describe an endpoint's filters in one line
+ */
+function describeFilters(endpoint: {
+  platforms: string[] | null;
+  statuses: string[] | null;
+  arrivingWithinMinutes: number | null;
+}): string {
+  const parts: string[] = [];
+
+  if (endpoint.platforms?.length) {
+    parts.push(
+      endpoint.platforms.map((p) => PLATFORM_CONFIGS[p as Platform]?.name ?? p).join(', ')
+    );
+  }
+  if (endpoint.statuses?.length) {
+    parts.push(
+      endpoint.statuses.map((s) => STATUS_CONFIGS[s as DeliveryStatus]?.label ?? s).join(', ')
+    );
+  }
+  if (endpoint.arrivingWithinMinutes) {
+    parts.push(`arriving within ${endpoint.arrivingWithinMinutes} min`);
+  }
+
+  return parts.length > 0 ? parts.join(' · ') : 'All delivery updates';
+}
+
+/**
+ * Delivery log for one endpoint
+ */
+function EndpointLog({ endpointId }: { endpointId: string }) {
+  const { data, isLoading } = trpc.webhook.deliveries.useQuery({ endpointId });
+  return <WebhookDeliveryLog deliveries={data ?? []} isLoading={isLoading} />;
+}
+
+/**
+ * Webhook Settings Page
+ * Register HTTPS endpoints that receive signed delivery updates
+ */
+export default function WebhookSettingsPage() {
+  const utils = trpc.useUtils();
+  const [revealedSecret, setRevealedSecret] = useState<{ url: string; secret: string } | null>(
+    null
+  );
+  const [openLogId, setOpenLogId] = useState<string | null>(null);
+
+  const { data: endpoints = [], isLoading } = trpc.webhook.list.useQuery();
+
+  const create = trpc.webhook.create.useMutation({
+    onSuccess: ({ endpoint, secret }) => {
+      setRevealedSecret({ url: endpoint.url, secret });
+      void utils.webhook.list.invalidate();
+    },
+  });
+  const update = trpc.webhook.update.useMutation({
+    onSuccess: () => utils.webhook.list.invalidate(),
+  });
+  const rotateSecret = trpc.webhook.rotateSecret.useMutation();
+  const remove = trpc.webhook.delete.useMutation({
+    onSuccess: () => utils.webhook.list.invalidate(),
+  });
+  const sendTest = trpc.webhook.sendTest.useMutation({
+    onSuccess: (result, { id }) => {
+      toast({
+        title: result.success ? 'Test event delivered' : 'Test event failed',
+        description: result.statusCode
+          ? `Endpoint responded with HTTP ${result.statusCode}`
+          : result.error,
+        variant: result.success ? 'success' : 'destructive',
+      });
+      void utils.webhook.deliveries.invalidate({ endpointId: id });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-[var(--dd-text-primary)]">Webhooks</h1>
+        <p className="text-sm text-[var(--dd-text-muted)]">
+          Send delivery updates to Home Assistant, Node-RED or any HTTPS endpoint.
+        </p>
+      </div>
+
+      {/* Newly created or rotated secret - shown once */}
+      {revealedSecret && (
+        <Card className="border-brand-cyan">
+          <CardHeader>
+            <CardTitle className="text-base">Signing secret</CardTitle>
+            <CardDescription>
+              Copy the secret for {revealedSecret.url} now - it will not be shown again. Use it to
+              verify the X-DropDeck-Signature header.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex items-center gap-2">
+            <code className="flex-1 truncate rounded bg-[var(--dd-bg-tertiary)] px-3 py-2 text-sm">
+              {revealedSecret.secret}
+            </code>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => void navigator.clipboard.writeText(revealedSecret.secret)}
+            >
+              <Copy className="w-4 h-4" />
+              Copy
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setRevealedSecret(null)}>
+              Done
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <WebhookEndpointForm
+        onSubmit={async (values) => {
+          await create.mutateAsync(values);
+        }}
+        isSubmitting={create.isPending}
+        error={create.error?.message}
+      />
+
+      {/* Registered endpoints */}
+      {isLoading ? (
+        <p className="text-sm text-[var(--dd-text-muted)]">Loading endpoints...</p>
+      ) : endpoints.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center gap-2 py-10 text-center">
+            <Webhook className="w-8 h-8 text-[var(--dd-text-muted)]" />
+            <p className="text-sm text-[var(--dd-text-muted)]">No webhook endpoints yet.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        endpoints.map((endpoint) => (
+          <Card key={endpoint.id}>
+            <CardHeader className="flex flex-row items-start justify-between gap-4">
+              <div className="min-w-0">
+                <CardTitle className="truncate text-base">
+                  {endpoint.description || endpoint.url}
+                </CardTitle>
+                <CardDescription className="truncate">
+                  {endpoint.description ? `${endpoint.url} · ` : ''}
+                  {describeFilters(endpoint)}
+                </CardDescription>
+              </div>
+              <Switch
+                checked={endpoint.enabled}
+                onCheckedChange={(enabled) => update.mutate({ id: endpoint.id, enabled })}
+                aria-label="Endpoint enabled"
+              />
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => sendTest.mutate({ id: endpoint.id })}
+                  disabled={sendTest.isPending}
+                >
+                  <Send className="w-4 h-4" />
+                  Send test event
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setOpenLogId((current) => (current === endpoint.id ? null : endpoint.id))
+                  }
+                >
+                  <ScrollText className="w-4 h-4" />
+                  {openLogId === endpoint.id ? 'Hide log' : 'Delivery log'}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={async () => {
+                    const { secret } = await rotateSecret.mutateAsync({ id: endpoint.id });
+                    setRevealedSecret({ url: endpoint.url, secret });
+                  }}
+                >
+                  <KeyRound className="w-4 h-4" />
+                  Rotate secret
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-error"
+                  onClick={() => remove.mutate({ id: endpoint.id })}
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Delete
+                </Button>
+              </div>
+
+              {openLogId === endpoint.id && <EndpointLog endpointId={endpoint.id} />}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
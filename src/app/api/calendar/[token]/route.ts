@@ -0,0 +1,45 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { EXPORT_FORMATS } from '@/lib/export';
+import { calendarFeedRateLimiter, checkRateLimit, getRateLimitHeaders } from '@/lib/ratelimit';
+import { exportService, findCalendarFeedUser, hashCalendarToken } from '@/lib/services/export';
+
+/**
+ * GET /api/calendar/[token]
+ * Private iCalendar feed of upcoming deliveries for calendar app subscriptions.
+ * The token in the URL is the only credential, as calendar apps cannot sign in.
+ * A trailing ".ics" is accepted, as some apps expect one.
+ */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  const token = (await params).token.replace(/\.ics$/, '');
+
+  try {
+    // Rate limiting
+    const rateLimitResult = await checkRateLimit(
+      calendarFeedRateLimiter,
+      `calendar-feed:${hashCalendarToken(token).slice(0, 16)}`
+    );
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: 'Too many requests' },
+        { status: 429, headers: getRateLimitHeaders(rateLimitResult) }
+      );
+    }
+
+    const userId = await findCalendarFeedUser(token);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unknown calendar' }, { status: 404 });
+    }
+
+    return new Response(await exportService.calendar(userId), {
+      headers: {
+        'Content-Type': EXPORT_FORMATS.ics.contentType,
+        'Content-Disposition': 'inline; filename="dropdeck.ics"',
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
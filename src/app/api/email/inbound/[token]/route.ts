@@ -0,0 +1,91 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, getRateLimitHeaders, inboundEmailRateLimiter } from '@/lib/ratelimit';
+import {
+  emailImportService,
+  findInboxUser,
+  hashInboxToken,
+  MAX_EMAIL_SIZE,
+} from '@/lib/services/email-import';
+
+/**
+ * Read a request body, giving up as soon as it passes maxBytes
+ * Returns null for a body that is too large, so it is never held in full.
+ */
+async function readBody(req: NextRequest, maxBytes: number): Promise<Buffer | null> {
+  if (!req.body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * POST /api/email/inbound/[token]
+ * Import a forwarded order email. The body is the raw RFC 822 message
+ * (Content-Type: message/rfc822), as posted by mail providers' inbound
+ * routing or a mail filter piping to curl.
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+
+  try {
+    // Rate limiting
+    const rateLimitResult = await checkRateLimit(
+      inboundEmailRateLimiter,
+      `inbound-email:${hashInboxToken(token).slice(0, 16)}`
+    );
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: 'Too many requests' },
+        { status: 429, headers: getRateLimitHeaders(rateLimitResult) }
+      );
+    }
+
+    if (Number(req.headers.get('content-length')) > MAX_EMAIL_SIZE) {
+      return NextResponse.json({ error: 'Message too large' }, { status: 413 });
+    }
+
+    const userId = await findInboxUser(token);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unknown inbox' }, { status: 404 });
+    }
+
+    // Content-Length can be missing or wrong (chunked uploads), so the read is capped too
+    const raw = await readBody(req, MAX_EMAIL_SIZE);
+    if (!raw) {
+      return NextResponse.json({ error: 'Message too large' }, { status: 413 });
+    }
+    if (raw.length === 0) {
+      return NextResponse.json({ error: 'Empty message' }, { status: 400 });
+    }
+
+    const { result, parser, delivery } = await emailImportService.importEmail(userId, raw);
+
+    return NextResponse.json({
+      received: true,
+      result,
+      parser,
+      deliveryId: delivery?.id ?? null,
+    });
+  } catch (error) {
+    console.error('Inbound email error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
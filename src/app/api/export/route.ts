@@ -0,0 +1,68 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { EXPORT_FORMATS } from '@/lib/export';
+import { checkRateLimit, exportRateLimiter, getRateLimitHeaders } from '@/lib/ratelimit';
+import { exportService, getExportFilename } from '@/lib/services/export';
+
+/**
+ * Query string schema for an export
+ */
+const exportQuerySchema = z.object({
+  format: z.enum(['csv', 'ndjson', 'ics']).default('csv'),
+  scope: z.enum(['active', 'history', 'all']).default('all'),
+  items: z
+    .enum(['true', 'false', '1', '0'])
+    .default('false')
+    .transform((value) => value === 'true' || value === '1'),
+});
+
+/**
+ * GET /api/export
+ * Download the user's deliveries as CSV, NDJSON or iCalendar.
+ * The file is streamed as it is read, so large histories download in constant memory.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    const result = exportQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams.entries())
+    );
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    // Rate limiting
+    const rateLimitResult = await checkRateLimit(exportRateLimiter, `export:${userId}`);
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: 'Too many requests' },
+        { status: 429, headers: getRateLimitHeaders(rateLimitResult) }
+      );
+    }
+
+    const { format, scope, items } = result.data;
+    const body = await exportService.export(userId, format, { scope, perItem: items });
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': EXPORT_FORMATS[format].contentType,
+        'Content-Disposition': `attachment; filename="${getExportFilename(format, scope)}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Export error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { EXPORT_FORMATS, toReadableStream } from '@/lib/export';
+import { checkRateLimit, exportRateLimiter, getRateLimitHeaders } from '@/lib/ratelimit';
+import { formatSecurityLog } from '@/lib/services/security-log';
+
+/**
+ * Query string schema for a security log export
+ */
+const securityLogQuerySchema = z.object({
+  format: z.enum(['csv', 'ndjson']).default('csv'),
+});
+
+/**
+ * GET /api/export/security-log
+ * Download the user's security log as CSV or NDJSON, oldest first.
+ * Entries keep their hashes so the chain can be checked offline.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    const result = securityLogQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams.entries())
+    );
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    // Rate limiting
+    const rateLimitResult = await checkRateLimit(exportRateLimiter, `export:${userId}`);
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: 'Too many requests' },
+        { status: 429, headers: getRateLimitHeaders(rateLimitResult) }
+      );
+    }
+
+    const { format } = result.data;
+    const { extension, contentType } = EXPORT_FORMATS[format];
+    const filename = `dropdeck-security-log-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+    return new Response(toReadableStream(formatSecurityLog(db, userId, format)), {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Security log export error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
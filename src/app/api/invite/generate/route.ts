@@ -1,20 +1,7 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { auth } from '@/lib/auth';
-import { db } from '@/lib/db';
-import { inviteCodes } from '@/lib/db/schema';
-
-/**
- * Generate a random invite code
- */
-function generateCode(length = 8): string {
-  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No I, O, 0, 1 for clarity
-  let code = '';
-  for (let i = 0; i < length; i++) {
-    code += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return code;
-}
+import { createInviteCodes, isAdmin } from '@/lib/services/admin';
 
 /**
  * Request body schema for generating invite codes
@@ -38,12 +25,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // TODO: Add proper admin check
-    // For now, we'll use an environment variable for admin emails
-    const adminEmails = (process.env.ADMIN_EMAILS ?? '').split(',').map((e) => e.trim());
-    const isAdmin = session.user.email && adminEmails.includes(session.user.email);
-
-    if (!isAdmin) {
+    if (!(await isAdmin(session.user.id))) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
@@ -58,54 +40,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { count, maxRedemptions, expiresInDays, note } = result.data;
-
-    // Calculate expiration date
-    let expiresAt: Date | undefined;
-    if (expiresInDays) {
-      expiresAt = new Date();
-      expiresAt.setDate(expiresAt.getDate() + expiresInDays);
-    }
-
-    // Generate codes
-    const codes: string[] = [];
-    const createdCodes: Array<{ code: string; id: string }> = [];
-
-    for (let i = 0; i < count; i++) {
-      let code: string;
-      let attempts = 0;
-
-      // Generate unique code
-      do {
-        code = generateCode();
-        attempts++;
-        if (attempts > 10) {
-          throw new Error('Failed to generate unique code');
-        }
-      } while (codes.includes(code));
-
-      codes.push(code);
-
-      const [created] = await db
-        .insert(inviteCodes)
-        .values({
-          code,
-          createdBy: session.user.id,
-          maxRedemptions,
-          expiresAt,
-          note,
-        })
-        .returning({ id: inviteCodes.id, code: inviteCodes.code });
-
-      if (created) {
-        createdCodes.push(created);
-      }
-    }
+    const { codes, expiresAt } = await createInviteCodes(session.user.id, result.data);
 
     return NextResponse.json({
       success: true,
-      codes: createdCodes,
-      count: createdCodes.length,
+      codes,
+      count: codes.length,
       expiresAt,
     });
   } catch (error) {
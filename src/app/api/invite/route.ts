@@ -4,6 +4,7 @@ import { z } from 'zod';
 import { auth } from '@/lib/auth';
 import { db } from '@/lib/db';
 import { inviteCodes, inviteRedemptions, userPreferences } from '@/lib/db/schema';
+import { getRequestMeta, recordSecurityEvent } from '@/lib/services/security-log';
 
 /**
  * Request body schema for redeeming an invite code
@@ -112,6 +113,13 @@ export async function POST(request: NextRequest) {
         });
     });
 
+    await recordSecurityEvent({
+      userId,
+      event: 'invite_redeemed',
+      details: { inviteCodeId: inviteCode.id },
+      request: getRequestMeta(request.headers),
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Welcome to the DropDeck beta!',
@@ -0,0 +1,52 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, getRateLimitHeaders, shareLinkRateLimiter } from '@/lib/ratelimit';
+import { generateShareAblyToken } from '@/lib/realtime/ably';
+import { findActiveShare, hashShareToken } from '@/lib/services/shares';
+
+/**
+ * GET /api/share/[token]/realtime
+ * Ably token request for a public tracking page.
+ * The token can only subscribe to driver locations of the shared delivery.
+ */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+
+  try {
+    // Rate limiting
+    const rateLimitResult = await checkRateLimit(
+      shareLinkRateLimiter,
+      `share-link:${hashShareToken(token).slice(0, 16)}`
+    );
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: 'Too many requests' },
+        { status: 429, headers: getRateLimitHeaders(rateLimitResult) }
+      );
+    }
+
+    const share = await findActiveShare(token);
+    if (!share) {
+      return NextResponse.json({ error: 'Unknown share link' }, { status: 404 });
+    }
+
+    if (share.privacy === 'eta') {
+      return NextResponse.json(
+        { error: 'Live location is not shared on this link' },
+        { status: 403 }
+      );
+    }
+
+    const tokenRequest = await generateShareAblyToken(share.id, share.deliveryId, share.expiresAt);
+    if (!tokenRequest) {
+      return NextResponse.json({ error: 'Live updates are unavailable' }, { status: 503 });
+    }
+
+    return NextResponse.json(tokenRequest, {
+      headers: { 'Cache-Control': 'private, no-store' },
+    });
+  } catch (error) {
+    console.error('Share realtime token error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
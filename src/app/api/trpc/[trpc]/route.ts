@@ -1,4 +1,5 @@
 import { fetchRequestHandler } from '@trpc/server/adapters/fetch';
+import { RateLimitError } from '@/lib/errors';
 import { createContext } from '@/lib/trpc/context';
 import { appRouter } from '@/server/routers';
 
@@ -15,6 +16,13 @@ const handler = (req: Request) =>
       createContext({
         headers: req.headers,
       }),
+    // Rate limited calls tell HTTP clients when to come back
+    responseMeta: ({ errors }) => {
+      const retryAfter = errors.find((error) => error.cause instanceof RateLimitError)?.cause;
+      return retryAfter instanceof RateLimitError
+        ? { headers: new Headers({ 'Retry-After': retryAfter.retryAfter.toString() }) }
+        : {};
+    },
     onError:
       process.env.NODE_ENV === 'development'
         ? ({ path, error }) => {
@@ -1,11 +1,20 @@
 import { eq } from 'drizzle-orm';
-import { type NextRequest, NextResponse } from 'next/server';
+import { after, type NextRequest, NextResponse } from 'next/server';
 import { getAdapter, hasAdapter, PlatformDataError } from '@/lib/adapters';
 import { db } from '@/lib/db';
 import { deliveryCache } from '@/lib/db/schema';
 import { checkRateLimit, getRateLimitHeaders, webhookRateLimiter } from '@/lib/ratelimit';
-import { publishDeliveryUpdate, publishLocationUpdate } from '@/lib/realtime/pubsub';
+import {
+  type DeliveryUpdatePayload,
+  publishDeliveryUpdate,
+  publishLocationUpdate,
+} from '@/lib/realtime/pubsub';
 import { cacheKeys, redis, ttl } from '@/lib/realtime/redis';
+import { upsertCachedDeliveries } from '@/lib/services/delivery-cache';
+import { deliveryLifecycle } from '@/lib/services/lifecycle';
+import { notificationService } from '@/lib/services/notifications';
+import { webhookService } from '@/lib/services/webhooks';
+import { isFinalStatus } from '@/types/delivery';
 import type { Platform } from '@/types/platform';
 
 /**
@@ -85,38 +94,38 @@ export async function POST(
     });
 
     if (cached) {
-      // Convert DriverLocation to match schema (Date -> string for timestamp)
-      const driverLocation = delivery.driver?.location
-        ? {
-            lat: delivery.driver.location.lat,
-            lng: delivery.driver.location.lng,
-            heading: delivery.driver.location.heading,
-            speed: delivery.driver.location.speed,
-            timestamp: delivery.driver.location.timestamp.toISOString(),
-          }
-        : null;
-
       // Update cache
-      await db
-        .update(deliveryCache)
-        .set({
-          deliveryData: delivery,
-          driverLocation,
-          etaMinutes: delivery.eta.minutesRemaining,
-          status: delivery.status,
-          lastUpdated: new Date(),
-          expiresAt: new Date(Date.now() + ttl.deliveryCache * 1000),
-        })
-        .where(eq(deliveryCache.id, cached.id));
+      const [change] = await upsertCachedDeliveries(
+        db,
+        cached.userId,
+        [delivery],
+        new Date(Date.now() + ttl.deliveryCache * 1000)
+      );
+
+      // The cached copy carries the ETA revisions
+      const updated = change?.delivery ?? delivery;
 
       // Publish delivery update
-      await publishDeliveryUpdate(cached.userId, {
+      const update: DeliveryUpdatePayload = {
         deliveryId: delivery.id,
         platform: delivery.platform,
         status: delivery.status,
         statusLabel: delivery.statusLabel,
         eta: delivery.eta.minutesRemaining,
-        delivery,
+        previousStatus: change?.previous?.status,
+        previousEta: change?.previous?.eta.minutesRemaining,
+        isComplete: isFinalStatus(delivery.status),
+        delivery: updated,
+      };
+      await publishDeliveryUpdate(cached.userId, update);
+
+      // User endpoints can be slow or down; don't hold up or fail the platform's ack
+      after(async () => {
+        try {
+          await webhookService.dispatch(cached.userId, update);
+        } catch (error) {
+          console.error(`Webhook dispatch failed for ${platform}:`, error);
+        }
       });
 
       // Publish location update if available
@@ -127,6 +136,19 @@ export async function POST(
           location: delivery.driver.location,
         });
       }
+
+      // Notify the user when the status moved on
+      const previous = change?.previous;
+      if (previous && previous.status !== delivery.status) {
+        await notificationService.sendDeliveryUpdate(cached.userId, updated, previous.status);
+      } else if (previous) {
+        await notificationService.sendEtaSlipped(cached.userId, updated, previous);
+      }
+
+      // Archive finished deliveries
+      if (change) {
+        await deliveryLifecycle.processChanges(cached.userId, [change]);
+      }
     }
 
     return NextResponse.json({
@@ -0,0 +1,31 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { SharedTracking } from '@/components/share';
+import { getSharedDelivery } from '@/lib/services/shares';
+
+export const metadata: Metadata = {
+  title: 'Live tracking',
+  robots: { index: false, follow: false },
+  // The token is the credential, so keep it out of Referer headers
+  referrer: 'no-referrer',
+};
+
+/**
+ * Public Tracking Page
+ * Live status of one delivery for whoever holds the share link. Needs no
+ * account, and shows no order items, prices or account details.
+ */
+export default async function SharedTrackingPage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+  const shared = await getSharedDelivery(token);
+
+  if (!shared) {
+    notFound();
+  }
+
+  return <SharedTracking token={token} shared={shared} />;
+}
@@ -0,0 +1,45 @@
+'use client';
+
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { cn } from '@/lib/utils';
+
+/**
+ * Admin sections
+ */
+const sections = [
+  { title: 'Invite codes', href: '/admin/invites' },
+  { title: 'Feedback', href: '/admin/feedback' },
+  { title: 'Users', href: '/admin/users' },
+  { title: 'Audit log', href: '/admin/audit' },
+];
+
+/**
+ * AdminNav component
+ * Tabs between the admin sections
+ */
+export function AdminNav() {
+  const pathname = usePathname();
+
+  return (
+    <nav className="flex gap-1 border-b border-[var(--dd-border)]">
+      {sections.map((section) => {
+        const isActive = pathname === section.href;
+        return (
+          <Link
+            key={section.href}
+            href={section.href}
+            className={cn(
+              '-mb-px border-b-2 px-3 py-2 text-sm font-medium transition-colors',
+              isActive
+                ? 'border-brand-cyan text-brand-cyan'
+                : 'border-transparent text-[var(--dd-text-secondary)] hover:text-[var(--dd-text-primary)]'
+            )}
+          >
+            {section.title}
+          </Link>
+        );
+      })}
+    </nav>
+  );
+}
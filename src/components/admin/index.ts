@@ -0,0 +1,8 @@
+/**
+ * Admin components
+ * Navigation and charts for the admin console
+ */
+
+export { AdminNav } from './admin-nav';
+export type { RedemptionChartProps } from './redemption-chart';
+export { RedemptionChart } from './redemption-chart';
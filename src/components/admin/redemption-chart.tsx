@@ -0,0 +1,85 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import type { RedemptionStats } from '@/types/admin';
+
+/**
+ * RedemptionChart props
+ */
+export interface RedemptionChartProps {
+  /** Counts from admin.redemptionStats */
+  stats?: RedemptionStats;
+  /** Loading state */
+  isLoading?: boolean;
+}
+
+/**
+ * Label a UTC day, e.g. "2026-03-07" -> "Mar 7"
+ */
+function formatDay(day: string): string {
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * RedemptionChart component
+ * Invite redemptions per day and the most redeemed codes
+ */
+export function RedemptionChart({ stats, isLoading = false }: RedemptionChartProps) {
+  if (isLoading || !stats) {
+    return <Skeleton className="h-64" />;
+  }
+
+  const total = stats.daily.reduce((sum, day) => sum + day.count, 0);
+  const maxDay = Math.max(1, ...stats.daily.map((day) => day.count));
+  const maxCode = Math.max(1, ...stats.byCode.map((code) => code.redemptions));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Redemptions</CardTitle>
+        <CardDescription>
+          {total} in the last {stats.daily.length} days
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex h-32 items-end gap-0.5">
+          {stats.daily.map((day, index) => (
+            <div key={day.day} className="flex flex-1 flex-col items-center gap-1">
+              <div
+                className="w-full rounded-t bg-brand-cyan"
+                style={{ height: `${(day.count / maxDay) * 100}px` }}
+                title={`${formatDay(day.day)}: ${day.count}`}
+              />
+              <span className="text-[10px] text-[var(--dd-text-muted)]">
+                {index % 7 === 0 ? formatDay(day.day) : ''}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {stats.byCode.length > 0 && (
+          <ul className="space-y-2">
+            {stats.byCode.map((code) => (
+              <li key={code.code} className="flex items-center gap-3 text-sm">
+                <code className="w-24 shrink-0 text-[var(--dd-text-secondary)]">{code.code}</code>
+                <div
+                  className="h-3 rounded bg-brand-cyan"
+                  style={{ width: `${(code.redemptions / maxCode) * 100}%` }}
+                  title={code.note ?? undefined}
+                />
+                <span className="shrink-0 tabular-nums text-[var(--dd-text-primary)]">
+                  {code.redemptions}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,12 +3,16 @@
 import { motion } from 'framer-motion';
 import {
   AlertTriangle,
+  CalendarClock,
   CheckCircle2,
   ChefHat,
   ChevronRight,
   MapPin,
+  MapPinCheck,
   Navigation,
   Package,
+  Share2,
+  Store,
   Truck,
   User,
   XCircle,
@@ -16,7 +20,7 @@ import {
 import { useMemo } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { cn } from '@/lib/utils';
-import type { DeliveryStatus, UnifiedDelivery } from '@/types/delivery';
+import { type DeliveryStatus, getFulfillmentType, type UnifiedDelivery } from '@/types/delivery';
 import { PLATFORM_CONFIGS, type Platform } from '@/types/platform';
 import { ETADisplayCompact } from './eta-display';
 
@@ -34,6 +38,8 @@ interface DeliveryCardProps {
   onClick?: () => void;
   /** Expand handler */
   onExpand?: () => void;
+  /** Share handler, for a public tracking link */
+  onShare?: () => void;
   /** Additional CSS classes */
   className?: string;
 }
@@ -44,6 +50,7 @@ interface DeliveryCardProps {
 const STATUS_ICONS: Record<DeliveryStatus, typeof Package> = {
   preparing: ChefHat,
   ready_for_pickup: Package,
+  checked_in: MapPinCheck,
   driver_assigned: User,
   driver_heading_to_store: Navigation,
   driver_at_store: Package,
@@ -68,6 +75,11 @@ const STATUS_COLORS: Record<DeliveryStatus, { text: string; bg: string; border:
     bg: 'bg-slate-100 dark:bg-slate-800',
     border: 'border-slate-200 dark:border-slate-700',
   },
+  checked_in: {
+    text: 'text-brand-cyan',
+    bg: 'bg-brand-cyan/10',
+    border: 'border-brand-cyan/30',
+  },
   driver_assigned: {
     text: 'text-brand-cyan',
     bg: 'bg-brand-cyan/10',
@@ -121,13 +133,49 @@ function getPlatformStyles(platform: Platform) {
   };
 }
 
+/**
+ * Format a scheduled delivery or pickup window, e.g. "Tue, Oct 20, 8:00 AM - 12:00 PM"
+ */
+function formatDeliveryWindow(window: { start: Date; end: Date }): string {
+  const start = new Date(window.start);
+  const end = new Date(window.end);
+  const day = start.toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+  const time = (date: Date) =>
+    date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+  return `${day}, ${time(start)} - ${time(end)}`;
+}
+
+/**
+ * Progress indicator stages for deliveries and for store pickups
+ */
+const DELIVERY_STAGES: DeliveryStatus[] = [
+  'preparing',
+  'out_for_delivery',
+  'arriving',
+  'delivered',
+];
+const PICKUP_STAGES: DeliveryStatus[] = [
+  'preparing',
+  'ready_for_pickup',
+  'checked_in',
+  'delivered',
+];
+
 /**
  * Progress indicator component
  */
-function ProgressIndicator({ status }: { status: DeliveryStatus }) {
-  const stages = ['preparing', 'out_for_delivery', 'arriving', 'delivered'];
+function ProgressIndicator({ status, isPickup }: { status: DeliveryStatus; isPickup: boolean }) {
+  const stages = isPickup ? PICKUP_STAGES : DELIVERY_STAGES;
   const currentStageIndex = useMemo(() => {
     if (status === 'cancelled') return -1;
+    if (isPickup) {
+      return status === 'delayed' ? 0 : stages.indexOf(status);
+    }
     if (status === 'delayed') return stages.indexOf('out_for_delivery');
     if (
       [
@@ -140,7 +188,7 @@ function ProgressIndicator({ status }: { status: DeliveryStatus }) {
       return 0.5; // Between preparing and out_for_delivery
     }
     return stages.indexOf(status);
-  }, [status]);
+  }, [status, isPickup, stages]);
 
   if (status === 'cancelled') {
     return null;
@@ -173,12 +221,14 @@ export function DeliveryCard({
   isExpanded = false,
   onClick,
   onExpand,
+  onShare,
   className,
 }: DeliveryCardProps) {
   const platformStyles = getPlatformStyles(delivery.platform);
   const statusColors = STATUS_COLORS[delivery.status];
   const StatusIcon = STATUS_ICONS[delivery.status];
   const isActive = !['delivered', 'cancelled'].includes(delivery.status);
+  const isPickup = getFulfillmentType(delivery) === 'pickup';
   const isArriving = delivery.status === 'arriving' || delivery.eta.minutesRemaining <= 5;
 
   return (
@@ -200,6 +250,9 @@ export function DeliveryCard({
             'ring-1 ring-brand-cyan/50 shadow-[0_0_12px_rgba(6,182,212,0.15)]',
           className
         )}
+        style={
+          delivery.owner ? { borderLeftWidth: 3, borderLeftColor: delivery.owner.color } : undefined
+        }
         onClick={onClick}
       >
         <CardContent className="p-4">
@@ -223,13 +276,33 @@ export function DeliveryCard({
             {/* ETA */}
             {isActive && <ETADisplayCompact delivery={delivery} />}
             {delivery.status === 'delivered' && (
-              <span className="text-sm font-medium text-success">Delivered</span>
+              <span className="text-sm font-medium text-success">
+                {isPickup ? 'Picked Up' : 'Delivered'}
+              </span>
             )}
             {delivery.status === 'cancelled' && (
               <span className="text-sm font-medium text-urgent">Cancelled</span>
             )}
           </div>
 
+          {/* Household member the delivery belongs to */}
+          {delivery.owner && (
+            <div className="flex items-center gap-1.5 mb-2 text-xs text-[var(--dd-text-secondary)]">
+              <div
+                className="w-2 h-2 rounded-full"
+                style={{ backgroundColor: delivery.owner.color }}
+              />
+              {delivery.owner.name ?? 'Household member'}
+            </div>
+          )}
+
+          {/* User-supplied name (tracked packages) */}
+          {delivery.label && (
+            <p className="mb-2 text-sm font-medium text-[var(--dd-text-primary)] truncate">
+              {delivery.label}
+            </p>
+          )}
+
           {/* Status row */}
           <div className="flex items-center gap-2 mb-2">
             <div
@@ -261,11 +334,46 @@ export function DeliveryCard({
             </div>
           )}
 
-          {/* Destination */}
-          <div className="flex items-start gap-2 text-xs text-[var(--dd-text-muted)]">
-            <MapPin className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
-            <span className="line-clamp-1">{delivery.destination.address}</span>
-          </div>
+          {/* Carrier and scheduled window (shipped orders) */}
+          {delivery.carrier && isActive && (
+            <div className="flex items-center gap-2 mb-2 text-xs text-[var(--dd-text-secondary)]">
+              <Truck className="w-3.5 h-3.5" />
+              <span>{delivery.carrier.name}</span>
+              {delivery.carrier.trackingNumber && (
+                <span className="font-mono text-[var(--dd-text-muted)]">
+                  {delivery.carrier.trackingNumber}
+                </span>
+              )}
+            </div>
+          )}
+          {delivery.eta.window && isActive && (
+            <div className="flex items-center gap-2 mb-2 text-xs text-[var(--dd-text-secondary)]">
+              <CalendarClock className="w-3.5 h-3.5" />
+              <span>{formatDeliveryWindow(delivery.eta.window)}</span>
+            </div>
+          )}
+
+          {/* Pickup store and window (store pickups) */}
+          {isPickup && delivery.pickup?.storeName && (
+            <div className="flex items-center gap-2 mb-2 text-xs text-[var(--dd-text-secondary)]">
+              <Store className="w-3.5 h-3.5" />
+              <span className="truncate">{delivery.pickup.storeName}</span>
+            </div>
+          )}
+          {isPickup && delivery.pickup?.window && isActive && (
+            <div className="flex items-center gap-2 mb-2 text-xs text-[var(--dd-text-secondary)]">
+              <CalendarClock className="w-3.5 h-3.5" />
+              <span>Pickup {formatDeliveryWindow(delivery.pickup.window)}</span>
+            </div>
+          )}
+
+          {/* Destination, or the store for pickups */}
+          {delivery.destination.address && (
+            <div className="flex items-start gap-2 text-xs text-[var(--dd-text-muted)]">
+              <MapPin className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+              <span className="line-clamp-1">{delivery.destination.address}</span>
+            </div>
+          )}
 
           {/* Order summary */}
           <div className="flex items-center justify-between mt-3 pt-3 border-t border-[var(--dd-border)]">
@@ -279,6 +387,20 @@ export function DeliveryCard({
               )}
             </div>
 
+            {onShare && isActive && (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onShare();
+                }}
+                className="ml-auto mr-3 flex items-center gap-1 text-xs text-[var(--dd-text-muted)] hover:text-brand-cyan"
+              >
+                <Share2 className="w-3.5 h-3.5" />
+                Share
+              </button>
+            )}
+
             {onExpand && (
               <button
                 type="button"
@@ -297,7 +419,7 @@ export function DeliveryCard({
           </div>
 
           {/* Progress indicator */}
-          <ProgressIndicator status={delivery.status} />
+          <ProgressIndicator status={delivery.status} isPickup={isPickup} />
         </CardContent>
       </Card>
     </motion.div>
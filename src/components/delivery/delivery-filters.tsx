@@ -29,6 +29,7 @@ const STATUS_OPTIONS: Array<{
 }> = [
   { value: 'preparing', label: 'Preparing', group: 'active' },
   { value: 'ready_for_pickup', label: 'Ready for Pickup', group: 'active' },
+  { value: 'checked_in', label: 'Checked In', group: 'active' },
   { value: 'driver_assigned', label: 'Driver Assigned', group: 'active' },
   { value: 'driver_heading_to_store', label: 'Driver En Route', group: 'active' },
   { value: 'driver_at_store', label: 'Driver at Store', group: 'active' },
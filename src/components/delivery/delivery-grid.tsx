@@ -22,6 +22,8 @@ interface DeliveryGridProps {
   onSelect?: (deliveryId: string) => void;
   /** Expand handler */
   onExpand?: (deliveryId: string) => void;
+  /** Share handler, for a public tracking link */
+  onShare?: (delivery: UnifiedDelivery) => void;
   /** Loading state */
   isLoading?: boolean;
   /** Error message */
@@ -164,6 +166,7 @@ export function DeliveryGrid({
   expandedId,
   onSelect,
   onExpand,
+  onShare,
   isLoading = false,
   error = null,
   emptyType = 'no-deliveries',
@@ -231,6 +234,7 @@ export function DeliveryGrid({
             isExpanded={expandedId === delivery.id}
             onClick={() => handleSelect(delivery.id)}
             onExpand={() => handleExpand(delivery.id)}
+            onShare={onShare && (() => onShare(delivery))}
           />
         ))}
       </AnimatePresence>
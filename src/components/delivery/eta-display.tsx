@@ -11,8 +11,10 @@ import {
   formatETARange,
   getConfidenceColor,
 } from '@/lib/services/eta';
+import { getEtaSlip, normalizeEtaRevisions } from '@/lib/services/eta-drift';
 import { cn } from '@/lib/utils';
-import type { DeliveryStatus, UnifiedDelivery } from '@/types/delivery';
+import { useDashboardStore } from '@/stores/dashboard-store';
+import type { DeliveryStatus, EtaRevision, UnifiedDelivery } from '@/types/delivery';
 
 /**
  * ETADisplay props
@@ -28,6 +30,8 @@ interface ETADisplayProps {
   showConfidence?: boolean;
   /** Show range for low confidence */
   showRange?: boolean;
+  /** Show how the ETA has drifted from the first promise */
+  showDrift?: boolean;
   /** Additional CSS classes */
   className?: string;
 }
@@ -114,6 +118,83 @@ function ConfidenceBadge({ level, className }: { level: ETAConfidenceLevel; clas
   );
 }
 
+/**
+ * Sparkline dimensions (px)
+ */
+const SPARKLINE_WIDTH = 64;
+const SPARKLINE_HEIGHT = 16;
+const SPARKLINE_PADDING = 2;
+
+/**
+ * Sparkline of every ETA revision against the first promise
+ * The dashed line is the original promise; points above it are later.
+ */
+function EtaDriftSparkline({
+  revisions,
+  slipMinutes,
+  className,
+}: {
+  revisions: EtaRevision[];
+  slipMinutes: number;
+  className?: string;
+}) {
+  const points = useMemo(() => {
+    const promised = revisions[0]?.estimatedArrival.getTime() ?? 0;
+    const slips = revisions.map((r) => (r.estimatedArrival.getTime() - promised) / 60000);
+    const min = Math.min(0, ...slips);
+    const span = Math.max(Math.max(0, ...slips) - min, 1);
+    const height = SPARKLINE_HEIGHT - SPARKLINE_PADDING * 2;
+    const step = (SPARKLINE_WIDTH - SPARKLINE_PADDING * 2) / Math.max(slips.length - 1, 1);
+    const toY = (slip: number) => SPARKLINE_PADDING + height - ((slip - min) / span) * height;
+
+    return {
+      baseline: toY(0),
+      line: slips.map((slip, i) => `${SPARKLINE_PADDING + i * step},${toY(slip)}`).join(' '),
+    };
+  }, [revisions]);
+
+  const label =
+    slipMinutes === 0
+      ? 'On promise'
+      : `${slipMinutes > 0 ? '+' : '-'}${formatETADisplay(Math.abs(slipMinutes))} vs promised`;
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1.5 text-xs tabular-nums',
+        slipMinutes > 0 ? 'text-warning' : 'text-[var(--dd-text-muted)]',
+        className
+      )}
+    >
+      <svg
+        width={SPARKLINE_WIDTH}
+        height={SPARKLINE_HEIGHT}
+        viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`}
+        role="img"
+        aria-label={`ETA revised ${revisions.length - 1} times`}
+      >
+        <line
+          x1={0}
+          x2={SPARKLINE_WIDTH}
+          y1={points.baseline}
+          y2={points.baseline}
+          stroke="var(--dd-text-muted)"
+          strokeDasharray="2 2"
+          strokeWidth={1}
+        />
+        <polyline
+          points={points.line}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={1.5}
+          strokeLinejoin="round"
+        />
+      </svg>
+      {label}
+    </span>
+  );
+}
+
 /**
  * ETADisplay component
  * Shows ETA with animations and confidence indicators
@@ -125,10 +206,15 @@ export function ETADisplay({
   size = 'md',
   showConfidence = true,
   showRange = true,
+  showDrift = true,
   className,
 }: ETADisplayProps) {
-  // Calculate ETA if not provided
-  const etaResult = useMemo(() => providedEta ?? calculateETA(delivery), [delivery, providedEta]);
+  // Calculate ETA if not provided, using what was learned from past deliveries
+  const etaModel = useDashboardStore((state) => state.etaModel);
+  const etaResult = useMemo(
+    () => providedEta ?? calculateETA(delivery, etaModel),
+    [delivery, providedEta, etaModel]
+  );
 
   // Track previous ETA for change detection
   const [previousMinutes, setPreviousMinutes] = useState(etaResult.minutesRemaining);
@@ -167,6 +253,10 @@ export function ETADisplay({
   // Format the ETA display
   const displayText = formatETADisplay(etaResult.minutesRemaining);
   const rangeText = showRange ? formatETARange(etaResult.range) : null;
+  const revisions = useMemo(
+    () => normalizeEtaRevisions(delivery.eta.revisions),
+    [delivery.eta.revisions]
+  );
 
   return (
     <div className={cn('flex flex-col', styles.container, className)}>
@@ -224,6 +314,11 @@ export function ETADisplay({
         <span className={cn('text-[var(--dd-text-muted)]', styles.label)}>Window: {rangeText}</span>
       )}
 
+      {/* ETA drift since the first promise */}
+      {showDrift && revisions.length >= 2 && !isDelivered && (
+        <EtaDriftSparkline revisions={revisions} slipMinutes={getEtaSlip(delivery)} />
+      )}
+
       {/* Confidence badge */}
       {showConfidence && etaResult.confidenceLevel !== 'high' && (
         <ConfidenceBadge level={etaResult.confidenceLevel} className={styles.badge} />
@@ -239,8 +334,12 @@ export function ETADisplayCompact({
   delivery,
   etaResult: providedEta,
   className,
-}: Omit<ETADisplayProps, 'size' | 'showConfidence' | 'showRange'>) {
-  const etaResult = useMemo(() => providedEta ?? calculateETA(delivery), [delivery, providedEta]);
+}: Omit<ETADisplayProps, 'size' | 'showConfidence' | 'showRange' | 'showDrift'>) {
+  const etaModel = useDashboardStore((state) => state.etaModel);
+  const etaResult = useMemo(
+    () => providedEta ?? calculateETA(delivery, etaModel),
+    [delivery, providedEta, etaModel]
+  );
 
   const isArriving = delivery.status === 'arriving' || etaResult.minutesRemaining < 5;
   const isDelivered = delivery.status === 'delivered';
@@ -7,6 +7,7 @@ import {
   ChefHat,
   ClipboardCheck,
   MapPin,
+  MapPinCheck,
   PackageCheck,
   Store,
   Truck,
@@ -15,7 +16,7 @@ import {
 } from 'lucide-react';
 import { useMemo } from 'react';
 import { cn } from '@/lib/utils';
-import type { DeliveryStatus, UnifiedDelivery } from '@/types/delivery';
+import { type DeliveryStatus, getFulfillmentType, type UnifiedDelivery } from '@/types/delivery';
 
 /**
  * ETATimeline props
@@ -55,6 +56,12 @@ const STATUS_CONFIG: Record<
     color: '#64748B',
     bgColor: 'rgba(100, 116, 139, 0.15)',
   },
+  checked_in: {
+    icon: MapPinCheck,
+    label: 'Checked In',
+    color: '#06B6D4',
+    bgColor: 'rgba(6, 182, 212, 0.15)',
+  },
   driver_assigned: {
     icon: UserCheck,
     label: 'Driver Assigned',
@@ -111,6 +118,7 @@ const STATUS_CONFIG: Record<
 const STATUS_ORDER: DeliveryStatus[] = [
   'preparing',
   'ready_for_pickup',
+  'checked_in',
   'driver_assigned',
   'driver_heading_to_store',
   'driver_at_store',
@@ -119,6 +127,16 @@ const STATUS_ORDER: DeliveryStatus[] = [
   'delivered',
 ];
 
+/**
+ * Statuses a store pickup goes through
+ */
+const PICKUP_STATUSES: DeliveryStatus[] = [
+  'preparing',
+  'ready_for_pickup',
+  'checked_in',
+  'delivered',
+];
+
 /**
  * Format timestamp for display
  */
@@ -157,6 +175,8 @@ function isStatusCurrent(status: DeliveryStatus, currentStatus: DeliveryStatus):
  */
 interface TimelineStepProps {
   status: DeliveryStatus;
+  /** Replaces the status's usual label */
+  label?: string;
   currentStatus: DeliveryStatus;
   timestamp?: Date;
   isLast: boolean;
@@ -166,6 +186,7 @@ interface TimelineStepProps {
 
 function TimelineStep({
   status,
+  label,
   currentStatus,
   timestamp,
   isLast,
@@ -233,7 +254,7 @@ function TimelineStep({
               isPending ? 'text-[var(--dd-text-muted)]' : 'text-[var(--dd-text-primary)]'
             )}
           >
-            {config.label}
+            {label ?? config.label}
           </span>
           {showTimestamp && timestamp && (
             <span
@@ -258,27 +279,30 @@ export function ETATimeline({
   compact = false,
   className,
 }: ETATimelineProps) {
+  const isPickup = getFulfillmentType(delivery) === 'pickup';
+
   // Get relevant timeline statuses based on delivery type
   const relevantStatuses = useMemo(() => {
+    const flow = isPickup
+      ? PICKUP_STATUSES
+      : STATUS_ORDER.filter((status) => status !== 'checked_in');
+
     // For cancelled orders, show up to the cancelled status
     if (delivery.status === 'cancelled') {
-      const currentIndex = getStatusIndex(delivery.status);
-      return STATUS_ORDER.slice(0, Math.min(currentIndex + 1, 3)).concat([
-        'cancelled' as DeliveryStatus,
-      ]);
+      return flow.slice(0, 3).concat(['cancelled' as DeliveryStatus]);
     }
 
     // For normal flow, filter based on platform type
     // Restaurant orders typically skip "ready_for_pickup" and "driver_at_store"
     const isRestaurant = ['doordash', 'ubereats'].includes(delivery.platform);
 
-    return STATUS_ORDER.filter((status) => {
+    return flow.filter((status) => {
       if (isRestaurant) {
         return !['ready_for_pickup', 'driver_at_store'].includes(status);
       }
       return true;
     });
-  }, [delivery.platform, delivery.status]);
+  }, [delivery.platform, delivery.status, isPickup]);
 
   // Map timestamps to statuses
   const timestampMap = useMemo(() => {
@@ -288,6 +312,7 @@ export function ETATimeline({
     if (delivery.timestamps.preparing) map.preparing = delivery.timestamps.preparing;
     if (delivery.timestamps.readyForPickup)
       map.ready_for_pickup = delivery.timestamps.readyForPickup;
+    if (delivery.timestamps.checkedIn) map.checked_in = delivery.timestamps.checkedIn;
     if (delivery.timestamps.driverAssigned)
       map.driver_assigned = delivery.timestamps.driverAssigned;
     if (delivery.timestamps.pickedUp) map.driver_at_store = delivery.timestamps.pickedUp;
@@ -306,6 +331,7 @@ export function ETATimeline({
         <TimelineStep
           key={status}
           status={status}
+          label={isPickup && status === 'delivered' ? 'Picked Up' : undefined}
           currentStatus={delivery.status}
           timestamp={timestampMap[status]}
           isLast={index === relevantStatuses.length - 1}
@@ -324,16 +350,21 @@ export function ETATimelineHorizontal({
   delivery,
   className,
 }: Pick<ETATimelineProps, 'delivery' | 'className'>) {
+  const isPickup = getFulfillmentType(delivery) === 'pickup';
+
   const relevantStatuses = useMemo(() => {
+    if (isPickup) return PICKUP_STATUSES;
+
     const isRestaurant = ['doordash', 'ubereats'].includes(delivery.platform);
     return STATUS_ORDER.filter((status) => {
+      if (status === 'checked_in') return false;
       if (isRestaurant) {
         return !['ready_for_pickup', 'driver_at_store'].includes(status);
       }
       // Simplified for horizontal view
       return ['preparing', 'out_for_delivery', 'arriving', 'delivered'].includes(status);
     });
-  }, [delivery.platform]);
+  }, [delivery.platform, isPickup]);
 
   return (
     <div className={cn('flex items-center justify-between', className)}>
@@ -372,7 +403,7 @@ export function ETATimelineHorizontal({
                     : 'text-[var(--dd-text-muted)]'
                 )}
               >
-                {config.label}
+                {isPickup && status === 'delivered' ? 'Picked Up' : config.label}
               </span>
             </div>
 
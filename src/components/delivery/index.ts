@@ -15,3 +15,5 @@ export type { ETADisplayProps } from './eta-display';
 export { ETADisplay, ETADisplayCompact } from './eta-display';
 export type { ETATimelineProps } from './eta-timeline';
 export { ETATimeline, ETATimelineHorizontal } from './eta-timeline';
+export type { TrackPackageDialogProps, TrackPackageValues } from './track-package-dialog';
+export { TrackPackageDialog } from './track-package-dialog';
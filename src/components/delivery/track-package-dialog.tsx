@@ -0,0 +1,166 @@
+'use client';
+
+import { PackagePlus } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { detectCarrier } from '@/lib/adapters/carriers/detect';
+import { cn } from '@/lib/utils';
+import { CARRIER_PLATFORMS, type CarrierPlatform, PLATFORM_CONFIGS } from '@/types/platform';
+
+/**
+ * Values collected by the track package dialog
+ */
+export interface TrackPackageValues {
+  trackingNumber: string;
+  /** Omitted when the carrier was detected from the number */
+  carrier?: CarrierPlatform;
+  label?: string;
+}
+
+/**
+ * TrackPackageDialog props
+ */
+export interface TrackPackageDialogProps {
+  /** Called with the package to track; resolves once it is tracked */
+  onSubmit: (values: TrackPackageValues) => Promise<void>;
+  /** Submitting state */
+  isSubmitting?: boolean;
+  /** Error from the last submit */
+  error?: string | null;
+}
+
+/**
+ * TrackPackageDialog component
+ * Follows a UPS, FedEx, USPS or DHL package by tracking number
+ */
+export function TrackPackageDialog({
+  onSubmit,
+  isSubmitting = false,
+  error,
+}: TrackPackageDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [label, setLabel] = useState('');
+  const [selectedCarrier, setSelectedCarrier] = useState<CarrierPlatform | null>(null);
+
+  const detected = trackingNumber.trim() ? detectCarrier(trackingNumber) : null;
+  const carrier = selectedCarrier ?? detected;
+
+  const reset = () => {
+    setTrackingNumber('');
+    setLabel('');
+    setSelectedCarrier(null);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!carrier) return;
+
+    try {
+      await onSubmit({
+        trackingNumber: trackingNumber.trim(),
+        carrier: selectedCarrier ?? undefined,
+        label: label.trim() || undefined,
+      });
+    } catch {
+      // The error is shown from the error prop; keep the dialog open
+      return;
+    }
+
+    reset();
+    setOpen(false);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <PackagePlus className="w-4 h-4 mr-2" />
+          Track Package
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Track a Package</DialogTitle>
+            <DialogDescription>
+              Paste a tracking number. DropDeck recognizes the carrier from its format.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Input
+            required
+            autoFocus
+            placeholder="Tracking number"
+            maxLength={40}
+            value={trackingNumber}
+            onChange={(e) => setTrackingNumber(e.target.value)}
+            aria-label="Tracking number"
+          />
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-[var(--dd-text-primary)]">
+              Carrier
+              {detected && !selectedCarrier && (
+                <span className="ml-2 text-xs font-normal text-[var(--dd-text-muted)]">
+                  detected
+                </span>
+              )}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {CARRIER_PLATFORMS.map((id) => (
+                <button
+                  key={id}
+                  type="button"
+                  onClick={() => setSelectedCarrier(id === selectedCarrier ? null : id)}
+                  aria-pressed={carrier === id}
+                  className={cn(
+                    'rounded-full border px-3 py-1 text-xs transition-colors',
+                    carrier === id
+                      ? 'border-brand-cyan bg-brand-cyan/10 text-brand-cyan'
+                      : 'border-[var(--dd-border)] text-[var(--dd-text-muted)] hover:text-[var(--dd-text-primary)]'
+                  )}
+                >
+                  {PLATFORM_CONFIGS[id].name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <Input
+            placeholder="Name (optional), e.g. Birthday gift"
+            maxLength={60}
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            aria-label="Package name"
+          />
+
+          {error && <p className="text-sm text-error">{error}</p>}
+
+          <DialogFooter>
+            <Button type="submit" disabled={isSubmitting || !carrier || !trackingNumber.trim()}>
+              {isSubmitting ? 'Tracking...' : 'Track Package'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,270 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn, formatCurrency } from '@/lib/utils';
+import type { HistoryAnalytics as HistoryAnalyticsData } from '@/types/history';
+import { PLATFORM_CONFIGS, type Platform } from '@/types/platform';
+
+/**
+ * HistoryAnalytics props
+ */
+export interface HistoryAnalyticsProps {
+  /** Aggregates from delivery.getHistoryAnalytics */
+  analytics?: HistoryAnalyticsData;
+  /** Loading state */
+  isLoading?: boolean;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Hours of the day, 0-23
+ */
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+/**
+ * Format a 0-1 rate as a percentage
+ */
+function formatRate(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+/**
+ * Label a local month, e.g. "2026-03" -> "Mar 2026"
+ */
+function formatMonth(month: string): string {
+  const [year = 0, monthIndex = 1] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString('en-US', {
+    month: 'short',
+    year: 'numeric',
+  });
+}
+
+/**
+ * Label an hour of the day, e.g. 0 -> "12a", 13 -> "1p"
+ */
+function formatHour(hour: number): string {
+  return `${hour % 12 || 12}${hour < 12 ? 'a' : 'p'}`;
+}
+
+/**
+ * Headline figure
+ */
+function SummaryTile({ label, value, detail }: { label: string; value: string; detail: string }) {
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <p className="text-sm text-[var(--dd-text-secondary)]">{label}</p>
+        <p className="text-2xl font-bold tabular-nums text-[var(--dd-text-primary)]">{value}</p>
+        <p className="text-xs text-[var(--dd-text-muted)]">{detail}</p>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * HistoryAnalytics component
+ * Spend, punctuality, delivery time and substitutions over past deliveries.
+ * Every figure is aggregated by the server; this only lays them out.
+ */
+export function HistoryAnalytics({
+  analytics,
+  isLoading = false,
+  className,
+}: HistoryAnalyticsProps) {
+  // Stack each month's spend by platform
+  const months = useMemo(() => {
+    const byMonth = new Map<string, { platform: Platform; totalAmount: number }[]>();
+    for (const row of analytics?.monthlySpend ?? []) {
+      byMonth.set(row.month, [...(byMonth.get(row.month) ?? []), row]);
+    }
+    return [...byMonth.entries()].map(([month, platforms]) => ({
+      month,
+      platforms,
+      total: platforms.reduce((sum, p) => sum + p.totalAmount, 0),
+    }));
+  }, [analytics?.monthlySpend]);
+
+  if (isLoading || !analytics) {
+    return (
+      <div className={cn('grid gap-4 md:grid-cols-3', className)}>
+        <Skeleton className="h-28" />
+        <Skeleton className="h-28" />
+        <Skeleton className="h-28" />
+        <Skeleton className="h-64 md:col-span-3" />
+      </div>
+    );
+  }
+
+  // The rollup rows (platform null) cover every platform
+  const overallOnTime = analytics.onTime.find((row) => row.platform === null);
+  const overallSubstitutions = analytics.substitutions.find((row) => row.platform === null);
+  const platformRows = analytics.onTime.filter(
+    (row): row is typeof row & { platform: Platform } => row.platform !== null
+  );
+  const maxMonthTotal = Math.max(1, ...months.map((m) => m.total));
+  const maxHourMinutes = Math.max(1, ...analytics.durationByHour.map((h) => h.averageMinutes));
+  const spendPlatforms = [...new Set(analytics.monthlySpend.map((row) => row.platform))];
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      <div className="grid gap-4 md:grid-cols-3">
+        <SummaryTile
+          label="Total spend"
+          value={formatCurrency(months.reduce((sum, m) => sum + m.total, 0))}
+          detail={`Across ${months.length} ${months.length === 1 ? 'month' : 'months'}`}
+        />
+        <SummaryTile
+          label="On time"
+          value={overallOnTime?.deliveries ? formatRate(overallOnTime.rate) : '-'}
+          detail={`${overallOnTime?.onTime ?? 0} of ${overallOnTime?.deliveries ?? 0} deliveries with an ETA`}
+        />
+        <SummaryTile
+          label="Substituted items"
+          value={overallSubstitutions?.items ? formatRate(overallSubstitutions.rate) : '-'}
+          detail={`${overallSubstitutions?.substituted ?? 0} of ${overallSubstitutions?.items ?? 0} items`}
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Monthly Spend</CardTitle>
+          <CardDescription>Order totals of delivered orders by platform</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {months.length === 0 ? (
+            <p className="text-sm text-[var(--dd-text-muted)]">No spend recorded yet.</p>
+          ) : (
+            <>
+              <ul className="space-y-2">
+                {months.map(({ month, platforms, total }) => (
+                  <li key={month} className="flex items-center gap-3 text-sm">
+                    <span className="w-20 shrink-0 text-[var(--dd-text-secondary)]">
+                      {formatMonth(month)}
+                    </span>
+                    <div
+                      className="flex h-4 overflow-hidden rounded"
+                      style={{ width: `${(total / maxMonthTotal) * 100}%` }}
+                    >
+                      {platforms.map((p) => (
+                        <span
+                          key={p.platform}
+                          title={`${PLATFORM_CONFIGS[p.platform]?.name ?? p.platform}: ${formatCurrency(p.totalAmount)}`}
+                          style={{
+                            width: `${total > 0 ? (p.totalAmount / total) * 100 : 0}%`,
+                            backgroundColor: PLATFORM_CONFIGS[p.platform]?.color,
+                          }}
+                        />
+                      ))}
+                    </div>
+                    <span className="shrink-0 tabular-nums text-[var(--dd-text-primary)]">
+                      {formatCurrency(total)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <div className="mt-4 flex flex-wrap gap-3 text-xs text-[var(--dd-text-muted)]">
+                {spendPlatforms.map((platform) => (
+                  <span key={platform} className="flex items-center gap-1.5">
+                    <span
+                      className="h-2 w-2 rounded-full"
+                      style={{ backgroundColor: PLATFORM_CONFIGS[platform]?.color }}
+                    />
+                    {PLATFORM_CONFIGS[platform]?.name ?? platform}
+                  </span>
+                ))}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Delivery Time by Hour</CardTitle>
+          <CardDescription>
+            Average minutes from order to doorstep by the hour ordered
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {analytics.durationByHour.length === 0 ? (
+            <p className="text-sm text-[var(--dd-text-muted)]">No completed deliveries yet.</p>
+          ) : (
+            <div className="flex h-40 items-end gap-1">
+              {HOURS.map((hour) => {
+                const bucket = analytics.durationByHour.find((h) => h.hour === hour);
+                return (
+                  <div key={hour} className="flex flex-1 flex-col items-center gap-1">
+                    <div
+                      className="w-full rounded-t bg-brand-cyan"
+                      style={{
+                        height: `${bucket ? (bucket.averageMinutes / maxHourMinutes) * 120 : 0}px`,
+                      }}
+                      title={
+                        bucket
+                          ? `${formatHour(hour)}: ${bucket.averageMinutes} min over ${bucket.deliveries} deliveries`
+                          : undefined
+                      }
+                    />
+                    <span className="text-[10px] text-[var(--dd-text-muted)]">
+                      {hour % 3 === 0 ? formatHour(hour) : ''}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">By Platform</CardTitle>
+          <CardDescription>How each platform keeps its promises and your order</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {platformRows.length === 0 ? (
+            <p className="text-sm text-[var(--dd-text-muted)]">
+              Not enough deliveries with an ETA yet.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-[var(--dd-text-muted)]">
+                  <th className="pb-2 font-medium">Platform</th>
+                  <th className="pb-2 text-right font-medium">On time</th>
+                  <th className="pb-2 text-right font-medium">Substituted</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[var(--dd-border)]">
+                {platformRows.map((row) => {
+                  const substitutions = analytics.substitutions.find(
+                    (s) => s.platform === row.platform
+                  );
+                  return (
+                    <tr key={row.platform}>
+                      <td className="py-2 text-[var(--dd-text-primary)]">
+                        {PLATFORM_CONFIGS[row.platform]?.name ?? row.platform}
+                      </td>
+                      <td className="py-2 text-right tabular-nums">
+                        {formatRate(row.rate)}{' '}
+                        <span className="text-xs text-[var(--dd-text-muted)]">
+                          ({row.onTime}/{row.deliveries})
+                        </span>
+                      </td>
+                      <td className="py-2 text-right tabular-nums">
+                        {substitutions?.items ? formatRate(substitutions.rate) : '-'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
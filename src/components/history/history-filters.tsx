@@ -0,0 +1,134 @@
+'use client';
+
+import { Search, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { PLATFORM_CONFIGS, type Platform } from '@/types/platform';
+
+/**
+ * History filter values as entered in the form
+ */
+export interface HistoryFilterValues {
+  platform?: Platform;
+  finalStatus?: 'delivered' | 'cancelled';
+  /** Local date, "YYYY-MM-DD" */
+  from?: string;
+  /** Local date, "YYYY-MM-DD", inclusive */
+  to?: string;
+  search?: string;
+}
+
+/**
+ * HistoryFilters props
+ */
+export interface HistoryFiltersProps {
+  /** Current filters */
+  filters: HistoryFilterValues;
+  /** Called with the full filters whenever one changes */
+  onChange: (filters: HistoryFilterValues) => void;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+const selectClassName =
+  'h-10 rounded-md border border-[var(--dd-border)] bg-[var(--dd-bg-card)] px-3 text-sm text-[var(--dd-text-primary)]';
+
+/**
+ * HistoryFilters component
+ * Platform, outcome, date range and item search for past deliveries
+ */
+export function HistoryFilters({ filters, onChange, className }: HistoryFiltersProps) {
+  // Search is applied on submit so typing does not query on every keystroke
+  const [search, setSearch] = useState(filters.search ?? '');
+
+  useEffect(() => {
+    setSearch(filters.search ?? '');
+  }, [filters.search]);
+
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  return (
+    <div className={cn('flex flex-wrap items-end gap-3', className)}>
+      <form
+        className="flex min-w-[220px] flex-1 items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          onChange({ ...filters, search: search.trim() || undefined });
+        }}
+      >
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-[var(--dd-text-muted)]" />
+          <Input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search items..."
+            aria-label="Search items"
+            className="pl-9"
+          />
+        </div>
+      </form>
+
+      <select
+        value={filters.platform ?? ''}
+        onChange={(e) =>
+          onChange({ ...filters, platform: (e.target.value || undefined) as Platform | undefined })
+        }
+        aria-label="Platform"
+        className={selectClassName}
+      >
+        <option value="">All platforms</option>
+        {Object.values(PLATFORM_CONFIGS).map((config) => (
+          <option key={config.id} value={config.id}>
+            {config.name}
+          </option>
+        ))}
+      </select>
+
+      <select
+        value={filters.finalStatus ?? ''}
+        onChange={(e) =>
+          onChange({
+            ...filters,
+            finalStatus: (e.target.value || undefined) as HistoryFilterValues['finalStatus'],
+          })
+        }
+        aria-label="Outcome"
+        className={selectClassName}
+      >
+        <option value="">Delivered or cancelled</option>
+        <option value="delivered">Delivered</option>
+        <option value="cancelled">Cancelled</option>
+      </select>
+
+      <div className="flex items-center gap-2">
+        <Input
+          type="date"
+          value={filters.from ?? ''}
+          max={filters.to}
+          onChange={(e) => onChange({ ...filters, from: e.target.value || undefined })}
+          aria-label="From date"
+          className="w-auto"
+        />
+        <span className="text-sm text-[var(--dd-text-muted)]">to</span>
+        <Input
+          type="date"
+          value={filters.to ?? ''}
+          min={filters.from}
+          onChange={(e) => onChange({ ...filters, to: e.target.value || undefined })}
+          aria-label="To date"
+          className="w-auto"
+        />
+      </div>
+
+      {hasFilters && (
+        <Button variant="ghost" size="sm" onClick={() => onChange({})}>
+          <X className="h-4 w-4" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import { ChevronLeft, ChevronRight, History } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn, formatCurrency } from '@/lib/utils';
+import { STATUS_CONFIGS, type UnifiedDelivery } from '@/types/delivery';
+import { PLATFORM_CONFIGS } from '@/types/platform';
+
+/**
+ * HistoryList props
+ */
+export interface HistoryListProps {
+  /** Deliveries on this page, newest first */
+  deliveries: UnifiedDelivery[];
+  /** Deliveries matching the filters across all pages */
+  total: number;
+  /** Offset of the first delivery on this page */
+  offset: number;
+  /** Page size */
+  limit: number;
+  /** Called with the offset of the page to show */
+  onPageChange: (offset: number) => void;
+  /** Loading state */
+  isLoading?: boolean;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Summarize an order's items, e.g. "Milk, Eggs and 4 more"
+ */
+function summarizeItems(delivery: UnifiedDelivery): string {
+  const names = (delivery.order.items ?? []).map((item) => item.name);
+  if (names.length === 0) {
+    return `${delivery.order.itemCount} ${delivery.order.itemCount === 1 ? 'item' : 'items'}`;
+  }
+  if (names.length <= 2) {
+    return names.join(', ');
+  }
+  return `${names.slice(0, 2).join(', ')} and ${names.length - 2} more`;
+}
+
+/**
+ * HistoryList component
+ * One page of past deliveries with pagination controls
+ */
+export function HistoryList({
+  deliveries,
+  total,
+  offset,
+  limit,
+  onPageChange,
+  isLoading = false,
+  className,
+}: HistoryListProps) {
+  if (isLoading) {
+    return (
+      <div className={cn('space-y-2', className)}>
+        {Array.from({ length: 5 }).map((_, i) => (
+          // biome-ignore lint/suspicious/noArrayIndexKey: Static skeleton list
+          <Skeleton key={`skeleton-${i}`} className="h-16 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (deliveries.length === 0) {
+    return (
+      <div className={cn('flex flex-col items-center gap-2 py-12 text-center', className)}>
+        <History className="h-8 w-8 text-[var(--dd-text-muted)]" />
+        <p className="text-sm text-[var(--dd-text-muted)]">
+          No past deliveries match these filters.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <ul className="divide-y divide-[var(--dd-border)] rounded-lg border border-[var(--dd-border)]">
+        {deliveries.map((delivery) => {
+          const platform = PLATFORM_CONFIGS[delivery.platform];
+          const status = STATUS_CONFIGS[delivery.status];
+          return (
+            <li key={delivery.id} className="flex items-center gap-3 px-4 py-3 text-sm">
+              <span
+                className="h-2.5 w-2.5 shrink-0 rounded-full"
+                style={{ backgroundColor: platform?.color }}
+              />
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-[var(--dd-text-primary)]">
+                    {platform?.name ?? delivery.platform}
+                  </span>
+                  <span className="text-xs text-[var(--dd-text-muted)]">
+                    {new Date(delivery.timestamps.ordered).toLocaleDateString()}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <p className="truncate text-xs text-[var(--dd-text-muted)]">
+                    {summarizeItems(delivery)}
+                  </p>
+                  <span className="shrink-0 text-xs tabular-nums">
+                    {delivery.order.totalAmount !== undefined && (
+                      <span className="text-[var(--dd-text-secondary)]">
+                        {formatCurrency(delivery.order.totalAmount, delivery.order.currency)}
+                        {' · '}
+                      </span>
+                    )}
+                    <span style={{ color: status?.color }}>
+                      {status?.label ?? delivery.statusLabel}
+                    </span>
+                  </span>
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex items-center justify-between text-sm text-[var(--dd-text-muted)]">
+        <span>
+          Showing {offset + 1}-{offset + deliveries.length} of {total}
+        </span>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={offset === 0}
+            onClick={() => onPageChange(Math.max(0, offset - limit))}
+          >
+            <ChevronLeft className="h-4 w-4" />
+            Previous
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={offset + deliveries.length >= total}
+            onClick={() => onPageChange(offset + limit)}
+          >
+            Next
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+/**
+ * History components
+ * Past deliveries and the analytics built from them
+ */
+
+export type { HistoryAnalyticsProps } from './history-analytics';
+export { HistoryAnalytics } from './history-analytics';
+export type { HistoryFiltersProps, HistoryFilterValues } from './history-filters';
+export { HistoryFilters } from './history-filters';
+export type { HistoryListProps } from './history-list';
+export { HistoryList } from './history-list';
@@ -1,7 +1,9 @@
 'use client';
 
+import { useRouter } from 'next/navigation';
 import { SessionProvider } from 'next-auth/react';
 import { useState } from 'react';
+import { useAppShortcuts } from '@/hooks/use-keyboard-shortcuts';
 import { Header } from './header';
 import { MobileNav } from './mobile-nav';
 import { Sidebar } from './sidebar';
@@ -13,6 +15,9 @@ interface AppLayoutProps {
 export function AppLayout({ children }: AppLayoutProps) {
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [mobileNavOpen, setMobileNavOpen] = useState(false);
+  const router = useRouter();
+
+  useAppShortcuts({ onSettings: () => router.push('/settings') });
 
   return (
     <SessionProvider>
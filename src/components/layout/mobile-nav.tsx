@@ -18,6 +18,8 @@ const navItems = [
     title: 'Dashboard',
     href: '/dashboard',
     icon: LayoutDashboard,
+    // History lives under /dashboard but has its own entry
+    exact: true,
   },
   {
     title: 'Active Deliveries',
@@ -26,7 +28,7 @@ const navItems = [
   },
   {
     title: 'History',
-    href: '/history',
+    href: '/dashboard/history',
     icon: History,
   },
   {
@@ -92,7 +94,8 @@ export function MobileNav({ isOpen, onClose }: MobileNavProps) {
         {/* Navigation */}
         <nav className="space-y-1 p-4">
           {navItems.map((item) => {
-            const isActive = pathname === item.href || pathname.startsWith(`${item.href}/`);
+            const isActive =
+              pathname === item.href || (!item.exact && pathname.startsWith(`${item.href}/`));
             return (
               <Link
                 key={item.href}
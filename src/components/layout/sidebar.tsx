@@ -26,6 +26,8 @@ const navItems = [
     title: 'Dashboard',
     href: '/dashboard',
     icon: LayoutDashboard,
+    // History lives under /dashboard but has its own entry
+    exact: true,
   },
   {
     title: 'Active Deliveries',
@@ -34,7 +36,7 @@ const navItems = [
   },
   {
     title: 'History',
-    href: '/history',
+    href: '/dashboard/history',
     icon: History,
   },
   {
@@ -89,7 +91,8 @@ export function Sidebar({ collapsed = false, onCollapse }: SidebarProps) {
       {/* Main navigation */}
       <nav className="flex-1 space-y-1 p-2">
         {navItems.map((item) => {
-          const isActive = pathname === item.href || pathname.startsWith(`${item.href}/`);
+          const isActive =
+            pathname === item.href || (!item.exact && pathname.startsWith(`${item.href}/`));
           return (
             <Link
               key={item.href}
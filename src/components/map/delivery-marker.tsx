@@ -45,6 +45,7 @@ function getStatusColor(status: DeliveryStatus): string {
   const statusColors: Record<DeliveryStatus, string> = {
     preparing: '#64748B',
     ready_for_pickup: '#64748B',
+    checked_in: '#06B6D4',
     driver_assigned: '#06B6D4',
     driver_heading_to_store: '#06B6D4',
     driver_at_store: '#06B6D4',
@@ -0,0 +1,142 @@
+'use client';
+
+import { Clock, Mail } from 'lucide-react';
+import { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+
+/**
+ * Daily digest settings
+ */
+export interface EmailDigestSettingsValues {
+  enabled: boolean;
+  /** 24-hour local time, "HH:MM" */
+  time: string;
+  /** IANA timezone */
+  timezone: string;
+}
+
+/**
+ * EmailDigestSettings props
+ */
+interface EmailDigestSettingsProps {
+  /** Current settings */
+  settings: EmailDigestSettingsValues;
+  /** Called with the full settings whenever one changes */
+  onChange: (settings: EmailDigestSettingsValues) => void;
+  /** Whether the server can send email */
+  emailConfigured?: boolean;
+  /** Saving state */
+  isSaving?: boolean;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * List the timezones the browser knows, keeping the current one selectable
+ */
+function getTimeZones(current: string): string[] {
+  const zones =
+    typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  return zones.includes(current) ? zones : [current, ...zones];
+}
+
+/**
+ * EmailDigestSettings component
+ * Opt-in morning email summarising expected and recently finished deliveries
+ */
+export function EmailDigestSettings({
+  settings,
+  onChange,
+  emailConfigured = true,
+  isSaving = false,
+  className,
+}: EmailDigestSettingsProps) {
+  const timeZones = useMemo(() => getTimeZones(settings.timezone), [settings.timezone]);
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Mail className="w-5 h-5" />
+          Daily Digest
+        </CardTitle>
+        <CardDescription>
+          A morning email with everything arriving today and how yesterday&apos;s orders went
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-[var(--dd-text-primary)]">Email me a digest</p>
+            <p className="text-xs text-[var(--dd-text-muted)]">
+              {emailConfigured
+                ? 'Sent to the email address on your account'
+                : 'Email is not configured on this server'}
+            </p>
+          </div>
+          <Switch
+            checked={settings.enabled}
+            onCheckedChange={(enabled) => onChange({ ...settings, enabled })}
+            disabled={isSaving || !emailConfigured}
+            aria-label="Daily digest enabled"
+          />
+        </div>
+
+        {settings.enabled && (
+          <>
+            <Separator />
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label
+                  htmlFor="digest-time"
+                  className="text-sm font-medium text-[var(--dd-text-primary)] mb-2 block"
+                >
+                  Send At
+                </label>
+                <div className="flex items-center gap-2">
+                  <Clock className="w-4 h-4 text-[var(--dd-text-muted)]" />
+                  <Input
+                    id="digest-time"
+                    type="time"
+                    value={settings.time}
+                    onChange={(e) =>
+                      e.target.value && onChange({ ...settings, time: e.target.value })
+                    }
+                    disabled={isSaving}
+                    className="flex-1"
+                  />
+                </div>
+              </div>
+              <div>
+                <label
+                  htmlFor="digest-timezone"
+                  className="text-sm font-medium text-[var(--dd-text-primary)] mb-2 block"
+                >
+                  Timezone
+                </label>
+                <select
+                  id="digest-timezone"
+                  value={settings.timezone}
+                  onChange={(e) => onChange({ ...settings, timezone: e.target.value })}
+                  disabled={isSaving}
+                  className="h-9 w-full rounded-md border border-[var(--dd-border)] bg-transparent px-3 text-sm text-[var(--dd-text-primary)]"
+                >
+                  {timeZones.map((zone) => (
+                    <option key={zone} value={zone}>
+                      {zone.replace(/_/g, ' ')}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export type { EmailDigestSettingsProps };
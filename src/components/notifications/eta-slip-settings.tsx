@@ -0,0 +1,124 @@
+'use client';
+
+import { TrendingUp } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+
+/**
+ * ETA slip notification settings
+ */
+export interface EtaSlipSettingsValues {
+  enabled: boolean;
+  /** Minutes past the first promise before notifying */
+  thresholdMinutes: number;
+}
+
+/**
+ * EtaSlipSettings props
+ */
+interface EtaSlipSettingsProps {
+  /** Current settings */
+  settings: EtaSlipSettingsValues;
+  /** Called with the full settings whenever one changes */
+  onChange: (settings: EtaSlipSettingsValues) => void;
+  /** Saving state */
+  isSaving?: boolean;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Thresholds offered in the picker (minutes)
+ */
+const THRESHOLD_OPTIONS = [5, 10, 15, 30, 60, 120];
+
+/**
+ * Label a threshold, e.g. "15 minutes" or "2 hours"
+ */
+function formatThreshold(minutes: number): string {
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return hours === 1 ? '1 hour' : `${hours} hours`;
+  }
+  return `${minutes} minutes`;
+}
+
+/**
+ * EtaSlipSettings component
+ * Notify when a platform keeps pushing an order's ETA back
+ */
+export function EtaSlipSettings({
+  settings,
+  onChange,
+  isSaving = false,
+  className,
+}: EtaSlipSettingsProps) {
+  // Keep a custom threshold set elsewhere selectable
+  const options = THRESHOLD_OPTIONS.includes(settings.thresholdMinutes)
+    ? THRESHOLD_OPTIONS
+    : [...THRESHOLD_OPTIONS, settings.thresholdMinutes].sort((a, b) => a - b);
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <TrendingUp className="w-5 h-5" />
+          ETA Slips
+        </CardTitle>
+        <CardDescription>
+          Hear about it when an order&apos;s ETA keeps moving later than first promised
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-[var(--dd-text-primary)]">
+              Notify me when an ETA slips
+            </p>
+            <p className="text-xs text-[var(--dd-text-muted)]">
+              Sent again each time it slips by the same amount
+            </p>
+          </div>
+          <Switch
+            checked={settings.enabled}
+            onCheckedChange={(enabled) => onChange({ ...settings, enabled })}
+            disabled={isSaving}
+            aria-label="ETA slip notifications enabled"
+          />
+        </div>
+
+        {settings.enabled && (
+          <>
+            <Separator />
+            <div>
+              <label
+                htmlFor="eta-slip-threshold"
+                className="text-sm font-medium text-[var(--dd-text-primary)] mb-2 block"
+              >
+                Notify After
+              </label>
+              <select
+                id="eta-slip-threshold"
+                value={settings.thresholdMinutes}
+                onChange={(e) =>
+                  onChange({ ...settings, thresholdMinutes: Number(e.target.value) })
+                }
+                disabled={isSaving}
+                className="h-9 w-full rounded-md border border-[var(--dd-border)] bg-transparent px-3 text-sm text-[var(--dd-text-primary)]"
+              >
+                {options.map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    {formatThreshold(minutes)} late
+                  </option>
+                ))}
+              </select>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export type { EtaSlipSettingsProps };
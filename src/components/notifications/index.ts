@@ -3,8 +3,18 @@
  * UI components for the notification system
  */
 
+export type { EmailDigestSettingsProps, EmailDigestSettingsValues } from './email-digest-settings';
+export { EmailDigestSettings } from './email-digest-settings';
+export type { EtaSlipSettingsProps, EtaSlipSettingsValues } from './eta-slip-settings';
+export { EtaSlipSettings } from './eta-slip-settings';
 export type { NotificationBellProps } from './notification-bell';
 export { NotificationBell } from './notification-bell';
+export type {
+  NotificationChannel,
+  NotificationChannelsProps,
+  NotificationChannelValues,
+} from './notification-channels';
+export { NotificationChannels } from './notification-channels';
 export type { NotificationCenterProps } from './notification-center';
 export { NotificationCenter } from './notification-center';
 export type { NotificationListProps } from './notification-list';
@@ -13,6 +13,7 @@ import {
   Link2Off,
   Package,
   Trash2,
+  TrendingUp,
   Truck,
   UserCheck,
 } from 'lucide-react';
@@ -41,6 +42,7 @@ const NOTIFICATION_TYPES = [
   { value: 'arriving_soon', label: 'Arriving Soon' },
   { value: 'delivered', label: 'Delivered' },
   { value: 'delay_detected', label: 'Delays' },
+  { value: 'eta_slipped', label: 'ETA Slipped' },
   { value: 'platform_connected', label: 'Platform Connected' },
   { value: 'platform_disconnected', label: 'Platform Disconnected' },
 ] as const;
@@ -82,6 +84,8 @@ function getNotificationIcon(type: string) {
       return Package;
     case 'delay_detected':
       return AlertTriangle;
+    case 'eta_slipped':
+      return TrendingUp;
     case 'platform_connected':
       return Link2;
     case 'platform_disconnected':
@@ -99,6 +103,7 @@ function getNotificationColor(type: string): string {
     case 'delivered':
       return 'text-success bg-success/10';
     case 'delay_detected':
+    case 'eta_slipped':
       return 'text-warning bg-warning/10';
     case 'platform_disconnected':
       return 'text-urgent bg-urgent/10';
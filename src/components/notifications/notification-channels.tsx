@@ -0,0 +1,252 @@
+'use client';
+
+import { Radio, Send, Server, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+import type { NotificationChannelType } from '@/types/notification';
+
+/**
+ * A configured channel as returned by the server
+ */
+export interface NotificationChannel {
+  type: NotificationChannelType;
+  serverUrl: string;
+  topic: string | null;
+  hasToken: boolean;
+  enabled: boolean;
+  lastUsedAt: Date | string | null;
+  lastError: string | null;
+}
+
+/**
+ * Values collected by a channel form
+ * A token of undefined keeps the saved one.
+ */
+export interface NotificationChannelValues {
+  type: NotificationChannelType;
+  serverUrl: string;
+  topic?: string;
+  token?: string;
+  enabled: boolean;
+}
+
+/**
+ * NotificationChannels props
+ */
+interface NotificationChannelsProps {
+  /** Configured channels */
+  channels: NotificationChannel[];
+  /** Save a channel; resolves once it is stored */
+  onSave: (values: NotificationChannelValues) => Promise<void>;
+  /** Turn a configured channel on or off */
+  onToggle: (type: NotificationChannelType, enabled: boolean) => void;
+  /** Remove a channel */
+  onRemove: (type: NotificationChannelType) => void;
+  /** Send a test message */
+  onTest: (type: NotificationChannelType) => void;
+  /** Channel currently being saved or tested */
+  pendingType?: NotificationChannelType | null;
+  /** Error from the last save */
+  error?: string | null;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Display details for each channel type
+ */
+const CHANNEL_INFO: Record<
+  NotificationChannelType,
+  { name: string; description: string; defaultServerUrl: string; tokenLabel: string }
+> = {
+  ntfy: {
+    name: 'ntfy',
+    description: 'Publish notifications to an ntfy topic on ntfy.sh or your own server',
+    defaultServerUrl: 'https://ntfy.sh',
+    tokenLabel: 'Access token (optional)',
+  },
+  gotify: {
+    name: 'Gotify',
+    description: 'Send notifications through an application on your Gotify server',
+    defaultServerUrl: '',
+    tokenLabel: 'Application token',
+  },
+};
+
+/**
+ * Settings card for one channel type
+ */
+function ChannelCard({
+  type,
+  channel,
+  onSave,
+  onToggle,
+  onRemove,
+  onTest,
+  isPending,
+}: {
+  type: NotificationChannelType;
+  channel?: NotificationChannel;
+  onSave: NotificationChannelsProps['onSave'];
+  onToggle: NotificationChannelsProps['onToggle'];
+  onRemove: NotificationChannelsProps['onRemove'];
+  onTest: NotificationChannelsProps['onTest'];
+  isPending: boolean;
+}) {
+  const info = CHANNEL_INFO[type];
+  const [serverUrl, setServerUrl] = useState(channel?.serverUrl ?? info.defaultServerUrl);
+  const [topic, setTopic] = useState(channel?.topic ?? '');
+  const [token, setToken] = useState('');
+
+  // Gotify needs an application token; ntfy needs a topic
+  const canSave =
+    serverUrl.trim() !== '' &&
+    (type !== 'ntfy' || topic.trim() !== '') &&
+    (type !== 'gotify' || Boolean(channel?.hasToken) || token.trim() !== '');
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    await onSave({
+      type,
+      serverUrl: serverUrl.trim(),
+      ...(type === 'ntfy' && { topic: topic.trim() }),
+      ...(token.trim() && { token: token.trim() }),
+      enabled: channel?.enabled ?? true,
+    });
+
+    setToken('');
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="text-lg flex items-center gap-2">
+            {type === 'ntfy' ? <Radio className="w-5 h-5" /> : <Server className="w-5 h-5" />}
+            {info.name}
+          </CardTitle>
+          <CardDescription>{info.description}</CardDescription>
+        </div>
+        {channel && (
+          <Switch
+            checked={channel.enabled}
+            onCheckedChange={(enabled) => onToggle(type, enabled)}
+            aria-label={`${info.name} enabled`}
+          />
+        )}
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <Input
+            type="url"
+            required
+            placeholder={type === 'gotify' ? 'https://gotify.example.com' : info.defaultServerUrl}
+            value={serverUrl}
+            onChange={(e) => setServerUrl(e.target.value)}
+            aria-label={`${info.name} server URL`}
+          />
+          {type === 'ntfy' && (
+            <Input
+              required
+              placeholder="Topic, e.g. dropdeck-7f3k2q"
+              value={topic}
+              onChange={(e) => setTopic(e.target.value)}
+              aria-label="ntfy topic"
+            />
+          )}
+          <Input
+            type="password"
+            autoComplete="off"
+            placeholder={channel?.hasToken ? 'Saved - leave blank to keep' : info.tokenLabel}
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            aria-label={`${info.name} token`}
+          />
+
+          {channel?.lastError && (
+            <p className="text-xs text-error">Last delivery failed: {channel.lastError}</p>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <Button type="submit" size="sm" disabled={isPending || !canSave}>
+              {channel ? 'Save' : `Connect ${info.name}`}
+            </Button>
+            {channel && (
+              <>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={isPending}
+                  onClick={() => onTest(type)}
+                >
+                  <Send className="w-4 h-4" />
+                  Send test
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="text-error"
+                  disabled={isPending}
+                  onClick={() => onRemove(type)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Remove
+                </Button>
+              </>
+            )}
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * NotificationChannels component
+ * Settings UI for forwarding notifications to self-hosted ntfy and Gotify servers
+ */
+export function NotificationChannels({
+  channels,
+  onSave,
+  onToggle,
+  onRemove,
+  onTest,
+  pendingType = null,
+  error,
+  className,
+}: NotificationChannelsProps) {
+  return (
+    <div className={cn('space-y-6', className)}>
+      {(['ntfy', 'gotify'] as const).map((type) => {
+        const channel = channels.find((c) => c.type === type);
+        return (
+          <ChannelCard
+            // Reset the form when the saved channel changes
+            key={`${type}-${channel?.serverUrl ?? ''}-${channel?.topic ?? ''}`}
+            type={type}
+            channel={channel}
+            onSave={onSave}
+            onToggle={onToggle}
+            onRemove={onRemove}
+            onTest={onTest}
+            isPending={pendingType === type}
+          />
+        );
+      })}
+      {error && <p className="text-sm text-error">{error}</p>}
+      <p className="text-xs text-[var(--dd-text-muted)]">
+        Channels follow the same delivery update, platform and quiet hours preferences as push
+        notifications. Delays and arriving orders are sent at high priority.
+      </p>
+    </div>
+  );
+}
+
+export type { NotificationChannelsProps };
@@ -11,6 +11,7 @@ import {
   Link2Off,
   Package,
   Trash2,
+  TrendingUp,
   Truck,
   UserCheck,
 } from 'lucide-react';
@@ -57,6 +58,8 @@ function getNotificationIcon(type: string) {
       return Package;
     case 'delay_detected':
       return AlertTriangle;
+    case 'eta_slipped':
+      return TrendingUp;
     case 'platform_connected':
       return Link2;
     case 'platform_disconnected':
@@ -74,6 +77,7 @@ function getNotificationColor(type: string): string {
     case 'delivered':
       return 'text-success';
     case 'delay_detected':
+    case 'eta_slipped':
       return 'text-warning';
     case 'platform_disconnected':
       return 'text-urgent';
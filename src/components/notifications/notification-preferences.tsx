@@ -7,6 +7,12 @@ import { Input } from '@/components/ui/input';
 import { Separator } from '@/components/ui/separator';
 import { Switch } from '@/components/ui/switch';
 import { cn } from '@/lib/utils';
+import type { QuietHoursSchedule } from '@/types/notification';
+
+/**
+ * Weekday names, from Sunday like the quiet hours schedule
+ */
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
 /**
  * Notification preferences
@@ -20,10 +26,20 @@ export interface NotificationPrefs {
   arrivingSoon: boolean;
   delivered: boolean;
   delayed: boolean;
+  etaSlipped: boolean;
+  /** Minutes past the first promise before an ETA counts as slipped */
+  etaSlipMinutes: number;
+  householdDeliveries: boolean;
   platformStatus: boolean;
   quietHoursEnabled: boolean;
   quietHoursStart: string;
   quietHoursEnd: string;
+  /** Different quiet hours for each weekday; null uses the start and end every day */
+  quietHoursSchedule: QuietHoursSchedule | null;
+  /** Let delays and cancellations through during quiet hours */
+  quietHoursAllowCritical: boolean;
+  /** IANA timezone quiet hours are in */
+  timezone: string;
 }
 
 /**
@@ -103,6 +119,28 @@ export function NotificationPreferences({
   };
 
   const pushDisabled = pushPermission === 'denied' || pushPermission === 'unsupported';
+  const schedule = preferences.quietHoursSchedule;
+  const deviceTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  const handleScheduleToggle = (perDay: boolean) => {
+    onPreferenceChange(
+      'quietHoursSchedule',
+      perDay
+        ? WEEKDAYS.map(() => ({
+            start: preferences.quietHoursStart,
+            end: preferences.quietHoursEnd,
+          }))
+        : null
+    );
+  };
+
+  const handleDayChange = (weekday: number, dayWindow: QuietHoursSchedule[number]) => {
+    if (!schedule) return;
+    onPreferenceChange(
+      'quietHoursSchedule',
+      schedule.map((day, index) => (index === weekday ? dayWindow : day))
+    );
+  };
 
   return (
     <div className={cn('space-y-6', className)}>
@@ -191,6 +229,20 @@ export function NotificationPreferences({
             checked={preferences.delayed}
             onChange={(checked) => onPreferenceChange('delayed', checked)}
           />
+          <Separator />
+          <PreferenceRow
+            label="ETA Slips"
+            description={`When the ETA moves ${preferences.etaSlipMinutes} min or more past the first promise`}
+            checked={preferences.etaSlipped}
+            onChange={(checked) => onPreferenceChange('etaSlipped', checked)}
+          />
+          <Separator />
+          <PreferenceRow
+            label="Household Orders"
+            description="The same updates for orders placed by others in your household"
+            checked={preferences.householdDeliveries}
+            onChange={(checked) => onPreferenceChange('householdDeliveries', checked)}
+          />
         </CardContent>
       </Card>
 
@@ -230,47 +282,129 @@ export function NotificationPreferences({
           {preferences.quietHoursEnabled && (
             <>
               <Separator />
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <label
-                    htmlFor="quiet-hours-start"
-                    className="text-sm font-medium text-[var(--dd-text-primary)] mb-2 block"
-                  >
-                    Start Time
-                  </label>
-                  <div className="flex items-center gap-2">
-                    <Clock className="w-4 h-4 text-[var(--dd-text-muted)]" />
-                    <Input
-                      id="quiet-hours-start"
-                      type="time"
-                      value={preferences.quietHoursStart}
-                      onChange={(e) => onPreferenceChange('quietHoursStart', e.target.value)}
-                      className="flex-1"
-                    />
-                  </div>
+              <PreferenceRow
+                label="Different Hours Each Day"
+                description="Set quiet hours separately for each day of the week"
+                checked={schedule !== null}
+                onChange={handleScheduleToggle}
+              />
+
+              {schedule ? (
+                <div className="space-y-2">
+                  {WEEKDAYS.map((name, weekday) => {
+                    const dayWindow = schedule[weekday] ?? null;
+                    return (
+                      <div key={name} className="flex flex-wrap items-center gap-2">
+                        <Switch
+                          checked={dayWindow !== null}
+                          onCheckedChange={(checked) =>
+                            handleDayChange(
+                              weekday,
+                              checked
+                                ? {
+                                    start: preferences.quietHoursStart,
+                                    end: preferences.quietHoursEnd,
+                                  }
+                                : null
+                            )
+                          }
+                          aria-label={`Quiet hours on ${name}`}
+                        />
+                        <span className="w-24 text-sm text-[var(--dd-text-primary)]">{name}</span>
+                        {dayWindow ? (
+                          <>
+                            <Input
+                              type="time"
+                              value={dayWindow.start}
+                              onChange={(e) =>
+                                handleDayChange(weekday, { ...dayWindow, start: e.target.value })
+                              }
+                              aria-label={`${name} start time`}
+                              className="w-32"
+                            />
+                            <span className="text-sm text-[var(--dd-text-muted)]">to</span>
+                            <Input
+                              type="time"
+                              value={dayWindow.end}
+                              onChange={(e) =>
+                                handleDayChange(weekday, { ...dayWindow, end: e.target.value })
+                              }
+                              aria-label={`${name} end time`}
+                              className="w-32"
+                            />
+                          </>
+                        ) : (
+                          <span className="text-sm text-[var(--dd-text-muted)]">Off</span>
+                        )}
+                      </div>
+                    );
+                  })}
                 </div>
-                <div>
-                  <label
-                    htmlFor="quiet-hours-end"
-                    className="text-sm font-medium text-[var(--dd-text-primary)] mb-2 block"
-                  >
-                    End Time
-                  </label>
-                  <div className="flex items-center gap-2">
-                    <Clock className="w-4 h-4 text-[var(--dd-text-muted)]" />
-                    <Input
-                      id="quiet-hours-end"
-                      type="time"
-                      value={preferences.quietHoursEnd}
-                      onChange={(e) => onPreferenceChange('quietHoursEnd', e.target.value)}
-                      className="flex-1"
-                    />
+              ) : (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label
+                      htmlFor="quiet-hours-start"
+                      className="text-sm font-medium text-[var(--dd-text-primary)] mb-2 block"
+                    >
+                      Start Time
+                    </label>
+                    <div className="flex items-center gap-2">
+                      <Clock className="w-4 h-4 text-[var(--dd-text-muted)]" />
+                      <Input
+                        id="quiet-hours-start"
+                        type="time"
+                        value={preferences.quietHoursStart}
+                        onChange={(e) => onPreferenceChange('quietHoursStart', e.target.value)}
+                        className="flex-1"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label
+                      htmlFor="quiet-hours-end"
+                      className="text-sm font-medium text-[var(--dd-text-primary)] mb-2 block"
+                    >
+                      End Time
+                    </label>
+                    <div className="flex items-center gap-2">
+                      <Clock className="w-4 h-4 text-[var(--dd-text-muted)]" />
+                      <Input
+                        id="quiet-hours-end"
+                        type="time"
+                        value={preferences.quietHoursEnd}
+                        onChange={(e) => onPreferenceChange('quietHoursEnd', e.target.value)}
+                        className="flex-1"
+                      />
+                    </div>
                   </div>
                 </div>
-              </div>
+              )}
+
+              <Separator />
+              <PreferenceRow
+                label="Allow Critical Alerts"
+                description="Let delays and cancellations through during quiet hours"
+                checked={preferences.quietHoursAllowCritical}
+                onChange={(checked) => onPreferenceChange('quietHoursAllowCritical', checked)}
+              />
               <p className="text-xs text-[var(--dd-text-muted)]">
-                Notifications will be silenced from {preferences.quietHoursStart} to{' '}
-                {preferences.quietHoursEnd}. Urgent delivery alerts may still come through.
+                Times are in {preferences.timezone}
+                {deviceTimeZone !== preferences.timezone && (
+                  <>
+                    {' '}
+                    (
+                    <button
+                      type="button"
+                      onClick={() => onPreferenceChange('timezone', deviceTimeZone)}
+                      className="underline hover:text-[var(--dd-text-primary)]"
+                    >
+                      use {deviceTimeZone}
+                    </button>
+                    )
+                  </>
+                )}
+                . Anything held back arrives as one summary when quiet hours end.
               </p>
             </>
           )}
@@ -0,0 +1,171 @@
+'use client';
+
+import { Activity, RefreshCw, Unlink } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { type ConnectionStatus, PLATFORM_CONFIGS, type Platform } from '@/types/platform';
+
+/**
+ * Label and colors for each connection status
+ */
+const STATUS_BADGES: Record<ConnectionStatus, { label: string; className: string }> = {
+  connected: { label: 'Connected', className: 'bg-success/10 text-success' },
+  expired: { label: 'Expired', className: 'bg-warning/10 text-warning' },
+  error: { label: 'Error', className: 'bg-error/10 text-error' },
+  disconnected: {
+    label: 'Disconnected',
+    className: 'bg-[var(--dd-bg-tertiary)] text-[var(--dd-text-muted)]',
+  },
+};
+
+/**
+ * Connection actions that can be in progress
+ */
+export type ConnectionAction = 'reconnect' | 'test' | 'disconnect';
+
+/**
+ * ConnectionStatusBadge component
+ */
+export function ConnectionStatusBadge({ status }: { status: ConnectionStatus }) {
+  const badge = STATUS_BADGES[status];
+
+  return (
+    <span
+      className={cn('rounded-full px-2 py-0.5 text-xs font-medium', badge.className)}
+      data-status={status}
+    >
+      {badge.label}
+    </span>
+  );
+}
+
+/**
+ * ConnectionCard props
+ */
+export interface ConnectionCardProps {
+  platform: Platform;
+  status: ConnectionStatus;
+  lastSyncAt: Date | null;
+  lastError?: string | null;
+  accountEmail?: string | null;
+  /** Whether the platform signs in with OAuth, so it can be reconnected from here */
+  canReconnect: boolean;
+  /** Action currently running for this connection */
+  pendingAction?: ConnectionAction | null;
+  onReconnect: () => void;
+  onTest: () => void;
+  onDisconnect: () => void;
+}
+
+/**
+ * ConnectionCard component
+ * A platform connection's health, with reconnect, test and disconnect actions
+ */
+export function ConnectionCard({
+  platform,
+  status,
+  lastSyncAt,
+  lastError,
+  accountEmail,
+  canReconnect,
+  pendingAction = null,
+  onReconnect,
+  onTest,
+  onDisconnect,
+}: ConnectionCardProps) {
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const config = PLATFORM_CONFIGS[platform];
+  const needsAttention = status === 'expired' || status === 'error';
+
+  return (
+    <Card>
+      <CardContent className="flex flex-col gap-3 pt-6 sm:flex-row sm:items-start sm:justify-between">
+        <div className="min-w-0 space-y-1">
+          <div className="flex items-center gap-2">
+            <span
+              className="h-2.5 w-2.5 shrink-0 rounded-full"
+              style={{ backgroundColor: config?.color }}
+              aria-hidden="true"
+            />
+            <span className="font-medium text-[var(--dd-text-primary)]">
+              {config?.name ?? platform}
+            </span>
+            <ConnectionStatusBadge status={status} />
+          </div>
+          <p className="text-sm text-[var(--dd-text-secondary)]">
+            {accountEmail ? `${accountEmail} · ` : ''}
+            {lastSyncAt ? `Last synced ${new Date(lastSyncAt).toLocaleString()}` : 'Not synced yet'}
+          </p>
+          {lastError && needsAttention && (
+            <p className="text-sm text-error" title={lastError}>
+              {lastError}
+            </p>
+          )}
+        </div>
+
+        <div className="flex shrink-0 flex-wrap gap-2">
+          {canReconnect && (
+            <Button
+              variant={needsAttention ? 'default' : 'outline'}
+              size="sm"
+              onClick={onReconnect}
+              disabled={pendingAction !== null}
+            >
+              <RefreshCw className="w-4 h-4" />
+              Reconnect
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={onTest} disabled={pendingAction !== null}>
+            <Activity className="w-4 h-4" />
+            {pendingAction === 'test' ? 'Testing...' : 'Test'}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setConfirmOpen(true)}
+            disabled={pendingAction !== null}
+          >
+            <Unlink className="w-4 h-4" />
+            Disconnect
+          </Button>
+        </div>
+      </CardContent>
+
+      <Dialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Disconnect {config?.name ?? platform}?</DialogTitle>
+            <DialogDescription>
+              DropDeck stops tracking its deliveries and deletes the stored credentials. You can
+              connect it again at any time.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setConfirmOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => {
+                setConfirmOpen(false);
+                onDisconnect();
+              }}
+            >
+              Disconnect
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
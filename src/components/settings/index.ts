@@ -0,0 +1,10 @@
+/**
+ * Settings components
+ * Navigation, platform connection and linked session cards for the settings pages
+ */
+
+export type { ConnectionAction, ConnectionCardProps } from './connection-card';
+export { ConnectionCard, ConnectionStatusBadge } from './connection-card';
+export type { LinkedSession, LinkedSessionCardProps } from './linked-session-card';
+export { LinkedSessionCard, parseCookieHeader } from './linked-session-card';
+export { SettingsNav } from './settings-nav';
@@ -0,0 +1,129 @@
+'use client';
+
+import { Cookie, Unlink } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { PLATFORM_CONFIGS, type Platform } from '@/types/platform';
+
+/**
+ * Browser session captured from the platform's website
+ */
+export interface LinkedSession {
+  cookies: Record<string, string>;
+  userAgent: string;
+}
+
+/**
+ * LinkedSessionCard props
+ */
+export interface LinkedSessionCardProps {
+  platform: Platform;
+  /** Website the session is captured from, e.g. costco.com */
+  site: string;
+  linked: boolean;
+  isPending: boolean;
+  onLink: (session: LinkedSession) => void;
+  onUnlink: () => void;
+}
+
+/**
+ * Parse a Cookie request header (name=value; name2=value2)
+ */
+export function parseCookieHeader(header: string): Record<string, string> {
+  const cookies: Record<string, string> = {};
+
+  for (const pair of header.replace(/^cookie:\s*/i, '').split(';')) {
+    const index = pair.indexOf('=');
+    const name = pair.slice(0, index).trim();
+    if (index > 0 && name) {
+      cookies[name] = pair.slice(index + 1).trim();
+    }
+  }
+
+  return cookies;
+}
+
+/**
+ * LinkedSessionCard component
+ * Links a signed-in browser session so orders only on the platform's website are tracked
+ */
+export function LinkedSessionCard({
+  platform,
+  site,
+  linked,
+  isPending,
+  onLink,
+  onUnlink,
+}: LinkedSessionCardProps) {
+  const name = PLATFORM_CONFIGS[platform]?.name ?? platform;
+  const [cookieHeader, setCookieHeader] = useState('');
+  const [userAgent, setUserAgent] = useState(() =>
+    typeof navigator === 'undefined' ? '' : navigator.userAgent
+  );
+
+  const cookies = parseCookieHeader(cookieHeader);
+  const canLink = Object.keys(cookies).length > 0 && userAgent.trim() !== '';
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onLink({ cookies, userAgent: userAgent.trim() });
+    setCookieHeader('');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Cookie className="w-4 h-4" />
+          {site} orders
+        </CardTitle>
+        <CardDescription>
+          {linked
+            ? `Your ${site} session is linked, so ${name} orders placed on ${site} are tracked too. Sessions last up to 7 days.`
+            : `Orders placed on ${site} (not through same-day delivery) need a signed-in ${site} session. Sign in on ${site}, copy the Cookie header of any request from your browser's developer tools and paste it here.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <textarea
+            required
+            value={cookieHeader}
+            onChange={(e) => setCookieHeader(e.target.value)}
+            placeholder="WC_AUTHENTICATION_...=...; WC_USERACTIVITY_...=..."
+            aria-label={`${site} cookies`}
+            autoComplete="off"
+            spellCheck={false}
+            rows={3}
+            className="w-full resize-none rounded-md border border-[var(--dd-border)] bg-[var(--dd-bg-card)] px-3 py-2 font-mono text-xs"
+          />
+          <Input
+            required
+            value={userAgent}
+            onChange={(e) => setUserAgent(e.target.value)}
+            aria-label="Browser user agent"
+          />
+
+          <div className="flex flex-wrap gap-2">
+            <Button type="submit" size="sm" disabled={isPending || !canLink}>
+              {linked ? 'Update session' : `Link ${site}`}
+            </Button>
+            {linked && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                disabled={isPending}
+                onClick={onUnlink}
+              >
+                <Unlink className="w-4 h-4" />
+                Unlink
+              </Button>
+            )}
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
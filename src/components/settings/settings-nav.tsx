@@ -0,0 +1,54 @@
+'use client';
+
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { cn } from '@/lib/utils';
+
+/**
+ * Settings sections
+ */
+const sections = [
+  { title: 'Connections', href: '/settings/connections' },
+  { title: 'Appearance', href: '/settings/appearance' },
+  { title: 'Notifications', href: '/settings/notifications' },
+  { title: 'Household', href: '/settings/household' },
+  { title: 'Email import', href: '/settings/email-import' },
+  { title: 'Webhooks', href: '/settings/webhooks' },
+  { title: 'Export', href: '/settings/export' },
+  { title: 'Security', href: '/settings/security' },
+  { title: 'Account', href: '/settings/account' },
+];
+
+/**
+ * SettingsNav component
+ * Tabs between the settings sections
+ */
+export function SettingsNav() {
+  const pathname = usePathname();
+
+  return (
+    <nav
+      aria-label="Settings sections"
+      className="flex gap-1 overflow-x-auto border-b border-[var(--dd-border)]"
+    >
+      {sections.map((section) => {
+        const isActive = pathname === section.href;
+        return (
+          <Link
+            key={section.href}
+            href={section.href}
+            aria-current={isActive ? 'page' : undefined}
+            className={cn(
+              '-mb-px shrink-0 border-b-2 px-3 py-2 text-sm font-medium transition-colors',
+              isActive
+                ? 'border-brand-cyan text-brand-cyan'
+                : 'border-transparent text-[var(--dd-text-secondary)] hover:text-[var(--dd-text-primary)]'
+            )}
+          >
+            {section.title}
+          </Link>
+        );
+      })}
+    </nav>
+  );
+}
@@ -0,0 +1,13 @@
+/**
+ * Share components
+ * Public tracking links for a single delivery
+ */
+
+export type {
+  ShareDeliveryDialogProps,
+  ShareDeliveryValues,
+  ShareLinkSummary,
+} from './share-delivery-dialog';
+export { ShareDeliveryDialog } from './share-delivery-dialog';
+export type { SharedTrackingProps } from './shared-tracking';
+export { SharedTracking } from './shared-tracking';
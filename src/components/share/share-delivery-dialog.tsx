@@ -0,0 +1,193 @@
+'use client';
+
+import { Copy, Link2 } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { SHARE_PRIVACY_OPTIONS, type SharePrivacy } from '@/types/share';
+
+/**
+ * How long a new link stays valid
+ */
+const DURATIONS = [
+  { hours: 2, label: '2 hours' },
+  { hours: 12, label: '12 hours' },
+  { hours: 24, label: '1 day' },
+  { hours: 72, label: '3 days' },
+] as const;
+
+/**
+ * An active share link, as listed in the dialog
+ */
+export interface ShareLinkSummary {
+  id: string;
+  tokenHint: string;
+  privacy: SharePrivacy;
+  expiresAt: Date;
+  lastViewedAt: Date | null;
+}
+
+/**
+ * Values collected by the share delivery dialog
+ */
+export interface ShareDeliveryValues {
+  privacy: SharePrivacy;
+  expiresInHours: number;
+}
+
+/**
+ * ShareDeliveryDialog props
+ */
+export interface ShareDeliveryDialogProps {
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Open state change handler */
+  onOpenChange: (open: boolean) => void;
+  /** Name of the delivery being shared */
+  deliveryName: string;
+  /** Active links for the delivery */
+  shares?: ShareLinkSummary[];
+  /** Link created by the last submit, shown once */
+  createdUrl?: string | null;
+  /** Called with the link settings */
+  onCreate: (values: ShareDeliveryValues) => void;
+  /** Called to revoke a link */
+  onRevoke: (shareId: string) => void;
+  /** Creating state */
+  isCreating?: boolean;
+  /** Error from the last create */
+  error?: string | null;
+}
+
+/**
+ * ShareDeliveryDialog component
+ * Creates and revokes public tracking links for one delivery
+ */
+export function ShareDeliveryDialog({
+  open,
+  onOpenChange,
+  deliveryName,
+  shares = [],
+  createdUrl,
+  onCreate,
+  onRevoke,
+  isCreating = false,
+  error,
+}: ShareDeliveryDialogProps) {
+  const [privacy, setPrivacy] = useState<SharePrivacy>('location');
+  const [expiresInHours, setExpiresInHours] = useState<number>(24);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onCreate({ privacy, expiresInHours });
+          }}
+        >
+          <DialogHeader>
+            <DialogTitle>Share {deliveryName}</DialogTitle>
+            <DialogDescription>
+              Anyone with the link can follow this delivery without an account. Order items and
+              prices are never shown.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={privacy}
+              onChange={(e) => setPrivacy(e.target.value as SharePrivacy)}
+              aria-label="What the link shows"
+              className="h-10 rounded-md border border-[var(--dd-border)] bg-[var(--dd-bg-card)] px-3 text-sm text-[var(--dd-text-primary)]"
+            >
+              {SHARE_PRIVACY_OPTIONS.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={expiresInHours}
+              onChange={(e) => setExpiresInHours(Number(e.target.value))}
+              aria-label="Link expires after"
+              className="h-10 rounded-md border border-[var(--dd-border)] bg-[var(--dd-bg-card)] px-3 text-sm text-[var(--dd-text-primary)]"
+            >
+              {DURATIONS.map(({ hours, label }) => (
+                <option key={hours} value={hours}>
+                  Expires after {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Newly created link - shown once */}
+          {createdUrl && (
+            <div className="space-y-1">
+              <p className="text-xs text-[var(--dd-text-muted)]">
+                Copy the link now - it will not be shown again.
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 truncate rounded bg-[var(--dd-bg-tertiary)] px-3 py-2 text-sm">
+                  {createdUrl}
+                </code>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => void navigator.clipboard.writeText(createdUrl)}
+                >
+                  <Copy className="w-4 h-4" />
+                  Copy
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {/* Active links */}
+          {shares.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-[var(--dd-text-primary)]">Active links</p>
+              {shares.map((share) => (
+                <div key={share.id} className="flex items-center justify-between gap-2 text-xs">
+                  <span className="text-[var(--dd-text-secondary)]">
+                    Ending in {share.tokenHint} · expires{' '}
+                    {new Date(share.expiresAt).toLocaleString()}
+                    {share.lastViewedAt
+                      ? ` · viewed ${new Date(share.lastViewedAt).toLocaleString()}`
+                      : ' · not viewed yet'}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onRevoke(share.id)}
+                  >
+                    Revoke
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-error">{error}</p>}
+
+          <DialogFooter>
+            <Button type="submit" disabled={isCreating}>
+              <Link2 className="w-4 h-4 mr-2" />
+              {isCreating ? 'Creating...' : 'Create link'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
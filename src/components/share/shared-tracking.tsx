@@ -0,0 +1,142 @@
+'use client';
+
+import { Car, Clock, User } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useEffect, useMemo } from 'react';
+import { ETADisplay, ETATimeline } from '@/components/delivery';
+import { LiveTrackingMap } from '@/components/map';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useSharedLocation } from '@/hooks/use-shared-location';
+import type { UnifiedDelivery } from '@/types/delivery';
+import { PLATFORM_CONFIGS } from '@/types/platform';
+import type { SharedDelivery } from '@/types/share';
+
+/**
+ * How often the page reloads the delivery's status and ETA
+ */
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * SharedTracking props
+ */
+export interface SharedTrackingProps {
+  /** Share token from the URL, used to authenticate live updates */
+  token: string;
+  /** Redacted delivery behind the link */
+  shared: SharedDelivery;
+}
+
+/**
+ * Describe a vehicle in one line, e.g. "Silver Toyota Camry"
+ */
+function describeVehicle(vehicle: NonNullable<UnifiedDelivery['driver']>['vehicle']) {
+  return [vehicle?.color, vehicle?.make, vehicle?.model].filter(Boolean).join(' ');
+}
+
+/**
+ * SharedTracking component
+ * Public view of one delivery: ETA, progress and, when the link allows it,
+ * the driver and their live location
+ */
+export function SharedTracking({ token, shared }: SharedTrackingProps) {
+  const router = useRouter();
+  const { privacy, expiresAt } = shared;
+  const isActive = !['delivered', 'cancelled'].includes(shared.delivery.status);
+
+  const liveLocation = useSharedLocation(
+    token,
+    shared.delivery.id,
+    isActive && privacy !== 'eta' && shared.delivery.tracking.liveUpdates
+  );
+
+  // Reload status and ETA while the delivery is on its way
+  useEffect(() => {
+    if (!isActive) return;
+    const interval = setInterval(() => router.refresh(), REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isActive, router]);
+
+  const delivery = useMemo<UnifiedDelivery>(
+    () =>
+      liveLocation
+        ? { ...shared.delivery, driver: { ...shared.delivery.driver, location: liveLocation } }
+        : shared.delivery,
+    [shared.delivery, liveLocation]
+  );
+
+  const platform = PLATFORM_CONFIGS[delivery.platform];
+  const vehicle = describeVehicle(delivery.driver?.vehicle);
+
+  return (
+    <div className="min-h-screen bg-[var(--dd-bg-primary)]">
+      <div className="mx-auto max-w-2xl space-y-4 p-4">
+        {/* Header */}
+        <div>
+          <p className="text-xs font-medium uppercase tracking-wide text-[var(--dd-text-muted)]">
+            DropDeck live tracking
+          </p>
+          <h1 className="text-2xl font-bold text-[var(--dd-text-primary)]">
+            {delivery.label ?? `${platform?.name ?? delivery.platform} delivery`}
+          </h1>
+          <p className="text-sm text-[var(--dd-text-secondary)]">{delivery.statusLabel}</p>
+        </div>
+
+        {/* ETA */}
+        {isActive && (
+          <Card>
+            <CardContent className="p-4">
+              <ETADisplay delivery={delivery} size="lg" showConfidence showRange />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Map */}
+        {isActive && privacy !== 'eta' && delivery.driver?.location && (
+          <Card className="overflow-hidden">
+            <LiveTrackingMap
+              deliveries={[delivery]}
+              className="h-[320px]"
+              showConnectionStatus={false}
+              autoFitBounds
+            />
+          </Card>
+        )}
+
+        {/* Driver */}
+        {privacy === 'driver' && delivery.driver?.name && (
+          <Card>
+            <CardContent className="flex items-center gap-3 p-4">
+              <User className="h-10 w-10 rounded-full bg-[var(--dd-bg-tertiary)] p-2" />
+              <div>
+                <p className="text-sm font-medium text-[var(--dd-text-primary)]">
+                  {delivery.driver.name}
+                </p>
+                {vehicle && (
+                  <p className="flex items-center gap-1 text-xs text-[var(--dd-text-muted)]">
+                    <Car className="h-3.5 w-3.5" />
+                    {vehicle}
+                  </p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Progress */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Progress</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ETATimeline delivery={delivery} showTimestamps />
+          </CardContent>
+        </Card>
+
+        <p className="flex items-center justify-center gap-1 text-xs text-[var(--dd-text-muted)]">
+          <Clock className="h-3.5 w-3.5" />
+          This link stops working {new Date(expiresAt).toLocaleString()}
+        </p>
+      </div>
+    </div>
+  );
+}
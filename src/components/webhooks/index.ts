@@ -0,0 +1,9 @@
+/**
+ * Webhook components
+ * Settings UI for outbound webhook endpoints
+ */
+
+export type { WebhookDeliveryLogEntry, WebhookDeliveryLogProps } from './webhook-delivery-log';
+export { WebhookDeliveryLog } from './webhook-delivery-log';
+export type { WebhookEndpointFormProps, WebhookEndpointFormValues } from './webhook-endpoint-form';
+export { WebhookEndpointForm } from './webhook-endpoint-form';
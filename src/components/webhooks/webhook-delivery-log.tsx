@@ -0,0 +1,91 @@
+'use client';
+
+import { CheckCircle2, Clock, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+/**
+ * Delivery log entry
+ */
+export interface WebhookDeliveryLogEntry {
+  id: string;
+  eventType: string;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: Date;
+  nextAttemptAt: Date | null;
+}
+
+/**
+ * WebhookDeliveryLog props
+ */
+export interface WebhookDeliveryLogProps {
+  /** Log entries, newest first */
+  deliveries: WebhookDeliveryLogEntry[];
+  /** Loading state */
+  isLoading?: boolean;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+const STATUS_ICONS = {
+  succeeded: <CheckCircle2 className="w-4 h-4 text-success" />,
+  pending: <Clock className="w-4 h-4 text-warning" />,
+  failed: <XCircle className="w-4 h-4 text-error" />,
+};
+
+/**
+ * WebhookDeliveryLog component
+ * Lists recent deliveries to an endpoint with their outcome
+ */
+export function WebhookDeliveryLog({
+  deliveries,
+  isLoading = false,
+  className,
+}: WebhookDeliveryLogProps) {
+  if (isLoading) {
+    return <p className={cn('text-sm text-[var(--dd-text-muted)]', className)}>Loading...</p>;
+  }
+
+  if (deliveries.length === 0) {
+    return (
+      <p className={cn('text-sm text-[var(--dd-text-muted)]', className)}>
+        No deliveries yet. Send a test event to try the endpoint.
+      </p>
+    );
+  }
+
+  return (
+    <ul className={cn('divide-y divide-[var(--dd-border)]', className)}>
+      {deliveries.map((delivery) => (
+        <li key={delivery.id} className="flex items-start gap-3 py-2 text-sm">
+          <span className="mt-0.5">{STATUS_ICONS[delivery.status]}</span>
+          <div className="min-w-0 flex-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium text-[var(--dd-text-primary)]">
+                {delivery.eventType === 'test' ? 'Test event' : 'Delivery update'}
+              </span>
+              <span className="text-xs text-[var(--dd-text-muted)]">
+                {new Date(delivery.createdAt).toLocaleString()}
+              </span>
+            </div>
+            <p className="text-xs text-[var(--dd-text-muted)]">
+              {delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : 'No response'}
+              {' · '}
+              {delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'}
+              {delivery.status === 'pending' && delivery.nextAttemptAt
+                ? ` · retrying at ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`
+                : ''}
+            </p>
+            {delivery.error && (
+              <p className="truncate text-xs text-error" title={delivery.error}>
+                {delivery.error}
+              </p>
+            )}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,190 @@
+'use client';
+
+import { Plus } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { type DeliveryStatus, STATUS_CONFIGS } from '@/types/delivery';
+import { PLATFORM_CONFIGS, type Platform } from '@/types/platform';
+
+/**
+ * Values collected by the endpoint form
+ */
+export interface WebhookEndpointFormValues {
+  url: string;
+  description?: string;
+  platforms: Platform[] | null;
+  statuses: DeliveryStatus[] | null;
+  arrivingWithinMinutes: number | null;
+}
+
+/**
+ * WebhookEndpointForm props
+ */
+export interface WebhookEndpointFormProps {
+  /** Called with the new endpoint; resolves once it is saved */
+  onSubmit: (values: WebhookEndpointFormValues) => Promise<void>;
+  /** Submitting state */
+  isSubmitting?: boolean;
+  /** Error from the last submit */
+  error?: string | null;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Toggleable filter chip
+ */
+function FilterChip({
+  label,
+  selected,
+  onToggle,
+}: {
+  label: string;
+  selected: boolean;
+  onToggle: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      aria-pressed={selected}
+      className={cn(
+        'rounded-full border px-3 py-1 text-xs transition-colors',
+        selected
+          ? 'border-brand-cyan bg-brand-cyan/10 text-brand-cyan'
+          : 'border-[var(--dd-border)] text-[var(--dd-text-muted)] hover:text-[var(--dd-text-primary)]'
+      )}
+    >
+      {label}
+    </button>
+  );
+}
+
+/**
+ * Toggle a value in a list
+ */
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+}
+
+/**
+ * WebhookEndpointForm component
+ * Registers an HTTPS endpoint with optional platform, status and ETA filters
+ */
+export function WebhookEndpointForm({
+  onSubmit,
+  isSubmitting = false,
+  error,
+  className,
+}: WebhookEndpointFormProps) {
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [platforms, setPlatforms] = useState<Platform[]>([]);
+  const [statuses, setStatuses] = useState<DeliveryStatus[]>([]);
+  const [arrivingWithin, setArrivingWithin] = useState('');
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const minutes = Number.parseInt(arrivingWithin, 10);
+
+    await onSubmit({
+      url: url.trim(),
+      description: description.trim() || undefined,
+      platforms: platforms.length > 0 ? platforms : null,
+      statuses: statuses.length > 0 ? statuses : null,
+      arrivingWithinMinutes: Number.isNaN(minutes) ? null : minutes,
+    });
+
+    setUrl('');
+    setDescription('');
+    setPlatforms([]);
+    setStatuses([]);
+    setArrivingWithin('');
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-lg">Add Endpoint</CardTitle>
+        <CardDescription>
+          DropDeck POSTs signed delivery updates to this URL. Leave a filter empty to receive
+          everything.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <Input
+              type="url"
+              required
+              placeholder="https://homeassistant.example.com/api/webhook/dropdeck"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              aria-label="Endpoint URL"
+            />
+            <Input
+              placeholder="Description (optional)"
+              maxLength={100}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              aria-label="Description"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-[var(--dd-text-primary)]">Platforms</p>
+            <div className="flex flex-wrap gap-2">
+              {Object.values(PLATFORM_CONFIGS).map((config) => (
+                <FilterChip
+                  key={config.id}
+                  label={config.name}
+                  selected={platforms.includes(config.id)}
+                  onToggle={() => setPlatforms((prev) => toggle(prev, config.id))}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-[var(--dd-text-primary)]">Statuses</p>
+            <div className="flex flex-wrap gap-2">
+              {Object.values(STATUS_CONFIGS).map((config) => (
+                <FilterChip
+                  key={config.status}
+                  label={config.label}
+                  selected={statuses.includes(config.status)}
+                  onToggle={() => setStatuses((prev) => toggle(prev, config.status))}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-[var(--dd-text-primary)]">Only when arriving within</span>
+            <Input
+              type="number"
+              min={1}
+              max={240}
+              placeholder="any"
+              className="w-20"
+              value={arrivingWithin}
+              onChange={(e) => setArrivingWithin(e.target.value)}
+              aria-label="Arriving within minutes"
+            />
+            <span className="text-sm text-[var(--dd-text-muted)]">minutes</span>
+          </div>
+
+          {error && <p className="text-sm text-error">{error}</p>}
+
+          <Button type="submit" disabled={isSubmitting || !url.trim()}>
+            <Plus className="w-4 h-4" />
+            Add Endpoint
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
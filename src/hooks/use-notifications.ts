@@ -220,6 +220,9 @@ export function useNotificationPreferences(_userId?: string) {
     arrivingSoon: true,
     delivered: true,
     delayed: true,
+    etaSlipped: true,
+    etaSlipMinutes: 15,
+    householdDeliveries: true,
     platformStatus: true,
     quietHoursEnabled: false,
     quietHoursStart: '22:00',
@@ -0,0 +1,186 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { trpc } from '@/lib/trpc/react';
+
+/**
+ * Service worker that renders push notifications
+ */
+const SERVICE_WORKER_URL = '/sw.js';
+
+/**
+ * Push permission state, including browsers without Web Push
+ */
+export type PushPermission = NotificationPermission | 'unsupported';
+
+/**
+ * Message posted by the service worker when a notification is clicked
+ * while a dashboard tab is already open
+ */
+export interface OpenDeliveryMessage {
+  type: 'open-delivery';
+  deliveryId: string;
+  url: string;
+}
+
+/**
+ * Check if this browser supports Web Push
+ */
+function isPushSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window
+  );
+}
+
+/**
+ * Decode a base64url VAPID key for PushManager.subscribe
+ */
+function urlBase64ToUint8Array(base64: string): Uint8Array<ArrayBuffer> {
+  const padded = `${base64}${'='.repeat((4 - (base64.length % 4)) % 4)}`;
+  const raw = window.atob(padded.replace(/-/g, '+').replace(/_/g, '/'));
+  const output = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i++) {
+    output[i] = raw.charCodeAt(i);
+  }
+  return output;
+}
+
+/**
+ * Hook for registering this browser for Web Push notifications
+ */
+export function usePushSubscription() {
+  const [permission, setPermission] = useState<PushPermission>('default');
+  const [isSubscribed, setIsSubscribed] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const subscribeMutation = trpc.notification.subscribePush.useMutation();
+  const unsubscribeMutation = trpc.notification.unsubscribePush.useMutation();
+
+  /**
+   * Register the service worker and pick up any existing subscription
+   */
+  useEffect(() => {
+    if (!isPushSupported()) {
+      setPermission('unsupported');
+      return;
+    }
+
+    setPermission(Notification.permission);
+
+    navigator.serviceWorker
+      .register(SERVICE_WORKER_URL)
+      .then((registration) => registration.pushManager.getSubscription())
+      .then((subscription) => setIsSubscribed(!!subscription))
+      .catch((error) => {
+        console.error('Service worker registration failed:', error);
+      });
+  }, []);
+
+  /**
+   * Ask for permission and subscribe this browser
+   */
+  const subscribe = useCallback(async (): Promise<boolean> => {
+    const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+    if (!isPushSupported() || !publicKey) {
+      return false;
+    }
+
+    setIsLoading(true);
+    try {
+      const result = await Notification.requestPermission();
+      setPermission(result);
+      if (result !== 'granted') {
+        return false;
+      }
+
+      const registration = await navigator.serviceWorker.ready;
+      const subscription =
+        (await registration.pushManager.getSubscription()) ??
+        (await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(publicKey),
+        }));
+
+      const { endpoint, keys } = subscription.toJSON();
+      if (!endpoint || !keys?.p256dh || !keys.auth) {
+        return false;
+      }
+
+      await subscribeMutation.mutateAsync({
+        endpoint,
+        keys: { p256dh: keys.p256dh, auth: keys.auth },
+      });
+      setIsSubscribed(true);
+      return true;
+    } catch (error) {
+      console.error('Push subscription failed:', error);
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [subscribeMutation]);
+
+  /**
+   * Unsubscribe this browser
+   */
+  const unsubscribe = useCallback(async (): Promise<void> => {
+    if (!isPushSupported()) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const registration = await navigator.serviceWorker.ready;
+      const subscription = await registration.pushManager.getSubscription();
+      if (subscription) {
+        await unsubscribeMutation.mutateAsync({ endpoint: subscription.endpoint });
+        await subscription.unsubscribe();
+      }
+      setIsSubscribed(false);
+    } catch (error) {
+      console.error('Push unsubscribe failed:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [unsubscribeMutation]);
+
+  return {
+    permission,
+    isSubscribed,
+    isLoading,
+    subscribe,
+    unsubscribe,
+  };
+}
+
+/**
+ * Hook for opening deliveries from clicked push notifications
+ * Handles both the ?delivery= deep link and messages from the service worker.
+ */
+export function useDeliveryDeepLink(onOpen: (deliveryId: string) => void) {
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const deliveryId = params.get('delivery');
+    if (deliveryId) {
+      onOpen(deliveryId);
+    }
+
+    if (!('serviceWorker' in navigator)) {
+      return;
+    }
+
+    const handleMessage = (event: MessageEvent<OpenDeliveryMessage>) => {
+      if (event.data?.type === 'open-delivery') {
+        onOpen(event.data.deliveryId);
+      }
+    };
+
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => {
+      navigator.serviceWorker.removeEventListener('message', handleMessage);
+    };
+  }, [onOpen]);
+}
@@ -20,6 +20,8 @@ export type ConnectionState = 'connecting' | 'connected' | 'disconnected' | 'fai
 interface UseRealTimeOptions {
   /** User ID for authentication */
   userId?: string;
+  /** Household whose shared delivery channel is also followed */
+  householdId?: string | null;
   /** Callback when delivery updates are received */
   onDeliveryUpdate?: (event: DeliveryUpdateEvent) => void;
   /** Callback when location updates are received */
@@ -41,6 +43,7 @@ interface UseRealTimeOptions {
 export function useRealTimeUpdates(options: UseRealTimeOptions = {}) {
   const {
     userId,
+    householdId,
     onDeliveryUpdate,
     onLocationUpdate,
     onConnectionStatus,
@@ -218,6 +221,20 @@ export function useRealTimeUpdates(options: UseRealTimeOptions = {}) {
     };
   }, [userId, subscribe, updateState, log, enabled]);
 
+  /**
+   * Follow the household's shared delivery channel
+   */
+  useEffect(() => {
+    if (!enabled || !userId || !householdId) return;
+
+    const householdChannel = `household:${householdId}:deliveries`;
+    void subscribe(householdChannel);
+
+    return () => {
+      unsubscribe(householdChannel);
+    };
+  }, [householdId, userId, enabled, subscribe, unsubscribe]);
+
   /**
    * Handle online/offline status
    */
@@ -0,0 +1,41 @@
+'use client';
+
+import Ably from 'ably';
+import { useEffect, useState } from 'react';
+import type { LocationUpdatePayload } from '@/lib/realtime/pubsub';
+import type { DriverLocation } from '@/types/delivery';
+
+/**
+ * Live driver location for a public share link
+ * Authenticates with a token from the share link, which can only subscribe to
+ * this one delivery's location channel.
+ */
+export function useSharedLocation(
+  token: string,
+  deliveryId: string,
+  enabled = true
+): DriverLocation | null {
+  const [location, setLocation] = useState<DriverLocation | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const client = new Ably.Realtime({
+      authUrl: `/api/share/${encodeURIComponent(token)}/realtime`,
+      autoConnect: true,
+    });
+    const channel = client.channels.get(`delivery:${deliveryId}:location`);
+
+    void channel.subscribe('location_update', (message) => {
+      const payload = message.data as LocationUpdatePayload;
+      setLocation({ ...payload.location, timestamp: new Date(payload.location.timestamp) });
+    });
+
+    return () => {
+      channel.unsubscribe();
+      client.close();
+    };
+  }, [token, deliveryId, enabled]);
+
+  return location;
+}
@@ -163,6 +163,17 @@ function toast({ ...props }: Toast) {
   };
 }
 
+/**
+ * Show a failed mutation, e.g. as a tRPC mutation's onError
+ */
+function showError(error: { message: string }) {
+  return toast({
+    title: 'Something went wrong',
+    description: error.message,
+    variant: 'destructive',
+  });
+}
+
 function useToast() {
   const [state, setState] = React.useState<State>(memoryState);
 
@@ -183,4 +194,4 @@ function useToast() {
   };
 }
 
-export { useToast, toast };
+export { useToast, toast, showError };
@@ -1,4 +1,4 @@
-import type { DeliveryStatus, UnifiedDelivery } from '@/types/delivery';
+import type { DeliveryStatus, FulfillmentType, UnifiedDelivery } from '@/types/delivery';
 import type { Platform } from '@/types/platform';
 import {
   PlatformAuthError,
@@ -125,6 +125,25 @@ export abstract class PlatformAdapter {
     throw new Error(`${this.platformId} does not implement connection test`);
   }
 
+  // ============================================
+  // Linked Session Methods
+  // ============================================
+
+  /**
+   * Check if this adapter can use a captured browser session alongside its main credentials
+   */
+  supportsLinkedSession(): boolean {
+    return false;
+  }
+
+  /**
+   * Validate a captured browser session before it is stored
+   * @param sessionData - Session JSON (cookies and user agent)
+   */
+  async testLinkedSession(_sessionData: string): Promise<void> {
+    throw new Error(`${this.platformId} does not support linked sessions`);
+  }
+
   // ============================================
   // Delivery Methods
   // ============================================
@@ -206,12 +225,18 @@ export abstract class PlatformAdapter {
   /**
    * Get a human-readable label for a status
    * @param status - The unified delivery status
+   * @param fulfillment - How the order is fulfilled, for pickup wording
    * @returns Human-readable status label
    */
-  getStatusLabel(status: DeliveryStatus): string {
+  getStatusLabel(status: DeliveryStatus, fulfillment?: FulfillmentType): string {
+    if (fulfillment === 'pickup' && status === 'delivered') {
+      return 'Picked Up';
+    }
+
     const labels: Record<DeliveryStatus, string> = {
       preparing: 'Preparing',
       ready_for_pickup: 'Ready for Pickup',
+      checked_in: 'Checked In',
       driver_assigned: 'Driver Assigned',
       driver_heading_to_store: 'Driver Heading to Store',
       driver_at_store: 'Driver at Store',
@@ -0,0 +1,344 @@
+import { createDatabasePackageStore, type PackageStore } from '@/lib/services/packages';
+import type { DeliveryStatus, TimelineEvent, UnifiedDelivery } from '@/types/delivery';
+import type { CarrierPlatform } from '@/types/platform';
+import { PlatformAdapter } from '../base';
+import { PlatformUnavailableError, TrackingNotFoundError } from '../errors';
+import { getStatusMap } from '../status-map';
+import type { AdapterConnection } from '../types';
+
+/**
+ * Days until delivery when the carrier has not given an estimate yet
+ */
+const DEFAULT_TRANSIT_DAYS = 5;
+
+/**
+ * Scan descriptions that mean the package is on the delivery vehicle
+ */
+const OUT_FOR_DELIVERY_PATTERN =
+  /out for delivery|on fedex vehicle for delivery|with delivery courier/i;
+
+/**
+ * Status labels for parcels, which read differently from food and grocery orders
+ */
+const CARRIER_STATUS_LABELS: Partial<Record<DeliveryStatus, string>> = {
+  preparing: 'Label Created',
+  out_for_delivery: 'In Transit',
+  ready_for_pickup: 'Ready for Pickup',
+  delayed: 'Delivery Exception',
+  delivered: 'Delivered',
+  cancelled: 'Returned to Sender',
+};
+
+/**
+ * A scan event reported by a carrier
+ */
+export interface CarrierScan {
+  /** Carrier status or event code, looked up in the carrier's status map */
+  code: string;
+  /** Carrier's description, e.g. "Departed from Facility" */
+  description: string;
+  timestamp: Date;
+  /** Scan location, e.g. "Medford, OR" */
+  location?: string;
+}
+
+/**
+ * Tracking details for one package, normalized from a carrier response
+ */
+export interface CarrierTracking {
+  trackingNumber: string;
+  /** Current status code, looked up in the carrier's status map */
+  code: string;
+  /** Service level, e.g. "UPS Ground" */
+  service?: string;
+  estimatedDelivery?: Date;
+  /** Promised delivery window, when the carrier gives one */
+  window?: { start: Date; end: Date };
+  shippedAt?: Date;
+  deliveredAt?: Date;
+  destination?: {
+    city?: string;
+    state?: string;
+    postalCode?: string;
+    country?: string;
+  };
+  scans: CarrierScan[];
+}
+
+/**
+ * Parse a carrier date, with an optional time
+ * Accepts "YYYYMMDD" or "YYYY-MM-DD" dates and "HHMMSS" times. Carriers
+ * report these in the local time of the scan or destination, so they are
+ * read as local time; a date without a time means "by end of day".
+ */
+export function parseCarrierDate(date: string | undefined, time?: string): Date | undefined {
+  const dateMatch = date?.match(/^(\d{4})-?(\d{2})-?(\d{2})$/);
+  if (!dateMatch) return undefined;
+
+  const [, year, month, day] = dateMatch.map(Number) as [number, number, number, number];
+  const timeMatch = time?.match(/^(\d{2})(\d{2})(\d{2})?$/);
+  const parsed = timeMatch
+    ? new Date(
+        year,
+        month - 1,
+        day,
+        Number(timeMatch[1]),
+        Number(timeMatch[2]),
+        Number(timeMatch[3] ?? 0)
+      )
+    : new Date(year, month - 1, day, 20, 0, 0);
+
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed;
+}
+
+/**
+ * Title-case a carrier's all-caps place name ("SAN JOSE" -> "San Jose")
+ * Anything after the first comma is a region or country code and is kept as is.
+ */
+export function formatPlaceName(name: string | null | undefined): string | undefined {
+  if (!name) return undefined;
+  if (name !== name.toUpperCase()) return name;
+
+  const comma = name.indexOf(',');
+  const place = comma === -1 ? name : name.slice(0, comma);
+  const titled = place.toLowerCase().replace(/\b[a-z]/g, (char) => char.toUpperCase());
+  return comma === -1 ? titled : `${titled}${name.slice(comma)}`;
+}
+
+/**
+ * Format a scan location as "City, ST"
+ */
+export function formatLocation(city?: string | null, region?: string | null): string | undefined {
+  return [formatPlaceName(city), region].filter(Boolean).join(', ') || undefined;
+}
+
+/**
+ * Carrier Adapter
+ *
+ * Base class for parcel carriers (UPS, FedEx, USPS, DHL). Carriers have no
+ * user account to list orders from: the user follows tracking numbers, and
+ * every package they follow with the carrier becomes one delivery.
+ */
+export abstract class CarrierAdapter extends PlatformAdapter {
+  private readonly packages: Pick<PackageStore, 'listActive'>;
+
+  constructor(packages: Pick<PackageStore, 'listActive'> = createDatabasePackageStore()) {
+    super();
+    this.packages = packages;
+  }
+
+  /**
+   * Get the carrier platform ID
+   */
+  get carrier(): CarrierPlatform {
+    return this.platformId as CarrierPlatform;
+  }
+
+  /**
+   * Check if the carrier API credentials are configured
+   */
+  abstract isConfigured(): boolean;
+
+  /**
+   * Get the carrier's public tracking page for a package
+   */
+  abstract getTrackingUrl(trackingNumber: string): string;
+
+  /**
+   * Fetch tracking details from the carrier
+   * @throws TrackingNotFoundError when the carrier has no record of the package
+   */
+  protected abstract track(trackingNumber: string): Promise<CarrierTracking>;
+
+  // ============================================
+  // Connection Methods
+  // ============================================
+
+  override supportsOAuth(): boolean {
+    return false;
+  }
+
+  override async testConnection(_accessToken: string): Promise<void> {
+    if (!this.isConfigured()) {
+      throw new PlatformUnavailableError(
+        this.carrier,
+        `${this.displayName} tracking is not configured`
+      );
+    }
+  }
+
+  // ============================================
+  // Delivery Methods
+  // ============================================
+
+  async getActiveDeliveries(connection: AdapterConnection): Promise<UnifiedDelivery[]> {
+    const packages = await this.packages.listActive(connection.userId, this.carrier);
+    return Promise.all(packages.map((pkg) => this.trackPackage(pkg)));
+  }
+
+  async getDeliveryDetails(
+    connection: AdapterConnection,
+    deliveryId: string
+  ): Promise<UnifiedDelivery> {
+    const prefix = this.generateDeliveryId('');
+    const trackingNumber = deliveryId.startsWith(prefix)
+      ? deliveryId.slice(prefix.length)
+      : deliveryId;
+
+    const packages = await this.packages.listActive(connection.userId, this.carrier);
+    const pkg = packages.find((p) => p.trackingNumber === trackingNumber);
+
+    return this.trackPackage({
+      trackingNumber,
+      label: pkg?.label ?? null,
+      createdAt: pkg?.createdAt ?? new Date(),
+    });
+  }
+
+  // ============================================
+  // Status Mapping
+  // ============================================
+
+  mapStatus(platformStatus: string): DeliveryStatus {
+    const normalized = platformStatus.toLowerCase().replace(/[- ]/g, '_');
+    return getStatusMap(this.platformId)[normalized] ?? 'preparing';
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  /**
+   * Track a package, falling back to a placeholder until the carrier has scanned it
+   */
+  private async trackPackage(pkg: {
+    trackingNumber: string;
+    label: string | null;
+    createdAt: Date;
+  }): Promise<UnifiedDelivery> {
+    try {
+      const tracking = await this.track(pkg.trackingNumber);
+      return this.normalizeTracking(tracking, pkg);
+    } catch (error) {
+      if (error instanceof TrackingNotFoundError) {
+        return this.normalizeTracking(
+          { trackingNumber: pkg.trackingNumber, code: 'pre_transit', scans: [] },
+          pkg,
+          'Awaiting Carrier Scan'
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Normalize carrier tracking details to UnifiedDelivery format
+   */
+  private normalizeTracking(
+    tracking: CarrierTracking,
+    pkg: { trackingNumber: string; label: string | null; createdAt: Date },
+    statusLabel?: string
+  ): UnifiedDelivery {
+    const now = new Date();
+    const status = tracking.deliveredAt ? 'delivered' : this.mapStatus(tracking.code);
+
+    const scans = [...tracking.scans].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const lastScan = scans[scans.length - 1];
+    const events: TimelineEvent[] = scans.map((scan) => ({
+      status: this.mapStatus(scan.code),
+      timestamp: scan.timestamp,
+      message: scan.location ? `${scan.description}, ${scan.location}` : scan.description,
+    }));
+
+    const isOutForDelivery =
+      status === 'out_for_delivery' &&
+      !!lastScan &&
+      OUT_FOR_DELIVERY_PATTERN.test(lastScan.description);
+    const outForDelivery = scans
+      .filter((scan) => OUT_FOR_DELIVERY_PATTERN.test(scan.description))
+      .pop()?.timestamp;
+
+    const estimatedArrival =
+      tracking.deliveredAt ??
+      tracking.window?.end ??
+      tracking.estimatedDelivery ??
+      new Date(pkg.createdAt.getTime() + DEFAULT_TRANSIT_DAYS * 24 * 60 * 60 * 1000);
+
+    return {
+      id: this.generateDeliveryId(pkg.trackingNumber),
+      platform: this.platformId,
+      externalOrderId: pkg.trackingNumber,
+      label: pkg.label ?? undefined,
+      fulfillment: 'shipping',
+      status,
+      statusLabel:
+        statusLabel ??
+        (isOutForDelivery
+          ? 'Out for Delivery'
+          : (CARRIER_STATUS_LABELS[status] ?? this.getStatusLabel(status))),
+      statusUpdatedAt: lastScan?.timestamp ?? now,
+
+      destination: this.toDestination(tracking.destination),
+
+      eta: {
+        estimatedArrival,
+        minutesRemaining: this.calculateEtaMinutes(estimatedArrival),
+        confidence: tracking.deliveredAt ? 'high' : tracking.window ? 'medium' : 'low',
+        window: tracking.window,
+      },
+
+      carrier: {
+        name: this.displayName,
+        trackingNumber: pkg.trackingNumber,
+      },
+
+      events,
+
+      order: {
+        itemCount: 1,
+        specialInstructions: tracking.service,
+      },
+
+      tracking: {
+        url: this.getTrackingUrl(pkg.trackingNumber),
+        mapAvailable: false,
+        liveUpdates: false,
+        contactDriverAvailable: false,
+      },
+
+      timestamps: {
+        ordered: scans[0]?.timestamp ?? pkg.createdAt,
+        pickedUp: tracking.shippedAt,
+        outForDelivery,
+        delivered: tracking.deliveredAt,
+        cancelled: status === 'cancelled' ? lastScan?.timestamp : undefined,
+      },
+
+      meta: {
+        lastFetchedAt: now,
+        fetchMethod: 'api',
+        adapterId: this.platformId,
+        rawData: tracking,
+      },
+    };
+  }
+
+  /**
+   * Build a destination from the carrier's (usually city-level) address
+   */
+  private toDestination(
+    destination: CarrierTracking['destination']
+  ): UnifiedDelivery['destination'] {
+    const city = formatPlaceName(destination?.city);
+    const region = [destination?.state, destination?.postalCode].filter(Boolean).join(' ');
+
+    return {
+      address: [city, region].filter(Boolean).join(', '),
+      city,
+      state: destination?.state,
+      zipCode: destination?.postalCode,
+      lat: 0,
+      lng: 0,
+    };
+  }
+}
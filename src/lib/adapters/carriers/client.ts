@@ -0,0 +1,196 @@
+import type { z } from 'zod';
+import { checkRateLimit, createPlatformRateLimiter } from '@/lib/ratelimit';
+import type { CarrierPlatform } from '@/types/platform';
+import {
+  PlatformAuthError,
+  PlatformDataError,
+  PlatformNetworkError,
+  PlatformRateLimitError,
+  PlatformUnavailableError,
+  TrackingNotFoundError,
+} from '../errors';
+import { withRetry } from '../utils';
+
+/**
+ * Seconds before expiry at which a cached access token is renewed
+ */
+const TOKEN_EXPIRY_SKEW = 60;
+
+/**
+ * Carrier API request options
+ */
+export interface CarrierRequestOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  timeout?: number;
+  /** Tracking number the request is for; a 404 becomes a TrackingNotFoundError */
+  trackingNumber?: string;
+}
+
+/**
+ * Base client for carrier tracking APIs
+ *
+ * Carriers authenticate DropDeck itself (client credentials or an API key),
+ * not the user, so tokens are cached per client rather than per connection.
+ */
+export abstract class CarrierApiClient {
+  private readonly rateLimiter: ReturnType<typeof createPlatformRateLimiter>;
+  private token: { value: string; expiresAt: number } | null = null;
+
+  constructor(
+    protected readonly platform: CarrierPlatform,
+    protected readonly baseUrl: string
+  ) {
+    this.rateLimiter = createPlatformRateLimiter(platform);
+  }
+
+  /**
+   * Check if API credentials are configured
+   */
+  abstract isConfigured(): boolean;
+
+  /**
+   * Get the headers that authenticate a request
+   */
+  protected abstract getAuthHeaders(): Promise<Record<string, string>>;
+
+  /**
+   * Get a cached OAuth access token, fetching a new one when it is about to expire
+   */
+  protected async getAccessToken(
+    fetchToken: () => Promise<{ access_token: string; expires_in: number }>
+  ): Promise<string> {
+    if (this.token && this.token.expiresAt - TOKEN_EXPIRY_SKEW * 1000 > Date.now()) {
+      return this.token.value;
+    }
+
+    const response = await fetchToken();
+    this.token = {
+      value: response.access_token,
+      expiresAt: Date.now() + response.expires_in * 1000,
+    };
+    return this.token.value;
+  }
+
+  /**
+   * Request a client credentials token and check the response
+   */
+  protected async requestToken<T>(
+    url: string,
+    init: RequestInit,
+    schema: z.ZodType<T>
+  ): Promise<T> {
+    const response = await fetch(url, init);
+
+    if (!response.ok) {
+      throw new PlatformAuthError(
+        this.platform,
+        `Failed to get ${this.platform.toUpperCase()} access token (HTTP ${response.status})`
+      );
+    }
+
+    return this.parse(schema, await response.json());
+  }
+
+  /**
+   * Parse a carrier response, reporting schema mismatches as data errors
+   */
+  protected parse<T>(schema: z.ZodType<T>, data: unknown): T {
+    const result = schema.safeParse(data);
+    if (!result.success) {
+      throw new PlatformDataError(this.platform, 'Unexpected tracking response', data);
+    }
+    return result.data;
+  }
+
+  /**
+   * Make an authenticated request to the carrier API
+   */
+  protected async request<T>(endpoint: string, options: CarrierRequestOptions = {}): Promise<T> {
+    if (!this.isConfigured()) {
+      throw new PlatformUnavailableError(
+        this.platform,
+        `${this.platform.toUpperCase()} tracking is not configured`
+      );
+    }
+
+    // Check rate limit
+    if (this.rateLimiter) {
+      const rateLimitResult = await checkRateLimit(this.rateLimiter, `${this.platform}-api`);
+      if (!rateLimitResult.success) {
+        throw new PlatformRateLimitError(
+          this.platform,
+          Math.ceil((rateLimitResult.reset - Date.now()) / 1000)
+        );
+      }
+    }
+
+    const url = `${this.baseUrl}${endpoint}`;
+    const timeout = options.timeout ?? 15000;
+
+    const fetchFn = async (): Promise<T> => {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+      try {
+        const response = await fetch(url, {
+          method: options.method ?? 'GET',
+          headers: {
+            Accept: 'application/json',
+            ...(await this.getAuthHeaders()),
+            ...options.headers,
+          },
+          body: options.body,
+          signal: controller.signal,
+        });
+
+        if (response.status === 401 || response.status === 403) {
+          // Drop the cached token so the next attempt fetches a new one
+          this.token = null;
+          throw new PlatformAuthError(this.platform, 'Carrier API credentials were rejected');
+        }
+
+        if (response.status === 404 && options.trackingNumber) {
+          throw new TrackingNotFoundError(this.platform, options.trackingNumber);
+        }
+
+        if (response.status === 429) {
+          const retryAfter = parseInt(response.headers.get('Retry-After') ?? '60', 10);
+          throw new PlatformRateLimitError(this.platform, retryAfter);
+        }
+
+        if (response.status >= 500) {
+          throw new PlatformUnavailableError(this.platform);
+        }
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new PlatformDataError(
+            this.platform,
+            `API error: ${response.status} ${response.statusText}`,
+            errorData
+          );
+        }
+
+        return (await response.json()) as T;
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+          throw new PlatformNetworkError(this.platform, 'Request timeout');
+        }
+
+        throw error;
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    };
+
+    // Rejected credentials and unknown tracking numbers will not fix themselves
+    return withRetry(
+      fetchFn,
+      3,
+      1000,
+      (error) => !(error instanceof PlatformAuthError || error instanceof PlatformDataError)
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import type { CarrierPlatform } from '@/types/platform';
+
+/**
+ * Tracking number format for a carrier
+ */
+interface TrackingFormat {
+  carrier: CarrierPlatform;
+  pattern: RegExp;
+  /** Check digit validation, for formats that overlap with other carriers */
+  validate?: (trackingNumber: string) => boolean;
+}
+
+/**
+ * Known tracking number formats, most specific first
+ */
+const TRACKING_FORMATS: TrackingFormat[] = [
+  // UPS: "1Z" + shipper number + service code + package number + check digit
+  { carrier: 'ups', pattern: /^1Z[0-9A-Z]{16}$/, validate: isValidUpsNumber },
+
+  // USPS Intelligent Mail package barcode (22 digits), optionally with the
+  // "420" + ZIP routing prefix that is printed in the same barcode
+  {
+    carrier: 'usps',
+    pattern: /^(?:420\d{5}(?:\d{4})?)?9[1-5]\d{20}$/,
+    validate: (number) => isValidMod10Number(number.slice(-22)),
+  },
+  // USPS international (UPU S10)
+  { carrier: 'usps', pattern: /^[A-Z]{2}\d{9}US$/ },
+
+  // FedEx Ground 96 barcode, Express (12 digits) and Ground (15 digits)
+  { carrier: 'fedex', pattern: /^96\d{20}$/ },
+  { carrier: 'fedex', pattern: /^\d{12}$/ },
+  { carrier: 'fedex', pattern: /^\d{15}$/ },
+
+  // DHL Express waybill (10 digits) and DHL eCommerce / Parcel piece IDs
+  { carrier: 'dhl', pattern: /^\d{10}$/ },
+  { carrier: 'dhl', pattern: /^(?:JJD|JVGL)\d{10,18}$/ },
+  { carrier: 'dhl', pattern: /^GM\d{16,18}$/ },
+];
+
+/**
+ * Normalize a tracking number as typed or pasted by a user
+ * Removes whitespace and dashes and upper-cases letters.
+ */
+export function normalizeTrackingNumber(trackingNumber: string): string {
+  return trackingNumber.replace(/[\s-]/g, '').toUpperCase();
+}
+
+/**
+ * Detect the carrier from a tracking number's format
+ * @returns The carrier, or null when the format is not recognized
+ */
+export function detectCarrier(trackingNumber: string): CarrierPlatform | null {
+  const number = normalizeTrackingNumber(trackingNumber);
+
+  const format = TRACKING_FORMATS.find(
+    ({ pattern, validate }) => pattern.test(number) && (!validate || validate(number))
+  );
+
+  return format?.carrier ?? null;
+}
+
+/**
+ * Get the part of a tracking number the carrier's API expects
+ * FedEx 96 barcodes track by their last 15 digits; USPS drops the ZIP routing prefix.
+ */
+export function getCarrierTrackingNumber(carrier: CarrierPlatform, trackingNumber: string): string {
+  const number = normalizeTrackingNumber(trackingNumber);
+
+  if (carrier === 'fedex' && /^96\d{20}$/.test(number)) {
+    return number.slice(-15);
+  }
+  if (carrier === 'usps' && /^420\d+$/.test(number) && number.length > 22) {
+    return number.slice(-22);
+  }
+
+  return number;
+}
+
+/**
+ * Validate the UPS "1Z" check digit
+ * Letters count as (char code - 63) mod 10; even positions are doubled.
+ */
+function isValidUpsNumber(trackingNumber: string): boolean {
+  const body = trackingNumber.slice(2, -1);
+  const checkDigit = Number(trackingNumber.slice(-1));
+
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const char = body.charAt(i);
+    const value = /\d/.test(char) ? Number(char) : (char.charCodeAt(0) - 63) % 10;
+    sum += i % 2 === 1 ? value * 2 : value;
+  }
+
+  return (10 - (sum % 10)) % 10 === checkDigit;
+}
+
+/**
+ * Validate a mod 10 check digit (weights 3 and 1 from the right)
+ * Used by USPS Intelligent Mail package barcodes.
+ */
+function isValidMod10Number(trackingNumber: string): boolean {
+  const digits = trackingNumber.slice(0, -1);
+  const checkDigit = Number(trackingNumber.slice(-1));
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    const digit = Number(digits.charAt(digits.length - 1 - i));
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+
+  return (10 - (sum % 10)) % 10 === checkDigit;
+}
@@ -0,0 +1,188 @@
+import { z } from 'zod';
+import type { PackageStore } from '@/lib/services/packages';
+import { TrackingNotFoundError } from '../errors';
+import type { AdapterMetadata } from '../types';
+import { parseDate } from '../utils';
+import { CarrierAdapter, type CarrierTracking, formatLocation } from './base';
+import { CarrierApiClient } from './client';
+
+// ============================================
+// API Schemas
+// ============================================
+
+const DhlLocationSchema = z.object({
+  address: z
+    .object({
+      addressLocality: z.string().optional(),
+      postalCode: z.string().optional(),
+      countryCode: z.string().optional(),
+    })
+    .optional(),
+});
+
+const DhlStatusSchema = z.object({
+  timestamp: z.string(),
+  /** pre-transit, transit, delivered, failure or unknown */
+  statusCode: z.string(),
+  status: z.string().optional(),
+  description: z.string().optional(),
+  location: DhlLocationSchema.optional(),
+});
+
+const DhlShipmentSchema = z.object({
+  id: z.string(),
+  status: DhlStatusSchema,
+  estimatedTimeOfDelivery: z.string().optional(),
+  estimatedDeliveryTimeFrame: z
+    .object({ estimatedFrom: z.string(), estimatedThrough: z.string() })
+    .optional(),
+  destination: DhlLocationSchema.optional(),
+  details: z.object({ product: z.object({ productName: z.string() }).optional() }).optional(),
+  events: z.array(DhlStatusSchema).optional().default([]),
+});
+
+const DhlTrackResponseSchema = z.object({
+  shipments: z.array(DhlShipmentSchema),
+});
+
+export type DhlShipment = z.infer<typeof DhlShipmentSchema>;
+
+// ============================================
+// Client
+// ============================================
+
+/**
+ * DHL Shipment Tracking - Unified API Client
+ * Authenticates with an API key; covers Express, Parcel and eCommerce
+ */
+export class DhlApiClient extends CarrierApiClient {
+  private readonly apiKey: string;
+
+  constructor() {
+    super('dhl', 'https://api-eu.dhl.com');
+    this.apiKey = process.env.DHL_API_KEY ?? '';
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  protected async getAuthHeaders(): Promise<Record<string, string>> {
+    return { 'DHL-API-Key': this.apiKey };
+  }
+
+  /**
+   * Get tracking details for a shipment
+   * @throws TrackingNotFoundError when DHL has no record of the tracking number
+   */
+  async getShipment(trackingNumber: string): Promise<DhlShipment> {
+    const data = await this.request<unknown>(
+      `/track/shipments?trackingNumber=${encodeURIComponent(trackingNumber)}&language=en`,
+      { trackingNumber }
+    );
+
+    const shipment = this.parse(DhlTrackResponseSchema, data).shipments[0];
+    if (!shipment) {
+      throw new TrackingNotFoundError(this.platform, trackingNumber);
+    }
+    return shipment;
+  }
+}
+
+let clientInstance: DhlApiClient | null = null;
+
+/**
+ * Get singleton DHL client instance
+ */
+export function getDhlClient(): DhlApiClient {
+  if (!clientInstance) {
+    clientInstance = new DhlApiClient();
+  }
+  return clientInstance;
+}
+
+// ============================================
+// Adapter
+// ============================================
+
+/**
+ * DHL Carrier Adapter
+ */
+export class DhlAdapter extends CarrierAdapter {
+  readonly metadata: AdapterMetadata = {
+    platformId: 'dhl',
+    displayName: 'DHL',
+    iconUrl: '/icons/dhl.svg',
+    primaryColor: '#D40511',
+    capabilities: {
+      oauth: false,
+      webhooks: false,
+      liveLocation: false,
+      driverContact: false,
+      sessionAuth: false,
+      orderItems: false,
+      etaUpdates: true,
+    },
+    minPollingInterval: 900,
+    maxPollingInterval: 3600,
+    defaultPollingInterval: 1800,
+  };
+
+  private readonly client: DhlApiClient;
+
+  constructor(client: DhlApiClient = getDhlClient(), packages?: Pick<PackageStore, 'listActive'>) {
+    super(packages);
+    this.client = client;
+  }
+
+  isConfigured(): boolean {
+    return this.client.isConfigured();
+  }
+
+  getTrackingUrl(trackingNumber: string): string {
+    return `https://www.dhl.com/us-en/home/tracking.html?tracking-id=${encodeURIComponent(trackingNumber)}`;
+  }
+
+  protected async track(trackingNumber: string): Promise<CarrierTracking> {
+    const shipment = await this.client.getShipment(trackingNumber);
+
+    const windowStart = parseDate(shipment.estimatedDeliveryTimeFrame?.estimatedFrom);
+    const windowEnd = parseDate(shipment.estimatedDeliveryTimeFrame?.estimatedThrough);
+    const destination = shipment.destination?.address;
+
+    const scans = shipment.events.flatMap((event) => {
+      const timestamp = parseDate(event.timestamp);
+      if (!timestamp) return [];
+      return [
+        {
+          code: event.statusCode,
+          description: event.description ?? event.status ?? event.statusCode,
+          timestamp,
+          location: formatLocation(event.location?.address?.addressLocality),
+        },
+      ];
+    });
+    const delivered = shipment.status.statusCode === 'delivered';
+
+    return {
+      trackingNumber,
+      code: shipment.status.statusCode,
+      service: shipment.details?.product?.productName,
+      estimatedDelivery: parseDate(shipment.estimatedTimeOfDelivery) ?? undefined,
+      window: windowStart && windowEnd ? { start: windowStart, end: windowEnd } : undefined,
+      shippedAt: scans.find((scan) => scan.code === 'transit')?.timestamp,
+      deliveredAt: delivered ? (parseDate(shipment.status.timestamp) ?? undefined) : undefined,
+      destination: destination && {
+        city: destination.addressLocality,
+        postalCode: destination.postalCode,
+        country: destination.countryCode,
+      },
+      scans,
+    };
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const dhlAdapter = new DhlAdapter();
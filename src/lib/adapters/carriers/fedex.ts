@@ -0,0 +1,244 @@
+import { z } from 'zod';
+import type { PackageStore } from '@/lib/services/packages';
+import { TrackingNotFoundError } from '../errors';
+import type { AdapterMetadata } from '../types';
+import { parseDate } from '../utils';
+import { CarrierAdapter, type CarrierTracking, formatLocation } from './base';
+import { CarrierApiClient } from './client';
+
+// ============================================
+// API Schemas
+// ============================================
+
+const FedexTokenSchema = z.object({
+  access_token: z.string(),
+  expires_in: z.coerce.number(),
+});
+
+const FedexLocationSchema = z.object({
+  city: z.string().optional(),
+  stateOrProvinceCode: z.string().optional(),
+  postalCode: z.string().optional(),
+  countryCode: z.string().optional(),
+});
+
+const FedexTrackResultSchema = z.object({
+  trackingNumberInfo: z.object({ trackingNumber: z.string() }),
+  latestStatusDetail: z
+    .object({
+      /** OC = label created, PU = picked up, IT = in transit, OD = out for delivery, DL = delivered, ... */
+      code: z.string(),
+      description: z.string().optional(),
+    })
+    .optional(),
+  dateAndTimes: z
+    .array(z.object({ type: z.string(), dateTime: z.string() }))
+    .optional()
+    .default([]),
+  estimatedDeliveryTimeWindow: z
+    .object({
+      window: z.object({ begins: z.string().optional(), ends: z.string().optional() }).optional(),
+    })
+    .optional(),
+  recipientInformation: z.object({ address: FedexLocationSchema.optional() }).optional(),
+  serviceDetail: z.object({ description: z.string().optional() }).optional(),
+  scanEvents: z
+    .array(
+      z.object({
+        date: z.string(),
+        eventType: z.string(),
+        eventDescription: z.string(),
+        scanLocation: FedexLocationSchema.optional(),
+      })
+    )
+    .optional()
+    .default([]),
+  error: z.object({ code: z.string(), message: z.string().optional() }).optional(),
+});
+
+const FedexTrackResponseSchema = z.object({
+  output: z.object({
+    completeTrackResults: z.array(
+      z.object({
+        trackingNumber: z.string(),
+        trackResults: z.array(FedexTrackResultSchema),
+      })
+    ),
+  }),
+});
+
+export type FedexTrackResult = z.infer<typeof FedexTrackResultSchema>;
+
+// ============================================
+// Client
+// ============================================
+
+/**
+ * FedEx Track API Client
+ * Authenticates with OAuth client credentials
+ */
+export class FedexApiClient extends CarrierApiClient {
+  private readonly apiKey: string;
+  private readonly secretKey: string;
+
+  constructor() {
+    super('fedex', 'https://apis.fedex.com');
+    this.apiKey = process.env.FEDEX_API_KEY ?? '';
+    this.secretKey = process.env.FEDEX_SECRET_KEY ?? '';
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey && !!this.secretKey;
+  }
+
+  protected async getAuthHeaders(): Promise<Record<string, string>> {
+    const token = await this.getAccessToken(() =>
+      this.requestToken(
+        `${this.baseUrl}/oauth/token`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+          body: new URLSearchParams({
+            grant_type: 'client_credentials',
+            client_id: this.apiKey,
+            client_secret: this.secretKey,
+          }).toString(),
+        },
+        FedexTokenSchema
+      )
+    );
+
+    return { Authorization: `Bearer ${token}` };
+  }
+
+  /**
+   * Get tracking details for a package, including every scan
+   * @throws TrackingNotFoundError when FedEx has no record of the tracking number
+   */
+  async getTrackResult(trackingNumber: string): Promise<FedexTrackResult> {
+    const data = await this.request<unknown>('/track/v1/trackingnumbers', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-locale': 'en_US' },
+      body: JSON.stringify({
+        includeDetailedScans: true,
+        trackingInfo: [{ trackingNumberInfo: { trackingNumber } }],
+      }),
+      trackingNumber,
+    });
+
+    const response = this.parse(FedexTrackResponseSchema, data);
+    const result = response.output.completeTrackResults[0]?.trackResults[0];
+
+    // FedEx answers unknown numbers with a 200 and a per-number error
+    if (!result || result.error) {
+      throw new TrackingNotFoundError(this.platform, trackingNumber);
+    }
+    return result;
+  }
+}
+
+let clientInstance: FedexApiClient | null = null;
+
+/**
+ * Get singleton FedEx client instance
+ */
+export function getFedexClient(): FedexApiClient {
+  if (!clientInstance) {
+    clientInstance = new FedexApiClient();
+  }
+  return clientInstance;
+}
+
+// ============================================
+// Adapter
+// ============================================
+
+/**
+ * FedEx Carrier Adapter
+ */
+export class FedexAdapter extends CarrierAdapter {
+  readonly metadata: AdapterMetadata = {
+    platformId: 'fedex',
+    displayName: 'FedEx',
+    iconUrl: '/icons/fedex.svg',
+    primaryColor: '#4D148C',
+    capabilities: {
+      oauth: false,
+      webhooks: false,
+      liveLocation: false,
+      driverContact: false,
+      sessionAuth: false,
+      orderItems: false,
+      etaUpdates: true,
+    },
+    minPollingInterval: 900,
+    maxPollingInterval: 3600,
+    defaultPollingInterval: 1800,
+  };
+
+  private readonly client: FedexApiClient;
+
+  constructor(
+    client: FedexApiClient = getFedexClient(),
+    packages?: Pick<PackageStore, 'listActive'>
+  ) {
+    super(packages);
+    this.client = client;
+  }
+
+  isConfigured(): boolean {
+    return this.client.isConfigured();
+  }
+
+  getTrackingUrl(trackingNumber: string): string {
+    return `https://www.fedex.com/fedextrack/?trknbr=${encodeURIComponent(trackingNumber)}`;
+  }
+
+  protected async track(trackingNumber: string): Promise<CarrierTracking> {
+    const result = await this.client.getTrackResult(trackingNumber);
+
+    const dateOf = (type: string) =>
+      parseDate(result.dateAndTimes.find((d) => d.type === type)?.dateTime) ?? undefined;
+    const windowStart = parseDate(result.estimatedDeliveryTimeWindow?.window?.begins);
+    const windowEnd = parseDate(result.estimatedDeliveryTimeWindow?.window?.ends);
+    const destination = result.recipientInformation?.address;
+
+    const scans = result.scanEvents.flatMap((event) => {
+      const timestamp = parseDate(event.date);
+      if (!timestamp) return [];
+      return [
+        {
+          code: event.eventType,
+          description: event.eventDescription,
+          timestamp,
+          location: formatLocation(
+            event.scanLocation?.city,
+            event.scanLocation?.stateOrProvinceCode
+          ),
+        },
+      ];
+    });
+
+    return {
+      trackingNumber,
+      code: result.latestStatusDetail?.code ?? 'oc',
+      service: result.serviceDetail?.description,
+      estimatedDelivery: dateOf('ESTIMATED_DELIVERY'),
+      window: windowStart && windowEnd ? { start: windowStart, end: windowEnd } : undefined,
+      shippedAt: dateOf('ACTUAL_PICKUP') ?? dateOf('SHIP'),
+      deliveredAt: dateOf('ACTUAL_DELIVERY'),
+      destination: destination && {
+        city: destination.city,
+        state: destination.stateOrProvinceCode,
+        postalCode: destination.postalCode,
+        country: destination.countryCode,
+      },
+      scans,
+    };
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const fedexAdapter = new FedexAdapter();
@@ -0,0 +1,6 @@
+export { CarrierAdapter, type CarrierScan, type CarrierTracking } from './base';
+export { detectCarrier, getCarrierTrackingNumber, normalizeTrackingNumber } from './detect';
+export { DhlAdapter, dhlAdapter } from './dhl';
+export { FedexAdapter, fedexAdapter } from './fedex';
+export { UpsAdapter, upsAdapter } from './ups';
+export { UspsAdapter, uspsAdapter } from './usps';
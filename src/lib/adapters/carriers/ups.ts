@@ -0,0 +1,251 @@
+import { z } from 'zod';
+import type { PackageStore } from '@/lib/services/packages';
+import { TrackingNotFoundError } from '../errors';
+import type { AdapterMetadata } from '../types';
+import { CarrierAdapter, type CarrierTracking, formatLocation, parseCarrierDate } from './base';
+import { CarrierApiClient } from './client';
+
+// ============================================
+// API Schemas
+// ============================================
+
+const UpsTokenSchema = z.object({
+  access_token: z.string(),
+  // UPS returns the lifetime as a string
+  expires_in: z.coerce.number(),
+});
+
+const UpsAddressSchema = z.object({
+  city: z.string().optional(),
+  stateProvince: z.string().optional(),
+  postalCode: z.string().optional(),
+  countryCode: z.string().optional(),
+});
+
+const UpsStatusSchema = z.object({
+  /** M = manifest, P = pickup, I = in transit, X = exception, D = delivered, RS = returned */
+  type: z.string(),
+  description: z.string(),
+  code: z.string().optional(),
+});
+
+const UpsPackageSchema = z.object({
+  trackingNumber: z.string(),
+  currentStatus: UpsStatusSchema.optional(),
+  deliveryDate: z
+    .array(z.object({ type: z.string(), date: z.string() }))
+    .optional()
+    .default([]),
+  deliveryTime: z
+    .object({
+      /** EDW = estimated window, CMT = commit time, EOD = end of day, DEL = delivered */
+      type: z.string(),
+      startTime: z.string().optional(),
+      endTime: z.string().optional(),
+    })
+    .optional(),
+  service: z.object({ description: z.string() }).optional(),
+  packageAddress: z
+    .array(z.object({ type: z.string(), address: UpsAddressSchema }))
+    .optional()
+    .default([]),
+  activity: z
+    .array(
+      z.object({
+        location: z.object({ address: UpsAddressSchema.optional() }).optional(),
+        status: UpsStatusSchema,
+        date: z.string(),
+        time: z.string(),
+      })
+    )
+    .optional()
+    .default([]),
+});
+
+const UpsTrackResponseSchema = z.object({
+  trackResponse: z.object({
+    shipment: z.array(
+      z.object({
+        package: z.array(UpsPackageSchema).optional().default([]),
+        warnings: z.array(z.object({ code: z.string(), message: z.string() })).optional(),
+      })
+    ),
+  }),
+});
+
+export type UpsPackage = z.infer<typeof UpsPackageSchema>;
+
+// ============================================
+// Client
+// ============================================
+
+/**
+ * UPS Tracking API Client
+ * Authenticates with OAuth client credentials
+ */
+export class UpsApiClient extends CarrierApiClient {
+  private readonly clientId: string;
+  private readonly clientSecret: string;
+
+  constructor() {
+    super('ups', 'https://onlinetools.ups.com');
+    this.clientId = process.env.UPS_CLIENT_ID ?? '';
+    this.clientSecret = process.env.UPS_CLIENT_SECRET ?? '';
+  }
+
+  isConfigured(): boolean {
+    return !!this.clientId && !!this.clientSecret;
+  }
+
+  protected async getAuthHeaders(): Promise<Record<string, string>> {
+    const token = await this.getAccessToken(() =>
+      this.requestToken(
+        `${this.baseUrl}/security/v1/oauth/token`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Basic ${Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64')}`,
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body: new URLSearchParams({ grant_type: 'client_credentials' }).toString(),
+        },
+        UpsTokenSchema
+      )
+    );
+
+    return { Authorization: `Bearer ${token}` };
+  }
+
+  /**
+   * Get tracking details for a package, including every scan
+   * @throws TrackingNotFoundError when UPS has no record of the tracking number
+   */
+  async getPackage(trackingNumber: string): Promise<UpsPackage> {
+    const data = await this.request<unknown>(
+      `/api/track/v1/details/${encodeURIComponent(trackingNumber)}?locale=en_US`,
+      {
+        headers: { transId: crypto.randomUUID(), transactionSrc: 'dropdeck' },
+        trackingNumber,
+      }
+    );
+
+    const response = this.parse(UpsTrackResponseSchema, data);
+    const pkg = response.trackResponse.shipment[0]?.package[0];
+
+    // UPS answers unknown numbers with a 200 and a "not found" warning
+    if (!pkg) {
+      throw new TrackingNotFoundError(this.platform, trackingNumber);
+    }
+    return pkg;
+  }
+}
+
+let clientInstance: UpsApiClient | null = null;
+
+/**
+ * Get singleton UPS client instance
+ */
+export function getUpsClient(): UpsApiClient {
+  if (!clientInstance) {
+    clientInstance = new UpsApiClient();
+  }
+  return clientInstance;
+}
+
+// ============================================
+// Adapter
+// ============================================
+
+/**
+ * UPS Carrier Adapter
+ */
+export class UpsAdapter extends CarrierAdapter {
+  readonly metadata: AdapterMetadata = {
+    platformId: 'ups',
+    displayName: 'UPS',
+    iconUrl: '/icons/ups.svg',
+    primaryColor: '#6B4226',
+    capabilities: {
+      oauth: false,
+      webhooks: false,
+      liveLocation: false,
+      driverContact: false,
+      sessionAuth: false,
+      orderItems: false,
+      etaUpdates: true,
+    },
+    minPollingInterval: 900,
+    maxPollingInterval: 3600,
+    defaultPollingInterval: 1800,
+  };
+
+  private readonly client: UpsApiClient;
+
+  constructor(client: UpsApiClient = getUpsClient(), packages?: Pick<PackageStore, 'listActive'>) {
+    super(packages);
+    this.client = client;
+  }
+
+  isConfigured(): boolean {
+    return this.client.isConfigured();
+  }
+
+  getTrackingUrl(trackingNumber: string): string {
+    return `https://www.ups.com/track?tracknum=${encodeURIComponent(trackingNumber)}`;
+  }
+
+  protected async track(trackingNumber: string): Promise<CarrierTracking> {
+    const pkg = await this.client.getPackage(trackingNumber);
+
+    const scheduled = pkg.deliveryDate.find((d) => d.type === 'SDD' || d.type === 'RDD');
+    const delivered = pkg.deliveryDate.find((d) => d.type === 'DEL');
+    const time = pkg.deliveryTime;
+    const destination = pkg.packageAddress.find((a) => a.type === 'DESTINATION')?.address;
+
+    const windowStart =
+      time?.type === 'EDW' ? parseCarrierDate(scheduled?.date, time.startTime) : undefined;
+    const windowEnd =
+      time?.type === 'EDW' ? parseCarrierDate(scheduled?.date, time.endTime) : undefined;
+
+    const scans = pkg.activity.flatMap((activity) => {
+      const timestamp = parseCarrierDate(activity.date, activity.time);
+      if (!timestamp) return [];
+      const address = activity.location?.address;
+      return [
+        {
+          code: activity.status.type,
+          description: activity.status.description,
+          timestamp,
+          location: formatLocation(address?.city, address?.stateProvince),
+        },
+      ];
+    });
+
+    return {
+      trackingNumber,
+      code: pkg.currentStatus?.type ?? 'm',
+      service: pkg.service?.description,
+      estimatedDelivery: parseCarrierDate(
+        scheduled?.date,
+        time?.type === 'CMT' ? time.endTime : undefined
+      ),
+      window: windowStart && windowEnd ? { start: windowStart, end: windowEnd } : undefined,
+      shippedAt: scans.find((scan) => scan.code.toLowerCase() === 'p')?.timestamp,
+      deliveredAt: delivered
+        ? parseCarrierDate(delivered.date, time?.type === 'DEL' ? time.endTime : undefined)
+        : undefined,
+      destination: destination && {
+        city: destination.city,
+        state: destination.stateProvince,
+        postalCode: destination.postalCode,
+        country: destination.countryCode,
+      },
+      scans,
+    };
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const upsAdapter = new UpsAdapter();
@@ -0,0 +1,196 @@
+import { z } from 'zod';
+import type { PackageStore } from '@/lib/services/packages';
+import type { AdapterMetadata } from '../types';
+import { parseDate } from '../utils';
+import { CarrierAdapter, type CarrierTracking, formatLocation } from './base';
+import { CarrierApiClient } from './client';
+
+/**
+ * USPS event codes for acceptance and delivery scans
+ */
+const ACCEPTED_EVENT_CODE = '03';
+const DELIVERED_EVENT_CODE = '01';
+
+// ============================================
+// API Schemas
+// ============================================
+
+const UspsTokenSchema = z.object({
+  access_token: z.string(),
+  expires_in: z.coerce.number(),
+});
+
+const UspsTrackingEventSchema = z.object({
+  eventType: z.string(),
+  eventTimestamp: z.string(),
+  eventCode: z.string().nullish(),
+  eventCity: z.string().nullish(),
+  eventState: z.string().nullish(),
+});
+
+const UspsTrackingSchema = z.object({
+  trackingNumber: z.string(),
+  /** e.g. "Pre-Shipment", "In Transit", "Out for Delivery", "Delivered", "Alert" */
+  statusCategory: z.string(),
+  mailClass: z.string().nullish(),
+  expectedDeliveryTimeStamp: z.string().nullish(),
+  destinationCity: z.string().nullish(),
+  destinationState: z.string().nullish(),
+  destinationZIP: z.string().nullish(),
+  trackingEvents: z.array(UspsTrackingEventSchema).optional().default([]),
+});
+
+export type UspsTracking = z.infer<typeof UspsTrackingSchema>;
+
+// ============================================
+// Client
+// ============================================
+
+/**
+ * USPS Tracking API (v3) Client
+ * Authenticates with OAuth client credentials
+ */
+export class UspsApiClient extends CarrierApiClient {
+  private readonly clientId: string;
+  private readonly clientSecret: string;
+
+  constructor() {
+    super('usps', 'https://apis.usps.com');
+    this.clientId = process.env.USPS_CLIENT_ID ?? '';
+    this.clientSecret = process.env.USPS_CLIENT_SECRET ?? '';
+  }
+
+  isConfigured(): boolean {
+    return !!this.clientId && !!this.clientSecret;
+  }
+
+  protected async getAuthHeaders(): Promise<Record<string, string>> {
+    const token = await this.getAccessToken(() =>
+      this.requestToken(
+        `${this.baseUrl}/oauth2/v3/token`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            grant_type: 'client_credentials',
+            client_id: this.clientId,
+            client_secret: this.clientSecret,
+          }),
+        },
+        UspsTokenSchema
+      )
+    );
+
+    return { Authorization: `Bearer ${token}` };
+  }
+
+  /**
+   * Get tracking details for a package, including every event
+   * @throws TrackingNotFoundError when USPS has no record of the tracking number
+   */
+  async getTracking(trackingNumber: string): Promise<UspsTracking> {
+    const data = await this.request<unknown>(
+      `/tracking/v3/tracking/${encodeURIComponent(trackingNumber)}?expand=DETAIL`,
+      { trackingNumber }
+    );
+
+    return this.parse(UspsTrackingSchema, data);
+  }
+}
+
+let clientInstance: UspsApiClient | null = null;
+
+/**
+ * Get singleton USPS client instance
+ */
+export function getUspsClient(): UspsApiClient {
+  if (!clientInstance) {
+    clientInstance = new UspsApiClient();
+  }
+  return clientInstance;
+}
+
+// ============================================
+// Adapter
+// ============================================
+
+/**
+ * USPS Carrier Adapter
+ */
+export class UspsAdapter extends CarrierAdapter {
+  readonly metadata: AdapterMetadata = {
+    platformId: 'usps',
+    displayName: 'USPS',
+    iconUrl: '/icons/usps.svg',
+    primaryColor: '#333366',
+    capabilities: {
+      oauth: false,
+      webhooks: false,
+      liveLocation: false,
+      driverContact: false,
+      sessionAuth: false,
+      orderItems: false,
+      etaUpdates: true,
+    },
+    minPollingInterval: 900,
+    maxPollingInterval: 3600,
+    defaultPollingInterval: 1800,
+  };
+
+  private readonly client: UspsApiClient;
+
+  constructor(
+    client: UspsApiClient = getUspsClient(),
+    packages?: Pick<PackageStore, 'listActive'>
+  ) {
+    super(packages);
+    this.client = client;
+  }
+
+  isConfigured(): boolean {
+    return this.client.isConfigured();
+  }
+
+  getTrackingUrl(trackingNumber: string): string {
+    return `https://tools.usps.com/go/TrackConfirmAction?tLabels=${encodeURIComponent(trackingNumber)}`;
+  }
+
+  protected async track(trackingNumber: string): Promise<CarrierTracking> {
+    const tracking = await this.client.getTracking(trackingNumber);
+
+    // Events carry a code where USPS assigns one; otherwise fall back to the category
+    const scans = tracking.trackingEvents.flatMap((event) => {
+      const timestamp = parseDate(event.eventTimestamp);
+      if (!timestamp) return [];
+      return [
+        {
+          code: event.eventCode ?? tracking.statusCategory,
+          description: event.eventType,
+          timestamp,
+          location: formatLocation(event.eventCity, event.eventState),
+        },
+      ];
+    });
+
+    return {
+      trackingNumber,
+      code: tracking.statusCategory,
+      service: tracking.mailClass ?? undefined,
+      estimatedDelivery: parseDate(tracking.expectedDeliveryTimeStamp) ?? undefined,
+      shippedAt: scans.find((scan) => scan.code === ACCEPTED_EVENT_CODE)?.timestamp,
+      deliveredAt: scans.find((scan) => scan.code === DELIVERED_EVENT_CODE)?.timestamp,
+      destination: {
+        city: tracking.destinationCity ?? undefined,
+        state: tracking.destinationState ?? undefined,
+        postalCode: tracking.destinationZIP ?? undefined,
+        country: 'US',
+      },
+      scans,
+    };
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const uspsAdapter = new UspsAdapter();
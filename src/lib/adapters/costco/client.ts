@@ -0,0 +1,190 @@
+import { checkRateLimit, createPlatformRateLimiter } from '@/lib/ratelimit';
+import {
+  PlatformAuthError,
+  PlatformDataError,
+  PlatformNetworkError,
+  PlatformRateLimitError,
+  PlatformUnavailableError,
+} from '../errors';
+import { withRetry } from '../utils';
+import {
+  type CostcoOrder,
+  CostcoOrderSchema,
+  type CostcoOrdersResponse,
+  CostcoOrdersResponseSchema,
+  type CostcoSessionData,
+} from './types';
+
+/**
+ * Costco.com API Client
+ * Handles session-based access to Costco.com orders (2-day, shipped and big-and-bulky)
+ */
+export class CostcoApiClient {
+  private readonly baseUrl = 'https://www.costco.com/api';
+  private readonly rateLimiter = createPlatformRateLimiter('costco');
+  private readonly platform = 'costco' as const;
+
+  /**
+   * Costco.com signs members in with WebSphere Commerce; the auth cookie name
+   * carries the member's user ID (WC_AUTHENTICATION_<id>)
+   */
+  private readonly authCookiePrefix = 'WC_AUTHENTICATION_';
+
+  /**
+   * Validate session data
+   */
+  validateSession(sessionData: CostcoSessionData): boolean {
+    if (!sessionData.cookies) return false;
+
+    const hasAuthCookie = Object.keys(sessionData.cookies).some((name) =>
+      name.startsWith(this.authCookiePrefix)
+    );
+    if (!hasAuthCookie) {
+      return false;
+    }
+
+    // Check if session is too old (older than 7 days)
+    const lastRefreshed = new Date(sessionData.lastRefreshed);
+    const maxAge = 7 * 24 * 60 * 60 * 1000; // 7 days
+    if (Number.isNaN(lastRefreshed.getTime()) || Date.now() - lastRefreshed.getTime() > maxAge) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Build cookie string from session data
+   */
+  private buildCookieString(sessionData: CostcoSessionData): string {
+    return Object.entries(sessionData.cookies)
+      .map(([key, value]) => `${key}=${value}`)
+      .join('; ');
+  }
+
+  /**
+   * Get open orders (not yet delivered or cancelled)
+   */
+  async getOpenOrders(sessionData: CostcoSessionData): Promise<CostcoOrdersResponse> {
+    const data = await this.makeRequest<unknown>('/orders/v1/orders?status=open', sessionData);
+    return CostcoOrdersResponseSchema.parse(data);
+  }
+
+  /**
+   * Get order by order number
+   */
+  async getOrder(sessionData: CostcoSessionData, orderNumber: string): Promise<CostcoOrder> {
+    const data = await this.makeRequest<{ order: unknown }>(
+      `/orders/v1/orders/${encodeURIComponent(orderNumber)}`,
+      sessionData
+    );
+    return CostcoOrderSchema.parse(data.order);
+  }
+
+  /**
+   * Make authenticated request to the Costco.com API
+   */
+  private async makeRequest<T>(
+    endpoint: string,
+    sessionData: CostcoSessionData,
+    options: {
+      method?: string;
+      body?: unknown;
+      timeout?: number;
+    } = {}
+  ): Promise<T> {
+    // Validate session
+    if (!this.validateSession(sessionData)) {
+      throw new PlatformAuthError(this.platform, 'Costco.com session expired or invalid');
+    }
+
+    // Check rate limit
+    if (this.rateLimiter) {
+      const rateLimitResult = await checkRateLimit(this.rateLimiter, 'costco-api');
+      if (!rateLimitResult.success) {
+        throw new PlatformRateLimitError(
+          this.platform,
+          Math.ceil((rateLimitResult.reset - Date.now()) / 1000)
+        );
+      }
+    }
+
+    const url = `${this.baseUrl}${endpoint}`;
+    const timeout = options.timeout ?? 15000;
+
+    const fetchFn = async (): Promise<T> => {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+      try {
+        const response = await fetch(url, {
+          method: options.method ?? 'GET',
+          headers: {
+            Cookie: this.buildCookieString(sessionData),
+            'User-Agent': sessionData.userAgent,
+            Accept: 'application/json',
+            'Content-Type': 'application/json',
+          },
+          body: options.body ? JSON.stringify(options.body) : undefined,
+          signal: controller.signal,
+        });
+
+        // Handle error responses
+        if (response.status === 401 || response.status === 403) {
+          throw new PlatformAuthError(this.platform, 'Costco.com session expired');
+        }
+
+        if (response.status === 429) {
+          const retryAfter = parseInt(response.headers.get('Retry-After') ?? '120', 10);
+          throw new PlatformRateLimitError(this.platform, retryAfter);
+        }
+
+        if (response.status >= 500) {
+          throw new PlatformUnavailableError(this.platform);
+        }
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new PlatformDataError(
+            this.platform,
+            `API error: ${errorData.message || response.statusText}`,
+            errorData
+          );
+        }
+
+        return (await response.json()) as T;
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+          throw new PlatformNetworkError(this.platform, 'Request timeout');
+        }
+
+        throw error;
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    };
+
+    // Retry transient errors; an expired session or bad request will not fix itself
+    return withRetry(
+      fetchFn,
+      3,
+      2000,
+      (error) => !(error instanceof PlatformAuthError || error instanceof PlatformDataError)
+    );
+  }
+}
+
+/**
+ * Singleton instance
+ */
+let clientInstance: CostcoApiClient | null = null;
+
+/**
+ * Get Costco.com API client instance
+ */
+export function getCostcoClient(): CostcoApiClient {
+  if (!clientInstance) {
+    clientInstance = new CostcoApiClient();
+  }
+  return clientInstance;
+}
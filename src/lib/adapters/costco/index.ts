@@ -0,0 +1,395 @@
+import type { DeliveryStatus, OrderItem, UnifiedDelivery } from '@/types/delivery';
+import { PlatformAuthError, PlatformDataError } from '../errors';
+import { InstacartAdapter } from '../instacart';
+import { costcoOrderStatusMap } from '../status-map';
+import type { AdapterConnection, AdapterMetadata } from '../types';
+import { parseDate } from '../utils';
+import { type CostcoApiClient, getCostcoClient } from './client';
+import type {
+  CostcoAddress,
+  CostcoFulfillmentType,
+  CostcoOrder,
+  CostcoSessionData,
+  CostcoShipment,
+} from './types';
+
+/**
+ * Prefix for deliveries that come from Costco.com rather than Instacart
+ */
+const WEB_ID_PREFIX = 'co_web_';
+
+/**
+ * Carrier display names
+ */
+const CARRIER_NAMES: Record<string, string> = {
+  UPS: 'UPS',
+  FEDEX: 'FedEx',
+  USPS: 'USPS',
+  ONTRAC: 'OnTrac',
+  LASERSHIP: 'LaserShip',
+  COSTCO_LOGISTICS: 'Costco Logistics',
+};
+
+/**
+ * Days until delivery when Costco.com has not given an estimate yet
+ */
+const DEFAULT_TRANSIT_DAYS: Record<CostcoFulfillmentType, number> = {
+  SAME_DAY: 0,
+  TWO_DAY: 2,
+  SHIP: 5,
+  BIG_AND_BULKY: 14,
+};
+
+/**
+ * Labels for Costco.com statuses that read better than the unified label
+ */
+const WEB_STATUS_LABELS: Record<string, string> = {
+  scheduled: 'Delivery Scheduled',
+  ready_to_ship: 'Ready to Ship',
+  shipped: 'Shipped',
+  in_transit: 'In Transit',
+  arriving_today: 'Arriving Today',
+  returned: 'Returned',
+};
+
+/**
+ * Costco Platform Adapter
+ *
+ * Combines two sources under the `costco` platform:
+ * - Same-day orders, which Instacart fulfills (OAuth via Instacart Connect)
+ * - Costco.com 2-day grocery, carrier-shipped and big-and-bulky orders
+ *   (session captured from costco.com and linked to the same connection)
+ */
+export class CostcoAdapter extends InstacartAdapter {
+  override readonly metadata: AdapterMetadata = {
+    platformId: 'costco',
+    displayName: 'Costco',
+    iconUrl: '/icons/costco.svg',
+    primaryColor: '#E31837',
+    capabilities: {
+      oauth: true,
+      webhooks: true,
+      liveLocation: true,
+      driverContact: true,
+      sessionAuth: true,
+      orderItems: true,
+      etaUpdates: true,
+    },
+    minPollingInterval: 30,
+    maxPollingInterval: 300,
+    defaultPollingInterval: 60,
+    apiBaseUrl: 'https://connect.instacart.com/v2',
+    authorizationUrl: 'https://connect.instacart.com/oauth/authorize',
+    tokenUrl: 'https://connect.instacart.com/oauth/token',
+  };
+
+  private costcoClient: CostcoApiClient;
+
+  constructor(costcoClient: CostcoApiClient = getCostcoClient()) {
+    super();
+    this.costcoClient = costcoClient;
+  }
+
+  // ============================================
+  // Linked Session Methods
+  // ============================================
+
+  override supportsLinkedSession(): boolean {
+    return true;
+  }
+
+  override async testLinkedSession(sessionDataJson: string): Promise<void> {
+    await this.costcoClient.getOpenOrders(this.parseSession(sessionDataJson));
+  }
+
+  // ============================================
+  // Delivery Methods
+  // ============================================
+
+  override async getActiveDeliveries(connection: AdapterConnection): Promise<UnifiedDelivery[]> {
+    const [sameDay, orders] = await Promise.all([
+      connection.accessToken ? this.getSameDayDeliveries(connection) : [],
+      connection.sessionData
+        ? this.costcoClient
+            .getOpenOrders(this.parseSession(connection.sessionData))
+            .then((response) => response.orders)
+        : [],
+    ]);
+
+    return this.mergeDeliveries(sameDay, orders);
+  }
+
+  override async getDeliveryDetails(
+    connection: AdapterConnection,
+    deliveryId: string
+  ): Promise<UnifiedDelivery> {
+    if (deliveryId.startsWith(WEB_ID_PREFIX)) {
+      if (!connection.sessionData) {
+        throw new PlatformAuthError('costco', 'No Costco.com session linked');
+      }
+
+      // External IDs are "<order number>" or "<order number>-<shipment id>"
+      const [orderNumber = ''] = deliveryId.slice(WEB_ID_PREFIX.length).split('-');
+      const order = await this.costcoClient.getOrder(
+        this.parseSession(connection.sessionData),
+        orderNumber
+      );
+
+      const delivery = this.normalizeCostcoOrder(order).find((d) => d.id === deliveryId);
+      if (!delivery) {
+        throw new PlatformDataError('costco', `Delivery ${deliveryId} not found`);
+      }
+      return delivery;
+    }
+
+    const externalId = deliveryId.startsWith('co_') ? deliveryId.slice(3) : deliveryId;
+
+    // Same-day orders found through Costco.com when no Instacart account is linked
+    if (!connection.accessToken) {
+      const delivery = (await this.getActiveDeliveries(connection)).find(
+        (d) => d.externalOrderId === externalId
+      );
+      if (!delivery) {
+        throw new PlatformDataError('costco', `Delivery ${deliveryId} not found`);
+      }
+      return delivery;
+    }
+
+    return super.getDeliveryDetails(connection, externalId);
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  /**
+   * Get Costco same-day orders from Instacart
+   * The Instacart account may also hold orders from other retailers; those
+   * belong to the Instacart connection.
+   */
+  private async getSameDayDeliveries(connection: AdapterConnection): Promise<UnifiedDelivery[]> {
+    const deliveries = await super.getActiveDeliveries(connection);
+    return deliveries.filter((delivery) => delivery.platform === 'costco');
+  }
+
+  /**
+   * Merge Instacart same-day deliveries with Costco.com orders
+   * Same-day orders show up in both; the Instacart copy wins because it
+   * carries the shopper and live location.
+   */
+  private mergeDeliveries(sameDay: UnifiedDelivery[], orders: CostcoOrder[]): UnifiedDelivery[] {
+    const instacartIds = new Set(sameDay.map((delivery) => delivery.externalOrderId));
+
+    const web = orders
+      .filter((order) => !(order.partner_order_id && instacartIds.has(order.partner_order_id)))
+      .flatMap((order) => this.normalizeCostcoOrder(order));
+
+    return [...sameDay, ...web];
+  }
+
+  /**
+   * Parse stored session data
+   */
+  private parseSession(sessionDataJson: string): CostcoSessionData {
+    try {
+      return JSON.parse(sessionDataJson) as CostcoSessionData;
+    } catch {
+      throw new PlatformAuthError('costco', 'Costco.com session data is not valid JSON');
+    }
+  }
+
+  /**
+   * Map a Costco.com order or shipment status
+   */
+  private mapWebStatus(platformStatus: string): { status: DeliveryStatus; label: string } {
+    const normalized = platformStatus.toLowerCase().replace(/[- ]/g, '_');
+    const status = costcoOrderStatusMap[normalized] ?? 'preparing';
+    return { status, label: WEB_STATUS_LABELS[normalized] ?? this.getStatusLabel(status) };
+  }
+
+  /**
+   * Normalize a Costco.com order
+   * Each shipment becomes its own delivery, since shipments travel with
+   * different carriers and arrive on different days.
+   */
+  private normalizeCostcoOrder(order: CostcoOrder): UnifiedDelivery[] {
+    // Same-day orders use the Instacart order ID so they line up with the
+    // Instacart copy of the order in the delivery cache
+    if (order.fulfillment_type === 'SAME_DAY') {
+      return [
+        this.toDelivery(order, {
+          externalOrderId: order.partner_order_id ?? order.order_number,
+          sameDay: true,
+        }),
+      ];
+    }
+
+    if (order.shipments.length === 0) {
+      return [this.toDelivery(order, { externalOrderId: order.order_number })];
+    }
+
+    const split = order.shipments.length > 1;
+    return order.shipments.map((shipment) =>
+      this.toDelivery(order, {
+        shipment,
+        externalOrderId: split
+          ? `${order.order_number}-${shipment.shipment_id}`
+          : order.order_number,
+        split,
+      })
+    );
+  }
+
+  /**
+   * Build a delivery for an order, or for one shipment of an order
+   */
+  private toDelivery(
+    order: CostcoOrder,
+    options: {
+      externalOrderId: string;
+      shipment?: CostcoShipment;
+      /** Part of an order split across several shipments */
+      split?: boolean;
+      /** Fulfilled by Instacart; uses the same ID scheme as the Instacart copy */
+      sameDay?: boolean;
+    }
+  ): UnifiedDelivery {
+    const { externalOrderId, shipment, split = false, sameDay = false } = options;
+    const now = new Date();
+    const { status, label } = this.mapWebStatus(shipment?.status ?? order.status);
+    const fulfillmentType = order.fulfillment_type as CostcoFulfillmentType;
+    const ordered = parseDate(order.created_at) ?? now;
+
+    // Prefer a scheduled window, then the carrier estimate, then a typical transit time
+    const windowSource = shipment?.delivery_window ?? order.delivery_window;
+    const windowStart = parseDate(windowSource?.start);
+    const windowEnd = parseDate(windowSource?.end);
+    const window = windowStart && windowEnd ? { start: windowStart, end: windowEnd } : undefined;
+    const estimated = parseDate(shipment?.estimated_delivery);
+    const estimatedArrival =
+      window?.end ??
+      estimated ??
+      new Date(ordered.getTime() + (DEFAULT_TRANSIT_DAYS[fulfillmentType] ?? 5) * 86400000);
+
+    // Items travel with their shipment; unassigned items belong to a single shipment
+    const orderItems = order.items ?? [];
+    const shipmentItems = split
+      ? orderItems.filter((item) => item.shipment_id === shipment?.shipment_id)
+      : orderItems;
+    const items: OrderItem[] = shipmentItems.map((item) => ({
+      name: item.name,
+      quantity: item.quantity,
+      unitPrice: item.price,
+      imageUrl: item.image_url,
+    }));
+    const itemCount = split
+      ? (shipment?.item_count ?? items.reduce((sum, item) => sum + item.quantity, 0))
+      : (order.items_count ?? items.reduce((sum, item) => sum + item.quantity, 0));
+
+    const events = shipment?.events ?? [];
+    const eventTime = (eventStatus: string) =>
+      parseDate(events.find((event) => event.status.toLowerCase() === eventStatus)?.timestamp) ??
+      undefined;
+    const lastEvent = events.reduce<Date | null>((latest, event) => {
+      const timestamp = parseDate(event.timestamp);
+      return timestamp && (!latest || timestamp > latest) ? timestamp : latest;
+    }, null);
+
+    const carrierCode = shipment?.carrier?.toUpperCase();
+
+    return {
+      id: sameDay ? this.generateDeliveryId(externalOrderId) : `${WEB_ID_PREFIX}${externalOrderId}`,
+      platform: 'costco',
+      externalOrderId,
+      status,
+      statusLabel: label,
+      statusUpdatedAt: lastEvent ?? parseDate(order.updated_at) ?? now,
+
+      destination: this.toDestination(order.shipping_address, order.delivery_instructions),
+
+      eta: {
+        estimatedArrival,
+        minutesRemaining: this.calculateEtaMinutes(estimatedArrival),
+        confidence: window ? 'medium' : 'low',
+        window,
+      },
+
+      carrier: carrierCode
+        ? {
+            name: CARRIER_NAMES[carrierCode] ?? shipment?.carrier ?? carrierCode,
+            trackingNumber: shipment?.tracking_number,
+          }
+        : undefined,
+
+      order: {
+        itemCount,
+        // Split orders keep the total on the order so it is not counted once per shipment
+        totalAmount: split ? undefined : order.total,
+        currency: order.currency,
+        items: items.length > 0 ? items : undefined,
+      },
+
+      tracking: {
+        url: shipment?.tracking_url ?? order.order_url,
+        mapAvailable: false,
+        liveUpdates: false,
+        contactDriverAvailable: false,
+      },
+
+      timestamps: {
+        ordered,
+        confirmed: status !== 'preparing' ? (parseDate(order.updated_at) ?? undefined) : undefined,
+        pickedUp: parseDate(shipment?.shipped_at) ?? undefined,
+        outForDelivery: eventTime('out_for_delivery'),
+        delivered: parseDate(shipment?.delivered_at) ?? eventTime('delivered'),
+        cancelled: parseDate(order.cancelled_at) ?? undefined,
+      },
+
+      meta: {
+        lastFetchedAt: now,
+        fetchMethod: 'api',
+        adapterId: 'costco',
+        rawData: {
+          ...order,
+          fulfillmentType,
+          shipment,
+          fulfilledByInstacart: fulfillmentType === 'SAME_DAY',
+        },
+      },
+    };
+  }
+
+  /**
+   * Build a destination from a Costco.com address
+   */
+  private toDestination(
+    address: CostcoAddress | undefined,
+    instructions: string | undefined
+  ): UnifiedDelivery['destination'] {
+    if (!address) {
+      return { address: '', lat: 0, lng: 0, instructions };
+    }
+
+    return {
+      address: [
+        address.line1,
+        address.line2,
+        `${address.city}, ${address.state} ${address.postal_code}`,
+      ]
+        .filter(Boolean)
+        .join(', '),
+      addressLine1: address.line1,
+      city: address.city,
+      state: address.state,
+      zipCode: address.postal_code,
+      lat: address.latitude ?? 0,
+      lng: address.longitude ?? 0,
+      instructions,
+    };
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const costcoAdapter = new CostcoAdapter();
@@ -0,0 +1,139 @@
+import { z } from 'zod';
+
+/**
+ * How a Costco.com order is fulfilled
+ * SAME_DAY orders are shopped and delivered by Instacart.
+ */
+export type CostcoFulfillmentType = 'TWO_DAY' | 'SHIP' | 'BIG_AND_BULKY' | 'SAME_DAY';
+
+/**
+ * Costco.com order status
+ */
+export type CostcoOrderStatus =
+  | 'ORDER_PLACED'
+  | 'PROCESSING'
+  | 'SCHEDULED'
+  | 'READY_TO_SHIP'
+  | 'SHIPPED'
+  | 'IN_TRANSIT'
+  | 'OUT_FOR_DELIVERY'
+  | 'ARRIVING_TODAY'
+  | 'DELAYED'
+  | 'DELIVERED'
+  | 'CANCELLED'
+  | 'RETURNED';
+
+/**
+ * Costco.com address
+ */
+export const CostcoAddressSchema = z.object({
+  line1: z.string(),
+  line2: z.string().optional(),
+  city: z.string(),
+  state: z.string(),
+  postal_code: z.string(),
+  country: z.string().default('US'),
+  latitude: z.number().optional(),
+  longitude: z.number().optional(),
+});
+
+export type CostcoAddress = z.infer<typeof CostcoAddressSchema>;
+
+/**
+ * Costco.com order item
+ */
+export const CostcoOrderItemSchema = z.object({
+  item_number: z.string(),
+  name: z.string(),
+  quantity: z.number(),
+  price: z.number().optional(), // In cents
+  image_url: z.string().optional(),
+  shipment_id: z.string().optional(),
+});
+
+export type CostcoOrderItem = z.infer<typeof CostcoOrderItemSchema>;
+
+/**
+ * Scheduled delivery window
+ */
+export const CostcoDeliveryWindowSchema = z.object({
+  start: z.string(),
+  end: z.string(),
+});
+
+export type CostcoDeliveryWindow = z.infer<typeof CostcoDeliveryWindowSchema>;
+
+/**
+ * Carrier scan or delivery event
+ */
+export const CostcoShipmentEventSchema = z.object({
+  status: z.string(),
+  description: z.string().optional(),
+  timestamp: z.string(),
+  location: z.string().optional(),
+});
+
+export type CostcoShipmentEvent = z.infer<typeof CostcoShipmentEventSchema>;
+
+/**
+ * Costco.com shipment
+ * Orders can be split across several shipments with different carriers.
+ */
+export const CostcoShipmentSchema = z.object({
+  shipment_id: z.string(),
+  status: z.string(),
+  carrier: z.string().optional(), // 'UPS', 'FEDEX', 'COSTCO_LOGISTICS', ...
+  tracking_number: z.string().optional(),
+  tracking_url: z.string().optional(),
+  delivery_window: CostcoDeliveryWindowSchema.optional(),
+  estimated_delivery: z.string().optional(),
+  shipped_at: z.string().optional(),
+  delivered_at: z.string().optional(),
+  item_count: z.number().optional(),
+  events: z.array(CostcoShipmentEventSchema).optional(),
+});
+
+export type CostcoShipment = z.infer<typeof CostcoShipmentSchema>;
+
+/**
+ * Costco.com order
+ */
+export const CostcoOrderSchema = z.object({
+  order_number: z.string(),
+  status: z.string(),
+  fulfillment_type: z.string(), // 'TWO_DAY', 'SHIP', 'BIG_AND_BULKY', 'SAME_DAY'
+  partner_order_id: z.string().optional(), // Instacart order ID for SAME_DAY orders
+  items: z.array(CostcoOrderItemSchema).optional(),
+  items_count: z.number().optional(),
+  total: z.number().optional(), // In cents
+  currency: z.string().default('USD'),
+  shipping_address: CostcoAddressSchema.optional(),
+  delivery_instructions: z.string().optional(),
+  delivery_window: CostcoDeliveryWindowSchema.optional(),
+  shipments: z.array(CostcoShipmentSchema).default([]),
+  created_at: z.string(),
+  updated_at: z.string(),
+  cancelled_at: z.string().optional(),
+  order_url: z.string().optional(),
+});
+
+export type CostcoOrder = z.infer<typeof CostcoOrderSchema>;
+
+/**
+ * Costco.com orders list response
+ */
+export const CostcoOrdersResponseSchema = z.object({
+  orders: z.array(CostcoOrderSchema),
+  has_more: z.boolean().optional(),
+});
+
+export type CostcoOrdersResponse = z.infer<typeof CostcoOrdersResponseSchema>;
+
+/**
+ * Costco.com session data (stored encrypted)
+ */
+export interface CostcoSessionData {
+  cookies: Record<string, string>;
+  userAgent: string;
+  lastRefreshed: string;
+}
@@ -99,6 +99,16 @@ export class PlatformDataError extends PlatformAdapterError {
   }
 }
 
+/**
+ * Tracking number not found - the carrier has no record of the package (yet)
+ */
+export class TrackingNotFoundError extends PlatformDataError {
+  constructor(platform: Platform, trackingNumber: string) {
+    super(platform, `No tracking information for ${trackingNumber}`);
+    this.name = 'TrackingNotFoundError';
+  }
+}
+
 /**
  * Network error - connection failed
  */
@@ -15,6 +15,7 @@ export {
   PlatformNetworkError,
   PlatformRateLimitError,
   PlatformUnavailableError,
+  TrackingNotFoundError,
   WebhookValidationError,
 } from './errors';
 // Registry
@@ -337,35 +337,3 @@ export class InstacartAdapter extends PlatformAdapter {
  * Export singleton instance
  */
 export const instacartAdapter = new InstacartAdapter();
-
-/**
- * Costco Adapter (via Instacart)
- *
- * Costco uses Instacart for delivery, so this is just an alias.
- * The adapter will detect Costco orders based on retailer data.
- */
-export class CostcoAdapter extends InstacartAdapter {
-  override readonly metadata: AdapterMetadata = {
-    platformId: 'costco',
-    displayName: 'Costco',
-    iconUrl: '/icons/costco.svg',
-    primaryColor: '#E31837',
-    capabilities: {
-      oauth: true,
-      webhooks: true,
-      liveLocation: true,
-      driverContact: true,
-      sessionAuth: false,
-      orderItems: true,
-      etaUpdates: true,
-    },
-    minPollingInterval: 30,
-    maxPollingInterval: 300,
-    defaultPollingInterval: 60,
-    apiBaseUrl: 'https://connect.instacart.com/v2',
-    authorizationUrl: 'https://connect.instacart.com/oauth/authorize',
-    tokenUrl: 'https://connect.instacart.com/oauth/token',
-  };
-}
-
-export const costcoAdapter = new CostcoAdapter();
@@ -142,14 +142,15 @@ export const adapterRegistry = new AdapterRegistry();
  * Adapters are only instantiated when first accessed
  */
 function registerAllAdapters(): void {
-  // Instacart (OAuth 2.0) - also handles Costco
+  // Instacart (OAuth 2.0) - also finds Costco same-day orders
   adapterRegistry.registerLazy('instacart', async () => {
     const { instacartAdapter } = await import('./instacart');
     return instacartAdapter;
   });
 
+  // Costco (Instacart OAuth for same-day + linked Costco.com session)
   adapterRegistry.registerLazy('costco', async () => {
-    const { costcoAdapter } = await import('./instacart');
+    const { costcoAdapter } = await import('./costco');
     return costcoAdapter;
   });
 
@@ -205,6 +206,27 @@ function registerAllAdapters(): void {
     const { samsclubAdapter } = await import('./samsclub');
     return samsclubAdapter;
   });
+
+  // Parcel carriers (app-level API credentials, packages followed by tracking number)
+  adapterRegistry.registerLazy('ups', async () => {
+    const { upsAdapter } = await import('./carriers/ups');
+    return upsAdapter;
+  });
+
+  adapterRegistry.registerLazy('fedex', async () => {
+    const { fedexAdapter } = await import('./carriers/fedex');
+    return fedexAdapter;
+  });
+
+  adapterRegistry.registerLazy('usps', async () => {
+    const { uspsAdapter } = await import('./carriers/usps');
+    return uspsAdapter;
+  });
+
+  adapterRegistry.registerLazy('dhl', async () => {
+    const { dhlAdapter } = await import('./carriers/dhl');
+    return dhlAdapter;
+  });
 }
 
 // Register adapters on module load
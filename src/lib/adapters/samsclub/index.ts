@@ -1,6 +1,12 @@
 import { z } from 'zod';
 import { checkRateLimit, createPlatformRateLimiter } from '@/lib/ratelimit';
-import type { DeliveryStatus, DriverLocation, OrderItem, UnifiedDelivery } from '@/types/delivery';
+import type {
+  DeliveryStatus,
+  DriverLocation,
+  FulfillmentType,
+  OrderItem,
+  UnifiedDelivery,
+} from '@/types/delivery';
 import { SessionBasedAdapter } from '../base';
 import {
   PlatformAuthError,
@@ -202,11 +208,7 @@ export class SamsClubAdapter extends SessionBasedAdapter {
    */
   async getPickupOrders(connection: AdapterConnection): Promise<UnifiedDelivery[]> {
     const deliveries = await this.getActiveDeliveries(connection);
-    return deliveries.filter(
-      (d) =>
-        (d.meta.rawData as SamsClubOrder).order_type === 'CLUB_PICKUP' ||
-        (d.meta.rawData as SamsClubOrder).order_type === 'CURBSIDE'
-    );
+    return deliveries.filter((d) => d.fulfillment === 'pickup');
   }
 
   private async getDeliveryTracking(
@@ -340,6 +342,7 @@ export class SamsClubAdapter extends SessionBasedAdapter {
     const status = this.mapStatus(order.status);
     const now = new Date();
     const isPickup = order.order_type === 'CLUB_PICKUP' || order.order_type === 'CURBSIDE';
+    const fulfillment: FulfillmentType = isPickup ? 'pickup' : 'delivery';
 
     // Parse delivery window
     let estimatedArrival = new Date(Date.now() + 60 * 60 * 1000);
@@ -376,24 +379,20 @@ export class SamsClubAdapter extends SessionBasedAdapter {
 
     // Format address
     const deliveryAddress = order.delivery_address;
-    const clubAddress = order.club?.address;
-
-    const formattedAddress =
-      isPickup && clubAddress
-        ? clubAddress
-        : deliveryAddress
-          ? [
-              deliveryAddress.street_address,
-              `${deliveryAddress.city}, ${deliveryAddress.state} ${deliveryAddress.postal_code}`,
-            ].join(', ')
-          : '';
+    const formattedAddress = deliveryAddress
+      ? [
+          deliveryAddress.street_address,
+          `${deliveryAddress.city}, ${deliveryAddress.state} ${deliveryAddress.postal_code}`,
+        ].join(', ')
+      : '';
 
     return {
       id: this.generateDeliveryId(order.order_id),
       platform: 'samsclub',
       externalOrderId: order.order_id,
+      fulfillment,
       status,
-      statusLabel: this.getStatusLabel(status),
+      statusLabel: this.getStatusLabel(status, fulfillment),
       statusUpdatedAt: parseDate(order.updated_at) ?? now,
 
       driver: order.driver
@@ -404,16 +403,23 @@ export class SamsClubAdapter extends SessionBasedAdapter {
           }
         : undefined,
 
-      destination: {
-        address: formattedAddress,
-        addressLine1: deliveryAddress?.street_address,
-        city: deliveryAddress?.city,
-        state: deliveryAddress?.state,
-        zipCode: deliveryAddress?.postal_code,
-        lat: deliveryAddress?.latitude ?? 0,
-        lng: deliveryAddress?.longitude ?? 0,
-        instructions: order.delivery_instructions,
-      },
+      // Pickups end up at the club, whose address comes as a single line
+      destination: isPickup
+        ? {
+            address: order.club?.address ?? '',
+            lat: 0,
+            lng: 0,
+          }
+        : {
+            address: formattedAddress,
+            addressLine1: deliveryAddress?.street_address,
+            city: deliveryAddress?.city,
+            state: deliveryAddress?.state,
+            zipCode: deliveryAddress?.postal_code,
+            lat: deliveryAddress?.latitude ?? 0,
+            lng: deliveryAddress?.longitude ?? 0,
+            instructions: order.delivery_instructions,
+          },
 
       eta: {
         estimatedArrival,
@@ -421,6 +427,18 @@ export class SamsClubAdapter extends SessionBasedAdapter {
         confidence: order.driver?.location ? 'high' : 'medium',
       },
 
+      pickup: isPickup
+        ? {
+            storeName: order.club?.name,
+            window: order.delivery_window
+              ? {
+                  start: new Date(order.delivery_window.start),
+                  end: new Date(order.delivery_window.end),
+                }
+              : undefined,
+          }
+        : undefined,
+
       order: {
         itemCount: order.items_count ?? order.items?.length ?? 0,
         totalAmount: order.total,
@@ -437,7 +455,8 @@ export class SamsClubAdapter extends SessionBasedAdapter {
       timestamps: {
         ordered: parseDate(order.created_at) ?? now,
         driverAssigned: order.driver ? (parseDate(order.updated_at) ?? undefined) : undefined,
-        delivered: parseDate(order.delivered_at) ?? undefined,
+        checkedIn: status === 'checked_in' ? (parseDate(order.updated_at) ?? undefined) : undefined,
+        delivered: parseDate(order.delivered_at ?? order.picked_up_at) ?? undefined,
       },
 
       meta: {
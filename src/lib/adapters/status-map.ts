@@ -18,10 +18,14 @@ export const doordashStatusMap: StatusMap = {
 
   // Dasher states
   dasher_confirmed: 'driver_assigned',
+  enroute_to_pickup: 'driver_heading_to_store',
+  arrived_at_pickup: 'driver_at_store',
   dasher_confirmed_store_arrived: 'driver_at_store',
   picking_up: 'driver_at_store',
   picked_up: 'out_for_delivery',
+  enroute_to_dropoff: 'out_for_delivery',
   en_route_to_consumer: 'out_for_delivery',
+  arrived_at_dropoff: 'arriving',
   arriving: 'arriving',
   arrived: 'arriving',
 
@@ -51,6 +55,7 @@ export const ubereatsStatusMap: StatusMap = {
   // Final states
   delivered: 'delivered',
   cancelled: 'cancelled',
+  denied: 'cancelled',
 };
 
 /**
@@ -87,10 +92,12 @@ export const amazonStatusMap: StatusMap = {
   shipped: 'out_for_delivery',
   out_for_delivery: 'out_for_delivery',
   arriving_today: 'arriving',
+  delivery_attempted: 'delayed',
 
   // Final states
   delivered: 'delivered',
   cancelled: 'cancelled',
+  returned: 'cancelled',
   delayed: 'delayed',
 };
 
@@ -104,6 +111,11 @@ export const walmartStatusMap: StatusMap = {
   preparing: 'preparing',
   ready_for_pickup: 'ready_for_pickup',
 
+  // Pickup states
+  checked_in: 'checked_in',
+  customer_arrived: 'checked_in',
+  picked_up: 'delivered',
+
   // Delivery states
   driver_assigned: 'driver_assigned',
   driver_heading_to_store: 'driver_heading_to_store',
@@ -142,6 +154,30 @@ export const shiptStatusMap: StatusMap = {
  */
 export const costcoStatusMap = instacartStatusMap;
 
+/**
+ * Costco.com order and shipment status mappings
+ * Covers 2-day grocery, carrier-shipped and big-and-bulky orders.
+ */
+export const costcoOrderStatusMap: StatusMap = {
+  // Order processing
+  order_placed: 'preparing',
+  processing: 'preparing',
+  scheduled: 'preparing',
+  ready_to_ship: 'preparing',
+
+  // Shipping states
+  shipped: 'out_for_delivery',
+  in_transit: 'out_for_delivery',
+  out_for_delivery: 'out_for_delivery',
+  arriving_today: 'arriving',
+
+  // Final states
+  delivered: 'delivered',
+  cancelled: 'cancelled',
+  returned: 'cancelled',
+  delayed: 'delayed',
+};
+
 /**
  * Sam's Club status mappings
  */
@@ -151,6 +187,11 @@ export const samsclubStatusMap: StatusMap = {
   processing: 'preparing',
   preparing: 'preparing',
 
+  // Club pickup states
+  ready_for_pickup: 'ready_for_pickup',
+  checked_in: 'checked_in',
+  picked_up: 'delivered',
+
   // Delivery states
   driver_assigned: 'driver_assigned',
   out_for_delivery: 'out_for_delivery',
@@ -198,6 +239,98 @@ export const totalwineStatusMap: StatusMap = {
   cancelled: 'cancelled',
 };
 
+/**
+ * UPS status mappings
+ * Keyed by the activity status type (M, P, I, X, D, RS, MV).
+ */
+export const upsStatusMap: StatusMap = {
+  // Label created
+  m: 'preparing',
+
+  // Moving through the network (including out for delivery)
+  p: 'out_for_delivery',
+  i: 'out_for_delivery',
+
+  // Problems and final states
+  x: 'delayed',
+  d: 'delivered',
+  rs: 'cancelled',
+  mv: 'cancelled',
+};
+
+/**
+ * FedEx status mappings
+ * Keyed by scan event type / derived status code.
+ */
+export const fedexStatusMap: StatusMap = {
+  // Label created
+  oc: 'preparing',
+  in: 'preparing',
+
+  // Moving through the network
+  pu: 'out_for_delivery',
+  ar: 'out_for_delivery',
+  dp: 'out_for_delivery',
+  it: 'out_for_delivery',
+  od: 'out_for_delivery',
+
+  // Held for pickup
+  hl: 'ready_for_pickup',
+  hp: 'ready_for_pickup',
+
+  // Problems and final states
+  de: 'delayed',
+  se: 'delayed',
+  dy: 'delayed',
+  dl: 'delivered',
+  ca: 'cancelled',
+  rs: 'cancelled',
+};
+
+/**
+ * USPS status mappings
+ * Keyed by status category and by tracking event code.
+ */
+export const uspsStatusMap: StatusMap = {
+  // Status categories
+  pre_shipment: 'preparing',
+  accepted: 'out_for_delivery',
+  in_transit: 'out_for_delivery',
+  out_for_delivery: 'out_for_delivery',
+  available_for_pickup: 'ready_for_pickup',
+  alert: 'delayed',
+  delivered: 'delivered',
+  returned_to_sender: 'cancelled',
+
+  // Event codes
+  gx: 'preparing', // Shipping label created
+  ma: 'preparing', // Manifest acknowledged
+  '03': 'out_for_delivery', // Accepted
+  '10': 'out_for_delivery', // Processed through facility
+  nt: 'out_for_delivery', // In transit
+  '07': 'out_for_delivery', // Arrived at post office
+  of: 'out_for_delivery', // Out for delivery
+  '16': 'ready_for_pickup', // Available for pickup
+  '02': 'delayed', // Notice left
+  '55': 'delayed', // Delivery attempted, no access
+  '05': 'delayed', // Undeliverable as addressed
+  '01': 'delivered',
+  '04': 'cancelled', // Refused
+  '09': 'cancelled', // Returned to sender
+};
+
+/**
+ * DHL status mappings
+ * Keyed by the unified tracking API status code.
+ */
+export const dhlStatusMap: StatusMap = {
+  pre_transit: 'preparing',
+  unknown: 'preparing',
+  transit: 'out_for_delivery',
+  failure: 'delayed',
+  delivered: 'delivered',
+};
+
 /**
  * Get status map for a platform
  */
@@ -214,6 +347,10 @@ export function getStatusMap(platform: Platform): StatusMap {
     samsclub: samsclubStatusMap,
     drizly: drizlyStatusMap,
     totalwine: totalwineStatusMap,
+    ups: upsStatusMap,
+    fedex: fedexStatusMap,
+    usps: uspsStatusMap,
+    dhl: dhlStatusMap,
   };
 
   return maps[platform] ?? {};
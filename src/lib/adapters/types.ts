@@ -32,6 +32,8 @@ export interface AdapterConnection {
   platform: Platform;
   /** Refresh token if available */
   refreshToken?: string;
+  /** Decrypted browser session linked alongside the main credentials (e.g. Costco.com) */
+  sessionData?: string;
   /** Connection metadata */
   metadata?: Record<string, unknown>;
 }
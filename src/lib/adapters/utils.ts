@@ -103,12 +103,14 @@ export function interpolateLocation(
  * @param fn - Function to retry
  * @param maxAttempts - Maximum number of attempts
  * @param baseDelayMs - Base delay in milliseconds
+ * @param shouldRetry - Return false to give up on an error immediately
  * @returns Result of the function
  */
 export async function withRetry<T>(
   fn: () => Promise<T>,
   maxAttempts = 3,
-  baseDelayMs = 1000
+  baseDelayMs = 1000,
+  shouldRetry: (error: Error) => boolean = () => true
 ): Promise<T> {
   let lastError: Error | null = null;
 
@@ -118,6 +120,10 @@ export async function withRetry<T>(
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
 
+      if (!shouldRetry(lastError)) {
+        break;
+      }
+
       if (attempt < maxAttempts - 1) {
         const delay = baseDelayMs * 2 ** attempt;
         await sleep(delay);
@@ -1,4 +1,10 @@
-import type { DeliveryStatus, DriverLocation, OrderItem, UnifiedDelivery } from '@/types/delivery';
+import type {
+  DeliveryStatus,
+  DriverLocation,
+  FulfillmentType,
+  OrderItem,
+  UnifiedDelivery,
+} from '@/types/delivery';
 import { SessionBasedAdapter } from '../base';
 import { walmartStatusMap } from '../status-map';
 import type { AdapterConnection, AdapterMetadata, TokenSet } from '../types';
@@ -140,7 +146,7 @@ export class WalmartAdapter extends SessionBasedAdapter {
    */
   async getPickupOrders(connection: AdapterConnection): Promise<UnifiedDelivery[]> {
     const deliveries = await this.getActiveDeliveries(connection);
-    return deliveries.filter((d) => (d.meta.rawData as WalmartOrder).order_type === 'PICKUP');
+    return deliveries.filter((d) => d.fulfillment === 'pickup');
   }
 
   /**
@@ -177,11 +183,20 @@ export class WalmartAdapter extends SessionBasedAdapter {
     return 'delivery';
   }
 
+  /**
+   * Get how an order type is fulfilled
+   * Express orders are driven to the door like regular deliveries.
+   */
+  private getFulfillment(orderType: WalmartOrderType): FulfillmentType {
+    return orderType === 'pickup' ? 'pickup' : 'delivery';
+  }
+
   /**
    * Normalize Walmart order to UnifiedDelivery format
    */
   private normalizeOrder(order: WalmartOrder): UnifiedDelivery {
     const orderType = this.getOrderType(order);
+    const fulfillment = this.getFulfillment(orderType);
     const status = this.mapStatus(order.status);
     const now = new Date();
 
@@ -238,14 +253,15 @@ export class WalmartAdapter extends SessionBasedAdapter {
 
     // For pickup orders, use store address
     const pickupAddress = order.store?.address;
-    const isPickup = orderType === 'pickup';
+    const isPickup = fulfillment === 'pickup';
 
     return {
       id: this.generateDeliveryId(order.order_id),
       platform: 'walmart',
       externalOrderId: order.order_id,
+      fulfillment,
       status,
-      statusLabel: this.getStatusLabel(status),
+      statusLabel: this.getStatusLabel(status, fulfillment),
       statusUpdatedAt: parseDate(order.updated_at) ?? now,
 
       driver: order.driver
@@ -267,8 +283,8 @@ export class WalmartAdapter extends SessionBasedAdapter {
           }
         : undefined,
 
-      destination:
-        isPickup && pickupAddress
+      destination: isPickup
+        ? pickupAddress
           ? {
               address: [
                 pickupAddress.address_line_1,
@@ -283,16 +299,17 @@ export class WalmartAdapter extends SessionBasedAdapter {
               lat: pickupAddress.latitude ?? 0,
               lng: pickupAddress.longitude ?? 0,
             }
-          : {
-              address: formattedAddress,
-              addressLine1: address?.address_line_1,
-              city: address?.city,
-              state: address?.state,
-              zipCode: address?.postal_code,
-              lat: address?.latitude ?? 0,
-              lng: address?.longitude ?? 0,
-              instructions: order.delivery_instructions,
-            },
+          : { address: '', lat: 0, lng: 0 }
+        : {
+            address: formattedAddress,
+            addressLine1: address?.address_line_1,
+            city: address?.city,
+            state: address?.state,
+            zipCode: address?.postal_code,
+            lat: address?.latitude ?? 0,
+            lng: address?.longitude ?? 0,
+            instructions: order.delivery_instructions,
+          },
 
       eta: {
         estimatedArrival,
@@ -300,6 +317,19 @@ export class WalmartAdapter extends SessionBasedAdapter {
         confidence: order.driver?.location ? 'high' : 'medium',
       },
 
+      pickup: isPickup
+        ? {
+            storeName: order.store?.name,
+            storePhone: order.store?.phone,
+            window: order.delivery_slot
+              ? {
+                  start: new Date(order.delivery_slot.start_time),
+                  end: new Date(order.delivery_slot.end_time),
+                }
+              : undefined,
+          }
+        : undefined,
+
       order: {
         itemCount: order.items_count ?? order.items?.length ?? 0,
         totalAmount: order.total,
@@ -320,7 +350,8 @@ export class WalmartAdapter extends SessionBasedAdapter {
         confirmed:
           order.status !== 'ORDER_PLACED' ? (parseDate(order.updated_at) ?? undefined) : undefined,
         driverAssigned: order.driver ? (parseDate(order.updated_at) ?? undefined) : undefined,
-        delivered: parseDate(order.delivered_at) ?? undefined,
+        checkedIn: status === 'checked_in' ? (parseDate(order.updated_at) ?? undefined) : undefined,
+        delivered: parseDate(order.delivered_at ?? order.picked_up_at) ?? undefined,
         cancelled: parseDate(order.cancelled_at) ?? undefined,
       },
 
@@ -13,6 +13,7 @@ export type WalmartOrderStatus =
   | 'ORDER_RECEIVED'
   | 'PREPARING'
   | 'READY_FOR_PICKUP'
+  | 'CHECKED_IN'
   | 'DRIVER_ASSIGNED'
   | 'DRIVER_HEADING_TO_STORE'
   | 'DRIVER_AT_STORE'
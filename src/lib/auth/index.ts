@@ -90,10 +90,34 @@ export const { auth, handlers, signIn, signOut } = NextAuth({
         return true;
       }
 
+      // Public tracking pages are authorized by the share token in the URL
+      if (request.nextUrl.pathname.startsWith('/track/')) {
+        return true;
+      }
+
       // Protected routes require authentication
       return isLoggedIn;
     },
   },
+  events: {
+    async signIn({ user, account, isNewUser }) {
+      if (!user.id) return;
+
+      // Loaded on demand: this module is also bundled into the middleware,
+      // which cannot load the security log's Node dependencies
+      const [{ headers }, { getRequestMeta, recordSecurityEvent }] = await Promise.all([
+        import('next/headers'),
+        import('@/lib/services/security-log'),
+      ]);
+
+      await recordSecurityEvent({
+        userId: user.id,
+        event: 'sign_in',
+        details: { provider: account?.provider, newAccount: isNewUser ?? false },
+        request: getRequestMeta(await headers()),
+      });
+    },
+  },
   pages: {
     signIn: '/login',
     error: '/auth/error',
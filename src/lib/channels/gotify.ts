@@ -0,0 +1,40 @@
+import { joinServerUrl, postChannelJson } from './request';
+import type { ChannelPriority, ChannelSender } from './types';
+
+/**
+ * Gotify messages (https://gotify.net/docs/pushmsg)
+ */
+
+/**
+ * Gotify priorities (0-10); the Android app pops up notifications from 8
+ */
+export const GOTIFY_PRIORITIES: Record<ChannelPriority, number> = {
+  min: 0,
+  low: 2,
+  default: 5,
+  high: 8,
+  urgent: 10,
+};
+
+/**
+ * Send a message through a Gotify application token
+ */
+export const sendGotifyMessage: ChannelSender = async (config, message, options) => {
+  if (!config.token) {
+    return { success: false, error: 'No Gotify application token configured' };
+  }
+
+  return postChannelJson(
+    joinServerUrl(config.serverUrl, 'message'),
+    {
+      title: message.title,
+      message: message.body,
+      priority: GOTIFY_PRIORITIES[message.priority],
+      ...(message.clickUrl && {
+        extras: { 'client::notification': { click: { url: message.clickUrl } } },
+      }),
+    },
+    { 'X-Gotify-Key': config.token },
+    options
+  );
+};
@@ -0,0 +1,31 @@
+/**
+ * Notification Channels - Main Export
+ */
+
+import { sendGotifyMessage } from './gotify';
+import { sendNtfyMessage } from './ntfy';
+import type { ChannelSender, NotificationChannelType } from './types';
+
+// Gotify
+export { GOTIFY_PRIORITIES, sendGotifyMessage } from './gotify';
+// ntfy
+export { NTFY_PRIORITIES, sendNtfyMessage } from './ntfy';
+// Shared request helpers
+export { joinServerUrl, postChannelJson, validateChannelServerUrl } from './request';
+export type {
+  ChannelConfig,
+  ChannelMessage,
+  ChannelPriority,
+  ChannelSender,
+  ChannelSendResult,
+  NotificationChannelType,
+  SendChannelOptions,
+} from './types';
+
+/**
+ * Sender for each channel type
+ */
+export const channelSenders: Record<NotificationChannelType, ChannelSender> = {
+  ntfy: sendNtfyMessage,
+  gotify: sendGotifyMessage,
+};
@@ -0,0 +1,45 @@
+import { postChannelJson } from './request';
+import type { ChannelPriority, ChannelSender } from './types';
+
+/**
+ * ntfy publishing (https://docs.ntfy.sh/publish/)
+ */
+
+/**
+ * ntfy priorities (1 = min, 5 = max/urgent)
+ */
+export const NTFY_PRIORITIES: Record<ChannelPriority, number> = {
+  min: 1,
+  low: 2,
+  default: 3,
+  high: 4,
+  urgent: 5,
+};
+
+/**
+ * Publish a message to an ntfy topic
+ * Uses JSON publishing so titles are not limited to header-safe characters.
+ */
+export const sendNtfyMessage: ChannelSender = async (config, message, options) => {
+  if (!config.topic) {
+    return { success: false, error: 'No ntfy topic configured' };
+  }
+
+  const headers: Record<string, string> = {};
+  if (config.token) {
+    headers.Authorization = `Bearer ${config.token}`;
+  }
+
+  return postChannelJson(
+    config.serverUrl.replace(/\/+$/, ''),
+    {
+      topic: config.topic,
+      title: message.title,
+      message: message.body,
+      priority: NTFY_PRIORITIES[message.priority],
+      ...(message.clickUrl && { click: message.clickUrl }),
+    },
+    headers,
+    options
+  );
+};
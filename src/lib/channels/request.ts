@@ -0,0 +1,118 @@
+import { findPrivateAddress, isPrivateHost } from '@/lib/network';
+import type { ChannelSendResult, SendChannelOptions } from './types';
+
+/**
+ * Give up on a channel request after this long (ms)
+ */
+const DEFAULT_TIMEOUT = 10_000;
+
+/**
+ * Join a server base URL and a path, tolerating trailing slashes
+ */
+export function joinServerUrl(serverUrl: string, path: string): string {
+  return `${serverUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Hosts the operator trusts as channel servers (CHANNEL_ALLOWED_HOSTS)
+ * A comma-separated list of hostnames, for self-hosted servers on the same
+ * network as DropDeck. Only these may use plain HTTP or private addresses.
+ */
+function getAllowedChannelHosts(): string[] {
+  return (process.env.CHANNEL_ALLOWED_HOSTS ?? '')
+    .split(',')
+    .map((host) =>
+      host
+        .trim()
+        .replace(/^\[|\]$/g, '')
+        .toLowerCase()
+    )
+    .filter(Boolean);
+}
+
+function isAllowedChannelHost(hostname: string): boolean {
+  return getAllowedChannelHosts().includes(hostname.replace(/^\[|\]$/g, '').toLowerCase());
+}
+
+/**
+ * Check that a URL can be used as a channel server
+ * Returns an error message, or null if the URL is acceptable. Requests come
+ * from our servers, so loopback and private network addresses are refused
+ * unless the operator has allowed the host.
+ */
+export function validateChannelServerUrl(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'Enter a valid URL';
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return 'Server URLs must use HTTP or HTTPS';
+  }
+
+  if (url.username || url.password) {
+    return 'Put credentials in the access token, not the URL';
+  }
+
+  if (isAllowedChannelHost(url.hostname)) {
+    return null;
+  }
+
+  if (url.protocol !== 'https:') {
+    return 'Server URLs must use HTTPS';
+  }
+
+  if (isPrivateHost(url.hostname)) {
+    return 'Server URLs must be reachable from the internet';
+  }
+
+  return null;
+}
+
+/**
+ * POST a JSON body to a channel server
+ * Never throws - failures are reported in the result. Response bodies are not
+ * kept, since they come from a server of the user's choosing.
+ */
+export async function postChannelJson(
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  options: SendChannelOptions = {}
+): Promise<ChannelSendResult> {
+  const doFetch = options.fetch ?? fetch;
+
+  try {
+    // Saved names are checked again here, where they actually resolve
+    const { hostname } = new URL(url);
+    if (!isAllowedChannelHost(hostname) && (await findPrivateAddress(hostname, options.lookup))) {
+      return { success: false, error: 'Server resolves to a private network address' };
+    }
+
+    const response = await doFetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      // A redirect would skip the address check above
+      redirect: 'manual',
+      signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT),
+    });
+
+    if (response.ok) {
+      return { success: true, statusCode: response.status };
+    }
+
+    return {
+      success: false,
+      statusCode: response.status,
+      error: `HTTP ${response.status}`,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
@@ -0,0 +1,61 @@
+import type { HostLookup } from '@/lib/network';
+import type { NotificationChannelType } from '@/types/notification';
+
+/**
+ * Message priority, mapped onto each service's own scale
+ */
+export type ChannelPriority = 'min' | 'low' | 'default' | 'high' | 'urgent';
+
+/**
+ * A notification to forward to a channel
+ */
+export interface ChannelMessage {
+  title: string;
+  body: string;
+  priority: ChannelPriority;
+  /** Absolute URL opened when the notification is tapped */
+  clickUrl?: string;
+}
+
+/**
+ * Connection details for a channel (stored encrypted)
+ */
+export interface ChannelConfig {
+  /** Base URL of the ntfy or Gotify server */
+  serverUrl: string;
+  /** ntfy topic */
+  topic?: string;
+  /** ntfy access token or Gotify application token */
+  token?: string;
+}
+
+/**
+ * Options for sending to a channel
+ */
+export interface SendChannelOptions {
+  timeoutMs?: number;
+  /** Fetch implementation (defaults to global fetch) */
+  fetch?: typeof fetch;
+  /** DNS lookup used to check where the server resolves (defaults to the system resolver) */
+  lookup?: HostLookup;
+}
+
+/**
+ * Result of a channel request
+ */
+export interface ChannelSendResult {
+  success: boolean;
+  statusCode?: number;
+  error?: string;
+}
+
+/**
+ * Sends a message to one kind of channel
+ */
+export type ChannelSender = (
+  config: ChannelConfig,
+  message: ChannelMessage,
+  options?: SendChannelOptions
+) => Promise<ChannelSendResult>;
+
+export type { NotificationChannelType };
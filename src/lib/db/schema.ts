@@ -7,11 +7,15 @@ import {
   pgEnum,
   pgTable,
   primaryKey,
+  real,
   text,
   timestamp,
   uniqueIndex,
 } from 'drizzle-orm/pg-core';
+import type { AdminAction, AdminTargetType } from '@/types/admin';
 import type { TimelineEvent, UnifiedDelivery } from '@/types/delivery';
+import type { EtaBucket } from '@/types/eta';
+import type { PushDeliveryStatus, QuietHoursSchedule } from '@/types/notification';
 import type { EncryptedData, NotificationSettings, PlatformMetadata } from '@/types/platform';
 
 // ============================================
@@ -30,6 +34,10 @@ export const platformEnum = pgEnum('platform', [
   'costco',
   'samsclub',
   'amazon',
+  'ups',
+  'fedex',
+  'usps',
+  'dhl',
 ]);
 
 export const connectionStatusEnum = pgEnum('connection_status', [
@@ -42,6 +50,7 @@ export const connectionStatusEnum = pgEnum('connection_status', [
 export const deliveryStatusEnum = pgEnum('delivery_status', [
   'preparing',
   'ready_for_pickup',
+  'checked_in',
   'driver_assigned',
   'driver_heading_to_store',
   'driver_at_store',
@@ -52,6 +61,8 @@ export const deliveryStatusEnum = pgEnum('delivery_status', [
   'delayed',
 ]);
 
+export const userRoleEnum = pgEnum('user_role', ['user', 'admin']);
+
 export const themeEnum = pgEnum('theme', ['light', 'dark', 'system']);
 
 export const sortOrderEnum = pgEnum('sort_order', ['eta', 'alphabetical', 'recent', 'manual']);
@@ -63,8 +74,10 @@ export const notificationTypeEnum = pgEnum('notification_type', [
   'arriving_soon',
   'delivered',
   'delay_detected',
+  'eta_slipped',
   'platform_connected',
   'platform_disconnected',
+  'quiet_hours_digest',
 ]);
 
 // ============================================
@@ -81,6 +94,7 @@ export const users = pgTable(
     emailVerified: timestamp('email_verified', { mode: 'date' }),
     name: text('name'),
     image: text('image'),
+    role: userRoleEnum('role').default('user').notNull(),
     createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
     updatedAt: timestamp('updated_at', { mode: 'date' })
       .defaultNow()
@@ -216,11 +230,14 @@ export const deliveryCache = pgTable(
     } | null>(),
     etaMinutes: integer('eta_minutes'),
     status: deliveryStatusEnum('status').notNull(),
+    timeline: jsonb('timeline').$type<TimelineEvent[]>(), // Status transitions observed so far
+    promisedArrival: timestamp('promised_arrival', { mode: 'date' }), // First ETA the platform gave
     lastUpdated: timestamp('last_updated', { mode: 'date' }).defaultNow().notNull(),
     expiresAt: timestamp('expires_at', { mode: 'date' }),
   },
   (table) => [
     index('cache_user_platform_idx').on(table.userId, table.platform),
+    uniqueIndex('cache_user_order_idx').on(table.userId, table.platform, table.externalOrderId),
     index('cache_expires_idx').on(table.expiresAt),
     index('cache_status_idx').on(table.status),
   ]
@@ -245,15 +262,74 @@ export const deliveryHistory = pgTable(
     finalStatus: deliveryStatusEnum('final_status').notNull(),
     orderedAt: timestamp('ordered_at', { mode: 'date' }).notNull(),
     deliveredAt: timestamp('delivered_at', { mode: 'date' }),
+    promisedArrival: timestamp('promised_arrival', { mode: 'date' }),
     timeline: jsonb('timeline').$type<TimelineEvent[]>(),
     createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
   },
   (table) => [
     index('history_user_platform_idx').on(table.userId, table.platform),
+    uniqueIndex('history_user_order_idx').on(table.userId, table.platform, table.externalOrderId),
     index('history_ordered_at_idx').on(table.orderedAt),
   ]
 );
 
+// ============================================
+// ETA STATISTICS TABLE (Learned ETA Model)
+// ============================================
+
+export const etaStatistics = pgTable(
+  'eta_statistics',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text('user_id').references(() => users.id, { onDelete: 'cascade' }), // null = all users
+    platform: platformEnum('platform').notNull(),
+    sampleCount: integer('sample_count').notNull(),
+    // Minutes between promised and actual arrival (negative = early)
+    medianLateness: integer('median_lateness').notNull(),
+    p10Lateness: integer('p10_lateness').notNull(),
+    p90Lateness: integer('p90_lateness').notNull(),
+    meanAbsoluteError: integer('mean_absolute_error').notNull(),
+    onTimeRate: real('on_time_rate').notNull(),
+    byDayOfWeek: jsonb('by_day_of_week').$type<Partial<Record<number, EtaBucket>>>().notNull(),
+    byHour: jsonb('by_hour').$type<Partial<Record<number, EtaBucket>>>().notNull(),
+    computedAt: timestamp('computed_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => [index('eta_statistics_user_platform_idx').on(table.userId, table.platform)]
+);
+
+// ============================================
+// TRACKED PACKAGES TABLE (Carrier Tracking)
+// ============================================
+
+export const trackedPackages = pgTable(
+  'tracked_packages',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    carrier: platformEnum('carrier').notNull(),
+    trackingNumber: text('tracking_number').notNull(),
+    label: text('label'), // User-supplied name, e.g. "New laptop"
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { mode: 'date' })
+      .defaultNow()
+      .notNull()
+      .$onUpdateFn(() => new Date()),
+  },
+  (table) => [
+    uniqueIndex('tracked_packages_user_number_idx').on(
+      table.userId,
+      table.carrier,
+      table.trackingNumber
+    ),
+  ]
+);
+
 // ============================================
 // PUSH SUBSCRIPTIONS TABLE
 // ============================================
@@ -304,6 +380,7 @@ export const notifications = pgTable(
     } | null>(),
     read: boolean('read').default(false).notNull(),
     pushSent: boolean('push_sent').default(false).notNull(),
+    pushStatus: jsonb('push_status').$type<PushDeliveryStatus[] | null>(),
     createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
   },
   (table) => [
@@ -313,6 +390,37 @@ export const notifications = pgTable(
   ]
 );
 
+// ============================================
+// SUPPRESSED NOTIFICATIONS TABLE
+// ============================================
+
+/**
+ * Notifications held back during a user's quiet hours
+ * Sent together as one digest once the quiet hours end.
+ */
+export const suppressedNotifications = pgTable(
+  'suppressed_notifications',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    type: notificationTypeEnum('type').notNull(),
+    title: text('title').notNull(),
+    body: text('body').notNull(),
+    data: jsonb('data').$type<{
+      deliveryId?: string;
+      platform?: string;
+      status?: string;
+      actionUrl?: string;
+    } | null>(),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => [index('suppressed_notifications_user_idx').on(table.userId, table.createdAt)]
+);
+
 // ============================================
 // NOTIFICATION PREFERENCES TABLE
 // ============================================
@@ -330,6 +438,9 @@ export const notificationPreferences = pgTable('notification_preferences', {
   arrivingSoon: boolean('arriving_soon').default(true).notNull(),
   delivered: boolean('delivered').default(true).notNull(),
   delayed: boolean('delayed').default(true).notNull(),
+  etaSlipped: boolean('eta_slipped').default(true).notNull(),
+  etaSlipMinutes: integer('eta_slip_minutes').default(15).notNull(), // Notify each time the ETA slips this much
+  householdDeliveries: boolean('household_deliveries').default(true).notNull(), // Updates on other members' orders
   platformStatus: boolean('platform_status').default(true).notNull(),
   // Per-platform preferences (null = all platforms)
   enabledPlatforms: jsonb('enabled_platforms').$type<string[] | null>(),
@@ -337,12 +448,296 @@ export const notificationPreferences = pgTable('notification_preferences', {
   quietHoursEnabled: boolean('quiet_hours_enabled').default(false).notNull(),
   quietHoursStart: text('quiet_hours_start').default('22:00'), // 24-hour format
   quietHoursEnd: text('quiet_hours_end').default('08:00'),
+  // Per-weekday windows; null = quietHoursStart-quietHoursEnd every day
+  quietHoursSchedule: jsonb('quiet_hours_schedule').$type<QuietHoursSchedule | null>(),
+  // Let delays and cancellations through during quiet hours
+  quietHoursAllowCritical: boolean('quiet_hours_allow_critical').default(false).notNull(),
+  // IANA timezone for quiet hours and scheduled notifications
+  timezone: text('timezone').default('UTC').notNull(),
+  // Daily email digest (opt-in)
+  emailDigestEnabled: boolean('email_digest_enabled').default(false).notNull(),
+  emailDigestTime: text('email_digest_time').default('07:00').notNull(), // 24-hour local time
+  emailDigestLastSentAt: timestamp('email_digest_last_sent_at', { mode: 'date' }),
   updatedAt: timestamp('updated_at', { mode: 'date' })
     .defaultNow()
     .notNull()
     .$onUpdateFn(() => new Date()),
 });
 
+// ============================================
+// NOTIFICATION CHANNELS TABLE
+// ============================================
+
+export const notificationChannelTypeEnum = pgEnum('notification_channel_type', ['ntfy', 'gotify']);
+
+/**
+ * Self-hosted push services (ntfy, Gotify) notifications are forwarded to
+ * The server URL, topic and token are stored together as encrypted JSON.
+ */
+export const notificationChannels = pgTable(
+  'notification_channels',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    type: notificationChannelTypeEnum('type').notNull(),
+    configEncrypted: jsonb('config_encrypted').$type<EncryptedData>().notNull(),
+    enabled: boolean('enabled').default(true).notNull(),
+    lastUsedAt: timestamp('last_used_at', { mode: 'date' }),
+    lastError: text('last_error'),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { mode: 'date' })
+      .defaultNow()
+      .notNull()
+      .$onUpdateFn(() => new Date()),
+  },
+  (table) => [uniqueIndex('notification_channels_user_type_idx').on(table.userId, table.type)]
+);
+
+// ============================================
+// EMAIL IMPORT TABLES
+// ============================================
+
+/**
+ * Per-user address order emails are forwarded to
+ * Only a hash of the token is stored; it is shown once when created.
+ */
+export const emailInboxes = pgTable(
+  'email_inboxes',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    tokenHash: text('token_hash').notNull(),
+    tokenHint: text('token_hint').notNull(), // Last characters, to tell tokens apart
+    enabled: boolean('enabled').default(true).notNull(),
+    lastReceivedAt: timestamp('last_received_at', { mode: 'date' }),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('email_inboxes_user_idx').on(table.userId),
+    uniqueIndex('email_inboxes_token_idx').on(table.tokenHash),
+  ]
+);
+
+export const inboundEmailResultEnum = pgEnum('inbound_email_result', [
+  'imported',
+  'updated',
+  'duplicate',
+  'archived',
+  'unrecognized',
+]);
+
+/**
+ * Emails received for import and what became of them
+ */
+export const inboundEmails = pgTable(
+  'inbound_emails',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    messageId: text('message_id').notNull(),
+    fromAddress: text('from_address').notNull(),
+    subject: text('subject').notNull(),
+    parser: text('parser'), // Parser that read the order, null if none did
+    result: inboundEmailResultEnum('result').notNull(),
+    platform: platformEnum('platform'),
+    externalOrderId: text('external_order_id'),
+    receivedAt: timestamp('received_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('inbound_emails_user_message_idx').on(table.userId, table.messageId),
+    index('inbound_emails_user_received_idx').on(table.userId, table.receivedAt),
+  ]
+);
+
+// ============================================
+// CALENDAR FEEDS TABLE (iCalendar Subscription)
+// ============================================
+
+/**
+ * Per-user private calendar feed of upcoming deliveries
+ * Only a hash of the token is stored; it is shown once when created.
+ */
+export const calendarFeeds = pgTable(
+  'calendar_feeds',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    tokenHash: text('token_hash').notNull(),
+    tokenHint: text('token_hint').notNull(), // Last characters, to tell tokens apart
+    enabled: boolean('enabled').default(true).notNull(),
+    lastAccessedAt: timestamp('last_accessed_at', { mode: 'date' }),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('calendar_feeds_user_idx').on(table.userId),
+    uniqueIndex('calendar_feeds_token_idx').on(table.tokenHash),
+  ]
+);
+
+// ============================================
+// HOUSEHOLD TABLES (Shared Deck)
+// ============================================
+
+export const householdRoleEnum = pgEnum('household_role', ['admin', 'viewer']);
+
+/**
+ * A group of users who see each other's deliveries
+ * Platform connections stay with each member; only deliveries are shared.
+ */
+export const households = pgTable('households', {
+  id: text('id')
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  name: text('name').notNull(),
+  createdBy: text('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+});
+
+/**
+ * Household membership, at most one household per user
+ */
+export const householdMembers = pgTable(
+  'household_members',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    householdId: text('household_id')
+      .notNull()
+      .references(() => households.id, { onDelete: 'cascade' }),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    role: householdRoleEnum('role').default('viewer').notNull(),
+    color: text('color').notNull(), // Hex color the member's deliveries are shown in
+    joinedAt: timestamp('joined_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('household_members_user_idx').on(table.userId),
+    index('household_members_household_idx').on(table.householdId),
+  ]
+);
+
+/**
+ * Single-use links to join a household
+ * Only a hash of the token is stored; it is shown once when created.
+ */
+export const householdInvites = pgTable(
+  'household_invites',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    householdId: text('household_id')
+      .notNull()
+      .references(() => households.id, { onDelete: 'cascade' }),
+    tokenHash: text('token_hash').notNull(),
+    tokenHint: text('token_hint').notNull(), // Last characters, to tell tokens apart
+    role: householdRoleEnum('role').default('viewer').notNull(),
+    createdBy: text('created_by').references(() => users.id, { onDelete: 'set null' }),
+    expiresAt: timestamp('expires_at', { mode: 'date' }).notNull(),
+    acceptedBy: text('accepted_by').references(() => users.id, { onDelete: 'set null' }),
+    acceptedAt: timestamp('accepted_at', { mode: 'date' }),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('household_invites_token_idx').on(table.tokenHash),
+    index('household_invites_household_idx').on(table.householdId),
+  ]
+);
+
+// ============================================
+// DELIVERY SHARES TABLE (Public Tracking Links)
+// ============================================
+
+export const sharePrivacyEnum = pgEnum('share_privacy', ['driver', 'location', 'eta']);
+
+/**
+ * Public tracking links for a single delivery
+ * The token is shown once; only its hash is stored.
+ */
+export const deliveryShares = pgTable(
+  'delivery_shares',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    deliveryId: text('delivery_id').notNull(), // UnifiedDelivery id
+    tokenHash: text('token_hash').notNull(),
+    tokenHint: text('token_hint').notNull(), // Last characters, to tell tokens apart
+    privacy: sharePrivacyEnum('privacy').default('location').notNull(), // Driver details shown
+    expiresAt: timestamp('expires_at', { mode: 'date' }).notNull(),
+    revokedAt: timestamp('revoked_at', { mode: 'date' }),
+    lastViewedAt: timestamp('last_viewed_at', { mode: 'date' }),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('delivery_shares_token_idx').on(table.tokenHash),
+    index('delivery_shares_user_delivery_idx').on(table.userId, table.deliveryId),
+  ]
+);
+
+// ============================================
+// SECURITY LOG TABLE
+// ============================================
+
+export const securityEventTypeEnum = pgEnum('security_event_type', [
+  'sign_in',
+  'platform_connected',
+  'platform_disconnected',
+  'token_refreshed',
+  'token_decrypted',
+  'preferences_updated',
+  'invite_redeemed',
+  'account_deleted',
+]);
+
+/**
+ * Hash-chained log of security-relevant account events, one chain per user
+ * user_id is deliberately not a foreign key: entries outlive the account so
+ * the chain, including its account_deleted entry, stays verifiable.
+ */
+export const securityEvents = pgTable(
+  'security_events',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text('user_id').notNull(),
+    sequence: integer('sequence').notNull(),
+    event: securityEventTypeEnum('event').notNull(),
+    ipAddress: text('ip_address'),
+    userAgent: text('user_agent'),
+    details: jsonb('details').$type<Record<string, unknown> | null>(),
+    prevHash: text('prev_hash').notNull(),
+    hash: text('hash').notNull(),
+    createdAt: timestamp('created_at', { mode: 'date' }).notNull(),
+  },
+  (table) => [
+    uniqueIndex('security_events_user_sequence_idx').on(table.userId, table.sequence),
+    index('security_events_event_idx').on(table.event),
+  ]
+);
+
 // ============================================
 // RELATIONS
 // ============================================
@@ -350,16 +745,27 @@ export const notificationPreferences = pgTable('notification_preferences', {
 export const usersRelations = relations(users, ({ one, many }) => ({
   preferences: one(userPreferences),
   notificationPreferences: one(notificationPreferences),
+  notificationChannels: many(notificationChannels),
   connections: many(platformConnections),
   deliveryCache: many(deliveryCache),
   deliveryHistory: many(deliveryHistory),
+  etaStatistics: many(etaStatistics),
+  trackedPackages: many(trackedPackages),
   accounts: many(accounts),
   sessions: many(sessions),
   pushSubscriptions: many(pushSubscriptions),
   notifications: many(notifications),
+  suppressedNotifications: many(suppressedNotifications),
   createdInviteCodes: many(inviteCodes),
   inviteRedemption: one(inviteRedemptions),
   feedback: many(feedback),
+  webhookEndpoints: many(webhookEndpoints),
+  emailInbox: one(emailInboxes),
+  inboundEmails: many(inboundEmails),
+  calendarFeed: one(calendarFeeds),
+  householdMembership: one(householdMembers),
+  deliveryShares: many(deliveryShares),
+  adminActions: many(adminAuditLog),
 }));
 
 export const accountsRelations = relations(accounts, ({ one }) => ({
@@ -404,6 +810,20 @@ export const deliveryHistoryRelations = relations(deliveryHistory, ({ one }) =>
   }),
 }));
 
+export const etaStatisticsRelations = relations(etaStatistics, ({ one }) => ({
+  user: one(users, {
+    fields: [etaStatistics.userId],
+    references: [users.id],
+  }),
+}));
+
+export const trackedPackagesRelations = relations(trackedPackages, ({ one }) => ({
+  user: one(users, {
+    fields: [trackedPackages.userId],
+    references: [users.id],
+  }),
+}));
+
 export const pushSubscriptionsRelations = relations(pushSubscriptions, ({ one }) => ({
   user: one(users, {
     fields: [pushSubscriptions.userId],
@@ -418,6 +838,13 @@ export const notificationsRelations = relations(notifications, ({ one }) => ({
   }),
 }));
 
+export const suppressedNotificationsRelations = relations(suppressedNotifications, ({ one }) => ({
+  user: one(users, {
+    fields: [suppressedNotifications.userId],
+    references: [users.id],
+  }),
+}));
+
 export const notificationPreferencesRelations = relations(notificationPreferences, ({ one }) => ({
   user: one(users, {
     fields: [notificationPreferences.userId],
@@ -425,6 +852,64 @@ export const notificationPreferencesRelations = relations(notificationPreference
   }),
 }));
 
+export const notificationChannelsRelations = relations(notificationChannels, ({ one }) => ({
+  user: one(users, {
+    fields: [notificationChannels.userId],
+    references: [users.id],
+  }),
+}));
+
+export const emailInboxesRelations = relations(emailInboxes, ({ one }) => ({
+  user: one(users, {
+    fields: [emailInboxes.userId],
+    references: [users.id],
+  }),
+}));
+
+export const inboundEmailsRelations = relations(inboundEmails, ({ one }) => ({
+  user: one(users, {
+    fields: [inboundEmails.userId],
+    references: [users.id],
+  }),
+}));
+
+export const calendarFeedsRelations = relations(calendarFeeds, ({ one }) => ({
+  user: one(users, {
+    fields: [calendarFeeds.userId],
+    references: [users.id],
+  }),
+}));
+
+export const householdsRelations = relations(households, ({ many }) => ({
+  members: many(householdMembers),
+  invites: many(householdInvites),
+}));
+
+export const householdMembersRelations = relations(householdMembers, ({ one }) => ({
+  household: one(households, {
+    fields: [householdMembers.householdId],
+    references: [households.id],
+  }),
+  user: one(users, {
+    fields: [householdMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const householdInvitesRelations = relations(householdInvites, ({ one }) => ({
+  household: one(households, {
+    fields: [householdInvites.householdId],
+    references: [households.id],
+  }),
+}));
+
+export const deliverySharesRelations = relations(deliveryShares, ({ one }) => ({
+  user: one(users, {
+    fields: [deliveryShares.userId],
+    references: [users.id],
+  }),
+}));
+
 // ============================================
 // INVITE CODES TABLE (Beta System)
 // ============================================
@@ -570,3 +1055,117 @@ export const feedbackRelations = relations(feedback, ({ one }) => ({
     references: [users.id],
   }),
 }));
+
+// ============================================
+// WEBHOOK ENDPOINTS TABLE (Outbound Integrations)
+// ============================================
+
+export const webhookEndpoints = pgTable(
+  'webhook_endpoints',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    url: text('url').notNull(),
+    description: text('description'),
+    secretEncrypted: jsonb('secret_encrypted').$type<EncryptedData>().notNull(),
+    // Filters (null = no filter)
+    platforms: jsonb('platforms').$type<string[] | null>(),
+    statuses: jsonb('statuses').$type<string[] | null>(),
+    arrivingWithinMinutes: integer('arriving_within_minutes'),
+    enabled: boolean('enabled').default(true).notNull(),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { mode: 'date' })
+      .defaultNow()
+      .notNull()
+      .$onUpdateFn(() => new Date()),
+  },
+  (table) => [index('webhook_endpoints_user_idx').on(table.userId)]
+);
+
+// ============================================
+// WEBHOOK DELIVERIES TABLE (Outbound Integrations)
+// ============================================
+
+export const webhookDeliveryStatusEnum = pgEnum('webhook_delivery_status', [
+  'pending',
+  'succeeded',
+  'failed',
+]);
+
+export const webhookDeliveries = pgTable(
+  'webhook_deliveries',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    endpointId: text('endpoint_id')
+      .notNull()
+      .references(() => webhookEndpoints.id, { onDelete: 'cascade' }),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    eventType: text('event_type').notNull(),
+    payload: jsonb('payload').$type<Record<string, unknown>>().notNull(),
+    status: webhookDeliveryStatusEnum('status').default('pending').notNull(),
+    attempts: integer('attempts').default(0).notNull(),
+    responseStatus: integer('response_status'),
+    error: text('error'),
+    nextAttemptAt: timestamp('next_attempt_at', { mode: 'date' }),
+    lastAttemptAt: timestamp('last_attempt_at', { mode: 'date' }),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => [
+    index('webhook_deliveries_endpoint_idx').on(table.endpointId, table.createdAt),
+    index('webhook_deliveries_due_idx').on(table.status, table.nextAttemptAt),
+  ]
+);
+
+export const webhookEndpointsRelations = relations(webhookEndpoints, ({ one, many }) => ({
+  user: one(users, {
+    fields: [webhookEndpoints.userId],
+    references: [users.id],
+  }),
+  deliveries: many(webhookDeliveries),
+}));
+
+export const webhookDeliveriesRelations = relations(webhookDeliveries, ({ one }) => ({
+  endpoint: one(webhookEndpoints, {
+    fields: [webhookDeliveries.endpointId],
+    references: [webhookEndpoints.id],
+  }),
+}));
+
+// ============================================
+// ADMIN AUDIT LOG TABLE
+// ============================================
+
+export const adminAuditLog = pgTable(
+  'admin_audit_log',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    actorId: text('actor_id').references(() => users.id, { onDelete: 'set null' }),
+    action: text('action').$type<AdminAction>().notNull(),
+    targetType: text('target_type').$type<AdminTargetType>().notNull(),
+    targetId: text('target_id'),
+    details: jsonb('details').$type<Record<string, unknown> | null>(),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => [
+    index('admin_audit_log_created_idx').on(table.createdAt),
+    index('admin_audit_log_actor_idx').on(table.actorId),
+    index('admin_audit_log_target_idx').on(table.targetType, table.targetId),
+  ]
+);
+
+export const adminAuditLogRelations = relations(adminAuditLog, ({ one }) => ({
+  actor: one(users, {
+    fields: [adminAuditLog.actorId],
+    references: [users.id],
+  }),
+}));
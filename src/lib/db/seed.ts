@@ -42,6 +42,9 @@ async function seed() {
         arrivingSoon: true,
         delivered: true,
         delayed: true,
+        etaSlipped: true,
+        etaSlipMinutes: 15,
+        householdDeliveries: true,
       },
     });
 
@@ -0,0 +1,183 @@
+import { type FulfillmentType, STATUS_CONFIGS, type UnifiedDelivery } from '@/types/delivery';
+import { isCarrierPlatform, PLATFORM_CONFIGS } from '@/types/platform';
+import type { ParsedEmail } from '../parse';
+import type { EmailOrder, OrderEmailKind } from './types';
+
+/**
+ * Days an order without a promised date is expected to take
+ */
+const DEFAULT_TRANSIT_DAYS = 5;
+
+/**
+ * Status labels for what the email reported
+ */
+const KIND_LABELS: Record<OrderEmailKind, string> = {
+  order_confirmation: 'Order Confirmed',
+  shipping_notice: 'Shipped',
+  delivery_notice: 'Delivered',
+  cancellation: 'Cancelled',
+};
+
+/**
+ * Get the order's ID on its platform
+ * Must match the ID the platform's adapter uses so that imported deliveries
+ * and adapter results share a delivery cache row.
+ */
+export function getEmailOrderExternalId(order: EmailOrder): string {
+  if (order.trackingNumber && isCarrierPlatform(order.platform)) {
+    return order.trackingNumber;
+  }
+  return order.externalOrderId ?? order.orderId;
+}
+
+/**
+ * Build a delivery from an order email
+ */
+export function buildEmailDelivery(
+  order: EmailOrder,
+  email: Pick<ParsedEmail, 'messageId' | 'subject' | 'date'>,
+  parserId: string,
+  now: Date = new Date()
+): UnifiedDelivery {
+  const externalOrderId = getEmailOrderExternalId(order);
+  const sentAt = email.date ?? now;
+  const isParcel = isCarrierPlatform(order.platform);
+  const fulfillment: FulfillmentType = order.pickup
+    ? 'pickup'
+    : isParcel || order.carrier
+      ? 'shipping'
+      : 'delivery';
+  const final = order.status === 'delivered' || order.status === 'cancelled';
+
+  const estimatedArrival =
+    order.status === 'delivered'
+      ? sentAt
+      : (order.estimatedArrival ??
+        new Date(sentAt.getTime() + DEFAULT_TRANSIT_DAYS * 24 * 60 * 60 * 1000));
+
+  const statusLabel =
+    order.status === 'ready_for_pickup'
+      ? STATUS_CONFIGS.ready_for_pickup.label
+      : order.pickup && order.status === 'delivered'
+        ? 'Picked Up'
+        : order.kind === 'shipping_notice' && !isParcel
+          ? STATUS_CONFIGS.out_for_delivery.label
+          : KIND_LABELS[order.kind];
+
+  return {
+    id: `${order.platform.slice(0, 2)}_${externalOrderId}`,
+    platform: order.platform,
+    externalOrderId,
+    label: isParcel
+      ? order.orderId === order.trackingNumber
+        ? order.retailer
+        : `${order.retailer} order ${order.orderId}`
+      : undefined,
+    fulfillment,
+    status: order.status,
+    statusLabel,
+    statusUpdatedAt: sentAt,
+
+    destination: {
+      address: order.address ?? '',
+      lat: 0,
+      lng: 0,
+    },
+
+    eta: {
+      estimatedArrival,
+      minutesRemaining: Math.max(
+        0,
+        Math.round((estimatedArrival.getTime() - now.getTime()) / 60000)
+      ),
+      confidence: final ? 'high' : order.window ? 'medium' : 'low',
+      window: order.pickup ? undefined : order.window,
+    },
+
+    pickup: order.pickup ? { window: order.window } : undefined,
+
+    carrier: order.carrier
+      ? { name: PLATFORM_CONFIGS[order.carrier].name, trackingNumber: order.trackingNumber }
+      : undefined,
+
+    order: {
+      itemCount:
+        order.items.reduce((count, item) => count + item.quantity, 0) || order.items.length,
+      totalAmount: order.totalAmount,
+      currency: order.totalAmount !== undefined ? 'USD' : undefined,
+      items: order.items.length > 0 ? order.items : undefined,
+      specialInstructions: order.instructions,
+    },
+
+    tracking: {
+      url: order.trackingUrl,
+      mapAvailable: false,
+      liveUpdates: false,
+      contactDriverAvailable: false,
+    },
+
+    timestamps: {
+      ordered: sentAt,
+      confirmed: order.kind === 'order_confirmation' ? sentAt : undefined,
+      readyForPickup: order.status === 'ready_for_pickup' ? sentAt : undefined,
+      pickedUp: order.kind === 'shipping_notice' && isParcel ? sentAt : undefined,
+      outForDelivery: order.kind === 'shipping_notice' && !isParcel ? sentAt : undefined,
+      delivered: order.status === 'delivered' ? sentAt : undefined,
+      cancelled: order.status === 'cancelled' ? sentAt : undefined,
+    },
+
+    meta: {
+      lastFetchedAt: now,
+      fetchMethod: 'email',
+      adapterId: parserId,
+      rawData: { messageId: email.messageId, subject: email.subject, order },
+    },
+  };
+}
+
+/**
+ * Combine a delivery imported from an earlier email with a newer one
+ * Later emails (e.g. "delivered") often leave out the items, address and
+ * delivery or pickup window the confirmation had, so those carry over. The
+ * order date is the earliest one seen. The previous delivery may come from
+ * the cache, where dates are stored as strings.
+ */
+export function mergeEmailDelivery(
+  previous: UnifiedDelivery,
+  next: UnifiedDelivery
+): UnifiedDelivery {
+  const previousArrival = new Date(previous.eta.estimatedArrival);
+  const previousOrdered = new Date(previous.timestamps.ordered);
+
+  return {
+    ...next,
+    label: next.label ?? previous.label,
+    pickup: next.pickup && { window: next.pickup.window ?? previous.pickup?.window },
+    destination: next.destination.address ? next.destination : previous.destination,
+    eta:
+      next.eta.confidence === 'low' && previous.eta.confidence !== 'low'
+        ? {
+            ...previous.eta,
+            estimatedArrival: previousArrival,
+            minutesRemaining: Math.max(
+              0,
+              Math.round((previousArrival.getTime() - next.meta.lastFetchedAt.getTime()) / 60000)
+            ),
+          }
+        : next.eta,
+    order: {
+      ...previous.order,
+      ...Object.fromEntries(Object.entries(next.order).filter(([, value]) => value !== undefined)),
+      itemCount: next.order.itemCount || previous.order.itemCount,
+    },
+    tracking: { ...next.tracking, url: next.tracking.url ?? previous.tracking.url },
+    timestamps: {
+      ...previous.timestamps,
+      ...Object.fromEntries(
+        Object.entries(next.timestamps).filter(([, value]) => value !== undefined)
+      ),
+      ordered:
+        previousOrdered < next.timestamps.ordered ? previousOrdered : next.timestamps.ordered,
+    },
+  };
+}
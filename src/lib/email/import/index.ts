@@ -0,0 +1,45 @@
+/**
+ * Order email import - Main Export
+ */
+
+import type { ParsedEmail } from '../parse';
+import { shippingNoticeParser } from './shipping';
+import { totalwineParser } from './totalwine';
+import type { EmailOrder, OrderEmailParser } from './types';
+import { walmartParser } from './walmart';
+
+export { buildEmailDelivery, getEmailOrderExternalId, mergeEmailDelivery } from './delivery';
+export { shippingNoticeParser } from './shipping';
+export { totalwineParser } from './totalwine';
+export type { EmailOrder, OrderEmailKind, OrderEmailParser } from './types';
+export { walmartParser } from './walmart';
+
+/**
+ * Order email parsers, retailer-specific ones first
+ * The shipping notice parser accepts any sender, so it must stay last.
+ */
+export const ORDER_EMAIL_PARSERS: OrderEmailParser[] = [
+  walmartParser,
+  totalwineParser,
+  shippingNoticeParser,
+];
+
+/**
+ * Extract the order from an email with the first parser that understands it
+ * @returns The order and the parser that read it, or null if no parser did
+ */
+export function parseOrderEmail(
+  email: ParsedEmail,
+  parsers: OrderEmailParser[] = ORDER_EMAIL_PARSERS
+): { parser: string; order: EmailOrder } | null {
+  for (const parser of parsers) {
+    if (!parser.matches(email)) continue;
+
+    const order = parser.parse(email);
+    if (order) {
+      return { parser: parser.id, order };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,55 @@
+import { PLATFORM_CONFIGS } from '@/types/platform';
+import type { ParsedEmail } from '../parse';
+import type { EmailOrder, OrderEmailParser } from './types';
+import {
+  findDeliveryEstimate,
+  findLabeledValue,
+  findOrderNumber,
+  findTrackingNumber,
+  getSenderDomain,
+  getSenderName,
+} from './utils';
+
+/**
+ * Shipping notices from any retailer
+ * Small retailers rarely have an API, but their shipping emails carry a
+ * carrier tracking number; the delivery is tracked under that carrier.
+ */
+export const shippingNoticeParser: OrderEmailParser = {
+  id: 'shipping',
+
+  matches(email) {
+    return findTrackingNumber(email.text) !== null;
+  },
+
+  parse(email: ParsedEmail): EmailOrder | null {
+    const shipment = findTrackingNumber(email.text);
+    if (!shipment) return null;
+
+    const subject = email.subject.toLowerCase();
+    const estimate = findDeliveryEstimate(
+      findLabeledValue(
+        email.text,
+        /estimated (?:delivery|arrival)(?: date)?|expected (?:delivery|by|on)|arrives?(?: by| on)?|delivery date/
+      ) ?? '',
+      email.date ?? new Date()
+    );
+
+    const delivered = /\bdelivered\b/.test(subject);
+
+    return {
+      platform: shipment.carrier,
+      retailer:
+        getSenderName(email) || getSenderDomain(email) || PLATFORM_CONFIGS[shipment.carrier].name,
+      orderId: findOrderNumber(email.text) ?? shipment.trackingNumber,
+      kind: delivered ? 'delivery_notice' : 'shipping_notice',
+      status: delivered ? 'delivered' : 'out_for_delivery',
+      trackingNumber: shipment.trackingNumber,
+      carrier: shipment.carrier,
+      items: [],
+      estimatedArrival: estimate?.estimatedArrival,
+      window: estimate?.window,
+      address: findLabeledValue(email.text, /ship(?:ping)? to|delivery address/),
+    };
+  },
+};
@@ -0,0 +1,82 @@
+import type { ParsedEmail } from '../parse';
+import type { EmailOrder, OrderEmailParser } from './types';
+import {
+  findDeliveryEstimate,
+  findLabeledValue,
+  findOrderNumber,
+  getSectionLines,
+  isSentFrom,
+  parseItemLines,
+  parseMoney,
+} from './utils';
+
+/**
+ * Onfleet tracking links carry the task's short ID, e.g. https://onf.lt/0a1b2c3d4e
+ */
+const ONFLEET_LINK_PATTERN = /https?:\/\/onf\.lt\/([0-9a-z]+)/i;
+
+/**
+ * Total Wine & More order emails
+ * Delivery emails link to the Onfleet tracking page; its short ID is what the
+ * Total Wine adapter keys deliveries by, so it is preferred over the order
+ * number when present.
+ */
+export const totalwineParser: OrderEmailParser = {
+  id: 'totalwine',
+
+  matches(email) {
+    return isSentFrom(email, ['totalwine.com']);
+  },
+
+  parse(email: ParsedEmail): EmailOrder | null {
+    const orderId = findOrderNumber(email.text);
+    if (!orderId) return null;
+
+    const reference = email.date ?? new Date();
+    const subject = email.subject.toLowerCase();
+    const onfleet = ONFLEET_LINK_PATTERN.exec(`${email.text}\n${email.html ?? ''}`);
+    const estimate = findDeliveryEstimate(
+      findLabeledValue(email.text, /delivery (?:date|window)|scheduled for|pickup (?:date|time)/) ??
+        '',
+      reference
+    );
+
+    const kind: EmailOrder['kind'] = /cancel/.test(subject)
+      ? 'cancellation'
+      : /delivered|picked up/.test(subject)
+        ? 'delivery_notice'
+        : /on (?:its|the) way|out for delivery/.test(subject)
+          ? 'shipping_notice'
+          : 'order_confirmation';
+
+    const isPickup = /pick(?:ed)? ?up/.test(subject) || /in-store pickup/i.test(email.text);
+    const status =
+      kind === 'cancellation'
+        ? 'cancelled'
+        : kind === 'delivery_notice'
+          ? 'delivered'
+          : kind === 'shipping_notice'
+            ? 'out_for_delivery'
+            : isPickup && /ready/.test(subject)
+              ? 'ready_for_pickup'
+              : 'preparing';
+
+    return {
+      platform: 'totalwine',
+      retailer: 'Total Wine & More',
+      retailerPlatform: 'totalwine',
+      orderId,
+      externalOrderId: onfleet?.[1],
+      kind,
+      status,
+      pickup: isPickup,
+      items: parseItemLines(getSectionLines(email.text, /^(?:order )?items/i, /^(sub)?total/i)),
+      totalAmount: parseMoney(findLabeledValue(email.text, /(?:order )?total/)),
+      estimatedArrival: estimate?.estimatedArrival,
+      window: estimate?.window,
+      address: findLabeledValue(email.text, /delivery address|delivering to|pickup store/),
+      instructions: 'ID verification required for alcohol delivery',
+      trackingUrl: onfleet?.[0],
+    };
+  },
+};
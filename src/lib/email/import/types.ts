@@ -0,0 +1,59 @@
+import type { DeliveryStatus, OrderItem } from '@/types/delivery';
+import type { CarrierPlatform, Platform } from '@/types/platform';
+import type { ParsedEmail } from '../parse';
+
+/**
+ * What an order email tells us about the order
+ */
+export type OrderEmailKind =
+  | 'order_confirmation'
+  | 'shipping_notice'
+  | 'delivery_notice'
+  | 'cancellation';
+
+/**
+ * An order extracted from a retailer email
+ */
+export interface EmailOrder {
+  /** Platform the delivery is tracked under (the carrier for shipped parcels) */
+  platform: Platform;
+  /** Retailer name as shown to the user, e.g. "Walmart" */
+  retailer: string;
+  /** The retailer's own platform, for retailers DropDeck has an adapter for */
+  retailerPlatform?: Platform;
+  /** Retailer's order number */
+  orderId: string;
+  /**
+   * ID the platform's adapter keys the delivery by, when it is not the order
+   * number (or, for carriers, the tracking number)
+   */
+  externalOrderId?: string;
+  kind: OrderEmailKind;
+  status: DeliveryStatus;
+  trackingNumber?: string;
+  carrier?: CarrierPlatform;
+  items: OrderItem[];
+  /** In cents */
+  totalAmount?: number;
+  estimatedArrival?: Date;
+  window?: { start: Date; end: Date };
+  /** Picked up at the store rather than delivered */
+  pickup?: boolean;
+  /** Delivery address (or pickup store) as printed in the email */
+  address?: string;
+  /** Pickup and delivery instructions */
+  instructions?: string;
+  trackingUrl?: string;
+}
+
+/**
+ * Parses one retailer's (or one kind of) order emails
+ */
+export interface OrderEmailParser {
+  /** Stable identifier, recorded with every import */
+  id: string;
+  /** Check whether an email looks like one this parser understands */
+  matches(email: ParsedEmail): boolean;
+  /** Extract the order, or null when the email carries no usable order */
+  parse(email: ParsedEmail): EmailOrder | null;
+}
@@ -0,0 +1,243 @@
+import { detectCarrier, normalizeTrackingNumber } from '@/lib/adapters/carriers/detect';
+import type { OrderItem } from '@/types/delivery';
+import type { CarrierPlatform } from '@/types/platform';
+import type { ParsedEmail } from '../parse';
+
+/**
+ * Month names as written in order emails
+ */
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Dates without a year further in the past than this belong to next year
+ */
+const YEAR_ROLLOVER_DAYS = 60;
+
+/**
+ * Get the sender's email domain, lower-cased
+ */
+export function getSenderDomain(email: Pick<ParsedEmail, 'from'>): string {
+  const match = /@([a-z0-9.-]+)/i.exec(email.from);
+  return match?.[1]?.toLowerCase() ?? '';
+}
+
+/**
+ * Check whether the sender is (a subdomain of) one of the given domains
+ */
+export function isSentFrom(email: Pick<ParsedEmail, 'from'>, domains: string[]): boolean {
+  const domain = getSenderDomain(email);
+  return domains.some((d) => domain === d || domain.endsWith(`.${d}`));
+}
+
+/**
+ * Get the sender's display name, e.g. "Acme Outfitters" from
+ * "Acme Outfitters <orders@acme.example>"
+ */
+export function getSenderName(email: Pick<ParsedEmail, 'from'>): string | undefined {
+  const name = email.from
+    .replace(/<[^>]*>/, '')
+    .replace(/^"|"$/g, '')
+    .trim();
+  return name && !name.includes('@') ? name : undefined;
+}
+
+/**
+ * Find the value following a label at the start of a line, e.g. "Order total: $12.34"
+ * Only the rest of the line is considered.
+ */
+export function findLabeledValue(text: string, label: RegExp): string | undefined {
+  const pattern = new RegExp(`^(?:${label.source})[ \\t]*[:#]?[ \\t]*([^\\n]+)`, 'im');
+  return pattern.exec(text)?.[1]?.trim() || undefined;
+}
+
+/**
+ * Find an order number, e.g. "Order #112-3344" or "Order number: 2000123-45678901"
+ */
+export function findOrderNumber(text: string): string | undefined {
+  const match = /\border\s*(?:number|no\.?|#|id)\s*[:#]?\s*#?\s*([A-Z0-9][A-Z0-9-]{3,})/i.exec(
+    text
+  );
+  return match?.[1];
+}
+
+/**
+ * Parse a money amount (e.g. "$1,234.56") to cents
+ */
+export function parseMoney(value: string | undefined): number | undefined {
+  const match = /\$?\s*(\d{1,3}(?:,\d{3})*|\d+)(?:\.(\d{2}))?/.exec(value ?? '');
+  if (!match?.[1]) return undefined;
+  return Number(match[1].replace(/,/g, '')) * 100 + Number(match[2] ?? 0);
+}
+
+/**
+ * Parse a time of day such as "2:00 PM", "2pm" or "14:30"
+ * @returns Hours and minutes, or null when the value is not a time
+ */
+function parseTimeOfDay(value: string): { hours: number; minutes: number } | null {
+  const match = /^(\d{1,2})(?::(\d{2}))?\s*([ap])?\.?m?\.?$/i.exec(value.trim());
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = match[3]?.toLowerCase();
+
+  if (meridiem === 'p' && hours < 12) hours += 12;
+  if (meridiem === 'a' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return null;
+
+  return { hours, minutes };
+}
+
+/**
+ * Find a calendar date in text, e.g. "Tue, Oct 21", "October 21, 2026" or "10/21/2026"
+ * Dates without a year are placed in the year that puts them closest after
+ * the reference date (the email's send date). Returns local midnight.
+ */
+export function findDate(text: string, reference: Date): Date | null {
+  let month: number | undefined;
+  let day: number | undefined;
+  let year: number | undefined;
+
+  const named =
+    /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+(\d{4}))?/i.exec(
+      text
+    );
+  const numeric = /\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\b/.exec(text);
+
+  if (named) {
+    month = MONTHS.indexOf(named[1]?.toLowerCase() ?? '');
+    day = Number(named[2]);
+    year = named[3] ? Number(named[3]) : undefined;
+  } else if (numeric) {
+    month = Number(numeric[1]) - 1;
+    day = Number(numeric[2]);
+    year = numeric[3]
+      ? Number(numeric[3].length === 2 ? `20${numeric[3]}` : numeric[3])
+      : undefined;
+  }
+
+  if (month === undefined || month < 0 || month > 11 || !day || day > 31) {
+    return null;
+  }
+
+  const date = new Date(year ?? reference.getFullYear(), month, day);
+  if (
+    year === undefined &&
+    reference.getTime() - date.getTime() > YEAR_ROLLOVER_DAYS * 24 * 60 * 60 * 1000
+  ) {
+    date.setFullYear(date.getFullYear() + 1);
+  }
+
+  return date;
+}
+
+/**
+ * Find a delivery date and optional time window in a line of text
+ * e.g. "Tue, Oct 21, 2:00pm-3:00pm" or "Arrives by Thursday, October 23"
+ * Without a time window the estimate is the end of the delivery day.
+ */
+export function findDeliveryEstimate(
+  text: string,
+  reference: Date
+): { estimatedArrival: Date; window?: { start: Date; end: Date } } | null {
+  const date = findDate(text, reference);
+  if (!date) return null;
+
+  const range =
+    /(\d{1,2}(?::\d{2})?\s*(?:[ap]\.?m\.?)?)\s*(?:-|–|to|and)\s*(\d{1,2}(?::\d{2})?\s*[ap]\.?m\.?)/i.exec(
+      text
+    );
+
+  if (range?.[1] && range[2]) {
+    const endTime = parseTimeOfDay(range[2]);
+    // "2-3pm": the start shares the end's meridiem
+    const startText = /[ap]\.?m/i.test(range[1])
+      ? range[1]
+      : `${range[1]}${range[2].replace(/^[\d:\s]+/, '')}`;
+    const startTime = parseTimeOfDay(startText);
+
+    if (startTime && endTime) {
+      const start = new Date(date);
+      start.setHours(startTime.hours, startTime.minutes);
+      const end = new Date(date);
+      end.setHours(endTime.hours, endTime.minutes);
+      return { estimatedArrival: end, window: { start, end } };
+    }
+  }
+
+  const estimatedArrival = new Date(date);
+  estimatedArrival.setHours(20, 0);
+  return { estimatedArrival };
+}
+
+/**
+ * Find the parcel tracking number in an email
+ * Labeled numbers ("Tracking number: ...") win; otherwise only formats with
+ * a check digit are accepted, since bare 10-15 digit numbers are as likely
+ * to be order or phone numbers.
+ */
+export function findTrackingNumber(
+  text: string
+): { trackingNumber: string; carrier: CarrierPlatform } | null {
+  const labeled =
+    /tracking\s*(?:number|no\.?|#|id)?\s*[:#]?\s*([A-Z0-9][A-Z0-9 -]{7,38}[A-Z0-9])/gi;
+  for (const match of text.matchAll(labeled)) {
+    const trackingNumber = normalizeTrackingNumber(match[1] ?? '');
+    const carrier = detectCarrier(trackingNumber);
+    if (carrier) return { trackingNumber, carrier };
+  }
+
+  const candidates = /\b(1Z[0-9A-Z]{16}|(?:420\d{5}(?:\d{4})?)?9[1-5]\d{20})\b/gi;
+  for (const match of text.matchAll(candidates)) {
+    const trackingNumber = normalizeTrackingNumber(match[1] ?? '');
+    const carrier = detectCarrier(trackingNumber);
+    if (carrier) return { trackingNumber, carrier };
+  }
+
+  return null;
+}
+
+/**
+ * Parse item lines such as "2 x Bananas $0.54" or "Bananas  Qty: 2  $0.54"
+ * The price on a line is the line total; unit prices are derived from it.
+ */
+export function parseItemLines(lines: string[]): OrderItem[] {
+  const items: OrderItem[] = [];
+
+  for (const line of lines) {
+    const leading = /^(\d+)\s*[x×]\s+(.+?)(?:\s+\$(\d[\d,]*\.\d{2}))?$/i.exec(line);
+    const trailing = /^(.+?)\s+(?:qty|quantity)\s*:?\s*(\d+)(?:\s+\$(\d[\d,]*\.\d{2}))?$/i.exec(
+      line
+    );
+
+    const quantity = Number(leading?.[1] ?? trailing?.[2]);
+    const name = (leading?.[2] ?? trailing?.[1])?.trim();
+    const total = parseMoney(leading?.[3] ?? trailing?.[3]);
+
+    if (!name || !quantity) continue;
+
+    items.push({
+      name,
+      quantity,
+      unitPrice: total !== undefined ? Math.round(total / quantity) : undefined,
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Get the non-empty lines between a heading and a terminator line (e.g. "Subtotal")
+ */
+export function getSectionLines(text: string, heading: RegExp, terminator: RegExp): string[] {
+  const lines = text.split('\n').map((line) => line.trim());
+  const start = lines.findIndex((line) => heading.test(line));
+  if (start === -1) return [];
+
+  const section: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (terminator.test(line)) break;
+    if (line) section.push(line);
+  }
+  return section;
+}
@@ -0,0 +1,74 @@
+import type { ParsedEmail } from '../parse';
+import type { EmailOrder, OrderEmailParser } from './types';
+import {
+  findDeliveryEstimate,
+  findLabeledValue,
+  findOrderNumber,
+  findTrackingNumber,
+  getSectionLines,
+  isSentFrom,
+  parseItemLines,
+  parseMoney,
+} from './utils';
+
+/**
+ * Walmart order emails
+ * Grocery delivery orders are tracked under Walmart itself; shipped orders
+ * are tracked under the carrier once a tracking number is in the email.
+ */
+export const walmartParser: OrderEmailParser = {
+  id: 'walmart',
+
+  matches(email) {
+    return isSentFrom(email, ['walmart.com']);
+  },
+
+  parse(email: ParsedEmail): EmailOrder | null {
+    const orderId = findOrderNumber(email.text);
+    if (!orderId) return null;
+
+    const reference = email.date ?? new Date();
+    const subject = email.subject.toLowerCase();
+    const shipment = findTrackingNumber(email.text);
+    const estimate = findDeliveryEstimate(
+      findLabeledValue(
+        email.text,
+        /delivery(?! address)(?: window)?|arrives(?: by)?|estimated arrival/
+      ) ?? '',
+      reference
+    );
+
+    const kind: EmailOrder['kind'] = /cancel/.test(subject)
+      ? 'cancellation'
+      : /delivered/.test(subject)
+        ? 'delivery_notice'
+        : shipment || /shipped|on (?:its|the) way|out for delivery/.test(subject)
+          ? 'shipping_notice'
+          : 'order_confirmation';
+
+    const status =
+      kind === 'cancellation'
+        ? 'cancelled'
+        : kind === 'delivery_notice'
+          ? 'delivered'
+          : kind === 'shipping_notice'
+            ? 'out_for_delivery'
+            : 'preparing';
+
+    return {
+      platform: shipment?.carrier ?? 'walmart',
+      retailer: 'Walmart',
+      retailerPlatform: 'walmart',
+      orderId,
+      kind,
+      status,
+      trackingNumber: shipment?.trackingNumber,
+      carrier: shipment?.carrier,
+      items: parseItemLines(getSectionLines(email.text, /^items/i, /^(sub)?total/i)),
+      totalAmount: parseMoney(findLabeledValue(email.text, /(?:order )?total/)),
+      estimatedArrival: estimate?.estimatedArrival,
+      window: estimate?.window,
+      address: findLabeledValue(email.text, /ship(?:ping)? to|delivery address|delivering to/),
+    };
+  },
+};
@@ -0,0 +1,21 @@
+/**
+ * Email - Main Export
+ */
+
+// MIME messages
+export { buildMimeMessage, createMessageId, encodeHeaderValue, getAddress } from './mime';
+export type { ParsedEmail } from './parse';
+// Inbound messages
+export { decodeHeaderValue, htmlToText, parseEmail } from './parse';
+export type { SmtpConfig } from './smtp';
+// SMTP delivery
+export { getSmtpConfig, SmtpTransport } from './smtp';
+export type {
+  EmailBlock,
+  EmailListItem,
+  EmailTemplate,
+  RenderedEmail,
+} from './template';
+// Templates
+export { escapeHtml, renderEmail, renderEmailHtml, renderEmailText } from './template';
+export type { MailMessage, MailSendResult, MailTransport } from './types';
@@ -0,0 +1,97 @@
+import { randomBytes } from 'node:crypto';
+import type { MailMessage } from './types';
+
+/**
+ * MIME message building (RFC 5322, RFC 2045-2047)
+ */
+
+/**
+ * Longest line allowed in an encoded body
+ */
+const LINE_LENGTH = 76;
+
+/**
+ * Extract the bare address from "Name <address>" or "address"
+ */
+export function getAddress(mailbox: string): string {
+  const match = /<([^>]+)>\s*$/.exec(mailbox);
+  return (match?.[1] ?? mailbox).trim();
+}
+
+/**
+ * Encode a header value as an RFC 2047 encoded-word when it is not plain ASCII
+ */
+export function encodeHeaderValue(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return value;
+  }
+  return `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Encode a mailbox, keeping the address readable and encoding only the display name
+ */
+function encodeMailbox(mailbox: string): string {
+  const match = /^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/.exec(mailbox);
+  if (!match?.[1]) {
+    return mailbox.trim();
+  }
+  return `${encodeHeaderValue(match[1])} <${match[2]}>`;
+}
+
+/**
+ * Base64-encode a body, wrapped to the MIME line length
+ */
+function encodeBody(content: string): string {
+  const encoded = Buffer.from(content, 'utf8').toString('base64');
+  return encoded.match(new RegExp(`.{1,${LINE_LENGTH}}`, 'g'))?.join('\r\n') ?? '';
+}
+
+/**
+ * Generate a Message-ID for a sender's domain
+ */
+export function createMessageId(from: string): string {
+  const domain = getAddress(from).split('@')[1] ?? 'localhost';
+  return `<${Date.now().toString(36)}.${randomBytes(8).toString('hex')}@${domain}>`;
+}
+
+/**
+ * Build a multipart/alternative message with plain text and HTML parts
+ * Lines end in CRLF, ready to be sent with SMTP DATA.
+ */
+export function buildMimeMessage(
+  message: MailMessage,
+  options: { messageId?: string; date?: Date } = {}
+): string {
+  const boundary = `dropdeck-${randomBytes(12).toString('hex')}`;
+  const messageId = options.messageId ?? createMessageId(message.from);
+
+  const headers: Record<string, string> = {
+    From: encodeMailbox(message.from),
+    To: encodeMailbox(message.to),
+    Subject: encodeHeaderValue(message.subject),
+    Date: (options.date ?? new Date()).toUTCString(),
+    'Message-ID': messageId,
+    'MIME-Version': '1.0',
+    ...message.headers,
+    'Content-Type': `multipart/alternative; boundary="${boundary}"`,
+  };
+
+  const part = (contentType: string, content: string) =>
+    [
+      `--${boundary}`,
+      `Content-Type: ${contentType}; charset=UTF-8`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(content),
+    ].join('\r\n');
+
+  return [
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+    '',
+    part('text/plain', message.text),
+    part('text/html', message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
@@ -0,0 +1,220 @@
+/**
+ * MIME message parsing (RFC 5322, RFC 2045-2047)
+ * Reads just enough of an inbound message to import it: the main headers
+ * and the plain text and HTML bodies. Attachments are skipped.
+ */
+
+/**
+ * A parsed inbound email
+ */
+export interface ParsedEmail {
+  messageId: string | null;
+  from: string;
+  to: string;
+  subject: string;
+  date: Date | null;
+  /** Plain text body (derived from the HTML body when there is no text part) */
+  text: string;
+  html: string | null;
+}
+
+/**
+ * A MIME entity: headers (lower-cased names) and the raw body
+ */
+interface MimeEntity {
+  headers: Map<string, string>;
+  body: string;
+}
+
+/**
+ * Split an entity into unfolded headers and body
+ */
+function parseEntity(raw: string): MimeEntity {
+  const normalized = raw.replace(/\r\n/g, '\n');
+  const separator = normalized.indexOf('\n\n');
+  const head = separator === -1 ? normalized : normalized.slice(0, separator);
+  const body = separator === -1 ? '' : normalized.slice(separator + 2);
+
+  const headers = new Map<string, string>();
+  // Continuation lines start with whitespace (RFC 5322 folding)
+  for (const line of head.replace(/\n[ \t]+/g, ' ').split('\n')) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) {
+      headers.set(name, line.slice(colon + 1).trim());
+    }
+  }
+
+  return { headers, body };
+}
+
+/**
+ * Read a header parameter, e.g. boundary or charset from Content-Type
+ */
+function getParameter(header: string | undefined, name: string): string | undefined {
+  const match = new RegExp(`;\\s*${name}\\*?=\\s*(?:"([^"]*)"|([^;\\s]*))`, 'i').exec(header ?? '');
+  return match?.[1] ?? match?.[2];
+}
+
+/**
+ * Decode bytes in a charset, falling back to UTF-8 for unknown charsets
+ */
+function decodeCharset(bytes: Buffer, charset = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+/**
+ * Decode a quoted-printable string to bytes
+ */
+function decodeQuotedPrintable(value: string, isHeader = false): Buffer {
+  const input = (isHeader ? value.replace(/_/g, ' ') : value).replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+
+  for (let i = 0; i < input.length; i++) {
+    const hex = input.slice(i + 1, i + 3);
+    if (input[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(Number.parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...Buffer.from(input.charAt(i), 'utf8'));
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Decode RFC 2047 encoded-words in a header value
+ */
+export function decodeHeaderValue(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_match, charset: string, encoding, text) => {
+      const bytes =
+        encoding.toUpperCase() === 'B'
+          ? Buffer.from(text, 'base64')
+          : decodeQuotedPrintable(text, true);
+      return decodeCharset(bytes, charset);
+    });
+}
+
+/**
+ * Decode an entity body according to its transfer encoding and charset
+ */
+function decodeBody(entity: MimeEntity): string {
+  const encoding = entity.headers.get('content-transfer-encoding')?.toLowerCase();
+  const charset = getParameter(entity.headers.get('content-type'), 'charset');
+
+  if (encoding === 'base64') {
+    return decodeCharset(Buffer.from(entity.body.replace(/\s+/g, ''), 'base64'), charset);
+  }
+  if (encoding === 'quoted-printable') {
+    return decodeCharset(decodeQuotedPrintable(entity.body), charset);
+  }
+  return entity.body;
+}
+
+/**
+ * Collect the first text/plain and text/html bodies from an entity tree
+ */
+function collectBodies(entity: MimeEntity, bodies: { text?: string; html?: string }, depth = 0) {
+  const contentType = entity.headers.get('content-type') ?? 'text/plain';
+  const type = contentType.split(';')[0]?.trim().toLowerCase() ?? 'text/plain';
+  const disposition = entity.headers.get('content-disposition')?.toLowerCase() ?? '';
+
+  if (type.startsWith('multipart/')) {
+    const boundary = getParameter(contentType, 'boundary');
+    if (!boundary || depth > 10) return;
+
+    const parts = entity.body.split(`--${boundary}`).slice(1);
+    for (const part of parts) {
+      // The closing delimiter is followed by "--"
+      if (part.startsWith('--')) break;
+      collectBodies(parseEntity(part.replace(/^[ \t]*\n/, '')), bodies, depth + 1);
+    }
+    return;
+  }
+
+  if (disposition.startsWith('attachment')) return;
+
+  if (type === 'message/rfc822') {
+    collectBodies(parseEntity(entity.body), bodies, depth + 1);
+  } else if (type === 'text/plain' && bodies.text === undefined) {
+    bodies.text = decodeBody(entity);
+  } else if (type === 'text/html' && bodies.html === undefined) {
+    bodies.html = decodeBody(entity);
+  }
+}
+
+/**
+ * Decode the HTML entities retailers use in order emails
+ */
+function decodeHtmlEntities(value: string): string {
+  const named: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' ',
+    ndash: '-',
+    mdash: '-',
+  };
+
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#x') || entity.startsWith('#X')) {
+      return String.fromCodePoint(Number.parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(Number.parseInt(entity.slice(1), 10));
+    }
+    return named[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Convert an HTML body to plain text, keeping one line per block element
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(script|style|head)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|tr|li|h[1-6]|table)>/gi, '\n')
+    .replace(/<\/t[dh]>/gi, '\t')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeHtmlEntities(text)
+    .split('\n')
+    .map((line) => line.replace(/[ \t ]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Parse a raw RFC 822 message
+ */
+export function parseEmail(raw: string | Buffer): ParsedEmail {
+  const source = typeof raw === 'string' ? raw : raw.toString('latin1');
+  const message = parseEntity(source);
+  const bodies: { text?: string; html?: string } = {};
+  collectBodies(message, bodies);
+
+  const header = (name: string) => decodeHeaderValue(message.headers.get(name) ?? '');
+  const date = message.headers.get('date');
+  const parsedDate = date ? new Date(date) : null;
+
+  return {
+    messageId: message.headers.get('message-id')?.replace(/^<|>$/g, '') || null,
+    from: header('from'),
+    to: header('to'),
+    subject: header('subject'),
+    date: parsedDate && !Number.isNaN(parsedDate.getTime()) ? parsedDate : null,
+    text: bodies.text ?? (bodies.html ? htmlToText(bodies.html) : ''),
+    html: bodies.html ?? null,
+  };
+}
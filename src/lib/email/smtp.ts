@@ -0,0 +1,349 @@
+import { connect as netConnect, type Socket } from 'node:net';
+import { hostname } from 'node:os';
+import { type ConnectionOptions, connect as tlsConnect, type TLSSocket } from 'node:tls';
+import { buildMimeMessage, createMessageId, getAddress } from './mime';
+import type { MailMessage, MailSendResult, MailTransport } from './types';
+
+/**
+ * Minimal SMTP client (RFC 5321) with STARTTLS (RFC 3207) and AUTH PLAIN/LOGIN (RFC 4954)
+ */
+
+/**
+ * Give up on an SMTP conversation after this long without a reply (ms)
+ */
+const DEFAULT_TIMEOUT = 30_000;
+
+/**
+ * SMTP server settings
+ */
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Connect with TLS from the start (port 465) */
+  secure?: boolean;
+  /** Refuse to send unless the connection is encrypted (TLS or STARTTLS) */
+  requireTls?: boolean;
+  auth?: {
+    user: string;
+    pass: string;
+  };
+  /** Send credentials over an unencrypted connection (only for a trusted local relay) */
+  allowInsecureAuth?: boolean;
+  /** Name announced in EHLO (defaults to this machine's hostname) */
+  clientName?: string;
+  timeoutMs?: number;
+  /** Extra TLS options, e.g. a custom CA for self-hosted servers */
+  tls?: { rejectUnauthorized?: boolean; ca?: string };
+}
+
+/**
+ * SMTP reply
+ */
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Error carrying the SMTP reply code that caused it
+ */
+class SmtpError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: number
+  ) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+/**
+ * Escape lines starting with "." so they are not read as the end of DATA
+ */
+function dotStuff(data: string): string {
+  return data.replace(/(^|\r\n)\./g, '$1..');
+}
+
+/**
+ * One SMTP conversation over a socket
+ */
+class SmtpConnection {
+  private socket: Socket | TLSSocket;
+  private buffer = '';
+  private lines: string[] = [];
+  /** Replies that arrived before anyone was waiting for them */
+  private replies: SmtpReply[] = [];
+  private waiting: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> =
+    [];
+  private failure: Error | null = null;
+
+  constructor(
+    socket: Socket | TLSSocket,
+    private readonly timeoutMs: number
+  ) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  /**
+   * Start reading replies from a socket
+   */
+  private attach(socket: Socket | TLSSocket): void {
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.timeoutMs);
+    socket.on('data', (chunk: string) => this.onData(chunk));
+    socket.on('timeout', () => this.fail(new SmtpError('SMTP server timed out')));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new SmtpError('SMTP connection closed')));
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+
+    let index = this.buffer.indexOf('\r\n');
+    while (index !== -1) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line);
+
+      // The last line of a reply has a space (or nothing) after the code
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply: SmtpReply = {
+          code: Number(line.slice(0, 3)),
+          lines: this.lines.map((l) => l.slice(4)),
+        };
+        this.lines = [];
+
+        const waiter = this.waiting.shift();
+        if (waiter) {
+          waiter.resolve(reply);
+        } else {
+          this.replies.push(reply);
+        }
+      }
+
+      index = this.buffer.indexOf('\r\n');
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) return;
+    this.failure = error;
+    for (const waiter of this.waiting.splice(0)) {
+      waiter.reject(error);
+    }
+  }
+
+  /**
+   * Wait for the next reply
+   */
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) {
+      return Promise.resolve(queued);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting.push({ resolve, reject });
+    });
+  }
+
+  /**
+   * Send a command and check the reply code
+   */
+  async command(line: string, expected: number[], label = line.split(' ')[0]): Promise<SmtpReply> {
+    const reply = this.read();
+    this.socket.write(`${line}\r\n`);
+    return this.expect(await reply, expected, label ?? line);
+  }
+
+  /**
+   * Check a reply code
+   */
+  expect(reply: SmtpReply, expected: number[], label: string): SmtpReply {
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(`${label} rejected: ${reply.code} ${reply.lines.join(' ')}`, reply.code);
+    }
+    return reply;
+  }
+
+  /**
+   * Upgrade the connection to TLS after STARTTLS
+   */
+  async upgrade(host: string, tls: SmtpConfig['tls']): Promise<void> {
+    this.socket.removeAllListeners();
+    const secured = await openTlsSocket({ socket: this.socket, servername: host, ...tls });
+    this.socket = secured;
+    this.attach(secured);
+  }
+
+  get encrypted(): boolean {
+    return 'encrypted' in this.socket && this.socket.encrypted === true;
+  }
+
+  close(): void {
+    this.socket.removeAllListeners();
+    this.socket.on('error', () => {});
+    this.socket.end();
+    this.socket.destroy();
+  }
+}
+
+/**
+ * Open a TLS socket, resolving once the handshake completes
+ */
+function openTlsSocket(options: ConnectionOptions): Promise<TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const socket = tlsConnect(options, () => {
+      socket.off('error', reject);
+      resolve(socket);
+    });
+    socket.once('error', reject);
+  });
+}
+
+/**
+ * Open a plain TCP socket
+ */
+function openSocket(host: string, port: number): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = netConnect({ host, port }, () => {
+      socket.off('error', reject);
+      resolve(socket);
+    });
+    socket.once('error', reject);
+  });
+}
+
+/**
+ * Parse the extensions advertised in an EHLO reply
+ */
+function parseExtensions(reply: SmtpReply): Map<string, string> {
+  const extensions = new Map<string, string>();
+  // The first line is the server greeting
+  for (const line of reply.lines.slice(1)) {
+    const [keyword = '', ...params] = line.split(' ');
+    extensions.set(keyword.toUpperCase(), params.join(' ').toUpperCase());
+  }
+  return extensions;
+}
+
+/**
+ * SmtpTransport class
+ * Sends each message over a fresh SMTP connection.
+ */
+export class SmtpTransport implements MailTransport {
+  constructor(private readonly config: SmtpConfig) {}
+
+  async send(message: MailMessage): Promise<MailSendResult> {
+    const config = this.config;
+    const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT;
+    const messageId = createMessageId(message.from);
+    let connection: SmtpConnection | null = null;
+
+    try {
+      const socket = config.secure
+        ? await openTlsSocket({
+            host: config.host,
+            port: config.port,
+            servername: config.host,
+            ...config.tls,
+          })
+        : await openSocket(config.host, config.port);
+
+      connection = new SmtpConnection(socket, timeoutMs);
+      connection.expect(await connection.read(), [220], 'Greeting');
+
+      const clientName = config.clientName ?? hostname();
+      let extensions = parseExtensions(
+        await connection.command(`EHLO ${clientName}`, [250], 'EHLO')
+      );
+
+      if (!connection.encrypted && extensions.has('STARTTLS')) {
+        await connection.command('STARTTLS', [220]);
+        await connection.upgrade(config.host, config.tls);
+        extensions = parseExtensions(await connection.command(`EHLO ${clientName}`, [250], 'EHLO'));
+      }
+
+      if (config.requireTls && !connection.encrypted) {
+        throw new SmtpError('SMTP server does not support TLS');
+      }
+
+      if (config.auth && !connection.encrypted && !config.allowInsecureAuth) {
+        throw new SmtpError('SMTP server does not support TLS; refusing to send credentials');
+      }
+
+      if (config.auth) {
+        await this.authenticate(connection, extensions.get('AUTH') ?? '', config.auth);
+      }
+
+      await connection.command(`MAIL FROM:<${getAddress(message.from)}>`, [250], 'MAIL FROM');
+      await connection.command(`RCPT TO:<${getAddress(message.to)}>`, [250, 251], 'RCPT TO');
+      await connection.command('DATA', [354]);
+
+      // The message ends in CRLF, so a lone "." completes the end-of-data marker
+      const data = dotStuff(buildMimeMessage(message, { messageId }));
+      const reply = await connection.command(`${data}.`, [250], 'Message');
+
+      // Some servers drop the connection right after QUIT; the message is already accepted
+      await connection.command('QUIT', [221]).catch(() => undefined);
+
+      return { success: true, messageId, responseCode: reply.code };
+    } catch (error) {
+      return {
+        success: false,
+        responseCode: error instanceof SmtpError ? error.code : undefined,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    } finally {
+      connection?.close();
+    }
+  }
+
+  /**
+   * Log in with the strongest mechanism both sides support
+   */
+  private async authenticate(
+    connection: SmtpConnection,
+    mechanisms: string,
+    auth: NonNullable<SmtpConfig['auth']>
+  ): Promise<void> {
+    const supported = mechanisms.split(' ');
+
+    if (supported.includes('PLAIN') || !supported.includes('LOGIN')) {
+      const credentials = Buffer.from(`\0${auth.user}\0${auth.pass}`).toString('base64');
+      await connection.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH PLAIN');
+      return;
+    }
+
+    await connection.command('AUTH LOGIN', [334]);
+    await connection.command(Buffer.from(auth.user).toString('base64'), [334], 'AUTH LOGIN');
+    await connection.command(Buffer.from(auth.pass).toString('base64'), [235], 'AUTH LOGIN');
+  }
+}
+
+/**
+ * Read SMTP settings from the environment
+ * Returns null when SMTP_HOST is not set.
+ */
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    return null;
+  }
+
+  const secure = process.env.SMTP_SECURE === 'true';
+  const user = process.env.SMTP_USER;
+  const pass = process.env.SMTP_PASSWORD;
+
+  return {
+    host,
+    port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    requireTls: process.env.SMTP_REQUIRE_TLS === 'true',
+    allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+    ...(user && pass && { auth: { user, pass } }),
+  };
+}
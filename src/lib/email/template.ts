@@ -0,0 +1,174 @@
+/**
+ * Email templates
+ * A template is a list of blocks rendered to both HTML and plain text, so the
+ * two versions of an email always say the same thing.
+ */
+
+/**
+ * A row in a list block
+ */
+export interface EmailListItem {
+  title: string;
+  /** Secondary details shown after the title */
+  details?: string[];
+  /** Highlight the row (e.g. a late delivery) */
+  highlight?: boolean;
+}
+
+/**
+ * Content block
+ */
+export type EmailBlock =
+  | { type: 'heading'; text: string }
+  | { type: 'paragraph'; text: string; muted?: boolean }
+  | { type: 'list'; items: EmailListItem[] }
+  | { type: 'button'; text: string; url: string }
+  | { type: 'divider' };
+
+/**
+ * A complete email body
+ */
+export interface EmailTemplate {
+  /** Hidden preview text shown by mail clients next to the subject */
+  preheader?: string;
+  blocks: EmailBlock[];
+  footer?: string;
+}
+
+/**
+ * Rendered email bodies
+ */
+export interface RenderedEmail {
+  html: string;
+  text: string;
+}
+
+/**
+ * Brand colors (see globals.css)
+ */
+const COLORS = {
+  text: '#0F172A',
+  muted: '#64748B',
+  accent: '#06B6D4',
+  warning: '#F59E0B',
+  border: '#E2E8F0',
+  background: '#F8FAFC',
+};
+
+const FONT = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif";
+
+/**
+ * Escape text for HTML
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderBlockHtml(block: EmailBlock): string {
+  switch (block.type) {
+    case 'heading':
+      return `<h2 style="margin:24px 0 8px;font-size:16px;color:${COLORS.text};">${escapeHtml(block.text)}</h2>`;
+
+    case 'paragraph':
+      return `<p style="margin:0 0 12px;font-size:14px;line-height:20px;color:${block.muted ? COLORS.muted : COLORS.text};">${escapeHtml(block.text)}</p>`;
+
+    case 'list':
+      return `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border-collapse:collapse;">${block.items
+        .map(
+          (item) =>
+            `<tr><td style="padding:10px 0 10px 12px;border-bottom:1px solid ${COLORS.border};border-left:3px solid ${item.highlight ? COLORS.warning : COLORS.accent};">` +
+            `<div style="font-size:14px;font-weight:600;color:${COLORS.text};">${escapeHtml(item.title)}</div>` +
+            (item.details?.length
+              ? `<div style="font-size:13px;color:${COLORS.muted};">${item.details.map(escapeHtml).join(' &middot; ')}</div>`
+              : '') +
+            '</td></tr>'
+        )
+        .join('')}</table>`;
+
+    case 'button':
+      return `<p style="margin:24px 0;"><a href="${escapeHtml(block.url)}" style="display:inline-block;padding:10px 18px;border-radius:6px;background:${COLORS.accent};color:#FFFFFF;font-size:14px;font-weight:600;text-decoration:none;">${escapeHtml(block.text)}</a></p>`;
+
+    case 'divider':
+      return `<hr style="margin:24px 0;border:none;border-top:1px solid ${COLORS.border};">`;
+  }
+}
+
+function renderBlockText(block: EmailBlock): string {
+  switch (block.type) {
+    case 'heading':
+      return `${block.text}\n${'-'.repeat(block.text.length)}`;
+
+    case 'paragraph':
+      return block.text;
+
+    case 'list':
+      return block.items
+        .map((item) => {
+          const title = `${item.highlight ? '! ' : '- '}${item.title}`;
+          return item.details?.length ? `${title}\n  ${item.details.join(' · ')}` : title;
+        })
+        .join('\n');
+
+    case 'button':
+      return `${block.text}: ${block.url}`;
+
+    case 'divider':
+      return '---';
+  }
+}
+
+/**
+ * Render a template to HTML
+ * Inline styles and tables only, since most mail clients ignore stylesheets.
+ */
+export function renderEmailHtml(template: EmailTemplate): string {
+  const preheader = template.preheader
+    ? `<div style="display:none;max-height:0;overflow:hidden;">${escapeHtml(template.preheader)}</div>`
+    : '';
+  const footer = template.footer
+    ? `<p style="margin:24px 0 0;font-size:12px;color:${COLORS.muted};">${escapeHtml(template.footer)}</p>`
+    : '';
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"></head>',
+    `<body style="margin:0;padding:0;background:${COLORS.background};font-family:${FONT};">`,
+    preheader,
+    '<table role="presentation" width="100%" cellpadding="0" cellspacing="0"><tr><td align="center" style="padding:24px 12px;">',
+    '<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;background:#FFFFFF;border-radius:8px;"><tr><td style="padding:24px;">',
+    `<div style="font-size:18px;font-weight:700;color:${COLORS.text};">DropDeck</div>`,
+    ...template.blocks.map(renderBlockHtml),
+    footer,
+    '</td></tr></table>',
+    '</td></tr></table>',
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
+
+/**
+ * Render a template to plain text
+ */
+export function renderEmailText(template: EmailTemplate): string {
+  const sections = template.blocks.map(renderBlockText);
+  if (template.footer) {
+    sections.push('--', template.footer);
+  }
+  return `${sections.join('\n\n')}\n`;
+}
+
+/**
+ * Render a template to both HTML and plain text
+ */
+export function renderEmail(template: EmailTemplate): RenderedEmail {
+  return {
+    html: renderEmailHtml(template),
+    text: renderEmailText(template),
+  };
+}
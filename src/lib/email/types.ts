@@ -0,0 +1,31 @@
+/**
+ * An email to send
+ */
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  /** Extra headers (e.g. List-Unsubscribe) */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Result of handing a message to a transport
+ */
+export interface MailSendResult {
+  success: boolean;
+  messageId?: string;
+  /** Last SMTP reply code, when the server answered */
+  responseCode?: number;
+  error?: string;
+}
+
+/**
+ * Sends email
+ * Implementations never throw - failures are reported in the result.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<MailSendResult>;
+}
@@ -1,5 +1,7 @@
 import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+import { recordTokenDecrypt } from '@/lib/services/security-log';
 import type { EncryptedData } from '@/types/platform';
+import type { DecryptAuditContext } from '@/types/security';
 
 /**
  * Encryption constants
@@ -7,24 +9,72 @@ import type { EncryptedData } from '@/types/platform';
 const ALGORITHM = 'aes-256-gcm';
 const IV_LENGTH = 16;
 const AUTH_TAG_LENGTH = 16;
-const VERSION = 1;
 
 /**
- * Get the encryption key from environment
- * Key must be 32 bytes (64 hex characters)
+ * Encryption keys by version
+ * New data is encrypted with the active key; data written under an older key
+ * stays readable while that key is in the keyring.
  */
-function getEncryptionKey(): Buffer {
+export interface EncryptionKeyring {
+  activeVersion: number;
+  keys: Map<number, Buffer>;
+}
+
+/**
+ * Parse a 32-byte key given as 64 hex characters
+ */
+function parseKey(keyHex: string, name: string): Buffer {
+  if (!/^[a-fA-F0-9]{64}$/.test(keyHex)) {
+    throw new Error(`${name} must be 64 hex characters (32 bytes)`);
+  }
+
+  return Buffer.from(keyHex, 'hex');
+}
+
+/**
+ * Parse a key version
+ */
+function parseVersion(value: string, name: string): number {
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+
+  return version;
+}
+
+/**
+ * Load the keyring from environment
+ * TOKEN_ENCRYPTION_KEY is the active key and TOKEN_ENCRYPTION_KEY_VERSION its
+ * version (default 1). TOKEN_ENCRYPTION_KEYRING holds decrypt-only keys as
+ * comma-separated "version:hex" pairs - previous keys until their data has
+ * been re-encrypted, or the next key while it is rolled out.
+ */
+export function getKeyring(): EncryptionKeyring {
   const keyHex = process.env.TOKEN_ENCRYPTION_KEY;
 
   if (!keyHex) {
     throw new Error('TOKEN_ENCRYPTION_KEY environment variable is required');
   }
 
-  if (keyHex.length !== 64) {
-    throw new Error('TOKEN_ENCRYPTION_KEY must be 64 hex characters (32 bytes)');
+  const activeVersion = parseVersion(
+    process.env.TOKEN_ENCRYPTION_KEY_VERSION || '1',
+    'TOKEN_ENCRYPTION_KEY_VERSION'
+  );
+  const keys = new Map([[activeVersion, parseKey(keyHex, 'TOKEN_ENCRYPTION_KEY')]]);
+
+  for (const entry of (process.env.TOKEN_ENCRYPTION_KEYRING ?? '').split(',')) {
+    if (!entry.trim()) continue;
+
+    const [version, hex = ''] = entry.trim().split(':');
+    const keyVersion = parseVersion(version ?? '', 'TOKEN_ENCRYPTION_KEYRING versions');
+    if (keys.has(keyVersion)) {
+      throw new Error(`TOKEN_ENCRYPTION_KEYRING repeats key version ${keyVersion}`);
+    }
+    keys.set(keyVersion, parseKey(hex, `TOKEN_ENCRYPTION_KEYRING key ${keyVersion}`));
   }
 
-  return Buffer.from(keyHex, 'hex');
+  return { activeVersion, keys };
 }
 
 /**
@@ -32,7 +82,8 @@ function getEncryptionKey(): Buffer {
  * Uses AES-256-GCM for authenticated encryption
  */
 export function encryptToken(plaintext: string): EncryptedData {
-  const key = getEncryptionKey();
+  const { activeVersion, keys } = getKeyring();
+  const key = keys.get(activeVersion) as Buffer;
   const iv = randomBytes(IV_LENGTH);
 
   const cipher = createCipheriv(ALGORITHM, key, iv, {
@@ -48,23 +99,25 @@ export function encryptToken(plaintext: string): EncryptedData {
     iv: iv.toString('base64'),
     authTag: authTag.toString('base64'),
     algorithm: ALGORITHM,
-    version: VERSION,
+    version: activeVersion,
   };
 }
 
 /**
- * Decrypt an encrypted token
+ * Decrypt an encrypted token with the key it was encrypted under
+ * @param audit Whose credentials these are and why they are needed; when given,
+ * the decrypt is written to that user's security log
  */
-export function decryptToken(encryptedData: EncryptedData): string {
-  if (encryptedData.version !== VERSION) {
-    throw new Error(`Unsupported encryption version: ${encryptedData.version}`);
-  }
-
+export function decryptToken(encryptedData: EncryptedData, audit?: DecryptAuditContext): string {
   if (encryptedData.algorithm !== ALGORITHM) {
     throw new Error(`Unsupported encryption algorithm: ${encryptedData.algorithm}`);
   }
 
-  const key = getEncryptionKey();
+  const key = getKeyring().keys.get(encryptedData.version);
+  if (!key) {
+    throw new Error(`No encryption key for version ${encryptedData.version}`);
+  }
+
   const iv = Buffer.from(encryptedData.iv, 'base64');
   const ciphertext = Buffer.from(encryptedData.ciphertext, 'base64');
   const authTag = Buffer.from(encryptedData.authTag, 'base64');
@@ -77,9 +130,27 @@ export function decryptToken(encryptedData: EncryptedData): string {
 
   const decrypted = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
 
+  if (audit) {
+    recordTokenDecrypt(audit);
+  }
+
   return decrypted.toString('utf8');
 }
 
+/**
+ * Check whether data was encrypted under an older key than the active one
+ */
+export function needsReencryption(encryptedData: EncryptedData): boolean {
+  return encryptedData.version !== getKeyring().activeVersion;
+}
+
+/**
+ * Re-encrypt data under the active key
+ */
+export function reencryptToken(encryptedData: EncryptedData): EncryptedData {
+  return encryptToken(decryptToken(encryptedData));
+}
+
 /**
  * Generate a new encryption key
  * Use this to generate a new key for TOKEN_ENCRYPTION_KEY
@@ -93,7 +164,7 @@ export function generateEncryptionKey(): string {
  */
 export function isEncryptionConfigured(): boolean {
   try {
-    getEncryptionKey();
+    getKeyring();
     return true;
   } catch {
     return false;
@@ -24,6 +24,11 @@ const serverSchema = z.object({
     .length(64)
     .regex(/^[a-fA-F0-9]+$/)
     .optional(),
+  TOKEN_ENCRYPTION_KEY_VERSION: z.coerce.number().int().positive().optional(),
+  TOKEN_ENCRYPTION_KEYRING: z
+    .string()
+    .regex(/^(\d+:[a-fA-F0-9]{64})(,\d+:[a-fA-F0-9]{64})*$/)
+    .optional(),
 
   // Redis / Upstash
   UPSTASH_REDIS_REST_URL: z.string().url().optional(),
@@ -31,6 +36,26 @@ const serverSchema = z.object({
 
   // Real-time / Ably
   ABLY_API_KEY: z.string().optional(),
+
+  // Web Push (VAPID)
+  VAPID_PRIVATE_KEY: z.string().optional(),
+  VAPID_SUBJECT: z
+    .string()
+    .regex(/^(mailto:|https:)/)
+    .optional(),
+
+  // Notification channels (ntfy/Gotify)
+  CHANNEL_ALLOWED_HOSTS: z.string().optional(),
+
+  // Email (SMTP)
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.coerce.number().int().positive().optional(),
+  SMTP_SECURE: z.enum(['true', 'false']).optional(),
+  SMTP_REQUIRE_TLS: z.enum(['true', 'false']).optional(),
+  SMTP_ALLOW_INSECURE_AUTH: z.enum(['true', 'false']).optional(),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+  EMAIL_FROM: z.string().optional(),
 });
 
 /**
@@ -40,6 +65,7 @@ const serverSchema = z.object({
 const clientSchema = z.object({
   NEXT_PUBLIC_APP_URL: z.string().url().optional(),
   NEXT_PUBLIC_ABLY_API_KEY: z.string().optional(),
+  NEXT_PUBLIC_VAPID_PUBLIC_KEY: z.string().optional(),
 });
 
 /**
@@ -40,6 +40,14 @@ const productionEnvSchema = z.object({
     .regex(/^[a-fA-F0-9]+$/, {
       message: 'TOKEN_ENCRYPTION_KEY must contain only hexadecimal characters',
     }),
+  TOKEN_ENCRYPTION_KEY_VERSION: z.coerce.number().int().positive().optional(),
+  // Decrypt-only keys as "version:hex" pairs, e.g. "1:<64 hex>,3:<64 hex>"
+  TOKEN_ENCRYPTION_KEYRING: z
+    .string()
+    .regex(/^(\d+:[a-fA-F0-9]{64})(,\d+:[a-fA-F0-9]{64})*$/, {
+      message: 'TOKEN_ENCRYPTION_KEYRING must be comma-separated version:key pairs',
+    })
+    .optional(),
 
   // Redis / Upstash - required for caching and rate limiting
   UPSTASH_REDIS_REST_URL: z.string().url({
@@ -88,6 +96,15 @@ const productionEnvSchema = z.object({
   AMAZON_SELLER_ID: z.string().optional(),
   AMAZON_CLIENT_ID: z.string().optional(),
   AMAZON_CLIENT_SECRET: z.string().optional(),
+
+  // Parcel carrier API keys (optional per carrier)
+  UPS_CLIENT_ID: z.string().optional(),
+  UPS_CLIENT_SECRET: z.string().optional(),
+  FEDEX_API_KEY: z.string().optional(),
+  FEDEX_SECRET_KEY: z.string().optional(),
+  USPS_CLIENT_ID: z.string().optional(),
+  USPS_CLIENT_SECRET: z.string().optional(),
+  DHL_API_KEY: z.string().optional(),
 });
 
 /**
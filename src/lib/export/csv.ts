@@ -0,0 +1,137 @@
+/**
+ * CSV export of deliveries (RFC 4180)
+ */
+
+import type { OrderItem, UnifiedDelivery } from '@/types/delivery';
+import { PLATFORM_CONFIGS } from '@/types/platform';
+
+/**
+ * A CSV cell before escaping
+ */
+type CsvValue = string | number | boolean | Date | null | undefined;
+
+/**
+ * Columns describing the delivery itself
+ */
+const DELIVERY_COLUMNS = [
+  'id',
+  'platform',
+  'external_order_id',
+  'label',
+  'status',
+  'ordered_at',
+  'estimated_arrival',
+  'delivered_at',
+  'cancelled_at',
+  'item_count',
+  'total',
+  'currency',
+  'carrier',
+  'tracking_number',
+  'address',
+  'tracking_url',
+] as const;
+
+/**
+ * Extra columns when exporting one row per order item
+ */
+const ITEM_COLUMNS = [
+  'item_name',
+  'item_quantity',
+  'item_unit_price',
+  'item_substituted',
+  'item_substituted_with',
+] as const;
+
+/**
+ * Format cents as a plain decimal amount, e.g. 1250 -> "12.50"
+ */
+function formatAmount(cents: number | undefined): string | undefined {
+  return cents === undefined ? undefined : (cents / 100).toFixed(2);
+}
+
+/**
+ * Format a date as ISO 8601 (deliveries read back from JSON carry strings)
+ */
+function formatDate(value: Date | string | undefined): string | undefined {
+  return value === undefined ? undefined : new Date(value).toISOString();
+}
+
+/**
+ * Escape one CSV cell
+ * Text starting with a formula character is prefixed with a quote so
+ * spreadsheets show it rather than evaluate it.
+ */
+export function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value !== 'string') return String(value);
+
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Join cells into one CSV line, CRLF terminated
+ */
+export function toCsvLine(values: readonly CsvValue[]): string {
+  return `${values.map(escapeCsvValue).join(',')}\r\n`;
+}
+
+/**
+ * Header line for a CSV export
+ */
+export function getCsvHeader(perItem = false): string {
+  return toCsvLine(perItem ? [...DELIVERY_COLUMNS, ...ITEM_COLUMNS] : DELIVERY_COLUMNS);
+}
+
+/**
+ * Cells for the delivery columns
+ */
+function getDeliveryValues(delivery: UnifiedDelivery): CsvValue[] {
+  return [
+    delivery.id,
+    PLATFORM_CONFIGS[delivery.platform]?.name ?? delivery.platform,
+    delivery.externalOrderId,
+    delivery.label,
+    delivery.statusLabel,
+    formatDate(delivery.timestamps.ordered),
+    formatDate(delivery.eta.estimatedArrival),
+    formatDate(delivery.timestamps.delivered),
+    formatDate(delivery.timestamps.cancelled),
+    delivery.order.itemCount,
+    formatAmount(delivery.order.totalAmount),
+    delivery.order.currency,
+    delivery.carrier?.name,
+    delivery.carrier?.trackingNumber,
+    delivery.destination.address,
+    delivery.tracking.url,
+  ];
+}
+
+/**
+ * Cells for the item columns
+ */
+function getItemValues(item: OrderItem | undefined): CsvValue[] {
+  if (!item) return ITEM_COLUMNS.map(() => undefined);
+  return [
+    item.name,
+    item.quantity,
+    formatAmount(item.unitPrice),
+    item.substituted ?? false,
+    item.substitutedWith,
+  ];
+}
+
+/**
+ * CSV lines for one delivery
+ * With perItem, each order item gets its own line repeating the delivery
+ * columns; deliveries without item details still get one line.
+ */
+export function toCsvRows(delivery: UnifiedDelivery, perItem = false): string {
+  const values = getDeliveryValues(delivery);
+  if (!perItem) return toCsvLine(values);
+
+  const items = delivery.order.items?.length ? delivery.order.items : [undefined];
+  return items.map((item) => toCsvLine([...values, ...getItemValues(item)])).join('');
+}
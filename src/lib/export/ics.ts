@@ -0,0 +1,179 @@
+/**
+ * iCalendar (RFC 5545) export of upcoming deliveries
+ */
+
+import { calculateETA } from '@/lib/services/eta';
+import type { UnifiedDelivery } from '@/types/delivery';
+import type { EtaModel } from '@/types/eta';
+import { PLATFORM_CONFIGS } from '@/types/platform';
+
+/**
+ * Longest content line in octets, excluding the CRLF
+ */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Half the length of an event when the ETA is a single point in time
+ */
+const POINT_ETA_PADDING_MS = 15 * 60 * 1000;
+
+/**
+ * How often calendar apps should refresh a subscribed feed
+ */
+const REFRESH_INTERVAL = 'PT15M';
+
+/**
+ * Options for building an event
+ */
+export interface IcsEventOptions {
+  /** Learned ETA model used to widen uncertain ETAs into a range */
+  model?: EtaModel | null;
+  /** Time the calendar was generated (DTSTAMP) */
+  now?: Date;
+}
+
+/**
+ * UTF-8 length of a code point
+ */
+function octetLength(codePoint: number): number {
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  if (codePoint < 0x10000) return 3;
+  return 4;
+}
+
+/**
+ * Escape a TEXT property value
+ */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets, CRLF terminated
+ * Continuation lines start with a space, and multi-byte characters are never split.
+ */
+export function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = octetLength(char.codePointAt(0) ?? 0);
+    // The leading space of continuation lines counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return `${parts.join('\r\n ')}\r\n`;
+}
+
+/**
+ * Format a date as a UTC DATE-TIME, e.g. 20260314T183000Z
+ */
+export function formatIcsDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/**
+ * The span of time a delivery is expected to arrive in
+ * Uses the promised delivery window when there is one, then the ETA range
+ * (which the learned model widens for deliveries that often run late), and
+ * otherwise pads the single ETA on both sides.
+ */
+export function getDeliveryWindow(
+  delivery: UnifiedDelivery,
+  model?: EtaModel | null
+): { start: Date; end: Date } {
+  if (delivery.eta.window) {
+    return { start: new Date(delivery.eta.window.start), end: new Date(delivery.eta.window.end) };
+  }
+
+  const eta = calculateETA(delivery, model);
+  if (eta.range) {
+    return { start: eta.range.min, end: eta.range.max };
+  }
+
+  return {
+    start: new Date(eta.estimatedArrival.getTime() - POINT_ETA_PADDING_MS),
+    end: new Date(eta.estimatedArrival.getTime() + POINT_ETA_PADDING_MS),
+  };
+}
+
+/**
+ * Lines that open a calendar
+ */
+export function getIcsHeader(calendarName = 'DropDeck Deliveries'): string {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//DropDeck//Deliveries//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+  ]
+    .map(foldIcsLine)
+    .join('');
+}
+
+/**
+ * Line that closes a calendar
+ */
+export const ICS_FOOTER = 'END:VCALENDAR\r\n';
+
+/**
+ * A VEVENT spanning the delivery's ETA range
+ * The UID is derived from the platform order so calendar apps update the
+ * same event as the ETA moves.
+ */
+export function toIcsEvent(delivery: UnifiedDelivery, options: IcsEventOptions = {}): string {
+  const platformName = PLATFORM_CONFIGS[delivery.platform]?.name ?? delivery.platform;
+  const { start, end } = getDeliveryWindow(delivery, options.model);
+  const itemCount = delivery.order.itemCount;
+
+  const description = [
+    delivery.statusLabel,
+    `${itemCount} ${itemCount === 1 ? 'item' : 'items'}`,
+    delivery.carrier?.trackingNumber &&
+      `${delivery.carrier.name} tracking: ${delivery.carrier.trackingNumber}`,
+    delivery.destination.instructions && `Instructions: ${delivery.destination.instructions}`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${escapeIcsText(`${delivery.platform}-${delivery.externalOrderId}`)}@dropdeck`,
+    `DTSTAMP:${formatIcsDate(options.now ?? new Date())}`,
+    `DTSTART:${formatIcsDate(start)}`,
+    `DTEND:${formatIcsDate(end)}`,
+    `SUMMARY:${escapeIcsText(delivery.label ? `${delivery.label} (${platformName})` : `${platformName} delivery`)}`,
+    `DESCRIPTION:${escapeIcsText(description)}`,
+    `LOCATION:${escapeIcsText(delivery.destination.address)}`,
+    delivery.tracking.url && `URL:${delivery.tracking.url}`,
+    // Deliveries should not make the user look busy
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+
+  return lines
+    .filter((line): line is string => Boolean(line))
+    .map(foldIcsLine)
+    .join('');
+}
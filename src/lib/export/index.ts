@@ -0,0 +1,22 @@
+/**
+ * Delivery export - Main Export
+ */
+
+// CSV
+export { escapeCsvValue, getCsvHeader, toCsvLine, toCsvRows } from './csv';
+export type { IcsEventOptions } from './ics';
+// iCalendar
+export {
+  escapeIcsText,
+  foldIcsLine,
+  formatIcsDate,
+  getDeliveryWindow,
+  getIcsHeader,
+  ICS_FOOTER,
+  toIcsEvent,
+} from './ics';
+// NDJSON
+export { toNdjsonLine } from './ndjson';
+export type { ExportFormat, FormatExportOptions } from './stream';
+// Streaming
+export { EXPORT_FORMATS, formatExport, toReadableStream } from './stream';
@@ -0,0 +1,12 @@
+/**
+ * Newline-delimited JSON export of deliveries
+ */
+
+import type { UnifiedDelivery } from '@/types/delivery';
+
+/**
+ * One NDJSON line holding the full delivery
+ */
+export function toNdjsonLine(delivery: UnifiedDelivery): string {
+  return `${JSON.stringify(delivery)}\n`;
+}
@@ -0,0 +1,115 @@
+/**
+ * Streaming export of deliveries
+ * Deliveries are read and formatted one at a time, as the client reads the
+ * response, so a long history never has to fit in memory.
+ */
+
+import type { UnifiedDelivery } from '@/types/delivery';
+import type { EtaModel } from '@/types/eta';
+import { getCsvHeader, toCsvRows } from './csv';
+import { getDeliveryWindow, getIcsHeader, ICS_FOOTER, toIcsEvent } from './ics';
+import { toNdjsonLine } from './ndjson';
+
+/**
+ * How long after its window a delivery stays on the calendar
+ * Late deliveries keep their event; ones stuck in progress for days drop off.
+ */
+const CALENDAR_GRACE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Supported export formats
+ */
+export type ExportFormat = 'csv' | 'ndjson' | 'ics';
+
+/**
+ * Response metadata for each export format
+ */
+export const EXPORT_FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  ndjson: { contentType: 'application/x-ndjson; charset=utf-8', extension: 'ndjson' },
+  ics: { contentType: 'text/calendar; charset=utf-8', extension: 'ics' },
+};
+
+/**
+ * Options for formatting an export
+ */
+export interface FormatExportOptions {
+  /** CSV: one row per order item instead of per delivery */
+  perItem?: boolean;
+  /** ICS: learned ETA model for event ranges */
+  model?: EtaModel | null;
+  /** ICS: time the calendar was generated; events long past it are left out */
+  now?: Date;
+  /** ICS: calendar name shown by calendar apps */
+  calendarName?: string;
+}
+
+/**
+ * Format deliveries as chunks of an export file
+ */
+export async function* formatExport(
+  deliveries: AsyncIterable<UnifiedDelivery>,
+  format: ExportFormat,
+  options: FormatExportOptions = {}
+): AsyncGenerator<string> {
+  switch (format) {
+    case 'csv':
+      yield getCsvHeader(options.perItem);
+      for await (const delivery of deliveries) {
+        yield toCsvRows(delivery, options.perItem);
+      }
+      return;
+
+    case 'ndjson':
+      for await (const delivery of deliveries) {
+        yield toNdjsonLine(delivery);
+      }
+      return;
+
+    case 'ics': {
+      const now = options.now ?? new Date();
+      yield getIcsHeader(options.calendarName);
+      for await (const delivery of deliveries) {
+        const { end } = getDeliveryWindow(delivery, options.model);
+        if (end.getTime() + CALENDAR_GRACE_MS < now.getTime()) {
+          continue;
+        }
+        yield toIcsEvent(delivery, { model: options.model, now });
+      }
+      yield ICS_FOOTER;
+      return;
+    }
+  }
+}
+
+/**
+ * Turn chunks into a byte stream for a Response body
+ * Chunks are pulled only when the consumer is ready for more, and cancelling
+ * the stream (e.g. the client disconnecting) stops the source.
+ */
+export function toReadableStream(chunks: AsyncIterable<string>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = chunks[Symbol.asyncIterator]();
+
+  return new ReadableStream<Uint8Array>(
+    {
+      async pull(controller) {
+        try {
+          const { value, done } = await iterator.next();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(encoder.encode(value));
+          }
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await iterator.return?.();
+      },
+    },
+    // Read nothing ahead of the consumer
+    { highWaterMark: 0 }
+  );
+}
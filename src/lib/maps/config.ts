@@ -91,6 +91,10 @@ export const PLATFORM_MARKER_COLORS: Record<string, string> = {
   samsclub: '#0067A0',
   totalwine: '#6D2C41',
   drizly: '#6B46C1',
+  ups: '#6B4226',
+  fedex: '#4D148C',
+  usps: '#333366',
+  dhl: '#D40511',
 } as const;
 
 /**
@@ -99,6 +103,7 @@ export const PLATFORM_MARKER_COLORS: Record<string, string> = {
 export const STATUS_MARKER_COLORS: Record<string, string> = {
   preparing: '#64748B',
   ready_for_pickup: '#64748B',
+  checked_in: '#06B6D4',
   driver_assigned: '#06B6D4',
   driver_heading_to_store: '#06B6D4',
   driver_at_store: '#06B6D4',
@@ -0,0 +1,126 @@
+/**
+ * Network address helpers
+ * Used before the server makes requests to user-supplied URLs, so they cannot
+ * reach loopback, private or link-local services.
+ */
+
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+
+/**
+ * Resolve a hostname to its IP addresses
+ */
+export type HostLookup = (hostname: string) => Promise<string[]>;
+
+/**
+ * Resolve a hostname with the system resolver
+ */
+export const lookupHost: HostLookup = async (hostname) => {
+  const results = await lookup(hostname, { all: true, verbatim: true });
+  return results.map((result) => result.address);
+};
+
+/**
+ * Strip URL brackets and the trailing dot, and lowercase a hostname
+ */
+function normalizeHost(hostname: string): string {
+  return hostname
+    .replace(/^\[|\]$/g, '')
+    .replace(/\.$/, '')
+    .toLowerCase();
+}
+
+/**
+ * The IPv4 address inside an IPv4-mapped or -compatible IPv6 address
+ * Handles both the dotted (::ffff:127.0.0.1) and hex (::ffff:7f00:1) forms.
+ */
+function embeddedIPv4(host: string): string | null {
+  const match = host.match(/^(?:0{0,4}:){0,5}(?:ffff:)?((?:\d{1,3}\.){3}\d{1,3})$/);
+  if (match?.[1]) {
+    return match[1];
+  }
+
+  const hex = host.match(/^(?:0{0,4}:){0,5}(?:ffff:)?([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (hex?.[1] && hex[2] && host.includes('::')) {
+    const high = Number.parseInt(hex[1], 16);
+    const low = Number.parseInt(hex[2], 16);
+    return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+  }
+
+  return null;
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const [a = 0, b = 0] = address.split('.').map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    a >= 224 || // Multicast and reserved
+    (a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168)
+  );
+}
+
+function isPrivateIPv6(address: string): boolean {
+  return (
+    address === '::' ||
+    address === '::1' ||
+    /^f[cd][0-9a-f]{0,2}:/.test(address) || // Unique local
+    /^fe[89ab][0-9a-f]?:/.test(address) // Link-local
+  );
+}
+
+/**
+ * Check whether a hostname or IP address is loopback, private or link-local
+ * Only looks at the name itself; use findPrivateAddress to check where it resolves.
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = normalizeHost(hostname);
+
+  if (
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    host.endsWith('.local') ||
+    host.endsWith('.internal')
+  ) {
+    return true;
+  }
+
+  const mapped = isIP(host) === 6 ? embeddedIPv4(host) : null;
+  if (mapped) {
+    return isPrivateIPv4(mapped);
+  }
+
+  switch (isIP(host)) {
+    case 4:
+      return isPrivateIPv4(host);
+    case 6:
+      return isPrivateIPv6(host);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Resolve a hostname and return the first private address it points to
+ * Returns null when every address is public. Lookup errors are thrown.
+ */
+export async function findPrivateAddress(
+  hostname: string,
+  resolve: HostLookup = lookupHost
+): Promise<string | null> {
+  const host = normalizeHost(hostname);
+
+  if (isPrivateHost(host)) {
+    return host;
+  }
+  if (isIP(host)) {
+    return null;
+  }
+
+  const addresses = await resolve(host);
+  return addresses.find((address) => isPrivateHost(address)) ?? null;
+}
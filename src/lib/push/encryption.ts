@@ -0,0 +1,146 @@
+import { createCipheriv, createECDH, createHmac, randomBytes } from 'node:crypto';
+import { fromBase64Url } from './vapid';
+
+/**
+ * Web Push message encryption (RFC 8291, aes128gcm content coding from RFC 8188)
+ */
+
+/**
+ * Record size advertised in the aes128gcm header
+ */
+const RECORD_SIZE = 4096;
+
+/**
+ * AES-GCM authentication tag length
+ */
+const TAG_LENGTH = 16;
+
+/**
+ * Header size: salt (16) + record size (4) + key id length (1) + key id (65)
+ */
+const HEADER_LENGTH = 16 + 4 + 1 + 65;
+
+/**
+ * Largest plaintext that fits in a single record
+ * One byte is reserved for the padding delimiter.
+ */
+export const MAX_PAYLOAD_LENGTH = RECORD_SIZE - HEADER_LENGTH - TAG_LENGTH - 1;
+
+/**
+ * Browser-provided subscription keys (base64url encoded)
+ */
+export interface SubscriptionKeys {
+  /** User agent public key (uncompressed P-256 point) */
+  p256dh: string;
+  /** User agent authentication secret (16 bytes) */
+  auth: string;
+}
+
+/**
+ * Values that are normally random, fixed in tests
+ */
+export interface EncryptionOverrides {
+  salt?: Buffer;
+  /** Application server ECDH private key */
+  privateKey?: Buffer;
+}
+
+/**
+ * Encrypted push message
+ */
+export interface EncryptedPayload {
+  /** Request body (header followed by the single encrypted record) */
+  body: Buffer;
+  salt: Buffer;
+  /** Ephemeral application server public key */
+  serverPublicKey: Buffer;
+}
+
+/**
+ * HKDF-Extract
+ */
+function hkdfExtract(salt: Buffer, ikm: Buffer): Buffer {
+  return createHmac('sha256', salt).update(ikm).digest();
+}
+
+/**
+ * HKDF-Expand for outputs of at most one hash length
+ */
+function hkdfExpand(prk: Buffer, info: Buffer, length: number): Buffer {
+  return createHmac('sha256', prk)
+    .update(Buffer.concat([info, Buffer.from([0x01])]))
+    .digest()
+    .subarray(0, length);
+}
+
+/**
+ * Build an HKDF info string ("<label>" followed by a zero byte)
+ */
+function info(label: string, ...parts: Buffer[]): Buffer {
+  return Buffer.concat([Buffer.from(label, 'utf8'), Buffer.from([0x00]), ...parts]);
+}
+
+/**
+ * Encrypt a payload for a push subscription
+ */
+export function encryptPayload(
+  payload: string | Buffer,
+  keys: SubscriptionKeys,
+  overrides: EncryptionOverrides = {}
+): EncryptedPayload {
+  const plaintext = typeof payload === 'string' ? Buffer.from(payload, 'utf8') : payload;
+
+  if (plaintext.length > MAX_PAYLOAD_LENGTH) {
+    throw new Error(`Push payload is ${plaintext.length} bytes (max ${MAX_PAYLOAD_LENGTH})`);
+  }
+
+  const userAgentPublicKey = fromBase64Url(keys.p256dh);
+  const authSecret = fromBase64Url(keys.auth);
+
+  if (userAgentPublicKey.length !== 65 || userAgentPublicKey[0] !== 0x04) {
+    throw new Error('Subscription p256dh key must be an uncompressed P-256 point');
+  }
+
+  if (authSecret.length !== 16) {
+    throw new Error('Subscription auth secret must be 16 bytes');
+  }
+
+  // Ephemeral application server key pair and shared secret
+  const ecdh = createECDH('prime256v1');
+  if (overrides.privateKey) {
+    ecdh.setPrivateKey(overrides.privateKey);
+  } else {
+    ecdh.generateKeys();
+  }
+  const serverPublicKey = ecdh.getPublicKey();
+  const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+
+  // Combine the shared secret with the auth secret (RFC 8291 section 3.3)
+  const keyInfo = info('WebPush: info', userAgentPublicKey, serverPublicKey);
+  const ikm = hkdfExpand(hkdfExtract(authSecret, sharedSecret), keyInfo, 32);
+
+  // Derive the content encryption key and nonce (RFC 8188 section 2.2)
+  const salt = overrides.salt ?? randomBytes(16);
+  const prk = hkdfExtract(salt, ikm);
+  const contentKey = hkdfExpand(prk, info('Content-Encoding: aes128gcm'), 16);
+  const nonce = hkdfExpand(prk, info('Content-Encoding: nonce'), 12);
+
+  // Single record terminated by the last-record padding delimiter
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce, { authTagLength: TAG_LENGTH });
+  const record = Buffer.concat([
+    cipher.update(Buffer.concat([plaintext, Buffer.from([0x02])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(HEADER_LENGTH - serverPublicKey.length);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+
+  return {
+    body: Buffer.concat([header, serverPublicKey, record]),
+    salt,
+    serverPublicKey,
+  };
+}
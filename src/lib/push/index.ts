@@ -0,0 +1,27 @@
+/**
+ * Web Push - Main Export
+ */
+
+export type { EncryptedPayload, EncryptionOverrides, SubscriptionKeys } from './encryption';
+// Payload encryption (RFC 8291)
+export { encryptPayload, MAX_PAYLOAD_LENGTH } from './encryption';
+export type {
+  PushSendResult,
+  PushTarget,
+  PushUrgency,
+  SendPushOptions,
+  StoredPushTarget,
+} from './send';
+// Delivery (RFC 8030)
+export { isExpiredSubscriptionStatus, sendPushMessage, sendToSubscriptions } from './send';
+export type { VapidConfig, VapidKeys } from './vapid';
+// VAPID (RFC 8292)
+export {
+  createVapidAuthHeader,
+  createVapidToken,
+  fromBase64Url,
+  generateVapidKeys,
+  getVapidConfig,
+  toBase64Url,
+  validateVapidConfig,
+} from './vapid';
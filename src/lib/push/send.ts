@@ -0,0 +1,161 @@
+import { findPrivateAddress, type HostLookup } from '@/lib/network';
+import type { PushDeliveryStatus } from '@/types/notification';
+import { encryptPayload, type SubscriptionKeys } from './encryption';
+import { createVapidAuthHeader, type VapidConfig } from './vapid';
+
+/**
+ * Web Push request delivery (RFC 8030)
+ */
+
+/**
+ * How long the push service should hold an undelivered message (seconds)
+ */
+const DEFAULT_TTL = 24 * 60 * 60;
+
+/**
+ * Give up on a push service request after this long (ms)
+ */
+const DEFAULT_TIMEOUT = 10_000;
+
+/**
+ * Push subscription endpoint and keys
+ */
+export interface PushTarget {
+  endpoint: string;
+  keys: SubscriptionKeys;
+}
+
+/**
+ * Message urgency (RFC 8030 section 5.3)
+ */
+export type PushUrgency = 'very-low' | 'low' | 'normal' | 'high';
+
+/**
+ * Options for sending a push message
+ */
+export interface SendPushOptions {
+  vapid: VapidConfig;
+  /** Seconds the push service may hold the message */
+  ttl?: number;
+  urgency?: PushUrgency;
+  /** Replaces an undelivered message with the same topic */
+  topic?: string;
+  timeoutMs?: number;
+  /** Fetch implementation (defaults to global fetch) */
+  fetch?: typeof fetch;
+  /** DNS lookup used to check where the endpoint resolves (defaults to the system resolver) */
+  lookup?: HostLookup;
+}
+
+/**
+ * Result of a push service request
+ */
+export interface PushSendResult {
+  success: boolean;
+  statusCode?: number;
+  /** The subscription is gone and should be removed (404/410) */
+  expired: boolean;
+  error?: string;
+}
+
+/**
+ * Check if a push service response means the subscription no longer exists
+ */
+export function isExpiredSubscriptionStatus(statusCode: number): boolean {
+  return statusCode === 404 || statusCode === 410;
+}
+
+/**
+ * Encrypt and send a message to a push subscription
+ * Never throws - failures are reported in the result, with only the status
+ * code of a failed response.
+ */
+export async function sendPushMessage(
+  target: PushTarget,
+  payload: string,
+  options: SendPushOptions
+): Promise<PushSendResult> {
+  const doFetch = options.fetch ?? fetch;
+
+  try {
+    // Endpoints come from the browser, so check where they resolve before posting
+    if (await findPrivateAddress(new URL(target.endpoint).hostname, options.lookup)) {
+      return {
+        success: false,
+        expired: false,
+        error: 'Push endpoint resolves to a private network address',
+      };
+    }
+
+    const { body } = encryptPayload(payload, target.keys);
+
+    const headers: Record<string, string> = {
+      Authorization: createVapidAuthHeader(target.endpoint, options.vapid),
+      TTL: String(options.ttl ?? DEFAULT_TTL),
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream',
+      Urgency: options.urgency ?? 'normal',
+    };
+
+    if (options.topic) {
+      headers.Topic = options.topic;
+    }
+
+    const response = await doFetch(target.endpoint, {
+      method: 'POST',
+      headers,
+      body: new Uint8Array(body),
+      // A redirect would skip the address check above
+      redirect: 'manual',
+      signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT),
+    });
+
+    if (response.ok) {
+      return { success: true, statusCode: response.status, expired: false };
+    }
+
+    return {
+      success: false,
+      statusCode: response.status,
+      expired: isExpiredSubscriptionStatus(response.status),
+      error: `HTTP ${response.status}`,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      expired: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Push subscription row to deliver to
+ */
+export interface StoredPushTarget extends PushTarget {
+  id: string;
+}
+
+/**
+ * Send a message to every subscription in parallel
+ * Returns one delivery status per subscription, in the same order.
+ */
+export async function sendToSubscriptions(
+  subscriptions: StoredPushTarget[],
+  payload: string,
+  options: SendPushOptions
+): Promise<PushDeliveryStatus[]> {
+  return Promise.all(
+    subscriptions.map(async (subscription): Promise<PushDeliveryStatus> => {
+      const result = await sendPushMessage(subscription, payload, options);
+
+      return {
+        subscriptionId: subscription.id,
+        status: result.success ? 'sent' : result.expired ? 'expired' : 'failed',
+        statusCode: result.statusCode,
+        error: result.error,
+        attemptedAt: new Date().toISOString(),
+      };
+    })
+  );
+}
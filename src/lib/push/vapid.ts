@@ -0,0 +1,142 @@
+import { createECDH, createPrivateKey, sign } from 'node:crypto';
+
+/**
+ * VAPID (RFC 8292) key management and request signing
+ */
+
+/**
+ * Longest a VAPID token may be valid for (seconds)
+ */
+const MAX_TOKEN_TTL = 24 * 60 * 60;
+
+/**
+ * Default VAPID token lifetime (seconds)
+ */
+const DEFAULT_TOKEN_TTL = 12 * 60 * 60;
+
+/**
+ * VAPID key pair (base64url encoded)
+ */
+export interface VapidKeys {
+  /** Uncompressed P-256 public key (65 bytes) */
+  publicKey: string;
+  /** P-256 private key scalar (32 bytes) */
+  privateKey: string;
+}
+
+/**
+ * VAPID configuration used to sign push requests
+ */
+export interface VapidConfig extends VapidKeys {
+  /** Contact for the push service operator (mailto: or https: URL) */
+  subject: string;
+}
+
+/**
+ * Encode bytes as base64url without padding
+ */
+export function toBase64Url(data: Uint8Array | string): string {
+  return Buffer.from(data).toString('base64url');
+}
+
+/**
+ * Decode base64url (padding optional)
+ */
+export function fromBase64Url(data: string): Buffer {
+  return Buffer.from(data, 'base64url');
+}
+
+/**
+ * Generate a new VAPID key pair
+ */
+export function generateVapidKeys(): VapidKeys {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+
+  return {
+    publicKey: toBase64Url(ecdh.getPublicKey()),
+    privateKey: toBase64Url(ecdh.getPrivateKey().subarray(-32)),
+  };
+}
+
+/**
+ * Read the VAPID configuration from the environment
+ * Returns null if push is not configured (graceful degradation)
+ */
+export function getVapidConfig(): VapidConfig | null {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  const subject = process.env.VAPID_SUBJECT;
+
+  if (!publicKey || !privateKey || !subject) {
+    return null;
+  }
+
+  return { publicKey, privateKey, subject };
+}
+
+/**
+ * Check that a VAPID configuration holds a usable P-256 key pair
+ */
+export function validateVapidConfig(config: VapidConfig): void {
+  const publicKey = fromBase64Url(config.publicKey);
+  const privateKey = fromBase64Url(config.privateKey);
+
+  if (publicKey.length !== 65 || publicKey[0] !== 0x04) {
+    throw new Error('VAPID public key must be an uncompressed P-256 point (65 bytes)');
+  }
+
+  if (privateKey.length !== 32) {
+    throw new Error('VAPID private key must be 32 bytes');
+  }
+
+  if (!/^(mailto:|https:)/.test(config.subject)) {
+    throw new Error('VAPID subject must be a mailto: or https: URL');
+  }
+}
+
+/**
+ * Create the signed JWT for a push service origin
+ */
+export function createVapidToken(
+  audience: string,
+  config: VapidConfig,
+  ttlSeconds: number = DEFAULT_TOKEN_TTL,
+  now: Date = new Date()
+): string {
+  validateVapidConfig(config);
+
+  const publicKey = fromBase64Url(config.publicKey);
+  const key = createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: config.privateKey,
+      x: toBase64Url(publicKey.subarray(1, 33)),
+      y: toBase64Url(publicKey.subarray(33, 65)),
+    },
+    format: 'jwk',
+  });
+
+  const header = toBase64Url(JSON.stringify({ typ: 'JWT', alg: 'ES256' }));
+  const claims = toBase64Url(
+    JSON.stringify({
+      aud: audience,
+      exp: Math.floor(now.getTime() / 1000) + Math.min(ttlSeconds, MAX_TOKEN_TTL),
+      sub: config.subject,
+    })
+  );
+
+  const unsigned = `${header}.${claims}`;
+  const signature = sign('sha256', Buffer.from(unsigned), { key, dsaEncoding: 'ieee-p1363' });
+
+  return `${unsigned}.${toBase64Url(signature)}`;
+}
+
+/**
+ * Build the Authorization header for a push endpoint
+ */
+export function createVapidAuthHeader(endpoint: string, config: VapidConfig): string {
+  const audience = new URL(endpoint).origin;
+  return `vapid t=${createVapidToken(audience, config)}, k=${config.publicKey}`;
+}
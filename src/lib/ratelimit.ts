@@ -6,18 +6,149 @@ import { redis } from './realtime/redis';
  * Uses Upstash Ratelimit with sliding window algorithm
  */
 
+/**
+ * Identifiers the in-memory limiter tracks before forgetting idle ones
+ */
+const MAX_TRACKED_IDENTIFIERS = 10_000;
+
+/**
+ * Outcome of a rate limit check
+ * reset is when the oldest counted request leaves the window (ms since epoch).
+ */
+export interface RateLimitResult {
+  success: boolean;
+  limit: number;
+  remaining: number;
+  reset: number;
+}
+
+/**
+ * Anything that can rate limit an identifier
+ * Upstash Ratelimit and MemoryRateLimiter both fit.
+ */
+export interface RateLimiter {
+  limit(identifier: string): Promise<RateLimitResult>;
+}
+
+/**
+ * Options for a rate limiter
+ */
+export interface RateLimiterOptions {
+  /** Requests allowed per window */
+  requests: number;
+  windowSeconds: number;
+  /** Key prefix, so limiters sharing Redis do not count each other's requests */
+  prefix: string;
+}
+
+/**
+ * Options for an in-memory rate limiter
+ */
+export interface MemoryRateLimiterOptions {
+  requests: number;
+  windowSeconds: number;
+  /** Clock (defaults to Date.now) */
+  now?: () => number;
+}
+
+/**
+ * In-process sliding window rate limiter
+ * Stands in for Upstash when Redis is not configured, so self-hosted and test
+ * environments are still protected. Counts are per process.
+ */
+export class MemoryRateLimiter implements RateLimiter {
+  private readonly requests: number;
+  private readonly windowMs: number;
+  private readonly now: () => number;
+  private readonly hits = new Map<string, number[]>();
+
+  constructor(options: MemoryRateLimiterOptions) {
+    this.requests = options.requests;
+    this.windowMs = options.windowSeconds * 1000;
+    this.now = options.now ?? Date.now;
+  }
+
+  async limit(identifier: string): Promise<RateLimitResult> {
+    const now = this.now();
+    const windowStart = now - this.windowMs;
+    const hits = (this.hits.get(identifier) ?? []).filter((time) => time > windowStart);
+
+    const success = hits.length < this.requests;
+    if (success) hits.push(now);
+
+    // Re-inserted so the map stays ordered from least to most recently seen
+    this.hits.delete(identifier);
+    this.hits.set(identifier, hits);
+    if (this.hits.size > MAX_TRACKED_IDENTIFIERS) this.forgetIdle(windowStart);
+
+    return {
+      success,
+      limit: this.requests,
+      remaining: this.requests - hits.length,
+      reset: (hits[0] ?? now) + this.windowMs,
+    };
+  }
+
+  /**
+   * Drop identifiers with no requests left in the window
+   */
+  private forgetIdle(windowStart: number): void {
+    for (const [identifier, hits] of this.hits) {
+      const last = hits[hits.length - 1];
+      if (last !== undefined && last > windowStart) break;
+      this.hits.delete(identifier);
+    }
+  }
+}
+
+/**
+ * Create a sliding window rate limiter
+ * Backed by Redis when it is configured, and by process memory otherwise.
+ */
+export function createRateLimiter(options: RateLimiterOptions): RateLimiter {
+  if (!redis) {
+    return new MemoryRateLimiter(options);
+  }
+
+  return new Ratelimit({
+    redis,
+    limiter: Ratelimit.slidingWindow(options.requests, `${options.windowSeconds} s`),
+    prefix: `ratelimit:${options.prefix}`,
+    analytics: true,
+  });
+}
+
 /**
  * Default API rate limiter
- * 100 requests per minute per IP
+ * 100 requests per minute per user (or per IP when signed out), across all tRPC procedures
  */
-export const apiRateLimiter = redis
-  ? new Ratelimit({
-      redis,
-      limiter: Ratelimit.slidingWindow(100, '1 m'),
-      prefix: 'ratelimit:api',
-      analytics: true,
-    })
-  : null;
+export const apiRateLimiter = createRateLimiter({
+  requests: 100,
+  windowSeconds: 60,
+  prefix: 'api',
+});
+
+/**
+ * Tighter per-user budgets for tRPC procedures that call out to delivery platforms
+ * Keyed by procedure path; these count on top of the API budget.
+ */
+export const procedureRateLimiters: Record<string, RateLimiter> = {
+  'delivery.getActive': createRateLimiter({
+    requests: 30,
+    windowSeconds: 60,
+    prefix: 'trpc:delivery.getActive',
+  }),
+  'platform.refresh': createRateLimiter({
+    requests: 10,
+    windowSeconds: 60,
+    prefix: 'trpc:platform.refresh',
+  }),
+  'platform.testConnection': createRateLimiter({
+    requests: 10,
+    windowSeconds: 60,
+    prefix: 'trpc:platform.testConnection',
+  }),
+};
 
 /**
  * Platform-specific rate limiter factory
@@ -47,6 +178,58 @@ export const webhookRateLimiter = redis
     })
   : null;
 
+/**
+ * Inbound email rate limiter
+ * 60 messages per minute per inbox (for forwarded order emails)
+ */
+export const inboundEmailRateLimiter = redis
+  ? new Ratelimit({
+      redis,
+      limiter: Ratelimit.slidingWindow(60, '1 m'),
+      prefix: 'ratelimit:inbound-email',
+      analytics: true,
+    })
+  : null;
+
+/**
+ * Export rate limiter
+ * 10 downloads per minute per user (each streams the user's full history)
+ */
+export const exportRateLimiter = redis
+  ? new Ratelimit({
+      redis,
+      limiter: Ratelimit.slidingWindow(10, '1 m'),
+      prefix: 'ratelimit:export',
+      analytics: true,
+    })
+  : null;
+
+/**
+ * Calendar feed rate limiter
+ * 30 requests per minute per feed (calendar apps refresh subscriptions on their own schedule)
+ */
+export const calendarFeedRateLimiter = redis
+  ? new Ratelimit({
+      redis,
+      limiter: Ratelimit.slidingWindow(30, '1 m'),
+      prefix: 'ratelimit:calendar-feed',
+      analytics: true,
+    })
+  : null;
+
+/**
+ * Share link rate limiter
+ * 60 requests per minute per link (the tracking page refreshes while it is open)
+ */
+export const shareLinkRateLimiter = redis
+  ? new Ratelimit({
+      redis,
+      limiter: Ratelimit.slidingWindow(60, '1 m'),
+      prefix: 'ratelimit:share-link',
+      analytics: true,
+    })
+  : null;
+
 /**
  * Auth rate limiter
  * 10 attempts per minute per IP (for login/signup)
@@ -64,14 +247,9 @@ export const authRateLimiter = redis
  * Check rate limit and return result
  */
 export async function checkRateLimit(
-  limiter: Ratelimit | null,
+  limiter: RateLimiter | null,
   identifier: string
-): Promise<{
-  success: boolean;
-  limit: number;
-  remaining: number;
-  reset: number;
-}> {
+): Promise<RateLimitResult> {
   if (!limiter) {
     return {
       success: true,
@@ -90,18 +268,23 @@ export async function checkRateLimit(
   };
 }
 
+/**
+ * Seconds until a refused caller can try again
+ */
+export function getRetryAfterSeconds(result: Pick<RateLimitResult, 'reset'>): number {
+  return Math.max(0, Math.ceil((result.reset - Date.now()) / 1000));
+}
+
 /**
  * Rate limit headers for responses
  */
-export function getRateLimitHeaders(result: {
-  limit: number;
-  remaining: number;
-  reset: number;
-}): Record<string, string> {
+export function getRateLimitHeaders(
+  result: Omit<RateLimitResult, 'success'>
+): Record<string, string> {
   return {
     'X-RateLimit-Limit': result.limit.toString(),
     'X-RateLimit-Remaining': result.remaining.toString(),
     'X-RateLimit-Reset': result.reset.toString(),
-    'Retry-After': Math.max(0, Math.ceil((result.reset - Date.now()) / 1000)).toString(),
+    'Retry-After': getRetryAfterSeconds(result).toString(),
   };
 }
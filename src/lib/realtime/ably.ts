@@ -43,11 +43,13 @@ export function getServerAbly(): Ably.Rest | null {
 
 /**
  * Generate an Ably token for client-side authentication
- * Tokens are scoped to specific capabilities per user
+ * Tokens are scoped to specific capabilities per user, plus the shared
+ * delivery channel of the user's household
  */
 export async function generateAblyToken(
   userId: string,
-  capabilities: AblyCapabilities = {}
+  capabilities: AblyCapabilities = {},
+  householdId: string | null = null
 ): Promise<Ably.TokenRequest | null> {
   const ably = getServerAbly();
   if (!ably) {
@@ -59,6 +61,8 @@ export async function generateAblyToken(
     [`user:${userId}:*`]: ['subscribe', 'presence'],
     'delivery:*:location': ['subscribe'],
     'system:*': ['subscribe'],
+    // Members follow the household channel's redacted copies, never each other's user channels
+    ...(householdId && { [ablyChannels.householdDeliveries(householdId)]: ['subscribe'] }),
   };
 
   // Merge with custom capabilities (cast to proper type)
@@ -83,6 +87,38 @@ export async function generateAblyToken(
   }
 }
 
+/**
+ * Generate an Ably token for a public share link
+ * The token can only subscribe to the location channel of the shared
+ * delivery, and does not outlive the link.
+ */
+export async function generateShareAblyToken(
+  shareId: string,
+  deliveryId: string,
+  expiresAt: Date
+): Promise<Ably.TokenRequest | null> {
+  const ably = getServerAbly();
+  if (!ably) {
+    return null;
+  }
+
+  const ttl = Math.min(3600 * 1000, expiresAt.getTime() - Date.now());
+  if (ttl <= 0) {
+    return null;
+  }
+
+  try {
+    return await ably.auth.createTokenRequest({
+      clientId: `share:${shareId}`,
+      capability: { [ablyChannels.deliveryLocation(deliveryId)]: ['subscribe'] },
+      ttl,
+    });
+  } catch (error) {
+    console.error('Failed to generate share Ably token:', error);
+    return null;
+  }
+}
+
 /**
  * Ably channel capabilities
  */
@@ -103,6 +139,9 @@ export const ablyChannels = {
   /** User's notification updates */
   userNotifications: (userId: string) => `user:${userId}:notifications`,
 
+  /** Delivery updates of every member of a household, without raw platform data */
+  householdDeliveries: (householdId: string) => `household:${householdId}:deliveries`,
+
   /** Delivery location updates (high frequency) */
   deliveryLocation: (deliveryId: string) => `delivery:${deliveryId}:location`,
 
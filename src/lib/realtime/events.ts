@@ -19,6 +19,7 @@ export const deliveryUpdateSchema = z.object({
     statusLabel: z.string(),
     eta: z.number().optional(),
     previousStatus: z.string().optional(),
+    previousEta: z.number().optional(),
     isComplete: z.boolean().optional(),
   }),
 });
@@ -95,6 +96,7 @@ export const notificationEventSchema = z.object({
       'arriving_soon',
       'delivered',
       'delay_detected',
+      'eta_slipped',
       'platform_connected',
       'platform_disconnected',
     ]),
@@ -8,6 +8,7 @@ export type { AblyCapabilities } from './ably';
 export {
   ablyChannels,
   generateAblyToken,
+  generateShareAblyToken,
   getServerAbly,
   isAblyAvailable,
   publishConnectionStatus as ablyPublishConnectionStatus,
@@ -1,5 +1,7 @@
+import { EventEmitter } from 'node:events';
+import { getHouseholdPeers, shareDelivery, toDeliveryOwner } from '@/lib/services/households';
 import type { DriverLocation, UnifiedDelivery } from '@/types/delivery';
-import { ablyChannels, publishToChannel } from './ably';
+import { ablyChannels, getServerAbly, publishToChannel } from './ably';
 import { redis, channels as redisChannels } from './redis';
 
 /**
@@ -34,6 +36,9 @@ export interface DeliveryUpdatePayload {
   status: string;
   eta?: number;
   statusLabel: string;
+  previousStatus?: string;
+  previousEta?: number;
+  isComplete?: boolean;
   delivery?: UnifiedDelivery;
 }
 
@@ -64,6 +69,12 @@ export interface SystemStatusPayload {
   affectedPlatforms?: string[];
 }
 
+/**
+ * In-process message bus used in place of Redis pub/sub when it is not configured
+ */
+const localBus = new EventEmitter();
+localBus.setMaxListeners(0);
+
 /**
  * Create a message with timestamp
  */
@@ -90,8 +101,10 @@ async function publish<T>(
   let redisSuccess = false;
   let ablySuccess = false;
 
-  // Publish to Redis
-  if (redis) {
+  // Publish to Redis, or to in-process subscribers when Redis is absent
+  if (!redis) {
+    localBus.emit(redisChannel, message);
+  } else {
     try {
       await redis.publish(redisChannel, messageStr);
       redisSuccess = true;
@@ -108,6 +121,35 @@ async function publish<T>(
   return redisSuccess || ablySuccess;
 }
 
+/**
+ * Relay a delivery update to the user's household channel on Ably
+ * Members get a copy without the raw platform response; the owner's own
+ * channel is never shared with them.
+ */
+async function publishHouseholdDeliveryUpdate(
+  userId: string,
+  payload: DeliveryUpdatePayload
+): Promise<boolean> {
+  if (!payload.delivery || !getServerAbly()) {
+    return false;
+  }
+
+  try {
+    const self = (await getHouseholdPeers(userId)).find((peer) => peer.userId === userId);
+    if (!self) {
+      return false;
+    }
+
+    return publishToChannel(ablyChannels.householdDeliveries(self.householdId), 'delivery_update', {
+      ...payload,
+      delivery: shareDelivery(payload.delivery, toDeliveryOwner(self)),
+    });
+  } catch (error) {
+    console.error(`Failed to publish household delivery update for ${userId}:`, error);
+    return false;
+  }
+}
+
 /**
  * Publish a delivery update for a user
  */
@@ -115,12 +157,17 @@ export async function publishDeliveryUpdate(
   userId: string,
   payload: DeliveryUpdatePayload
 ): Promise<boolean> {
-  return publish(
-    redisChannels.userDeliveries(userId),
-    ablyChannels.userDeliveries(userId),
-    'delivery_update',
-    payload
-  );
+  const [sent] = await Promise.all([
+    publish(
+      redisChannels.userDeliveries(userId),
+      ablyChannels.userDeliveries(userId),
+      'delivery_update',
+      payload
+    ),
+    publishHouseholdDeliveryUpdate(userId, payload),
+  ]);
+
+  return sent;
 }
 
 /**
@@ -173,25 +220,122 @@ export async function publishSystemStatus(payload: SystemStatusPayload): Promise
 }
 
 /**
- * Subscribe to a Redis channel (server-side only)
- * Note: This is a basic implementation. In production, you would use
- * a dedicated subscriber connection.
+ * Subscribe to a channel (server-side only)
+ * Uses a Redis subscriber connection when Redis is configured, otherwise the
+ * in-process bus that receives everything published by this server.
  */
 export async function subscribeToChannel(
   channel: string,
-  _handler: (message: PubSubMessage) => void
+  handler: (message: PubSubMessage) => void
 ): Promise<() => void> {
-  // This is a placeholder for Redis subscription
-  // In production, you would use ioredis or a similar library
-  // that supports proper pub/sub with separate connections
-  console.log(`Subscribing to channel: ${channel}`);
+  if (!redis) {
+    localBus.on(channel, handler);
+    return () => {
+      localBus.off(channel, handler);
+    };
+  }
+
+  const subscriber = redis.subscribe<PubSubMessage | string>(channel);
+
+  subscriber.on('message', ({ message }) => {
+    try {
+      handler(typeof message === 'string' ? (JSON.parse(message) as PubSubMessage) : message);
+    } catch (error) {
+      console.error(`Invalid message on channel ${channel}:`, error);
+    }
+  });
+
+  subscriber.on('error', (error) => {
+    console.error(`Subscription error on channel ${channel}:`, error);
+  });
 
-  // Return unsubscribe function
   return () => {
-    console.log(`Unsubscribing from channel: ${channel}`);
+    void subscriber.unsubscribe().catch((error: unknown) => {
+      console.error(`Failed to unsubscribe from channel ${channel}:`, error);
+    });
   };
 }
 
+/**
+ * Turn the date strings of a delivery read back from JSON into Dates
+ */
+function reviveDelivery(delivery: UnifiedDelivery): UnifiedDelivery {
+  const { driver, eta, pickup, events, timestamps, meta } = delivery;
+  const reviveWindow = (window: { start: Date; end: Date }) => ({
+    start: new Date(window.start),
+    end: new Date(window.end),
+  });
+
+  return {
+    ...delivery,
+    statusUpdatedAt: new Date(delivery.statusUpdatedAt),
+    ...(driver?.location && {
+      driver: {
+        ...driver,
+        location: { ...driver.location, timestamp: new Date(driver.location.timestamp) },
+      },
+    }),
+    eta: {
+      ...eta,
+      estimatedArrival: new Date(eta.estimatedArrival),
+      ...(eta.window && { window: reviveWindow(eta.window) }),
+      ...(eta.revisions && {
+        revisions: eta.revisions.map((revision) => ({
+          estimatedArrival: new Date(revision.estimatedArrival),
+          observedAt: new Date(revision.observedAt),
+        })),
+      }),
+    },
+    ...(pickup?.window && { pickup: { ...pickup, window: reviveWindow(pickup.window) } }),
+    ...(events && {
+      events: events.map((event) => ({ ...event, timestamp: new Date(event.timestamp) })),
+    }),
+    timestamps: Object.fromEntries(
+      Object.entries(timestamps).map(([key, value]) => [key, value && new Date(value)])
+    ) as UnifiedDelivery['timestamps'],
+    meta: {
+      ...meta,
+      lastFetchedAt: new Date(meta.lastFetchedAt),
+      ...(meta.nextFetchAt && { nextFetchAt: new Date(meta.nextFetchAt) }),
+    },
+  };
+}
+
+/**
+ * Subscribe to delivery updates for a user
+ */
+export async function subscribeToDeliveryUpdates(
+  userId: string,
+  handler: (payload: DeliveryUpdatePayload) => void
+): Promise<() => void> {
+  return subscribeToChannel(redisChannels.userDeliveries(userId), (message) => {
+    if (message.type === 'delivery_update') {
+      const payload = message.payload as DeliveryUpdatePayload;
+      handler(
+        payload.delivery ? { ...payload, delivery: reviveDelivery(payload.delivery) } : payload
+      );
+    }
+  });
+}
+
+/**
+ * Subscribe to driver location updates for a delivery
+ */
+export async function subscribeToLocationUpdates(
+  deliveryId: string,
+  handler: (payload: LocationUpdatePayload) => void
+): Promise<() => void> {
+  return subscribeToChannel(redisChannels.deliveryLocation(deliveryId), (message) => {
+    const payload = message.payload as LocationUpdatePayload;
+    if (message.type === 'location_update' && payload.deliveryId === deliveryId) {
+      handler({
+        ...payload,
+        location: { ...payload.location, timestamp: new Date(payload.location.timestamp) },
+      });
+    }
+  });
+}
+
 /**
  * Batch publish multiple messages
  */
@@ -0,0 +1,254 @@
+import { randomInt } from 'node:crypto';
+import { count, desc, eq, gte, sql } from 'drizzle-orm';
+import { type Database, db } from '@/lib/db';
+import {
+  adminAuditLog,
+  inviteCodes,
+  inviteRedemptions,
+  platformConnections,
+  users,
+} from '@/lib/db/schema';
+import { logger } from '@/lib/monitoring/logger';
+import type { AdminAction, AdminTargetType, DailyCount, RedemptionStats } from '@/types/admin';
+import type { Platform } from '@/types/platform';
+
+/**
+ * Characters invite codes are made of
+ * I, O, 0 and 1 are left out so codes can be read aloud and typed from paper.
+ */
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/**
+ * Length of generated invite codes
+ */
+const INVITE_CODE_LENGTH = 8;
+
+/**
+ * Days shown in the invite redemption chart
+ */
+export const REDEMPTION_CHART_DAYS = 30;
+
+/**
+ * One day in milliseconds
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const log = logger.child({ service: 'admin' });
+
+/**
+ * An entry to write to the admin audit log
+ */
+export interface AdminActionEntry {
+  /** Admin who acted, or null for actions run from scripts */
+  actorId: string | null;
+  action: AdminAction;
+  targetType: AdminTargetType;
+  targetId?: string | null;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Settings for a batch of invite codes
+ */
+export interface CreateInviteCodesOptions {
+  count: number;
+  maxRedemptions: number;
+  expiresInDays?: number;
+  note?: string;
+}
+
+/**
+ * Health of one of a user's platform connections
+ * Tokens and session data are never included.
+ */
+export interface ConnectionHealth {
+  platform: Platform;
+  status: (typeof platformConnections.$inferSelect)['status'];
+  lastSyncAt: Date | null;
+  expiresAt: Date | null;
+  errorCount: number;
+  lastError: string | null;
+  updatedAt: Date;
+}
+
+/**
+ * Generate a random invite code
+ */
+export function generateInviteCode(length = INVITE_CODE_LENGTH): string {
+  let code = '';
+  for (let i = 0; i < length; i++) {
+    code += INVITE_CODE_ALPHABET.charAt(randomInt(INVITE_CODE_ALPHABET.length));
+  }
+  return code;
+}
+
+/**
+ * Midnight UTC of the first day of a series of `days` days ending on `now`
+ */
+function getSeriesStart(days: number, now: Date): number {
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()) - (days - 1) * DAY_MS;
+}
+
+/**
+ * Fill in the days a daily series has no rows for
+ * @returns One entry per day, oldest first, ending on the day of `now` (UTC)
+ */
+export function fillDailySeries(
+  rows: readonly DailyCount[],
+  days: number,
+  now: Date = new Date()
+): DailyCount[] {
+  const counts = new Map(rows.map((row) => [row.day, row.count]));
+  const start = getSeriesStart(days, now);
+
+  return Array.from({ length: days }, (_, index) => {
+    const day = new Date(start + index * DAY_MS).toISOString().slice(0, 10);
+    return { day, count: counts.get(day) ?? 0 };
+  });
+}
+
+/**
+ * Check if a user has the admin role
+ * Read from the database on every check, so removing the role takes effect
+ * without waiting for the user's session to expire.
+ */
+export async function isAdmin(userId: string, database: Database = db): Promise<boolean> {
+  const user = await database.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: { role: true },
+  });
+
+  return user?.role === 'admin';
+}
+
+/**
+ * Write an admin action to the audit log
+ */
+export async function recordAdminAction(
+  entry: AdminActionEntry,
+  database: Database = db
+): Promise<void> {
+  await database.insert(adminAuditLog).values({
+    actorId: entry.actorId,
+    action: entry.action,
+    targetType: entry.targetType,
+    targetId: entry.targetId ?? null,
+    details: entry.details ?? null,
+  });
+
+  log.info(`Admin action ${entry.action}`, {
+    actorId: entry.actorId,
+    targetType: entry.targetType,
+    targetId: entry.targetId,
+  });
+}
+
+/**
+ * Create a batch of invite codes and record it in the audit log
+ */
+export async function createInviteCodes(
+  actorId: string,
+  options: CreateInviteCodesOptions,
+  database: Database = db
+): Promise<{ codes: Array<{ id: string; code: string }>; expiresAt: Date | null }> {
+  const expiresAt = options.expiresInDays
+    ? new Date(Date.now() + options.expiresInDays * DAY_MS)
+    : null;
+
+  const codes = new Set<string>();
+  while (codes.size < options.count) {
+    codes.add(generateInviteCode());
+  }
+
+  const created = await database
+    .insert(inviteCodes)
+    .values(
+      [...codes].map((code) => ({
+        code,
+        createdBy: actorId,
+        maxRedemptions: options.maxRedemptions,
+        expiresAt,
+        note: options.note,
+      }))
+    )
+    .returning({ id: inviteCodes.id, code: inviteCodes.code });
+
+  await recordAdminAction(
+    {
+      actorId,
+      action: 'invite_codes.create',
+      targetType: 'invite_code',
+      details: {
+        ids: created.map((row) => row.id),
+        maxRedemptions: options.maxRedemptions,
+        expiresAt,
+        note: options.note ?? null,
+      },
+    },
+    database
+  );
+
+  return { codes: created, expiresAt };
+}
+
+/**
+ * Count invite redemptions per day over the last `days` days, and per code
+ */
+export async function getRedemptionStats(
+  database: Database,
+  days: number = REDEMPTION_CHART_DAYS,
+  now: Date = new Date()
+): Promise<RedemptionStats> {
+  const since = new Date(getSeriesStart(days, now));
+
+  const [daily, byCode] = await Promise.all([
+    database
+      .select({
+        day: sql<string>`to_char(${inviteRedemptions.redeemedAt}, 'YYYY-MM-DD')`,
+        count: count(),
+      })
+      .from(inviteRedemptions)
+      .where(gte(inviteRedemptions.redeemedAt, since))
+      .groupBy(sql`1`)
+      .orderBy(sql`1`),
+    database
+      .select({
+        code: inviteCodes.code,
+        note: inviteCodes.note,
+        redemptions: count(),
+      })
+      .from(inviteRedemptions)
+      .innerJoin(inviteCodes, eq(inviteCodes.id, inviteRedemptions.inviteCodeId))
+      .groupBy(inviteCodes.id)
+      .orderBy(desc(count()))
+      .limit(10),
+  ]);
+
+  return { daily: fillDailySeries(daily, days, now), byCode };
+}
+
+/**
+ * Health of a user's platform connections, for support lookups
+ */
+export async function getConnectionHealth(
+  database: Database,
+  userId: string
+): Promise<ConnectionHealth[]> {
+  const rows = await database.query.platformConnections.findMany({
+    where: eq(platformConnections.userId, userId),
+    columns: {
+      platform: true,
+      status: true,
+      lastSyncAt: true,
+      expiresAt: true,
+      metadata: true,
+      updatedAt: true,
+    },
+  });
+
+  return rows.map(({ metadata, ...row }) => ({
+    ...row,
+    errorCount: metadata?.errorCount ?? 0,
+    lastError: metadata?.lastError ?? null,
+  }));
+}
@@ -0,0 +1,438 @@
+import { eq, type SQL, sql } from 'drizzle-orm';
+import type { PlatformAdapter } from '@/lib/adapters/base';
+import { PlatformAuthError, PlatformRateLimitError } from '@/lib/adapters/errors';
+import { getAdapterAsync } from '@/lib/adapters/registry';
+import type { AdapterConnection } from '@/lib/adapters/types';
+import { type Database, db } from '@/lib/db';
+import { platformConnections } from '@/lib/db/schema';
+import { decryptToken, encryptToken } from '@/lib/encryption/tokens';
+import { logger } from '@/lib/monitoring/logger';
+import { publishConnectionStatus } from '@/lib/realtime/pubsub';
+import { recordSecurityEvent, type SecurityEventInput } from '@/lib/services/security-log';
+import {
+  type EncryptedData,
+  isCarrierPlatform,
+  type Platform,
+  type PlatformMetadata,
+} from '@/types/platform';
+
+/**
+ * Refresh tokens this long before they expire (seconds)
+ */
+const DEFAULT_REFRESH_WINDOW = 10 * 60;
+
+/**
+ * Consecutive auth failures before a connection is marked expired
+ */
+const DEFAULT_MAX_AUTH_FAILURES = 3;
+
+/**
+ * Consecutive failures of any kind before a connection is marked errored
+ */
+const DEFAULT_MAX_FAILURES = 10;
+
+const log = logger.child({ service: 'connections' });
+
+/**
+ * Connection health state
+ */
+export type ConnectionStatus = (typeof platformConnections.$inferSelect)['status'];
+
+/**
+ * A platform connection whose tokens and health are managed
+ */
+export interface ManagedConnection {
+  connectionId: string;
+  userId: string;
+  platform: Platform;
+  accessTokenEncrypted: EncryptedData | null;
+  refreshTokenEncrypted: EncryptedData | null;
+  /** Browser session linked alongside OAuth tokens (e.g. Costco.com) */
+  sessionDataEncrypted: EncryptedData | null;
+  expiresAt: Date | null;
+  status: ConnectionStatus;
+  metadata: PlatformMetadata | null;
+}
+
+/**
+ * Encrypted tokens returned by a refresh
+ */
+export interface RefreshedTokens {
+  accessTokenEncrypted: EncryptedData;
+  refreshTokenEncrypted: EncryptedData | null;
+  expiresAt: Date | null;
+}
+
+/**
+ * Persistence used by the connection manager
+ */
+export interface ConnectionStore {
+  /** Store refreshed tokens */
+  saveTokens(connectionId: string, tokens: RefreshedTokens): Promise<void>;
+  /** Store the connection status and error bookkeeping */
+  saveHealth(
+    connectionId: string,
+    health: { status: ConnectionStatus; metadata: PlatformMetadata }
+  ): Promise<void>;
+}
+
+/**
+ * Realtime publishing used by the connection manager
+ */
+export interface ConnectionPublisher {
+  publishConnectionStatus: typeof publishConnectionStatus;
+}
+
+/**
+ * Options for creating a connection manager
+ */
+export interface ConnectionManagerOptions {
+  /** Persistence layer (defaults to the database) */
+  store?: ConnectionStore;
+  /** Adapter lookup (defaults to the adapter registry) */
+  getAdapter?: (platform: Platform) => Promise<PlatformAdapter>;
+  /** Realtime publisher (defaults to Redis/Ably pub/sub) */
+  publisher?: ConnectionPublisher;
+  /** Security log writer (defaults to the users' security logs) */
+  recordSecurityEvent?: (event: SecurityEventInput) => Promise<void>;
+  /** Refresh tokens this many seconds before they expire */
+  refreshWindowSeconds?: number;
+  /** Consecutive auth failures before a connection is marked expired */
+  maxAuthFailures?: number;
+  /** Consecutive failures before a connection is marked errored */
+  maxFailures?: number;
+}
+
+/**
+ * Check if a connection's access token should be refreshed
+ */
+export function needsRefresh(
+  connection: Pick<ManagedConnection, 'expiresAt' | 'refreshTokenEncrypted'>,
+  windowSeconds: number = DEFAULT_REFRESH_WINDOW,
+  now: Date = new Date()
+): boolean {
+  if (!connection.refreshTokenEncrypted || !connection.expiresAt) {
+    return false;
+  }
+
+  return new Date(connection.expiresAt).getTime() - now.getTime() <= windowSeconds * 1000;
+}
+
+/**
+ * Get the status a connection moves to after a failure
+ * Auth failures expire the connection sooner than other errors.
+ */
+export function getFailureStatus(
+  current: ConnectionStatus,
+  error: unknown,
+  errorCount: number,
+  thresholds: { maxAuthFailures: number; maxFailures: number }
+): ConnectionStatus {
+  if (error instanceof PlatformAuthError && errorCount >= thresholds.maxAuthFailures) {
+    return 'expired';
+  }
+
+  if (errorCount >= thresholds.maxFailures) {
+    return 'error';
+  }
+
+  return current;
+}
+
+/**
+ * SQL that clears error bookkeeping from connection metadata
+ * Used when a user reconnects an account.
+ */
+export function clearConnectionErrors(): SQL<PlatformMetadata> {
+  return sql<PlatformMetadata>`coalesce(${platformConnections.metadata}, '{}'::jsonb) - 'errorCount' - 'lastError'`;
+}
+
+/**
+ * Convert a platform_connections row to a managed connection
+ */
+export function toManagedConnection(
+  row: typeof platformConnections.$inferSelect
+): ManagedConnection {
+  return {
+    connectionId: row.id,
+    userId: row.userId,
+    platform: row.platform,
+    accessTokenEncrypted: row.accessTokenEncrypted,
+    refreshTokenEncrypted: row.refreshTokenEncrypted,
+    sessionDataEncrypted: row.sessionDataEncrypted,
+    expiresAt: row.expiresAt,
+    status: row.status,
+    metadata: row.metadata,
+  };
+}
+
+/**
+ * Check if a connection has any credentials an adapter can use
+ * Carrier connections need none: carriers authenticate DropDeck with app-level keys.
+ */
+export function hasCredentials(
+  connection: Pick<ManagedConnection, 'platform' | 'accessTokenEncrypted' | 'sessionDataEncrypted'>
+): boolean {
+  if (isCarrierPlatform(connection.platform)) {
+    return true;
+  }
+  return !!(connection.accessTokenEncrypted || connection.sessionDataEncrypted);
+}
+
+/**
+ * Build the adapter connection context for a managed connection
+ * Connections that only have a linked session get an empty access token.
+ */
+export function toAdapterConnection(connection: ManagedConnection): AdapterConnection {
+  if (!hasCredentials(connection)) {
+    throw new PlatformAuthError(connection.platform, 'No access token stored for connection');
+  }
+
+  const audit = { userId: connection.userId, purpose: 'platform_access' } as const;
+
+  return {
+    accessToken: connection.accessTokenEncrypted
+      ? decryptToken(connection.accessTokenEncrypted, audit)
+      : '',
+    refreshToken: connection.refreshTokenEncrypted
+      ? decryptToken(connection.refreshTokenEncrypted, audit)
+      : undefined,
+    sessionData: connection.sessionDataEncrypted
+      ? decryptToken(connection.sessionDataEncrypted, audit)
+      : undefined,
+    userId: connection.userId,
+    platform: connection.platform,
+    metadata: connection.metadata ? { ...connection.metadata } : undefined,
+  };
+}
+
+/**
+ * Create the default database-backed connection store
+ */
+export function createDatabaseConnectionStore(database: Database = db): ConnectionStore {
+  return {
+    async saveTokens(connectionId, tokens) {
+      await database
+        .update(platformConnections)
+        .set(tokens)
+        .where(eq(platformConnections.id, connectionId));
+    },
+
+    async saveHealth(connectionId, health) {
+      await database
+        .update(platformConnections)
+        .set(health)
+        .where(eq(platformConnections.id, connectionId));
+    },
+  };
+}
+
+/**
+ * ConnectionManager class
+ * Refreshes OAuth tokens ahead of expiry and tracks connection health,
+ * moving connections to expired/error after repeated failures.
+ */
+export class ConnectionManager {
+  private readonly store: ConnectionStore;
+  private readonly getAdapter: (platform: Platform) => Promise<PlatformAdapter>;
+  private readonly publisher: ConnectionPublisher;
+  private readonly recordSecurityEvent: (event: SecurityEventInput) => Promise<void>;
+  private readonly refreshWindowSeconds: number;
+  private readonly thresholds: { maxAuthFailures: number; maxFailures: number };
+
+  constructor(options: ConnectionManagerOptions = {}) {
+    this.store = options.store ?? createDatabaseConnectionStore();
+    this.getAdapter = options.getAdapter ?? getAdapterAsync;
+    this.publisher = options.publisher ?? { publishConnectionStatus };
+    this.recordSecurityEvent = options.recordSecurityEvent ?? recordSecurityEvent;
+    this.refreshWindowSeconds = options.refreshWindowSeconds ?? DEFAULT_REFRESH_WINDOW;
+    this.thresholds = {
+      maxAuthFailures: options.maxAuthFailures ?? DEFAULT_MAX_AUTH_FAILURES,
+      maxFailures: options.maxFailures ?? DEFAULT_MAX_FAILURES,
+    };
+  }
+
+  /**
+   * Refresh a connection's token if it is about to expire (or when forced)
+   * Never throws - a failed refresh is recorded and the connection is
+   * returned with its updated status, so callers should check it is still
+   * connected before using it.
+   */
+  async ensureFresh<T extends ManagedConnection>(connection: T, force = false): Promise<T> {
+    if (!connection.refreshTokenEncrypted) {
+      return connection;
+    }
+
+    if (!force && !needsRefresh(connection, this.refreshWindowSeconds)) {
+      return connection;
+    }
+
+    const { connection: updated } = await this.attemptRefresh(connection);
+    return updated;
+  }
+
+  /**
+   * Exchange a connection's refresh token for new tokens
+   * A rejected refresh token expires the connection immediately.
+   */
+  async refresh<T extends ManagedConnection>(connection: T): Promise<T> {
+    const { connection: updated, error } = await this.attemptRefresh(connection);
+    if (error) {
+      throw error;
+    }
+    return updated;
+  }
+
+  /**
+   * Refresh tokens, recording the outcome instead of throwing
+   */
+  private async attemptRefresh<T extends ManagedConnection>(
+    connection: T
+  ): Promise<{ connection: T; error?: unknown }> {
+    if (!connection.refreshTokenEncrypted) {
+      return {
+        connection,
+        error: new PlatformAuthError(connection.platform, 'No refresh token stored for connection'),
+      };
+    }
+
+    let tokens: RefreshedTokens;
+
+    try {
+      const adapter = await this.getAdapter(connection.platform);
+      const result = await adapter.refreshToken(
+        decryptToken(connection.refreshTokenEncrypted, {
+          userId: connection.userId,
+          purpose: 'token_refresh',
+        })
+      );
+
+      tokens = {
+        accessTokenEncrypted: encryptToken(result.accessToken),
+        refreshTokenEncrypted: result.refreshToken
+          ? encryptToken(result.refreshToken)
+          : connection.refreshTokenEncrypted,
+        expiresAt: result.expiresAt ?? null,
+      };
+    } catch (error) {
+      const updated = await this.recordFailure(connection, error, {
+        expire: error instanceof PlatformAuthError,
+      });
+      log.warn(`Token refresh failed for ${connection.platform}`, {
+        userId: connection.userId,
+        connectionId: connection.connectionId,
+        status: updated.status,
+        error: updated.metadata?.lastError,
+      });
+      return { connection: updated, error };
+    }
+
+    await this.store.saveTokens(connection.connectionId, tokens);
+    await this.recordSecurityEvent({
+      userId: connection.userId,
+      event: 'token_refreshed',
+      details: { platform: connection.platform, expiresAt: tokens.expiresAt },
+    });
+    log.info(`Refreshed token for ${connection.platform}`, {
+      userId: connection.userId,
+      connectionId: connection.connectionId,
+      expiresAt: tokens.expiresAt,
+    });
+
+    return { connection: await this.recordSuccess({ ...connection, ...tokens }) };
+  }
+
+  /**
+   * Record a successful call, clearing any error state
+   */
+  async recordSuccess<T extends ManagedConnection>(connection: T): Promise<T> {
+    if (connection.status === 'connected' && !connection.metadata?.errorCount) {
+      return connection;
+    }
+
+    const metadata: PlatformMetadata = {
+      ...connection.metadata,
+      errorCount: 0,
+      lastError: undefined,
+    };
+
+    return this.transition(connection, 'connected', metadata);
+  }
+
+  /**
+   * Record a failed call and move the connection to expired/error if needed
+   * Rate limits are not a health problem and are ignored.
+   */
+  async recordFailure<T extends ManagedConnection>(
+    connection: T,
+    error: unknown,
+    options: { expire?: boolean } = {}
+  ): Promise<T> {
+    if (error instanceof PlatformRateLimitError) {
+      return connection;
+    }
+
+    const errorCount = (connection.metadata?.errorCount ?? 0) + 1;
+    const metadata: PlatformMetadata = {
+      ...connection.metadata,
+      errorCount,
+      lastError: error instanceof Error ? error.message : String(error),
+    };
+
+    const status = options.expire
+      ? 'expired'
+      : getFailureStatus(connection.status, error, errorCount, this.thresholds);
+
+    return this.transition(connection, status, metadata);
+  }
+
+  /**
+   * Persist a status change and notify the user's connection channel
+   */
+  private async transition<T extends ManagedConnection>(
+    connection: T,
+    status: ConnectionStatus,
+    metadata: PlatformMetadata
+  ): Promise<T> {
+    await this.store.saveHealth(connection.connectionId, { status, metadata });
+
+    if (status !== connection.status) {
+      log.info(`Connection ${connection.platform} is now ${status}`, {
+        userId: connection.userId,
+        connectionId: connection.connectionId,
+        previousStatus: connection.status,
+      });
+
+      await this.publisher.publishConnectionStatus(connection.userId, {
+        platform: connection.platform,
+        status,
+        message: getStatusMessage(connection.platform, status, metadata.lastError),
+      });
+    }
+
+    return { ...connection, status, metadata };
+  }
+}
+
+/**
+ * Build the message shown alongside a connection status change
+ */
+function getStatusMessage(
+  platform: Platform,
+  status: ConnectionStatus,
+  lastError?: string
+): string | undefined {
+  switch (status) {
+    case 'expired':
+      return `Your ${platform} session has expired. Reconnect to keep tracking deliveries.`;
+    case 'error':
+      return lastError
+        ? `Unable to reach ${platform}: ${lastError}`
+        : `Unable to reach ${platform}`;
+    default:
+      return undefined;
+  }
+}
+
+// Export singleton instance
+export const connectionManager = new ConnectionManager();
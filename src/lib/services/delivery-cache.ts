@@ -0,0 +1,149 @@
+import { and, eq, inArray } from 'drizzle-orm';
+import type { Database } from '@/lib/db';
+import { deliveryCache } from '@/lib/db/schema';
+import {
+  type DriverLocation,
+  isFinalStatus,
+  type TimelineEvent,
+  type UnifiedDelivery,
+} from '@/types/delivery';
+import { appendEtaRevision } from './eta-drift';
+import { appendTimelineEvent } from './lifecycle';
+
+/**
+ * Driver location as stored in the delivery_cache table
+ */
+export type CachedDriverLocation = NonNullable<typeof deliveryCache.$inferInsert.driverLocation>;
+
+/**
+ * Result of writing a delivery into the cache
+ */
+export interface CachedDeliveryChange {
+  /** Delivery that was written */
+  delivery: UnifiedDelivery;
+  /** Previously cached version of the same order (null if new) */
+  previous: UnifiedDelivery | null;
+  /** Status transitions observed for this order, including this one */
+  timeline: TimelineEvent[];
+  /** First arrival time the platform promised for this order */
+  promisedArrival?: Date | null;
+}
+
+/**
+ * Convert a driver location to its cached representation
+ */
+export function toCachedDriverLocation(location?: DriverLocation): CachedDriverLocation | null {
+  if (!location) {
+    return null;
+  }
+
+  return {
+    lat: location.lat,
+    lng: location.lng,
+    heading: location.heading,
+    speed: location.speed,
+    timestamp: new Date(location.timestamp).toISOString(),
+  };
+}
+
+/**
+ * Get the arrival time a delivery is currently promising
+ * Finished deliveries no longer promise anything - their ETA is the arrival.
+ */
+function getPromisedArrival(delivery: UnifiedDelivery): Date | null {
+  if (isFinalStatus(delivery.status) || !delivery.eta.estimatedArrival) {
+    return null;
+  }
+  const arrival = new Date(delivery.eta.estimatedArrival);
+  return Number.isNaN(arrival.getTime()) ? null : arrival;
+}
+
+/**
+ * Build the lookup key for a cached delivery
+ */
+function cacheKey(delivery: Pick<UnifiedDelivery, 'platform' | 'externalOrderId'>): string {
+  return `${delivery.platform}:${delivery.externalOrderId}`;
+}
+
+/**
+ * Insert or update cached deliveries for a user
+ * Returns each delivery alongside the version it replaced so callers can
+ * detect status and ETA changes. Returned deliveries carry every ETA the
+ * platform has given for the order in eta.revisions.
+ */
+export async function upsertCachedDeliveries(
+  database: Database,
+  userId: string,
+  deliveries: UnifiedDelivery[],
+  expiresAt: Date
+): Promise<CachedDeliveryChange[]> {
+  if (deliveries.length === 0) {
+    return [];
+  }
+
+  const existing = await database.query.deliveryCache.findMany({
+    where: and(
+      eq(deliveryCache.userId, userId),
+      inArray(
+        deliveryCache.externalOrderId,
+        deliveries.map((d) => d.externalOrderId)
+      )
+    ),
+  });
+
+  const existingByKey = new Map(
+    existing.map((row) => [
+      cacheKey({ platform: row.platform, externalOrderId: row.externalOrderId ?? '' }),
+      row,
+    ])
+  );
+
+  const changes: CachedDeliveryChange[] = [];
+  const now = new Date();
+
+  for (const fetched of deliveries) {
+    const row = existingByKey.get(cacheKey(fetched));
+    const previous = (row?.deliveryData as UnifiedDelivery | undefined) ?? null;
+    const delivery: UnifiedDelivery = {
+      ...fetched,
+      eta: {
+        ...fetched.eta,
+        revisions: appendEtaRevision(previous?.eta.revisions, fetched, now),
+      },
+    };
+    const timeline = appendTimelineEvent(row?.timeline, delivery, now);
+    const promisedArrival = row?.promisedArrival ?? getPromisedArrival(delivery);
+    const values = {
+      deliveryData: delivery,
+      driverLocation: toCachedDriverLocation(delivery.driver?.location),
+      etaMinutes: delivery.eta.minutesRemaining,
+      status: delivery.status,
+      timeline,
+      promisedArrival,
+      lastUpdated: now,
+      expiresAt,
+    };
+
+    await database
+      .insert(deliveryCache)
+      .values({
+        userId,
+        platform: delivery.platform,
+        externalOrderId: delivery.externalOrderId,
+        ...values,
+      })
+      .onConflictDoUpdate({
+        target: [deliveryCache.userId, deliveryCache.platform, deliveryCache.externalOrderId],
+        set: values,
+      });
+
+    changes.push({
+      delivery,
+      previous,
+      timeline,
+      promisedArrival,
+    });
+  }
+
+  return changes;
+}
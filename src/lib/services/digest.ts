@@ -0,0 +1,547 @@
+import { and, eq, gte, isNull, lt, notInArray, or } from 'drizzle-orm';
+import { type Database, db } from '@/lib/db';
+import { deliveryCache, deliveryHistory, notificationPreferences, users } from '@/lib/db/schema';
+import {
+  type EmailListItem,
+  type EmailTemplate,
+  getSmtpConfig,
+  type MailSendResult,
+  type MailTransport,
+  renderEmail,
+  SmtpTransport,
+} from '@/lib/email';
+import { logger } from '@/lib/monitoring/logger';
+import { getZonedDateTime, getZonedStartOfDay, parseTimeOfDay } from '@/lib/timezone';
+import {
+  type DeliveryStatus,
+  FINAL_STATUSES,
+  type TimelineEvent,
+  toDate,
+  type UnifiedDelivery,
+} from '@/types/delivery';
+import { PLATFORM_CONFIGS } from '@/types/platform';
+import { calculateETA } from './eta';
+import { isPlatformEnabled } from './notifications';
+
+/**
+ * Send a digest up to this long after the chosen time (minutes)
+ * Past that the morning summary is stale, so the day is skipped.
+ */
+const SEND_WINDOW_MINUTES = 3 * 60;
+
+/**
+ * A delivery counts as late when it arrives this long after its ETA (ms)
+ */
+const LATE_GRACE_MS = 10 * 60 * 1000;
+
+const DEFAULT_FROM = 'DropDeck <noreply@dropdeck.app>';
+
+const log = logger.child({ service: 'digest' });
+
+/**
+ * A user who opted into the daily digest
+ */
+export interface DigestRecipient {
+  userId: string;
+  email: string;
+  name: string | null;
+  timezone: string;
+  /** Local send time, "HH:MM" */
+  digestTime: string;
+  lastSentAt: Date | null;
+  enabledPlatforms: string[] | null;
+}
+
+/**
+ * A finished delivery from delivery_history
+ */
+export interface DigestHistoryEntry {
+  delivery: UnifiedDelivery;
+  finalStatus: DeliveryStatus;
+  deliveredAt: Date | null;
+  timeline: TimelineEvent[] | null;
+}
+
+/**
+ * A delivery line in the digest
+ */
+export interface DigestEntry {
+  deliveryId: string;
+  platformName: string;
+  statusLabel: string;
+  itemCount: number;
+  /** Expected arrival, e.g. "8:05 AM - 8:40 AM" or "Thursday" */
+  expected: string | null;
+  late: boolean;
+}
+
+/**
+ * Digest contents for one user and day
+ */
+export interface DailyDigest {
+  /** Local date the digest is for, e.g. "Monday, October 19" */
+  dateLabel: string;
+  /** Active deliveries expected today */
+  today: DigestEntry[];
+  /** Active deliveries expected on a later day */
+  upcoming: DigestEntry[];
+  /** Deliveries that finished yesterday */
+  yesterday: DigestEntry[];
+}
+
+/**
+ * Persistence used by the digest service
+ */
+export interface DigestStore {
+  /** List users who opted into the digest */
+  listRecipients(): Promise<DigestRecipient[]>;
+  /** List a user's deliveries that are still in progress */
+  listActiveDeliveries(userId: string): Promise<UnifiedDelivery[]>;
+  /** List a user's deliveries that finished in [from, to) */
+  listFinished(userId: string, from: Date, to: Date): Promise<DigestHistoryEntry[]>;
+  /** Record that a user's digest went out */
+  markSent(userId: string, sentAt: Date): Promise<void>;
+}
+
+/**
+ * Options for creating a digest service
+ */
+export interface DigestServiceOptions {
+  /** Persistence layer (defaults to the database) */
+  store?: DigestStore;
+  /** Mail transport (defaults to SMTP from the environment; null disables sending) */
+  transport?: MailTransport | null;
+  /** Sender mailbox */
+  from?: string;
+  /** App URL used for links */
+  appUrl?: string;
+}
+
+/**
+ * Check whether a user's digest should go out now
+ */
+export function isDigestDue(
+  recipient: Pick<DigestRecipient, 'timezone' | 'digestTime' | 'lastSentAt'>,
+  now: Date
+): boolean {
+  const sendAt = parseTimeOfDay(recipient.digestTime);
+  if (sendAt === null) return false;
+
+  const local = getZonedDateTime(now, recipient.timezone);
+  const minutesLate = local.hour * 60 + local.minute - sendAt;
+  if (minutesLate < 0 || minutesLate >= SEND_WINDOW_MINUTES) {
+    return false;
+  }
+
+  // Once per local day
+  const startOfToday = getZonedStartOfDay(now, recipient.timezone);
+  return !recipient.lastSentAt || recipient.lastSentAt < startOfToday;
+}
+
+/**
+ * Check whether a finished delivery arrived late
+ * Late means it was marked delayed along the way or arrived well after its ETA.
+ */
+export function isLateDelivery(entry: DigestHistoryEntry): boolean {
+  if (entry.finalStatus !== 'delivered') return false;
+  if (entry.timeline?.some((event) => event.status === 'delayed')) return true;
+
+  const expected = toDate(entry.delivery.eta?.estimatedArrival);
+  if (!entry.deliveredAt || !expected) return false;
+  return entry.deliveredAt.getTime() > expected.getTime() + LATE_GRACE_MS;
+}
+
+/**
+ * Format a time of day in a timezone
+ */
+function formatTime(date: Date, timeZone: string): string {
+  return date.toLocaleTimeString('en-US', { timeZone, hour: 'numeric', minute: '2-digit' });
+}
+
+/**
+ * Describe when an active delivery is expected
+ * Deliveries due today get a time window from the ETA engine; later ones get their day.
+ */
+function describeExpected(
+  delivery: UnifiedDelivery,
+  arrival: Date,
+  isToday: boolean,
+  now: Date,
+  timeZone: string
+): string {
+  if (!isToday) {
+    return arrival.toLocaleDateString('en-US', {
+      timeZone,
+      weekday: 'long',
+      month: 'short',
+      day: 'numeric',
+    });
+  }
+
+  // Refresh the cached countdown before handing it to the ETA engine
+  const minutesRemaining = Math.max(0, Math.round((arrival.getTime() - now.getTime()) / 60000));
+  const eta = calculateETA({
+    ...delivery,
+    eta: { ...delivery.eta, estimatedArrival: arrival, minutesRemaining },
+  });
+
+  if (eta.range) {
+    return `${formatTime(eta.range.min, timeZone)} - ${formatTime(eta.range.max, timeZone)}`;
+  }
+  return `around ${formatTime(eta.estimatedArrival, timeZone)}`;
+}
+
+/**
+ * Build a digest line for a delivery
+ */
+function toDigestEntry(
+  delivery: UnifiedDelivery,
+  expected: string | null,
+  late = false
+): DigestEntry {
+  return {
+    deliveryId: delivery.id,
+    platformName: PLATFORM_CONFIGS[delivery.platform]?.name ?? delivery.platform,
+    statusLabel: delivery.statusLabel,
+    itemCount: delivery.order?.itemCount ?? 0,
+    expected,
+    late,
+  };
+}
+
+/**
+ * Sort key for an expected arrival
+ */
+function arrivalTime(delivery: UnifiedDelivery): number {
+  return toDate(delivery.eta?.estimatedArrival)?.getTime() ?? Number.MAX_SAFE_INTEGER;
+}
+
+/**
+ * Assemble a user's digest
+ */
+export function buildDailyDigest(input: {
+  active: UnifiedDelivery[];
+  finished: DigestHistoryEntry[];
+  now: Date;
+  timezone: string;
+  enabledPlatforms: string[] | null;
+}): DailyDigest {
+  const { now, timezone, enabledPlatforms } = input;
+  const startOfTomorrow = getZonedStartOfDay(now, timezone, 1);
+  const included = (delivery: UnifiedDelivery) =>
+    isPlatformEnabled(delivery.platform, { enabledPlatforms });
+
+  const today: DigestEntry[] = [];
+  const upcoming: DigestEntry[] = [];
+
+  for (const delivery of [...input.active]
+    .filter(included)
+    .sort((a, b) => arrivalTime(a) - arrivalTime(b))) {
+    const arrival = toDate(delivery.eta?.estimatedArrival);
+    if (!arrival) {
+      today.push(toDigestEntry(delivery, null));
+      continue;
+    }
+
+    const isToday = arrival < startOfTomorrow;
+    const entry = toDigestEntry(
+      delivery,
+      describeExpected(delivery, arrival, isToday, now, timezone)
+    );
+    (isToday ? today : upcoming).push(entry);
+  }
+
+  const yesterday = input.finished
+    .filter((entry) => included(entry.delivery))
+    .sort((a, b) => (a.deliveredAt?.getTime() ?? 0) - (b.deliveredAt?.getTime() ?? 0))
+    .map((entry) =>
+      toDigestEntry(
+        {
+          ...entry.delivery,
+          statusLabel: entry.finalStatus === 'cancelled' ? 'Cancelled' : 'Delivered',
+        },
+        entry.deliveredAt ? formatTime(entry.deliveredAt, timezone) : null,
+        isLateDelivery(entry)
+      )
+    );
+
+  return {
+    dateLabel: now.toLocaleDateString('en-US', {
+      timeZone: timezone,
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+    }),
+    today,
+    upcoming,
+    yesterday,
+  };
+}
+
+/**
+ * Check whether a digest has anything to report
+ */
+export function isDigestEmpty(digest: DailyDigest): boolean {
+  return digest.today.length + digest.upcoming.length + digest.yesterday.length === 0;
+}
+
+/**
+ * Pluralize a count
+ */
+function plural(count: number, noun: string, pluralNoun = `${noun}s`): string {
+  return `${count} ${count === 1 ? noun : pluralNoun}`;
+}
+
+/**
+ * Build the subject line for a digest
+ */
+export function buildDigestSubject(digest: DailyDigest): string {
+  if (digest.today.length > 0) {
+    return `${plural(digest.today.length, 'delivery', 'deliveries')} expected today`;
+  }
+  return `Your deliveries for ${digest.dateLabel}`;
+}
+
+/**
+ * Build the digest email
+ * The same template renders the HTML and plain text versions.
+ */
+export function buildDigestTemplate(
+  digest: DailyDigest,
+  options: { name?: string | null; appUrl?: string } = {}
+): EmailTemplate {
+  const toItem = (entry: DigestEntry): EmailListItem => ({
+    title: `${entry.platformName} - ${entry.statusLabel}`,
+    details: [
+      ...(entry.expected ? [entry.expected] : []),
+      ...(entry.itemCount > 0 ? [plural(entry.itemCount, 'item')] : []),
+      ...(entry.late ? ['Late'] : []),
+    ],
+    highlight: entry.late,
+  });
+
+  const late = digest.yesterday.filter((entry) => entry.late).length;
+  const blocks: EmailTemplate['blocks'] = [
+    {
+      type: 'paragraph',
+      text: `${options.name ? `Good morning, ${options.name}.` : 'Good morning.'} Here is your delivery summary for ${digest.dateLabel}.`,
+    },
+  ];
+
+  blocks.push({ type: 'heading', text: 'Expected today' });
+  blocks.push(
+    digest.today.length > 0
+      ? { type: 'list', items: digest.today.map(toItem) }
+      : { type: 'paragraph', text: 'Nothing is scheduled to arrive today.', muted: true }
+  );
+
+  if (digest.upcoming.length > 0) {
+    blocks.push({ type: 'heading', text: 'Coming up' });
+    blocks.push({ type: 'list', items: digest.upcoming.map(toItem) });
+  }
+
+  if (digest.yesterday.length > 0) {
+    blocks.push({ type: 'heading', text: 'Yesterday' });
+    blocks.push({
+      type: 'paragraph',
+      text: `${plural(digest.yesterday.length, 'order')} finished${late > 0 ? `, ${late} late` : ''}.`,
+      muted: true,
+    });
+    blocks.push({ type: 'list', items: digest.yesterday.map(toItem) });
+  }
+
+  if (options.appUrl) {
+    blocks.push({
+      type: 'button',
+      text: 'Open DropDeck',
+      url: new URL('/dashboard', options.appUrl).toString(),
+    });
+  }
+
+  return {
+    preheader:
+      digest.today.length > 0
+        ? `${digest.today.map((entry) => entry.platformName).join(', ')} arriving today`
+        : 'Your daily delivery summary',
+    blocks,
+    footer:
+      'You are receiving this because the daily digest is turned on in your DropDeck notification settings.',
+  };
+}
+
+/**
+ * Create the default database-backed digest store
+ */
+export function createDatabaseDigestStore(database: Database = db): DigestStore {
+  return {
+    async listRecipients() {
+      const rows = await database
+        .select({ prefs: notificationPreferences, user: users })
+        .from(notificationPreferences)
+        .innerJoin(users, eq(notificationPreferences.userId, users.id))
+        .where(eq(notificationPreferences.emailDigestEnabled, true));
+
+      return rows.map(({ prefs, user }) => ({
+        userId: user.id,
+        email: user.email,
+        name: user.name,
+        timezone: prefs.timezone,
+        digestTime: prefs.emailDigestTime,
+        lastSentAt: prefs.emailDigestLastSentAt,
+        enabledPlatforms: prefs.enabledPlatforms,
+      }));
+    },
+
+    async listActiveDeliveries(userId) {
+      const rows = await database.query.deliveryCache.findMany({
+        where: and(
+          eq(deliveryCache.userId, userId),
+          notInArray(deliveryCache.status, [...FINAL_STATUSES])
+        ),
+      });
+      return rows.map((row) => row.deliveryData);
+    },
+
+    async listFinished(userId, from, to) {
+      const rows = await database.query.deliveryHistory.findMany({
+        where: and(
+          eq(deliveryHistory.userId, userId),
+          or(
+            and(gte(deliveryHistory.deliveredAt, from), lt(deliveryHistory.deliveredAt, to)),
+            and(
+              isNull(deliveryHistory.deliveredAt),
+              gte(deliveryHistory.createdAt, from),
+              lt(deliveryHistory.createdAt, to)
+            )
+          )
+        ),
+      });
+
+      return rows.map((row) => ({
+        delivery: row.deliveryData,
+        finalStatus: row.finalStatus,
+        deliveredAt: row.deliveredAt,
+        timeline: row.timeline,
+      }));
+    },
+
+    async markSent(userId, sentAt) {
+      await database
+        .update(notificationPreferences)
+        .set({ emailDigestLastSentAt: sentAt })
+        .where(eq(notificationPreferences.userId, userId));
+    },
+  };
+}
+
+/**
+ * Create the default mail transport from the environment
+ */
+function createDefaultTransport(): MailTransport | null {
+  const config = getSmtpConfig();
+  return config ? new SmtpTransport(config) : null;
+}
+
+/**
+ * DigestService class
+ * Emails each opted-in user a morning summary of their deliveries.
+ */
+export class DigestService {
+  private readonly store: DigestStore;
+  private readonly transport: MailTransport | null;
+  private readonly from: string;
+  private readonly appUrl: string | undefined;
+
+  constructor(options: DigestServiceOptions = {}) {
+    this.store = options.store ?? createDatabaseDigestStore();
+    this.transport = options.transport !== undefined ? options.transport : createDefaultTransport();
+    this.from = options.from ?? process.env.EMAIL_FROM ?? DEFAULT_FROM;
+    this.appUrl = options.appUrl ?? process.env.NEXT_PUBLIC_APP_URL;
+  }
+
+  /**
+   * Send every digest that is due
+   * Returns the number of emails sent.
+   */
+  async sendDue(now: Date = new Date()): Promise<number> {
+    if (!this.transport) {
+      log.debug('SMTP not configured, skipping digests');
+      return 0;
+    }
+
+    const recipients = await this.store.listRecipients();
+    let sent = 0;
+
+    for (const recipient of recipients) {
+      if (!isDigestDue(recipient, now)) continue;
+
+      try {
+        const result = await this.sendDigest(recipient, now);
+        if (result?.success) {
+          sent++;
+        } else if (result) {
+          log.warn('Digest email failed', { userId: recipient.userId, error: result.error });
+        }
+      } catch (error) {
+        log.error('Digest failed', error, { userId: recipient.userId });
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Build and send one user's digest
+   * Returns null when there was nothing to report; the day still counts as sent.
+   */
+  async sendDigest(
+    recipient: DigestRecipient,
+    now: Date = new Date()
+  ): Promise<MailSendResult | null> {
+    if (!this.transport) {
+      return { success: false, error: 'SMTP is not configured' };
+    }
+
+    const startOfToday = getZonedStartOfDay(now, recipient.timezone);
+    const startOfYesterday = getZonedStartOfDay(now, recipient.timezone, -1);
+
+    const [active, finished] = await Promise.all([
+      this.store.listActiveDeliveries(recipient.userId),
+      this.store.listFinished(recipient.userId, startOfYesterday, startOfToday),
+    ]);
+
+    const digest = buildDailyDigest({
+      active,
+      finished,
+      now,
+      timezone: recipient.timezone,
+      enabledPlatforms: recipient.enabledPlatforms,
+    });
+
+    if (isDigestEmpty(digest)) {
+      await this.store.markSent(recipient.userId, now);
+      return null;
+    }
+
+    const { html, text } = renderEmail(
+      buildDigestTemplate(digest, { name: recipient.name, appUrl: this.appUrl })
+    );
+
+    const result = await this.transport.send({
+      from: this.from,
+      to: recipient.email,
+      subject: buildDigestSubject(digest),
+      html,
+      text,
+    });
+
+    if (result.success) {
+      await this.store.markSent(recipient.userId, now);
+    }
+
+    return result;
+  }
+}
+
+// Export singleton instance
+export const digestService = new DigestService();
@@ -0,0 +1,406 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { and, eq, sql } from 'drizzle-orm';
+import { CarrierAdapter } from '@/lib/adapters/carriers/base';
+import { getAdapterAsync } from '@/lib/adapters/registry';
+import { type Database, db } from '@/lib/db';
+import {
+  deliveryCache,
+  deliveryHistory,
+  emailInboxes,
+  inboundEmails,
+  type inboundEmailResultEnum,
+} from '@/lib/db/schema';
+import {
+  buildEmailDelivery,
+  getEmailOrderExternalId,
+  mergeEmailDelivery,
+  parseOrderEmail,
+} from '@/lib/email/import';
+import { type ParsedEmail, parseEmail } from '@/lib/email/parse';
+import { logger } from '@/lib/monitoring/logger';
+import { type DeliveryUpdatePayload, publishDeliveryUpdate } from '@/lib/realtime/pubsub';
+import { isFinalStatus, type UnifiedDelivery } from '@/types/delivery';
+import { type CarrierPlatform, isCarrierPlatform, type Platform } from '@/types/platform';
+import { type CachedDeliveryChange, upsertCachedDeliveries } from './delivery-cache';
+import { type DeliveryLifecycleService, deliveryLifecycle } from './lifecycle';
+import { type NotificationService, notificationService } from './notifications';
+import { createDatabasePackageStore } from './packages';
+import { type WebhookService, webhookService } from './webhooks';
+
+/**
+ * Shortest time an imported delivery stays on the dashboard (seconds)
+ */
+const MIN_CACHE_TTL = 24 * 60 * 60;
+
+/**
+ * Longest time an imported delivery stays on the dashboard (seconds)
+ * Emails stop coming once an order is delivered, and not every retailer
+ * sends a delivered email, so imported deliveries must eventually expire.
+ */
+const MAX_CACHE_TTL = 14 * 24 * 60 * 60;
+
+/**
+ * Largest raw message accepted for import (bytes)
+ */
+export const MAX_EMAIL_SIZE = 2 * 1024 * 1024;
+
+const log = logger.child({ service: 'email-import' });
+
+/**
+ * What became of an inbound email
+ */
+export type InboundEmailResult = (typeof inboundEmailResultEnum.enumValues)[number];
+
+/**
+ * A logged inbound email
+ */
+export type InboundEmail = typeof inboundEmails.$inferSelect;
+
+/**
+ * Result of importing an email
+ */
+export interface EmailImportResult {
+  /** 'processed' when the same message was imported before */
+  result: InboundEmailResult | 'processed';
+  /** Parser that read the order, null if none did */
+  parser: string | null;
+  /** Delivery as written to the dashboard (imported or updated only) */
+  delivery: UnifiedDelivery | null;
+}
+
+/**
+ * Persistence used by the email import service
+ */
+export interface EmailImportStore {
+  /** Check whether a message was already imported for the user */
+  hasEmail(userId: string, messageId: string): Promise<boolean>;
+  /** Log an inbound email and its result */
+  recordEmail(entry: Omit<InboundEmail, 'id' | 'receivedAt'>): Promise<void>;
+  /** Get the cached delivery for an order */
+  getCachedDelivery(
+    userId: string,
+    platform: Platform,
+    externalOrderId: string
+  ): Promise<UnifiedDelivery | null>;
+  /** Check whether an order has already finished and been archived */
+  isArchived(userId: string, platform: Platform, externalOrderId: string): Promise<boolean>;
+  /** Write a delivery to the cache and report what changed */
+  saveDelivery(
+    userId: string,
+    delivery: UnifiedDelivery,
+    expiresAt: Date
+  ): Promise<CachedDeliveryChange[]>;
+  /** Remove a cached delivery, if it was imported from email */
+  discardEmailDelivery(userId: string, platform: Platform, externalOrderId: string): Promise<void>;
+  /** Follow a parcel so the carrier adapter keeps it up to date */
+  followPackage(
+    userId: string,
+    carrier: CarrierPlatform,
+    trackingNumber: string,
+    label: string | null
+  ): Promise<void>;
+}
+
+/**
+ * Options for creating the email import service
+ */
+export interface EmailImportServiceOptions {
+  /** Persistence layer (defaults to the database) */
+  store?: EmailImportStore;
+  /** Checks whether a carrier can be polled (defaults to the carrier adapter's config) */
+  isCarrierConfigured?: (carrier: CarrierPlatform) => Promise<boolean>;
+  /** Realtime publisher (defaults to Redis/Ably pub/sub) */
+  publishDeliveryUpdate?: typeof publishDeliveryUpdate;
+  /** Archives finished deliveries (defaults to the lifecycle service) */
+  lifecycle?: Pick<DeliveryLifecycleService, 'processChanges'>;
+  /** Sends status change notifications (defaults to the notification service) */
+  notifier?: Pick<NotificationService, 'sendDeliveryUpdate' | 'sendEtaSlipped'>;
+  /** Sends delivery updates to user webhooks (defaults to the webhook service) */
+  webhooks?: Pick<WebhookService, 'dispatch'>;
+}
+
+/**
+ * Generate a new inbox token
+ */
+export function generateInboxToken(): string {
+  return `in_${randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Hash an inbox token for storage and lookup
+ */
+export function hashInboxToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Find the user an inbox token belongs to
+ * @returns The user ID, or null for unknown and disabled inboxes
+ */
+export async function findInboxUser(
+  token: string,
+  database: Database = db
+): Promise<string | null> {
+  const inbox = await database.query.emailInboxes.findFirst({
+    where: and(eq(emailInboxes.tokenHash, hashInboxToken(token)), eq(emailInboxes.enabled, true)),
+  });
+  if (!inbox) return null;
+
+  await database
+    .update(emailInboxes)
+    .set({ lastReceivedAt: new Date() })
+    .where(eq(emailInboxes.id, inbox.id));
+
+  return inbox.userId;
+}
+
+/**
+ * Create the default database-backed email import store
+ */
+export function createDatabaseEmailImportStore(database: Database = db): EmailImportStore {
+  const packages = createDatabasePackageStore(database);
+
+  return {
+    async hasEmail(userId, messageId) {
+      const row = await database.query.inboundEmails.findFirst({
+        where: and(eq(inboundEmails.userId, userId), eq(inboundEmails.messageId, messageId)),
+        columns: { id: true },
+      });
+      return !!row;
+    },
+
+    async recordEmail(entry) {
+      await database.insert(inboundEmails).values(entry).onConflictDoNothing();
+    },
+
+    async getCachedDelivery(userId, platform, externalOrderId) {
+      const row = await database.query.deliveryCache.findFirst({
+        where: and(
+          eq(deliveryCache.userId, userId),
+          eq(deliveryCache.platform, platform),
+          eq(deliveryCache.externalOrderId, externalOrderId)
+        ),
+      });
+      return (row?.deliveryData as UnifiedDelivery | undefined) ?? null;
+    },
+
+    async isArchived(userId, platform, externalOrderId) {
+      const row = await database.query.deliveryHistory.findFirst({
+        where: and(
+          eq(deliveryHistory.userId, userId),
+          eq(deliveryHistory.platform, platform),
+          eq(deliveryHistory.externalOrderId, externalOrderId)
+        ),
+        columns: { id: true },
+      });
+      return !!row;
+    },
+
+    async saveDelivery(userId, delivery, expiresAt) {
+      return upsertCachedDeliveries(database, userId, [delivery], expiresAt);
+    },
+
+    async discardEmailDelivery(userId, platform, externalOrderId) {
+      await database
+        .delete(deliveryCache)
+        .where(
+          and(
+            eq(deliveryCache.userId, userId),
+            eq(deliveryCache.platform, platform),
+            eq(deliveryCache.externalOrderId, externalOrderId),
+            sql`${deliveryCache.deliveryData}->'meta'->>'fetchMethod' = 'email'`
+          )
+        );
+    },
+
+    async followPackage(userId, carrier, trackingNumber, label) {
+      await packages.save({ userId, carrier, trackingNumber, label });
+      await packages.ensureConnection(userId, carrier);
+    },
+  };
+}
+
+/**
+ * Check whether a carrier adapter has API credentials
+ */
+async function isCarrierConfigured(carrier: CarrierPlatform): Promise<boolean> {
+  const adapter = await getAdapterAsync(carrier);
+  return adapter instanceof CarrierAdapter && adapter.isConfigured();
+}
+
+/**
+ * Email Import Service
+ *
+ * Turns forwarded order confirmations and shipping notices into deliveries.
+ * Imported deliveries use the same IDs as the platform adapters, so an order
+ * an adapter already tracks is left alone, and adapter results replace an
+ * imported delivery as soon as the adapter picks the order up.
+ */
+export class EmailImportService {
+  private readonly store: EmailImportStore;
+  private readonly isCarrierConfigured: (carrier: CarrierPlatform) => Promise<boolean>;
+  private readonly publishDeliveryUpdate: typeof publishDeliveryUpdate;
+  private readonly lifecycle: Pick<DeliveryLifecycleService, 'processChanges'>;
+  private readonly notifier: Pick<NotificationService, 'sendDeliveryUpdate' | 'sendEtaSlipped'>;
+  private readonly webhooks: Pick<WebhookService, 'dispatch'>;
+
+  constructor(options: EmailImportServiceOptions = {}) {
+    this.store = options.store ?? createDatabaseEmailImportStore();
+    this.isCarrierConfigured = options.isCarrierConfigured ?? isCarrierConfigured;
+    this.publishDeliveryUpdate = options.publishDeliveryUpdate ?? publishDeliveryUpdate;
+    this.lifecycle = options.lifecycle ?? deliveryLifecycle;
+    this.notifier = options.notifier ?? notificationService;
+    this.webhooks = options.webhooks ?? webhookService;
+  }
+
+  /**
+   * Import a raw RFC 822 message for a user
+   * Emails older than what was already imported for the order (e.g. a
+   * confirmation forwarded after the delivered notice) are not applied.
+   */
+  async importEmail(
+    userId: string,
+    raw: string | Buffer,
+    now: Date = new Date()
+  ): Promise<EmailImportResult> {
+    const email = parseEmail(raw);
+    // Messages without a Message-ID are deduplicated by content
+    const messageId = email.messageId ?? createHash('sha256').update(raw).digest('hex');
+
+    if (await this.store.hasEmail(userId, messageId)) {
+      return { result: 'processed', parser: null, delivery: null };
+    }
+
+    const { result, parser, delivery } = await this.apply(userId, email, now);
+
+    await this.store.recordEmail({
+      userId,
+      messageId,
+      fromAddress: email.from.slice(0, 320),
+      subject: email.subject.slice(0, 500),
+      parser,
+      result,
+      platform: delivery?.platform ?? null,
+      externalOrderId: delivery?.externalOrderId ?? null,
+    });
+
+    log.info('Imported order email', { userId, parser, result, platform: delivery?.platform });
+
+    return {
+      result,
+      parser,
+      delivery: result === 'imported' || result === 'updated' ? delivery : null,
+    };
+  }
+
+  /**
+   * Apply a parsed email to the user's deliveries
+   */
+  private async apply(
+    userId: string,
+    email: ParsedEmail,
+    now: Date
+  ): Promise<{
+    result: InboundEmailResult;
+    parser: string | null;
+    delivery: UnifiedDelivery | null;
+  }> {
+    const match = parseOrderEmail(email);
+    if (!match) {
+      return { result: 'unrecognized', parser: null, delivery: null };
+    }
+
+    const { order, parser } = match;
+    const externalOrderId = getEmailOrderExternalId(order);
+    let delivery = buildEmailDelivery(order, email, parser, now);
+
+    if (await this.store.isArchived(userId, order.platform, externalOrderId)) {
+      return { result: 'archived', parser, delivery };
+    }
+
+    const existing = await this.store.getCachedDelivery(userId, order.platform, externalOrderId);
+    if (existing) {
+      const isStale = new Date(existing.statusUpdatedAt) > delivery.statusUpdatedAt;
+      // Adapters know more than emails do; let them keep the order
+      if (existing.meta.fetchMethod !== 'email' || isStale) {
+        return { result: 'duplicate', parser, delivery: existing };
+      }
+      delivery = mergeEmailDelivery(existing, delivery);
+    }
+
+    // The order now ships with a carrier; drop the retailer-level delivery
+    if (order.retailerPlatform && order.retailerPlatform !== order.platform) {
+      await this.store.discardEmailDelivery(userId, order.retailerPlatform, order.orderId);
+    }
+
+    if (
+      order.trackingNumber &&
+      isCarrierPlatform(order.platform) &&
+      !isFinalStatus(order.status) &&
+      (await this.isCarrierConfigured(order.platform))
+    ) {
+      await this.store.followPackage(
+        userId,
+        order.platform,
+        order.trackingNumber,
+        delivery.label ?? null
+      );
+    }
+
+    const ttl = Math.min(
+      Math.max(
+        (delivery.eta.estimatedArrival.getTime() - now.getTime()) / 1000 + MIN_CACHE_TTL,
+        MIN_CACHE_TTL
+      ),
+      MAX_CACHE_TTL
+    );
+    const changes = await this.store.saveDelivery(
+      userId,
+      delivery,
+      new Date(now.getTime() + ttl * 1000)
+    );
+
+    await this.publishChanges(userId, changes);
+    await this.lifecycle.processChanges(userId, changes);
+
+    return { result: existing ? 'updated' : 'imported', parser, delivery };
+  }
+
+  /**
+   * Publish updates for imported deliveries without failing the import
+   */
+  private async publishChanges(userId: string, changes: CachedDeliveryChange[]): Promise<void> {
+    for (const { delivery, previous } of changes) {
+      const payload: DeliveryUpdatePayload = {
+        deliveryId: delivery.id,
+        platform: delivery.platform,
+        status: delivery.status,
+        statusLabel: delivery.statusLabel,
+        eta: delivery.eta.minutesRemaining,
+        previousStatus: previous?.status,
+        previousEta: previous?.eta.minutesRemaining,
+        isComplete: isFinalStatus(delivery.status),
+        delivery,
+      };
+
+      try {
+        await this.publishDeliveryUpdate(userId, payload);
+        await this.webhooks.dispatch(userId, payload);
+
+        if (previous && previous.status !== delivery.status) {
+          await this.notifier.sendDeliveryUpdate(userId, delivery, previous.status);
+        } else if (previous) {
+          await this.notifier.sendEtaSlipped(userId, delivery, previous);
+        }
+      } catch (error) {
+        log.error('Failed to publish imported delivery', error, {
+          userId,
+          deliveryId: delivery.id,
+        });
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const emailImportService = new EmailImportService();
@@ -0,0 +1,84 @@
+import { type EtaRevision, isFinalStatus, toDate, type UnifiedDelivery } from '@/types/delivery';
+
+/**
+ * ETA changes smaller than this are countdown rounding, not revisions (ms)
+ */
+const MIN_REVISION_CHANGE_MS = 60 * 1000;
+
+/**
+ * Revisions kept per delivery; the original promise is always kept
+ */
+const MAX_ETA_REVISIONS = 50;
+
+/**
+ * Normalize ETA revisions read back from JSONB
+ */
+export function normalizeEtaRevisions(revisions: EtaRevision[] | null | undefined): EtaRevision[] {
+  return (revisions ?? []).flatMap((revision) => {
+    const estimatedArrival = toDate(revision.estimatedArrival);
+    const observedAt = toDate(revision.observedAt);
+    return estimatedArrival && observedAt ? [{ estimatedArrival, observedAt }] : [];
+  });
+}
+
+/**
+ * Append a delivery's ETA to its revisions if the platform changed it
+ */
+export function appendEtaRevision(
+  revisions: EtaRevision[] | null | undefined,
+  delivery: UnifiedDelivery,
+  observedAt: Date = new Date()
+): EtaRevision[] {
+  const history = normalizeEtaRevisions(revisions);
+  const arrival = toDate(delivery.eta.estimatedArrival);
+
+  if (!arrival || isFinalStatus(delivery.status)) {
+    return history;
+  }
+
+  const last = history[history.length - 1];
+  if (
+    last &&
+    Math.abs(last.estimatedArrival.getTime() - arrival.getTime()) < MIN_REVISION_CHANGE_MS
+  ) {
+    return history;
+  }
+
+  const next = [...history, { estimatedArrival: arrival, observedAt }];
+  return next.length > MAX_ETA_REVISIONS
+    ? [...next.slice(0, 1), ...next.slice(-(MAX_ETA_REVISIONS - 1))]
+    : next;
+}
+
+/**
+ * Minutes the ETA has moved since the first promise (positive = later)
+ */
+export function getEtaSlip(delivery: Pick<UnifiedDelivery, 'eta'>): number {
+  const promised = normalizeEtaRevisions(delivery.eta.revisions)[0];
+  const current = toDate(delivery.eta.estimatedArrival);
+
+  if (!promised || !current) {
+    return 0;
+  }
+
+  return Math.round((current.getTime() - promised.estimatedArrival.getTime()) / 60000);
+}
+
+/**
+ * Check whether a delivery's ETA slipped past another multiple of the threshold
+ * Notifying at each multiple (15, 30, 45 minutes late...) keeps an order that
+ * slips a little on every poll from notifying on every revision.
+ */
+export function hasEtaSlipped(
+  previous: Pick<UnifiedDelivery, 'eta'>,
+  delivery: Pick<UnifiedDelivery, 'eta' | 'status'>,
+  thresholdMinutes: number
+): boolean {
+  if (thresholdMinutes <= 0 || isFinalStatus(delivery.status)) {
+    return false;
+  }
+
+  const before = Math.floor(Math.max(0, getEtaSlip(previous)) / thresholdMinutes);
+  const after = Math.floor(Math.max(0, getEtaSlip(delivery)) / thresholdMinutes);
+  return after > before;
+}
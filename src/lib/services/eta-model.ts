@@ -0,0 +1,515 @@
+import { and, eq, gte, isNotNull, isNull, or } from 'drizzle-orm';
+import { type Database, db } from '@/lib/db';
+import { deliveryHistory, etaStatistics, notificationPreferences } from '@/lib/db/schema';
+import { logger } from '@/lib/monitoring/logger';
+import { getZonedDateTime } from '@/lib/timezone';
+import type { EtaBucket, EtaModel, EtaStatistics } from '@/types/eta';
+import type { Platform } from '@/types/platform';
+import { getLearnedWeight, predictLateness } from './eta';
+
+/**
+ * How far back delivery history is learned from (days)
+ */
+const LOOKBACK_DAYS = 180;
+
+/**
+ * A delivery is on time when it arrives at most this long after its promise (minutes)
+ */
+const ON_TIME_TOLERANCE_MINUTES = 10;
+
+/**
+ * Arrivals further than this from their promise are treated as bad data (minutes)
+ */
+const MAX_LATENESS_MINUTES = 7 * 24 * 60;
+
+/**
+ * Share of history held out when evaluating the model
+ */
+const DEFAULT_HOLDOUT_FRACTION = 0.2;
+
+const log = logger.child({ service: 'eta-model' });
+
+/**
+ * A delivered order from delivery_history with the arrival it was promised
+ */
+export interface EtaHistoryRow {
+  userId: string;
+  platform: Platform;
+  promisedArrival: Date;
+  deliveredAt: Date;
+  /** The user's IANA timezone */
+  timezone: string;
+}
+
+/**
+ * A delivery's lateness, bucketed by the local time it was promised for
+ */
+export interface EtaSample {
+  userId: string;
+  platform: Platform;
+  promisedArrival: Date;
+  timezone: string;
+  /** Minutes between promised and actual arrival (negative = early) */
+  lateness: number;
+  dayOfWeek: number;
+  hour: number;
+}
+
+/**
+ * Learned statistics for one platform, for one user or everyone (userId null)
+ */
+export interface EtaStatisticsRecord extends EtaStatistics {
+  userId: string | null;
+  platform: Platform;
+}
+
+/**
+ * Scores for one slice of held-out deliveries
+ */
+export interface EtaEvaluationScore {
+  testSamples: number;
+  /** Mean absolute error (minutes) when trusting the platform's promise as-is */
+  baselineMae: number;
+  /** Mean absolute error (minutes) after the learned correction */
+  learnedMae: number;
+  /** Share of held-out arrivals inside the learned 10th-90th percentile range */
+  coverage: number;
+}
+
+/**
+ * Offline evaluation of the learned model against held-out history
+ */
+export interface EtaEvaluation extends EtaEvaluationScore {
+  trainSamples: number;
+  platforms: Array<EtaEvaluationScore & { platform: Platform }>;
+}
+
+/**
+ * Persistence used by the ETA model service
+ */
+export interface EtaModelStore {
+  /** Delivered orders with a promised arrival, delivered since a date */
+  listHistory(since: Date): Promise<EtaHistoryRow[]>;
+  /** Replace all learned statistics */
+  replaceStatistics(records: EtaStatisticsRecord[], computedAt: Date): Promise<void>;
+  /** A user's statistics and the platform-wide ones, with the user's timezone */
+  getStatistics(userId: string): Promise<{ timezone: string; records: EtaStatisticsRecord[] }>;
+}
+
+/**
+ * Options for the ETA model service
+ */
+export interface EtaModelServiceOptions {
+  store?: EtaModelStore;
+}
+
+/**
+ * Turn a history row into a sample, or null if it is unusable
+ */
+export function toEtaSample(row: EtaHistoryRow): EtaSample | null {
+  const lateness = Math.round((row.deliveredAt.getTime() - row.promisedArrival.getTime()) / 60000);
+  if (!Number.isFinite(lateness) || Math.abs(lateness) > MAX_LATENESS_MINUTES) {
+    return null;
+  }
+
+  const local = getZonedDateTime(row.promisedArrival, row.timezone);
+  return {
+    userId: row.userId,
+    platform: row.platform,
+    promisedArrival: row.promisedArrival,
+    timezone: row.timezone,
+    lateness,
+    dayOfWeek: local.weekday,
+    hour: local.hour,
+  };
+}
+
+/**
+ * Get a quantile of sorted values by linear interpolation
+ */
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  const low = sorted[lower] ?? 0;
+  const high = sorted[upper] ?? low;
+  return low + (high - low) * (position - lower);
+}
+
+/**
+ * Median lateness of samples grouped by a key
+ */
+function summarizeBuckets(
+  samples: EtaSample[],
+  key: (sample: EtaSample) => number
+): Partial<Record<number, EtaBucket>> {
+  const groups = new Map<number, number[]>();
+  for (const sample of samples) {
+    const group = groups.get(key(sample)) ?? [];
+    group.push(sample.lateness);
+    groups.set(key(sample), group);
+  }
+
+  const buckets: Partial<Record<number, EtaBucket>> = {};
+  for (const [bucket, values] of groups) {
+    values.sort((a, b) => a - b);
+    buckets[bucket] = {
+      sampleCount: values.length,
+      medianLateness: Math.round(quantile(values, 0.5)),
+    };
+  }
+  return buckets;
+}
+
+/**
+ * Summarize how late a set of deliveries ran
+ * Returns null for an empty set.
+ */
+export function summarizeEtaSamples(samples: EtaSample[]): EtaStatistics | null {
+  if (samples.length === 0) return null;
+
+  const lateness = samples.map((sample) => sample.lateness).sort((a, b) => a - b);
+  const total = lateness.reduce((sum, value) => sum + Math.abs(value), 0);
+
+  return {
+    sampleCount: samples.length,
+    medianLateness: Math.round(quantile(lateness, 0.5)),
+    p10Lateness: Math.round(quantile(lateness, 0.1)),
+    p90Lateness: Math.round(quantile(lateness, 0.9)),
+    meanAbsoluteError: Math.round(total / samples.length),
+    onTimeRate:
+      lateness.filter((value) => value <= ON_TIME_TOLERANCE_MINUTES).length / samples.length,
+    byDayOfWeek: summarizeBuckets(samples, (sample) => sample.dayOfWeek),
+    byHour: summarizeBuckets(samples, (sample) => sample.hour),
+  };
+}
+
+/**
+ * Learn statistics per user and platform, and per platform across all users
+ */
+export function buildEtaStatistics(samples: EtaSample[]): EtaStatisticsRecord[] {
+  const groups = new Map<
+    string,
+    { userId: string | null; platform: Platform; samples: EtaSample[] }
+  >();
+
+  const add = (userId: string | null, sample: EtaSample) => {
+    const key = `${userId ?? '*'}:${sample.platform}`;
+    const group = groups.get(key) ?? { userId, platform: sample.platform, samples: [] };
+    group.samples.push(sample);
+    groups.set(key, group);
+  };
+
+  for (const sample of samples) {
+    add(sample.userId, sample);
+    add(null, sample);
+  }
+
+  return [...groups.values()].flatMap(({ userId, platform, samples: group }) => {
+    const statistics = summarizeEtaSamples(group);
+    return statistics ? [{ userId, platform, ...statistics }] : [];
+  });
+}
+
+/**
+ * Blend two lateness buckets, trusting the first by its sample count
+ */
+function blendBuckets(
+  user: Partial<Record<number, EtaBucket>>,
+  overall: Partial<Record<number, EtaBucket>>
+): Partial<Record<number, EtaBucket>> {
+  const keys = new Set([...Object.keys(user), ...Object.keys(overall)].map(Number));
+  const buckets: Partial<Record<number, EtaBucket>> = {};
+
+  for (const key of keys) {
+    const mine = user[key];
+    const theirs = overall[key];
+    if (!mine || !theirs) {
+      buckets[key] = mine ?? theirs;
+      continue;
+    }
+
+    const weight = getLearnedWeight(mine.sampleCount);
+    buckets[key] = {
+      sampleCount: mine.sampleCount + theirs.sampleCount,
+      medianLateness: Math.round(
+        weight * mine.medianLateness + (1 - weight) * theirs.medianLateness
+      ),
+    };
+  }
+
+  return buckets;
+}
+
+/**
+ * Blend a user's statistics with the platform-wide ones
+ * A user with little history mostly gets the platform-wide statistics; their
+ * own take over as their history grows.
+ */
+export function blendEtaStatistics(
+  user: EtaStatistics | undefined,
+  overall: EtaStatistics | undefined
+): EtaStatistics | undefined {
+  if (!user || !overall) return user ?? overall;
+
+  const weight = getLearnedWeight(user.sampleCount);
+  const blend = (mine: number, theirs: number) => weight * mine + (1 - weight) * theirs;
+
+  return {
+    sampleCount: user.sampleCount + overall.sampleCount,
+    medianLateness: Math.round(blend(user.medianLateness, overall.medianLateness)),
+    p10Lateness: Math.round(blend(user.p10Lateness, overall.p10Lateness)),
+    p90Lateness: Math.round(blend(user.p90Lateness, overall.p90Lateness)),
+    meanAbsoluteError: Math.round(blend(user.meanAbsoluteError, overall.meanAbsoluteError)),
+    onTimeRate: blend(user.onTimeRate, overall.onTimeRate),
+    byDayOfWeek: blendBuckets(user.byDayOfWeek, overall.byDayOfWeek),
+    byHour: blendBuckets(user.byHour, overall.byHour),
+  };
+}
+
+/**
+ * Build a user's model from their statistics and the platform-wide ones
+ */
+export function buildEtaModel(
+  userId: string,
+  timezone: string,
+  records: EtaStatisticsRecord[]
+): EtaModel {
+  const platforms: EtaModel['platforms'] = {};
+  const byPlatform = new Map<Platform, { user?: EtaStatistics; overall?: EtaStatistics }>();
+
+  for (const { userId: owner, platform, ...statistics } of records) {
+    const entry = byPlatform.get(platform) ?? {};
+    if (owner === userId) {
+      entry.user = statistics;
+    } else if (owner === null) {
+      entry.overall = statistics;
+    }
+    byPlatform.set(platform, entry);
+  }
+
+  for (const [platform, { user, overall }] of byPlatform) {
+    const statistics = blendEtaStatistics(user, overall);
+    if (statistics) {
+      platforms[platform] = statistics;
+    }
+  }
+
+  return { timezone, platforms };
+}
+
+/**
+ * Score a set of held-out samples against the platform's promise and the model
+ */
+function scoreSamples(samples: EtaSample[], records: EtaStatisticsRecord[]): EtaEvaluationScore {
+  const models = new Map<string, EtaModel>();
+  let baselineError = 0;
+  let learnedError = 0;
+  let covered = 0;
+
+  for (const sample of samples) {
+    let model = models.get(sample.userId);
+    if (!model) {
+      model = buildEtaModel(sample.userId, sample.timezone, records);
+      models.set(sample.userId, model);
+    }
+
+    const statistics = model.platforms[sample.platform];
+    const predicted = statistics
+      ? predictLateness(statistics, sample.promisedArrival, sample.timezone) *
+        getLearnedWeight(statistics.sampleCount)
+      : 0;
+
+    baselineError += Math.abs(sample.lateness);
+    learnedError += Math.abs(sample.lateness - predicted);
+
+    if (
+      statistics &&
+      sample.lateness >= predicted - (statistics.medianLateness - statistics.p10Lateness) &&
+      sample.lateness <= predicted + (statistics.p90Lateness - statistics.medianLateness)
+    ) {
+      covered++;
+    }
+  }
+
+  const count = samples.length || 1;
+  return {
+    testSamples: samples.length,
+    baselineMae: Math.round(baselineError / count),
+    learnedMae: Math.round(learnedError / count),
+    coverage: covered / count,
+  };
+}
+
+/**
+ * Evaluate the model against held-out history
+ * Learns from the older deliveries and scores the most recent ones, so the
+ * model never sees the arrivals it is judged on.
+ */
+export function evaluateEtaModel(
+  samples: EtaSample[],
+  holdoutFraction = DEFAULT_HOLDOUT_FRACTION
+): EtaEvaluation {
+  const ordered = [...samples].sort(
+    (a, b) => a.promisedArrival.getTime() - b.promisedArrival.getTime()
+  );
+  const split = Math.floor(ordered.length * (1 - holdoutFraction));
+  const train = ordered.slice(0, split);
+  const test = ordered.slice(split);
+  const records = buildEtaStatistics(train);
+
+  const platforms = [...new Set(test.map((sample) => sample.platform))].sort().map((platform) => ({
+    platform,
+    ...scoreSamples(
+      test.filter((sample) => sample.platform === platform),
+      records
+    ),
+  }));
+
+  return {
+    trainSamples: train.length,
+    ...scoreSamples(test, records),
+    platforms,
+  };
+}
+
+/**
+ * Create the default database-backed ETA model store
+ */
+export function createDatabaseEtaModelStore(database: Database = db): EtaModelStore {
+  return {
+    async listHistory(since) {
+      const rows = await database
+        .select({
+          userId: deliveryHistory.userId,
+          platform: deliveryHistory.platform,
+          promisedArrival: deliveryHistory.promisedArrival,
+          deliveredAt: deliveryHistory.deliveredAt,
+          timezone: notificationPreferences.timezone,
+        })
+        .from(deliveryHistory)
+        .leftJoin(
+          notificationPreferences,
+          eq(notificationPreferences.userId, deliveryHistory.userId)
+        )
+        .where(
+          and(
+            eq(deliveryHistory.finalStatus, 'delivered'),
+            isNotNull(deliveryHistory.promisedArrival),
+            gte(deliveryHistory.deliveredAt, since)
+          )
+        );
+
+      return rows.flatMap((row) =>
+        row.promisedArrival && row.deliveredAt
+          ? [
+              {
+                userId: row.userId,
+                platform: row.platform,
+                promisedArrival: row.promisedArrival,
+                deliveredAt: row.deliveredAt,
+                timezone: row.timezone ?? 'UTC',
+              },
+            ]
+          : []
+      );
+    },
+
+    async replaceStatistics(records, computedAt) {
+      await database.transaction(async (tx) => {
+        await tx.delete(etaStatistics);
+        if (records.length > 0) {
+          await tx
+            .insert(etaStatistics)
+            .values(records.map((record) => ({ ...record, computedAt })));
+        }
+      });
+    },
+
+    async getStatistics(userId) {
+      const [rows, prefs] = await Promise.all([
+        database.query.etaStatistics.findMany({
+          where: or(eq(etaStatistics.userId, userId), isNull(etaStatistics.userId)),
+        }),
+        database.query.notificationPreferences.findFirst({
+          where: eq(notificationPreferences.userId, userId),
+          columns: { timezone: true },
+        }),
+      ]);
+
+      return {
+        timezone: prefs?.timezone ?? 'UTC',
+        records: rows.map((row) => ({
+          userId: row.userId,
+          platform: row.platform,
+          sampleCount: row.sampleCount,
+          medianLateness: row.medianLateness,
+          p10Lateness: row.p10Lateness,
+          p90Lateness: row.p90Lateness,
+          meanAbsoluteError: row.meanAbsoluteError,
+          onTimeRate: row.onTimeRate,
+          byDayOfWeek: row.byDayOfWeek,
+          byHour: row.byHour,
+        })),
+      };
+    },
+  };
+}
+
+/**
+ * EtaModelService class
+ * Learns how each platform's promised arrivals hold up from delivery history.
+ */
+export class EtaModelService {
+  private readonly store: EtaModelStore;
+
+  constructor(options: EtaModelServiceOptions = {}) {
+    this.store = options.store ?? createDatabaseEtaModelStore();
+  }
+
+  /**
+   * Load the samples learned from
+   */
+  async loadSamples(now: Date = new Date()): Promise<EtaSample[]> {
+    const since = new Date(now.getTime() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const rows = await this.store.listHistory(since);
+    return rows.flatMap((row) => toEtaSample(row) ?? []);
+  }
+
+  /**
+   * Recompute every user's and platform's statistics from recent history
+   */
+  async recompute(now: Date = new Date()): Promise<{ samples: number; statistics: number }> {
+    const samples = await this.loadSamples(now);
+    const records = buildEtaStatistics(samples);
+    await this.store.replaceStatistics(records, now);
+
+    log.info('Recomputed ETA statistics', {
+      samples: samples.length,
+      statistics: records.length,
+    });
+
+    return { samples: samples.length, statistics: records.length };
+  }
+
+  /**
+   * Get the learned model for a user
+   */
+  async getModel(userId: string): Promise<EtaModel> {
+    const { timezone, records } = await this.store.getStatistics(userId);
+    return buildEtaModel(userId, timezone, records);
+  }
+
+  /**
+   * Score the model against the most recent history
+   */
+  async evaluate(
+    now: Date = new Date(),
+    holdoutFraction = DEFAULT_HOLDOUT_FRACTION
+  ): Promise<EtaEvaluation> {
+    return evaluateEtaModel(await this.loadSamples(now), holdoutFraction);
+  }
+}
+
+// Export singleton instance
+export const etaModelService = new EtaModelService();
@@ -1,5 +1,7 @@
 import { calculateDistance, calculateEtaFromDistance } from '@/lib/adapters/utils';
-import type { DeliveryStatus, UnifiedDelivery } from '@/types/delivery';
+import { getZonedDateTime } from '@/lib/timezone';
+import { type DeliveryStatus, isFinalStatus, type UnifiedDelivery } from '@/types/delivery';
+import type { EtaModel, EtaStatistics } from '@/types/eta';
 import type { Platform } from '@/types/platform';
 
 /**
@@ -19,7 +21,7 @@ export interface ETAResult {
   confidence: number;
   /** Confidence level for display */
   confidenceLevel: ETAConfidenceLevel;
-  /** ETA range for low-confidence estimates */
+  /** ETA range for low-confidence estimates, or when past arrivals varied widely */
   range: {
     min: Date;
     max: Date;
@@ -34,7 +36,8 @@ export interface ETAResult {
 
 /**
  * Platform historical accuracy data (0-100)
- * Higher = more accurate ETA predictions
+ * Higher = more accurate ETA predictions. Used as the prior until enough
+ * delivery history has been learned.
  */
 const PLATFORM_ACCURACY: Record<Platform, number> = {
   doordash: 85,
@@ -48,6 +51,10 @@ const PLATFORM_ACCURACY: Record<Platform, number> = {
   totalwine: 65,
   costco: 72,
   samsclub: 73,
+  ups: 85,
+  fedex: 84,
+  usps: 70,
+  dhl: 76,
 };
 
 /**
@@ -58,6 +65,7 @@ const ORDER_TYPE_MODIFIERS: Record<string, number> = {
   grocery: 1.15, // Grocery - more variability in shopping time
   alcohol: 1.1, // Alcohol - ID verification adds time
   retail: 1.2, // General retail - more variable
+  parcel: 1.0, // Carrier parcels - estimates are already day-level
 };
 
 /**
@@ -69,6 +77,47 @@ const TRAFFIC_MULTIPLIERS: Record<string, number> = {
   heavy: 1.5,
 };
 
+/**
+ * Deliveries a learned statistic needs before it counts as much as the priors
+ * Learned values are weighted n / (n + LEARNED_PRIOR_SAMPLES).
+ */
+const LEARNED_PRIOR_SAMPLES = 20;
+
+/**
+ * Narrowest learned range worth showing on a high-confidence ETA (minutes)
+ */
+const MIN_LEARNED_RANGE_MINUTES = 10;
+
+/**
+ * Get how much weight learned statistics get over the built-in priors (0-1)
+ */
+export function getLearnedWeight(sampleCount: number): number {
+  return sampleCount / (sampleCount + LEARNED_PRIOR_SAMPLES);
+}
+
+/**
+ * Predict how late a promised arrival will be, in minutes (negative = early)
+ * Starts from the platform's median lateness and shifts it toward what is
+ * typical for the weekday and hour the delivery is promised for.
+ */
+export function predictLateness(
+  statistics: EtaStatistics,
+  promisedArrival: Date,
+  timeZone: string
+): number {
+  const local = getZonedDateTime(promisedArrival, timeZone);
+  let lateness = statistics.medianLateness;
+
+  for (const bucket of [statistics.byDayOfWeek[local.weekday], statistics.byHour[local.hour]]) {
+    if (bucket) {
+      lateness +=
+        (bucket.medianLateness - statistics.medianLateness) * getLearnedWeight(bucket.sampleCount);
+    }
+  }
+
+  return lateness;
+}
+
 /**
  * Calculate confidence score for an ETA
  */
@@ -147,18 +196,30 @@ function getConfidenceLevel(confidence: number): ETAConfidenceLevel {
 function calculateETARange(
   _baseETA: Date,
   baseMinutes: number,
-  confidence: number
+  confidence: number,
+  statistics?: EtaStatistics
 ): { min: Date; max: Date; minMinutes: number; maxMinutes: number } | null {
-  // Only show range for low/medium confidence
-  if (confidence >= 80) return null;
-
   // Calculate variance based on confidence
   // Lower confidence = wider range
   const varianceFactor = (100 - confidence) / 100;
   const varianceMinutes = Math.round(baseMinutes * varianceFactor * 0.5);
 
-  const minMinutes = Math.max(0, baseMinutes - varianceMinutes);
-  const maxMinutes = baseMinutes + varianceMinutes;
+  // Blend in the spread of past arrivals around their median
+  const weight = statistics ? getLearnedWeight(statistics.sampleCount) : 0;
+  const below = statistics
+    ? weight * (statistics.medianLateness - statistics.p10Lateness) + (1 - weight) * varianceMinutes
+    : varianceMinutes;
+  const above = statistics
+    ? weight * (statistics.p90Lateness - statistics.medianLateness) + (1 - weight) * varianceMinutes
+    : varianceMinutes;
+
+  // Only show range for low/medium confidence, or when history says arrivals vary widely
+  if (confidence >= 80 && (!statistics || below + above < MIN_LEARNED_RANGE_MINUTES)) {
+    return null;
+  }
+
+  const minMinutes = Math.max(0, Math.round(baseMinutes - below));
+  const maxMinutes = Math.round(baseMinutes + above);
 
   const now = new Date();
   return {
@@ -171,10 +232,18 @@ function calculateETARange(
 
 /**
  * Calculate or refine ETA for a delivery
+ * With a learned model the platform's own ETA is corrected by how late it
+ * usually runs, and confidence and range come from how its past ETAs held up,
+ * each blended with the built-in priors by how much history there is.
  */
-export function calculateETA(delivery: UnifiedDelivery): ETAResult {
+export function calculateETA(delivery: UnifiedDelivery, model?: EtaModel | null): ETAResult {
   const platform = delivery.platform;
-  const platformAccuracy = PLATFORM_ACCURACY[platform] ?? 70;
+  const statistics = model?.platforms[platform];
+  const learnedWeight = statistics ? getLearnedWeight(statistics.sampleCount) : 0;
+  const platformAccuracy = statistics
+    ? (1 - learnedWeight) * (PLATFORM_ACCURACY[platform] ?? 70) +
+      learnedWeight * statistics.onTimeRate * 100
+    : (PLATFORM_ACCURACY[platform] ?? 70);
   const factors: string[] = [];
 
   // Calculate distance if driver location available
@@ -205,6 +274,7 @@ export function calculateETA(delivery: UnifiedDelivery): ETAResult {
     const statusEstimates: Partial<Record<DeliveryStatus, number>> = {
       preparing: 35,
       ready_for_pickup: 25,
+      checked_in: 5,
       driver_assigned: 20,
       driver_heading_to_store: 18,
       driver_at_store: 15,
@@ -217,27 +287,60 @@ export function calculateETA(delivery: UnifiedDelivery): ETAResult {
     factors.push('ETA estimated from status');
   }
 
-  // Apply order type modifier
+  // Correct the platform's ETA by how late it usually runs. Live driver
+  // tracking already reflects the delivery's real progress, so it is left alone.
+  const promisedArrival = delivery.eta.estimatedArrival
+    ? new Date(delivery.eta.estimatedArrival)
+    : null;
+  const learnedLateness =
+    statistics &&
+    model &&
+    source === 'platform' &&
+    promisedArrival &&
+    !delivery.driver?.location &&
+    !isFinalStatus(delivery.status)
+      ? predictLateness(statistics, promisedArrival, model.timezone)
+      : null;
+
+  // Apply order type modifier, which learned lateness replaces as history builds up
   const orderType = getOrderType(delivery.platform);
-  const orderModifier = ORDER_TYPE_MODIFIERS[orderType] ?? 1.0;
+  const orderModifier =
+    learnedLateness !== null
+      ? 1 + ((ORDER_TYPE_MODIFIERS[orderType] ?? 1.0) - 1) * (1 - learnedWeight)
+      : (ORDER_TYPE_MODIFIERS[orderType] ?? 1.0);
   if (orderModifier > 1) {
     minutesRemaining = Math.round(minutesRemaining * orderModifier);
     factors.push(`Order type adjustment: ${orderType}`);
   }
 
+  if (learnedLateness !== null) {
+    const adjustment = Math.round(learnedLateness * learnedWeight);
+    if (adjustment !== 0) {
+      minutesRemaining = Math.max(0, minutesRemaining + adjustment);
+      factors.push(
+        `Usually ${Math.abs(adjustment)} min ${adjustment > 0 ? 'late' : 'early'} at this time`
+      );
+    }
+  }
+
   // Calculate confidence
   const { confidence, factors: confidenceFactors } = calculateConfidenceScore(
     delivery,
     platformAccuracy,
     distanceToDestination
   );
+  if (statistics) {
+    confidenceFactors.push(
+      `Learned from ${statistics.sampleCount} past ${statistics.sampleCount === 1 ? 'delivery' : 'deliveries'}`
+    );
+  }
 
   // Calculate arrival time
   const now = new Date();
   const estimatedArrival = new Date(now.getTime() + minutesRemaining * 60 * 1000);
 
   // Calculate range for lower confidence
-  const range = calculateETARange(estimatedArrival, minutesRemaining, confidence);
+  const range = calculateETARange(estimatedArrival, minutesRemaining, confidence, statistics);
 
   return {
     estimatedArrival,
@@ -266,6 +369,10 @@ function getOrderType(platform: Platform): string {
     drizly: 'alcohol',
     totalwine: 'alcohol',
     amazon: 'retail',
+    ups: 'parcel',
+    fedex: 'parcel',
+    usps: 'parcel',
+    dhl: 'parcel',
   };
   return platformTypes[platform] ?? 'retail';
 }
@@ -315,11 +422,14 @@ export function getConfidenceColor(level: ETAConfidenceLevel): string {
 /**
  * Batch calculate ETAs for multiple deliveries
  */
-export function calculateBatchETAs(deliveries: UnifiedDelivery[]): Map<string, ETAResult> {
+export function calculateBatchETAs(
+  deliveries: UnifiedDelivery[],
+  model?: EtaModel | null
+): Map<string, ETAResult> {
   const results = new Map<string, ETAResult>();
 
   for (const delivery of deliveries) {
-    results.set(delivery.id, calculateETA(delivery));
+    results.set(delivery.id, calculateETA(delivery, model));
   }
 
   return results;
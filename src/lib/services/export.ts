@@ -0,0 +1,250 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { and, desc, eq, gt, lt, notInArray, or } from 'drizzle-orm';
+import { type Database, db } from '@/lib/db';
+import { calendarFeeds, deliveryCache, deliveryHistory } from '@/lib/db/schema';
+import { EXPORT_FORMATS, type ExportFormat, formatExport, toReadableStream } from '@/lib/export';
+import { logger } from '@/lib/monitoring/logger';
+import { FINAL_STATUSES, type UnifiedDelivery } from '@/types/delivery';
+import type { EtaModel } from '@/types/eta';
+import { type EtaModelService, etaModelService } from './eta-model';
+
+const log = logger.child({ service: 'export' });
+
+/**
+ * History rows read per query while streaming an export
+ */
+const HISTORY_PAGE_SIZE = 200;
+
+/**
+ * Which deliveries an export covers
+ * Calendar exports only ever include active deliveries.
+ */
+export type ExportScope = 'active' | 'history' | 'all';
+
+/**
+ * Position in delivery history, newest first
+ */
+export interface HistoryCursor {
+  orderedAt: Date;
+  id: string;
+}
+
+/**
+ * Persistence used by the export service
+ */
+export interface ExportStore {
+  /** Deliveries still in progress, leaving out expired cache rows */
+  listActive(userId: string): Promise<UnifiedDelivery[]>;
+  /** A page of finished deliveries, newest first, after the cursor */
+  listHistoryPage(
+    userId: string,
+    after: HistoryCursor | null,
+    limit: number
+  ): Promise<Array<HistoryCursor & { deliveryData: UnifiedDelivery }>>;
+}
+
+/**
+ * Options for an export
+ */
+export interface ExportOptions {
+  /** Deliveries to include (default: all) */
+  scope?: ExportScope;
+  /** CSV: one row per order item */
+  perItem?: boolean;
+}
+
+/**
+ * Dependencies for the export service
+ */
+export interface ExportServiceOptions {
+  /** Delivery storage (defaults to the database) */
+  store?: ExportStore;
+  /** Learned ETA model used for calendar event ranges (defaults to the ETA model service) */
+  etaModel?: Pick<EtaModelService, 'getModel'>;
+  /** History rows read per query */
+  pageSize?: number;
+}
+
+/**
+ * Generate a new calendar feed token
+ */
+export function generateCalendarToken(): string {
+  return `cal_${randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Hash a calendar feed token for storage and lookup
+ */
+export function hashCalendarToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Find the user a calendar feed token belongs to
+ * @returns The user ID, or null for unknown and disabled feeds
+ */
+export async function findCalendarFeedUser(
+  token: string,
+  database: Database = db
+): Promise<string | null> {
+  const feed = await database.query.calendarFeeds.findFirst({
+    where: and(
+      eq(calendarFeeds.tokenHash, hashCalendarToken(token)),
+      eq(calendarFeeds.enabled, true)
+    ),
+  });
+  if (!feed) return null;
+
+  await database
+    .update(calendarFeeds)
+    .set({ lastAccessedAt: new Date() })
+    .where(eq(calendarFeeds.id, feed.id));
+
+  return feed.userId;
+}
+
+/**
+ * Name of a downloaded export, e.g. dropdeck-history-2026-03-14.csv
+ */
+export function getExportFilename(
+  format: ExportFormat,
+  scope: ExportScope = 'all',
+  now: Date = new Date()
+): string {
+  const name = format === 'ics' ? 'upcoming' : scope === 'all' ? 'deliveries' : scope;
+  return `dropdeck-${name}-${now.toISOString().slice(0, 10)}.${EXPORT_FORMATS[format].extension}`;
+}
+
+/**
+ * Create the default database-backed export store
+ */
+export function createDatabaseExportStore(database: Database = db): ExportStore {
+  return {
+    async listActive(userId) {
+      const rows = await database.query.deliveryCache.findMany({
+        where: and(
+          eq(deliveryCache.userId, userId),
+          notInArray(deliveryCache.status, [...FINAL_STATUSES]),
+          // Expired rows belong to deliveries no platform reports any more
+          gt(deliveryCache.expiresAt, new Date())
+        ),
+        orderBy: [deliveryCache.etaMinutes],
+      });
+      return rows.map((row) => row.deliveryData);
+    },
+
+    async listHistoryPage(userId, after, limit) {
+      return database.query.deliveryHistory.findMany({
+        columns: { id: true, orderedAt: true, deliveryData: true },
+        where: and(
+          eq(deliveryHistory.userId, userId),
+          after
+            ? or(
+                lt(deliveryHistory.orderedAt, after.orderedAt),
+                and(
+                  eq(deliveryHistory.orderedAt, after.orderedAt),
+                  lt(deliveryHistory.id, after.id)
+                )
+              )
+            : undefined
+        ),
+        orderBy: [desc(deliveryHistory.orderedAt), desc(deliveryHistory.id)],
+        limit,
+      });
+    },
+  };
+}
+
+/**
+ * ExportService class
+ * Streams a user's deliveries as CSV, NDJSON or iCalendar.
+ */
+export class ExportService {
+  private readonly store: ExportStore;
+  private readonly etaModel: Pick<EtaModelService, 'getModel'>;
+  private readonly pageSize: number;
+
+  constructor(options: ExportServiceOptions = {}) {
+    this.store = options.store ?? createDatabaseExportStore();
+    this.etaModel = options.etaModel ?? etaModelService;
+    this.pageSize = options.pageSize ?? HISTORY_PAGE_SIZE;
+  }
+
+  /**
+   * Finished deliveries, newest first, read a page at a time
+   */
+  async *listHistory(userId: string): AsyncGenerator<UnifiedDelivery> {
+    let cursor: HistoryCursor | null = null;
+
+    while (true) {
+      const rows = await this.store.listHistoryPage(userId, cursor, this.pageSize);
+      for (const row of rows) {
+        yield row.deliveryData;
+      }
+      if (rows.length < this.pageSize) return;
+
+      const last = rows[rows.length - 1];
+      if (!last) return;
+      cursor = { orderedAt: last.orderedAt, id: last.id };
+    }
+  }
+
+  /**
+   * Deliveries in an export scope, active ones first
+   */
+  async *listDeliveries(
+    userId: string,
+    scope: ExportScope = 'all'
+  ): AsyncGenerator<UnifiedDelivery> {
+    if (scope !== 'history') {
+      yield* await this.store.listActive(userId);
+    }
+    if (scope !== 'active') {
+      yield* this.listHistory(userId);
+    }
+  }
+
+  /**
+   * Stream an export file
+   * Nothing is read until the stream is consumed.
+   */
+  async export(
+    userId: string,
+    format: ExportFormat,
+    options: ExportOptions = {}
+  ): Promise<ReadableStream<Uint8Array>> {
+    if (format === 'ics') {
+      return this.calendar(userId);
+    }
+
+    const deliveries = this.listDeliveries(userId, options.scope);
+    return toReadableStream(formatExport(deliveries, format, { perItem: options.perItem }));
+  }
+
+  /**
+   * Stream a calendar of upcoming deliveries, one event per ETA range
+   */
+  async calendar(userId: string, now: Date = new Date()): Promise<ReadableStream<Uint8Array>> {
+    const model = await this.getModel(userId);
+    const deliveries = this.listDeliveries(userId, 'active');
+    return toReadableStream(formatExport(deliveries, 'ics', { model, now }));
+  }
+
+  /**
+   * Load the user's learned ETA model, falling back to platform ETAs
+   */
+  private async getModel(userId: string): Promise<EtaModel | null> {
+    try {
+      return await this.etaModel.getModel(userId);
+    } catch (error) {
+      log.warn('Failed to load ETA model for calendar', {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+}
+
+// Export singleton instance
+export const exportService = new ExportService();
@@ -0,0 +1,183 @@
+import { and, desc, eq, gte, isNotNull, lt, type SQL, sql } from 'drizzle-orm';
+import type { Database } from '@/lib/db';
+import { deliveryHistory } from '@/lib/db/schema';
+import type { UnifiedDelivery } from '@/types/delivery';
+import type { HistoryAnalytics, HistoryFilters } from '@/types/history';
+import type { Platform } from '@/types/platform';
+
+/**
+ * A delivery counts as on time when it arrives within this long of its promise (minutes)
+ * Matches the tolerance the learned ETA model uses.
+ */
+const ON_TIME_TOLERANCE_MINUTES = 10;
+
+/**
+ * One page of delivery history
+ */
+export interface HistoryPage {
+  items: UnifiedDelivery[];
+  total: number;
+  hasMore: boolean;
+}
+
+/**
+ * Escape LIKE wildcards so a search matches the text literally
+ */
+export function escapeLikePattern(text: string): string {
+  return text.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Build the WHERE clause for a user's history with the given filters
+ */
+export function buildHistoryWhere(userId: string, filters: HistoryFilters = {}): SQL | undefined {
+  const conditions: SQL[] = [eq(deliveryHistory.userId, userId)];
+
+  if (filters.platform) {
+    conditions.push(eq(deliveryHistory.platform, filters.platform));
+  }
+  if (filters.finalStatus) {
+    conditions.push(eq(deliveryHistory.finalStatus, filters.finalStatus));
+  }
+  if (filters.from) {
+    conditions.push(gte(deliveryHistory.orderedAt, filters.from));
+  }
+  if (filters.to) {
+    conditions.push(lt(deliveryHistory.orderedAt, filters.to));
+  }
+
+  const search = filters.search?.trim();
+  if (search) {
+    conditions.push(
+      sql`exists (select 1 from jsonb_array_elements(coalesce(${deliveryHistory.deliveryData}->'order'->'items', '[]'::jsonb)) as item where item->>'name' ilike ${`%${escapeLikePattern(search)}%`})`
+    );
+  }
+
+  return and(...conditions);
+}
+
+/**
+ * Order time in the user's timezone (timestamps are stored as UTC)
+ */
+function localOrderedAt(timeZone: string): SQL {
+  return sql`((${deliveryHistory.orderedAt} at time zone 'UTC') at time zone ${timeZone})`;
+}
+
+/**
+ * List a page of a user's delivery history, newest first
+ */
+export async function listDeliveryHistory(
+  database: Database,
+  userId: string,
+  filters: HistoryFilters,
+  page: { limit: number; offset: number }
+): Promise<HistoryPage> {
+  const where = buildHistoryWhere(userId, filters);
+
+  const [rows, totalResult] = await Promise.all([
+    database
+      .select({ deliveryData: deliveryHistory.deliveryData })
+      .from(deliveryHistory)
+      .where(where)
+      .orderBy(desc(deliveryHistory.orderedAt))
+      .limit(page.limit)
+      .offset(page.offset),
+    database.select({ count: sql<number>`count(*)::int` }).from(deliveryHistory).where(where),
+  ]);
+
+  const total = totalResult[0]?.count ?? 0;
+
+  return {
+    items: rows.map((row) => row.deliveryData),
+    total,
+    hasMore: page.offset + rows.length < total,
+  };
+}
+
+/**
+ * Aggregate a user's delivered orders in the database
+ * Months and hours are in the given timezone. Groupings on expressions use
+ * column positions, since the timezone parameter would otherwise be bound
+ * twice and Postgres would not match the SELECT and GROUP BY expressions.
+ */
+export async function getHistoryAnalytics(
+  database: Database,
+  userId: string,
+  filters: HistoryFilters,
+  timeZone: string
+): Promise<HistoryAnalytics> {
+  const delivered = and(
+    buildHistoryWhere(userId, filters),
+    eq(deliveryHistory.finalStatus, 'delivered')
+  );
+  const localTime = localOrderedAt(timeZone);
+  const orderData = sql`${deliveryHistory.deliveryData}->'order'`;
+  const isOnTime = sql`${deliveryHistory.deliveredAt} <= ${deliveryHistory.promisedArrival} + make_interval(mins => ${ON_TIME_TOLERANCE_MINUTES})`;
+  const itemCount = sql`jsonb_array_length(coalesce(${orderData}->'items', '[]'::jsonb))`;
+  const substitutedCount = sql`jsonb_array_length(jsonb_path_query_array(${orderData}, '$.items[*] ? (@.substituted == true)'))`;
+
+  const [monthlySpend, onTime, durationByHour, substitutions] = await Promise.all([
+    database
+      .select({
+        month: sql<string>`to_char(${localTime}, 'YYYY-MM')`,
+        platform: deliveryHistory.platform,
+        orders: sql<number>`count(*)::int`,
+        totalAmount:
+          sql<number>`coalesce(sum((${orderData}->>'totalAmount')::numeric), 0)::bigint`.mapWith(
+            Number
+          ),
+      })
+      .from(deliveryHistory)
+      .where(delivered)
+      .groupBy(sql`1`, sql`2`)
+      .orderBy(sql`1`, sql`2`),
+    database
+      .select({
+        platform: sql<Platform | null>`${deliveryHistory.platform}`,
+        deliveries: sql<number>`count(*)::int`,
+        onTime: sql<number>`(count(*) filter (where ${isOnTime}))::int`,
+        rate: sql<number>`coalesce(avg((${isOnTime})::int), 0)::float8`.mapWith(Number),
+      })
+      .from(deliveryHistory)
+      .where(
+        and(
+          delivered,
+          isNotNull(deliveryHistory.deliveredAt),
+          isNotNull(deliveryHistory.promisedArrival)
+        )
+      )
+      .groupBy(sql`rollup(${deliveryHistory.platform})`)
+      .orderBy(sql`${deliveryHistory.platform} nulls last`),
+    database
+      .select({
+        hour: sql<number>`extract(hour from ${localTime})::int`,
+        deliveries: sql<number>`count(*)::int`,
+        averageMinutes: sql<number>`round(avg(extract(epoch from ${deliveryHistory.deliveredAt} - ${deliveryHistory.orderedAt}) / 60))::int`,
+      })
+      .from(deliveryHistory)
+      .where(
+        and(
+          delivered,
+          isNotNull(deliveryHistory.deliveredAt),
+          gte(deliveryHistory.deliveredAt, deliveryHistory.orderedAt)
+        )
+      )
+      .groupBy(sql`1`)
+      .orderBy(sql`1`),
+    database
+      .select({
+        platform: sql<Platform | null>`${deliveryHistory.platform}`,
+        items: sql<number>`coalesce(sum(${itemCount}), 0)::int`,
+        substituted: sql<number>`coalesce(sum(${substitutedCount}), 0)::int`,
+        rate: sql<number>`coalesce(sum(${substitutedCount})::float8 / nullif(sum(${itemCount}), 0), 0)`.mapWith(
+          Number
+        ),
+      })
+      .from(deliveryHistory)
+      .where(delivered)
+      .groupBy(sql`rollup(${deliveryHistory.platform})`)
+      .orderBy(sql`${deliveryHistory.platform} nulls last`),
+  ]);
+
+  return { monthlySpend, onTime, durationByHour, substitutions };
+}
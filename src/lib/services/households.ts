@@ -0,0 +1,133 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { and, asc, eq, inArray, notInArray } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { type Database, db } from '@/lib/db';
+import { deliveryCache, householdMembers, users } from '@/lib/db/schema';
+import { type DeliveryOwner, FINAL_STATUSES, type UnifiedDelivery } from '@/types/delivery';
+import { HOUSEHOLD_MEMBER_COLORS, type HouseholdRole } from '@/types/household';
+
+/**
+ * Most members a household can have
+ */
+export const MAX_HOUSEHOLD_MEMBERS = HOUSEHOLD_MEMBER_COLORS.length;
+
+/**
+ * How long an invite link stays valid
+ */
+export const HOUSEHOLD_INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * A member of the same household as the user a lookup was for
+ */
+export interface HouseholdPeer {
+  householdId: string;
+  userId: string;
+  name: string | null;
+  role: HouseholdRole;
+  color: string;
+}
+
+/**
+ * Generate a new household invite token
+ */
+export function generateHouseholdInviteToken(): string {
+  return `hh_${randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Hash a household invite token for storage and lookup
+ */
+export function hashHouseholdInviteToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Color for a new member, the first one nobody in the household uses yet
+ */
+export function pickMemberColor(taken: readonly string[]): string {
+  const used = new Set(taken.map((color) => color.toUpperCase()));
+  return (
+    HOUSEHOLD_MEMBER_COLORS.find((color) => !used.has(color)) ??
+    HOUSEHOLD_MEMBER_COLORS[taken.length % HOUSEHOLD_MEMBER_COLORS.length] ??
+    HOUSEHOLD_MEMBER_COLORS[0]
+  );
+}
+
+/**
+ * Owner attribution for a member's deliveries
+ */
+export function toDeliveryOwner(peer: HouseholdPeer): DeliveryOwner {
+  return { userId: peer.userId, name: peer.name, color: peer.color };
+}
+
+/**
+ * A delivery as shown to other household members
+ * The raw platform response is dropped, as it is the owner's account data
+ * rather than part of the delivery.
+ */
+export function shareDelivery(delivery: UnifiedDelivery, owner: DeliveryOwner): UnifiedDelivery {
+  const { rawData: _rawData, ...meta } = delivery.meta;
+  return { ...delivery, meta, owner };
+}
+
+/**
+ * Everyone in the user's household, the user included, in the order they joined
+ * @returns An empty list when the user is not in a household
+ */
+export async function getHouseholdPeers(
+  userId: string,
+  database: Database = db
+): Promise<HouseholdPeer[]> {
+  const self = alias(householdMembers, 'self');
+
+  return database
+    .select({
+      householdId: householdMembers.householdId,
+      userId: householdMembers.userId,
+      name: users.name,
+      role: householdMembers.role,
+      color: householdMembers.color,
+    })
+    .from(householdMembers)
+    .innerJoin(self, eq(self.householdId, householdMembers.householdId))
+    .innerJoin(users, eq(users.id, householdMembers.userId))
+    .where(eq(self.userId, userId))
+    .orderBy(asc(householdMembers.joinedAt));
+}
+
+/**
+ * IDs of the users whose deliveries are on the user's deck
+ */
+export async function getDeckUserIds(userId: string, database: Database = db): Promise<string[]> {
+  const peers = await getHouseholdPeers(userId, database);
+  return peers.length > 0 ? peers.map((peer) => peer.userId) : [userId];
+}
+
+/**
+ * Active deliveries of the other members of the user's household
+ * Read from the delivery cache the polling worker keeps for each member, so
+ * members' platform credentials are never touched.
+ */
+export async function listHouseholdDeliveries(
+  database: Database,
+  userId: string,
+  peers: HouseholdPeer[]
+): Promise<UnifiedDelivery[]> {
+  const others = new Map(
+    peers.filter((peer) => peer.userId !== userId).map((peer) => [peer.userId, peer])
+  );
+  if (others.size === 0) return [];
+
+  const rows = await database.query.deliveryCache.findMany({
+    where: and(
+      inArray(deliveryCache.userId, [...others.keys()]),
+      notInArray(deliveryCache.status, [...FINAL_STATUSES])
+    ),
+    columns: { userId: true, deliveryData: true },
+  });
+
+  return rows.flatMap((row) => {
+    const peer = others.get(row.userId);
+    return peer ? [shareDelivery(row.deliveryData, toDeliveryOwner(peer))] : [];
+  });
+}
@@ -0,0 +1,275 @@
+import { and, asc, count, eq, gt, or, type SQL, sql } from 'drizzle-orm';
+import type { AnyPgColumn, PgTable } from 'drizzle-orm/pg-core';
+import { type Database, db } from '@/lib/db';
+import { notificationChannels, platformConnections, webhookEndpoints } from '@/lib/db/schema';
+import {
+  decryptToken,
+  getKeyring,
+  needsReencryption,
+  reencryptToken,
+} from '@/lib/encryption/tokens';
+import { logger } from '@/lib/monitoring/logger';
+import type { EncryptedData } from '@/types/platform';
+
+/**
+ * Rows re-encrypted per batch
+ */
+export const REENCRYPT_BATCH_SIZE = 100;
+
+/**
+ * A table with encrypted columns
+ */
+interface EncryptedTable {
+  name: string;
+  table: PgTable;
+  id: AnyPgColumn;
+  columns: Record<string, AnyPgColumn>;
+}
+
+/**
+ * Every table that stores data encrypted with the token keys
+ * Platform credentials are the bulk of it; webhook signing secrets and
+ * notification channel settings use the same keys, so an old key can only be
+ * retired once all of them have moved.
+ */
+const ENCRYPTED_TABLES: EncryptedTable[] = [
+  {
+    name: 'platform_connections',
+    table: platformConnections,
+    id: platformConnections.id,
+    columns: {
+      accessTokenEncrypted: platformConnections.accessTokenEncrypted,
+      refreshTokenEncrypted: platformConnections.refreshTokenEncrypted,
+      sessionDataEncrypted: platformConnections.sessionDataEncrypted,
+    },
+  },
+  {
+    name: 'webhook_endpoints',
+    table: webhookEndpoints,
+    id: webhookEndpoints.id,
+    columns: { secretEncrypted: webhookEndpoints.secretEncrypted },
+  },
+  {
+    name: 'notification_channels',
+    table: notificationChannels,
+    id: notificationChannels.id,
+    columns: { configEncrypted: notificationChannels.configEncrypted },
+  },
+];
+
+/**
+ * A row's id and encrypted columns
+ */
+type EncryptedRow = { id: string } & Record<string, EncryptedData | null>;
+
+const log = logger.child({ service: 'key-rotation' });
+
+/**
+ * Progress of a re-encryption run
+ */
+export interface ReencryptionProgress {
+  /** Rows under an older key when the run started */
+  total: number;
+  /** Rows re-encrypted and verified */
+  reencrypted: number;
+  /** Rows changed by something else mid-run; picked up by the next run */
+  skipped: number;
+  /** Rows that could not be re-encrypted or failed verification */
+  failed: number;
+}
+
+/**
+ * Options for a re-encryption run
+ */
+export interface ReencryptOptions {
+  batchSize?: number;
+  /** Called after each batch */
+  onProgress?: (progress: ReencryptionProgress) => void;
+}
+
+/**
+ * Result of a re-encryption run
+ */
+export interface ReencryptionResult extends ReencryptionProgress {
+  activeVersion: number;
+  failures: Array<{ table: string; id: string; error: string }>;
+}
+
+/**
+ * Rows with a column under a key other than the active one
+ */
+function underOlderKey(target: EncryptedTable, activeVersion: number): SQL {
+  return or(
+    ...Object.values(target.columns).map(
+      (column) => sql`(${column}->>'version')::int <> ${activeVersion}`
+    )
+  ) as SQL;
+}
+
+/**
+ * The row still holds exactly the ciphertexts that were read
+ */
+function unchangedSince(target: EncryptedTable, row: EncryptedRow): SQL {
+  return and(
+    eq(target.id, row.id),
+    ...Object.entries(target.columns).map(([key, column]) => {
+      const value = row[key];
+      const json = value ? JSON.stringify(value) : null;
+      return sql`${column} is not distinct from ${json}::jsonb`;
+    })
+  ) as SQL;
+}
+
+/**
+ * Check that each re-encrypted column holds the same plaintext as before
+ */
+function verifyColumns(
+  original: EncryptedRow,
+  stored: Record<string, unknown>,
+  keys: string[],
+  activeVersion: number
+): boolean {
+  try {
+    return keys.every((key) => {
+      const before = original[key];
+      const after = stored[key] as EncryptedData | null;
+      return (
+        !!before &&
+        !!after &&
+        after.version === activeVersion &&
+        decryptToken(after) === decryptToken(before)
+      );
+    });
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Re-encrypt one row, returning how it went
+ */
+async function reencryptRow(
+  database: Database,
+  target: EncryptedTable,
+  row: EncryptedRow,
+  activeVersion: number
+): Promise<'reencrypted' | 'skipped'> {
+  const keys = Object.keys(target.columns).filter((key) => {
+    const value = row[key];
+    return value && needsReencryption(value);
+  });
+
+  // Moved by something else since the batch was read
+  if (keys.length === 0) return 'skipped';
+
+  const updates: Record<string, EncryptedData> = {};
+  for (const key of keys) {
+    updates[key] = reencryptToken(row[key] as EncryptedData);
+  }
+
+  // Something that rewrote the row between the read and this write (a token
+  // refresh, a rotated webhook secret) wins
+  const [stored] = await database
+    .update(target.table)
+    .set(updates)
+    .where(unchangedSince(target, row))
+    .returning(target.columns);
+
+  if (!stored) return 'skipped';
+
+  if (!verifyColumns(row, stored, keys, activeVersion)) {
+    await database
+      .update(target.table)
+      .set(Object.fromEntries(keys.map((key) => [key, row[key]])))
+      .where(eq(target.id, row.id));
+    throw new Error('Re-encrypted data did not verify');
+  }
+
+  return 'reencrypted';
+}
+
+/**
+ * Re-encrypt everything stored under an older key with the active key
+ *
+ * Only rows still under an older key are read, so an interrupted run resumes
+ * where it left off when started again. Each row is written only if its
+ * ciphertexts have not changed since they were read, and the stored values
+ * are decrypted and compared afterwards; a row that fails the check gets its
+ * original ciphertexts back.
+ */
+export async function reencryptStoredSecrets(
+  options: ReencryptOptions = {},
+  database: Database = db
+): Promise<ReencryptionResult> {
+  const batchSize = options.batchSize ?? REENCRYPT_BATCH_SIZE;
+  const { activeVersion } = getKeyring();
+
+  const totals = await Promise.all(
+    ENCRYPTED_TABLES.map(async (target) => {
+      const [row] = await database
+        .select({ value: count() })
+        .from(target.table)
+        .where(underOlderKey(target, activeVersion));
+      return row?.value ?? 0;
+    })
+  );
+
+  const result: ReencryptionResult = {
+    activeVersion,
+    total: totals.reduce((sum, total) => sum + total, 0),
+    reencrypted: 0,
+    skipped: 0,
+    failed: 0,
+    failures: [],
+  };
+
+  log.info(`Re-encrypting ${result.total} rows under key version ${activeVersion}`);
+
+  for (const target of ENCRYPTED_TABLES) {
+    // Keyset cursor, so rows that fail are not read again in this run
+    let after = '';
+
+    while (true) {
+      const rows = (await database
+        .select({ id: target.id, ...target.columns })
+        .from(target.table)
+        .where(and(underOlderKey(target, activeVersion), gt(target.id, after)))
+        .orderBy(asc(target.id))
+        .limit(batchSize)) as EncryptedRow[];
+
+      for (const row of rows) {
+        after = row.id;
+
+        try {
+          const outcome = await reencryptRow(database, target, row, activeVersion);
+          result[outcome] += 1;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          result.failed += 1;
+          result.failures.push({ table: target.name, id: row.id, error: message });
+          log.error('Failed to re-encrypt row', error, { table: target.name, id: row.id });
+        }
+      }
+
+      if (rows.length > 0) {
+        options.onProgress?.({
+          total: result.total,
+          reencrypted: result.reencrypted,
+          skipped: result.skipped,
+          failed: result.failed,
+        });
+      }
+
+      if (rows.length < batchSize) break;
+    }
+  }
+
+  log.info('Re-encryption finished', {
+    activeVersion,
+    reencrypted: result.reencrypted,
+    skipped: result.skipped,
+    failed: result.failed,
+  });
+
+  return result;
+}
@@ -0,0 +1,260 @@
+import { type Database, db } from '@/lib/db';
+import { deliveryHistory } from '@/lib/db/schema';
+import { logger } from '@/lib/monitoring/logger';
+import {
+  type DeliveryStatus,
+  isFinalStatus,
+  type TimelineEvent,
+  toDate,
+  type UnifiedDelivery,
+} from '@/types/delivery';
+import type { CachedDeliveryChange } from './delivery-cache';
+
+const log = logger.child({ service: 'lifecycle' });
+
+/**
+ * Platform timestamps and the status each one marks
+ * Used to fill in transitions that happened between observations.
+ */
+const TIMESTAMP_STATUSES: Array<[keyof UnifiedDelivery['timestamps'], DeliveryStatus]> = [
+  ['confirmed', 'preparing'],
+  ['preparing', 'preparing'],
+  ['readyForPickup', 'ready_for_pickup'],
+  ['checkedIn', 'checked_in'],
+  ['driverAssigned', 'driver_assigned'],
+  ['pickedUp', 'out_for_delivery'],
+  ['outForDelivery', 'out_for_delivery'],
+  ['arriving', 'arriving'],
+  ['delivered', 'delivered'],
+  ['cancelled', 'cancelled'],
+];
+
+/**
+ * Row written to delivery_history
+ */
+export type DeliveryHistoryRecord = typeof deliveryHistory.$inferInsert;
+
+/**
+ * Persistence used by the lifecycle service
+ */
+export interface LifecycleStore {
+  /** Insert a history row, returning false if it was already archived */
+  insertHistory(record: DeliveryHistoryRecord): Promise<boolean>;
+}
+
+/**
+ * Result of archiving a finished delivery
+ */
+export interface ArchiveResult {
+  deliveryId: string;
+  externalOrderId: string;
+  finalStatus: DeliveryStatus;
+  /** False when the delivery had already been archived */
+  archived: boolean;
+}
+
+/**
+ * Normalize timeline events read back from JSONB
+ */
+function normalizeTimeline(events: TimelineEvent[] | null | undefined): TimelineEvent[] {
+  return (events ?? []).flatMap((event) => {
+    const timestamp = toDate(event.timestamp);
+    return timestamp ? [{ ...event, timestamp }] : [];
+  });
+}
+
+/**
+ * Create a timeline event for a delivery's current status
+ */
+function createTimelineEvent(delivery: UnifiedDelivery, observedAt: Date): TimelineEvent {
+  const location = delivery.driver?.location;
+
+  return {
+    status: delivery.status,
+    timestamp: toDate(delivery.statusUpdatedAt) ?? observedAt,
+    message: delivery.statusLabel,
+    location: location ? { lat: location.lat, lng: location.lng } : undefined,
+  };
+}
+
+/**
+ * Append an event to the observed timeline if the status changed
+ */
+export function appendTimelineEvent(
+  timeline: TimelineEvent[] | null | undefined,
+  delivery: UnifiedDelivery,
+  observedAt: Date = new Date()
+): TimelineEvent[] {
+  const events = normalizeTimeline(timeline);
+  const last = events[events.length - 1];
+
+  if (last?.status === delivery.status) {
+    return events;
+  }
+
+  return [...events, createTimelineEvent(delivery, observedAt)];
+}
+
+/**
+ * Build the full timeline for a delivery
+ * Combines events the platform reported (carrier scans) and observed
+ * transitions with platform timestamps for any status that was never
+ * observed directly, ordered by time. Reported events take precedence over
+ * observed ones for the same status.
+ */
+export function buildTimeline(
+  delivery: UnifiedDelivery,
+  observed: TimelineEvent[] | null | undefined
+): TimelineEvent[] {
+  const reported = normalizeTimeline(delivery.events);
+  const reportedStatuses = new Set(reported.map((event) => event.status));
+  const events = [
+    ...reported,
+    ...normalizeTimeline(observed).filter((event) => !reportedStatuses.has(event.status)),
+  ];
+  const seen = new Set(events.map((event) => event.status));
+
+  for (const [key, status] of TIMESTAMP_STATUSES) {
+    const timestamp = toDate(delivery.timestamps[key]);
+    if (timestamp && !seen.has(status)) {
+      events.push({ status, timestamp });
+      seen.add(status);
+    }
+  }
+
+  if (!seen.has(delivery.status)) {
+    events.push(createTimelineEvent(delivery, new Date()));
+  }
+
+  return events.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * Build the history row for a finished delivery
+ */
+export function buildHistoryRecord(
+  userId: string,
+  delivery: UnifiedDelivery,
+  observed: TimelineEvent[] | null | undefined,
+  promisedArrival: Date | null = null
+): DeliveryHistoryRecord {
+  const timeline = buildTimeline(delivery, observed);
+  const firstEvent = timeline[0];
+  const deliveredEvent = timeline.find((event) => event.status === 'delivered');
+
+  const orderedAt =
+    toDate(delivery.timestamps.ordered) ??
+    firstEvent?.timestamp ??
+    toDate(delivery.statusUpdatedAt);
+
+  const deliveredAt =
+    delivery.status === 'delivered'
+      ? (toDate(delivery.timestamps.delivered) ??
+        deliveredEvent?.timestamp ??
+        toDate(delivery.statusUpdatedAt))
+      : null;
+
+  return {
+    userId,
+    platform: delivery.platform,
+    externalOrderId: delivery.externalOrderId,
+    deliveryData: delivery,
+    finalStatus: delivery.status,
+    orderedAt: orderedAt ?? new Date(),
+    deliveredAt,
+    promisedArrival,
+    timeline,
+  };
+}
+
+/**
+ * Create the default database-backed lifecycle store
+ */
+export function createDatabaseLifecycleStore(database: Database = db): LifecycleStore {
+  return {
+    async insertHistory(record) {
+      const inserted = await database
+        .insert(deliveryHistory)
+        .values(record)
+        .onConflictDoNothing({
+          target: [
+            deliveryHistory.userId,
+            deliveryHistory.platform,
+            deliveryHistory.externalOrderId,
+          ],
+        })
+        .returning({ id: deliveryHistory.id });
+
+      return inserted.length > 0;
+    },
+  };
+}
+
+/**
+ * DeliveryLifecycleService class
+ * Archives deliveries into delivery_history once they are delivered or cancelled
+ */
+export class DeliveryLifecycleService {
+  private readonly store: LifecycleStore;
+
+  constructor(store: LifecycleStore = createDatabaseLifecycleStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Archive every finished delivery in a batch of cache changes
+   */
+  async processChanges(userId: string, changes: CachedDeliveryChange[]): Promise<ArchiveResult[]> {
+    const results: ArchiveResult[] = [];
+
+    for (const change of changes) {
+      if (!isFinalStatus(change.delivery.status)) continue;
+
+      try {
+        results.push(
+          await this.archive(userId, change.delivery, change.timeline, change.promisedArrival)
+        );
+      } catch (error) {
+        log.error('Failed to archive delivery', error, {
+          userId,
+          deliveryId: change.delivery.id,
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Archive a single finished delivery
+   * Safe to call repeatedly - each order is archived once.
+   */
+  async archive(
+    userId: string,
+    delivery: UnifiedDelivery,
+    observed?: TimelineEvent[] | null,
+    promisedArrival?: Date | null
+  ): Promise<ArchiveResult> {
+    const record = buildHistoryRecord(userId, delivery, observed, promisedArrival);
+    const archived = await this.store.insertHistory(record);
+
+    if (archived) {
+      log.info('Archived delivery', {
+        userId,
+        deliveryId: delivery.id,
+        platform: delivery.platform,
+        finalStatus: delivery.status,
+      });
+    }
+
+    return {
+      deliveryId: delivery.id,
+      externalOrderId: delivery.externalOrderId,
+      finalStatus: delivery.status,
+      archived,
+    };
+  }
+}
+
+// Export singleton instance
+export const deliveryLifecycle = new DeliveryLifecycleService();
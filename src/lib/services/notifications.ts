@@ -1,9 +1,41 @@
-import { and, desc, eq } from 'drizzle-orm';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import {
+  type ChannelConfig,
+  type ChannelMessage,
+  type ChannelPriority,
+  type ChannelSendResult,
+  channelSenders,
+} from '@/lib/channels';
 import { db } from '@/lib/db';
-import { notificationPreferences, notifications, pushSubscriptions } from '@/lib/db/schema';
+import {
+  notificationChannels,
+  notificationPreferences,
+  notifications,
+  pushSubscriptions,
+  suppressedNotifications,
+} from '@/lib/db/schema';
+import { decryptToken, encryptToken } from '@/lib/encryption/tokens';
+import { logger } from '@/lib/monitoring/logger';
+import {
+  getVapidConfig,
+  type PushUrgency,
+  type StoredPushTarget,
+  sendToSubscriptions,
+} from '@/lib/push';
 import { ablyChannels, publishToChannel } from '@/lib/realtime/ably';
+import { formatETADisplay } from '@/lib/services/eta';
+import { getEtaSlip, hasEtaSlipped } from '@/lib/services/eta-drift';
+import { getHouseholdPeers } from '@/lib/services/households';
+import { getZonedDateTime, parseTimeOfDay } from '@/lib/timezone';
 import type { DeliveryStatus, UnifiedDelivery } from '@/types/delivery';
-import type { Platform } from '@/types/platform';
+import type {
+  NotificationChannelType,
+  PushDeliveryStatus,
+  QuietHoursSchedule,
+} from '@/types/notification';
+import type { EncryptedData, Platform } from '@/types/platform';
+
+const log = logger.child({ service: 'notifications' });
 
 /**
  * Notification types
@@ -15,8 +47,10 @@ export type NotificationType =
   | 'arriving_soon'
   | 'delivered'
   | 'delay_detected'
+  | 'eta_slipped'
   | 'platform_connected'
-  | 'platform_disconnected';
+  | 'platform_disconnected'
+  | 'quiet_hours_digest';
 
 /**
  * Notification data payload
@@ -60,11 +94,32 @@ export interface UserNotificationPrefs {
   arrivingSoon: boolean;
   delivered: boolean;
   delayed: boolean;
+  etaSlipped: boolean;
+  etaSlipMinutes: number;
+  householdDeliveries: boolean;
   platformStatus: boolean;
   enabledPlatforms: string[] | null;
   quietHoursEnabled: boolean;
   quietHoursStart: string | null;
   quietHoursEnd: string | null;
+  quietHoursSchedule: QuietHoursSchedule | null;
+  quietHoursAllowCritical: boolean;
+  timezone: string;
+  emailDigestEnabled: boolean;
+  emailDigestTime: string;
+}
+
+/**
+ * A user's ntfy or Gotify channel, without its token
+ */
+export interface NotificationChannelSummary {
+  type: NotificationChannelType;
+  serverUrl: string;
+  topic: string | null;
+  hasToken: boolean;
+  enabled: boolean;
+  lastUsedAt: Date | null;
+  lastError: string | null;
 }
 
 /**
@@ -79,109 +134,231 @@ const DEFAULT_PREFERENCES: UserNotificationPrefs = {
   arrivingSoon: true,
   delivered: true,
   delayed: true,
+  etaSlipped: true,
+  etaSlipMinutes: 15,
+  householdDeliveries: true,
   platformStatus: true,
   enabledPlatforms: null,
   quietHoursEnabled: false,
   quietHoursStart: '22:00',
   quietHoursEnd: '08:00',
+  quietHoursSchedule: null,
+  quietHoursAllowCritical: false,
+  timezone: 'UTC',
+  emailDigestEnabled: false,
+  emailDigestTime: '07:00',
+};
+
+/**
+ * Dashboard URL that opens a delivery's card
+ */
+export function getDeliveryUrl(deliveryId: string): string {
+  return `/dashboard?delivery=${encodeURIComponent(deliveryId)}`;
+}
+
+/**
+ * Build the payload the service worker renders
+ */
+export function buildPushPayload(
+  type: NotificationType,
+  content: NotificationContent,
+  notificationId?: string
+): string {
+  return JSON.stringify({
+    type,
+    title: content.title,
+    body: content.body,
+    // Collapse repeated updates for the same delivery into one notification
+    tag: content.data?.deliveryId ? `delivery-${content.data.deliveryId}` : type,
+    data: { ...content.data, notificationId },
+  });
+}
+
+/**
+ * Push urgency for a notification type
+ * Time-sensitive updates should wake the device.
+ */
+function getPushUrgency(type: NotificationType): PushUrgency {
+  return type === 'arriving_soon' || type === 'delivered' ? 'high' : 'normal';
+}
+
+/**
+ * Channel priority for each notification type
+ * Problems and imminent arrivals are high so they break through on the phone.
+ */
+const CHANNEL_PRIORITIES: Record<NotificationType, ChannelPriority> = {
+  delivery_status_change: 'low',
+  driver_assigned: 'low',
+  out_for_delivery: 'default',
+  arriving_soon: 'high',
+  delivered: 'default',
+  delay_detected: 'high',
+  eta_slipped: 'default',
+  platform_connected: 'low',
+  platform_disconnected: 'high',
+  quiet_hours_digest: 'default',
 };
 
+/**
+ * ntfy/Gotify priority for a notification type
+ */
+export function getChannelPriority(type: NotificationType): ChannelPriority {
+  return CHANNEL_PRIORITIES[type];
+}
+
+/**
+ * Build the message forwarded to ntfy and Gotify
+ * Channel apps open links outside DropDeck, so the action URL is made absolute
+ * when the app URL is known.
+ */
+export function buildChannelMessage(
+  type: NotificationType,
+  content: NotificationContent,
+  appUrl: string | undefined = process.env.NEXT_PUBLIC_APP_URL
+): ChannelMessage {
+  const actionUrl = content.data?.actionUrl;
+
+  return {
+    title: content.title,
+    body: content.body,
+    priority: getChannelPriority(type),
+    ...(actionUrl && appUrl && { clickUrl: new URL(actionUrl, appUrl).toString() }),
+  };
+}
+
+/**
+ * Whose order a notification is about, e.g. "Your" or "Sam's"
+ */
+function getOrderPossessive(ownerName?: string): string {
+  return ownerName ? `${ownerName}'s` : 'Your';
+}
+
 /**
  * Get notification content for a delivery status change
  */
-function getDeliveryNotificationContent(
+export function getDeliveryNotificationContent(
   delivery: UnifiedDelivery,
-  _previousStatus?: DeliveryStatus
+  _previousStatus?: DeliveryStatus,
+  ownerName?: string
 ): NotificationContent {
   const platformName = getPlatformDisplayName(delivery.platform);
+  const whose = getOrderPossessive(ownerName);
 
   switch (delivery.status) {
     case 'driver_assigned':
       return {
         title: 'Driver Assigned',
-        body: `${delivery.driver?.name ?? 'Your driver'} is picking up your ${platformName} order`,
+        body: `${delivery.driver?.name ?? 'Your driver'} is picking up ${ownerName ? whose : 'your'} ${platformName} order`,
         data: {
           deliveryId: delivery.id,
           platform: delivery.platform,
           status: delivery.status,
-          actionUrl: `/delivery/${delivery.id}`,
+          actionUrl: getDeliveryUrl(delivery.id),
         },
       };
 
     case 'out_for_delivery':
       return {
         title: 'On the Way',
-        body: `Your ${platformName} order is out for delivery - arriving in ~${delivery.eta.minutesRemaining} min`,
+        body: `${whose} ${platformName} order is out for delivery - arriving in ~${delivery.eta.minutesRemaining} min`,
         data: {
           deliveryId: delivery.id,
           platform: delivery.platform,
           status: delivery.status,
-          actionUrl: `/delivery/${delivery.id}`,
+          actionUrl: getDeliveryUrl(delivery.id),
         },
       };
 
     case 'arriving':
       return {
         title: 'Almost There!',
-        body: `Your ${platformName} order arrives in ${delivery.eta.minutesRemaining} minutes`,
+        body: `${whose} ${platformName} order arrives in ${delivery.eta.minutesRemaining} minutes`,
         data: {
           deliveryId: delivery.id,
           platform: delivery.platform,
           status: delivery.status,
-          actionUrl: `/delivery/${delivery.id}`,
+          actionUrl: getDeliveryUrl(delivery.id),
         },
       };
 
     case 'delivered':
       return {
         title: 'Delivered',
-        body: `Your ${platformName} order has been delivered`,
+        body: `${whose} ${platformName} order has been delivered`,
         data: {
           deliveryId: delivery.id,
           platform: delivery.platform,
           status: delivery.status,
-          actionUrl: `/delivery/${delivery.id}`,
+          actionUrl: getDeliveryUrl(delivery.id),
         },
       };
 
     case 'delayed':
       return {
         title: 'Delivery Delayed',
-        body: `Your ${platformName} order is running late - new ETA: ${delivery.eta.minutesRemaining} min`,
+        body: `${whose} ${platformName} order is running late - new ETA: ${delivery.eta.minutesRemaining} min`,
         data: {
           deliveryId: delivery.id,
           platform: delivery.platform,
           status: delivery.status,
-          actionUrl: `/delivery/${delivery.id}`,
+          actionUrl: getDeliveryUrl(delivery.id),
         },
       };
 
     case 'cancelled':
       return {
         title: 'Order Cancelled',
-        body: `Your ${platformName} order has been cancelled`,
+        body: `${whose} ${platformName} order has been cancelled`,
         data: {
           deliveryId: delivery.id,
           platform: delivery.platform,
           status: delivery.status,
-          actionUrl: `/delivery/${delivery.id}`,
+          actionUrl: getDeliveryUrl(delivery.id),
         },
       };
 
     default:
       return {
         title: 'Delivery Update',
-        body: `Your ${platformName} order status: ${delivery.statusLabel}`,
+        body: `${whose} ${platformName} order status: ${delivery.statusLabel}`,
         data: {
           deliveryId: delivery.id,
           platform: delivery.platform,
           status: delivery.status,
-          actionUrl: `/delivery/${delivery.id}`,
+          actionUrl: getDeliveryUrl(delivery.id),
         },
       };
   }
 }
 
+/**
+ * Get notification content for an ETA that slipped past the user's threshold
+ */
+export function getEtaSlippedContent(
+  delivery: UnifiedDelivery,
+  timeZone: string,
+  ownerName?: string
+): NotificationContent {
+  const platformName = getPlatformDisplayName(delivery.platform);
+  const arrival = new Date(delivery.eta.estimatedArrival);
+  const time = arrival.toLocaleTimeString('en-US', {
+    timeZone,
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+  return {
+    title: 'ETA Slipped',
+    body: `${getOrderPossessive(ownerName)} ${platformName} order is now due at ${time}, ${formatETADisplay(getEtaSlip(delivery))} later than first promised`,
+    data: {
+      deliveryId: delivery.id,
+      platform: delivery.platform,
+      status: delivery.status,
+      actionUrl: getDeliveryUrl(delivery.id),
+    },
+  };
+}
+
 /**
  * Get platform display name
  */
@@ -198,6 +375,10 @@ function getPlatformDisplayName(platform: Platform): string {
     totalwine: 'Total Wine',
     costco: 'Costco',
     samsclub: "Sam's Club",
+    ups: 'UPS',
+    fedex: 'FedEx',
+    usps: 'USPS',
+    dhl: 'DHL',
   };
   return names[platform] ?? platform;
 }
@@ -217,28 +398,84 @@ function getNotificationTypeFromStatus(status: DeliveryStatus): NotificationType
 }
 
 /**
- * Check if current time is within quiet hours
+ * A day's quiet hours window in minutes after midnight, or null when there is none
+ */
+function getQuietHoursWindow(
+  prefs: Pick<UserNotificationPrefs, 'quietHoursStart' | 'quietHoursEnd' | 'quietHoursSchedule'>,
+  weekday: number
+): { start: number; end: number } | null {
+  const window = prefs.quietHoursSchedule
+    ? prefs.quietHoursSchedule[weekday]
+    : prefs.quietHoursStart && prefs.quietHoursEnd
+      ? { start: prefs.quietHoursStart, end: prefs.quietHoursEnd }
+      : null;
+  if (!window) return null;
+
+  const start = parseTimeOfDay(window.start);
+  const end = parseTimeOfDay(window.end);
+  if (start === null || end === null || start === end) return null;
+
+  return { start, end };
+}
+
+/**
+ * Check if an instant falls within the user's quiet hours, in their timezone
+ * Overnight windows (e.g. 22:00 - 08:00) count toward the day they start on.
  */
-function isQuietHours(prefs: UserNotificationPrefs): boolean {
-  if (!prefs.quietHoursEnabled || !prefs.quietHoursStart || !prefs.quietHoursEnd) {
+export function isQuietHours(
+  prefs: Pick<
+    UserNotificationPrefs,
+    'quietHoursEnabled' | 'quietHoursStart' | 'quietHoursEnd' | 'quietHoursSchedule' | 'timezone'
+  >,
+  now: Date = new Date()
+): boolean {
+  if (!prefs.quietHoursEnabled) {
     return false;
   }
 
-  const now = new Date();
-  const currentMinutes = now.getHours() * 60 + now.getMinutes();
+  const local = getZonedDateTime(now, prefs.timezone);
+  const minutes = local.hour * 60 + local.minute;
 
-  const [startHour = 0, startMin = 0] = prefs.quietHoursStart.split(':').map(Number);
-  const [endHour = 0, endMin = 0] = prefs.quietHoursEnd.split(':').map(Number);
+  const today = getQuietHoursWindow(prefs, local.weekday);
+  if (today && minutes >= today.start && (today.end < today.start || minutes < today.end)) {
+    return true;
+  }
 
-  const startMinutes = startHour * 60 + startMin;
-  const endMinutes = endHour * 60 + endMin;
+  // The morning end of last night's window
+  const yesterday = getQuietHoursWindow(prefs, (local.weekday + 6) % 7);
+  return !!yesterday && yesterday.end < yesterday.start && minutes < yesterday.end;
+}
+
+/**
+ * Check if a notification is critical enough to break through quiet hours
+ * when the user allows it: delays and cancellations.
+ */
+export function isCriticalNotification(type: NotificationType, status?: DeliveryStatus): boolean {
+  return type === 'delay_detected' || status === 'cancelled';
+}
 
-  // Handle overnight quiet hours (e.g., 22:00 - 08:00)
-  if (startMinutes > endMinutes) {
-    return currentMinutes >= startMinutes || currentMinutes < endMinutes;
+/**
+ * Build the digest of notifications held back during quiet hours, oldest first
+ * Only the latest update for each delivery is kept.
+ */
+export function buildQuietHoursDigestContent(held: NotificationContent[]): NotificationContent {
+  const latest = new Map<string, NotificationContent>();
+  held.forEach((content, index) => {
+    const key = content.data?.deliveryId ?? `#${index}`;
+    latest.delete(key);
+    latest.set(key, content);
+  });
+
+  const updates = [...latest.values()];
+  if (updates.length === 1 && updates[0]) {
+    return updates[0];
   }
 
-  return currentMinutes >= startMinutes && currentMinutes < endMinutes;
+  return {
+    title: `${updates.length} updates during quiet hours`,
+    body: updates.map((content) => content.body).join('\n'),
+    data: { actionUrl: '/dashboard' },
+  };
 }
 
 /**
@@ -256,6 +493,8 @@ function isNotificationTypeEnabled(type: NotificationType, prefs: UserNotificati
       return prefs.delivered;
     case 'delay_detected':
       return prefs.delayed;
+    case 'eta_slipped':
+      return prefs.etaSlipped;
     case 'platform_connected':
     case 'platform_disconnected':
       return prefs.platformStatus;
@@ -267,12 +506,22 @@ function isNotificationTypeEnabled(type: NotificationType, prefs: UserNotificati
 /**
  * Check if platform notifications are enabled
  */
-function isPlatformEnabled(platform: Platform, prefs: UserNotificationPrefs): boolean {
+export function isPlatformEnabled(
+  platform: Platform,
+  prefs: Pick<UserNotificationPrefs, 'enabledPlatforms'>
+): boolean {
   // null means all platforms enabled
   if (prefs.enabledPlatforms === null) return true;
   return prefs.enabledPlatforms.includes(platform);
 }
 
+/**
+ * Decrypt a stored channel config
+ */
+function decryptChannelConfig(configEncrypted: EncryptedData): ChannelConfig {
+  return JSON.parse(decryptToken(configEncrypted)) as ChannelConfig;
+}
+
 /**
  * NotificationService class
  * Handles all notification-related operations
@@ -299,11 +548,19 @@ export class NotificationService {
       arrivingSoon: prefs.arrivingSoon,
       delivered: prefs.delivered,
       delayed: prefs.delayed,
+      etaSlipped: prefs.etaSlipped,
+      etaSlipMinutes: prefs.etaSlipMinutes,
+      householdDeliveries: prefs.householdDeliveries,
       platformStatus: prefs.platformStatus,
       enabledPlatforms: prefs.enabledPlatforms,
       quietHoursEnabled: prefs.quietHoursEnabled,
       quietHoursStart: prefs.quietHoursStart,
       quietHoursEnd: prefs.quietHoursEnd,
+      quietHoursSchedule: prefs.quietHoursSchedule,
+      quietHoursAllowCritical: prefs.quietHoursAllowCritical,
+      timezone: prefs.timezone,
+      emailDigestEnabled: prefs.emailDigestEnabled,
+      emailDigestTime: prefs.emailDigestTime,
     };
   }
 
@@ -347,6 +604,8 @@ export class NotificationService {
       .onConflictDoUpdate({
         target: pushSubscriptions.endpoint,
         set: {
+          // A browser belongs to whoever subscribed it last
+          userId,
           p256dh: subscription.keys.p256dh,
           auth: subscription.keys.auth,
           userAgent,
@@ -359,10 +618,12 @@ export class NotificationService {
   }
 
   /**
-   * Remove a push subscription
+   * Remove one of a user's push subscriptions
    */
-  async removePushSubscription(endpoint: string): Promise<void> {
-    await db.delete(pushSubscriptions).where(eq(pushSubscriptions.endpoint, endpoint));
+  async removePushSubscription(userId: string, endpoint: string): Promise<void> {
+    await db
+      .delete(pushSubscriptions)
+      .where(and(eq(pushSubscriptions.userId, userId), eq(pushSubscriptions.endpoint, endpoint)));
   }
 
   /**
@@ -384,18 +645,79 @@ export class NotificationService {
 
   /**
    * Send a delivery update notification
+   * Goes to the delivery's owner and to the rest of their household.
    */
   async sendDeliveryUpdate(
     userId: string,
     delivery: UnifiedDelivery,
     previousStatus?: DeliveryStatus
+  ): Promise<boolean> {
+    const recipients = await this.getDeliveryRecipients(userId);
+    const sent = await Promise.all(
+      recipients.map((recipient) =>
+        this.notifyDeliveryUpdate(recipient.userId, delivery, previousStatus, recipient.ownerName)
+      )
+    );
+    return sent.some(Boolean);
+  }
+
+  /**
+   * Send an ETA slipped notification
+   * Fires when the ETA moves past another multiple of the recipient's threshold
+   * beyond the first promise; the caller passes the delivery as last seen.
+   * Goes to the delivery's owner and to the rest of their household.
+   */
+  async sendEtaSlipped(
+    userId: string,
+    delivery: UnifiedDelivery,
+    previous: UnifiedDelivery
+  ): Promise<boolean> {
+    // Skip the lookups for the common case of an ETA moving earlier
+    if (getEtaSlip(delivery) <= Math.max(0, getEtaSlip(previous))) {
+      return false;
+    }
+
+    const recipients = await this.getDeliveryRecipients(userId);
+    const sent = await Promise.all(
+      recipients.map((recipient) =>
+        this.notifyEtaSlipped(recipient.userId, delivery, previous, recipient.ownerName)
+      )
+    );
+    return sent.some(Boolean);
+  }
+
+  /**
+   * Who hears about a user's deliveries: the user, then the rest of their household
+   * Other members are told whose order it is.
+   */
+  private async getDeliveryRecipients(
+    userId: string
+  ): Promise<Array<{ userId: string; ownerName?: string }>> {
+    const peers = await getHouseholdPeers(userId);
+    const ownerName = peers.find((peer) => peer.userId === userId)?.name ?? 'A household member';
+
+    return [
+      { userId },
+      ...peers
+        .filter((peer) => peer.userId !== userId)
+        .map((peer) => ({ userId: peer.userId, ownerName })),
+    ];
+  }
+
+  /**
+   * Send one recipient a delivery update notification
+   */
+  private async notifyDeliveryUpdate(
+    userId: string,
+    delivery: UnifiedDelivery,
+    previousStatus?: DeliveryStatus,
+    ownerName?: string
   ): Promise<boolean> {
     const prefs = await this.getUserPreferences(userId);
     const notificationType = getNotificationTypeFromStatus(delivery.status);
 
-    // Check quiet hours
-    if (isQuietHours(prefs)) {
-      console.log(`[Notifications] Quiet hours active for user ${userId}`);
+    // Check whether the user follows the rest of the household
+    if (ownerName && !prefs.householdDeliveries) {
       return false;
     }
 
@@ -411,20 +733,59 @@ export class NotificationService {
       return false;
     }
 
-    const content = getDeliveryNotificationContent(delivery, previousStatus);
+    const content = getDeliveryNotificationContent(delivery, previousStatus, ownerName);
 
-    // Store in-app notification
-    if (prefs.inAppEnabled) {
-      await this.storeNotification(userId, notificationType, content);
+    // Check quiet hours, letting delays and cancellations through if the user allows it
+    const critical = isCriticalNotification(notificationType, delivery.status);
+    if (isQuietHours(prefs) && !(critical && prefs.quietHoursAllowCritical)) {
+      console.log(`[Notifications] Quiet hours active for user ${userId}`);
+      await this.holdForQuietHours(userId, notificationType, content);
+      return false;
     }
 
-    // Send push notification
-    if (prefs.pushEnabled) {
-      await this.sendPushNotifications(userId, content);
+    await this.deliver(userId, prefs, notificationType, content);
+
+    return true;
+  }
+
+  /**
+   * Send one recipient an ETA slipped notification, against their own threshold
+   */
+  private async notifyEtaSlipped(
+    userId: string,
+    delivery: UnifiedDelivery,
+    previous: UnifiedDelivery,
+    ownerName?: string
+  ): Promise<boolean> {
+    const prefs = await this.getUserPreferences(userId);
+
+    if (ownerName && !prefs.householdDeliveries) {
+      return false;
     }
 
-    // Emit for real-time in-app display
-    await this.emitNotification(userId, notificationType, content);
+    if (!hasEtaSlipped(previous, delivery, prefs.etaSlipMinutes)) {
+      return false;
+    }
+
+    if (!isNotificationTypeEnabled('eta_slipped', prefs)) {
+      console.log(`[Notifications] Type eta_slipped disabled for user ${userId}`);
+      return false;
+    }
+
+    if (!isPlatformEnabled(delivery.platform, prefs)) {
+      console.log(`[Notifications] Platform ${delivery.platform} disabled for user ${userId}`);
+      return false;
+    }
+
+    const content = getEtaSlippedContent(delivery, prefs.timezone, ownerName);
+
+    if (isQuietHours(prefs)) {
+      console.log(`[Notifications] Quiet hours active for user ${userId}`);
+      await this.holdForQuietHours(userId, 'eta_slipped', content);
+      return false;
+    }
+
+    await this.deliver(userId, prefs, 'eta_slipped', content);
 
     return true;
   }
@@ -439,7 +800,7 @@ export class NotificationService {
   ): Promise<boolean> {
     const prefs = await this.getUserPreferences(userId);
 
-    if (isQuietHours(prefs) || !prefs.platformStatus) {
+    if (!prefs.platformStatus) {
       return false;
     }
 
@@ -459,17 +820,212 @@ export class NotificationService {
       },
     };
 
-    if (prefs.inAppEnabled) {
-      await this.storeNotification(userId, notificationType, content);
+    if (isQuietHours(prefs)) {
+      await this.holdForQuietHours(userId, notificationType, content);
+      return false;
     }
 
+    await this.deliver(userId, prefs, notificationType, content);
+
+    return true;
+  }
+
+  /**
+   * Send each user whose quiet hours have ended a digest of what was held back
+   * Returns the number of digests sent.
+   */
+  async sendQuietHoursDigests(now: Date = new Date()): Promise<number> {
+    const pending = await db
+      .selectDistinct({ userId: suppressedNotifications.userId })
+      .from(suppressedNotifications);
+
+    let sent = 0;
+
+    for (const { userId } of pending) {
+      try {
+        const prefs = await this.getUserPreferences(userId);
+        if (isQuietHours(prefs, now)) continue;
+
+        // Claimed by deleting, so a digest goes out once even with several workers
+        const held = await db
+          .delete(suppressedNotifications)
+          .where(eq(suppressedNotifications.userId, userId))
+          .returning();
+        if (held.length === 0) continue;
+
+        const content = buildQuietHoursDigestContent(
+          held
+            .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+            .map((row) => ({ title: row.title, body: row.body, data: row.data ?? undefined }))
+        );
+
+        try {
+          await this.deliver(userId, prefs, 'quiet_hours_digest', content);
+        } catch (error) {
+          // Put the held notifications back so the next run retries the digest
+          await db.insert(suppressedNotifications).values(held);
+          throw error;
+        }
+        sent++;
+      } catch (error) {
+        log.error('Failed to send quiet hours digest', error, { userId });
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Get a user's ntfy and Gotify channels
+   */
+  async getNotificationChannels(userId: string): Promise<NotificationChannelSummary[]> {
+    const channels = await db.query.notificationChannels.findMany({
+      where: eq(notificationChannels.userId, userId),
+    });
+
+    return channels.map((channel) => {
+      const config = decryptChannelConfig(channel.configEncrypted);
+      return {
+        type: channel.type,
+        serverUrl: config.serverUrl,
+        topic: config.topic ?? null,
+        hasToken: Boolean(config.token),
+        enabled: channel.enabled,
+        lastUsedAt: channel.lastUsedAt,
+        lastError: channel.lastError,
+      };
+    });
+  }
+
+  /**
+   * Get the decrypted connection details of one of a user's channels
+   */
+  async getNotificationChannelConfig(
+    userId: string,
+    type: NotificationChannelType
+  ): Promise<ChannelConfig | null> {
+    const channel = await db.query.notificationChannels.findFirst({
+      where: and(eq(notificationChannels.userId, userId), eq(notificationChannels.type, type)),
+    });
+
+    return channel ? decryptChannelConfig(channel.configEncrypted) : null;
+  }
+
+  /**
+   * Create or replace a user's channel
+   */
+  async saveNotificationChannel(
+    userId: string,
+    type: NotificationChannelType,
+    config: ChannelConfig,
+    enabled = true
+  ): Promise<void> {
+    const configEncrypted = encryptToken(JSON.stringify(config));
+
+    await db
+      .insert(notificationChannels)
+      .values({ userId, type, configEncrypted, enabled })
+      .onConflictDoUpdate({
+        target: [notificationChannels.userId, notificationChannels.type],
+        set: { configEncrypted, enabled, lastError: null },
+      });
+  }
+
+  /**
+   * Turn a user's channel on or off
+   * Returns false if the user has no channel of that type.
+   */
+  async setNotificationChannelEnabled(
+    userId: string,
+    type: NotificationChannelType,
+    enabled: boolean
+  ): Promise<boolean> {
+    const updated = await db
+      .update(notificationChannels)
+      .set({ enabled })
+      .where(and(eq(notificationChannels.userId, userId), eq(notificationChannels.type, type)))
+      .returning({ id: notificationChannels.id });
+
+    return updated.length > 0;
+  }
+
+  /**
+   * Remove a user's channel
+   */
+  async removeNotificationChannel(userId: string, type: NotificationChannelType): Promise<void> {
+    await db
+      .delete(notificationChannels)
+      .where(and(eq(notificationChannels.userId, userId), eq(notificationChannels.type, type)));
+  }
+
+  /**
+   * Send a test message to one of a user's channels
+   * Ignores quiet hours and the enabled flag so a channel can be checked before use.
+   */
+  async sendTestToChannel(
+    userId: string,
+    type: NotificationChannelType
+  ): Promise<ChannelSendResult | null> {
+    const channel = await db.query.notificationChannels.findFirst({
+      where: and(eq(notificationChannels.userId, userId), eq(notificationChannels.type, type)),
+    });
+
+    if (!channel) {
+      return null;
+    }
+
+    const result = await channelSenders[type](decryptChannelConfig(channel.configEncrypted), {
+      title: 'DropDeck test notification',
+      body: 'Delivery updates will show up here.',
+      priority: 'default',
+    });
+
+    await this.recordChannelResult(channel.id, result);
+
+    return result;
+  }
+
+  /**
+   * Deliver a notification in-app, by push and to ntfy/Gotify, as the user prefers
+   */
+  private async deliver(
+    userId: string,
+    prefs: UserNotificationPrefs,
+    type: NotificationType,
+    content: NotificationContent
+  ): Promise<void> {
+    // Store in-app notification
+    const notificationId = prefs.inAppEnabled
+      ? await this.storeNotification(userId, type, content)
+      : undefined;
+
+    // Send push notification
     if (prefs.pushEnabled) {
-      await this.sendPushNotifications(userId, content);
+      await this.sendPushNotifications(userId, type, content, notificationId);
     }
 
-    await this.emitNotification(userId, notificationType, content);
+    // Forward to ntfy/Gotify
+    await this.sendChannelNotifications(userId, type, content);
 
-    return true;
+    // Emit for real-time in-app display
+    await this.emitNotification(userId, type, content);
+  }
+
+  /**
+   * Hold a notification back until the user's quiet hours end
+   */
+  private async holdForQuietHours(
+    userId: string,
+    type: NotificationType,
+    content: NotificationContent
+  ): Promise<void> {
+    await db.insert(suppressedNotifications).values({
+      userId,
+      type,
+      title: content.title,
+      body: content.body,
+      data: content.data ?? null,
+    });
   }
 
   /**
@@ -496,31 +1052,144 @@ export class NotificationService {
 
   /**
    * Send push notifications to all user devices
+   * Subscriptions the push service reports as gone (404/410) are removed, and
+   * the per-device outcome is recorded on the stored notification.
    */
   private async sendPushNotifications(
     userId: string,
-    _content: NotificationContent
-  ): Promise<void> {
-    // Note: In production, this would use the web-push library
-    // For now, we'll log the intent and update the notification record
-    const subs = await this.getPushSubscriptions(userId);
+    type: NotificationType,
+    content: NotificationContent,
+    notificationId?: string
+  ): Promise<PushDeliveryStatus[]> {
+    const vapid = getVapidConfig();
+
+    if (!vapid) {
+      log.debug('VAPID keys not configured, skipping push', { userId });
+      return [];
+    }
+
+    const subs = await this.getStoredPushSubscriptions(userId);
 
     if (subs.length === 0) {
-      console.log(`[Notifications] No push subscriptions for user ${userId}`);
+      log.debug('No push subscriptions', { userId });
+      return [];
+    }
+
+    const results = await sendToSubscriptions(
+      subs,
+      buildPushPayload(type, content, notificationId),
+      { vapid, urgency: getPushUrgency(type) }
+    );
+
+    const sentIds = results.filter((r) => r.status === 'sent').map((r) => r.subscriptionId);
+    const expiredIds = results.filter((r) => r.status === 'expired').map((r) => r.subscriptionId);
+
+    if (sentIds.length > 0) {
+      await db
+        .update(pushSubscriptions)
+        .set({ lastUsedAt: new Date() })
+        .where(inArray(pushSubscriptions.id, sentIds));
+    }
+
+    if (expiredIds.length > 0) {
+      await db.delete(pushSubscriptions).where(inArray(pushSubscriptions.id, expiredIds));
+      log.info(`Removed ${expiredIds.length} expired push subscriptions`, { userId });
+    }
+
+    if (notificationId) {
+      await db
+        .update(notifications)
+        .set({ pushSent: sentIds.length > 0, pushStatus: results })
+        .where(eq(notifications.id, notificationId));
+    }
+
+    const failed = results.filter((r) => r.status === 'failed');
+    if (failed.length > 0) {
+      log.warn(`Push failed for ${failed.length} of ${results.length} devices`, {
+        userId,
+        errors: failed.map((r) => r.error),
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Get user's push subscriptions with their row ids
+   */
+  private async getStoredPushSubscriptions(userId: string): Promise<StoredPushTarget[]> {
+    const subs = await db.query.pushSubscriptions.findMany({
+      where: eq(pushSubscriptions.userId, userId),
+    });
+
+    return subs.map((sub) => ({
+      id: sub.id,
+      endpoint: sub.endpoint,
+      keys: {
+        p256dh: sub.p256dh,
+        auth: sub.auth,
+      },
+    }));
+  }
+
+  /**
+   * Forward a notification to the user's enabled ntfy and Gotify channels
+   * Runs after the quiet hours, type and platform checks, so channels follow
+   * the same preferences as push.
+   */
+  private async sendChannelNotifications(
+    userId: string,
+    type: NotificationType,
+    content: NotificationContent
+  ): Promise<void> {
+    const channels = await db.query.notificationChannels.findMany({
+      where: and(eq(notificationChannels.userId, userId), eq(notificationChannels.enabled, true)),
+    });
+
+    if (channels.length === 0) {
       return;
     }
 
-    console.log(`[Notifications] Would send push to ${subs.length} devices for user ${userId}`);
-
-    // In production:
-    // import webpush from 'web-push';
-    // for (const sub of subs) {
-    //   await webpush.sendNotification(sub, JSON.stringify({
-    //     title: content.title,
-    //     body: content.body,
-    //     data: content.data,
-    //   }));
-    // }
+    const message = buildChannelMessage(type, content);
+
+    await Promise.all(
+      channels.map(async (channel) => {
+        let result: ChannelSendResult;
+        try {
+          const config = decryptChannelConfig(channel.configEncrypted);
+          result = await channelSenders[channel.type](config, message);
+        } catch (error) {
+          result = {
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+
+        if (!result.success) {
+          log.warn(`${channel.type} notification failed`, {
+            userId,
+            statusCode: result.statusCode,
+            error: result.error,
+          });
+        }
+
+        await this.recordChannelResult(channel.id, result);
+      })
+    );
+  }
+
+  /**
+   * Record the outcome of a channel request
+   */
+  private async recordChannelResult(channelId: string, result: ChannelSendResult): Promise<void> {
+    await db
+      .update(notificationChannels)
+      .set(
+        result.success
+          ? { lastUsedAt: new Date(), lastError: null }
+          : { lastError: result.error ?? `HTTP ${result.statusCode}` }
+      )
+      .where(eq(notificationChannels.id, channelId));
   }
 
   /**
@@ -0,0 +1,183 @@
+import { and, asc, eq, notExists } from 'drizzle-orm';
+import type { PlatformAdapter } from '@/lib/adapters/base';
+import { getAdapterAsync } from '@/lib/adapters/registry';
+import { type Database, db } from '@/lib/db';
+import { deliveryHistory, platformConnections, trackedPackages } from '@/lib/db/schema';
+import { logger } from '@/lib/monitoring/logger';
+import type { UnifiedDelivery } from '@/types/delivery';
+import type { CarrierPlatform } from '@/types/platform';
+import { upsertCachedDeliveries } from './delivery-cache';
+import { type DeliveryLifecycleService, deliveryLifecycle } from './lifecycle';
+
+const log = logger.child({ service: 'packages' });
+
+/**
+ * A tracking number a user follows
+ */
+export interface TrackedPackage {
+  id: string;
+  userId: string;
+  carrier: CarrierPlatform;
+  trackingNumber: string;
+  label: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Persistence used for tracked packages
+ */
+export interface PackageStore {
+  /** List a user's packages with a carrier that have not been archived yet */
+  listActive(userId: string, carrier: CarrierPlatform): Promise<TrackedPackage[]>;
+  /** Follow a package, updating the label if it is already followed */
+  save(input: Omit<TrackedPackage, 'id' | 'createdAt'>): Promise<TrackedPackage>;
+  /** Make sure the poller has a connection to poll the carrier through */
+  ensureConnection(userId: string, carrier: CarrierPlatform): Promise<void>;
+  /** Write tracking results to the delivery cache and archive finished packages */
+  cacheDeliveries(userId: string, deliveries: UnifiedDelivery[], expiresAt: Date): Promise<void>;
+}
+
+/**
+ * Options for creating the package tracking service
+ */
+export interface PackageTrackingServiceOptions {
+  /** Persistence layer (defaults to the database) */
+  store?: PackageStore;
+  /** Adapter lookup (defaults to the adapter registry) */
+  getAdapter?: (carrier: CarrierPlatform) => Promise<PlatformAdapter>;
+}
+
+/**
+ * Map a tracked package row
+ */
+function toTrackedPackage(row: typeof trackedPackages.$inferSelect): TrackedPackage {
+  return { ...row, carrier: row.carrier as CarrierPlatform };
+}
+
+/**
+ * Create the default database-backed package store
+ */
+export function createDatabasePackageStore(
+  database: Database = db,
+  lifecycle: Pick<DeliveryLifecycleService, 'processChanges'> = deliveryLifecycle
+): PackageStore {
+  return {
+    async listActive(userId, carrier) {
+      // Packages leave the list once the lifecycle service archives them
+      const rows = await database
+        .select()
+        .from(trackedPackages)
+        .where(
+          and(
+            eq(trackedPackages.userId, userId),
+            eq(trackedPackages.carrier, carrier),
+            notExists(
+              database
+                .select({ id: deliveryHistory.id })
+                .from(deliveryHistory)
+                .where(
+                  and(
+                    eq(deliveryHistory.userId, trackedPackages.userId),
+                    eq(deliveryHistory.platform, trackedPackages.carrier),
+                    eq(deliveryHistory.externalOrderId, trackedPackages.trackingNumber)
+                  )
+                )
+            )
+          )
+        )
+        .orderBy(asc(trackedPackages.createdAt));
+
+      return rows.map(toTrackedPackage);
+    },
+
+    async save(input) {
+      const [row] = await database
+        .insert(trackedPackages)
+        .values(input)
+        .onConflictDoUpdate({
+          target: [trackedPackages.userId, trackedPackages.carrier, trackedPackages.trackingNumber],
+          set: { label: input.label },
+        })
+        .returning();
+
+      if (!row) {
+        throw new Error('Failed to save tracked package');
+      }
+      return toTrackedPackage(row);
+    },
+
+    async ensureConnection(userId, carrier) {
+      // Carriers authenticate DropDeck, not the user, so the connection holds no credentials
+      await database
+        .insert(platformConnections)
+        .values({ userId, platform: carrier, status: 'connected' })
+        .onConflictDoUpdate({
+          target: [platformConnections.userId, platformConnections.platform],
+          set: { status: 'connected' },
+        });
+    },
+
+    async cacheDeliveries(userId, deliveries, expiresAt) {
+      const changes = await upsertCachedDeliveries(database, userId, deliveries, expiresAt);
+      await lifecycle.processChanges(userId, changes);
+    },
+  };
+}
+
+/**
+ * Package Tracking Service
+ *
+ * Follows parcels by tracking number. The carrier adapters poll them from
+ * then on; this service adds them and fetches the first result so the
+ * package shows up on the dashboard straight away.
+ */
+export class PackageTrackingService {
+  private readonly store: PackageStore;
+  private readonly getAdapter: (carrier: CarrierPlatform) => Promise<PlatformAdapter>;
+
+  constructor(options: PackageTrackingServiceOptions = {}) {
+    this.store = options.store ?? createDatabasePackageStore();
+    this.getAdapter = options.getAdapter ?? getAdapterAsync;
+  }
+
+  /**
+   * Start tracking a package
+   * The carrier is asked first, so a carrier that is not configured or
+   * rejects the request leaves nothing behind.
+   */
+  async track(
+    userId: string,
+    input: { carrier: CarrierPlatform; trackingNumber: string; label?: string | null }
+  ): Promise<{ package: TrackedPackage; delivery: UnifiedDelivery }> {
+    const adapter = await this.getAdapter(input.carrier);
+    const label = input.label?.trim() || null;
+
+    const tracked = await adapter.getDeliveryDetails(
+      { accessToken: '', userId, platform: input.carrier },
+      input.trackingNumber
+    );
+    const delivery: UnifiedDelivery = { ...tracked, label: label ?? tracked.label };
+
+    const saved = await this.store.save({
+      userId,
+      carrier: input.carrier,
+      trackingNumber: input.trackingNumber,
+      label,
+    });
+    await this.store.ensureConnection(userId, input.carrier);
+
+    const expiresAt = new Date(Date.now() + adapter.getPollingInterval(true) * 1000);
+    await this.store.cacheDeliveries(userId, [delivery], expiresAt);
+
+    log.info('Started tracking package', {
+      userId,
+      carrier: input.carrier,
+      status: delivery.status,
+    });
+
+    return { package: saved, delivery };
+  }
+}
+
+// Export singleton instance
+export const packageTrackingService = new PackageTrackingService();
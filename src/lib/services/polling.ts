@@ -0,0 +1,618 @@
+import { eq } from 'drizzle-orm';
+import type { PlatformAdapter } from '@/lib/adapters/base';
+import {
+  isPlatformAdapterError,
+  PlatformAuthError,
+  PlatformRateLimitError,
+} from '@/lib/adapters/errors';
+import { getAdapterAsync } from '@/lib/adapters/registry';
+import type { AdapterMetadata, PollingStatus } from '@/lib/adapters/types';
+import { type Database, db } from '@/lib/db';
+import { platformConnections } from '@/lib/db/schema';
+import { logger } from '@/lib/monitoring/logger';
+import {
+  type DeliveryUpdatePayload,
+  publishDeliveryUpdate,
+  publishLocationUpdate,
+} from '@/lib/realtime/pubsub';
+import { type DeliveryStatus, isFinalStatus, type UnifiedDelivery } from '@/types/delivery';
+import type { Platform } from '@/types/platform';
+import {
+  connectionManager,
+  type ManagedConnection,
+  toAdapterConnection,
+  toManagedConnection,
+} from './connections';
+import { type CachedDeliveryChange, upsertCachedDeliveries } from './delivery-cache';
+import { type DeliveryLifecycleService, deliveryLifecycle } from './lifecycle';
+import { type NotificationService, notificationService } from './notifications';
+import { type WebhookService, webhookService } from './webhooks';
+
+/**
+ * Interval used when a connection cannot be polled at all (seconds)
+ */
+const FALLBACK_INTERVAL = 300;
+
+/**
+ * Extra time cached deliveries stay valid after the next scheduled poll (seconds)
+ * Keeps the dashboard reading from cache while a poll is in flight.
+ */
+const CACHE_GRACE_PERIOD = 15;
+
+/**
+ * Default interval for re-reading the connection list (milliseconds)
+ */
+const DEFAULT_SYNC_INTERVAL_MS = 60 * 1000;
+
+const log = logger.child({ service: 'polling' });
+
+/**
+ * A connected platform account the scheduler polls
+ */
+export type PollTarget = ManagedConnection;
+
+/**
+ * Persistence used by the scheduler
+ */
+export interface PollingStore {
+  /** List every connection that should be polled */
+  listConnections(): Promise<PollTarget[]>;
+  /** Write fetched deliveries to the cache and report what changed */
+  saveDeliveries(
+    target: PollTarget,
+    deliveries: UnifiedDelivery[],
+    expiresAt: Date
+  ): Promise<CachedDeliveryChange[]>;
+  /** Record a successful sync for a connection */
+  markSynced(target: PollTarget, syncedAt: Date): Promise<void>;
+}
+
+/**
+ * Realtime publishing used by the scheduler
+ */
+export interface PollingPublisher {
+  publishDeliveryUpdate: typeof publishDeliveryUpdate;
+  publishLocationUpdate: typeof publishLocationUpdate;
+}
+
+/**
+ * Token refresh and health tracking used by the scheduler
+ */
+export interface PollingConnections {
+  ensureFresh(target: PollTarget, force?: boolean): Promise<PollTarget>;
+  recordSuccess(target: PollTarget): Promise<PollTarget>;
+  recordFailure(target: PollTarget, error: unknown): Promise<PollTarget>;
+}
+
+/**
+ * Options for creating a polling scheduler
+ */
+export interface PollingSchedulerOptions {
+  /** Persistence layer (defaults to the database) */
+  store?: PollingStore;
+  /** Adapter lookup (defaults to the adapter registry) */
+  getAdapter?: (platform: Platform) => Promise<PlatformAdapter>;
+  /** Realtime publisher (defaults to Redis/Ably pub/sub) */
+  publisher?: PollingPublisher;
+  /** Token refresh and health tracking (defaults to the connection manager) */
+  connections?: PollingConnections;
+  /** Archives finished deliveries (defaults to the lifecycle service) */
+  lifecycle?: Pick<DeliveryLifecycleService, 'processChanges'>;
+  /** Sends status change notifications (defaults to the notification service) */
+  notifier?: Pick<NotificationService, 'sendDeliveryUpdate' | 'sendEtaSlipped'>;
+  /** Queues delivery updates for user webhooks (defaults to the webhook service) */
+  webhooks?: Pick<WebhookService, 'enqueue'>;
+  /** How often to re-read the connection list in milliseconds */
+  syncIntervalMs?: number;
+}
+
+/**
+ * Result of a single poll
+ */
+export interface PollResult {
+  connectionId: string;
+  platform: Platform;
+  success: boolean;
+  deliveries: number;
+  /** Seconds until the next poll */
+  nextPollIn: number;
+  error?: string;
+}
+
+/**
+ * Internal state for a scheduled connection
+ */
+interface PollJob {
+  target: PollTarget;
+  status: PollingStatus;
+  hasActiveDelivery: boolean;
+  /** Refresh the token before the next poll (set after an auth error) */
+  forceRefresh: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+  running: boolean;
+}
+
+type PollingBounds = Pick<AdapterMetadata, 'minPollingInterval' | 'maxPollingInterval'>;
+
+/**
+ * Get the polling interval for an adapter, clamped to its bounds (seconds)
+ */
+export function getPollingInterval(adapter: PlatformAdapter, hasActiveDelivery: boolean): number {
+  const { minPollingInterval, maxPollingInterval } = adapter.metadata;
+  const interval = adapter.getPollingInterval(hasActiveDelivery);
+  return Math.min(Math.max(interval, minPollingInterval), maxPollingInterval);
+}
+
+/**
+ * Get the delay before retrying a failed poll (seconds)
+ * Rate limits always wait at least as long as the platform asked for.
+ */
+export function getBackoffDelay(
+  error: unknown,
+  baseInterval: number,
+  failureCount: number,
+  bounds: PollingBounds
+): number {
+  if (error instanceof PlatformAuthError) {
+    return bounds.maxPollingInterval;
+  }
+
+  const exponential = Math.min(baseInterval * 2 ** failureCount, bounds.maxPollingInterval);
+
+  if (error instanceof PlatformRateLimitError) {
+    return Math.max(error.retryAfter ?? 0, exponential);
+  }
+
+  if (isPlatformAdapterError(error) && !error.retryable) {
+    return bounds.maxPollingInterval;
+  }
+
+  return exponential;
+}
+
+/**
+ * Create the default database-backed polling store
+ */
+export function createDatabasePollingStore(database: Database = db): PollingStore {
+  return {
+    async listConnections() {
+      const rows = await database.query.platformConnections.findMany({
+        where: eq(platformConnections.status, 'connected'),
+      });
+
+      return rows.map(toManagedConnection);
+    },
+
+    async saveDeliveries(target, deliveries, expiresAt) {
+      return upsertCachedDeliveries(database, target.userId, deliveries, expiresAt);
+    },
+
+    async markSynced(target, syncedAt) {
+      await database
+        .update(platformConnections)
+        .set({ lastSyncAt: syncedAt })
+        .where(eq(platformConnections.id, target.connectionId));
+    },
+  };
+}
+
+/**
+ * PollingScheduler class
+ * Polls every connected platform account on the adapter's own interval,
+ * writes results to the delivery cache and publishes realtime updates.
+ */
+export class PollingScheduler {
+  private readonly store: PollingStore;
+  private readonly getAdapter: (platform: Platform) => Promise<PlatformAdapter>;
+  private readonly publisher: PollingPublisher;
+  private readonly connections: PollingConnections;
+  private readonly lifecycle: Pick<DeliveryLifecycleService, 'processChanges'>;
+  private readonly notifier: Pick<NotificationService, 'sendDeliveryUpdate' | 'sendEtaSlipped'>;
+  private readonly webhooks: Pick<WebhookService, 'enqueue'>;
+  private readonly syncIntervalMs: number;
+
+  private jobs = new Map<string, PollJob>();
+  private syncTimer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(options: PollingSchedulerOptions = {}) {
+    this.store = options.store ?? createDatabasePollingStore();
+    this.getAdapter = options.getAdapter ?? getAdapterAsync;
+    this.publisher = options.publisher ?? { publishDeliveryUpdate, publishLocationUpdate };
+    this.connections = options.connections ?? connectionManager;
+    this.lifecycle = options.lifecycle ?? deliveryLifecycle;
+    this.notifier = options.notifier ?? notificationService;
+    this.webhooks = options.webhooks ?? webhookService;
+    this.syncIntervalMs = options.syncIntervalMs ?? DEFAULT_SYNC_INTERVAL_MS;
+  }
+
+  /**
+   * Start polling all connected accounts
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+
+    this.running = true;
+    await this.syncConnections();
+
+    this.syncTimer = setInterval(() => {
+      this.syncConnections().catch((error) => {
+        log.error('Failed to sync connections', error);
+      });
+    }, this.syncIntervalMs);
+
+    log.info('Polling scheduler started', { connections: this.jobs.size });
+  }
+
+  /**
+   * Stop polling and clear all timers
+   */
+  stop(): void {
+    this.running = false;
+
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+
+    for (const job of this.jobs.values()) {
+      this.clearJob(job);
+    }
+    this.jobs.clear();
+
+    log.info('Polling scheduler stopped');
+  }
+
+  /**
+   * Check if the scheduler is running
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Re-read the connection list, adding new and dropping removed connections
+   */
+  async syncConnections(): Promise<void> {
+    const targets = await this.store.listConnections();
+    const seen = new Set<string>();
+
+    for (const target of targets) {
+      seen.add(target.connectionId);
+      const existing = this.jobs.get(target.connectionId);
+
+      if (existing) {
+        // Tokens may have been refreshed since the last sync
+        existing.target = target;
+        continue;
+      }
+
+      const job: PollJob = {
+        target,
+        status: { failureCount: 0, isActive: true },
+        hasActiveDelivery: false,
+        forceRefresh: false,
+        timer: null,
+        running: false,
+      };
+      this.jobs.set(target.connectionId, job);
+      this.schedule(job, 0);
+    }
+
+    for (const [connectionId, job] of this.jobs) {
+      if (!seen.has(connectionId)) {
+        this.clearJob(job);
+        this.jobs.delete(connectionId);
+      }
+    }
+  }
+
+  /**
+   * Poll a connection immediately, outside its regular schedule
+   */
+  async pollNow(connectionId: string): Promise<PollResult | null> {
+    const job = this.jobs.get(connectionId);
+    if (!job) return null;
+
+    if (job.timer) {
+      clearTimeout(job.timer);
+      job.timer = null;
+    }
+
+    return this.runJob(job);
+  }
+
+  /**
+   * Get polling status for a connection
+   */
+  getStatus(connectionId: string): PollingStatus | undefined {
+    const job = this.jobs.get(connectionId);
+    return job ? { ...job.status } : undefined;
+  }
+
+  /**
+   * Get polling status for all connections
+   */
+  getStatuses(): Map<string, PollingStatus> {
+    return new Map(Array.from(this.jobs, ([id, job]) => [id, { ...job.status }]));
+  }
+
+  /**
+   * Schedule the next poll for a job
+   */
+  private schedule(job: PollJob, delaySeconds: number): void {
+    if (!this.running || !job.status.isActive) return;
+
+    if (job.timer) {
+      clearTimeout(job.timer);
+    }
+
+    job.status.nextPoll = new Date(Date.now() + delaySeconds * 1000);
+    job.timer = setTimeout(() => {
+      job.timer = null;
+      void this.runJob(job);
+    }, delaySeconds * 1000);
+  }
+
+  /**
+   * Stop a job and clear its timer
+   */
+  private clearJob(job: PollJob): void {
+    job.status.isActive = false;
+    job.status.nextPoll = undefined;
+    if (job.timer) {
+      clearTimeout(job.timer);
+      job.timer = null;
+    }
+  }
+
+  /**
+   * Run a single poll and schedule the next one
+   */
+  private async runJob(job: PollJob): Promise<PollResult | null> {
+    if (job.running) return null;
+    job.running = true;
+
+    let bounds: PollingBounds = {
+      minPollingInterval: FALLBACK_INTERVAL,
+      maxPollingInterval: FALLBACK_INTERVAL,
+    };
+    let baseInterval = FALLBACK_INTERVAL;
+    let nextPollIn = FALLBACK_INTERVAL;
+
+    try {
+      // Refresh tokens ahead of expiry; a rejected refresh disconnects the job
+      job.target = await this.connections.ensureFresh(job.target, job.forceRefresh);
+      job.forceRefresh = false;
+
+      const target = job.target;
+      if (target.status !== 'connected') {
+        this.removeJob(job);
+        return {
+          connectionId: target.connectionId,
+          platform: target.platform,
+          success: false,
+          deliveries: 0,
+          nextPollIn: 0,
+          error: target.metadata?.lastError ?? `Connection is ${target.status}`,
+        };
+      }
+
+      const adapter = await this.getAdapter(target.platform);
+      bounds = adapter.metadata;
+      baseInterval = getPollingInterval(adapter, job.hasActiveDelivery);
+
+      const deliveries = await adapter.getActiveDeliveries(toAdapterConnection(target));
+      job.hasActiveDelivery = deliveries.some((d) => !isFinalStatus(d.status));
+      nextPollIn = getPollingInterval(adapter, job.hasActiveDelivery);
+
+      const now = new Date();
+      const nextFetchAt = new Date(now.getTime() + nextPollIn * 1000);
+      const stamped = deliveries.map((delivery) => ({
+        ...delivery,
+        meta: {
+          ...delivery.meta,
+          lastFetchedAt: now,
+          nextFetchAt,
+          fetchMethod: 'polling' as const,
+        },
+      }));
+
+      const expiresAt = new Date(nextFetchAt.getTime() + CACHE_GRACE_PERIOD * 1000);
+      const changes = await this.store.saveDeliveries(target, stamped, expiresAt);
+      await this.publishChanges(target.userId, changes);
+      await this.lifecycle.processChanges(target.userId, changes);
+      await this.store.markSynced(target, now);
+      job.target = await this.connections.recordSuccess(target);
+
+      job.status.failureCount = 0;
+      job.status.lastError = undefined;
+      job.status.lastPoll = now;
+
+      return {
+        connectionId: target.connectionId,
+        platform: target.platform,
+        success: true,
+        deliveries: deliveries.length,
+        nextPollIn,
+      };
+    } catch (error) {
+      const { target } = job;
+      job.status.failureCount += 1;
+      job.status.lastError = error instanceof Error ? error.message : String(error);
+
+      nextPollIn = getBackoffDelay(error, baseInterval, job.status.failureCount, bounds);
+
+      log.warn(`Poll failed for ${target.platform}`, {
+        userId: target.userId,
+        connectionId: target.connectionId,
+        failureCount: job.status.failureCount,
+        nextPollIn,
+        error: job.status.lastError,
+      });
+
+      await this.recordFailure(job, error);
+
+      return {
+        connectionId: target.connectionId,
+        platform: target.platform,
+        success: false,
+        deliveries: 0,
+        nextPollIn,
+        error: job.status.lastError,
+      };
+    } finally {
+      job.running = false;
+      if (this.jobs.get(job.target.connectionId) === job) {
+        this.schedule(job, nextPollIn);
+      }
+    }
+  }
+
+  /**
+   * Record a failed poll against the connection's health
+   * Auth errors trigger a token refresh before the next poll, and the job is
+   * dropped once the connection is no longer connected.
+   */
+  private async recordFailure(job: PollJob, error: unknown): Promise<void> {
+    try {
+      job.target = await this.connections.recordFailure(job.target, error);
+    } catch (recordError) {
+      log.error('Failed to record connection failure', recordError, {
+        connectionId: job.target.connectionId,
+      });
+      return;
+    }
+
+    if (error instanceof PlatformAuthError) {
+      job.forceRefresh = true;
+    }
+
+    if (job.target.status !== 'connected') {
+      this.removeJob(job);
+    }
+  }
+
+  /**
+   * Stop a job and forget it
+   */
+  private removeJob(job: PollJob): void {
+    this.clearJob(job);
+    if (this.jobs.get(job.target.connectionId) === job) {
+      this.jobs.delete(job.target.connectionId);
+    }
+  }
+
+  /**
+   * Send a status change notification without failing the poll
+   */
+  private async notify(
+    userId: string,
+    delivery: UnifiedDelivery,
+    previousStatus: DeliveryStatus
+  ): Promise<void> {
+    try {
+      await this.notifier.sendDeliveryUpdate(userId, delivery, previousStatus);
+    } catch (error) {
+      log.error('Failed to send delivery notification', error, {
+        userId,
+        deliveryId: delivery.id,
+      });
+    }
+  }
+
+  /**
+   * Send an ETA slipped notification without failing the poll
+   */
+  private async notifyEtaSlipped(
+    userId: string,
+    delivery: UnifiedDelivery,
+    previous: UnifiedDelivery
+  ): Promise<void> {
+    try {
+      await this.notifier.sendEtaSlipped(userId, delivery, previous);
+    } catch (error) {
+      log.error('Failed to send ETA slipped notification', error, {
+        userId,
+        deliveryId: delivery.id,
+      });
+    }
+  }
+
+  /**
+   * Queue a delivery update for the user's webhooks without failing the poll
+   * The webhook worker sends it, so slow endpoints never hold up polling.
+   */
+  private async queueWebhooks(userId: string, payload: DeliveryUpdatePayload): Promise<void> {
+    try {
+      await this.webhooks.enqueue(userId, payload);
+    } catch (error) {
+      log.error('Failed to queue delivery webhooks', error, {
+        userId,
+        deliveryId: payload.deliveryId,
+      });
+    }
+  }
+
+  /**
+   * Publish, notify and queue webhooks for deliveries that changed in the cache
+   * Anything else that writes fetched deliveries to the cache (like
+   * delivery.getActive) must report its changes here, or the next poll sees
+   * them as already known.
+   */
+  async publishChanges(userId: string, changes: CachedDeliveryChange[]): Promise<void> {
+    for (const { delivery, previous } of changes) {
+      const statusChanged = !previous || previous.status !== delivery.status;
+      const etaChanged =
+        !!previous && previous.eta.minutesRemaining !== delivery.eta.minutesRemaining;
+
+      if (statusChanged || etaChanged) {
+        const payload: DeliveryUpdatePayload = {
+          deliveryId: delivery.id,
+          platform: delivery.platform,
+          status: delivery.status,
+          statusLabel: delivery.statusLabel,
+          eta: delivery.eta.minutesRemaining,
+          previousStatus: previous?.status,
+          previousEta: previous?.eta.minutesRemaining,
+          isComplete: isFinalStatus(delivery.status),
+          delivery,
+        };
+
+        await this.publisher.publishDeliveryUpdate(userId, payload);
+        await this.queueWebhooks(userId, payload);
+      }
+
+      // Deliveries seen for the first time are not news to the user
+      if (previous && statusChanged) {
+        await this.notify(userId, delivery, previous.status);
+      } else if (previous) {
+        await this.notifyEtaSlipped(userId, delivery, previous);
+      }
+
+      const location = delivery.driver?.location;
+      if (location && hasLocationChanged(previous, location)) {
+        await this.publisher.publishLocationUpdate(userId, delivery.id, {
+          deliveryId: delivery.id,
+          platform: delivery.platform,
+          location,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Check if the driver has moved since the previously cached delivery
+ */
+function hasLocationChanged(
+  previous: UnifiedDelivery | null,
+  location: NonNullable<NonNullable<UnifiedDelivery['driver']>['location']>
+): boolean {
+  const before = previous?.driver?.location;
+  if (!before) return true;
+  return before.lat !== location.lat || before.lng !== location.lng;
+}
+
+// Export singleton instance
+export const pollingScheduler = new PollingScheduler();
@@ -0,0 +1,347 @@
+import { createHash } from 'node:crypto';
+import { and, asc, desc, eq, gt, lt } from 'drizzle-orm';
+import { type Database, db } from '@/lib/db';
+import { securityEvents } from '@/lib/db/schema';
+import { toCsvLine } from '@/lib/export';
+import { logger } from '@/lib/monitoring/logger';
+import type {
+  DecryptAuditContext,
+  SecurityChainVerification,
+  SecurityEvent,
+  SecurityEventType,
+} from '@/types/security';
+
+/**
+ * prev_hash of the first entry in every user's chain
+ */
+export const SECURITY_LOG_GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Credential decrypts for the same user and purpose are recorded at most this
+ * often (ms). The poller decrypts on every cycle, which would otherwise bury
+ * everything else in the log.
+ */
+export const DECRYPT_EVENT_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Times an append is retried when another append took the same sequence
+ */
+const MAX_APPEND_ATTEMPTS = 5;
+
+/**
+ * Entries read per query when verifying or exporting a log
+ */
+const PAGE_SIZE = 500;
+
+/**
+ * Longest user agent kept
+ */
+const MAX_USER_AGENT_LENGTH = 512;
+
+/**
+ * CSV columns of a security log export
+ */
+const CSV_COLUMNS = [
+  'sequence',
+  'created_at',
+  'event',
+  'ip_address',
+  'user_agent',
+  'details',
+  'prev_hash',
+  'hash',
+] as const;
+
+const log = logger.child({ service: 'security-log' });
+
+/**
+ * Last recorded decrypt per user and purpose, in this process
+ */
+const lastDecryptEvents = new Map<string, number>();
+
+/**
+ * Where a request came from
+ */
+export interface RequestMeta {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+/**
+ * An event to append to a user's security log
+ */
+export interface SecurityEventInput {
+  userId: string;
+  event: SecurityEventType;
+  details?: Record<string, unknown>;
+  request?: RequestMeta;
+}
+
+/**
+ * The fields an entry's hash covers
+ */
+export type ChainedSecurityEvent = Pick<
+  SecurityEvent,
+  'sequence' | 'event' | 'ipAddress' | 'userAgent' | 'details' | 'createdAt' | 'prevHash'
+> & { userId: string };
+
+/**
+ * A page of a user's security log, newest first
+ */
+export interface SecurityEventPage {
+  events: SecurityEvent[];
+  /** Sequence to pass as the cursor for the next page */
+  nextCursor: number | null;
+}
+
+/**
+ * Read the client IP and user agent from request headers
+ */
+export function getRequestMeta(headers: Headers): RequestMeta {
+  const forwardedFor = headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+
+  return {
+    ipAddress: forwardedFor || headers.get('x-real-ip') || null,
+    userAgent: headers.get('user-agent')?.slice(0, MAX_USER_AGENT_LENGTH) || null,
+  };
+}
+
+/**
+ * JSON with object keys sorted, so a value hashes the same after a round
+ * trip through jsonb (which reorders keys)
+ */
+function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object' || value instanceof Date) {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+
+  const entries = Object.entries(value)
+    .filter(([, item]) => item !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+}
+
+/**
+ * Hash a security log entry together with the hash of the entry before it
+ */
+export function hashSecurityEvent(entry: ChainedSecurityEvent): string {
+  return createHash('sha256')
+    .update(
+      canonicalJson({
+        userId: entry.userId,
+        sequence: entry.sequence,
+        event: entry.event,
+        ipAddress: entry.ipAddress,
+        userAgent: entry.userAgent,
+        details: entry.details,
+        createdAt: entry.createdAt.toISOString(),
+        prevHash: entry.prevHash,
+      })
+    )
+    .digest('hex');
+}
+
+/**
+ * Check a run of consecutive entries from one user's chain, oldest first
+ * A removed entry shows up as a broken link and an edited one as a hash
+ * mismatch. Entries removed from the end of a chain leave no gap, so the
+ * entry count should be compared with earlier checks or exports.
+ * @param previous The entry before the run, when it does not start the chain
+ */
+export function verifySecurityChain(
+  entries: ReadonlyArray<ChainedSecurityEvent & { hash: string }>,
+  previous?: { sequence: number; hash: string }
+): SecurityChainVerification {
+  let prevHash = previous?.hash ?? SECURITY_LOG_GENESIS_HASH;
+  let sequence = previous?.sequence ?? 0;
+
+  for (const [index, entry] of entries.entries()) {
+    sequence += 1;
+    if (entry.sequence !== sequence || entry.prevHash !== prevHash) {
+      return { valid: false, entries: index, sequence, reason: 'broken_link' };
+    }
+    if (hashSecurityEvent(entry) !== entry.hash) {
+      return { valid: false, entries: index, sequence, reason: 'hash_mismatch' };
+    }
+    prevHash = entry.hash;
+  }
+
+  return { valid: true, entries: entries.length };
+}
+
+/**
+ * Append an event to the user's security log
+ * Never throws: a failure is logged rather than breaking the action that
+ * triggered it.
+ */
+export async function recordSecurityEvent(
+  input: SecurityEventInput,
+  database: Database = db
+): Promise<void> {
+  try {
+    for (let attempt = 0; attempt < MAX_APPEND_ATTEMPTS; attempt++) {
+      const last = await database.query.securityEvents.findFirst({
+        where: eq(securityEvents.userId, input.userId),
+        columns: { sequence: true, hash: true },
+        orderBy: [desc(securityEvents.sequence)],
+      });
+
+      const entry: ChainedSecurityEvent = {
+        userId: input.userId,
+        sequence: (last?.sequence ?? 0) + 1,
+        event: input.event,
+        ipAddress: input.request?.ipAddress ?? null,
+        userAgent: input.request?.userAgent ?? null,
+        details: input.details ?? null,
+        createdAt: new Date(),
+        prevHash: last?.hash ?? SECURITY_LOG_GENESIS_HASH,
+      };
+
+      // The unique (user, sequence) index makes concurrent appends retry
+      // rather than fork the chain
+      const [inserted] = await database
+        .insert(securityEvents)
+        .values({ ...entry, hash: hashSecurityEvent(entry) })
+        .onConflictDoNothing({ target: [securityEvents.userId, securityEvents.sequence] })
+        .returning({ id: securityEvents.id });
+
+      if (inserted) return;
+    }
+
+    log.warn('Security event dropped after repeated sequence conflicts', {
+      userId: input.userId,
+      event: input.event,
+    });
+  } catch (error) {
+    log.error('Failed to record security event', error, {
+      userId: input.userId,
+      event: input.event,
+    });
+  }
+}
+
+/**
+ * Record that a user's stored credentials were decrypted
+ * Called by decryptToken; throttled to one entry per user and purpose every
+ * DECRYPT_EVENT_INTERVAL_MS.
+ */
+export function recordTokenDecrypt(context: DecryptAuditContext, now: number = Date.now()): void {
+  const key = `${context.userId}:${context.purpose}`;
+  const last = lastDecryptEvents.get(key);
+  if (last !== undefined && now - last < DECRYPT_EVENT_INTERVAL_MS) return;
+
+  lastDecryptEvents.set(key, now);
+  void recordSecurityEvent({
+    userId: context.userId,
+    event: 'token_decrypted',
+    details: { purpose: context.purpose },
+  });
+}
+
+/**
+ * List a user's security log, newest first
+ * @param cursor Sequence of the last entry of the previous page
+ */
+export async function listSecurityEvents(
+  database: Database,
+  userId: string,
+  options: { cursor?: number; limit?: number } = {}
+): Promise<SecurityEventPage> {
+  const limit = options.limit ?? 50;
+
+  const rows = await database.query.securityEvents.findMany({
+    where: and(
+      eq(securityEvents.userId, userId),
+      options.cursor !== undefined ? lt(securityEvents.sequence, options.cursor) : undefined
+    ),
+    orderBy: [desc(securityEvents.sequence)],
+    limit: limit + 1,
+  });
+
+  const events = rows.slice(0, limit).map(({ userId: _userId, ...event }) => event);
+
+  return {
+    events,
+    nextCursor: rows.length > limit ? (events[events.length - 1]?.sequence ?? null) : null,
+  };
+}
+
+/**
+ * Read a user's whole security log a page at a time, oldest first
+ */
+async function* readSecurityLogPages(
+  database: Database,
+  userId: string
+): AsyncGenerator<Array<typeof securityEvents.$inferSelect>> {
+  let after = 0;
+
+  while (true) {
+    const rows = await database.query.securityEvents.findMany({
+      where: and(eq(securityEvents.userId, userId), gt(securityEvents.sequence, after)),
+      orderBy: [asc(securityEvents.sequence)],
+      limit: PAGE_SIZE,
+    });
+
+    if (rows.length > 0) yield rows;
+
+    const last = rows[rows.length - 1];
+    if (!last || rows.length < PAGE_SIZE) return;
+    after = last.sequence;
+  }
+}
+
+/**
+ * Check a user's whole security log
+ */
+export async function verifyUserSecurityLog(
+  database: Database,
+  userId: string
+): Promise<SecurityChainVerification> {
+  let previous: { sequence: number; hash: string } | undefined;
+  let entries = 0;
+
+  for await (const page of readSecurityLogPages(database, userId)) {
+    const result = verifySecurityChain(page, previous);
+    if (!result.valid) return { ...result, entries: entries + result.entries };
+
+    entries += page.length;
+    previous = page[page.length - 1];
+  }
+
+  return { valid: true, entries };
+}
+
+/**
+ * Format a user's security log as CSV or NDJSON, oldest first
+ * Hashes are included so the export can be verified on its own.
+ */
+export async function* formatSecurityLog(
+  database: Database,
+  userId: string,
+  format: 'csv' | 'ndjson'
+): AsyncGenerator<string> {
+  if (format === 'csv') yield toCsvLine(CSV_COLUMNS);
+
+  for await (const page of readSecurityLogPages(database, userId)) {
+    for (const row of page) {
+      if (format === 'ndjson') {
+        yield `${JSON.stringify(row)}\n`;
+        continue;
+      }
+
+      yield toCsvLine([
+        row.sequence,
+        row.createdAt,
+        row.event,
+        row.ipAddress,
+        row.userAgent,
+        row.details ? JSON.stringify(row.details) : null,
+        row.prevHash,
+        row.hash,
+      ]);
+    }
+  }
+}
@@ -0,0 +1,221 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { and, desc, eq, gt, isNull, sql } from 'drizzle-orm';
+import { type Database, db } from '@/lib/db';
+import { deliveryCache, deliveryHistory, deliveryShares } from '@/lib/db/schema';
+import { toDate, type UnifiedDelivery } from '@/types/delivery';
+import type { SharedDelivery, SharePrivacy } from '@/types/share';
+
+/**
+ * Longest a share link can stay valid, in hours
+ */
+export const SHARE_MAX_TTL_HOURS = 72;
+
+/**
+ * A share link that has not expired or been revoked
+ */
+export interface ActiveShare {
+  id: string;
+  userId: string;
+  deliveryId: string;
+  privacy: SharePrivacy;
+  expiresAt: Date;
+}
+
+/**
+ * Generate a new share token
+ */
+export function generateShareToken(): string {
+  return `shr_${randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Hash a share token for storage and lookup
+ */
+export function hashShareToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Driver details a share link shows at a privacy level
+ * The phone number, photo and rating are never shared.
+ */
+function redactDriver(
+  driver: UnifiedDelivery['driver'],
+  privacy: SharePrivacy
+): UnifiedDelivery['driver'] {
+  if (!driver || privacy === 'eta') {
+    return undefined;
+  }
+
+  const location = driver.location && {
+    ...driver.location,
+    timestamp: toDate(driver.location.timestamp),
+  };
+
+  if (privacy === 'location') {
+    return location ? { location } : undefined;
+  }
+
+  return {
+    name: driver.name,
+    vehicle: driver.vehicle && {
+      make: driver.vehicle.make,
+      model: driver.vehicle.model,
+      color: driver.vehicle.color,
+    },
+    location,
+  };
+}
+
+/**
+ * A delivery as shown on a public share link
+ * Built field by field, so anything added to UnifiedDelivery later stays
+ * private until it is listed here. Order items, prices, instructions, tracking
+ * URLs and raw platform data are left out.
+ */
+export function redactSharedDelivery(
+  delivery: UnifiedDelivery,
+  privacy: SharePrivacy
+): UnifiedDelivery {
+  const { eta, timestamps } = delivery;
+
+  return {
+    id: delivery.id,
+    platform: delivery.platform,
+    externalOrderId: delivery.externalOrderId,
+    label: delivery.label,
+    status: delivery.status,
+    statusLabel: delivery.statusLabel,
+    statusUpdatedAt: toDate(delivery.statusUpdatedAt),
+    driver: redactDriver(delivery.driver, privacy),
+    destination: {
+      address: delivery.destination.address,
+      addressLine1: delivery.destination.addressLine1,
+      city: delivery.destination.city,
+      state: delivery.destination.state,
+      zipCode: delivery.destination.zipCode,
+      lat: delivery.destination.lat,
+      lng: delivery.destination.lng,
+    },
+    eta: {
+      estimatedArrival: toDate(eta.estimatedArrival),
+      minutesRemaining: eta.minutesRemaining,
+      distanceRemaining: eta.distanceRemaining,
+      stopsRemaining: eta.stopsRemaining,
+      trafficConditions: eta.trafficConditions,
+      confidence: eta.confidence,
+      window: eta.window && { start: toDate(eta.window.start), end: toDate(eta.window.end) },
+      revisions: eta.revisions?.map((revision) => ({
+        estimatedArrival: toDate(revision.estimatedArrival),
+        observedAt: toDate(revision.observedAt),
+      })),
+    },
+    carrier: delivery.carrier && { name: delivery.carrier.name },
+    events: delivery.events?.map((event) => ({
+      status: event.status,
+      timestamp: toDate(event.timestamp),
+      message: event.message,
+    })),
+    order: { itemCount: delivery.order.itemCount },
+    tracking: {
+      mapAvailable: delivery.tracking.mapAvailable,
+      liveUpdates: privacy !== 'eta' && delivery.tracking.liveUpdates,
+      contactDriverAvailable: false,
+    },
+    timestamps: {
+      ordered: toDate(timestamps.ordered),
+      confirmed: toDate(timestamps.confirmed),
+      preparing: toDate(timestamps.preparing),
+      readyForPickup: toDate(timestamps.readyForPickup),
+      driverAssigned: toDate(timestamps.driverAssigned),
+      pickedUp: toDate(timestamps.pickedUp),
+      outForDelivery: toDate(timestamps.outForDelivery),
+      arriving: toDate(timestamps.arriving),
+      delivered: toDate(timestamps.delivered),
+      cancelled: toDate(timestamps.cancelled),
+    },
+    meta: {
+      lastFetchedAt: toDate(delivery.meta.lastFetchedAt),
+      fetchMethod: delivery.meta.fetchMethod,
+      adapterId: delivery.meta.adapterId,
+    },
+  };
+}
+
+/**
+ * Find the share a token belongs to
+ * @returns The share, or null for unknown, expired and revoked tokens
+ */
+export async function findActiveShare(
+  token: string,
+  database: Database = db,
+  now: Date = new Date()
+): Promise<ActiveShare | null> {
+  const share = await database.query.deliveryShares.findFirst({
+    where: and(
+      eq(deliveryShares.tokenHash, hashShareToken(token)),
+      isNull(deliveryShares.revokedAt),
+      gt(deliveryShares.expiresAt, now)
+    ),
+    columns: { id: true, userId: true, deliveryId: true, privacy: true, expiresAt: true },
+  });
+
+  return share ?? null;
+}
+
+/**
+ * Load a user's delivery by its UnifiedDelivery id
+ * Deliveries are looked up in history once they leave the cache, so a link
+ * keeps showing the outcome until it expires.
+ */
+export async function findUserDelivery(
+  userId: string,
+  deliveryId: string,
+  database: Database = db
+): Promise<UnifiedDelivery | null> {
+  const cached = await database.query.deliveryCache.findFirst({
+    where: and(
+      eq(deliveryCache.userId, userId),
+      sql`${deliveryCache.deliveryData}->>'id' = ${deliveryId}`
+    ),
+    columns: { deliveryData: true },
+  });
+  if (cached) return cached.deliveryData;
+
+  const archived = await database.query.deliveryHistory.findFirst({
+    where: and(
+      eq(deliveryHistory.userId, userId),
+      sql`${deliveryHistory.deliveryData}->>'id' = ${deliveryId}`
+    ),
+    columns: { deliveryData: true },
+    orderBy: [desc(deliveryHistory.orderedAt)],
+  });
+
+  return archived?.deliveryData ?? null;
+}
+
+/**
+ * Load the delivery behind a share token, redacted for the public page
+ * @returns null for unknown, expired and revoked tokens
+ */
+export async function getSharedDelivery(
+  token: string,
+  database: Database = db
+): Promise<SharedDelivery | null> {
+  const share = await findActiveShare(token, database);
+  if (!share) return null;
+
+  const delivery = await findUserDelivery(share.userId, share.deliveryId, database);
+  if (!delivery) return null;
+
+  await database
+    .update(deliveryShares)
+    .set({ lastViewedAt: new Date() })
+    .where(eq(deliveryShares.id, share.id));
+
+  return {
+    delivery: redactSharedDelivery(delivery, share.privacy),
+    privacy: share.privacy,
+    expiresAt: share.expiresAt,
+  };
+}
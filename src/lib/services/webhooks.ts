@@ -0,0 +1,513 @@
+import { createHmac, randomBytes } from 'node:crypto';
+import { and, eq, lte } from 'drizzle-orm';
+import { type Database, db } from '@/lib/db';
+import { webhookDeliveries, webhookEndpoints } from '@/lib/db/schema';
+import { decryptToken } from '@/lib/encryption/tokens';
+import { logger } from '@/lib/monitoring/logger';
+import { findPrivateAddress, type HostLookup, isPrivateHost, lookupHost } from '@/lib/network';
+import { type DeliveryUpdateEvent, deliveryUpdateSchema } from '@/lib/realtime/events';
+import type { DeliveryUpdatePayload } from '@/lib/realtime/pubsub';
+
+/**
+ * Attempts before a webhook delivery is marked failed
+ */
+const DEFAULT_MAX_ATTEMPTS = 6;
+
+/**
+ * Delay before the first retry (seconds), doubled on every attempt
+ */
+const BASE_RETRY_DELAY = 30;
+
+/**
+ * Longest delay between retries (seconds)
+ */
+const MAX_RETRY_DELAY = 60 * 60;
+
+/**
+ * Give up on an endpoint request after this long (ms)
+ */
+const REQUEST_TIMEOUT = 10_000;
+
+const log = logger.child({ service: 'webhooks' });
+
+/**
+ * A registered outbound webhook endpoint
+ */
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+
+/**
+ * A webhook delivery log entry
+ */
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
+/**
+ * Fields recorded after each delivery attempt
+ */
+export type WebhookDeliveryUpdate = Pick<
+  WebhookDelivery,
+  'status' | 'attempts' | 'responseStatus' | 'error' | 'nextAttemptAt' | 'lastAttemptAt'
+>;
+
+/**
+ * Which delivery updates an endpoint receives
+ * Every filter that is set must match; null means no filter.
+ */
+export type WebhookFilter = Pick<
+  WebhookEndpoint,
+  'platforms' | 'statuses' | 'arrivingWithinMinutes'
+>;
+
+/**
+ * JSON body sent to webhook endpoints
+ */
+export interface WebhookEventBody extends DeliveryUpdateEvent {
+  /** Delivery log id, stable across retries */
+  id: string;
+  /** Set on events sent with "send test event" */
+  test?: boolean;
+}
+
+/**
+ * Result of a single request to an endpoint
+ */
+export interface WebhookAttemptResult {
+  success: boolean;
+  statusCode?: number;
+  /** Worth trying again later */
+  retryable: boolean;
+  error?: string;
+}
+
+/**
+ * Persistence used by the webhook service
+ */
+export interface WebhookStore {
+  /** List a user's enabled endpoints */
+  listEnabledEndpoints(userId: string): Promise<WebhookEndpoint[]>;
+  /** Get one of a user's endpoints */
+  getEndpoint(userId: string, endpointId: string): Promise<WebhookEndpoint | null>;
+  /** Add a delivery log entry, returning its id */
+  createDelivery(
+    delivery: Pick<WebhookDelivery, 'endpointId' | 'userId' | 'eventType' | 'payload'> &
+      Partial<Pick<WebhookDelivery, 'nextAttemptAt'>>
+  ): Promise<string>;
+  /** Record the outcome of an attempt */
+  updateDelivery(deliveryId: string, update: WebhookDeliveryUpdate): Promise<void>;
+  /** List pending deliveries whose next attempt is due, with their enabled endpoints */
+  listDueDeliveries(
+    now: Date,
+    limit: number
+  ): Promise<Array<{ delivery: WebhookDelivery; endpoint: WebhookEndpoint }>>;
+}
+
+/**
+ * Options for creating a webhook service
+ */
+export interface WebhookServiceOptions {
+  /** Persistence layer (defaults to the database) */
+  store?: WebhookStore;
+  /** Fetch implementation (defaults to global fetch) */
+  fetch?: typeof fetch;
+  /** DNS lookup used to check endpoint addresses (defaults to the system resolver) */
+  lookup?: HostLookup;
+  /** Attempts before a delivery is marked failed */
+  maxAttempts?: number;
+}
+
+/**
+ * Generate a new signing secret for an endpoint
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * Check that a URL can be registered as an endpoint
+ * Returns an error message, or null if the URL is acceptable. Requests come
+ * from our servers, so loopback and private network addresses are refused;
+ * names are checked again where they resolve before each request.
+ */
+export function validateWebhookUrl(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'Enter a valid URL';
+  }
+
+  if (url.protocol !== 'https:') {
+    return 'Webhook URLs must use HTTPS';
+  }
+
+  if (url.username || url.password) {
+    return 'Put credentials in the signing secret, not the URL';
+  }
+
+  if (isPrivateHost(url.hostname)) {
+    return 'Webhook URLs must be reachable from the internet';
+  }
+
+  return null;
+}
+
+/**
+ * Sign a webhook body
+ * The signature covers the timestamp so captured requests cannot be replayed later.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Check whether a delivery update passes an endpoint's filters
+ * "Arriving within N minutes" only matches when the ETA first drops into the
+ * window, so automations fire once rather than on every ETA tick.
+ */
+export function matchesWebhookFilter(
+  filter: WebhookFilter,
+  payload: DeliveryUpdatePayload
+): boolean {
+  if (filter.platforms?.length && !filter.platforms.includes(payload.platform)) {
+    return false;
+  }
+
+  if (filter.statuses?.length && !filter.statuses.includes(payload.status)) {
+    return false;
+  }
+
+  const window = filter.arrivingWithinMinutes;
+  if (window !== null && window !== undefined) {
+    if (payload.isComplete || payload.eta === undefined || payload.eta > window) {
+      return false;
+    }
+    if (payload.previousEta !== undefined && payload.previousEta <= window) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Build the event sent to endpoints from a delivery update
+ */
+export function buildWebhookEvent(
+  payload: DeliveryUpdatePayload,
+  timestamp: Date = new Date()
+): DeliveryUpdateEvent {
+  // Parsing drops fields outside the public event shape (e.g. the full delivery)
+  return deliveryUpdateSchema.parse({
+    type: 'delivery_update',
+    timestamp: timestamp.toISOString(),
+    payload,
+  });
+}
+
+/**
+ * Build a sample event for "send test event"
+ */
+export function buildTestEvent(timestamp: Date = new Date()): DeliveryUpdateEvent {
+  return buildWebhookEvent(
+    {
+      deliveryId: 'test_delivery',
+      platform: 'doordash',
+      status: 'arriving',
+      statusLabel: 'Arriving',
+      eta: 5,
+      previousStatus: 'out_for_delivery',
+      previousEta: 12,
+      isComplete: false,
+    },
+    timestamp
+  );
+}
+
+/**
+ * Seconds to wait before the next attempt
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY);
+}
+
+/**
+ * Check if an endpoint response is worth retrying
+ * Other client errors mean the endpoint rejected the request and will keep doing so.
+ */
+function isRetryableStatus(statusCode: number): boolean {
+  return statusCode === 408 || statusCode === 429 || statusCode >= 500;
+}
+
+/**
+ * Create the default database-backed webhook store
+ */
+export function createDatabaseWebhookStore(database: Database = db): WebhookStore {
+  return {
+    async listEnabledEndpoints(userId) {
+      return database.query.webhookEndpoints.findMany({
+        where: and(eq(webhookEndpoints.userId, userId), eq(webhookEndpoints.enabled, true)),
+      });
+    },
+
+    async getEndpoint(userId, endpointId) {
+      const endpoint = await database.query.webhookEndpoints.findFirst({
+        where: and(eq(webhookEndpoints.id, endpointId), eq(webhookEndpoints.userId, userId)),
+      });
+      return endpoint ?? null;
+    },
+
+    async createDelivery(delivery) {
+      const [row] = await database
+        .insert(webhookDeliveries)
+        .values(delivery)
+        .returning({ id: webhookDeliveries.id });
+      return row?.id ?? '';
+    },
+
+    async updateDelivery(deliveryId, update) {
+      await database
+        .update(webhookDeliveries)
+        .set(update)
+        .where(eq(webhookDeliveries.id, deliveryId));
+    },
+
+    async listDueDeliveries(now, limit) {
+      const rows = await database
+        .select({ delivery: webhookDeliveries, endpoint: webhookEndpoints })
+        .from(webhookDeliveries)
+        .innerJoin(webhookEndpoints, eq(webhookDeliveries.endpointId, webhookEndpoints.id))
+        .where(
+          and(
+            eq(webhookDeliveries.status, 'pending'),
+            lte(webhookDeliveries.nextAttemptAt, now),
+            eq(webhookEndpoints.enabled, true)
+          )
+        )
+        .orderBy(webhookDeliveries.nextAttemptAt)
+        .limit(limit);
+      return rows;
+    },
+  };
+}
+
+/**
+ * WebhookService class
+ * Sends signed delivery events to user-registered endpoints, retrying failed
+ * requests with exponential backoff and keeping a delivery log.
+ */
+export class WebhookService {
+  private readonly store: WebhookStore;
+  private readonly fetch: typeof fetch;
+  private readonly lookup: HostLookup;
+  private readonly maxAttempts: number;
+
+  constructor(options: WebhookServiceOptions = {}) {
+    this.store = options.store ?? createDatabaseWebhookStore();
+    this.fetch = options.fetch ?? ((input, init) => fetch(input, init));
+    this.lookup = options.lookup ?? lookupHost;
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  }
+
+  /**
+   * Send a delivery update to every matching endpoint of a user
+   * Returns the number of endpoints the event was sent to.
+   */
+  async dispatch(userId: string, payload: DeliveryUpdatePayload): Promise<number> {
+    const queued = await this.queue(userId, payload, null);
+
+    await Promise.all(
+      queued.map(({ endpoint, deliveryId, event }) =>
+        this.attempt(endpoint, deliveryId, { ...event, id: deliveryId }, 0)
+      )
+    );
+
+    return queued.length;
+  }
+
+  /**
+   * Queue a delivery update for the webhook worker to send
+   * Callers that must not wait on users' endpoints, like the poller, use this
+   * instead of dispatch. Returns the number of endpoints the event was queued for.
+   */
+  async enqueue(
+    userId: string,
+    payload: DeliveryUpdatePayload,
+    now: Date = new Date()
+  ): Promise<number> {
+    const queued = await this.queue(userId, payload, now);
+    return queued.length;
+  }
+
+  /**
+   * Log a pending delivery for each matching endpoint
+   * Deliveries without a next attempt time are left for the caller to send.
+   */
+  private async queue(
+    userId: string,
+    payload: DeliveryUpdatePayload,
+    nextAttemptAt: Date | null
+  ): Promise<Array<{ endpoint: WebhookEndpoint; deliveryId: string; event: DeliveryUpdateEvent }>> {
+    const endpoints = await this.store.listEnabledEndpoints(userId);
+    const matching = endpoints.filter((endpoint) => matchesWebhookFilter(endpoint, payload));
+
+    if (matching.length === 0) {
+      return [];
+    }
+
+    const event = buildWebhookEvent(payload);
+
+    return Promise.all(
+      matching.map(async (endpoint) => ({
+        endpoint,
+        event,
+        deliveryId: await this.store.createDelivery({
+          endpointId: endpoint.id,
+          userId,
+          eventType: event.type,
+          payload: event,
+          nextAttemptAt,
+        }),
+      }))
+    );
+  }
+
+  /**
+   * Send a sample event to one endpoint right away, without retries
+   */
+  async sendTest(userId: string, endpointId: string): Promise<WebhookAttemptResult | null> {
+    const endpoint = await this.store.getEndpoint(userId, endpointId);
+    if (!endpoint) {
+      return null;
+    }
+
+    const event = buildTestEvent();
+    const deliveryId = await this.store.createDelivery({
+      endpointId: endpoint.id,
+      userId,
+      eventType: 'test',
+      payload: event,
+    });
+
+    return this.attempt(endpoint, deliveryId, { ...event, id: deliveryId, test: true }, 0, {
+      retry: false,
+    });
+  }
+
+  /**
+   * Send queued deliveries and retry those whose backoff has elapsed
+   * Returns the number of deliveries attempted.
+   */
+  async retryDue(now: Date = new Date(), limit = 100): Promise<number> {
+    const due = await this.store.listDueDeliveries(now, limit);
+
+    for (const { delivery, endpoint } of due) {
+      const body = { ...(delivery.payload as unknown as DeliveryUpdateEvent), id: delivery.id };
+      await this.attempt(endpoint, delivery.id, body, delivery.attempts);
+    }
+
+    return due.length;
+  }
+
+  /**
+   * Make one request and record the outcome in the delivery log
+   */
+  private async attempt(
+    endpoint: WebhookEndpoint,
+    deliveryId: string,
+    body: WebhookEventBody,
+    previousAttempts: number,
+    options: { retry?: boolean } = {}
+  ): Promise<WebhookAttemptResult> {
+    const now = new Date();
+    const attempts = previousAttempts + 1;
+    const result = await this.send(endpoint, body, now);
+
+    const willRetry =
+      !result.success && result.retryable && options.retry !== false && attempts < this.maxAttempts;
+
+    await this.store.updateDelivery(deliveryId, {
+      status: result.success ? 'succeeded' : willRetry ? 'pending' : 'failed',
+      attempts,
+      responseStatus: result.statusCode ?? null,
+      error: result.error ?? null,
+      lastAttemptAt: now,
+      nextAttemptAt: willRetry ? new Date(now.getTime() + getRetryDelay(attempts) * 1000) : null,
+    });
+
+    if (!result.success) {
+      log.warn(`Webhook delivery failed${willRetry ? ', will retry' : ''}`, {
+        userId: endpoint.userId,
+        endpointId: endpoint.id,
+        deliveryId,
+        attempts,
+        statusCode: result.statusCode,
+        error: result.error,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * POST a signed event to an endpoint
+   */
+  private async send(
+    endpoint: WebhookEndpoint,
+    body: WebhookEventBody,
+    now: Date
+  ): Promise<WebhookAttemptResult> {
+    try {
+      // A public name can point at a private address, or be changed to later
+      const privateAddress = await findPrivateAddress(new URL(endpoint.url).hostname, this.lookup);
+      if (privateAddress) {
+        return {
+          success: false,
+          retryable: false,
+          error: 'Endpoint resolves to a private network address',
+        };
+      }
+
+      const json = JSON.stringify(body);
+      const timestamp = Math.floor(now.getTime() / 1000);
+      const secret = decryptToken(endpoint.secretEncrypted, {
+        userId: endpoint.userId,
+        purpose: 'webhook_signing',
+      });
+
+      const response = await this.fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'DropDeck-Webhooks/1.0',
+          'X-DropDeck-Event': body.type,
+          'X-DropDeck-Delivery': body.id,
+          'X-DropDeck-Timestamp': String(timestamp),
+          'X-DropDeck-Signature': signWebhookPayload(secret, timestamp, json),
+        },
+        body: json,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+      });
+
+      if (response.ok) {
+        return { success: true, statusCode: response.status, retryable: false };
+      }
+
+      // Only the status is kept; the body could be an internal service's reply
+      return {
+        success: false,
+        statusCode: response.status,
+        retryable: isRetryableStatus(response.status),
+        error: `HTTP ${response.status}`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        retryable: true,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+}
+
+// Export singleton instance
+export const webhookService = new WebhookService();
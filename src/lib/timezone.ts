@@ -0,0 +1,144 @@
+/**
+ * Timezone helpers
+ * Built on Intl so IANA zones work without a date library.
+ */
+
+/**
+ * Wall-clock date and time in a timezone
+ */
+export interface ZonedDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  /** 0 = Sunday */
+  weekday: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check if a string is an IANA timezone the runtime knows
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the wall-clock time of an instant in a timezone
+ */
+export function getZonedDateTime(date: Date, timeZone: string): ZonedDateTime {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(date)
+      .map((part) => [part.type, part.value])
+  );
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday ?? ''),
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at an instant (milliseconds, east positive)
+ */
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(date)
+      .map((part) => [part.type, part.value])
+  );
+
+  const asUtc = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second)
+  );
+
+  return asUtc - (date.getTime() - date.getMilliseconds());
+}
+
+/**
+ * Get the instant a wall-clock time occurs in a timezone
+ * Wall-clock times that do not exist (skipped by a DST change) shift by the size of the gap.
+ */
+export function fromZonedDateTime(
+  local: Pick<ZonedDateTime, 'year' | 'month' | 'day'> & Partial<ZonedDateTime>,
+  timeZone: string
+): Date {
+  const asUtc = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour ?? 0,
+    local.minute ?? 0
+  );
+
+  // The offset at the target instant can differ from the offset at asUtc around DST changes
+  const firstGuess = asUtc - getTimeZoneOffset(new Date(asUtc), timeZone);
+  const offset = getTimeZoneOffset(new Date(firstGuess), timeZone);
+  return new Date(asUtc - offset);
+}
+
+/**
+ * Get the start of the local day containing an instant
+ * Pass a day offset to get the start of an earlier or later day.
+ */
+export function getZonedStartOfDay(date: Date, timeZone: string, dayOffset = 0): Date {
+  const { year, month, day } = getZonedDateTime(date, timeZone);
+  // Date.UTC normalizes out-of-range days (e.g. day 0 = last day of the previous month)
+  const target = new Date(Date.UTC(year, month - 1, day + dayOffset));
+
+  return fromZonedDateTime(
+    {
+      year: target.getUTCFullYear(),
+      month: target.getUTCMonth() + 1,
+      day: target.getUTCDate(),
+    },
+    timeZone
+  );
+}
+
+/**
+ * Parse a 24-hour "HH:MM" time into minutes after midnight
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
@@ -1,7 +1,20 @@
 import { initTRPC, TRPCError } from '@trpc/server';
 import superjson from 'superjson';
+import { RateLimitError } from '@/lib/errors';
+import { logger } from '@/lib/monitoring/logger';
+import {
+  apiRateLimiter,
+  checkRateLimit,
+  getRetryAfterSeconds,
+  procedureRateLimiters,
+  type RateLimitResult,
+} from '@/lib/ratelimit';
+import { isAdmin } from '@/lib/services/admin';
+import { getRequestMeta } from '@/lib/services/security-log';
 import type { Context } from './context';
 
+const log = logger.child({ service: 'trpc' });
+
 /**
  * tRPC initialization for DropDeck
  * Configures transformer, error formatting, and base procedures
@@ -16,6 +29,8 @@ const t = initTRPC.context<Context>().create({
         zodError: error.cause instanceof Error ? error.cause.message : null,
         code: error.code,
         retryable: isRetryableError(error.code),
+        // Seconds to wait before retrying a rate limited call
+        retryAfter: error.cause instanceof RateLimitError ? error.cause.retryAfter : null,
       },
     };
   },
@@ -39,32 +54,92 @@ export const router = t.router;
  */
 export const mergeRouters = t.mergeRouters;
 
+/**
+ * Rate limit middleware
+ * Every call counts against the caller's API budget, and the procedures in
+ * procedureRateLimiters against their own tighter one as well. Callers are
+ * counted by user when signed in and by IP address otherwise; server-side
+ * calls and subscriptions are not limited. If the limiter itself fails, the
+ * call is let through.
+ */
+const rateLimit = t.middleware(async ({ ctx, path, type, next }) => {
+  if (ctx.source === 'server' || type === 'subscription') {
+    return next();
+  }
+
+  const caller = ctx.user?.id ?? getRequestMeta(ctx.headers).ipAddress ?? 'anonymous';
+  const procedureLimiter = procedureRateLimiters[path];
+
+  let results: RateLimitResult[];
+  try {
+    results = await Promise.all([
+      checkRateLimit(apiRateLimiter, caller),
+      ...(procedureLimiter ? [checkRateLimit(procedureLimiter, caller)] : []),
+    ]);
+  } catch (error) {
+    log.warn('Rate limit check failed, allowing request', {
+      path,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return next();
+  }
+
+  const refused = results.find((result) => !result.success);
+  if (refused) {
+    const retryAfter = Math.max(1, getRetryAfterSeconds(refused));
+    throw new TRPCError({
+      code: 'TOO_MANY_REQUESTS',
+      message: `Too many requests. Please try again in ${retryAfter} seconds.`,
+      cause: new RateLimitError(retryAfter, { path, limit: refused.limit }),
+    });
+  }
+
+  return next();
+});
+
 /**
  * Public procedure - no authentication required
- * Use for public endpoints like health checks
+ * Use for public endpoints like health checks; rate limited by IP address
  */
-export const publicProcedure = t.procedure;
+export const publicProcedure = t.procedure.use(rateLimit);
 
 /**
  * Protected procedure - authentication required
- * Throws UNAUTHORIZED if no valid session
+ * Throws UNAUTHORIZED if no valid session; rate limited per user
+ */
+export const protectedProcedure = t.procedure
+  .use(async ({ ctx, next }) => {
+    if (!ctx.session?.user) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'You must be logged in to access this resource',
+      });
+    }
+
+    return next({
+      ctx: {
+        ...ctx,
+        // Guaranteed to have user after this middleware
+        session: ctx.session,
+        user: ctx.session.user,
+      },
+    });
+  })
+  .use(rateLimit);
+
+/**
+ * Admin procedure - admin role required
+ * Throws FORBIDDEN for signed-in users without the role
  */
-export const protectedProcedure = t.procedure.use(async ({ ctx, next }) => {
-  if (!ctx.session?.user) {
+export const adminProcedure = protectedProcedure.use(async ({ ctx, next }) => {
+  if (!(await isAdmin(ctx.user.id as string, ctx.db))) {
     throw new TRPCError({
-      code: 'UNAUTHORIZED',
-      message: 'You must be logged in to access this resource',
+      code: 'FORBIDDEN',
+      message: 'You must be an admin to access this resource',
     });
   }
 
-  return next({
-    ctx: {
-      ...ctx,
-      // Guaranteed to have user after this middleware
-      session: ctx.session,
-      user: ctx.session.user,
-    },
-  });
+  return next();
 });
 
 /**
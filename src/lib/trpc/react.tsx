@@ -1,7 +1,13 @@
 'use client';
 
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import { httpBatchLink, loggerLink } from '@trpc/client';
+import {
+  httpBatchLink,
+  httpSubscriptionLink,
+  loggerLink,
+  splitLink,
+  TRPCClientError,
+} from '@trpc/client';
 import { createTRPCReact } from '@trpc/react-query';
 import { useState } from 'react';
 import superjson from 'superjson';
@@ -25,6 +31,15 @@ function getBaseUrl(): string {
   return `http://localhost:${process.env.PORT ?? 3000}`;
 }
 
+/**
+ * How long a rate limited call asked the client to wait (ms)
+ */
+function getRetryAfterMs(error: unknown): number | null {
+  if (!(error instanceof TRPCClientError)) return null;
+  const retryAfter = (error as TRPCClientError<AppRouter>).data?.retryAfter;
+  return typeof retryAfter === 'number' ? retryAfter * 1000 : null;
+}
+
 /**
  * Create query client with sensible defaults
  */
@@ -43,6 +58,9 @@ function createQueryClient(): QueryClient {
           }
           return failureCount < 3;
         },
+        // Wait out a rate limit instead of retrying straight into it
+        retryDelay: (failureCount, error) =>
+          getRetryAfterMs(error) ?? Math.min(1000 * 2 ** failureCount, 30 * 1000),
         refetchOnWindowFocus: false,
       },
       mutations: {
@@ -68,15 +86,22 @@ export function TRPCProvider({ children }: { children: React.ReactNode }) {
             process.env.NODE_ENV === 'development' ||
             (opts.direction === 'down' && opts.result instanceof Error),
         }),
-        // HTTP batch link for efficient requests
-        httpBatchLink({
-          url: `${getBaseUrl()}/api/trpc`,
-          transformer: superjson,
-          headers() {
-            return {
-              'x-trpc-source': 'react',
-            };
-          },
+        // Subscriptions stream over SSE, everything else is batched over HTTP
+        splitLink({
+          condition: (op) => op.type === 'subscription',
+          true: httpSubscriptionLink({
+            url: `${getBaseUrl()}/api/trpc`,
+            transformer: superjson,
+          }),
+          false: httpBatchLink({
+            url: `${getBaseUrl()}/api/trpc`,
+            transformer: superjson,
+            headers() {
+              return {
+                'x-trpc-source': 'react',
+              };
+            },
+          }),
         }),
       ],
     })
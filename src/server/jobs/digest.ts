@@ -0,0 +1,67 @@
+#!/usr/bin/env bun
+/**
+ * Daily digest worker
+ * Run with: bun run worker:digest
+ *
+ * Emails each opted-in user their morning delivery summary once their chosen
+ * local time has passed.
+ */
+
+import { db } from '@/lib/db';
+import { getSmtpConfig } from '@/lib/email';
+import { logger } from '@/lib/monitoring/logger';
+import { digestService } from '@/lib/services/digest';
+
+/**
+ * How often to look for due digests (milliseconds)
+ */
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+const log = logger.child({ service: 'digest-worker' });
+
+async function main(): Promise<void> {
+  if (!db) {
+    log.error('DATABASE_URL is required to run the digest worker');
+    process.exit(1);
+  }
+
+  if (!getSmtpConfig()) {
+    log.error('SMTP_HOST is required to run the digest worker');
+    process.exit(1);
+  }
+
+  let sweeping = false;
+
+  const sweep = async () => {
+    if (sweeping) return;
+    sweeping = true;
+    try {
+      const sent = await digestService.sendDue();
+      if (sent > 0) {
+        log.info(`Sent ${sent} daily digests`);
+      }
+    } catch (error) {
+      log.error('Digest sweep failed', error);
+    } finally {
+      sweeping = false;
+    }
+  };
+
+  const timer = setInterval(sweep, SWEEP_INTERVAL_MS);
+
+  const shutdown = (signal: string) => {
+    log.info(`Received ${signal}, shutting down`);
+    clearInterval(timer);
+    process.exit(0);
+  };
+
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+  await sweep();
+}
+
+main().catch((error) => {
+  log.error('Digest worker failed to start', error);
+  process.exit(1);
+});
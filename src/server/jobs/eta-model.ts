@@ -0,0 +1,81 @@
+#!/usr/bin/env bun
+/**
+ * ETA model worker
+ * Run with: bun run worker:eta
+ *
+ * Recomputes the learned ETA statistics from delivery history on startup and
+ * then nightly, once the configured UTC hour comes around.
+ */
+
+import { db } from '@/lib/db';
+import { logger } from '@/lib/monitoring/logger';
+import { etaModelService } from '@/lib/services/eta-model';
+
+/**
+ * How often to check whether the nightly recompute is due (milliseconds)
+ */
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Minimum time between recomputes (milliseconds)
+ */
+const MIN_RECOMPUTE_INTERVAL_MS = 20 * 60 * 60 * 1000;
+
+/**
+ * UTC hour the nightly recompute runs in
+ */
+const RECOMPUTE_HOUR_UTC = Number(process.env.ETA_MODEL_HOUR_UTC ?? 4);
+
+const log = logger.child({ service: 'eta-model-worker' });
+
+async function main(): Promise<void> {
+  if (!db) {
+    log.error('DATABASE_URL is required to run the ETA model worker');
+    process.exit(1);
+  }
+
+  let running = false;
+  let lastRunAt: Date | null = null;
+
+  const recompute = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const { samples, statistics } = await etaModelService.recompute();
+      lastRunAt = new Date();
+      log.info(`Learned ${statistics} ETA statistics from ${samples} deliveries`);
+    } catch (error) {
+      log.error('ETA model recompute failed', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const check = async () => {
+    const now = new Date();
+    const due =
+      now.getUTCHours() === RECOMPUTE_HOUR_UTC &&
+      (!lastRunAt || now.getTime() - lastRunAt.getTime() >= MIN_RECOMPUTE_INTERVAL_MS);
+    if (due) {
+      await recompute();
+    }
+  };
+
+  const timer = setInterval(check, CHECK_INTERVAL_MS);
+
+  const shutdown = (signal: string) => {
+    log.info(`Received ${signal}, shutting down`);
+    clearInterval(timer);
+    process.exit(0);
+  };
+
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+  await recompute();
+}
+
+main().catch((error) => {
+  log.error('ETA model worker failed to start', error);
+  process.exit(1);
+});
@@ -0,0 +1,38 @@
+#!/usr/bin/env bun
+/**
+ * Background polling worker
+ * Run with: bun run worker:poll
+ *
+ * Polls every connected platform account on the adapter's own interval,
+ * keeping delivery_cache and the realtime channels up to date while no
+ * dashboard is open.
+ */
+
+import { db } from '@/lib/db';
+import { logger } from '@/lib/monitoring/logger';
+import { pollingScheduler } from '@/lib/services/polling';
+
+const log = logger.child({ service: 'polling-worker' });
+
+async function main(): Promise<void> {
+  if (!db) {
+    log.error('DATABASE_URL is required to run the polling worker');
+    process.exit(1);
+  }
+
+  const shutdown = (signal: string) => {
+    log.info(`Received ${signal}, shutting down`);
+    pollingScheduler.stop();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+  await pollingScheduler.start();
+}
+
+main().catch((error) => {
+  log.error('Polling worker failed to start', error);
+  process.exit(1);
+});
@@ -0,0 +1,61 @@
+#!/usr/bin/env bun
+/**
+ * Quiet hours digest worker
+ * Run with: bun run worker:quiet-hours
+ *
+ * Sends each user the notifications held back during their quiet hours, as
+ * one digest, once the quiet hours end.
+ */
+
+import { db } from '@/lib/db';
+import { logger } from '@/lib/monitoring/logger';
+import { notificationService } from '@/lib/services/notifications';
+
+/**
+ * How often to look for quiet hours that have ended (milliseconds)
+ */
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+const log = logger.child({ service: 'quiet-hours-worker' });
+
+async function main(): Promise<void> {
+  if (!db) {
+    log.error('DATABASE_URL is required to run the quiet hours worker');
+    process.exit(1);
+  }
+
+  let sweeping = false;
+
+  const sweep = async () => {
+    if (sweeping) return;
+    sweeping = true;
+    try {
+      const sent = await notificationService.sendQuietHoursDigests();
+      if (sent > 0) {
+        log.info(`Sent ${sent} quiet hours digests`);
+      }
+    } catch (error) {
+      log.error('Quiet hours sweep failed', error);
+    } finally {
+      sweeping = false;
+    }
+  };
+
+  const timer = setInterval(sweep, SWEEP_INTERVAL_MS);
+
+  const shutdown = (signal: string) => {
+    log.info(`Received ${signal}, shutting down`);
+    clearInterval(timer);
+    process.exit(0);
+  };
+
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+  await sweep();
+}
+
+main().catch((error) => {
+  log.error('Quiet hours worker failed to start', error);
+  process.exit(1);
+});
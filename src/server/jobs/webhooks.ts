@@ -0,0 +1,61 @@
+#!/usr/bin/env bun
+/**
+ * Webhook delivery worker
+ * Run with: bun run worker:webhooks
+ *
+ * Sends outbound webhook deliveries queued by the poller, and retries ones
+ * that failed with a retryable error once their backoff has elapsed.
+ */
+
+import { db } from '@/lib/db';
+import { logger } from '@/lib/monitoring/logger';
+import { webhookService } from '@/lib/services/webhooks';
+
+/**
+ * How often to look for queued deliveries and due retries (milliseconds)
+ */
+const SWEEP_INTERVAL_MS = 15 * 1000;
+
+const log = logger.child({ service: 'webhook-worker' });
+
+async function main(): Promise<void> {
+  if (!db) {
+    log.error('DATABASE_URL is required to run the webhook worker');
+    process.exit(1);
+  }
+
+  let sweeping = false;
+
+  const sweep = async () => {
+    if (sweeping) return;
+    sweeping = true;
+    try {
+      const retried = await webhookService.retryDue();
+      if (retried > 0) {
+        log.info(`Sent ${retried} webhook deliveries`);
+      }
+    } catch (error) {
+      log.error('Webhook delivery sweep failed', error);
+    } finally {
+      sweeping = false;
+    }
+  };
+
+  const timer = setInterval(sweep, SWEEP_INTERVAL_MS);
+
+  const shutdown = (signal: string) => {
+    log.info(`Received ${signal}, shutting down`);
+    clearInterval(timer);
+    process.exit(0);
+  };
+
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+  await sweep();
+}
+
+main().catch((error) => {
+  log.error('Webhook worker failed to start', error);
+  process.exit(1);
+});
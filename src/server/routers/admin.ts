@@ -0,0 +1,358 @@
+import { TRPCError } from '@trpc/server';
+import { and, count, desc, eq, ilike, ne, or, type SQL } from 'drizzle-orm';
+import { z } from 'zod';
+import { adminAuditLog, feedback, inviteCodes, inviteRedemptions, users } from '@/lib/db/schema';
+import {
+  createInviteCodes,
+  getConnectionHealth,
+  getRedemptionStats,
+  REDEMPTION_CHART_DAYS,
+  recordAdminAction,
+} from '@/lib/services/admin';
+import { escapeLikePattern } from '@/lib/services/history';
+import { adminProcedure, router } from '@/lib/trpc/init';
+
+/**
+ * Feedback status schema
+ */
+const feedbackStatusSchema = z.enum(['new', 'acknowledged', 'in_progress', 'resolved', 'wont_fix']);
+
+/**
+ * Feedback category schema
+ */
+const feedbackCategorySchema = z.enum([
+  'bug',
+  'feature_request',
+  'ux_improvement',
+  'platform_issue',
+  'performance',
+  'other',
+]);
+
+/**
+ * Most rows returned by the admin lists
+ */
+const LIST_LIMIT = 100;
+
+/**
+ * Admin router - invite codes, feedback triage, user lookup and the audit log
+ * Every mutation, and every look at a single user's account, is written to
+ * the admin audit log.
+ */
+export const adminRouter = router({
+  /**
+   * List invite codes, newest first
+   */
+  listInviteCodes: adminProcedure
+    .input(
+      z
+        .object({ status: z.enum(['active', 'exhausted', 'expired', 'revoked']).optional() })
+        .default({})
+    )
+    .query(async ({ ctx, input }) => {
+      return ctx.db.query.inviteCodes.findMany({
+        where: input.status ? eq(inviteCodes.status, input.status) : undefined,
+        columns: {
+          id: true,
+          code: true,
+          maxRedemptions: true,
+          redemptionCount: true,
+          status: true,
+          note: true,
+          expiresAt: true,
+          createdAt: true,
+        },
+        orderBy: [desc(inviteCodes.createdAt)],
+        limit: LIST_LIMIT,
+      });
+    }),
+
+  /**
+   * Create a batch of invite codes
+   */
+  createInviteCodes: adminProcedure
+    .input(
+      z.object({
+        count: z.number().int().min(1).max(100).default(1),
+        maxRedemptions: z.number().int().min(1).max(1000).default(1),
+        expiresInDays: z.number().int().min(1).max(365).optional(),
+        note: z.string().trim().max(255).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      return createInviteCodes(ctx.user.id as string, input, ctx.db);
+    }),
+
+  /**
+   * Revoke an invite code so it can no longer be redeemed
+   */
+  revokeInviteCode: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const [code] = await ctx.db
+        .update(inviteCodes)
+        .set({ status: 'revoked' })
+        .where(and(eq(inviteCodes.id, input.id), ne(inviteCodes.status, 'revoked')))
+        .returning({ id: inviteCodes.id, code: inviteCodes.code });
+
+      if (!code) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Invite code not found' });
+      }
+
+      await recordAdminAction(
+        {
+          actorId: ctx.user.id as string,
+          action: 'invite_code.revoke',
+          targetType: 'invite_code',
+          targetId: code.id,
+          details: { code: code.code },
+        },
+        ctx.db
+      );
+
+      return { success: true };
+    }),
+
+  /**
+   * Invite redemptions per day and the most redeemed codes
+   */
+  redemptionStats: adminProcedure
+    .input(
+      z
+        .object({ days: z.number().int().min(7).max(365).default(REDEMPTION_CHART_DAYS) })
+        .default({ days: REDEMPTION_CHART_DAYS })
+    )
+    .query(async ({ ctx, input }) => {
+      return getRedemptionStats(ctx.db, input.days);
+    }),
+
+  /**
+   * List feedback, newest first
+   */
+  listFeedback: adminProcedure
+    .input(
+      z
+        .object({
+          status: feedbackStatusSchema.optional(),
+          category: feedbackCategorySchema.optional(),
+        })
+        .default({})
+    )
+    .query(async ({ ctx, input }) => {
+      const conditions: SQL[] = [];
+      if (input.status) conditions.push(eq(feedback.status, input.status));
+      if (input.category) conditions.push(eq(feedback.category, input.category));
+
+      return ctx.db
+        .select({
+          id: feedback.id,
+          category: feedback.category,
+          title: feedback.title,
+          description: feedback.description,
+          metadata: feedback.metadata,
+          status: feedback.status,
+          adminNotes: feedback.adminNotes,
+          createdAt: feedback.createdAt,
+          updatedAt: feedback.updatedAt,
+          userId: feedback.userId,
+          userEmail: users.email,
+        })
+        .from(feedback)
+        .innerJoin(users, eq(users.id, feedback.userId))
+        .where(and(...conditions))
+        .orderBy(desc(feedback.createdAt))
+        .limit(LIST_LIMIT);
+    }),
+
+  /**
+   * Move feedback to another status and/or update its admin notes
+   */
+  updateFeedback: adminProcedure
+    .input(
+      z
+        .object({
+          id: z.string(),
+          status: feedbackStatusSchema.optional(),
+          adminNotes: z.string().trim().max(2000).nullable().optional(),
+        })
+        .refine((input) => input.status !== undefined || input.adminNotes !== undefined, {
+          message: 'Nothing to update',
+        })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.db.query.feedback.findFirst({
+        where: eq(feedback.id, input.id),
+        columns: { status: true, adminNotes: true },
+      });
+
+      if (!existing) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Feedback not found' });
+      }
+
+      const adminNotes = input.adminNotes === undefined ? undefined : input.adminNotes || null;
+
+      await ctx.db
+        .update(feedback)
+        .set({ status: input.status, adminNotes })
+        .where(eq(feedback.id, input.id));
+
+      await recordAdminAction(
+        {
+          actorId: ctx.user.id as string,
+          action: 'feedback.update',
+          targetType: 'feedback',
+          targetId: input.id,
+          details: {
+            ...(input.status &&
+              input.status !== existing.status && { from: existing.status, to: input.status }),
+            ...(adminNotes !== undefined &&
+              adminNotes !== existing.adminNotes && { notesChanged: true }),
+          },
+        },
+        ctx.db
+      );
+
+      return { success: true };
+    }),
+
+  /**
+   * Find users by email or name
+   */
+  searchUsers: adminProcedure
+    .input(z.object({ query: z.string().trim().min(2).max(100) }))
+    .query(async ({ ctx, input }) => {
+      const pattern = `%${escapeLikePattern(input.query)}%`;
+
+      return ctx.db
+        .select({
+          id: users.id,
+          email: users.email,
+          name: users.name,
+          role: users.role,
+          createdAt: users.createdAt,
+        })
+        .from(users)
+        .where(or(ilike(users.email, pattern), ilike(users.name, pattern)))
+        .orderBy(desc(users.createdAt))
+        .limit(20);
+    }),
+
+  /**
+   * Get a user with their connection health, invite and feedback count
+   */
+  getUser: adminProcedure.input(z.object({ userId: z.string() })).query(async ({ ctx, input }) => {
+    const user = await ctx.db.query.users.findFirst({
+      where: eq(users.id, input.userId),
+      columns: { id: true, email: true, name: true, role: true, createdAt: true },
+    });
+
+    if (!user) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'User not found' });
+    }
+
+    const [connections, [redemption], [feedbackCount]] = await Promise.all([
+      getConnectionHealth(ctx.db, user.id),
+      ctx.db
+        .select({ code: inviteCodes.code, redeemedAt: inviteRedemptions.redeemedAt })
+        .from(inviteRedemptions)
+        .innerJoin(inviteCodes, eq(inviteCodes.id, inviteRedemptions.inviteCodeId))
+        .where(eq(inviteRedemptions.userId, user.id)),
+      ctx.db.select({ value: count() }).from(feedback).where(eq(feedback.userId, user.id)),
+    ]);
+
+    await recordAdminAction(
+      {
+        actorId: ctx.user.id as string,
+        action: 'user.view',
+        targetType: 'user',
+        targetId: user.id,
+      },
+      ctx.db
+    );
+
+    return {
+      ...user,
+      connections,
+      invite: redemption ?? null,
+      feedbackCount: feedbackCount?.value ?? 0,
+    };
+  }),
+
+  /**
+   * Grant or remove the admin role
+   */
+  setUserRole: adminProcedure
+    .input(z.object({ userId: z.string(), role: z.enum(['user', 'admin']) }))
+    .mutation(async ({ ctx, input }) => {
+      const actorId = ctx.user.id as string;
+
+      if (input.userId === actorId) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Ask another admin to change your role',
+        });
+      }
+
+      const existing = await ctx.db.query.users.findFirst({
+        where: eq(users.id, input.userId),
+        columns: { role: true },
+      });
+
+      if (!existing) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'User not found' });
+      }
+
+      if (existing.role === input.role) {
+        return { success: true };
+      }
+
+      await ctx.db.update(users).set({ role: input.role }).where(eq(users.id, input.userId));
+
+      await recordAdminAction(
+        {
+          actorId,
+          action: 'user.set_role',
+          targetType: 'user',
+          targetId: input.userId,
+          details: { from: existing.role, to: input.role },
+        },
+        ctx.db
+      );
+
+      return { success: true };
+    }),
+
+  /**
+   * List audit log entries, newest first
+   */
+  listAuditLog: adminProcedure
+    .input(
+      z
+        .object({
+          targetType: z.enum(['invite_code', 'feedback', 'user']).optional(),
+          targetId: z.string().optional(),
+        })
+        .default({})
+    )
+    .query(async ({ ctx, input }) => {
+      const conditions: SQL[] = [];
+      if (input.targetType) conditions.push(eq(adminAuditLog.targetType, input.targetType));
+      if (input.targetId) conditions.push(eq(adminAuditLog.targetId, input.targetId));
+
+      return ctx.db
+        .select({
+          id: adminAuditLog.id,
+          action: adminAuditLog.action,
+          targetType: adminAuditLog.targetType,
+          targetId: adminAuditLog.targetId,
+          details: adminAuditLog.details,
+          createdAt: adminAuditLog.createdAt,
+          actorEmail: users.email,
+        })
+        .from(adminAuditLog)
+        .leftJoin(users, eq(users.id, adminAuditLog.actorId))
+        .where(and(...conditions))
+        .orderBy(desc(adminAuditLog.createdAt))
+        .limit(LIST_LIMIT);
+    }),
+});
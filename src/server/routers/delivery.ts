@@ -1,13 +1,133 @@
 import { TRPCError } from '@trpc/server';
-import { observable } from '@trpc/server/observable';
-import { and, desc, eq, gt, sql } from 'drizzle-orm';
+import { type Observable, observable } from '@trpc/server/observable';
+import { and, eq, gt, inArray, sql } from 'drizzle-orm';
 import { z } from 'zod';
+import { PlatformAuthError } from '@/lib/adapters/errors';
 import { getAdapter } from '@/lib/adapters/registry';
-import { deliveryCache, deliveryHistory, platformConnections } from '@/lib/db/schema';
-import { decryptToken } from '@/lib/encryption/tokens';
+import type { Database } from '@/lib/db';
+import { deliveryCache, platformConnections } from '@/lib/db/schema';
+import { subscribeToDeliveryUpdates, subscribeToLocationUpdates } from '@/lib/realtime/pubsub';
+import {
+  connectionManager,
+  hasCredentials,
+  toAdapterConnection,
+  toManagedConnection,
+} from '@/lib/services/connections';
+import { upsertCachedDeliveries } from '@/lib/services/delivery-cache';
+import { etaModelService } from '@/lib/services/eta-model';
+import { getHistoryAnalytics, listDeliveryHistory } from '@/lib/services/history';
+import {
+  getDeckUserIds,
+  getHouseholdPeers,
+  listHouseholdDeliveries,
+  shareDelivery,
+  toDeliveryOwner,
+} from '@/lib/services/households';
+import { deliveryLifecycle } from '@/lib/services/lifecycle';
+import { pollingScheduler } from '@/lib/services/polling';
+import { isValidTimeZone } from '@/lib/timezone';
 import { protectedProcedure, router } from '@/lib/trpc/init';
 import type { DriverLocation, UnifiedDelivery } from '@/types/delivery';
 
+/**
+ * Wrap an async pub/sub subscription in an observable
+ * Errors thrown while subscribing are forwarded to the client, and the
+ * subscription is released as soon as the client disconnects.
+ */
+function fromSubscription<T>(
+  subscribe: (emit: (value: T) => void) => Promise<() => void>
+): Observable<T, unknown> {
+  return observable<T>((emit) => {
+    let closed = false;
+    let unsubscribe: (() => void) | undefined;
+
+    subscribe((value) => emit.next(value))
+      .then((stop) => {
+        if (closed) {
+          stop();
+        } else {
+          unsubscribe = stop;
+        }
+      })
+      .catch((error: unknown) => emit.error(error));
+
+    return () => {
+      closed = true;
+      unsubscribe?.();
+    };
+  });
+}
+
+/**
+ * Get the user's own active deliveries, from the cache or their platforms
+ */
+async function getOwnActiveDeliveries(
+  database: Database,
+  userId: string
+): Promise<UnifiedDelivery[]> {
+  // First check cache
+  const cached = await database.query.deliveryCache.findMany({
+    where: and(eq(deliveryCache.userId, userId), gt(deliveryCache.expiresAt, new Date())),
+    orderBy: [deliveryCache.etaMinutes],
+  });
+
+  if (cached.length > 0) {
+    return cached.map((c) => c.deliveryData as UnifiedDelivery);
+  }
+
+  // Fetch fresh from all connected platforms
+  const connections = await database.query.platformConnections.findMany({
+    where: and(eq(platformConnections.userId, userId), eq(platformConnections.status, 'connected')),
+  });
+
+  const deliveryPromises = connections.map(async (conn) => {
+    // Refresh tokens that are about to expire before using them
+    const connection = await connectionManager.ensureFresh(toManagedConnection(conn));
+
+    try {
+      if (connection.status !== 'connected') {
+        return [];
+      }
+      if (!hasCredentials(connection)) {
+        console.error(`No access token for ${conn.platform}`);
+        return [];
+      }
+      const adapter = getAdapter(conn.platform);
+      return await adapter.getActiveDeliveries(toAdapterConnection(connection));
+    } catch (error) {
+      console.error(`Failed to fetch from ${conn.platform}:`, error);
+      if (error instanceof PlatformAuthError) {
+        await connectionManager.recordFailure(connection, error);
+      }
+      return [];
+    }
+  });
+
+  const results = await Promise.allSettled(deliveryPromises);
+  const deliveries: UnifiedDelivery[] = results
+    .filter((r) => r.status === 'fulfilled')
+    .flatMap((r) => (r as PromiseFulfilledResult<UnifiedDelivery[]>).value);
+
+  // Cache results
+  const changes = await upsertCachedDeliveries(
+    database,
+    userId,
+    deliveries,
+    new Date(Date.now() + 30 * 1000) // 30 second cache
+  );
+
+  // Report changes the way the poller does; they are the cache's previous state from now on
+  await pollingScheduler.publishChanges(userId, changes);
+
+  // Archive anything that finished since the last fetch
+  await deliveryLifecycle.processChanges(userId, changes);
+
+  // Sort by ETA
+  return changes
+    .map((change) => change.delivery)
+    .sort((a, b) => a.eta.minutesRemaining - b.eta.minutesRemaining);
+}
+
 /**
  * Platform schema for validation
  */
@@ -23,90 +143,51 @@ const platformSchema = z.enum([
   'costco',
   'samsclub',
   'amazon',
+  'ups',
+  'fedex',
+  'usps',
+  'dhl',
 ]);
 
+/**
+ * Delivery history filter schema
+ */
+const historyFiltersSchema = z.object({
+  platform: platformSchema.optional(),
+  finalStatus: z.enum(['delivered', 'cancelled']).optional(),
+  from: z.date().optional(),
+  to: z.date().optional(),
+  search: z.string().max(100).optional(),
+});
+
 /**
  * Delivery router - handles delivery queries and subscriptions
  */
 export const deliveryRouter = router({
   /**
    * Get all active deliveries across all connected platforms
+   * Household members also see the other members' deliveries, tagged with
+   * who they belong to. Those come from the members' cached deliveries, so
+   * nobody's platform credentials are used on anyone else's behalf.
    */
   getActive: protectedProcedure.query(async ({ ctx }) => {
-    // First check cache
-    const cached = await ctx.db.query.deliveryCache.findMany({
-      where: and(
-        eq(deliveryCache.userId, ctx.user.id as string),
-        gt(deliveryCache.expiresAt, new Date())
-      ),
-      orderBy: [deliveryCache.etaMinutes],
-    });
+    const userId = ctx.user.id as string;
+    const [own, peers] = await Promise.all([
+      getOwnActiveDeliveries(ctx.db, userId),
+      getHouseholdPeers(userId, ctx.db),
+    ]);
 
-    if (cached.length > 0) {
-      return cached.map((c) => c.deliveryData as UnifiedDelivery);
+    const self = peers.find((peer) => peer.userId === userId);
+    if (!self) {
+      return own;
     }
 
-    // Fetch fresh from all connected platforms
-    const connections = await ctx.db.query.platformConnections.findMany({
-      where: and(
-        eq(platformConnections.userId, ctx.user.id as string),
-        eq(platformConnections.status, 'connected')
-      ),
-    });
+    const owner = toDeliveryOwner(self);
+    const shared = await listHouseholdDeliveries(ctx.db, userId, peers);
 
-    const deliveryPromises = connections.map(async (conn) => {
-      try {
-        if (!conn.accessTokenEncrypted) {
-          console.error(`No access token for ${conn.platform}`);
-          return [];
-        }
-        const adapter = getAdapter(conn.platform);
-        const accessToken = decryptToken(conn.accessTokenEncrypted);
-        return await adapter.getActiveDeliveries({
-          accessToken,
-          userId: ctx.user.id as string,
-          platform: conn.platform,
-        });
-      } catch (error) {
-        console.error(`Failed to fetch from ${conn.platform}:`, error);
-        return [];
-      }
-    });
-
-    const results = await Promise.allSettled(deliveryPromises);
-    const deliveries: UnifiedDelivery[] = results
-      .filter((r) => r.status === 'fulfilled')
-      .flatMap((r) => (r as PromiseFulfilledResult<UnifiedDelivery[]>).value);
-
-    // Cache results
-    for (const delivery of deliveries) {
-      const driverLocation = delivery.driver?.location
-        ? {
-            lat: delivery.driver.location.lat,
-            lng: delivery.driver.location.lng,
-            heading: delivery.driver.location.heading,
-            speed: delivery.driver.location.speed,
-            timestamp: delivery.driver.location.timestamp.toISOString(),
-          }
-        : null;
-
-      await ctx.db
-        .insert(deliveryCache)
-        .values({
-          userId: ctx.user.id as string,
-          platform: delivery.platform,
-          externalOrderId: delivery.externalOrderId,
-          deliveryData: delivery,
-          driverLocation,
-          etaMinutes: delivery.eta.minutesRemaining,
-          status: delivery.status,
-          expiresAt: new Date(Date.now() + 30 * 1000), // 30 second cache
-        })
-        .onConflictDoNothing();
-    }
-
-    // Sort by ETA
-    return deliveries.sort((a, b) => a.eta.minutesRemaining - b.eta.minutesRemaining);
+    return [...own.map((delivery) => ({ ...delivery, owner })), ...shared].sort(
+      (a, b) => a.eta.minutesRemaining - b.eta.minutesRemaining
+    );
   }),
 
   /**
@@ -134,7 +215,7 @@ export const deliveryRouter = router({
         });
       }
 
-      if (!connection.accessTokenEncrypted) {
+      if (!hasCredentials(connection)) {
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
           message: `No access token for ${input.platform}`,
@@ -142,88 +223,119 @@ export const deliveryRouter = router({
       }
 
       const adapter = getAdapter(input.platform);
-      const accessToken = decryptToken(connection.accessTokenEncrypted);
 
       return adapter.getDeliveryDetails(
-        { accessToken, userId: ctx.user.id as string, platform: connection.platform },
+        toAdapterConnection(toManagedConnection(connection)),
         input.deliveryId
       );
     }),
 
   /**
-   * Get delivery history with pagination
+   * Get delivery history with pagination and filters
    */
   getHistory: protectedProcedure
     .input(
-      z.object({
+      historyFiltersSchema.extend({
         limit: z.number().min(1).max(100).default(20),
         offset: z.number().min(0).default(0),
-        platform: platformSchema.optional(),
       })
     )
     .query(async ({ ctx, input }) => {
-      const baseWhere = eq(deliveryHistory.userId, ctx.user.id as string);
-      const where = input.platform
-        ? and(baseWhere, eq(deliveryHistory.platform, input.platform))
-        : baseWhere;
-
-      const [items, totalResult] = await Promise.all([
-        ctx.db.query.deliveryHistory.findMany({
-          where,
-          orderBy: [desc(deliveryHistory.orderedAt)],
-          limit: input.limit,
-          offset: input.offset,
-        }),
-        ctx.db.select({ count: sql<number>`count(*)::int` }).from(deliveryHistory).where(where),
-      ]);
-
-      const total = totalResult[0]?.count ?? 0;
-
-      return {
-        items: items.map((h) => h.deliveryData as UnifiedDelivery),
-        total,
-        hasMore: input.offset + items.length < total,
-      };
+      const { limit, offset, ...filters } = input;
+      return listDeliveryHistory(ctx.db, ctx.user.id as string, filters, { limit, offset });
     }),
 
   /**
-   * Subscribe to delivery updates (WebSocket/SSE)
+   * Get spend, on-time, duration and substitution aggregates over delivery history
+   */
+  getHistoryAnalytics: protectedProcedure
+    .input(
+      historyFiltersSchema.extend({
+        timezone: z.string().refine(isValidTimeZone, 'Unknown timezone').default('UTC'),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const { timezone, ...filters } = input;
+      return getHistoryAnalytics(ctx.db, ctx.user.id as string, filters, timezone);
+    }),
+
+  /**
+   * Get the ETA statistics learned from the user's delivery history
+   */
+  getEtaModel: protectedProcedure.query(async ({ ctx }) => {
+    return etaModelService.getModel(ctx.user.id as string);
+  }),
+
+  /**
+   * Subscribe to delivery updates (SSE)
+   * Streams the current user's deliveries as they change, and those of the
+   * rest of their household
    */
   onUpdate: protectedProcedure.subscription(({ ctx }) => {
-    return observable<UnifiedDelivery>((emit) => {
-      const channel = `user:${ctx.user.id}:deliveries`;
-
-      // Subscribe to Redis channel if available
-      if (ctx.redis) {
-        // Note: Redis subscription handling would be set up here
-        // For now, we return a cleanup function
-        console.log(`Subscribed to ${channel}`);
+    const userId = ctx.user.id as string;
+
+    return fromSubscription<UnifiedDelivery>(async (emit) => {
+      const peers = await getHouseholdPeers(userId, ctx.db);
+      if (peers.length === 0) {
+        return subscribeToDeliveryUpdates(userId, (payload) => {
+          if (payload.delivery) {
+            emit(payload.delivery);
+          }
+        });
       }
 
-      // Example: emit updates (in production, this would be from Redis pub/sub)
-      void emit;
+      // Follow every household member's deliveries, tagged with their owner
+      const unsubscribes = await Promise.all(
+        peers.map((peer) =>
+          subscribeToDeliveryUpdates(peer.userId, (payload) => {
+            if (!payload.delivery) return;
+            const owner = toDeliveryOwner(peer);
+            emit(
+              peer.userId === userId
+                ? { ...payload.delivery, owner }
+                : shareDelivery(payload.delivery, owner)
+            );
+          })
+        )
+      );
 
       return () => {
-        console.log(`Unsubscribed from ${channel}`);
+        for (const unsubscribe of unsubscribes) {
+          unsubscribe();
+        }
       };
     });
   }),
 
   /**
    * Subscribe to high-frequency location updates
+   * Only available for deliveries on the current user's deck
    */
   onLocationUpdate: protectedProcedure
     .input(z.object({ deliveryId: z.string() }))
-    .subscription(({ input }) => {
-      return observable<DriverLocation>(() => {
-        const channel = `delivery:${input.deliveryId}:location`;
+    .subscription(({ ctx, input }) => {
+      const userId = ctx.user.id as string;
 
-        // Note: Redis subscription handling would be set up here
-        console.log(`Subscribed to ${channel}`);
+      return fromSubscription<DriverLocation>(async (emit) => {
+        const deckUserIds = await getDeckUserIds(userId, ctx.db);
+        const owned = await ctx.db.query.deliveryCache.findFirst({
+          where: and(
+            inArray(deliveryCache.userId, deckUserIds),
+            sql`${deliveryCache.deliveryData}->>'id' = ${input.deliveryId}`
+          ),
+          columns: { id: true },
+        });
 
-        return () => {
-          console.log(`Unsubscribed from ${channel}`);
-        };
+        if (!owned) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Delivery not found',
+          });
+        }
+
+        return subscribeToLocationUpdates(input.deliveryId, (payload) => {
+          emit(payload.location);
+        });
       });
     }),
 });
@@ -0,0 +1,101 @@
+import { TRPCError } from '@trpc/server';
+import { desc, eq } from 'drizzle-orm';
+import { z } from 'zod';
+import { emailInboxes, inboundEmails } from '@/lib/db/schema';
+import {
+  emailImportService,
+  generateInboxToken,
+  hashInboxToken,
+  MAX_EMAIL_SIZE,
+} from '@/lib/services/email-import';
+import { protectedProcedure, router } from '@/lib/trpc/init';
+
+/**
+ * Build the URL order emails are posted to
+ */
+function getInboxUrl(token: string): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL ?? 'http://localhost:3000';
+  return `${appUrl}/api/email/inbound/${token}`;
+}
+
+/**
+ * Email import router - handles the user's import inbox and manual uploads
+ */
+export const emailImportRouter = router({
+  /**
+   * Get the user's inbox (never the token)
+   */
+  getInbox: protectedProcedure.query(async ({ ctx }) => {
+    const inbox = await ctx.db.query.emailInboxes.findFirst({
+      where: eq(emailInboxes.userId, ctx.user.id as string),
+    });
+
+    if (!inbox) {
+      return null;
+    }
+
+    return {
+      tokenHint: inbox.tokenHint,
+      enabled: inbox.enabled,
+      lastReceivedAt: inbox.lastReceivedAt,
+      createdAt: inbox.createdAt,
+    };
+  }),
+
+  /**
+   * Create the inbox, or replace its token
+   * The inbox URL contains the token, so it is only returned here.
+   */
+  rotateToken: protectedProcedure.mutation(async ({ ctx }) => {
+    const token = generateInboxToken();
+    const values = { tokenHash: hashInboxToken(token), tokenHint: token.slice(-4) };
+
+    await ctx.db
+      .insert(emailInboxes)
+      .values({ userId: ctx.user.id as string, ...values })
+      .onConflictDoUpdate({ target: emailInboxes.userId, set: values });
+
+    return { url: getInboxUrl(token) };
+  }),
+
+  /**
+   * Pause or resume importing forwarded emails
+   */
+  setEnabled: protectedProcedure
+    .input(z.object({ enabled: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      const [inbox] = await ctx.db
+        .update(emailInboxes)
+        .set({ enabled: input.enabled })
+        .where(eq(emailInboxes.userId, ctx.user.id as string))
+        .returning({ id: emailInboxes.id });
+
+      if (!inbox) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Email import is not set up' });
+      }
+
+      return { success: true };
+    }),
+
+  /**
+   * Recently received emails and what became of them, newest first
+   */
+  listRecent: protectedProcedure
+    .input(z.object({ limit: z.number().int().min(1).max(100).default(20) }).optional())
+    .query(async ({ ctx, input }) => {
+      return ctx.db.query.inboundEmails.findMany({
+        where: eq(inboundEmails.userId, ctx.user.id as string),
+        orderBy: [desc(inboundEmails.receivedAt)],
+        limit: input?.limit ?? 20,
+      });
+    }),
+
+  /**
+   * Import an email saved from a mail client (.eml)
+   */
+  upload: protectedProcedure
+    .input(z.object({ raw: z.string().min(1).max(MAX_EMAIL_SIZE) }))
+    .mutation(async ({ ctx, input }) => {
+      return emailImportService.importEmail(ctx.user.id as string, input.raw);
+    }),
+});
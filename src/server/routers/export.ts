@@ -0,0 +1,75 @@
+import { TRPCError } from '@trpc/server';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+import { calendarFeeds } from '@/lib/db/schema';
+import { generateCalendarToken, hashCalendarToken } from '@/lib/services/export';
+import { protectedProcedure, router } from '@/lib/trpc/init';
+
+/**
+ * Build the URL calendar apps subscribe to
+ */
+function getCalendarFeedUrl(token: string): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL ?? 'http://localhost:3000';
+  return `${appUrl}/api/calendar/${token}.ics`;
+}
+
+/**
+ * Export router - handles the user's calendar feed
+ * Files are downloaded from /api/export, as tRPC responses are not streamed.
+ */
+export const exportRouter = router({
+  /**
+   * Get the user's calendar feed (never the token)
+   */
+  getCalendarFeed: protectedProcedure.query(async ({ ctx }) => {
+    const feed = await ctx.db.query.calendarFeeds.findFirst({
+      where: eq(calendarFeeds.userId, ctx.user.id as string),
+    });
+
+    if (!feed) {
+      return null;
+    }
+
+    return {
+      tokenHint: feed.tokenHint,
+      enabled: feed.enabled,
+      lastAccessedAt: feed.lastAccessedAt,
+      createdAt: feed.createdAt,
+    };
+  }),
+
+  /**
+   * Create the calendar feed, or replace its token
+   * The feed URL contains the token, so it is only returned here.
+   */
+  rotateCalendarToken: protectedProcedure.mutation(async ({ ctx }) => {
+    const token = generateCalendarToken();
+    const values = { tokenHash: hashCalendarToken(token), tokenHint: token.slice(-4) };
+
+    await ctx.db
+      .insert(calendarFeeds)
+      .values({ userId: ctx.user.id as string, ...values })
+      .onConflictDoUpdate({ target: calendarFeeds.userId, set: values });
+
+    return { url: getCalendarFeedUrl(token) };
+  }),
+
+  /**
+   * Pause or resume the calendar feed
+   */
+  setCalendarEnabled: protectedProcedure
+    .input(z.object({ enabled: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      const [feed] = await ctx.db
+        .update(calendarFeeds)
+        .set({ enabled: input.enabled })
+        .where(eq(calendarFeeds.userId, ctx.user.id as string))
+        .returning({ id: calendarFeeds.id });
+
+      if (!feed) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Calendar feed is not set up' });
+      }
+
+      return { success: true };
+    }),
+});
@@ -0,0 +1,429 @@
+import { TRPCError } from '@trpc/server';
+import { and, asc, count, desc, eq, gt, isNull, ne } from 'drizzle-orm';
+import { z } from 'zod';
+import type { Database } from '@/lib/db';
+import { householdInvites, householdMembers, households, users } from '@/lib/db/schema';
+import {
+  generateHouseholdInviteToken,
+  HOUSEHOLD_INVITE_TTL_MS,
+  hashHouseholdInviteToken,
+  MAX_HOUSEHOLD_MEMBERS,
+  pickMemberColor,
+} from '@/lib/services/households';
+import { protectedProcedure, router } from '@/lib/trpc/init';
+import { HOUSEHOLD_MEMBER_COLORS } from '@/types/household';
+
+/**
+ * Household role schema
+ */
+const roleSchema = z.enum(['admin', 'viewer']);
+
+/**
+ * Household name schema
+ */
+const nameSchema = z.string().trim().min(1).max(60);
+
+/**
+ * Build the URL an invite is accepted at
+ */
+function getInviteUrl(token: string): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL ?? 'http://localhost:3000';
+  return `${appUrl}/settings/household?invite=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Get the user's household membership
+ */
+async function getMembership(database: Database, userId: string) {
+  return database.query.householdMembers.findFirst({
+    where: eq(householdMembers.userId, userId),
+  });
+}
+
+/**
+ * Get the user's household membership, requiring the admin role
+ */
+async function requireAdmin(database: Database, userId: string) {
+  const membership = await getMembership(database, userId);
+
+  if (!membership) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'You are not in a household' });
+  }
+  if (membership.role !== 'admin') {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'Only household admins can do this',
+    });
+  }
+
+  return membership;
+}
+
+/**
+ * Count a household's admins
+ */
+async function countAdmins(database: Database, householdId: string): Promise<number> {
+  const [row] = await database
+    .select({ value: count() })
+    .from(householdMembers)
+    .where(and(eq(householdMembers.householdId, householdId), eq(householdMembers.role, 'admin')));
+  return row?.value ?? 0;
+}
+
+/**
+ * Household router - handles shared decks, members and invites
+ * Members see each other's active deliveries; platform connections stay private.
+ */
+export const householdRouter = router({
+  /**
+   * Get the user's household, or null when they are not in one
+   * Admins also get the pending invites.
+   */
+  get: protectedProcedure.query(async ({ ctx }) => {
+    const userId = ctx.user.id as string;
+    const membership = await getMembership(ctx.db, userId);
+
+    if (!membership) {
+      return null;
+    }
+
+    const [household, members] = await Promise.all([
+      ctx.db.query.households.findFirst({
+        where: eq(households.id, membership.householdId),
+      }),
+      ctx.db
+        .select({
+          userId: householdMembers.userId,
+          name: users.name,
+          email: users.email,
+          image: users.image,
+          role: householdMembers.role,
+          color: householdMembers.color,
+          joinedAt: householdMembers.joinedAt,
+        })
+        .from(householdMembers)
+        .innerJoin(users, eq(users.id, householdMembers.userId))
+        .where(eq(householdMembers.householdId, membership.householdId))
+        .orderBy(asc(householdMembers.joinedAt)),
+    ]);
+
+    if (!household) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Household not found' });
+    }
+
+    const invites =
+      membership.role === 'admin'
+        ? await ctx.db.query.householdInvites.findMany({
+            where: and(
+              eq(householdInvites.householdId, household.id),
+              isNull(householdInvites.acceptedAt),
+              gt(householdInvites.expiresAt, new Date())
+            ),
+            columns: { id: true, tokenHint: true, role: true, expiresAt: true, createdAt: true },
+            orderBy: [desc(householdInvites.createdAt)],
+          })
+        : [];
+
+    return {
+      id: household.id,
+      name: household.name,
+      role: membership.role,
+      members,
+      createdAt: household.createdAt,
+      invites,
+    };
+  }),
+
+  /**
+   * Create a household with the user as its first admin
+   */
+  create: protectedProcedure
+    .input(z.object({ name: nameSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.user.id as string;
+
+      if (await getMembership(ctx.db, userId)) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Leave your current household before creating another',
+        });
+      }
+
+      const [household] = await ctx.db
+        .insert(households)
+        .values({ name: input.name, createdBy: userId })
+        .returning();
+
+      if (!household) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to create household',
+        });
+      }
+
+      await ctx.db.insert(householdMembers).values({
+        householdId: household.id,
+        userId,
+        role: 'admin',
+        color: pickMemberColor([]),
+      });
+
+      return { id: household.id };
+    }),
+
+  /**
+   * Rename the household
+   */
+  rename: protectedProcedure
+    .input(z.object({ name: nameSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const membership = await requireAdmin(ctx.db, ctx.user.id as string);
+
+      await ctx.db
+        .update(households)
+        .set({ name: input.name })
+        .where(eq(households.id, membership.householdId));
+
+      return { success: true };
+    }),
+
+  /**
+   * Create an invite link
+   * The link contains the token, so it is only returned here.
+   */
+  createInvite: protectedProcedure
+    .input(z.object({ role: roleSchema.default('viewer') }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.user.id as string;
+      const membership = await requireAdmin(ctx.db, userId);
+
+      const token = generateHouseholdInviteToken();
+      const expiresAt = new Date(Date.now() + HOUSEHOLD_INVITE_TTL_MS);
+
+      await ctx.db.insert(householdInvites).values({
+        householdId: membership.householdId,
+        tokenHash: hashHouseholdInviteToken(token),
+        tokenHint: token.slice(-4),
+        role: input.role,
+        createdBy: userId,
+        expiresAt,
+      });
+
+      return { url: getInviteUrl(token), expiresAt };
+    }),
+
+  /**
+   * Revoke a pending invite
+   */
+  revokeInvite: protectedProcedure
+    .input(z.object({ inviteId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const membership = await requireAdmin(ctx.db, ctx.user.id as string);
+
+      const [invite] = await ctx.db
+        .delete(householdInvites)
+        .where(
+          and(
+            eq(householdInvites.id, input.inviteId),
+            eq(householdInvites.householdId, membership.householdId),
+            isNull(householdInvites.acceptedAt)
+          )
+        )
+        .returning({ id: householdInvites.id });
+
+      if (!invite) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Invite not found' });
+      }
+
+      return { success: true };
+    }),
+
+  /**
+   * Join a household with an invite token
+   */
+  acceptInvite: protectedProcedure
+    .input(z.object({ token: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.user.id as string;
+
+      if (await getMembership(ctx.db, userId)) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Leave your current household before joining another',
+        });
+      }
+
+      const invite = await ctx.db.query.householdInvites.findFirst({
+        where: eq(householdInvites.tokenHash, hashHouseholdInviteToken(input.token)),
+      });
+
+      if (!invite || invite.acceptedAt || invite.expiresAt <= new Date()) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'This invite is invalid or has expired',
+        });
+      }
+
+      const members = await ctx.db.query.householdMembers.findMany({
+        where: eq(householdMembers.householdId, invite.householdId),
+        columns: { color: true },
+      });
+
+      if (members.length >= MAX_HOUSEHOLD_MEMBERS) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Households can have at most ${MAX_HOUSEHOLD_MEMBERS} members`,
+        });
+      }
+
+      // Claim the invite first so it can only ever be used once
+      const [claimed] = await ctx.db
+        .update(householdInvites)
+        .set({ acceptedBy: userId, acceptedAt: new Date() })
+        .where(and(eq(householdInvites.id, invite.id), isNull(householdInvites.acceptedAt)))
+        .returning({ id: householdInvites.id });
+
+      if (!claimed) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'This invite is invalid or has expired',
+        });
+      }
+
+      await ctx.db.insert(householdMembers).values({
+        householdId: invite.householdId,
+        userId,
+        role: invite.role,
+        color: pickMemberColor(members.map((member) => member.color)),
+      });
+
+      return { householdId: invite.householdId };
+    }),
+
+  /**
+   * Change a member's role
+   */
+  setRole: protectedProcedure
+    .input(z.object({ userId: z.string(), role: roleSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const membership = await requireAdmin(ctx.db, ctx.user.id as string);
+
+      const target = await ctx.db.query.householdMembers.findFirst({
+        where: and(
+          eq(householdMembers.householdId, membership.householdId),
+          eq(householdMembers.userId, input.userId)
+        ),
+      });
+
+      if (!target) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Member not found' });
+      }
+
+      if (
+        target.role === 'admin' &&
+        input.role !== 'admin' &&
+        (await countAdmins(ctx.db, membership.householdId)) <= 1
+      ) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'A household needs at least one admin',
+        });
+      }
+
+      await ctx.db
+        .update(householdMembers)
+        .set({ role: input.role })
+        .where(eq(householdMembers.id, target.id));
+
+      return { success: true };
+    }),
+
+  /**
+   * Remove another member from the household
+   */
+  removeMember: protectedProcedure
+    .input(z.object({ userId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.user.id as string;
+      const membership = await requireAdmin(ctx.db, userId);
+
+      if (input.userId === userId) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Use leave to remove yourself',
+        });
+      }
+
+      const [removed] = await ctx.db
+        .delete(householdMembers)
+        .where(
+          and(
+            eq(householdMembers.householdId, membership.householdId),
+            eq(householdMembers.userId, input.userId)
+          )
+        )
+        .returning({ id: householdMembers.id });
+
+      if (!removed) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Member not found' });
+      }
+
+      return { success: true };
+    }),
+
+  /**
+   * Leave the household
+   * The household is deleted when its last member leaves.
+   */
+  leave: protectedProcedure.mutation(async ({ ctx }) => {
+    const userId = ctx.user.id as string;
+    const membership = await getMembership(ctx.db, userId);
+
+    if (!membership) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'You are not in a household' });
+    }
+
+    const others = await ctx.db.query.householdMembers.findMany({
+      where: and(
+        eq(householdMembers.householdId, membership.householdId),
+        ne(householdMembers.userId, userId)
+      ),
+      columns: { role: true },
+    });
+
+    if (others.length === 0) {
+      await ctx.db.delete(households).where(eq(households.id, membership.householdId));
+      return { success: true };
+    }
+
+    if (membership.role === 'admin' && !others.some((member) => member.role === 'admin')) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'Make another member an admin before leaving',
+      });
+    }
+
+    await ctx.db.delete(householdMembers).where(eq(householdMembers.id, membership.id));
+
+    return { success: true };
+  }),
+
+  /**
+   * Change the color the user's deliveries are shown in
+   */
+  setColor: protectedProcedure
+    .input(z.object({ color: z.enum(HOUSEHOLD_MEMBER_COLORS) }))
+    .mutation(async ({ ctx, input }) => {
+      const [member] = await ctx.db
+        .update(householdMembers)
+        .set({ color: input.color })
+        .where(eq(householdMembers.userId, ctx.user.id as string))
+        .returning({ id: householdMembers.id });
+
+      if (!member) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'You are not in a household' });
+      }
+
+      return { success: true };
+    }),
+});
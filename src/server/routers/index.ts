@@ -1,18 +1,36 @@
 import { router } from '@/lib/trpc/init';
+import { adminRouter } from './admin';
 import { deliveryRouter } from './delivery';
+import { emailImportRouter } from './email-import';
+import { exportRouter } from './export';
+import { householdRouter } from './household';
+import { notificationRouter } from './notification';
+import { packageRouter } from './package';
 import { platformRouter } from './platform';
 import { preferenceRouter } from './preference';
+import { securityRouter } from './security';
+import { shareRouter } from './share';
 import { userRouter } from './user';
+import { webhookRouter } from './webhook';
 
 /**
  * Root router for DropDeck API
  * All sub-routers are merged here
  */
 export const appRouter = router({
+  admin: adminRouter,
   platform: platformRouter,
   delivery: deliveryRouter,
+  emailImport: emailImportRouter,
+  export: exportRouter,
+  household: householdRouter,
+  notification: notificationRouter,
+  package: packageRouter,
   preference: preferenceRouter,
+  security: securityRouter,
+  share: shareRouter,
   user: userRouter,
+  webhook: webhookRouter,
 });
 
 /**
@@ -0,0 +1,394 @@
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { validateChannelServerUrl } from '@/lib/channels';
+import { notificationChannelTypeEnum } from '@/lib/db/schema';
+import { getSmtpConfig } from '@/lib/email';
+import { isPrivateHost } from '@/lib/network';
+import { notificationService } from '@/lib/services/notifications';
+import { getRequestMeta, recordSecurityEvent } from '@/lib/services/security-log';
+import { isValidTimeZone } from '@/lib/timezone';
+import { protectedProcedure, publicProcedure, router } from '@/lib/trpc/init';
+
+/**
+ * Check that a URL can be used as a push endpoint
+ * The server posts to it, so it must be a push service on the internet.
+ */
+function validatePushEndpoint(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'Enter a valid URL';
+  }
+
+  if (url.protocol !== 'https:') {
+    return 'Push endpoints must use HTTPS';
+  }
+
+  if (isPrivateHost(url.hostname)) {
+    return 'Push endpoints must be reachable from the internet';
+  }
+
+  return null;
+}
+
+/**
+ * Browser push subscription schema (PushSubscription.toJSON())
+ */
+const pushSubscriptionSchema = z.object({
+  endpoint: z
+    .string()
+    .url()
+    .superRefine((value, ctx) => {
+      const error = validatePushEndpoint(value);
+      if (error) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+      }
+    }),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1),
+  }),
+});
+
+/**
+ * ntfy/Gotify channel type schema
+ */
+const channelTypeSchema = z.enum(notificationChannelTypeEnum.enumValues);
+
+/**
+ * Channel server URL schema
+ */
+const channelServerUrlSchema = z
+  .string()
+  .url()
+  .superRefine((value, ctx) => {
+    const error = validateChannelServerUrl(value);
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+    }
+  });
+
+/**
+ * Channel token schema (undefined = keep the saved token, null = remove it)
+ */
+const channelTokenSchema = z.string().min(1).max(200).nullable().optional();
+
+/**
+ * Channel settings schema
+ */
+const saveChannelSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('ntfy'),
+    serverUrl: channelServerUrlSchema,
+    topic: z
+      .string()
+      .regex(/^[-_A-Za-z0-9]{1,64}$/, 'Topics may only contain letters, numbers, - and _'),
+    token: channelTokenSchema,
+    enabled: z.boolean().default(true),
+  }),
+  z.object({
+    type: z.literal('gotify'),
+    serverUrl: channelServerUrlSchema,
+    token: channelTokenSchema,
+    enabled: z.boolean().default(true),
+  }),
+]);
+
+/**
+ * 24-hour local time of day schema
+ */
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use 24-hour HH:MM');
+
+/**
+ * Daily digest settings schema
+ */
+const digestSettingsSchema = z.object({
+  enabled: z.boolean(),
+  time: timeOfDaySchema,
+  timezone: z.string().refine(isValidTimeZone, 'Unknown timezone'),
+});
+
+/**
+ * ETA slip notification settings schema
+ */
+const etaSlipSettingsSchema = z.object({
+  enabled: z.boolean(),
+  thresholdMinutes: z
+    .number()
+    .int()
+    .min(5)
+    .max(24 * 60),
+});
+
+/**
+ * Quiet hours schedule schema, one window or null per weekday from Sunday
+ */
+const quietHoursScheduleSchema = z
+  .array(z.object({ start: timeOfDaySchema, end: timeOfDaySchema }).nullable())
+  .length(7);
+
+/**
+ * Delivery and platform notification preferences schema
+ * The digest and ETA slip threshold have their own procedures.
+ */
+const preferencesSchema = z
+  .object({
+    pushEnabled: z.boolean(),
+    inAppEnabled: z.boolean(),
+    soundEnabled: z.boolean(),
+    driverAssigned: z.boolean(),
+    outForDelivery: z.boolean(),
+    arrivingSoon: z.boolean(),
+    delivered: z.boolean(),
+    delayed: z.boolean(),
+    etaSlipped: z.boolean(),
+    householdDeliveries: z.boolean(),
+    platformStatus: z.boolean(),
+    quietHoursEnabled: z.boolean(),
+    quietHoursStart: timeOfDaySchema,
+    quietHoursEnd: timeOfDaySchema,
+    quietHoursSchedule: quietHoursScheduleSchema.nullable(),
+    quietHoursAllowCritical: z.boolean(),
+    timezone: z.string().refine(isValidTimeZone, 'Unknown timezone'),
+  })
+  .partial()
+  .refine((input) => Object.keys(input).length > 0, { message: 'Nothing to update' });
+
+/**
+ * Notification router - handles push subscriptions, ntfy/Gotify channels and the daily digest
+ */
+export const notificationRouter = router({
+  /**
+   * Get the VAPID public key browsers subscribe with
+   * Returns null when Web Push is not configured.
+   */
+  vapidPublicKey: publicProcedure.query(() => {
+    return process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY ?? null;
+  }),
+
+  /**
+   * Register this browser for push notifications
+   */
+  subscribePush: protectedProcedure
+    .input(pushSubscriptionSchema)
+    .mutation(async ({ ctx, input }) => {
+      const id = await notificationService.registerPushSubscription(
+        ctx.user.id as string,
+        input,
+        ctx.headers.get('user-agent') ?? undefined
+      );
+
+      return { id };
+    }),
+
+  /**
+   * Stop sending push notifications to this browser
+   */
+  unsubscribePush: protectedProcedure
+    .input(z.object({ endpoint: z.string().url() }))
+    .mutation(async ({ ctx, input }) => {
+      await notificationService.removePushSubscription(ctx.user.id as string, input.endpoint);
+      return { success: true };
+    }),
+
+  /**
+   * List the user's ntfy and Gotify channels (tokens are never returned)
+   */
+  channels: protectedProcedure.query(async ({ ctx }) => {
+    return notificationService.getNotificationChannels(ctx.user.id as string);
+  }),
+
+  /**
+   * Create or update an ntfy or Gotify channel
+   */
+  saveChannel: protectedProcedure.input(saveChannelSchema).mutation(async ({ ctx, input }) => {
+    const userId = ctx.user.id as string;
+    const existing = await notificationService.getNotificationChannelConfig(userId, input.type);
+    const token = input.token === undefined ? existing?.token : (input.token ?? undefined);
+
+    if (input.type === 'gotify' && !token) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'A Gotify application token is required',
+      });
+    }
+
+    await notificationService.saveNotificationChannel(
+      userId,
+      input.type,
+      {
+        serverUrl: input.serverUrl,
+        ...(input.type === 'ntfy' && { topic: input.topic }),
+        ...(token && { token }),
+      },
+      input.enabled
+    );
+
+    return { success: true };
+  }),
+
+  /**
+   * Turn a channel on or off
+   */
+  setChannelEnabled: protectedProcedure
+    .input(z.object({ type: channelTypeSchema, enabled: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      const updated = await notificationService.setNotificationChannelEnabled(
+        ctx.user.id as string,
+        input.type,
+        input.enabled
+      );
+
+      if (!updated) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Notification channel not found' });
+      }
+
+      return { success: true };
+    }),
+
+  /**
+   * Remove a channel
+   */
+  removeChannel: protectedProcedure
+    .input(z.object({ type: channelTypeSchema }))
+    .mutation(async ({ ctx, input }) => {
+      await notificationService.removeNotificationChannel(ctx.user.id as string, input.type);
+      return { success: true };
+    }),
+
+  /**
+   * Send a test message to a channel
+   */
+  testChannel: protectedProcedure
+    .input(z.object({ type: channelTypeSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await notificationService.sendTestToChannel(ctx.user.id as string, input.type);
+
+      if (!result) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Notification channel not found' });
+      }
+
+      return result;
+    }),
+
+  /**
+   * Get the user's notification preferences
+   */
+  preferences: protectedProcedure.query(async ({ ctx }) => {
+    const prefs = await notificationService.getUserPreferences(ctx.user.id as string);
+
+    return {
+      pushEnabled: prefs.pushEnabled,
+      inAppEnabled: prefs.inAppEnabled,
+      soundEnabled: prefs.soundEnabled,
+      driverAssigned: prefs.driverAssigned,
+      outForDelivery: prefs.outForDelivery,
+      arrivingSoon: prefs.arrivingSoon,
+      delivered: prefs.delivered,
+      delayed: prefs.delayed,
+      etaSlipped: prefs.etaSlipped,
+      etaSlipMinutes: prefs.etaSlipMinutes,
+      householdDeliveries: prefs.householdDeliveries,
+      platformStatus: prefs.platformStatus,
+      quietHoursEnabled: prefs.quietHoursEnabled,
+      quietHoursStart: prefs.quietHoursStart ?? '22:00',
+      quietHoursEnd: prefs.quietHoursEnd ?? '08:00',
+      quietHoursSchedule: prefs.quietHoursSchedule,
+      quietHoursAllowCritical: prefs.quietHoursAllowCritical,
+      timezone: prefs.timezone,
+    };
+  }),
+
+  /**
+   * Update some of the user's notification preferences
+   */
+  updatePreferences: protectedProcedure
+    .input(preferencesSchema)
+    .mutation(async ({ ctx, input }) => {
+      await notificationService.updateUserPreferences(ctx.user.id as string, input);
+      await recordSecurityEvent(
+        {
+          userId: ctx.user.id as string,
+          event: 'preferences_updated',
+          details: { fields: Object.keys(input) },
+          request: getRequestMeta(ctx.headers),
+        },
+        ctx.db
+      );
+
+      return { success: true };
+    }),
+
+  /**
+   * Get the user's daily digest settings
+   */
+  digestSettings: protectedProcedure.query(async ({ ctx }) => {
+    const prefs = await notificationService.getUserPreferences(ctx.user.id as string);
+
+    return {
+      enabled: prefs.emailDigestEnabled,
+      time: prefs.emailDigestTime,
+      timezone: prefs.timezone,
+      // Lets the settings page explain why no email arrives
+      emailConfigured: getSmtpConfig() !== null,
+    };
+  }),
+
+  /**
+   * Turn the daily digest on or off and choose when it arrives
+   */
+  updateDigest: protectedProcedure.input(digestSettingsSchema).mutation(async ({ ctx, input }) => {
+    await notificationService.updateUserPreferences(ctx.user.id as string, {
+      emailDigestEnabled: input.enabled,
+      emailDigestTime: input.time,
+      timezone: input.timezone,
+    });
+    await recordSecurityEvent(
+      {
+        userId: ctx.user.id as string,
+        event: 'preferences_updated',
+        details: { fields: ['emailDigestEnabled', 'emailDigestTime', 'timezone'] },
+        request: getRequestMeta(ctx.headers),
+      },
+      ctx.db
+    );
+
+    return { success: true };
+  }),
+
+  /**
+   * Get the user's ETA slip notification settings
+   */
+  etaSlipSettings: protectedProcedure.query(async ({ ctx }) => {
+    const prefs = await notificationService.getUserPreferences(ctx.user.id as string);
+
+    return {
+      enabled: prefs.etaSlipped,
+      thresholdMinutes: prefs.etaSlipMinutes,
+    };
+  }),
+
+  /**
+   * Choose how far an ETA may slip past the first promise before notifying
+   */
+  updateEtaSlip: protectedProcedure
+    .input(etaSlipSettingsSchema)
+    .mutation(async ({ ctx, input }) => {
+      await notificationService.updateUserPreferences(ctx.user.id as string, {
+        etaSlipped: input.enabled,
+        etaSlipMinutes: input.thresholdMinutes,
+      });
+      await recordSecurityEvent(
+        {
+          userId: ctx.user.id as string,
+          event: 'preferences_updated',
+          details: { fields: ['etaSlipped', 'etaSlipMinutes'] },
+          request: getRequestMeta(ctx.headers),
+        },
+        ctx.db
+      );
+
+      return { success: true };
+    }),
+});
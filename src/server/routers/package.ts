@@ -0,0 +1,147 @@
+import { TRPCError } from '@trpc/server';
+import { and, asc, eq } from 'drizzle-orm';
+import { z } from 'zod';
+import {
+  detectCarrier,
+  getCarrierTrackingNumber,
+  normalizeTrackingNumber,
+} from '@/lib/adapters/carriers/detect';
+import { PlatformAdapterError, PlatformUnavailableError } from '@/lib/adapters/errors';
+import { deliveryCache, platformConnections, trackedPackages } from '@/lib/db/schema';
+import { packageTrackingService } from '@/lib/services/packages';
+import { protectedProcedure, router } from '@/lib/trpc/init';
+import { CARRIER_PLATFORMS, PLATFORM_CONFIGS } from '@/types/platform';
+
+/**
+ * Packages a user may follow at once
+ */
+const MAX_PACKAGES = 50;
+
+/**
+ * Package router - follows parcels by tracking number
+ */
+export const packageRouter = router({
+  /**
+   * List the user's tracked packages
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.db.query.trackedPackages.findMany({
+      where: eq(trackedPackages.userId, ctx.user.id as string),
+      orderBy: [asc(trackedPackages.createdAt)],
+    });
+  }),
+
+  /**
+   * Start tracking a package
+   * The carrier is detected from the number unless the user picks one. Numbers
+   * the carrier has not scanned yet are tracked as "Awaiting Carrier Scan".
+   */
+  track: protectedProcedure
+    .input(
+      z.object({
+        trackingNumber: z.string().min(8).max(40),
+        carrier: z.enum(CARRIER_PLATFORMS).optional(),
+        label: z.string().max(60).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const carrier = input.carrier ?? detectCarrier(input.trackingNumber);
+      if (!carrier) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Could not tell the carrier from this tracking number. Pick one to continue.',
+        });
+      }
+
+      const existing = await ctx.db.query.trackedPackages.findMany({
+        where: eq(trackedPackages.userId, ctx.user.id as string),
+        columns: { id: true },
+      });
+      if (existing.length >= MAX_PACKAGES) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `You can track up to ${MAX_PACKAGES} packages`,
+        });
+      }
+
+      const trackingNumber = getCarrierTrackingNumber(
+        carrier,
+        normalizeTrackingNumber(input.trackingNumber)
+      );
+
+      try {
+        return await packageTrackingService.track(ctx.user.id as string, {
+          carrier,
+          trackingNumber,
+          label: input.label,
+        });
+      } catch (error) {
+        const carrierName = PLATFORM_CONFIGS[carrier].name;
+
+        if (error instanceof PlatformUnavailableError) {
+          throw new TRPCError({
+            code: 'PRECONDITION_FAILED',
+            message: `${carrierName} tracking is unavailable right now`,
+            cause: error,
+          });
+        }
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message:
+            error instanceof PlatformAdapterError
+              ? error.message
+              : `Could not track the package with ${carrierName}`,
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Stop tracking a package
+   * Removes it from the dashboard; the carrier connection goes with the last package.
+   */
+  remove: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.user.id as string;
+
+      const [removed] = await ctx.db
+        .delete(trackedPackages)
+        .where(and(eq(trackedPackages.id, input.id), eq(trackedPackages.userId, userId)))
+        .returning();
+
+      if (!removed) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Package not found' });
+      }
+
+      await ctx.db
+        .delete(deliveryCache)
+        .where(
+          and(
+            eq(deliveryCache.userId, userId),
+            eq(deliveryCache.platform, removed.carrier),
+            eq(deliveryCache.externalOrderId, removed.trackingNumber)
+          )
+        );
+
+      const remaining = await ctx.db.query.trackedPackages.findFirst({
+        where: and(
+          eq(trackedPackages.userId, userId),
+          eq(trackedPackages.carrier, removed.carrier)
+        ),
+        columns: { id: true },
+      });
+      if (!remaining) {
+        await ctx.db
+          .delete(platformConnections)
+          .where(
+            and(
+              eq(platformConnections.userId, userId),
+              eq(platformConnections.platform, removed.carrier)
+            )
+          );
+      }
+
+      return { success: true };
+    }),
+});
@@ -1,9 +1,16 @@
 import { TRPCError } from '@trpc/server';
 import { and, eq } from 'drizzle-orm';
 import { z } from 'zod';
+import { PlatformAdapterError } from '@/lib/adapters/errors';
 import { getAdapter } from '@/lib/adapters/registry';
 import { platformConnections } from '@/lib/db/schema';
 import { decryptToken, encryptToken } from '@/lib/encryption/tokens';
+import {
+  clearConnectionErrors,
+  connectionManager,
+  toManagedConnection,
+} from '@/lib/services/connections';
+import { getRequestMeta, recordSecurityEvent } from '@/lib/services/security-log';
 import { protectedProcedure, router } from '@/lib/trpc/init';
 
 /**
@@ -21,8 +28,22 @@ const platformSchema = z.enum([
   'costco',
   'samsclub',
   'amazon',
+  'ups',
+  'fedex',
+  'usps',
+  'dhl',
 ]);
 
+/**
+ * Browser session captured from a platform's website
+ */
+const sessionSchema = z.object({
+  cookies: z.record(z.string(), z.string()).refine((cookies) => Object.keys(cookies).length > 0, {
+    message: 'At least one cookie is required',
+  }),
+  userAgent: z.string().min(1),
+});
+
 /**
  * Platform router - handles platform connections and OAuth
  */
@@ -41,11 +62,13 @@ export const platformRouter = router({
         expiresAt: true,
         metadata: true,
         createdAt: true,
+        sessionDataEncrypted: true,
       },
     });
 
-    return connections.map((conn) => ({
+    return connections.map(({ sessionDataEncrypted, ...conn }) => ({
       ...conn,
+      hasLinkedSession: sessionDataEncrypted !== null,
       isExpiringSoon: conn.expiresAt
         ? conn.expiresAt.getTime() - Date.now() < 5 * 60 * 1000
         : false,
@@ -179,11 +202,126 @@ export const platformRouter = router({
             refreshTokenEncrypted,
             expiresAt: tokens.expiresAt,
             status: 'connected',
+            metadata: clearConnectionErrors(),
             lastSyncAt: new Date(),
             updatedAt: new Date(),
           },
         });
 
+      await recordSecurityEvent(
+        {
+          userId: ctx.user.id as string,
+          event: 'platform_connected',
+          details: { platform: input.platform, method: 'oauth' },
+          request: getRequestMeta(ctx.headers),
+        },
+        ctx.db
+      );
+
+      return { success: true };
+    }),
+
+  /**
+   * Link a browser session to a platform connection
+   * Used by platforms that track some orders outside their OAuth API (e.g. Costco.com).
+   */
+  linkSession: protectedProcedure
+    .input(z.object({ platform: platformSchema, session: sessionSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const adapter = getAdapter(input.platform);
+
+      if (!adapter.supportsLinkedSession()) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `${input.platform} does not support linked sessions`,
+        });
+      }
+
+      const sessionData = JSON.stringify({
+        ...input.session,
+        lastRefreshed: new Date().toISOString(),
+      });
+
+      try {
+        await adapter.testLinkedSession(sessionData);
+      } catch (error) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message:
+            error instanceof PlatformAdapterError
+              ? error.message
+              : `Could not verify the ${adapter.displayName} session`,
+          cause: error,
+        });
+      }
+
+      const sessionDataEncrypted = encryptToken(sessionData);
+
+      await ctx.db
+        .insert(platformConnections)
+        .values({
+          userId: ctx.user.id as string,
+          platform: input.platform,
+          sessionDataEncrypted,
+          status: 'connected',
+          lastSyncAt: new Date(),
+        })
+        .onConflictDoUpdate({
+          target: [platformConnections.userId, platformConnections.platform],
+          set: {
+            sessionDataEncrypted,
+            status: 'connected',
+            metadata: clearConnectionErrors(),
+            updatedAt: new Date(),
+          },
+        });
+
+      await recordSecurityEvent(
+        {
+          userId: ctx.user.id as string,
+          event: 'platform_connected',
+          details: { platform: input.platform, method: 'session' },
+          request: getRequestMeta(ctx.headers),
+        },
+        ctx.db
+      );
+
+      return { success: true };
+    }),
+
+  /**
+   * Remove a linked browser session
+   * The connection is removed too if the session was its only credential.
+   */
+  unlinkSession: protectedProcedure
+    .input(z.object({ platform: platformSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const where = and(
+        eq(platformConnections.userId, ctx.user.id as string),
+        eq(platformConnections.platform, input.platform)
+      );
+
+      const connection = await ctx.db.query.platformConnections.findFirst({ where });
+      if (!connection?.sessionDataEncrypted) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'No linked session' });
+      }
+
+      if (connection.accessTokenEncrypted) {
+        await ctx.db.update(platformConnections).set({ sessionDataEncrypted: null }).where(where);
+      } else {
+        await ctx.db.delete(platformConnections).where(where);
+      }
+
+      await recordSecurityEvent(
+        {
+          userId: ctx.user.id as string,
+          event: 'platform_disconnected',
+          details: { platform: input.platform, method: 'session' },
+          request: getRequestMeta(ctx.headers),
+        },
+        ctx.db
+      );
+
       return { success: true };
     }),
 
@@ -204,7 +342,10 @@ export const platformRouter = router({
 
         if (connection?.accessTokenEncrypted) {
           const adapter = getAdapter(input.platform);
-          const accessToken = decryptToken(connection.accessTokenEncrypted);
+          const accessToken = decryptToken(connection.accessTokenEncrypted, {
+            userId: connection.userId,
+            purpose: 'token_revoke',
+          });
           await adapter.revokeToken?.(accessToken);
         }
       } catch {
@@ -226,6 +367,16 @@ export const platformRouter = router({
         await ctx.redis.del(`user:${ctx.user.id}:deliveries:${input.platform}`);
       }
 
+      await recordSecurityEvent(
+        {
+          userId: ctx.user.id as string,
+          event: 'platform_disconnected',
+          details: { platform: input.platform },
+          request: getRequestMeta(ctx.headers),
+        },
+        ctx.db
+      );
+
       return { success: true };
     }),
 
@@ -249,27 +400,9 @@ export const platformRouter = router({
         });
       }
 
-      const adapter = getAdapter(input.platform);
-      const refreshToken = decryptToken(connection.refreshTokenEncrypted);
-      const tokens = await adapter.refreshToken(refreshToken);
-
-      const accessTokenEncrypted = encryptToken(tokens.accessToken);
-      const refreshTokenEncrypted = tokens.refreshToken
-        ? encryptToken(tokens.refreshToken)
-        : connection.refreshTokenEncrypted;
-
-      await ctx.db
-        .update(platformConnections)
-        .set({
-          accessTokenEncrypted,
-          refreshTokenEncrypted,
-          expiresAt: tokens.expiresAt,
-          status: 'connected',
-          updatedAt: new Date(),
-        })
-        .where(eq(platformConnections.id, connection.id));
+      const refreshed = await connectionManager.refresh(toManagedConnection(connection));
 
-      return { success: true, expiresAt: tokens.expiresAt };
+      return { success: true, expiresAt: refreshed.expiresAt };
     }),
 
   /**
@@ -289,14 +422,19 @@ export const platformRouter = router({
         return { connected: false, error: 'Not connected' };
       }
 
-      if (!connection.accessTokenEncrypted) {
+      if (!connection.accessTokenEncrypted && !connection.sessionDataEncrypted) {
         return { connected: false, error: 'No access token' };
       }
 
       try {
         const adapter = getAdapter(input.platform);
-        const accessToken = decryptToken(connection.accessTokenEncrypted);
-        await adapter.testConnection(accessToken);
+        const audit = { userId: connection.userId, purpose: 'connection_test' } as const;
+        if (connection.accessTokenEncrypted) {
+          await adapter.testConnection(decryptToken(connection.accessTokenEncrypted, audit));
+        }
+        if (connection.sessionDataEncrypted) {
+          await adapter.testLinkedSession(decryptToken(connection.sessionDataEncrypted, audit));
+        }
         return { connected: true };
       } catch (error) {
         return {
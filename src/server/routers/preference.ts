@@ -1,6 +1,7 @@
 import { eq } from 'drizzle-orm';
 import { z } from 'zod';
 import { userPreferences } from '@/lib/db/schema';
+import { getRequestMeta, recordSecurityEvent } from '@/lib/services/security-log';
 import { protectedProcedure, router } from '@/lib/trpc/init';
 
 /**
@@ -12,6 +13,14 @@ const notificationSettingsSchema = z.object({
   arrivingSoon: z.boolean(),
   delivered: z.boolean(),
   delayed: z.boolean(),
+  etaSlipped: z.boolean().optional(),
+  etaSlipMinutes: z
+    .number()
+    .int()
+    .min(5)
+    .max(24 * 60)
+    .optional(),
+  householdDeliveries: z.boolean().optional(),
   quietHours: z
     .object({
       enabled: z.boolean(),
@@ -100,6 +109,16 @@ export const preferenceRouter = router({
           },
         });
 
+      await recordSecurityEvent(
+        {
+          userId: ctx.user.id as string,
+          event: 'preferences_updated',
+          details: { fields: Object.keys(updateData) },
+          request: getRequestMeta(ctx.headers),
+        },
+        ctx.db
+      );
+
       return { success: true };
     }),
 
@@ -108,6 +127,15 @@ export const preferenceRouter = router({
    */
   reset: protectedProcedure.mutation(async ({ ctx }) => {
     await ctx.db.delete(userPreferences).where(eq(userPreferences.userId, ctx.user.id as string));
+    await recordSecurityEvent(
+      {
+        userId: ctx.user.id as string,
+        event: 'preferences_updated',
+        details: { reset: true },
+        request: getRequestMeta(ctx.headers),
+      },
+      ctx.db
+    );
 
     return {
       theme: 'system' as const,
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { listSecurityEvents, verifyUserSecurityLog } from '@/lib/services/security-log';
+import { protectedProcedure, router } from '@/lib/trpc/init';
+
+/**
+ * Security router - the user's own log of security-relevant account events
+ */
+export const securityRouter = router({
+  /**
+   * List security log entries, newest first
+   */
+  list: protectedProcedure
+    .input(
+      z
+        .object({
+          cursor: z.number().int().positive().optional(),
+          limit: z.number().int().min(1).max(100).default(50),
+        })
+        .default({ limit: 50 })
+    )
+    .query(async ({ ctx, input }) => {
+      return listSecurityEvents(ctx.db, ctx.user.id as string, input);
+    }),
+
+  /**
+   * Check that no entry has been edited or removed
+   */
+  verify: protectedProcedure.query(async ({ ctx }) => {
+    return verifyUserSecurityLog(ctx.db, ctx.user.id as string);
+  }),
+});
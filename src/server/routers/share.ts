@@ -0,0 +1,117 @@
+import { TRPCError } from '@trpc/server';
+import { and, desc, eq, gt, isNull } from 'drizzle-orm';
+import { z } from 'zod';
+import { deliveryShares } from '@/lib/db/schema';
+import {
+  findUserDelivery,
+  generateShareToken,
+  hashShareToken,
+  SHARE_MAX_TTL_HOURS,
+} from '@/lib/services/shares';
+import { protectedProcedure, router } from '@/lib/trpc/init';
+
+/**
+ * Share privacy schema
+ */
+const privacySchema = z.enum(['driver', 'location', 'eta']);
+
+/**
+ * Build the public tracking page URL for a share token
+ */
+function getShareUrl(token: string): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL ?? 'http://localhost:3000';
+  return `${appUrl}/track/${token}`;
+}
+
+/**
+ * Share router - handles public tracking links for single deliveries
+ */
+export const shareRouter = router({
+  /**
+   * List a delivery's active share links (never the tokens)
+   */
+  list: protectedProcedure
+    .input(z.object({ deliveryId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      return ctx.db.query.deliveryShares.findMany({
+        where: and(
+          eq(deliveryShares.userId, ctx.user.id as string),
+          eq(deliveryShares.deliveryId, input.deliveryId),
+          isNull(deliveryShares.revokedAt),
+          gt(deliveryShares.expiresAt, new Date())
+        ),
+        columns: {
+          id: true,
+          tokenHint: true,
+          privacy: true,
+          expiresAt: true,
+          lastViewedAt: true,
+          createdAt: true,
+        },
+        orderBy: [desc(deliveryShares.createdAt)],
+      });
+    }),
+
+  /**
+   * Create a share link for one of the user's deliveries
+   * The link contains the token, so it is only returned here.
+   */
+  create: protectedProcedure
+    .input(
+      z.object({
+        deliveryId: z.string(),
+        privacy: privacySchema.default('location'),
+        expiresInHours: z.number().int().min(1).max(SHARE_MAX_TTL_HOURS).default(24),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.user.id as string;
+
+      const delivery = await findUserDelivery(userId, input.deliveryId, ctx.db);
+      if (!delivery) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Only your own deliveries can be shared',
+        });
+      }
+
+      const token = generateShareToken();
+      const expiresAt = new Date(Date.now() + input.expiresInHours * 60 * 60 * 1000);
+
+      await ctx.db.insert(deliveryShares).values({
+        userId,
+        deliveryId: input.deliveryId,
+        tokenHash: hashShareToken(token),
+        tokenHint: token.slice(-4),
+        privacy: input.privacy,
+        expiresAt,
+      });
+
+      return { url: getShareUrl(token), expiresAt };
+    }),
+
+  /**
+   * Revoke a share link
+   */
+  revoke: protectedProcedure
+    .input(z.object({ shareId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const [share] = await ctx.db
+        .update(deliveryShares)
+        .set({ revokedAt: new Date() })
+        .where(
+          and(
+            eq(deliveryShares.id, input.shareId),
+            eq(deliveryShares.userId, ctx.user.id as string),
+            isNull(deliveryShares.revokedAt)
+          )
+        )
+        .returning({ id: deliveryShares.id });
+
+      if (!share) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Share link not found' });
+      }
+
+      return { success: true };
+    }),
+});
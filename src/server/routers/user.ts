@@ -1,6 +1,7 @@
 import { eq, sql } from 'drizzle-orm';
 import { z } from 'zod';
 import { accounts, deliveryHistory, platformConnections, users } from '@/lib/db/schema';
+import { getRequestMeta, recordSecurityEvent } from '@/lib/services/security-log';
 import { protectedProcedure, publicProcedure, router } from '@/lib/trpc/init';
 
 /**
@@ -88,6 +89,16 @@ export const userRouter = router({
    * Delete user account
    */
   deleteAccount: protectedProcedure.mutation(async ({ ctx }) => {
+    // Recorded first: the security log is kept after the account is gone
+    await recordSecurityEvent(
+      {
+        userId: ctx.user.id as string,
+        event: 'account_deleted',
+        request: getRequestMeta(ctx.headers),
+      },
+      ctx.db
+    );
+
     // Delete user - cascade will handle related records
     await ctx.db.delete(users).where(eq(users.id, ctx.user.id as string));
 
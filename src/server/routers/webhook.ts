@@ -0,0 +1,231 @@
+import { TRPCError } from '@trpc/server';
+import { and, desc, eq } from 'drizzle-orm';
+import { z } from 'zod';
+import {
+  deliveryStatusEnum,
+  platformEnum,
+  webhookDeliveries,
+  webhookEndpoints,
+} from '@/lib/db/schema';
+import { encryptToken } from '@/lib/encryption/tokens';
+import {
+  generateWebhookSecret,
+  validateWebhookUrl,
+  type WebhookEndpoint,
+  webhookService,
+} from '@/lib/services/webhooks';
+import { protectedProcedure, router } from '@/lib/trpc/init';
+
+/**
+ * Endpoints a user may register
+ */
+const MAX_ENDPOINTS = 10;
+
+/**
+ * Endpoint URL schema
+ */
+const webhookUrlSchema = z
+  .string()
+  .url()
+  .superRefine((value, ctx) => {
+    const error = validateWebhookUrl(value);
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+    }
+  });
+
+/**
+ * Endpoint filter schema (empty or null = no filter)
+ */
+const webhookFilterSchema = z.object({
+  platforms: z.array(z.enum(platformEnum.enumValues)).nullable(),
+  statuses: z.array(z.enum(deliveryStatusEnum.enumValues)).nullable(),
+  arrivingWithinMinutes: z.number().int().min(1).max(240).nullable(),
+});
+
+/**
+ * Endpoint fields returned to the client (never the secret)
+ */
+function toEndpointSummary(endpoint: WebhookEndpoint) {
+  return {
+    id: endpoint.id,
+    url: endpoint.url,
+    description: endpoint.description,
+    platforms: endpoint.platforms,
+    statuses: endpoint.statuses,
+    arrivingWithinMinutes: endpoint.arrivingWithinMinutes,
+    enabled: endpoint.enabled,
+    createdAt: endpoint.createdAt,
+  };
+}
+
+/**
+ * Webhook router - handles outbound webhook endpoints and their delivery log
+ */
+export const webhookRouter = router({
+  /**
+   * List the user's webhook endpoints
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const endpoints = await ctx.db.query.webhookEndpoints.findMany({
+      where: eq(webhookEndpoints.userId, ctx.user.id as string),
+      orderBy: [desc(webhookEndpoints.createdAt)],
+    });
+
+    return endpoints.map(toEndpointSummary);
+  }),
+
+  /**
+   * Register an endpoint
+   * The signing secret is only returned here and from rotateSecret.
+   */
+  create: protectedProcedure
+    .input(
+      webhookFilterSchema.extend({
+        url: webhookUrlSchema,
+        description: z.string().max(100).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.db.query.webhookEndpoints.findMany({
+        where: eq(webhookEndpoints.userId, ctx.user.id as string),
+        columns: { id: true },
+      });
+
+      if (existing.length >= MAX_ENDPOINTS) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `You can register up to ${MAX_ENDPOINTS} webhook endpoints`,
+        });
+      }
+
+      const secret = generateWebhookSecret();
+      const [endpoint] = await ctx.db
+        .insert(webhookEndpoints)
+        .values({
+          userId: ctx.user.id as string,
+          url: input.url,
+          description: input.description ?? null,
+          secretEncrypted: encryptToken(secret),
+          platforms: input.platforms?.length ? input.platforms : null,
+          statuses: input.statuses?.length ? input.statuses : null,
+          arrivingWithinMinutes: input.arrivingWithinMinutes,
+        })
+        .returning();
+
+      if (!endpoint) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to create webhook endpoint',
+        });
+      }
+
+      return { endpoint: toEndpointSummary(endpoint), secret };
+    }),
+
+  /**
+   * Update an endpoint's URL, filters or enabled state
+   */
+  update: protectedProcedure
+    .input(
+      webhookFilterSchema.partial().extend({
+        id: z.string(),
+        url: webhookUrlSchema.optional(),
+        description: z.string().max(100).nullable().optional(),
+        enabled: z.boolean().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { id, platforms, statuses, ...rest } = input;
+
+      const [endpoint] = await ctx.db
+        .update(webhookEndpoints)
+        .set({
+          ...rest,
+          ...(platforms !== undefined && { platforms: platforms?.length ? platforms : null }),
+          ...(statuses !== undefined && { statuses: statuses?.length ? statuses : null }),
+        })
+        .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.userId, ctx.user.id as string)))
+        .returning();
+
+      if (!endpoint) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Webhook endpoint not found' });
+      }
+
+      return toEndpointSummary(endpoint);
+    }),
+
+  /**
+   * Replace an endpoint's signing secret
+   */
+  rotateSecret: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const secret = generateWebhookSecret();
+
+      const [endpoint] = await ctx.db
+        .update(webhookEndpoints)
+        .set({ secretEncrypted: encryptToken(secret) })
+        .where(
+          and(eq(webhookEndpoints.id, input.id), eq(webhookEndpoints.userId, ctx.user.id as string))
+        )
+        .returning({ id: webhookEndpoints.id });
+
+      if (!endpoint) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Webhook endpoint not found' });
+      }
+
+      return { secret };
+    }),
+
+  /**
+   * Remove an endpoint and its delivery log
+   */
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db
+        .delete(webhookEndpoints)
+        .where(
+          and(eq(webhookEndpoints.id, input.id), eq(webhookEndpoints.userId, ctx.user.id as string))
+        );
+
+      return { success: true };
+    }),
+
+  /**
+   * Recent deliveries to an endpoint, newest first
+   */
+  deliveries: protectedProcedure
+    .input(
+      z.object({
+        endpointId: z.string(),
+        limit: z.number().min(1).max(100).default(25),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      return ctx.db.query.webhookDeliveries.findMany({
+        where: and(
+          eq(webhookDeliveries.endpointId, input.endpointId),
+          eq(webhookDeliveries.userId, ctx.user.id as string)
+        ),
+        orderBy: [desc(webhookDeliveries.createdAt)],
+        limit: input.limit,
+      });
+    }),
+
+  /**
+   * Send a sample event to an endpoint right away
+   */
+  sendTest: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await webhookService.sendTest(ctx.user.id as string, input.id);
+
+      if (!result) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Webhook endpoint not found' });
+      }
+
+      return result;
+    }),
+});
@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { createJSONStorage, persist } from 'zustand/middleware';
 import type { DeliveryStatus, UnifiedDelivery } from '@/types/delivery';
+import type { EtaModel } from '@/types/eta';
 import type { Platform } from '@/types/platform';
 
 /**
@@ -31,6 +32,7 @@ interface DashboardState {
   deliveries: UnifiedDelivery[];
   selectedDeliveryId: string | null;
   expandedDeliveryId: string | null;
+  etaModel: EtaModel | null;
 
   // Filters
   filters: DashboardFilters;
@@ -56,6 +58,7 @@ interface DashboardState {
   removeDelivery: (deliveryId: string) => void;
   selectDelivery: (deliveryId: string | null) => void;
   toggleExpandDelivery: (deliveryId: string) => void;
+  setEtaModel: (model: EtaModel | null) => void;
 
   // Filter actions
   setPlatformFilter: (platforms: Platform[]) => void;
@@ -104,12 +107,13 @@ const STATUS_PRIORITY: Record<DeliveryStatus, number> = {
   out_for_delivery: 1,
   driver_at_store: 2,
   driver_heading_to_store: 3,
-  driver_assigned: 4,
-  ready_for_pickup: 5,
-  preparing: 6,
-  delayed: 7,
-  delivered: 8,
-  cancelled: 9,
+  checked_in: 4,
+  driver_assigned: 5,
+  ready_for_pickup: 6,
+  preparing: 7,
+  delayed: 8,
+  delivered: 9,
+  cancelled: 10,
 };
 
 /**
@@ -118,6 +122,7 @@ const STATUS_PRIORITY: Record<DeliveryStatus, number> = {
 const ACTIVE_STATUSES: DeliveryStatus[] = [
   'preparing',
   'ready_for_pickup',
+  'checked_in',
   'driver_assigned',
   'driver_heading_to_store',
   'driver_at_store',
@@ -136,6 +141,7 @@ export const useDashboardStore = create<DashboardState>()(
       deliveries: [],
       selectedDeliveryId: null,
       expandedDeliveryId: null,
+      etaModel: null,
       filters: DEFAULT_FILTERS,
       sortBy: 'eta',
       sortOrder: 'asc',
@@ -182,6 +188,8 @@ export const useDashboardStore = create<DashboardState>()(
           expandedDeliveryId: state.expandedDeliveryId === deliveryId ? null : deliveryId,
         })),
 
+      setEtaModel: (model) => set({ etaModel: model }),
+
       // Filter actions
       setPlatformFilter: (platforms) =>
         set((state) => ({
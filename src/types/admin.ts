@@ -0,0 +1,52 @@
+/**
+ * Site-wide role of a user
+ * Unrelated to household roles, which only apply within a household.
+ */
+export type UserRole = 'user' | 'admin';
+
+/**
+ * Actions written to the admin audit log
+ */
+export type AdminAction =
+  | 'invite_codes.create'
+  | 'invite_code.revoke'
+  | 'feedback.update'
+  | 'user.view'
+  | 'user.set_role';
+
+/**
+ * Kinds of record an admin action applies to
+ */
+export type AdminTargetType = 'invite_code' | 'feedback' | 'user';
+
+/**
+ * Feedback triage status
+ */
+export type FeedbackStatus = 'new' | 'acknowledged' | 'in_progress' | 'resolved' | 'wont_fix';
+
+/**
+ * Feedback statuses in triage order
+ */
+export const FEEDBACK_STATUS_OPTIONS: Array<{ value: FeedbackStatus; label: string }> = [
+  { value: 'new', label: 'New' },
+  { value: 'acknowledged', label: 'Acknowledged' },
+  { value: 'in_progress', label: 'In progress' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'wont_fix', label: "Won't fix" },
+];
+
+/**
+ * Number of events on one day (UTC, YYYY-MM-DD)
+ */
+export interface DailyCount {
+  day: string;
+  count: number;
+}
+
+/**
+ * Invite redemptions per day and for the most redeemed codes
+ */
+export interface RedemptionStats {
+  daily: DailyCount[];
+  byCode: Array<{ code: string; note: string | null; redemptions: number }>;
+}
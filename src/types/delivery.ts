@@ -6,6 +6,7 @@ import type { Platform } from './platform';
 export type DeliveryStatus =
   | 'preparing'
   | 'ready_for_pickup'
+  | 'checked_in'
   | 'driver_assigned'
   | 'driver_heading_to_store'
   | 'driver_at_store'
@@ -15,6 +16,49 @@ export type DeliveryStatus =
   | 'cancelled'
   | 'delayed';
 
+/**
+ * Statuses after which a delivery no longer changes
+ */
+export const FINAL_STATUSES: readonly DeliveryStatus[] = ['delivered', 'cancelled'];
+
+/**
+ * Check if a delivery status is final (delivered or cancelled)
+ */
+export function isFinalStatus(status: DeliveryStatus): boolean {
+  return FINAL_STATUSES.includes(status);
+}
+
+/**
+ * Read a delivery date that may have come back from JSON or jsonb as a string
+ * Missing and unparseable values give undefined.
+ */
+export function toDate(value: Date | string): Date;
+export function toDate(value: Date | string | null | undefined): Date | undefined;
+export function toDate(value: Date | string | null | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * How an order reaches the customer
+ * delivery: brought to the door by a driver or shopper
+ * pickup: collected by the customer at a store or club
+ * shipping: handed to a parcel carrier
+ */
+export type FulfillmentType = 'delivery' | 'pickup' | 'shipping';
+
+/**
+ * Get how a delivery is fulfilled
+ * Deliveries cached before fulfillment was recorded fall back to shipping
+ * when they have a carrier and delivery otherwise.
+ */
+export function getFulfillmentType(
+  delivery: Pick<UnifiedDelivery, 'fulfillment' | 'carrier'>
+): FulfillmentType {
+  return delivery.fulfillment ?? (delivery.carrier ? 'shipping' : 'delivery');
+}
+
 /**
  * Driver location data
  */
@@ -39,6 +83,14 @@ export interface OrderItem {
   substitutedWith?: string;
 }
 
+/**
+ * An arrival time a platform gave for a delivery
+ */
+export interface EtaRevision {
+  estimatedArrival: Date;
+  observedAt: Date; // When the ETA was first seen
+}
+
 /**
  * Timeline event for delivery tracking
  */
@@ -52,6 +104,15 @@ export interface TimelineEvent {
   };
 }
 
+/**
+ * Household member a delivery on a shared deck belongs to
+ */
+export interface DeliveryOwner {
+  userId: string;
+  name: string | null;
+  color: string; // Hex color the member's deliveries are shown in
+}
+
 /**
  * Unified delivery data model
  * Normalizes data from all platforms into a common structure
@@ -61,6 +122,9 @@ export interface UnifiedDelivery {
   id: string; // DropDeck internal ID
   platform: Platform;
   externalOrderId: string; // Platform's order ID
+  label?: string; // User-supplied name, e.g. for a tracked package
+  owner?: DeliveryOwner; // Household member it belongs to, set on shared decks only
+  fulfillment?: FulfillmentType; // Read through getFulfillmentType
 
   // Status
   status: DeliveryStatus;
@@ -82,7 +146,7 @@ export interface UnifiedDelivery {
     location?: DriverLocation;
   };
 
-  // Destination
+  // Where the order ends up: the customer's address, or the store for pickups
   destination: {
     address: string; // Full address
     addressLine1?: string;
@@ -105,8 +169,26 @@ export interface UnifiedDelivery {
     stopsRemaining?: number; // For Amazon multi-stop routes
     trafficConditions?: 'light' | 'moderate' | 'heavy';
     confidence: 'high' | 'medium' | 'low';
+    window?: { start: Date; end: Date }; // Scheduled delivery window, when promised
+    revisions?: EtaRevision[]; // Every ETA given so far, oldest first (kept by the delivery cache)
   };
 
+  // Shipping carrier (parcels and scheduled freight deliveries)
+  carrier?: {
+    name: string; // "UPS", "Costco Logistics"
+    trackingNumber?: string;
+  };
+
+  // Store pickup details (pickup orders only)
+  pickup?: {
+    storeName?: string; // "Walmart Supercenter #1234"
+    storePhone?: string;
+    window?: { start: Date; end: Date }; // Pickup slot booked by the customer
+  };
+
+  // Tracking events reported by the platform (carrier scans), oldest first
+  events?: TimelineEvent[];
+
   // Order summary
   order: {
     itemCount: number;
@@ -130,6 +212,7 @@ export interface UnifiedDelivery {
     confirmed?: Date;
     preparing?: Date;
     readyForPickup?: Date;
+    checkedIn?: Date; // Pickup customer arrived at the store
     driverAssigned?: Date;
     pickedUp?: Date;
     outForDelivery?: Date;
@@ -142,7 +225,7 @@ export interface UnifiedDelivery {
   meta: {
     lastFetchedAt: Date;
     nextFetchAt?: Date;
-    fetchMethod: 'api' | 'webhook' | 'polling' | 'embedded';
+    fetchMethod: 'api' | 'webhook' | 'polling' | 'embedded' | 'email';
     adapterId: string; // Which adapter provided this
     rawData?: unknown; // Original platform response (debug)
   };
@@ -177,6 +260,13 @@ export const STATUS_CONFIGS: Record<DeliveryStatus, StatusConfig> = {
     bgColor: 'rgba(100, 116, 139, 0.15)',
     icon: 'clipboard-check',
   },
+  checked_in: {
+    status: 'checked_in',
+    label: 'Checked In',
+    color: '#06B6D4',
+    bgColor: 'rgba(6, 182, 212, 0.15)',
+    icon: 'map-pin-check',
+  },
   driver_assigned: {
     status: 'driver_assigned',
     label: 'Driver Assigned',
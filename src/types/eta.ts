@@ -0,0 +1,38 @@
+import type { Platform } from './platform';
+
+/**
+ * Learned lateness for one slice of deliveries (a weekday or an hour of day)
+ */
+export interface EtaBucket {
+  sampleCount: number;
+  /** Median minutes between the promised and actual arrival (negative = early) */
+  medianLateness: number;
+}
+
+/**
+ * How a platform's promised arrivals compare with when deliveries arrived
+ * Learned from delivery history; lateness is in minutes, negative when early.
+ */
+export interface EtaStatistics {
+  sampleCount: number;
+  medianLateness: number;
+  /** 10th and 90th percentile lateness */
+  p10Lateness: number;
+  p90Lateness: number;
+  meanAbsoluteError: number;
+  /** Share of deliveries (0-1) that arrived close to the promised time */
+  onTimeRate: number;
+  /** Keyed by local weekday of the promised arrival, 0 = Sunday */
+  byDayOfWeek: Partial<Record<number, EtaBucket>>;
+  /** Keyed by local hour of the promised arrival, 0-23 */
+  byHour: Partial<Record<number, EtaBucket>>;
+}
+
+/**
+ * Learned ETA statistics for one user, by platform
+ */
+export interface EtaModel {
+  /** IANA timezone the weekday and hour buckets are in */
+  timezone: string;
+  platforms: Partial<Record<Platform, EtaStatistics>>;
+}
@@ -0,0 +1,71 @@
+import type { DeliveryStatus } from './delivery';
+import type { Platform } from './platform';
+
+/**
+ * Filters for browsing delivery history
+ */
+export interface HistoryFilters {
+  platform?: Platform;
+  finalStatus?: Extract<DeliveryStatus, 'delivered' | 'cancelled'>;
+  /** Orders placed on or after this time */
+  from?: Date;
+  /** Orders placed before this time */
+  to?: Date;
+  /** Matched against item names */
+  search?: string;
+}
+
+/**
+ * Spend on one platform in one month
+ */
+export interface MonthlySpend {
+  /** Local month, "YYYY-MM" */
+  month: string;
+  platform: Platform;
+  orders: number;
+  /** In cents */
+  totalAmount: number;
+}
+
+/**
+ * On-time arrivals for one platform, or all platforms when platform is null
+ */
+export interface OnTimeRate {
+  platform: Platform | null;
+  /** Delivered orders with a promised arrival */
+  deliveries: number;
+  onTime: number;
+  /** 0-1 */
+  rate: number;
+}
+
+/**
+ * Average time from order to doorstep for orders placed in one local hour
+ */
+export interface HourlyDuration {
+  /** 0-23 */
+  hour: number;
+  deliveries: number;
+  averageMinutes: number;
+}
+
+/**
+ * Substituted items for one platform, or all platforms when platform is null
+ */
+export interface SubstitutionRate {
+  platform: Platform | null;
+  items: number;
+  substituted: number;
+  /** 0-1 */
+  rate: number;
+}
+
+/**
+ * Aggregates over a user's delivery history
+ */
+export interface HistoryAnalytics {
+  monthlySpend: MonthlySpend[];
+  onTime: OnTimeRate[];
+  durationByHour: HourlyDuration[];
+  substitutions: SubstitutionRate[];
+}
@@ -0,0 +1,45 @@
+/**
+ * What a household member may do
+ * Admins manage members and invites; viewers see the shared deck.
+ */
+export type HouseholdRole = 'admin' | 'viewer';
+
+/**
+ * A member of a household
+ */
+export interface HouseholdMember {
+  userId: string;
+  name: string | null;
+  email: string;
+  image: string | null;
+  role: HouseholdRole;
+  /** Hex color the member's deliveries are shown in */
+  color: string;
+  joinedAt: Date;
+}
+
+/**
+ * A household as seen by one of its members
+ */
+export interface Household {
+  id: string;
+  name: string;
+  /** The viewing member's role */
+  role: HouseholdRole;
+  members: HouseholdMember[];
+  createdAt: Date;
+}
+
+/**
+ * Colors given to members in the order they join
+ */
+export const HOUSEHOLD_MEMBER_COLORS = [
+  '#06B6D4',
+  '#F59E0B',
+  '#8B5CF6',
+  '#10B981',
+  '#EC4899',
+  '#3B82F6',
+  '#EF4444',
+  '#84CC16',
+] as const;
@@ -1,3 +1,10 @@
+export * from './admin';
 export * from './delivery';
+export * from './eta';
 export * from './events';
+export * from './history';
+export * from './household';
+export * from './notification';
 export * from './platform';
+export * from './share';
+export * from './security';
@@ -0,0 +1,35 @@
+/**
+ * Outcome of delivering a notification to one push subscription
+ */
+export type PushDeliveryOutcome = 'sent' | 'failed' | 'expired';
+
+/**
+ * Per-device push delivery status stored on a notification
+ */
+export interface PushDeliveryStatus {
+  subscriptionId: string;
+  status: PushDeliveryOutcome;
+  statusCode?: number;
+  error?: string;
+  attemptedAt: string; // ISO timestamp
+}
+
+/**
+ * Self-hosted notification services a user can forward notifications to
+ */
+export type NotificationChannelType = 'ntfy' | 'gotify';
+
+/**
+ * A quiet hours window in the user's timezone, as 24-hour "HH:MM" times
+ * A window that ends before its start runs overnight into the next day.
+ */
+export interface QuietHoursWindow {
+  start: string;
+  end: string;
+}
+
+/**
+ * Quiet hours for each day of the week, indexed by weekday (0 = Sunday)
+ * A window belongs to the day it starts on; null means no quiet hours that day.
+ */
+export type QuietHoursSchedule = Array<QuietHoursWindow | null>;
@@ -12,7 +12,25 @@ export type Platform =
   | 'totalwine'
   | 'costco'
   | 'samsclub'
-  | 'amazon';
+  | 'amazon'
+  | 'ups'
+  | 'fedex'
+  | 'usps'
+  | 'dhl';
+
+/**
+ * Parcel carriers, tracked by tracking number instead of an account connection
+ */
+export const CARRIER_PLATFORMS = ['ups', 'fedex', 'usps', 'dhl'] as const;
+
+export type CarrierPlatform = (typeof CARRIER_PLATFORMS)[number];
+
+/**
+ * Check if a platform is a parcel carrier
+ */
+export function isCarrierPlatform(platform: Platform): platform is CarrierPlatform {
+  return (CARRIER_PLATFORMS as readonly Platform[]).includes(platform);
+}
 
 /**
  * Platform connection status
@@ -27,7 +45,7 @@ export interface EncryptedData {
   iv: string; // Base64 encoded initialization vector
   authTag: string; // Base64 encoded authentication tag
   algorithm: 'aes-256-gcm';
-  version: number; // For migration support
+  version: number; // Version of the key it was encrypted with
 }
 
 /**
@@ -56,6 +74,9 @@ export interface NotificationSettings {
   arrivingSoon: boolean; // 5 minute warning
   delivered: boolean;
   delayed: boolean;
+  etaSlipped?: boolean; // ETA moved later than first promised
+  etaSlipMinutes?: number; // How far the ETA has to slip before notifying
+  householdDeliveries?: boolean; // Updates on other household members' orders
   quietHours?: {
     enabled: boolean;
     start: string; // "22:00"
@@ -168,4 +189,36 @@ export const PLATFORM_CONFIGS: Record<Platform, PlatformConfig> = {
     supportsWebhooks: false,
     supportsLiveLocation: true,
   },
+  ups: {
+    id: 'ups',
+    name: 'UPS',
+    color: '#6B4226',
+    supportsOAuth: false,
+    supportsWebhooks: false,
+    supportsLiveLocation: false,
+  },
+  fedex: {
+    id: 'fedex',
+    name: 'FedEx',
+    color: '#4D148C',
+    supportsOAuth: false,
+    supportsWebhooks: false,
+    supportsLiveLocation: false,
+  },
+  usps: {
+    id: 'usps',
+    name: 'USPS',
+    color: '#333366',
+    supportsOAuth: false,
+    supportsWebhooks: false,
+    supportsLiveLocation: false,
+  },
+  dhl: {
+    id: 'dhl',
+    name: 'DHL',
+    color: '#D40511',
+    supportsOAuth: false,
+    supportsWebhooks: false,
+    supportsLiveLocation: false,
+  },
 };
@@ -0,0 +1,70 @@
+/**
+ * Security-relevant account events
+ */
+export type SecurityEventType =
+  | 'sign_in'
+  | 'platform_connected'
+  | 'platform_disconnected'
+  | 'token_refreshed'
+  | 'token_decrypted'
+  | 'preferences_updated'
+  | 'invite_redeemed'
+  | 'account_deleted';
+
+/**
+ * How each event is described in the security log
+ */
+export const SECURITY_EVENT_LABELS: Record<SecurityEventType, string> = {
+  sign_in: 'Signed in',
+  platform_connected: 'Platform connected',
+  platform_disconnected: 'Platform disconnected',
+  token_refreshed: 'Platform token refreshed',
+  token_decrypted: 'Platform credentials used',
+  preferences_updated: 'Preferences changed',
+  invite_redeemed: 'Invite code redeemed',
+  account_deleted: 'Account deleted',
+};
+
+/**
+ * Why stored credentials were decrypted
+ */
+export type DecryptPurpose =
+  | 'platform_access'
+  | 'token_refresh'
+  | 'token_revoke'
+  | 'connection_test'
+  | 'webhook_signing';
+
+/**
+ * Who a decrypt was for, and why
+ */
+export interface DecryptAuditContext {
+  userId: string;
+  purpose: DecryptPurpose;
+}
+
+/**
+ * An entry in a user's security log
+ * Each entry's hash covers its fields and the previous entry's hash, so a
+ * removed or edited entry breaks the chain.
+ */
+export interface SecurityEvent {
+  id: string;
+  sequence: number;
+  event: SecurityEventType;
+  ipAddress: string | null;
+  userAgent: string | null;
+  details: Record<string, unknown> | null;
+  createdAt: Date;
+  prevHash: string;
+  hash: string;
+}
+
+/**
+ * Result of checking a security log's hash chain
+ * entries counts the entries that checked out, and sequence is where the
+ * chain first breaks.
+ */
+export type SecurityChainVerification =
+  | { valid: true; entries: number }
+  | { valid: false; entries: number; sequence: number; reason: 'hash_mismatch' | 'broken_link' };
@@ -0,0 +1,28 @@
+import type { UnifiedDelivery } from './delivery';
+
+/**
+ * How much of the driver a share link shows
+ * - driver: first name, vehicle and live location
+ * - location: live location only
+ * - eta: no driver details or location, just status and ETA
+ */
+export type SharePrivacy = 'driver' | 'location' | 'eta';
+
+/**
+ * Privacy levels as offered when creating a share link
+ */
+export const SHARE_PRIVACY_OPTIONS: Array<{ value: SharePrivacy; label: string }> = [
+  { value: 'driver', label: 'Driver name, vehicle and location' },
+  { value: 'location', label: 'Driver location only' },
+  { value: 'eta', label: 'Status and ETA only' },
+];
+
+/**
+ * A delivery as seen through a public share link
+ */
+export interface SharedDelivery {
+  /** Redacted delivery: no order items, prices or account details */
+  delivery: UnifiedDelivery;
+  privacy: SharePrivacy;
+  expiresAt: Date;
+}
@@ -163,6 +163,52 @@ describe('DeliveryCard', () => {
     });
   });
 
+  describe('Store Pickups', () => {
+    it('shows the store and pickup window', () => {
+      const delivery = createMockDelivery({
+        fulfillment: 'pickup',
+        status: 'ready_for_pickup',
+        statusLabel: 'Ready for Pickup',
+        destination: { address: '1600 Gateway St, Springfield, OR 97477', lat: 0, lng: 0 },
+        pickup: {
+          storeName: 'Springfield Supercenter',
+          window: {
+            start: new Date('2026-10-20T17:00:00'),
+            end: new Date('2026-10-20T18:00:00'),
+          },
+        },
+      });
+      render(<DeliveryCard delivery={delivery} />);
+
+      expect(screen.getByText('Springfield Supercenter')).toBeInTheDocument();
+      expect(screen.getByText('Pickup Tue, Oct 20, 5:00 PM - 6:00 PM')).toBeInTheDocument();
+      expect(screen.getByText(/1600 Gateway St/)).toBeInTheDocument();
+    });
+
+    it('shows "Picked Up" once collected', () => {
+      const delivery = createMockDelivery({
+        fulfillment: 'pickup',
+        status: 'delivered',
+        statusLabel: 'Picked Up',
+      });
+      render(<DeliveryCard delivery={delivery} />);
+
+      expect(screen.getAllByText('Picked Up').length).toBe(2);
+      expect(screen.queryByText('Delivered')).not.toBeInTheDocument();
+    });
+
+    it('fills the progress bar up to check-in', () => {
+      const delivery = createMockDelivery({
+        fulfillment: 'pickup',
+        status: 'checked_in',
+        statusLabel: 'Checked In',
+      });
+      render(<DeliveryCard delivery={delivery} />);
+
+      expect(document.querySelectorAll('.bg-brand-cyan.h-1\\.5')).toHaveLength(3);
+    });
+  });
+
   describe('Interactions', () => {
     it('calls onClick when card is clicked', async () => {
       const delivery = createMockDelivery({
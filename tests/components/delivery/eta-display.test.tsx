@@ -189,6 +189,53 @@ describe('ETADisplay', () => {
       expect(timeElement).toHaveClass('text-success');
     });
   });
+
+  describe('ETA Drift', () => {
+    const promised = new Date('2026-10-19T18:00:00Z');
+
+    function createDriftingDelivery(slipMinutes: number[]) {
+      const revisions = slipMinutes.map((slip, i) => ({
+        estimatedArrival: new Date(promised.getTime() + slip * 60 * 1000),
+        observedAt: new Date(promised.getTime() - (60 - i * 10) * 60 * 1000),
+      }));
+      return createMockDelivery({
+        status: 'out_for_delivery',
+        eta: {
+          estimatedArrival: revisions[revisions.length - 1]!.estimatedArrival,
+          minutesRemaining: 15,
+          confidence: 'high',
+          revisions,
+        },
+      });
+    }
+
+    it('shows a sparkline once the ETA has been revised', () => {
+      const delivery = createDriftingDelivery([0, 10, 25]);
+
+      render(<ETADisplay delivery={delivery} etaResult={createMockETAResult()} />);
+
+      expect(screen.getByRole('img', { name: 'ETA revised 2 times' })).toBeInTheDocument();
+      expect(screen.getByText('+25 min vs promised')).toHaveClass('text-warning');
+    });
+
+    it('hides the sparkline for the original promise', () => {
+      const delivery = createDriftingDelivery([0]);
+
+      render(<ETADisplay delivery={delivery} etaResult={createMockETAResult()} />);
+
+      expect(screen.queryByRole('img')).not.toBeInTheDocument();
+    });
+
+    it('can be turned off', () => {
+      const delivery = createDriftingDelivery([0, 10]);
+
+      render(
+        <ETADisplay delivery={delivery} etaResult={createMockETAResult()} showDrift={false} />
+      );
+
+      expect(screen.queryByText(/vs promised/)).not.toBeInTheDocument();
+    });
+  });
 });
 
 describe('ETADisplayCompact', () => {
@@ -0,0 +1,96 @@
+/**
+ * ConnectionCard component tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '../../utils/render-with-providers';
+import { ConnectionCard, type ConnectionCardProps } from '@/components/settings/connection-card';
+
+function renderCard(props: Partial<ConnectionCardProps> = {}) {
+  const handlers = {
+    onReconnect: vi.fn(),
+    onTest: vi.fn(),
+    onDisconnect: vi.fn(),
+  };
+
+  render(
+    <ConnectionCard
+      platform="doordash"
+      status="connected"
+      lastSyncAt={new Date('2026-01-15T12:00:00Z')}
+      canReconnect
+      {...handlers}
+      {...props}
+    />
+  );
+
+  return handlers;
+}
+
+describe('ConnectionCard', () => {
+  describe('Rendering', () => {
+    it('renders platform name and status badge', () => {
+      renderCard({ status: 'expired' });
+
+      expect(screen.getByText('DoorDash')).toBeInTheDocument();
+      expect(screen.getByText('Expired')).toHaveAttribute('data-status', 'expired');
+    });
+
+    it('renders a placeholder when never synced', () => {
+      renderCard({ lastSyncAt: null });
+
+      expect(screen.getByText('Not synced yet')).toBeInTheDocument();
+    });
+
+    it('shows the last error when the connection needs attention', () => {
+      renderCard({ status: 'error', lastError: 'Token refresh failed' });
+
+      expect(screen.getByText('Token refresh failed')).toBeInTheDocument();
+    });
+
+    it('hides a stale error once connected again', () => {
+      renderCard({ status: 'connected', lastError: 'Token refresh failed' });
+
+      expect(screen.queryByText('Token refresh failed')).not.toBeInTheDocument();
+    });
+
+    it('hides reconnect for platforms without OAuth', () => {
+      renderCard({ canReconnect: false });
+
+      expect(screen.queryByRole('button', { name: /Reconnect/ })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Actions', () => {
+    it('calls onReconnect and onTest', () => {
+      const handlers = renderCard();
+
+      fireEvent.click(screen.getByRole('button', { name: /Reconnect/ }));
+      fireEvent.click(screen.getByRole('button', { name: /Test/ }));
+
+      expect(handlers.onReconnect).toHaveBeenCalledTimes(1);
+      expect(handlers.onTest).toHaveBeenCalledTimes(1);
+    });
+
+    it('asks for confirmation before disconnecting', () => {
+      const handlers = renderCard();
+
+      fireEvent.click(screen.getByRole('button', { name: /Disconnect/ }));
+      expect(handlers.onDisconnect).not.toHaveBeenCalled();
+      expect(screen.getByText('Disconnect DoorDash?')).toBeInTheDocument();
+
+      const buttons = screen.getAllByRole('button', { name: 'Disconnect' });
+      fireEvent.click(buttons[buttons.length - 1] as HTMLElement);
+
+      expect(handlers.onDisconnect).toHaveBeenCalledTimes(1);
+    });
+
+    it('disables actions while one is running', () => {
+      renderCard({ pendingAction: 'test' });
+
+      expect(screen.getByRole('button', { name: /Testing/ })).toBeDisabled();
+      expect(screen.getByRole('button', { name: /Reconnect/ })).toBeDisabled();
+      expect(screen.getByRole('button', { name: /Disconnect/ })).toBeDisabled();
+    });
+  });
+});
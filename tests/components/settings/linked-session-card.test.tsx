@@ -0,0 +1,70 @@
+/**
+ * LinkedSessionCard component tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '../../utils/render-with-providers';
+import {
+  LinkedSessionCard,
+  type LinkedSessionCardProps,
+  parseCookieHeader,
+} from '@/components/settings/linked-session-card';
+
+function renderCard(props: Partial<LinkedSessionCardProps> = {}) {
+  const handlers = {
+    onLink: vi.fn(),
+    onUnlink: vi.fn(),
+  };
+
+  render(
+    <LinkedSessionCard
+      platform="costco"
+      site="costco.com"
+      linked={false}
+      isPending={false}
+      {...handlers}
+      {...props}
+    />
+  );
+
+  return handlers;
+}
+
+describe('parseCookieHeader', () => {
+  it('parses a copied Cookie header', () => {
+    expect(parseCookieHeader('Cookie: WC_AUTHENTICATION_1=abc%2C1; WC_SESSION= x=y ;bad')).toEqual(
+      { WC_AUTHENTICATION_1: 'abc%2C1', WC_SESSION: 'x=y' }
+    );
+  });
+});
+
+describe('LinkedSessionCard', () => {
+  it('links the pasted cookies with the browser user agent', () => {
+    const { onLink } = renderCard();
+
+    fireEvent.change(screen.getByLabelText('costco.com cookies'), {
+      target: { value: 'WC_AUTHENTICATION_1=abc; WC_USERACTIVITY_1=def' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Link costco.com' }));
+
+    expect(onLink).toHaveBeenCalledWith({
+      cookies: { WC_AUTHENTICATION_1: 'abc', WC_USERACTIVITY_1: 'def' },
+      userAgent: navigator.userAgent,
+    });
+  });
+
+  it('disables linking until cookies are pasted', () => {
+    renderCard();
+
+    expect(screen.getByRole('button', { name: 'Link costco.com' })).toBeDisabled();
+  });
+
+  it('offers to unlink a linked session', () => {
+    const { onUnlink } = renderCard({ linked: true });
+
+    fireEvent.click(screen.getByRole('button', { name: /Unlink/ }));
+
+    expect(onUnlink).toHaveBeenCalled();
+    expect(screen.getByRole('button', { name: 'Update session' })).toBeInTheDocument();
+  });
+});
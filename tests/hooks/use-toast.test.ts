@@ -4,7 +4,7 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
-import { useToast, toast, reducer } from '@/hooks/use-toast';
+import { useToast, toast, reducer, showError } from '@/hooks/use-toast';
 
 describe('useToast', () => {
   beforeEach(() => {
@@ -35,6 +35,22 @@ describe('useToast', () => {
     });
   });
 
+  describe('showError', () => {
+    it('shows the error message as a destructive toast', () => {
+      const { result } = renderHook(() => useToast());
+
+      act(() => {
+        showError(new Error('Invite code expired'));
+      });
+
+      expect(result.current.toasts[0]).toMatchObject({
+        title: 'Something went wrong',
+        description: 'Invite code expired',
+        variant: 'destructive',
+      });
+    });
+  });
+
   describe('Toast Management', () => {
     it('adds toast correctly', () => {
       const { result } = renderHook(() => useToast());
@@ -0,0 +1,339 @@
+/**
+ * Carrier adapter tests
+ * Replays recorded UPS, FedEx, USPS and DHL tracking responses through msw.
+ */
+
+import { http, HttpResponse } from 'msw';
+import { afterAll, afterEach, beforeAll, describe, it, expect, vi } from 'vitest';
+import {
+  detectCarrier,
+  getCarrierTrackingNumber,
+  normalizeTrackingNumber,
+} from '@/lib/adapters/carriers/detect';
+import { PlatformAuthError, PlatformUnavailableError } from '@/lib/adapters/errors';
+import type { AdapterConnection } from '@/lib/adapters/types';
+import type { PackageStore, TrackedPackage } from '@/lib/services/packages';
+import type { CarrierPlatform } from '@/types/platform';
+import { server } from '../../mocks/server';
+import dhlNotFound from './fixtures/carriers/dhl-not-found.json';
+import dhlShipments from './fixtures/carriers/dhl-shipments.json';
+import fedexNotFound from './fixtures/carriers/fedex-not-found.json';
+import fedexTrack from './fixtures/carriers/fedex-track.json';
+import upsDetails from './fixtures/carriers/ups-details.json';
+import upsNotFound from './fixtures/carriers/ups-not-found.json';
+import uspsTracking from './fixtures/carriers/usps-tracking.json';
+
+vi.stubEnv('UPS_CLIENT_ID', 'ups-client');
+vi.stubEnv('UPS_CLIENT_SECRET', 'ups-secret');
+vi.stubEnv('FEDEX_API_KEY', 'fedex-key');
+vi.stubEnv('FEDEX_SECRET_KEY', 'fedex-secret');
+vi.stubEnv('USPS_CLIENT_ID', 'usps-client');
+vi.stubEnv('USPS_CLIENT_SECRET', 'usps-secret');
+vi.stubEnv('DHL_API_KEY', 'dhl-key');
+
+const { UpsAdapter, UpsApiClient } = await import('@/lib/adapters/carriers/ups');
+const { FedexAdapter, FedexApiClient } = await import('@/lib/adapters/carriers/fedex');
+const { UspsAdapter, UspsApiClient } = await import('@/lib/adapters/carriers/usps');
+const { DhlAdapter, DhlApiClient } = await import('@/lib/adapters/carriers/dhl');
+
+const UPS_API = 'https://onlinetools.ups.com';
+const FEDEX_API = 'https://apis.fedex.com';
+const USPS_API = 'https://apis.usps.com';
+const DHL_API = 'https://api-eu.dhl.com';
+
+function createStore(
+  carrier: CarrierPlatform,
+  trackingNumber: string,
+  label: string | null = null
+): Pick<PackageStore, 'listActive'> {
+  const pkg: TrackedPackage = {
+    id: 'pkg-1',
+    userId: 'user-1',
+    carrier,
+    trackingNumber,
+    label,
+    createdAt: new Date('2026-10-16T12:00:00Z'),
+  };
+  return { listActive: vi.fn(async () => [pkg]) };
+}
+
+function createConnection(platform: CarrierPlatform): AdapterConnection {
+  return { accessToken: '', userId: 'user-1', platform };
+}
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+afterEach(() => server.resetHandlers());
+afterAll(() => server.close());
+
+describe('detectCarrier', () => {
+  it('recognizes each carrier from the number format', () => {
+    expect(detectCarrier('1Z999AA10123456784')).toBe('ups');
+    expect(detectCarrier('9400 1118 9922 3197 4284 97')).toBe('usps');
+    expect(detectCarrier('EA123456785US')).toBe('usps');
+    expect(detectCarrier('794616896420')).toBe('fedex');
+    expect(detectCarrier('9612019123456789012345')).toBe('fedex');
+    expect(detectCarrier('1234567890')).toBe('dhl');
+    expect(detectCarrier('JJD0099999999')).toBe('dhl');
+  });
+
+  it('rejects numbers that fail the check digit', () => {
+    expect(detectCarrier('1Z999AA10123456785')).toBeNull();
+    expect(detectCarrier('9400111899223197428498')).toBeNull();
+  });
+
+  it('returns null for unknown formats', () => {
+    expect(detectCarrier('hello')).toBeNull();
+  });
+});
+
+describe('getCarrierTrackingNumber', () => {
+  it('strips the ZIP routing prefix from USPS barcodes', () => {
+    expect(getCarrierTrackingNumber('usps', '42097477 9400111899223197428497')).toBe(
+      '9400111899223197428497'
+    );
+  });
+
+  it('tracks FedEx 96 barcodes by their last 15 digits', () => {
+    expect(getCarrierTrackingNumber('fedex', '9612019123456789012345')).toBe('123456789012345');
+  });
+
+  it('normalizes spacing and case', () => {
+    expect(normalizeTrackingNumber(' 1z999-aa1 0123456784 ')).toBe('1Z999AA10123456784');
+  });
+});
+
+describe('UpsAdapter', () => {
+  const trackingNumber = '1Z999AA10123456784';
+
+  function useRecordedResponses(details: Record<string, unknown> = upsDetails) {
+    const tokens = vi.fn();
+    server.use(
+      http.post(`${UPS_API}/security/v1/oauth/token`, () => {
+        tokens();
+        return HttpResponse.json({ access_token: 'ups-token', expires_in: '14399' });
+      }),
+      http.get(`${UPS_API}/api/track/v1/details/:number`, ({ request }) =>
+        request.headers.get('Authorization') === 'Bearer ups-token'
+          ? HttpResponse.json(details)
+          : HttpResponse.json({}, { status: 401 })
+      )
+    );
+    return tokens;
+  }
+
+  it('maps scans to timeline events, oldest first', async () => {
+    useRecordedResponses();
+    const adapter = new UpsAdapter(
+      new UpsApiClient(),
+      createStore('ups', trackingNumber, 'Birthday gift')
+    );
+
+    const [delivery] = await adapter.getActiveDeliveries(createConnection('ups'));
+
+    expect(delivery?.id).toBe('up_1Z999AA10123456784');
+    expect(delivery?.label).toBe('Birthday gift');
+    expect(delivery?.status).toBe('out_for_delivery');
+    expect(delivery?.statusLabel).toBe('Out for Delivery');
+    expect(delivery?.events?.map((e) => e.status)).toEqual([
+      'preparing',
+      'out_for_delivery',
+      'out_for_delivery',
+      'out_for_delivery',
+    ]);
+    expect(delivery?.events?.[3]?.message).toBe('Out For Delivery Today, Springfield, OR');
+    expect(delivery?.carrier).toEqual({ name: 'UPS', trackingNumber });
+    expect(delivery?.destination.address).toBe('Springfield, OR 97477');
+    expect(delivery?.order.specialInstructions).toBe('UPS Ground');
+    expect(delivery?.tracking.url).toContain('ups.com');
+  });
+
+  it('reads UPS local dates and the estimated window', async () => {
+    useRecordedResponses();
+    const adapter = new UpsAdapter(new UpsApiClient(), createStore('ups', trackingNumber));
+
+    const [delivery] = await adapter.getActiveDeliveries(createConnection('ups'));
+
+    expect(delivery?.eta.window).toEqual({
+      start: new Date(2026, 9, 21, 13, 0, 0),
+      end: new Date(2026, 9, 21, 17, 0, 0),
+    });
+    expect(delivery?.eta.confidence).toBe('medium');
+    expect(delivery?.timestamps.pickedUp).toEqual(new Date(2026, 9, 17, 18, 30, 0));
+    expect(delivery?.timestamps.outForDelivery).toEqual(new Date(2026, 9, 21, 7, 45, 12));
+  });
+
+  it('reuses the access token across requests', async () => {
+    const tokens = useRecordedResponses();
+    const adapter = new UpsAdapter(new UpsApiClient(), createStore('ups', trackingNumber));
+
+    await adapter.getActiveDeliveries(createConnection('ups'));
+    await adapter.getActiveDeliveries(createConnection('ups'));
+
+    expect(tokens).toHaveBeenCalledTimes(1);
+  });
+
+  it('tracks labels UPS has not scanned yet as awaiting a scan', async () => {
+    useRecordedResponses(upsNotFound);
+    const adapter = new UpsAdapter(new UpsApiClient(), createStore('ups', trackingNumber));
+
+    const [delivery] = await adapter.getActiveDeliveries(createConnection('ups'));
+
+    expect(delivery?.status).toBe('preparing');
+    expect(delivery?.statusLabel).toBe('Awaiting Carrier Scan');
+    expect(delivery?.events).toEqual([]);
+  });
+});
+
+describe('FedexAdapter', () => {
+  const trackingNumber = '794616896420';
+
+  function useRecordedResponses(track: Record<string, unknown> = fedexTrack) {
+    const requests = vi.fn();
+    server.use(
+      http.post(`${FEDEX_API}/oauth/token`, () =>
+        HttpResponse.json({ access_token: 'fedex-token', token_type: 'bearer', expires_in: 3599 })
+      ),
+      http.post(`${FEDEX_API}/track/v1/trackingnumbers`, async ({ request }) => {
+        requests(await request.json());
+        return HttpResponse.json(track);
+      })
+    );
+    return requests;
+  }
+
+  it('maps a delivered package', async () => {
+    const requests = useRecordedResponses();
+    const adapter = new FedexAdapter(new FedexApiClient(), createStore('fedex', trackingNumber));
+
+    const [delivery] = await adapter.getActiveDeliveries(createConnection('fedex'));
+
+    expect(requests).toHaveBeenCalledWith(
+      expect.objectContaining({
+        includeDetailedScans: true,
+        trackingInfo: [{ trackingNumberInfo: { trackingNumber } }],
+      })
+    );
+    expect(delivery?.id).toBe('fe_794616896420');
+    expect(delivery?.status).toBe('delivered');
+    expect(delivery?.statusLabel).toBe('Delivered');
+    expect(delivery?.eta.confidence).toBe('high');
+    expect(delivery?.timestamps.delivered).toEqual(new Date('2026-10-19T19:32:00Z'));
+    expect(delivery?.timestamps.pickedUp).toEqual(new Date('2026-10-17T23:05:00Z'));
+    expect(delivery?.timestamps.outForDelivery).toEqual(new Date('2026-10-19T13:10:00Z'));
+    expect(delivery?.events?.map((e) => e.message)).toEqual([
+      'Picked up, San Jose, CA',
+      'At local FedEx facility, Austin, TX',
+      'On FedEx vehicle for delivery, Austin, TX',
+      'Delivered, Austin, TX',
+    ]);
+  });
+
+  it('treats a per-number not found error as awaiting a scan', async () => {
+    useRecordedResponses(fedexNotFound);
+    const adapter = new FedexAdapter(new FedexApiClient(), createStore('fedex', '123456789012'));
+
+    const [delivery] = await adapter.getActiveDeliveries(createConnection('fedex'));
+
+    expect(delivery?.statusLabel).toBe('Awaiting Carrier Scan');
+  });
+});
+
+describe('UspsAdapter', () => {
+  const trackingNumber = '9400111899223197428497';
+
+  it('reports delivery exceptions as delayed', async () => {
+    server.use(
+      http.post(`${USPS_API}/oauth2/v3/token`, () =>
+        HttpResponse.json({ access_token: 'usps-token', expires_in: 28799 })
+      ),
+      http.get(`${USPS_API}/tracking/v3/tracking/:number`, () => HttpResponse.json(uspsTracking))
+    );
+    const adapter = new UspsAdapter(new UspsApiClient(), createStore('usps', trackingNumber));
+
+    const [delivery] = await adapter.getActiveDeliveries(createConnection('usps'));
+
+    expect(delivery?.status).toBe('delayed');
+    expect(delivery?.statusLabel).toBe('Delivery Exception');
+    expect(delivery?.eta.estimatedArrival).toEqual(new Date('2026-10-21T21:00:00Z'));
+    expect(delivery?.eta.confidence).toBe('low');
+    expect(delivery?.events?.map((e) => e.status)).toEqual([
+      'out_for_delivery',
+      'out_for_delivery',
+      'out_for_delivery',
+      'delayed',
+    ]);
+    expect(delivery?.events?.[1]?.message).toBe(
+      'Departed USPS Regional Facility, Denver Co Distribution Center'
+    );
+    expect(delivery?.timestamps.pickedUp).toEqual(new Date('2026-10-17T22:30:00Z'));
+    expect(delivery?.order.specialInstructions).toBe('USPS Ground Advantage');
+  });
+
+  it('does not retry rejected credentials', async () => {
+    const requests = vi.fn();
+    server.use(
+      http.post(`${USPS_API}/oauth2/v3/token`, () =>
+        HttpResponse.json({ access_token: 'usps-token', expires_in: 28799 })
+      ),
+      http.get(`${USPS_API}/tracking/v3/tracking/:number`, () => {
+        requests();
+        return HttpResponse.json({ error: 'invalid_token' }, { status: 401 });
+      })
+    );
+    const adapter = new UspsAdapter(new UspsApiClient(), createStore('usps', trackingNumber));
+
+    await expect(adapter.getActiveDeliveries(createConnection('usps'))).rejects.toBeInstanceOf(
+      PlatformAuthError
+    );
+    expect(requests).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('DhlAdapter', () => {
+  const trackingNumber = '1234567890';
+
+  it('maps a package with the courier and a delivery window', async () => {
+    server.use(
+      http.get(`${DHL_API}/track/shipments`, ({ request }) =>
+        request.headers.get('DHL-API-Key') === 'dhl-key'
+          ? HttpResponse.json(dhlShipments)
+          : HttpResponse.json({}, { status: 401 })
+      )
+    );
+    const adapter = new DhlAdapter(new DhlApiClient(), createStore('dhl', trackingNumber));
+
+    const [delivery] = await adapter.getActiveDeliveries(createConnection('dhl'));
+
+    expect(delivery?.id).toBe('dh_1234567890');
+    expect(delivery?.status).toBe('out_for_delivery');
+    expect(delivery?.statusLabel).toBe('Out for Delivery');
+    expect(delivery?.eta.window).toEqual({
+      start: new Date('2026-10-20T13:00:00Z'),
+      end: new Date('2026-10-20T18:00:00Z'),
+    });
+    expect(delivery?.eta.confidence).toBe('medium');
+    expect(delivery?.destination.address).toBe('New York, NY - USA, 10001');
+    expect(delivery?.events?.[0]?.message).toBe('Shipment picked up, Leipzig - Germany');
+  });
+
+  it('treats a 404 as awaiting a scan', async () => {
+    server.use(
+      http.get(`${DHL_API}/track/shipments`, () =>
+        HttpResponse.json(dhlNotFound, { status: 404 })
+      )
+    );
+    const adapter = new DhlAdapter(new DhlApiClient(), createStore('dhl', trackingNumber));
+
+    const [delivery] = await adapter.getActiveDeliveries(createConnection('dhl'));
+
+    expect(delivery?.statusLabel).toBe('Awaiting Carrier Scan');
+  });
+
+  it('reports a missing API key as unavailable', async () => {
+    vi.stubEnv('DHL_API_KEY', '');
+    const adapter = new DhlAdapter(new DhlApiClient(), createStore('dhl', trackingNumber));
+    vi.stubEnv('DHL_API_KEY', 'dhl-key');
+
+    await expect(adapter.testConnection('')).rejects.toBeInstanceOf(PlatformUnavailableError);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Costco adapter tests
+ * Replays recorded Costco.com and Instacart responses through msw.
+ */
+
+import { http, HttpResponse } from 'msw';
+import { afterAll, afterEach, beforeAll, describe, it, expect, vi } from 'vitest';
+import { PlatformAuthError } from '@/lib/adapters/errors';
+import type { AdapterConnection } from '@/lib/adapters/types';
+import { server } from '../../mocks/server';
+import instacartActiveOrders from './fixtures/costco/instacart-active-orders.json';
+import openOrders from './fixtures/costco/open-orders.json';
+
+vi.stubEnv('INSTACART_CLIENT_ID', 'test-client');
+vi.stubEnv('INSTACART_CLIENT_SECRET', 'test-secret');
+
+const { CostcoAdapter } = await import('@/lib/adapters/costco');
+const { CostcoApiClient } = await import('@/lib/adapters/costco/client');
+
+const COSTCO_API = 'https://www.costco.com/api/orders/v1';
+const INSTACART_API = 'https://connect.instacart.com/v2';
+
+function createSession(overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    cookies: { WC_AUTHENTICATION_12345: 'token', WC_SESSION_ESTABLISHED: 'true' },
+    userAgent: 'Mozilla/5.0',
+    lastRefreshed: new Date().toISOString(),
+    ...overrides,
+  });
+}
+
+function createConnection(overrides: Partial<AdapterConnection> = {}): AdapterConnection {
+  return {
+    accessToken: 'instacart-token',
+    userId: 'user-1',
+    platform: 'costco',
+    sessionData: createSession(),
+    ...overrides,
+  };
+}
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+afterEach(() => server.resetHandlers());
+afterAll(() => server.close());
+
+function useRecordedResponses() {
+  server.use(
+    http.get(`${COSTCO_API}/orders`, () => HttpResponse.json(openOrders)),
+    http.get(`${COSTCO_API}/orders/:orderNumber`, ({ params }) => {
+      const order = openOrders.orders.find((o) => o.order_number === params.orderNumber);
+      return order
+        ? HttpResponse.json({ order })
+        : HttpResponse.json({ message: 'Not found' }, { status: 404 });
+    }),
+    http.get(`${INSTACART_API}/orders`, () => HttpResponse.json(instacartActiveOrders))
+  );
+}
+
+describe('CostcoAdapter', () => {
+  describe('getActiveDeliveries', () => {
+    it('splits multi-shipment orders into one delivery per shipment', async () => {
+      useRecordedResponses();
+      const adapter = new CostcoAdapter(new CostcoApiClient());
+
+      const deliveries = await adapter.getActiveDeliveries(createConnection());
+      const shipped = deliveries.filter((d) => d.externalOrderId.startsWith('1180042377'));
+
+      expect(shipped.map((d) => d.id)).toEqual(['co_web_1180042377-S1', 'co_web_1180042377-S2']);
+
+      const [ups, fedex] = shipped;
+      expect(ups?.status).toBe('out_for_delivery');
+      expect(ups?.statusLabel).toBe('In Transit');
+      expect(ups?.carrier).toEqual({ name: 'UPS', trackingNumber: '1Z999AA10123456784' });
+      expect(ups?.eta.estimatedArrival).toEqual(new Date('2026-10-21T23:00:00Z'));
+      expect(ups?.order.itemCount).toBe(1);
+      expect(ups?.order.items?.[0]?.name).toBe('Kirkland Signature Paper Towels');
+      expect(ups?.order.totalAmount).toBeUndefined();
+      expect(ups?.tracking.url).toContain('ups.com');
+      expect(ups?.timestamps.pickedUp).toEqual(new Date('2026-10-18T15:12:00Z'));
+
+      expect(fedex?.status).toBe('preparing');
+      expect(fedex?.carrier?.name).toBe('FedEx');
+      expect(fedex?.tracking.url).toContain('costco.com');
+    });
+
+    it('carries the scheduled window for big-and-bulky deliveries', async () => {
+      useRecordedResponses();
+      const adapter = new CostcoAdapter(new CostcoApiClient());
+
+      const deliveries = await adapter.getActiveDeliveries(createConnection());
+      const fridge = deliveries.find((d) => d.id === 'co_web_1180051920');
+
+      expect(fridge?.statusLabel).toBe('Delivery Scheduled');
+      expect(fridge?.eta.window).toEqual({
+        start: new Date('2026-10-24T15:00:00Z'),
+        end: new Date('2026-10-24T19:00:00Z'),
+      });
+      expect(fridge?.eta.estimatedArrival).toEqual(new Date('2026-10-24T19:00:00Z'));
+      expect(fridge?.eta.confidence).toBe('medium');
+      expect(fridge?.carrier?.name).toBe('Costco Logistics');
+      expect(fridge?.order.totalAmount).toBe(189999);
+      expect(fridge?.destination.instructions).toBe('Call 30 minutes ahead');
+    });
+
+    it('keeps the Instacart copy of same-day orders and drops other retailers', async () => {
+      useRecordedResponses();
+      const adapter = new CostcoAdapter(new CostcoApiClient());
+
+      const deliveries = await adapter.getActiveDeliveries(createConnection());
+      const sameDay = deliveries.filter((d) => d.externalOrderId === 'ic-1001');
+
+      expect(sameDay).toHaveLength(1);
+      expect(sameDay[0]?.id).toBe('co_ic-1001');
+      expect(sameDay[0]?.driver?.name).toBe('Dana');
+      expect(deliveries.some((d) => d.externalOrderId === 'ic-2002')).toBe(false);
+      expect(deliveries).toHaveLength(4);
+    });
+
+    it('tracks same-day orders from Costco.com when only a session is linked', async () => {
+      useRecordedResponses();
+      const adapter = new CostcoAdapter(new CostcoApiClient());
+
+      const deliveries = await adapter.getActiveDeliveries(createConnection({ accessToken: '' }));
+      const sameDay = deliveries.find((d) => d.externalOrderId === 'ic-1001');
+
+      // Same ID as the Instacart copy, so the two merge in the delivery cache
+      expect(sameDay?.id).toBe('co_ic-1001');
+      expect(sameDay?.order.itemCount).toBe(14);
+      expect(sameDay?.meta.rawData).toMatchObject({ fulfilledByInstacart: true });
+    });
+
+    it('skips Costco.com when no session is linked', async () => {
+      useRecordedResponses();
+      const adapter = new CostcoAdapter(new CostcoApiClient());
+
+      const deliveries = await adapter.getActiveDeliveries(
+        createConnection({ sessionData: undefined })
+      );
+
+      expect(deliveries.map((d) => d.id)).toEqual(['co_ic-1001']);
+    });
+  });
+
+  describe('getDeliveryDetails', () => {
+    it('fetches a single shipment of a Costco.com order', async () => {
+      useRecordedResponses();
+      const adapter = new CostcoAdapter(new CostcoApiClient());
+
+      const delivery = await adapter.getDeliveryDetails(
+        createConnection(),
+        'co_web_1180042377-S2'
+      );
+
+      expect(delivery.carrier?.trackingNumber).toBe('449044304137821');
+    });
+  });
+
+  describe('Costco.com session', () => {
+    it('rejects sessions without the sign-in cookie before calling Costco.com', async () => {
+      const requests = vi.fn();
+      server.use(
+        http.get(`${COSTCO_API}/orders`, () => {
+          requests();
+          return HttpResponse.json(openOrders);
+        })
+      );
+      const adapter = new CostcoAdapter(new CostcoApiClient());
+
+      await expect(
+        adapter.testLinkedSession(createSession({ cookies: { WC_SESSION_ESTABLISHED: 'true' } }))
+      ).rejects.toBeInstanceOf(PlatformAuthError);
+      expect(requests).not.toHaveBeenCalled();
+    });
+
+    it('does not retry an expired session', async () => {
+      const requests = vi.fn();
+      server.use(
+        http.get(`${COSTCO_API}/orders`, () => {
+          requests();
+          return HttpResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        })
+      );
+      const adapter = new CostcoAdapter(new CostcoApiClient());
+
+      await expect(adapter.testLinkedSession(createSession())).rejects.toBeInstanceOf(
+        PlatformAuthError
+      );
+      expect(requests).toHaveBeenCalledTimes(1);
+    });
+  });
+});
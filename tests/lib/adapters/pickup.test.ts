@@ -0,0 +1,151 @@
+/**
+ * Store pickup tests
+ * Replays recorded Walmart and Sam's Club responses through msw.
+ */
+
+import { http, HttpResponse } from 'msw';
+import { afterAll, afterEach, beforeAll, describe, it, expect } from 'vitest';
+import { SamsClubAdapter } from '@/lib/adapters/samsclub';
+import type { AdapterConnection } from '@/lib/adapters/types';
+import { WalmartAdapter } from '@/lib/adapters/walmart';
+import { getFulfillmentType } from '@/types/delivery';
+import { server } from '../../mocks/server';
+import samsclubActiveOrders from './fixtures/samsclub/active-orders.json';
+import walmartActiveOrders from './fixtures/walmart/active-orders.json';
+
+const WALMART_API = 'https://www.walmart.com/api/order/v1';
+const SAMSCLUB_API = 'https://www.samsclub.com/api/order/v1';
+
+function createConnection(platform: 'walmart' | 'samsclub'): AdapterConnection {
+  return {
+    accessToken: JSON.stringify({
+      cookies: { auth: 'a', vtc: 'v', ACID: 'c', customer: 'u' },
+      userAgent: 'Mozilla/5.0',
+      lastRefreshed: new Date().toISOString(),
+    }),
+    userId: 'user-1',
+    platform,
+  };
+}
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+afterEach(() => server.resetHandlers());
+afterAll(() => server.close());
+
+describe('WalmartAdapter pickups', () => {
+  function useRecordedResponses() {
+    server.use(http.get(`${WALMART_API}/orders`, () => HttpResponse.json(walmartActiveOrders)));
+  }
+
+  it('returns pickup orders alongside deliveries', async () => {
+    useRecordedResponses();
+
+    const deliveries = await new WalmartAdapter().getActiveDeliveries(createConnection('walmart'));
+
+    expect(deliveries.map((d) => [d.externalOrderId, d.fulfillment])).toEqual([
+      ['200011223344', 'delivery'],
+      ['200055667788', 'pickup'],
+      ['200099001122', 'pickup'],
+    ]);
+  });
+
+  it('describes the store and pickup window', async () => {
+    useRecordedResponses();
+
+    const deliveries = await new WalmartAdapter().getActiveDeliveries(createConnection('walmart'));
+    const pickup = deliveries.find((d) => d.externalOrderId === '200055667788');
+
+    expect(pickup?.status).toBe('ready_for_pickup');
+    expect(pickup?.pickup).toEqual({
+      storeName: 'Springfield Supercenter',
+      storePhone: '541-555-0142',
+      window: {
+        start: new Date('2026-10-19T17:00:00Z'),
+        end: new Date('2026-10-19T18:00:00Z'),
+      },
+    });
+    expect(pickup?.destination.address).toBe('1600 Gateway St, Springfield, OR 97477');
+    expect(pickup?.destination.lat).toBe(44.0687);
+  });
+
+  it('maps checked-in pickups and leaves the home address out', async () => {
+    useRecordedResponses();
+
+    const deliveries = await new WalmartAdapter().getActiveDeliveries(createConnection('walmart'));
+    const checkedIn = deliveries.find((d) => d.externalOrderId === '200099001122');
+
+    expect(checkedIn?.status).toBe('checked_in');
+    expect(checkedIn?.statusLabel).toBe('Checked In');
+    expect(checkedIn?.timestamps.checkedIn).toEqual(new Date('2026-10-19T16:52:00Z'));
+    expect(checkedIn?.destination.address).toBe('');
+  });
+
+  it('filters pickup orders by fulfillment', async () => {
+    useRecordedResponses();
+
+    const pickups = await new WalmartAdapter().getPickupOrders(createConnection('walmart'));
+
+    expect(pickups.map((d) => d.externalOrderId)).toEqual(['200055667788', '200099001122']);
+  });
+
+  it('labels collected pickups as picked up', () => {
+    const adapter = new WalmartAdapter();
+
+    expect(adapter.mapStatus('PICKED_UP')).toBe('delivered');
+    expect(adapter.getStatusLabel('delivered', 'pickup')).toBe('Picked Up');
+    expect(adapter.getStatusLabel('delivered', 'delivery')).toBe('Delivered');
+  });
+});
+
+describe('SamsClubAdapter pickups', () => {
+  function useRecordedResponses() {
+    server.use(http.get(`${SAMSCLUB_API}/orders`, () => HttpResponse.json(samsclubActiveOrders)));
+  }
+
+  it('marks curbside orders as pickups at the club', async () => {
+    useRecordedResponses();
+
+    const deliveries = await new SamsClubAdapter().getActiveDeliveries(
+      createConnection('samsclub')
+    );
+    const [curbside, delivery] = deliveries;
+
+    expect(curbside?.fulfillment).toBe('pickup');
+    expect(curbside?.status).toBe('checked_in');
+    expect(curbside?.destination).toEqual({
+      address: '2700 Chad Dr, Eugene, OR 97408',
+      lat: 0,
+      lng: 0,
+    });
+    expect(curbside?.pickup).toEqual({
+      storeName: "Eugene Sam's Club",
+      window: {
+        start: new Date('2026-10-19T18:00:00Z'),
+        end: new Date('2026-10-19T19:00:00Z'),
+      },
+    });
+
+    expect(delivery?.fulfillment).toBe('delivery');
+    expect(delivery?.pickup).toBeUndefined();
+    expect(delivery?.destination.address).toBe('742 Evergreen Terrace, Springfield, OR 97477');
+  });
+
+  it('filters pickup orders by fulfillment', async () => {
+    useRecordedResponses();
+
+    const pickups = await new SamsClubAdapter().getPickupOrders(createConnection('samsclub'));
+
+    expect(pickups.map((d) => d.externalOrderId)).toEqual(['8812004455']);
+  });
+});
+
+describe('getFulfillmentType', () => {
+  it('uses the recorded fulfillment', () => {
+    expect(getFulfillmentType({ fulfillment: 'pickup' })).toBe('pickup');
+  });
+
+  it('falls back on the carrier for deliveries cached without one', () => {
+    expect(getFulfillmentType({ carrier: { name: 'UPS' } })).toBe('shipping');
+    expect(getFulfillmentType({})).toBe('delivery');
+  });
+});
@@ -15,6 +15,7 @@ import {
   drizlyStatusMap,
   totalwineStatusMap,
   samsclubStatusMap,
+  costcoOrderStatusMap,
 } from '@/lib/adapters/status-map';
 import type { Platform } from '@/types/platform';
 
@@ -229,4 +230,11 @@ describe('Status Map Coverage', () => {
       expect(mappedStatuses).toContain(status);
     }
   });
+
+  it('Costco.com order map covers shipped and scheduled orders', () => {
+    expect(costcoOrderStatusMap.scheduled).toBe('preparing');
+    expect(costcoOrderStatusMap.in_transit).toBe('out_for_delivery');
+    expect(costcoOrderStatusMap.arriving_today).toBe('arriving');
+    expect(costcoOrderStatusMap.returned).toBe('cancelled');
+  });
 });
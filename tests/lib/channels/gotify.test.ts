@@ -0,0 +1,72 @@
+/**
+ * Gotify channel tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { GOTIFY_PRIORITIES, sendGotifyMessage } from '@/lib/channels';
+
+function createFetch(status = 200) {
+  return vi.fn<typeof fetch>(async () => new Response('{}', { status }));
+}
+
+const lookup = vi.fn(async (_hostname: string) => ['93.184.216.34']);
+
+describe('sendGotifyMessage', () => {
+  it('posts to /message with the application token', async () => {
+    const fetchMock = createFetch();
+
+    const result = await sendGotifyMessage(
+      { serverUrl: 'https://gotify.example.com/base/', token: 'AbC.123' },
+      {
+        title: 'Almost There!',
+        body: 'Your Instacart order arrives in 4 minutes',
+        priority: 'high',
+        clickUrl: 'https://dropdeck.app/dashboard?delivery=instacart_B2',
+      },
+      { fetch: fetchMock, lookup }
+    );
+
+    expect(result.success).toBe(true);
+
+    const [url, init] = fetchMock.mock.calls[0] ?? [];
+    expect(url).toBe('https://gotify.example.com/base/message');
+    expect(init?.headers).toMatchObject({ 'X-Gotify-Key': 'AbC.123' });
+    expect(JSON.parse(init?.body as string)).toEqual({
+      title: 'Almost There!',
+      message: 'Your Instacart order arrives in 4 minutes',
+      priority: 8,
+      extras: {
+        'client::notification': {
+          click: { url: 'https://dropdeck.app/dashboard?delivery=instacart_B2' },
+        },
+      },
+    });
+  });
+
+  it('reports rejected tokens', async () => {
+    const result = await sendGotifyMessage(
+      { serverUrl: 'https://gotify.example.com', token: 'revoked' },
+      { title: 'Delivered', body: 'Delivered', priority: 'low' },
+      { fetch: createFetch(401), lookup }
+    );
+
+    expect(result).toEqual({ success: false, statusCode: 401, error: 'HTTP 401' });
+  });
+
+  it('refuses to send without a token', async () => {
+    const fetchMock = createFetch();
+
+    const result = await sendGotifyMessage(
+      { serverUrl: 'https://gotify.example.com' },
+      { title: 'Delivered', body: 'Delivered', priority: 'default' },
+      { fetch: fetchMock, lookup }
+    );
+
+    expect(result.success).toBe(false);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('maps priorities onto the 0-10 scale', () => {
+    expect(GOTIFY_PRIORITIES).toEqual({ min: 0, low: 2, default: 5, high: 8, urgent: 10 });
+  });
+});
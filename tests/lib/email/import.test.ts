@@ -0,0 +1,199 @@
+/**
+ * Order email parser tests
+ */
+
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, it, expect } from 'vitest';
+import { buildEmailDelivery, mergeEmailDelivery, parseOrderEmail } from '@/lib/email/import';
+import { findDeliveryEstimate, findTrackingNumber } from '@/lib/email/import/utils';
+import { parseEmail } from '@/lib/email/parse';
+
+function fixture(name: string) {
+  return parseEmail(readFileSync(join(__dirname, 'fixtures', name), 'utf8'));
+}
+
+describe('parseOrderEmail', () => {
+  it('reads a Walmart delivery order confirmation', () => {
+    const match = parseOrderEmail(fixture('walmart-confirmation.eml'));
+
+    expect(match?.parser).toBe('walmart');
+    expect(match?.order).toMatchObject({
+      platform: 'walmart',
+      orderId: '2000123-45678901',
+      kind: 'order_confirmation',
+      status: 'preparing',
+      totalAmount: 1341,
+      address: '12 Elm St, Springfield, IL 62701',
+      window: {
+        start: new Date(2026, 9, 20, 14, 0),
+        end: new Date(2026, 9, 20, 15, 0),
+      },
+    });
+    expect(match?.order.items).toEqual([
+      { name: 'Great Value Whole Milk, 1 gal', quantity: 2, unitPrice: 358 },
+      { name: 'Bananas, each', quantity: 1, unitPrice: 27 },
+      { name: 'Avocados – large', quantity: 3, unitPrice: 149 },
+    ]);
+  });
+
+  it('tracks shipped Walmart orders under the carrier', () => {
+    const match = parseOrderEmail(fixture('walmart-shipped.eml'));
+
+    expect(match?.order).toMatchObject({
+      platform: 'ups',
+      retailerPlatform: 'walmart',
+      orderId: '2000456-11112222',
+      kind: 'shipping_notice',
+      trackingNumber: '1Z999AA10123456784',
+      carrier: 'ups',
+      estimatedArrival: new Date(2026, 9, 22, 20, 0),
+    });
+  });
+
+  it('keys Total Wine deliveries by the Onfleet short ID', () => {
+    const match = parseOrderEmail(fixture('totalwine-on-the-way.eml'));
+
+    expect(match?.parser).toBe('totalwine');
+    expect(match?.order).toMatchObject({
+      platform: 'totalwine',
+      orderId: '5561234',
+      externalOrderId: 'c77ff497a1',
+      status: 'out_for_delivery',
+      trackingUrl: 'https://onf.lt/c77ff497a1',
+      totalAmount: 13245,
+    });
+    expect(match?.order.items).toHaveLength(2);
+  });
+
+  it('reads shipping notices from retailers without a parser', () => {
+    const match = parseOrderEmail(fixture('shop-shipped.eml'));
+
+    expect(match?.parser).toBe('shipping');
+    expect(match?.order).toMatchObject({
+      platform: 'usps',
+      retailer: 'Acme Outfitters',
+      orderId: 'A-10442',
+      trackingNumber: '9400111899223197428497',
+      estimatedArrival: new Date(2026, 9, 21, 20, 0),
+    });
+  });
+
+  it('ignores emails without an order', () => {
+    expect(parseOrderEmail(fixture('newsletter.eml'))).toBeNull();
+  });
+});
+
+describe('findDeliveryEstimate', () => {
+  const reference = new Date(2026, 11, 28);
+
+  it('rolls dates without a year over to the next year', () => {
+    expect(findDeliveryEstimate('Arrives Jan 3', reference)?.estimatedArrival).toEqual(
+      new Date(2027, 0, 3, 20, 0)
+    );
+  });
+
+  it('shares the meridiem of a window end with its start', () => {
+    expect(findDeliveryEstimate('Dec 29, 2-3pm', reference)?.window).toEqual({
+      start: new Date(2026, 11, 29, 14, 0),
+      end: new Date(2026, 11, 29, 15, 0),
+    });
+  });
+});
+
+describe('findTrackingNumber', () => {
+  it('does not mistake unlabeled order and phone numbers for tracking numbers', () => {
+    expect(findTrackingNumber('Order 123456789012, call 8005550123')).toBeNull();
+  });
+
+  it('accepts labeled numbers in formats without a check digit', () => {
+    expect(findTrackingNumber('FedEx tracking #: 123456789012')).toEqual({
+      trackingNumber: '123456789012',
+      carrier: 'fedex',
+    });
+  });
+});
+
+describe('buildEmailDelivery', () => {
+  const now = new Date('2026-10-17T14:00:00Z');
+
+  it('uses the adapter ID scheme and marks the delivery as imported from email', () => {
+    const email = fixture('walmart-confirmation.eml');
+    const match = parseOrderEmail(email);
+    if (!match) throw new Error('expected a match');
+
+    const delivery = buildEmailDelivery(match.order, email, match.parser, now);
+
+    expect(delivery).toMatchObject({
+      id: 'wa_2000123-45678901',
+      platform: 'walmart',
+      externalOrderId: '2000123-45678901',
+      statusLabel: 'Order Confirmed',
+      eta: { confidence: 'medium' },
+      order: { itemCount: 6, totalAmount: 1341, currency: 'USD' },
+      meta: { fetchMethod: 'email', adapterId: 'walmart' },
+    });
+  });
+
+  it('labels parcels with the retailer and order number', () => {
+    const email = fixture('shop-shipped.eml');
+    const match = parseOrderEmail(email);
+    if (!match) throw new Error('expected a match');
+
+    const delivery = buildEmailDelivery(match.order, email, match.parser, now);
+
+    expect(delivery).toMatchObject({
+      id: 'us_9400111899223197428497',
+      externalOrderId: '9400111899223197428497',
+      label: 'Acme Outfitters order A-10442',
+      statusLabel: 'Shipped',
+      carrier: { name: 'USPS', trackingNumber: '9400111899223197428497' },
+    });
+    expect(delivery.fulfillment).toBe('shipping');
+  });
+
+  it('keeps the window of a store pickup as its pickup slot', () => {
+    const email = fixture('walmart-confirmation.eml');
+    const match = parseOrderEmail(email);
+    if (!match?.order.window) throw new Error('expected a match with a window');
+
+    const booked = buildEmailDelivery({ ...match.order, pickup: true }, email, match.parser, now);
+    const collected = buildEmailDelivery(
+      { ...match.order, pickup: true, kind: 'delivery_notice', status: 'delivered' },
+      email,
+      match.parser,
+      now
+    );
+
+    expect(booked.fulfillment).toBe('pickup');
+    expect(booked.pickup).toEqual({ window: match.order.window });
+    expect(booked.eta.window).toBeUndefined();
+    expect(collected.statusLabel).toBe('Picked Up');
+  });
+});
+
+describe('mergeEmailDelivery', () => {
+  it('keeps details from the earlier email that the later one leaves out', () => {
+    const confirmation = fixture('walmart-confirmation.eml');
+    const confirmed = parseOrderEmail(confirmation);
+    if (!confirmed) throw new Error('expected a match');
+    const previous = JSON.parse(
+      JSON.stringify(buildEmailDelivery(confirmed.order, confirmation, 'walmart'))
+    );
+
+    const delivered = buildEmailDelivery(
+      { ...confirmed.order, kind: 'delivery_notice', status: 'delivered', items: [] },
+      { messageId: 'x', subject: 'Delivered', date: new Date(2026, 9, 20, 14, 40) },
+      'walmart'
+    );
+    delivered.destination = { address: '', lat: 0, lng: 0 };
+
+    const merged = mergeEmailDelivery(previous, delivered);
+
+    expect(merged.status).toBe('delivered');
+    expect(merged.order.items).toHaveLength(3);
+    expect(merged.destination.address).toBe('12 Elm St, Springfield, IL 62701');
+    expect(merged.timestamps.ordered).toEqual(new Date('2026-10-17T13:12:44Z'));
+    expect(merged.timestamps.delivered).toEqual(new Date(2026, 9, 20, 14, 40));
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Inbound email parsing tests
+ */
+
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, it, expect } from 'vitest';
+import { decodeHeaderValue, htmlToText, parseEmail } from '@/lib/email/parse';
+
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+}
+
+describe('decodeHeaderValue', () => {
+  it('decodes B and Q encoded-words', () => {
+    expect(decodeHeaderValue('=?UTF-8?B?QWNtZSBPdXRmaXR0ZXJz?= <orders@acme.example>')).toBe(
+      'Acme Outfitters <orders@acme.example>'
+    );
+    expect(decodeHeaderValue('=?UTF-8?Q?Caf=C3=A9_order?=')).toBe('Café order');
+  });
+
+  it('joins adjacent encoded-words without the whitespace between them', () => {
+    expect(decodeHeaderValue('=?UTF-8?Q?Your_?= =?UTF-8?Q?order?=')).toBe('Your order');
+  });
+
+  it('leaves plain values alone', () => {
+    expect(decodeHeaderValue('Your package shipped!')).toBe('Your package shipped!');
+  });
+});
+
+describe('htmlToText', () => {
+  it('keeps one line per block and drops styles and tags', () => {
+    const html =
+      '<style>p{}</style><p>Order #</p><table><tr><td>Total</td><td>$5.00</td></tr></table>';
+    expect(htmlToText(html)).toBe('Order #\nTotal $5.00');
+  });
+
+  it('decodes entities', () => {
+    expect(htmlToText('<p>Help &amp; support&nbsp;&#8211; &#x2713;</p>')).toBe(
+      'Help & support – ✓'
+    );
+  });
+});
+
+describe('parseEmail', () => {
+  it('reads headers and the quoted-printable text part of a multipart message', () => {
+    const email = parseEmail(fixture('walmart-confirmation.eml'));
+
+    expect(email.messageId).toBe('order-2000123-45678901@walmart.com');
+    expect(email.from).toBe('Walmart.com <help@walmart.com>');
+    expect(email.subject).toBe('Thanks for your delivery order, Sam');
+    expect(email.date).toEqual(new Date('2026-10-17T13:12:44Z'));
+    expect(email.text).toContain('3 x Avocados – large $4.47');
+    expect(email.html).toContain('<html>');
+  });
+
+  it('derives the text from a base64 HTML body', () => {
+    const email = parseEmail(fixture('walmart-shipped.eml'));
+
+    expect(email.text).toContain('Tracking number 1Z999AA10123456784');
+    expect(email.text).toContain('Questions? Visit help & support.');
+    expect(email.text).not.toContain('color');
+  });
+
+  it('decodes legacy charsets and skips attachments in nested multiparts', () => {
+    const email = parseEmail(fixture('shop-shipped.eml'));
+
+    expect(email.from).toBe('Acme Outfitters <orders@acme.example>');
+    expect(email.text).toContain('à bientôt!');
+    expect(email.text).not.toContain('NOT-THIS-ONE');
+  });
+
+  it('handles messages without a Message-ID or date', () => {
+    const email = parseEmail('Subject: hi\n\nbody');
+
+    expect(email.messageId).toBeNull();
+    expect(email.date).toBeNull();
+    expect(email.text).toBe('body');
+  });
+});
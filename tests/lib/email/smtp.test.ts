@@ -0,0 +1,187 @@
+/**
+ * SMTP transport tests
+ * Runs against a local SMTP sink that records each conversation.
+ */
+
+import { createServer, type AddressInfo, type Server } from 'node:net';
+import { afterEach, describe, it, expect } from 'vitest';
+import { SmtpTransport } from '@/lib/email/smtp';
+import type { MailMessage } from '@/lib/email/types';
+
+interface SinkOptions {
+  /** Reply to RCPT TO */
+  rcptReply?: string;
+}
+
+interface SinkSession {
+  commands: string[];
+  data: string;
+}
+
+let server: Server | null = null;
+
+/**
+ * Start an SMTP sink on a random local port
+ */
+async function startSink(options: SinkOptions = {}) {
+  const sessions: SinkSession[] = [];
+
+  server = createServer((socket) => {
+    const session: SinkSession = { commands: [], data: '' };
+    sessions.push(session);
+
+    let buffer = '';
+    let inData = false;
+    socket.setEncoding('utf8');
+    socket.write('220 sink.test ESMTP\r\n');
+
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) return;
+        session.data = buffer.slice(0, end + 2);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write('250 2.0.0 Queued\r\n');
+      }
+
+      let index = buffer.indexOf('\r\n');
+      while (index !== -1 && !inData) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        session.commands.push(line);
+
+        const verb = line.split(' ')[0]?.toUpperCase();
+        if (verb === 'EHLO') {
+          const lines = ['sink.test', 'AUTH PLAIN LOGIN'];
+          socket.write(
+            lines.map((l, i) => `250${i === lines.length - 1 ? ' ' : '-'}${l}\r\n`).join('')
+          );
+        } else if (verb === 'AUTH') {
+          socket.write('235 2.7.0 Authenticated\r\n');
+        } else if (verb === 'RCPT') {
+          socket.write(`${options.rcptReply ?? '250 2.1.5 OK'}\r\n`);
+        } else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 2.0.0 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+
+        index = buffer.indexOf('\r\n');
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server?.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { port, sessions };
+}
+
+afterEach(async () => {
+  await new Promise((resolve) => (server ? server.close(resolve) : resolve(undefined)));
+  server = null;
+});
+
+function createMessage(overrides: Partial<MailMessage> = {}): MailMessage {
+  return {
+    from: 'DropDeck <noreply@dropdeck.test>',
+    to: 'user@example.com',
+    subject: 'Your deliveries',
+    text: 'Hello',
+    html: '<p>Hello</p>',
+    ...overrides,
+  };
+}
+
+describe('SmtpTransport', () => {
+  it('delivers a message with AUTH PLAIN', async () => {
+    const { port, sessions } = await startSink();
+    const transport = new SmtpTransport({
+      host: '127.0.0.1',
+      port,
+      clientName: 'client.test',
+      auth: { user: 'user', pass: 'secret' },
+      allowInsecureAuth: true,
+    });
+
+    const result = await transport.send(createMessage());
+
+    expect(result.success).toBe(true);
+    expect(result.responseCode).toBe(250);
+    expect(result.messageId).toMatch(/^<.+@dropdeck\.test>$/);
+
+    const commands = sessions[0]?.commands ?? [];
+    expect(commands[0]).toBe('EHLO client.test');
+    expect(commands[1]).toBe(`AUTH PLAIN ${Buffer.from('\0user\0secret').toString('base64')}`);
+    expect(commands).toContain('MAIL FROM:<noreply@dropdeck.test>');
+    expect(commands).toContain('RCPT TO:<user@example.com>');
+    expect(commands.at(-1)).toBe('QUIT');
+  });
+
+  it('sends multipart text and HTML parts', async () => {
+    const { port, sessions } = await startSink();
+    const transport = new SmtpTransport({ host: '127.0.0.1', port });
+
+    await transport.send(createMessage({ text: 'Plain body', html: '<p>HTML body</p>' }));
+
+    const data = sessions[0]?.data ?? '';
+    expect(data).toContain('Subject: Your deliveries');
+    expect(data).toContain('Content-Type: multipart/alternative');
+    expect(data).toContain(Buffer.from('Plain body').toString('base64'));
+    expect(data).toContain(Buffer.from('<p>HTML body</p>').toString('base64'));
+  });
+
+  it('reports a rejected recipient without throwing', async () => {
+    const { port } = await startSink({ rcptReply: '550 5.1.1 No such user' });
+    const transport = new SmtpTransport({ host: '127.0.0.1', port });
+
+    const result = await transport.send(createMessage());
+
+    expect(result.success).toBe(false);
+    expect(result.responseCode).toBe(550);
+    expect(result.error).toContain('RCPT TO rejected');
+  });
+
+  it('refuses to send without TLS when TLS is required', async () => {
+    const { port, sessions } = await startSink();
+    const transport = new SmtpTransport({ host: '127.0.0.1', port, requireTls: true });
+
+    const result = await transport.send(createMessage());
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('TLS');
+    expect(sessions[0]?.commands.some((c) => c.startsWith('MAIL FROM'))).toBe(false);
+  });
+
+  it('refuses to log in over an unencrypted connection', async () => {
+    const { port, sessions } = await startSink();
+    const transport = new SmtpTransport({
+      host: '127.0.0.1',
+      port,
+      auth: { user: 'user', pass: 'secret' },
+    });
+
+    const result = await transport.send(createMessage());
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('refusing to send credentials');
+    expect(sessions[0]?.commands.some((c) => c.startsWith('AUTH'))).toBe(false);
+  });
+
+  it('reports connection failures', async () => {
+    const { port } = await startSink();
+    await new Promise((resolve) => server?.close(resolve));
+    server = null;
+
+    const transport = new SmtpTransport({ host: '127.0.0.1', port, timeoutMs: 1000 });
+    const result = await transport.send(createMessage());
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeTruthy();
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Email template tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { escapeHtml, renderEmail, type EmailTemplate } from '@/lib/email/template';
+
+const template: EmailTemplate = {
+  preheader: 'Two arriving today',
+  blocks: [
+    { type: 'heading', text: 'Expected today' },
+    {
+      type: 'list',
+      items: [
+        { title: 'DoorDash - On the way', details: ['8:05 AM - 8:40 AM', '3 items'] },
+        { title: 'Amazon - Delivered', details: ['Late'], highlight: true },
+      ],
+    },
+    { type: 'paragraph', text: 'Fish & <chips>' },
+    { type: 'button', text: 'Open DropDeck', url: 'https://dropdeck.test/dashboard?a=1&b=2' },
+  ],
+  footer: 'Turn this off in settings.',
+};
+
+describe('escapeHtml', () => {
+  it('escapes markup characters', () => {
+    expect(escapeHtml(`<a href="x">Tom's & co</a>`)).toBe(
+      '&lt;a href=&quot;x&quot;&gt;Tom&#39;s &amp; co&lt;/a&gt;'
+    );
+  });
+});
+
+describe('renderEmail', () => {
+  it('renders the same content to HTML and text', () => {
+    const { html, text } = renderEmail(template);
+
+    for (const body of [html, text]) {
+      expect(body).toContain('Expected today');
+      expect(body).toContain('DoorDash - On the way');
+      expect(body).toContain('8:05 AM - 8:40 AM');
+      expect(body).toContain('Turn this off in settings.');
+    }
+  });
+
+  it('escapes text in the HTML version only', () => {
+    const { html, text } = renderEmail(template);
+
+    expect(html).toContain('Fish &amp; &lt;chips&gt;');
+    expect(html).toContain('href="https://dropdeck.test/dashboard?a=1&amp;b=2"');
+    expect(text).toContain('Fish & <chips>');
+    expect(text).toContain('Open DropDeck: https://dropdeck.test/dashboard?a=1&b=2');
+  });
+
+  it('marks highlighted rows in the text version', () => {
+    const { text } = renderEmail(template);
+
+    expect(text).toContain('- DoorDash - On the way');
+    expect(text).toContain('! Amazon - Delivered');
+  });
+
+  it('hides the preheader in HTML', () => {
+    const { html, text } = renderEmail(template);
+
+    expect(html).toContain('display:none');
+    expect(html).toContain('Two arriving today');
+    expect(text).not.toContain('Two arriving today');
+  });
+});
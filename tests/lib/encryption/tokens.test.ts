@@ -0,0 +1,98 @@
+/**
+ * Token encryption keyring tests
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  decryptToken,
+  encryptToken,
+  getKeyring,
+  needsReencryption,
+  reencryptToken,
+} from '@/lib/encryption/tokens';
+
+const OLD_KEY = '0'.repeat(64);
+const NEW_KEY = 'a'.repeat(64);
+
+/**
+ * Make NEW_KEY the active key as version 2, keeping OLD_KEY as version 1
+ */
+function rotate() {
+  vi.stubEnv('TOKEN_ENCRYPTION_KEY', NEW_KEY);
+  vi.stubEnv('TOKEN_ENCRYPTION_KEY_VERSION', '2');
+  vi.stubEnv('TOKEN_ENCRYPTION_KEYRING', `1:${OLD_KEY}`);
+}
+
+afterEach(() => {
+  vi.stubEnv('TOKEN_ENCRYPTION_KEY', OLD_KEY);
+  vi.stubEnv('TOKEN_ENCRYPTION_KEY_VERSION', '');
+  vi.stubEnv('TOKEN_ENCRYPTION_KEYRING', '');
+});
+
+describe('getKeyring', () => {
+  it('treats a lone key as version 1', () => {
+    const keyring = getKeyring();
+
+    expect(keyring.activeVersion).toBe(1);
+    expect([...keyring.keys.keys()]).toEqual([1]);
+  });
+
+  it('adds decrypt-only keys from the keyring', () => {
+    rotate();
+    vi.stubEnv('TOKEN_ENCRYPTION_KEYRING', `1:${OLD_KEY}, 3:${'b'.repeat(64)}`);
+
+    const keyring = getKeyring();
+
+    expect(keyring.activeVersion).toBe(2);
+    expect([...keyring.keys.keys()].sort()).toEqual([1, 2, 3]);
+  });
+
+  it('rejects a version given twice', () => {
+    rotate();
+    vi.stubEnv('TOKEN_ENCRYPTION_KEYRING', `2:${OLD_KEY}`);
+
+    expect(() => getKeyring()).toThrow('repeats key version 2');
+  });
+
+  it('rejects malformed keys', () => {
+    vi.stubEnv('TOKEN_ENCRYPTION_KEYRING', '2:not-hex');
+
+    expect(() => getKeyring()).toThrow('64 hex characters');
+  });
+});
+
+describe('key rotation', () => {
+  it('encrypts under the active key version', () => {
+    rotate();
+
+    expect(encryptToken('secret').version).toBe(2);
+  });
+
+  it('decrypts data written under a previous key', () => {
+    const old = encryptToken('secret');
+    rotate();
+
+    expect(decryptToken(old)).toBe('secret');
+    expect(needsReencryption(old)).toBe(true);
+  });
+
+  it('fails once the previous key is removed', () => {
+    const old = encryptToken('secret');
+    rotate();
+    vi.stubEnv('TOKEN_ENCRYPTION_KEYRING', '');
+
+    expect(() => decryptToken(old)).toThrow('No encryption key for version 1');
+  });
+
+  it('re-encrypts under the active key', () => {
+    const old = encryptToken('secret');
+    rotate();
+
+    const moved = reencryptToken(old);
+
+    expect(moved.version).toBe(2);
+    expect(needsReencryption(moved)).toBe(false);
+    vi.stubEnv('TOKEN_ENCRYPTION_KEYRING', '');
+    expect(decryptToken(moved)).toBe('secret');
+  });
+});
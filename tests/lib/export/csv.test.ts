@@ -0,0 +1,70 @@
+/**
+ * CSV export tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import { escapeCsvValue, getCsvHeader, toCsvRows } from '@/lib/export';
+import { createMockDelivery } from '../../utils/fixtures';
+
+describe('escapeCsvValue', () => {
+  it('quotes cells with commas, quotes and line breaks', () => {
+    expect(escapeCsvValue('plain')).toBe('plain');
+    expect(escapeCsvValue('Milk, 2%')).toBe('"Milk, 2%"');
+    expect(escapeCsvValue('12" pizza')).toBe('"12"" pizza"');
+    expect(escapeCsvValue('Leave at\ndoor')).toBe('"Leave at\ndoor"');
+  });
+
+  it('keeps spreadsheets from evaluating formulas', () => {
+    expect(escapeCsvValue('=HYPERLINK("x")')).toBe('"\'=HYPERLINK(""x"")"');
+    expect(escapeCsvValue('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(escapeCsvValue(-5)).toBe('-5');
+  });
+
+  it('writes empty cells for missing values', () => {
+    expect(escapeCsvValue(undefined)).toBe('');
+    expect(escapeCsvValue(null)).toBe('');
+  });
+});
+
+describe('toCsvRows', () => {
+  const delivery = createMockDelivery({
+    platform: 'instacart',
+    externalOrderId: 'IC-1',
+    statusLabel: 'Delivered',
+    order: {
+      itemCount: 2,
+      totalAmount: 4250,
+      currency: 'USD',
+      items: [
+        { name: 'Milk', quantity: 1, unitPrice: 399 },
+        { name: 'Eggs', quantity: 2, substituted: true, substitutedWith: 'Brown eggs' },
+      ],
+    },
+  });
+
+  it('writes one row per delivery matching the header', () => {
+    const header = getCsvHeader().trimEnd().split(',');
+    const row = toCsvRows(delivery);
+
+    expect(row.endsWith('\r\n')).toBe(true);
+    expect(row.split('\r\n')).toHaveLength(2);
+    expect(row.trimEnd().split(',')[header.indexOf('total')]).toBe('42.50');
+    expect(row.trimEnd().split(',')[header.indexOf('external_order_id')]).toBe('IC-1');
+  });
+
+  it('writes one row per item when asked', () => {
+    const header = getCsvHeader(true).trimEnd().split(',');
+    const rows = toCsvRows(delivery, true).trimEnd().split('\r\n');
+
+    expect(rows).toHaveLength(2);
+    const eggs = rows[1]!.split(',');
+    expect(eggs[header.indexOf('item_name')]).toBe('Eggs');
+    expect(eggs[header.indexOf('item_substituted')]).toBe('true');
+    expect(eggs[header.indexOf('item_substituted_with')]).toBe('Brown eggs');
+  });
+
+  it('keeps deliveries without item details when writing per item', () => {
+    const rows = toCsvRows(createMockDelivery({ order: { itemCount: 3 } }), true);
+    expect(rows.trimEnd().split('\r\n')).toHaveLength(1);
+  });
+});
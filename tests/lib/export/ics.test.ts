@@ -0,0 +1,134 @@
+/**
+ * iCalendar export tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  escapeIcsText,
+  foldIcsLine,
+  formatExport,
+  formatIcsDate,
+  getDeliveryWindow,
+  toIcsEvent,
+  toReadableStream,
+} from '@/lib/export';
+import { createMockDelivery } from '../../utils/fixtures';
+
+describe('escapeIcsText', () => {
+  it('escapes separators and line breaks', () => {
+    expect(escapeIcsText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+  });
+});
+
+describe('foldIcsLine', () => {
+  it('folds lines longer than 75 octets', () => {
+    const folded = foldIcsLine(`DESCRIPTION:${'x'.repeat(200)}`);
+    const lines = folded.slice(0, -2).split('\r\n');
+
+    expect(lines.length).toBeGreaterThan(2);
+    for (const line of lines) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+    expect(lines.map((line, i) => (i === 0 ? line : line.slice(1))).join('')).toBe(
+      `DESCRIPTION:${'x'.repeat(200)}`
+    );
+  });
+
+  it('never splits a multi-byte character', () => {
+    const folded = foldIcsLine(`SUMMARY:${'é'.repeat(60)}`);
+    for (const line of folded.slice(0, -2).split('\r\n')) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+      expect(line).not.toContain('�');
+    }
+  });
+});
+
+describe('formatIcsDate', () => {
+  it('formats UTC date-times', () => {
+    expect(formatIcsDate(new Date('2026-03-14T18:30:05.123Z'))).toBe('20260314T183005Z');
+  });
+});
+
+describe('getDeliveryWindow', () => {
+  it('uses the promised delivery window', () => {
+    const start = new Date('2026-03-14T18:00:00Z');
+    const end = new Date('2026-03-14T20:00:00Z');
+    const delivery = createMockDelivery({ status: 'preparing' });
+    delivery.eta.window = { start, end };
+
+    expect(getDeliveryWindow(delivery)).toEqual({ start, end });
+  });
+
+  it('spans a time around the ETA otherwise', () => {
+    const delivery = createMockDelivery({ status: 'out_for_delivery' });
+    delete delivery.eta.window;
+
+    const { start, end } = getDeliveryWindow(delivery);
+    expect(end.getTime()).toBeGreaterThan(start.getTime());
+  });
+});
+
+describe('toIcsEvent', () => {
+  it('describes the delivery as an event over its window', () => {
+    const delivery = createMockDelivery({
+      platform: 'instacart',
+      externalOrderId: 'IC-1',
+      status: 'preparing',
+      statusLabel: 'Shopping',
+    });
+    delivery.eta.window = {
+      start: new Date('2026-03-14T18:00:00Z'),
+      end: new Date('2026-03-14T20:00:00Z'),
+    };
+
+    const event = toIcsEvent(delivery, { now: new Date('2026-03-14T12:00:00Z') });
+
+    expect(event).toMatch(/^BEGIN:VEVENT\r\n/);
+    expect(event).toContain('UID:instacart-IC-1@dropdeck\r\n');
+    expect(event).toContain('DTSTAMP:20260314T120000Z\r\n');
+    expect(event).toContain('DTSTART:20260314T180000Z\r\n');
+    expect(event).toContain('DTEND:20260314T200000Z\r\n');
+    expect(event).toContain('SUMMARY:Instacart delivery\r\n');
+    expect(event).toMatch(/END:VEVENT\r\n$/);
+  });
+});
+
+describe('formatExport', () => {
+  it('streams a complete calendar', async () => {
+    async function* deliveries() {
+      yield createMockDelivery({ status: 'preparing' });
+      yield createMockDelivery({ status: 'arriving' });
+    }
+
+    const text = await new Response(toReadableStream(formatExport(deliveries(), 'ics'))).text();
+
+    expect(text).toMatch(/^BEGIN:VCALENDAR\r\nVERSION:2.0\r\n/);
+    expect(text.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+    expect(text).toMatch(/END:VCALENDAR\r\n$/);
+  });
+  it('leaves out deliveries whose window is long past', async () => {
+    const now = new Date('2026-03-20T12:00:00Z');
+    const late = createMockDelivery({ status: 'out_for_delivery' });
+    late.eta.window = {
+      start: new Date('2026-03-20T08:00:00Z'),
+      end: new Date('2026-03-20T10:00:00Z'),
+    };
+    const abandoned = createMockDelivery({ status: 'preparing' });
+    abandoned.eta.window = {
+      start: new Date('2026-03-14T18:00:00Z'),
+      end: new Date('2026-03-14T20:00:00Z'),
+    };
+
+    async function* deliveries() {
+      yield late;
+      yield abandoned;
+    }
+
+    const text = await new Response(
+      toReadableStream(formatExport(deliveries(), 'ics', { now }))
+    ).text();
+
+    expect(text.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    expect(text).toContain(`UID:${late.platform}-${late.externalOrderId}@dropdeck`);
+  });
+});
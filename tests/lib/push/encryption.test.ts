@@ -0,0 +1,126 @@
+/**
+ * Web Push payload encryption tests
+ */
+
+import { createDecipheriv, createECDH, hkdfSync, randomBytes } from 'node:crypto';
+import { describe, it, expect } from 'vitest';
+import { encryptPayload, MAX_PAYLOAD_LENGTH, type SubscriptionKeys } from '@/lib/push/encryption';
+
+/**
+ * Browser-side key material for a subscription
+ */
+function createUserAgent() {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+  const auth = randomBytes(16);
+  const keys: SubscriptionKeys = {
+    p256dh: ecdh.getPublicKey().toString('base64url'),
+    auth: auth.toString('base64url'),
+  };
+  return { ecdh, auth, keys };
+}
+
+/**
+ * Decrypt a message the way a browser does (RFC 8291 / RFC 8188)
+ */
+function decrypt(body: Buffer, userAgent: ReturnType<typeof createUserAgent>): string {
+  const salt = body.subarray(0, 16);
+  const idLength = body.readUInt8(20);
+  const serverPublicKey = body.subarray(21, 21 + idLength);
+  const record = body.subarray(21 + idLength);
+
+  const sharedSecret = userAgent.ecdh.computeSecret(serverPublicKey);
+  const keyInfo = Buffer.concat([
+    Buffer.from('WebPush: info\0'),
+    userAgent.ecdh.getPublicKey(),
+    serverPublicKey,
+  ]);
+  const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, userAgent.auth, keyInfo, 32));
+  const key = Buffer.from(
+    hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16)
+  );
+  const nonce = Buffer.from(
+    hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12)
+  );
+
+  const decipher = createDecipheriv('aes-128-gcm', key, nonce);
+  decipher.setAuthTag(record.subarray(-16));
+  const padded = Buffer.concat([decipher.update(record.subarray(0, -16)), decipher.final()]);
+
+  // Strip the last-record delimiter and any zero padding
+  const end = padded.lastIndexOf(0x02);
+  return padded.subarray(0, end).toString('utf8');
+}
+
+describe('encryptPayload', () => {
+  it('matches the RFC 8291 test vector', () => {
+    const { body } = encryptPayload(
+      'When I grow up, I want to be a watermelon',
+      {
+        p256dh:
+          'BCVxsr7N_eNgVRqvHtD0zTZsEc6-VV-JvLexhqUzORcxaOzi6-AYWXvTBHm4bjyPjs7Vd8pZGH6SRpkNtoIAiw4',
+        auth: 'BTBZMqHH6r4Tts7J_aSIgg',
+      },
+      {
+        salt: Buffer.from('DGv6ra1nlYgDCS1FRnbzlw', 'base64url'),
+        privateKey: Buffer.from('yfWPiYE-n46HLnH0KqZOF1fJJU3MYrct3AELtAQ-oRw', 'base64url'),
+      }
+    );
+
+    expect(body.toString('base64url')).toBe(
+      'DGv6ra1nlYgDCS1FRnbzlwAAEABBBP4z9KsN6nGRTbVYI_c7VJSPQTBtkgcy27mlmlMoZIIgDll6e3vCYLocIn' +
+        'mYWAmS6TlzAC8wEqKK6PBru3jl7A_yl95bQpu6cVPTpK4Mqgkf1CXztLVBSt2Ks3oZwbuwXPXLWyouBWLVWGNW' +
+        'QexSgSxsj_Qulcy4a-fN'
+    );
+  });
+
+  it('round-trips through browser-side decryption', () => {
+    const userAgent = createUserAgent();
+    const payload = JSON.stringify({ title: 'On the Way', body: 'Arriving in ~12 min' });
+
+    const { body } = encryptPayload(payload, userAgent.keys);
+
+    expect(decrypt(body, userAgent)).toBe(payload);
+  });
+
+  it('writes the aes128gcm header', () => {
+    const userAgent = createUserAgent();
+
+    const { body, salt, serverPublicKey } = encryptPayload('hello', userAgent.keys);
+
+    expect(body.subarray(0, 16).equals(salt)).toBe(true);
+    expect(body.readUInt32BE(16)).toBe(4096);
+    expect(body.readUInt8(20)).toBe(65);
+    expect(body.subarray(21, 86).equals(serverPublicKey)).toBe(true);
+  });
+
+  it('uses a fresh key and salt for every message', () => {
+    const userAgent = createUserAgent();
+
+    const first = encryptPayload('hello', userAgent.keys);
+    const second = encryptPayload('hello', userAgent.keys);
+
+    expect(first.salt.equals(second.salt)).toBe(false);
+    expect(first.serverPublicKey.equals(second.serverPublicKey)).toBe(false);
+  });
+
+  it('rejects payloads that do not fit in one record', () => {
+    const userAgent = createUserAgent();
+
+    expect(() => encryptPayload('x'.repeat(MAX_PAYLOAD_LENGTH), userAgent.keys)).not.toThrow();
+    expect(() => encryptPayload('x'.repeat(MAX_PAYLOAD_LENGTH + 1), userAgent.keys)).toThrow(
+      /max/
+    );
+  });
+
+  it('rejects malformed subscription keys', () => {
+    const userAgent = createUserAgent();
+
+    expect(() => encryptPayload('hi', { ...userAgent.keys, auth: 'c2hvcnQ' })).toThrow(
+      /auth secret/
+    );
+    expect(() => encryptPayload('hi', { ...userAgent.keys, p256dh: 'c2hvcnQ' })).toThrow(
+      /p256dh/
+    );
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Web Push delivery tests
+ * Runs against a local stand-in push service.
+ */
+
+import { createECDH, randomBytes } from 'node:crypto';
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, it, expect, vi } from 'vitest';
+import type { SubscriptionKeys } from '@/lib/push/encryption';
+import { sendPushMessage, sendToSubscriptions } from '@/lib/push/send';
+import { generateVapidKeys, type VapidConfig } from '@/lib/push/vapid';
+
+interface ReceivedPush {
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: Buffer;
+}
+
+/**
+ * Status codes the stand-in push service answers with, by path
+ */
+const RESPONSES: Record<string, number> = {
+  '/push/ok': 201,
+  '/push/gone': 410,
+  '/push/missing': 404,
+  '/push/error': 500,
+};
+
+/**
+ * Public host the tests address; requests are routed to the local stand-in
+ */
+const PUSH_ORIGIN = 'https://push.example.com';
+
+const lookup = async (_hostname: string) => ['93.184.216.34'];
+
+/**
+ * Fetch that sends requests for PUSH_ORIGIN to another origin
+ */
+function routeTo(origin: string): typeof fetch {
+  return (input, init) => fetch(String(input).replace(PUSH_ORIGIN, origin), init);
+}
+
+function createKeys(): SubscriptionKeys {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    p256dh: ecdh.getPublicKey().toString('base64url'),
+    auth: randomBytes(16).toString('base64url'),
+  };
+}
+
+describe('sendPushMessage', () => {
+  let server: Server;
+  let options: { vapid: VapidConfig; fetch: typeof fetch; lookup: typeof lookup };
+  let received: ReceivedPush[];
+  const vapid: VapidConfig = { ...generateVapidKeys(), subject: 'mailto:ops@dropdeck.test' };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        const path = req.url ?? '';
+        received.push({ path, headers: req.headers, body: Buffer.concat(chunks) });
+        res.statusCode = RESPONSES[path] ?? 404;
+        res.end(res.statusCode >= 400 ? 'push service says no' : '');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    options = { vapid, fetch: routeTo(origin), lookup };
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+  });
+
+  it('posts an encrypted, VAPID-signed message', async () => {
+    const payload = JSON.stringify({ title: 'Delivered' });
+
+    const result = await sendPushMessage(
+      { endpoint: `${PUSH_ORIGIN}/push/ok`, keys: createKeys() },
+      payload,
+      { ...options, ttl: 600, urgency: 'high', topic: 'delivery-1' }
+    );
+
+    expect(result).toEqual({ success: true, statusCode: 201, expired: false });
+
+    const [request] = received;
+    expect(request?.headers).toMatchObject({
+      'content-encoding': 'aes128gcm',
+      'content-type': 'application/octet-stream',
+      ttl: '600',
+      urgency: 'high',
+      topic: 'delivery-1',
+    });
+    expect(request?.headers.authorization).toMatch(/^vapid t=[\w-]+\.[\w-]+\.[\w-]+, k=/);
+    // Header (86 bytes) + payload + delimiter + tag
+    expect(request?.body.length).toBe(86 + payload.length + 1 + 16);
+  });
+
+  it('flags subscriptions the push service no longer knows', async () => {
+    const gone = await sendPushMessage(
+      { endpoint: `${PUSH_ORIGIN}/push/gone`, keys: createKeys() },
+      '{}',
+      options
+    );
+    const missing = await sendPushMessage(
+      { endpoint: `${PUSH_ORIGIN}/push/missing`, keys: createKeys() },
+      '{}',
+      options
+    );
+
+    expect(gone).toMatchObject({ success: false, statusCode: 410, expired: true });
+    expect(missing).toMatchObject({ success: false, statusCode: 404, expired: true });
+  });
+
+  it('reports other failures without expiring the subscription', async () => {
+    const result = await sendPushMessage(
+      { endpoint: `${PUSH_ORIGIN}/push/error`, keys: createKeys() },
+      '{}',
+      options
+    );
+
+    expect(result).toEqual({
+      success: false,
+      statusCode: 500,
+      expired: false,
+      error: 'HTTP 500',
+    });
+  });
+
+  it('reports network errors instead of throwing', async () => {
+    const result = await sendPushMessage(
+      { endpoint: `${PUSH_ORIGIN}/push/ok`, keys: createKeys() },
+      '{}',
+      { ...options, fetch: routeTo('http://127.0.0.1:1'), timeoutMs: 1000 }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.expired).toBe(false);
+    expect(result.error).toBeDefined();
+  });
+
+  it('refuses endpoints that resolve to a private address', async () => {
+    const result = await sendPushMessage(
+      { endpoint: `${PUSH_ORIGIN}/push/ok`, keys: createKeys() },
+      '{}',
+      { ...options, lookup: async () => ['192.168.1.20'] }
+    );
+
+    expect(result).toEqual({
+      success: false,
+      expired: false,
+      error: 'Push endpoint resolves to a private network address',
+    });
+    expect(received).toHaveLength(0);
+  });
+
+  it('does not follow redirects from the push service', async () => {
+    const fetchMock = vi.fn<typeof fetch>(async () => new Response(null, { status: 307 }));
+
+    const result = await sendPushMessage(
+      { endpoint: `${PUSH_ORIGIN}/push/ok`, keys: createKeys() },
+      '{}',
+      { ...options, fetch: fetchMock }
+    );
+
+    expect(fetchMock.mock.calls[0]?.[1]?.redirect).toBe('manual');
+    expect(result).toMatchObject({ success: false, statusCode: 307, error: 'HTTP 307' });
+  });
+
+  describe('sendToSubscriptions', () => {
+    it('records a delivery status for every device', async () => {
+      const statuses = await sendToSubscriptions(
+        [
+          { id: 'sub-ok', endpoint: `${PUSH_ORIGIN}/push/ok`, keys: createKeys() },
+          { id: 'sub-gone', endpoint: `${PUSH_ORIGIN}/push/gone`, keys: createKeys() },
+          { id: 'sub-error', endpoint: `${PUSH_ORIGIN}/push/error`, keys: createKeys() },
+        ],
+        JSON.stringify({ title: 'On the Way' }),
+        options
+      );
+
+      expect(received).toHaveLength(3);
+      expect(statuses).toEqual([
+        expect.objectContaining({ subscriptionId: 'sub-ok', status: 'sent', statusCode: 201 }),
+        expect.objectContaining({
+          subscriptionId: 'sub-gone',
+          status: 'expired',
+          statusCode: 410,
+        }),
+        expect.objectContaining({
+          subscriptionId: 'sub-error',
+          status: 'failed',
+          statusCode: 500,
+        }),
+      ]);
+      expect(statuses.every((s) => !Number.isNaN(Date.parse(s.attemptedAt)))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * VAPID tests
+ */
+
+import { createPublicKey, verify } from 'node:crypto';
+import { describe, it, expect } from 'vitest';
+import {
+  createVapidAuthHeader,
+  createVapidToken,
+  generateVapidKeys,
+  type VapidConfig,
+  validateVapidConfig,
+} from '@/lib/push/vapid';
+
+function createConfig(): VapidConfig {
+  return { ...generateVapidKeys(), subject: 'mailto:ops@dropdeck.test' };
+}
+
+/**
+ * Verify an ES256 JWT against a raw base64url public key
+ */
+function verifyToken(token: string, publicKey: string): boolean {
+  const raw = Buffer.from(publicKey, 'base64url');
+  const key = createPublicKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: raw.subarray(1, 33).toString('base64url'),
+      y: raw.subarray(33, 65).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+  const [header, claims, signature] = token.split('.');
+
+  return verify(
+    'sha256',
+    Buffer.from(`${header}.${claims}`),
+    { key, dsaEncoding: 'ieee-p1363' },
+    Buffer.from(signature ?? '', 'base64url')
+  );
+}
+
+function decodeClaims(token: string): Record<string, unknown> {
+  return JSON.parse(Buffer.from(token.split('.')[1] ?? '', 'base64url').toString('utf8'));
+}
+
+describe('generateVapidKeys', () => {
+  it('creates raw P-256 keys', () => {
+    const keys = generateVapidKeys();
+
+    expect(Buffer.from(keys.publicKey, 'base64url')).toHaveLength(65);
+    expect(Buffer.from(keys.privateKey, 'base64url')).toHaveLength(32);
+  });
+});
+
+describe('validateVapidConfig', () => {
+  it('rejects subjects that are not mailto: or https:', () => {
+    expect(() => validateVapidConfig({ ...createConfig(), subject: 'ops@dropdeck.test' })).toThrow(
+      /subject/
+    );
+  });
+
+  it('rejects truncated keys', () => {
+    expect(() => validateVapidConfig({ ...createConfig(), privateKey: 'c2hvcnQ' })).toThrow(
+      /private key/
+    );
+  });
+});
+
+describe('createVapidToken', () => {
+  it('signs a token the public key verifies', () => {
+    const config = createConfig();
+
+    const token = createVapidToken('https://push.example.com', config);
+
+    expect(verifyToken(token, config.publicKey)).toBe(true);
+    expect(verifyToken(token, createConfig().publicKey)).toBe(false);
+  });
+
+  it('sets the audience, subject and expiry', () => {
+    const now = new Date('2025-01-01T00:00:00Z');
+
+    const claims = decodeClaims(
+      createVapidToken('https://push.example.com', createConfig(), 60 * 60, now)
+    );
+
+    expect(claims).toEqual({
+      aud: 'https://push.example.com',
+      sub: 'mailto:ops@dropdeck.test',
+      exp: now.getTime() / 1000 + 60 * 60,
+    });
+  });
+
+  it('caps the expiry at 24 hours', () => {
+    const now = new Date('2025-01-01T00:00:00Z');
+
+    const claims = decodeClaims(
+      createVapidToken('https://push.example.com', createConfig(), 7 * 24 * 60 * 60, now)
+    );
+
+    expect(claims.exp).toBe(now.getTime() / 1000 + 24 * 60 * 60);
+  });
+});
+
+describe('createVapidAuthHeader', () => {
+  it('scopes the token to the endpoint origin', () => {
+    const config = createConfig();
+
+    const header = createVapidAuthHeader('https://push.example.com/send/abc123', config);
+    const [, token, key] = header.match(/^vapid t=([^,]+), k=(.+)$/) ?? [];
+
+    expect(key).toBe(config.publicKey);
+    expect(decodeClaims(token ?? '').aud).toBe('https://push.example.com');
+  });
+});
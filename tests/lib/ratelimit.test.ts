@@ -0,0 +1,79 @@
+/**
+ * Rate limiter tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MemoryRateLimiter, createRateLimiter, getRateLimitHeaders } from '@/lib/ratelimit';
+
+describe('MemoryRateLimiter', () => {
+  it('allows requests up to the limit and refuses the rest', async () => {
+    const limiter = new MemoryRateLimiter({ requests: 2, windowSeconds: 60, now: () => 1_000 });
+
+    expect(await limiter.limit('user-1')).toEqual({
+      success: true,
+      limit: 2,
+      remaining: 1,
+      reset: 61_000,
+    });
+    expect((await limiter.limit('user-1')).success).toBe(true);
+    expect(await limiter.limit('user-1')).toEqual({
+      success: false,
+      limit: 2,
+      remaining: 0,
+      reset: 61_000,
+    });
+  });
+
+  it('counts each identifier separately', async () => {
+    const limiter = new MemoryRateLimiter({ requests: 1, windowSeconds: 60, now: () => 1_000 });
+
+    expect((await limiter.limit('user-1')).success).toBe(true);
+    expect((await limiter.limit('user-2')).success).toBe(true);
+    expect((await limiter.limit('user-1')).success).toBe(false);
+  });
+
+  it('frees up requests as they leave the window', async () => {
+    let now = 0;
+    const limiter = new MemoryRateLimiter({ requests: 2, windowSeconds: 60, now: () => now });
+
+    await limiter.limit('user-1');
+    now = 30_000;
+    await limiter.limit('user-1');
+    expect((await limiter.limit('user-1')).success).toBe(false);
+
+    // The first request has left the window, the second has not
+    now = 60_001;
+    expect(await limiter.limit('user-1')).toMatchObject({ success: true, remaining: 0 });
+    expect((await limiter.limit('user-1')).success).toBe(false);
+  });
+
+  it('does not count refused requests', async () => {
+    let now = 0;
+    const limiter = new MemoryRateLimiter({ requests: 1, windowSeconds: 10, now: () => now });
+
+    await limiter.limit('user-1');
+    now = 5_000;
+    await limiter.limit('user-1');
+
+    now = 10_001;
+    expect((await limiter.limit('user-1')).success).toBe(true);
+  });
+});
+
+describe('createRateLimiter', () => {
+  it('falls back to memory when Redis is not configured', () => {
+    expect(createRateLimiter({ requests: 5, windowSeconds: 60, prefix: 'test' })).toBeInstanceOf(
+      MemoryRateLimiter
+    );
+  });
+});
+
+describe('getRateLimitHeaders', () => {
+  it('includes the seconds until the caller can retry', () => {
+    const headers = getRateLimitHeaders({ limit: 10, remaining: 0, reset: Date.now() + 4_500 });
+
+    expect(headers['X-RateLimit-Limit']).toBe('10');
+    expect(headers['X-RateLimit-Remaining']).toBe('0');
+    expect(headers['Retry-After']).toBe('5');
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Ably token and household relay tests
+ */
+
+import { afterAll, beforeEach, describe, it, expect, vi } from 'vitest';
+import { createMockDelivery } from '../../utils/fixtures';
+
+const { createTokenRequest, publish, channelsGet } = vi.hoisted(() => {
+  const publish = vi.fn(async () => undefined);
+  return {
+    createTokenRequest: vi.fn(async (params: unknown) => params),
+    publish,
+    channelsGet: vi.fn(() => ({ publish })),
+  };
+});
+
+vi.mock('ably', () => ({
+  default: {
+    Rest: class {
+      auth = { createTokenRequest };
+      channels = { get: channelsGet };
+    },
+  },
+}));
+
+vi.mock('@/lib/services/households', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/services/households')>()),
+  getHouseholdPeers: vi.fn(async () => [
+    { householdId: 'house-1', userId: 'user-1', name: 'Sam', role: 'admin', color: '#f00' },
+    { householdId: 'house-1', userId: 'user-2', name: 'Alex', role: 'member', color: '#0f0' },
+  ]),
+}));
+
+vi.stubEnv('ABLY_API_KEY', 'app.key:secret');
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+const { generateAblyToken } = await import('@/lib/realtime/ably');
+const { publishDeliveryUpdate } = await import('@/lib/realtime/pubsub');
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('generateAblyToken', () => {
+  it('grants the household channel but not other members\' user channels', async () => {
+    await generateAblyToken('user-1', {}, 'house-1');
+
+    const { capability } = createTokenRequest.mock.calls[0]?.[0] as {
+      capability: Record<string, string[]>;
+    };
+    expect(capability['household:house-1:deliveries']).toEqual(['subscribe']);
+    expect(capability['user:user-1:*']).toBeDefined();
+    expect(Object.keys(capability).some((channel) => channel.startsWith('user:user-2'))).toBe(
+      false
+    );
+  });
+});
+
+describe('publishDeliveryUpdate', () => {
+  it('relays a copy without raw platform data to the household channel', async () => {
+    const delivery = createMockDelivery();
+    delivery.meta.rawData = { account: 'private' };
+
+    await publishDeliveryUpdate('user-1', {
+      deliveryId: delivery.id,
+      platform: delivery.platform,
+      status: delivery.status,
+      statusLabel: delivery.statusLabel,
+      delivery,
+    });
+
+    const channels = channelsGet.mock.calls.map((call) => (call as unknown[])[0]);
+    expect(channels).toEqual(['user:user-1:deliveries', 'household:house-1:deliveries']);
+
+    const shared = (publish.mock.calls[1] as unknown[])[1] as {
+      delivery: typeof delivery;
+    };
+    expect(shared.delivery.meta).not.toHaveProperty('rawData');
+    expect(shared.delivery.owner).toMatchObject({ userId: 'user-1', name: 'Sam' });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Pub/sub tests (in-process bus, Redis not configured)
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  publishDeliveryUpdate,
+  publishLocationUpdate,
+  subscribeToChannel,
+  subscribeToDeliveryUpdates,
+  subscribeToLocationUpdates,
+} from '@/lib/realtime/pubsub';
+import { createMockDelivery, createMockDriverLocation } from '../../utils/fixtures';
+
+describe('subscribeToChannel', () => {
+  it('receives messages published on the same channel', async () => {
+    const handler = vi.fn();
+    const unsubscribe = await subscribeToChannel('user:user-1:deliveries', handler);
+
+    await publishDeliveryUpdate('user-1', {
+      deliveryId: 'd-1',
+      platform: 'doordash',
+      status: 'preparing',
+      statusLabel: 'Preparing',
+    });
+    unsubscribe();
+
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'delivery_update',
+        payload: expect.objectContaining({ deliveryId: 'd-1' }),
+      })
+    );
+  });
+
+  it('stops receiving messages after unsubscribing', async () => {
+    const handler = vi.fn();
+    const unsubscribe = await subscribeToChannel('user:user-1:deliveries', handler);
+    unsubscribe();
+
+    await publishDeliveryUpdate('user-1', {
+      deliveryId: 'd-1',
+      platform: 'doordash',
+      status: 'preparing',
+      statusLabel: 'Preparing',
+    });
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe('subscribeToDeliveryUpdates', () => {
+  it('only receives updates for the subscribed user', async () => {
+    const handler = vi.fn();
+    const unsubscribe = await subscribeToDeliveryUpdates('user-1', handler);
+    const delivery = createMockDelivery();
+
+    await publishDeliveryUpdate('user-2', {
+      deliveryId: 'other',
+      platform: delivery.platform,
+      status: delivery.status,
+      statusLabel: delivery.statusLabel,
+    });
+    await publishDeliveryUpdate('user-1', {
+      deliveryId: delivery.id,
+      platform: delivery.platform,
+      status: delivery.status,
+      statusLabel: delivery.statusLabel,
+      delivery,
+    });
+    unsubscribe();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0]?.[0].delivery).toEqual(delivery);
+  });
+
+  it('turns delivery date strings from Redis back into Dates', async () => {
+    const handler = vi.fn();
+    const unsubscribe = await subscribeToDeliveryUpdates('user-1', handler);
+    const delivery = createMockDelivery({
+      timestamps: { ordered: new Date('2026-01-15T12:00:00Z') },
+    });
+
+    // What a JSON round trip through Redis leaves of the delivery
+    await publishDeliveryUpdate('user-1', {
+      deliveryId: delivery.id,
+      platform: delivery.platform,
+      status: delivery.status,
+      statusLabel: delivery.statusLabel,
+      delivery: JSON.parse(JSON.stringify(delivery)),
+    });
+    unsubscribe();
+
+    const received = handler.mock.calls[0]?.[0].delivery;
+    expect(received).toEqual(delivery);
+    expect(received.eta.estimatedArrival).toBeInstanceOf(Date);
+    expect(received.statusUpdatedAt).toBeInstanceOf(Date);
+    expect(received.timestamps.ordered).toBeInstanceOf(Date);
+  });
+
+  it('ignores location updates on the user channel', async () => {
+    const handler = vi.fn();
+    const unsubscribe = await subscribeToDeliveryUpdates('user-1', handler);
+
+    await publishLocationUpdate('user-1', 'd-1', {
+      deliveryId: 'd-1',
+      platform: 'doordash',
+      location: createMockDriverLocation(),
+    });
+    unsubscribe();
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe('subscribeToLocationUpdates', () => {
+  it('receives driver locations for the delivery', async () => {
+    const handler = vi.fn();
+    const unsubscribe = await subscribeToLocationUpdates('d-1', handler);
+    const location = createMockDriverLocation();
+
+    await publishLocationUpdate('user-1', 'd-2', {
+      deliveryId: 'd-2',
+      platform: 'doordash',
+      location: createMockDriverLocation(),
+    });
+    await publishLocationUpdate('user-1', 'd-1', {
+      deliveryId: 'd-1',
+      platform: 'doordash',
+      location,
+    });
+    unsubscribe();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0]?.[0].location).toMatchObject({
+      lat: location.lat,
+      lng: location.lng,
+    });
+    expect(handler.mock.calls[0]?.[0].location.timestamp).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Admin service tests
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import type { Database } from '@/lib/db';
+import {
+  createInviteCodes,
+  fillDailySeries,
+  generateInviteCode,
+  getConnectionHealth,
+} from '@/lib/services/admin';
+
+/**
+ * A database that records inserts and returns an id for each row
+ */
+function createInsertRecorder() {
+  const inserts: unknown[] = [];
+  const database = {
+    insert: vi.fn(() => ({
+      values: vi.fn((values: unknown) => {
+        inserts.push(values);
+        const rows = Array.isArray(values) ? values : [values];
+        return Object.assign(Promise.resolve(), {
+          returning: vi.fn(async () =>
+            rows.map((row, index) => ({ id: `id-${index}`, code: (row as { code: string }).code }))
+          ),
+        });
+      }),
+    })),
+  } as unknown as Database;
+  return { database, inserts };
+}
+
+describe('generateInviteCode', () => {
+  it('uses only unambiguous characters', () => {
+    for (let i = 0; i < 50; i++) {
+      expect(generateInviteCode()).toMatch(/^[A-HJ-NP-Z2-9]{8}$/);
+    }
+  });
+
+  it('generates codes of the given length', () => {
+    expect(generateInviteCode(12)).toHaveLength(12);
+  });
+});
+
+describe('fillDailySeries', () => {
+  it('returns one entry per day, ending today, with missing days as zero', () => {
+    const series = fillDailySeries(
+      [
+        { day: '2026-03-05', count: 2 },
+        { day: '2026-03-07', count: 1 },
+      ],
+      4,
+      new Date('2026-03-07T18:30:00Z')
+    );
+
+    expect(series).toEqual([
+      { day: '2026-03-04', count: 0 },
+      { day: '2026-03-05', count: 2 },
+      { day: '2026-03-06', count: 0 },
+      { day: '2026-03-07', count: 1 },
+    ]);
+  });
+
+  it('crosses month boundaries and ignores days outside the range', () => {
+    const series = fillDailySeries(
+      [{ day: '2026-02-20', count: 9 }],
+      3,
+      new Date('2026-03-01T00:00:00Z')
+    );
+
+    expect(series.map((day) => day.day)).toEqual(['2026-02-27', '2026-02-28', '2026-03-01']);
+    expect(series.every((day) => day.count === 0)).toBe(true);
+  });
+});
+
+describe('createInviteCodes', () => {
+  it('inserts distinct codes and writes the batch to the audit log', async () => {
+    const { database, inserts } = createInsertRecorder();
+
+    const result = await createInviteCodes(
+      'admin-1',
+      { count: 3, maxRedemptions: 5, expiresInDays: 7, note: 'Launch list' },
+      database
+    );
+
+    const [codes, audit] = inserts as [
+      Array<{ code: string; maxRedemptions: number }>,
+      Record<string, unknown>,
+    ];
+    expect(new Set(codes.map((row) => row.code)).size).toBe(3);
+    expect(codes.every((row) => row.maxRedemptions === 5)).toBe(true);
+    expect(result.codes).toHaveLength(3);
+    expect(result.expiresAt).toBeInstanceOf(Date);
+    expect(audit).toMatchObject({
+      actorId: 'admin-1',
+      action: 'invite_codes.create',
+      targetType: 'invite_code',
+      details: { ids: ['id-0', 'id-1', 'id-2'], maxRedemptions: 5, note: 'Launch list' },
+    });
+  });
+});
+
+describe('getConnectionHealth', () => {
+  it('reports error counts without exposing credentials', async () => {
+    const findMany = vi.fn().mockResolvedValue([
+      {
+        platform: 'instacart',
+        status: 'error',
+        lastSyncAt: null,
+        expiresAt: null,
+        updatedAt: new Date('2026-03-01T00:00:00Z'),
+        metadata: { errorCount: 4, lastError: 'Timed out', accountEmail: 'a@example.com' },
+      },
+    ]);
+    const database = {
+      query: { platformConnections: { findMany } },
+    } as unknown as Database;
+
+    const [health] = await getConnectionHealth(database, 'user-1');
+
+    expect(health).toMatchObject({ platform: 'instacart', errorCount: 4, lastError: 'Timed out' });
+    expect(health).not.toHaveProperty('metadata');
+    expect(findMany.mock.calls[0]?.[0].columns).not.toHaveProperty('accessTokenEncrypted');
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Connection manager tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { PlatformAdapter } from '@/lib/adapters/base';
+import {
+  PlatformAuthError,
+  PlatformRateLimitError,
+  PlatformUnavailableError,
+} from '@/lib/adapters/errors';
+import type { TokenSet } from '@/lib/adapters/types';
+import { decryptToken, encryptToken } from '@/lib/encryption/tokens';
+import type { ConnectionStatusPayload } from '@/lib/realtime/pubsub';
+import {
+  ConnectionManager,
+  type ConnectionStore,
+  getFailureStatus,
+  type ManagedConnection,
+  needsRefresh,
+  toAdapterConnection,
+} from '@/lib/services/connections';
+import type { SecurityEventInput } from '@/lib/services/security-log';
+
+const MINUTE = 60 * 1000;
+
+function createConnection(overrides: Partial<ManagedConnection> = {}): ManagedConnection {
+  return {
+    connectionId: 'conn-1',
+    userId: 'user-1',
+    platform: 'instacart',
+    accessTokenEncrypted: encryptToken('old-access'),
+    refreshTokenEncrypted: encryptToken('old-refresh'),
+    sessionDataEncrypted: null,
+    expiresAt: new Date(Date.now() + 2 * MINUTE),
+    status: 'connected',
+    metadata: null,
+    ...overrides,
+  };
+}
+
+function createStore() {
+  const store: ConnectionStore = {
+    saveTokens: vi.fn().mockResolvedValue(undefined),
+    saveHealth: vi.fn().mockResolvedValue(undefined),
+  };
+  return store;
+}
+
+function createPublish() {
+  return vi.fn<(userId: string, payload: ConnectionStatusPayload) => Promise<boolean>>();
+}
+
+describe('needsRefresh', () => {
+  it('refreshes tokens expiring inside the window', () => {
+    expect(needsRefresh(createConnection(), 5 * 60)).toBe(true);
+  });
+
+  it('leaves tokens with plenty of time alone', () => {
+    const connection = createConnection({ expiresAt: new Date(Date.now() + 60 * MINUTE) });
+    expect(needsRefresh(connection, 5 * 60)).toBe(false);
+  });
+
+  it('skips connections without a refresh token or expiry', () => {
+    expect(needsRefresh(createConnection({ refreshTokenEncrypted: null }))).toBe(false);
+    expect(needsRefresh(createConnection({ expiresAt: null }))).toBe(false);
+  });
+});
+
+describe('toAdapterConnection', () => {
+  it('decrypts the access token and linked session', () => {
+    const connection = toAdapterConnection(
+      createConnection({ platform: 'costco', sessionDataEncrypted: encryptToken('{"cookies":{}}') })
+    );
+
+    expect(connection.accessToken).toBe('old-access');
+    expect(connection.refreshToken).toBe('old-refresh');
+    expect(connection.sessionData).toBe('{"cookies":{}}');
+  });
+
+  it('allows connections backed only by a linked session', () => {
+    const connection = toAdapterConnection(
+      createConnection({
+        accessTokenEncrypted: null,
+        refreshTokenEncrypted: null,
+        sessionDataEncrypted: encryptToken('{}'),
+      })
+    );
+
+    expect(connection.accessToken).toBe('');
+    expect(connection.sessionData).toBe('{}');
+  });
+
+  it('rejects connections without credentials', () => {
+    const connection = createConnection({ accessTokenEncrypted: null, sessionDataEncrypted: null });
+    expect(() => toAdapterConnection(connection)).toThrow(PlatformAuthError);
+  });
+});
+
+describe('getFailureStatus', () => {
+  const thresholds = { maxAuthFailures: 3, maxFailures: 10 };
+
+  it('expires after repeated auth failures', () => {
+    const error = new PlatformAuthError('instacart');
+    expect(getFailureStatus('connected', error, 2, thresholds)).toBe('connected');
+    expect(getFailureStatus('connected', error, 3, thresholds)).toBe('expired');
+  });
+
+  it('errors after repeated failures of any kind', () => {
+    const error = new PlatformUnavailableError('instacart');
+    expect(getFailureStatus('connected', error, 9, thresholds)).toBe('connected');
+    expect(getFailureStatus('connected', error, 10, thresholds)).toBe('error');
+  });
+});
+
+describe('ConnectionManager', () => {
+  let store: ConnectionStore;
+  let refreshToken: ReturnType<typeof vi.fn<(token: string) => Promise<TokenSet>>>;
+  let publisher: { publishConnectionStatus: ReturnType<typeof createPublish> };
+  let recordSecurityEvent: ReturnType<typeof vi.fn<(event: SecurityEventInput) => Promise<void>>>;
+  let manager: ConnectionManager;
+
+  beforeEach(() => {
+    store = createStore();
+    refreshToken = vi.fn<(token: string) => Promise<TokenSet>>().mockResolvedValue({
+      accessToken: 'new-access',
+      refreshToken: 'new-refresh',
+      expiresAt: new Date(Date.now() + 60 * MINUTE),
+    });
+    publisher = { publishConnectionStatus: createPublish().mockResolvedValue(true) };
+    recordSecurityEvent = vi
+      .fn<(event: SecurityEventInput) => Promise<void>>()
+      .mockResolvedValue(undefined);
+    manager = new ConnectionManager({
+      store,
+      getAdapter: async () => ({ refreshToken }) as unknown as PlatformAdapter,
+      publisher,
+      recordSecurityEvent,
+      refreshWindowSeconds: 5 * 60,
+    });
+  });
+
+  describe('ensureFresh', () => {
+    it('refreshes and re-encrypts tokens ahead of expiry', async () => {
+      const connection = await manager.ensureFresh(createConnection());
+
+      expect(refreshToken).toHaveBeenCalledWith('old-refresh');
+      expect(decryptToken(connection.accessTokenEncrypted!)).toBe('new-access');
+      expect(decryptToken(connection.refreshTokenEncrypted!)).toBe('new-refresh');
+      expect(store.saveTokens).toHaveBeenCalledWith(
+        'conn-1',
+        expect.objectContaining({ expiresAt: connection.expiresAt })
+      );
+    });
+
+    it('records the refresh in the security log', async () => {
+      await manager.ensureFresh(createConnection());
+
+      expect(recordSecurityEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-1', event: 'token_refreshed' })
+      );
+    });
+
+    it('keeps the existing refresh token when the platform does not rotate it', async () => {
+      refreshToken.mockResolvedValueOnce({ accessToken: 'new-access' });
+      const original = createConnection();
+
+      const connection = await manager.ensureFresh(original);
+
+      expect(connection.refreshTokenEncrypted).toBe(original.refreshTokenEncrypted);
+    });
+
+    it('does nothing when the token is not close to expiry', async () => {
+      const original = createConnection({ expiresAt: new Date(Date.now() + 60 * MINUTE) });
+
+      expect(await manager.ensureFresh(original)).toBe(original);
+      expect(refreshToken).not.toHaveBeenCalled();
+    });
+
+    it('refreshes early when forced', async () => {
+      await manager.ensureFresh(createConnection({ expiresAt: null }), true);
+
+      expect(refreshToken).toHaveBeenCalled();
+    });
+
+    it('expires the connection when the refresh token is rejected', async () => {
+      refreshToken.mockRejectedValueOnce(new PlatformAuthError('instacart', 'invalid_grant'));
+
+      const connection = await manager.ensureFresh(createConnection());
+
+      expect(connection.status).toBe('expired');
+      expect(connection.metadata).toMatchObject({ errorCount: 1, lastError: 'invalid_grant' });
+      expect(recordSecurityEvent).not.toHaveBeenCalled();
+      expect(publisher.publishConnectionStatus).toHaveBeenCalledWith(
+        'user-1',
+        expect.objectContaining({ platform: 'instacart', status: 'expired' })
+      );
+    });
+
+    it('stays connected when the refresh fails for another reason', async () => {
+      refreshToken.mockRejectedValueOnce(new PlatformUnavailableError('instacart'));
+
+      const connection = await manager.ensureFresh(createConnection());
+
+      expect(connection.status).toBe('connected');
+      expect(connection.metadata?.errorCount).toBe(1);
+      expect(publisher.publishConnectionStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refresh', () => {
+    it('throws when the refresh fails', async () => {
+      refreshToken.mockRejectedValueOnce(new PlatformAuthError('instacart'));
+
+      await expect(manager.refresh(createConnection())).rejects.toThrow(PlatformAuthError);
+    });
+  });
+
+  describe('recordFailure', () => {
+    it('moves to expired after repeated auth errors', async () => {
+      let connection = createConnection();
+
+      for (let i = 0; i < 3; i++) {
+        connection = await manager.recordFailure(connection, new PlatformAuthError('instacart'));
+      }
+
+      expect(connection.status).toBe('expired');
+      expect(store.saveHealth).toHaveBeenLastCalledWith('conn-1', {
+        status: 'expired',
+        metadata: expect.objectContaining({ errorCount: 3, lastError: 'Authentication failed' }),
+      });
+      expect(publisher.publishConnectionStatus).toHaveBeenCalledTimes(1);
+    });
+
+    it('ignores rate limits', async () => {
+      const original = createConnection();
+
+      const connection = await manager.recordFailure(
+        original,
+        new PlatformRateLimitError('instacart', 60)
+      );
+
+      expect(connection).toBe(original);
+      expect(store.saveHealth).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordSuccess', () => {
+    it('clears the error count and reconnects', async () => {
+      const connection = await manager.recordSuccess(
+        createConnection({ status: 'error', metadata: { errorCount: 12, lastError: 'down' } })
+      );
+
+      expect(connection.status).toBe('connected');
+      expect(connection.metadata).toMatchObject({ errorCount: 0, lastError: undefined });
+      expect(publisher.publishConnectionStatus).toHaveBeenCalledWith(
+        'user-1',
+        expect.objectContaining({ status: 'connected' })
+      );
+    });
+
+    it('skips the write for healthy connections', async () => {
+      await manager.recordSuccess(createConnection());
+
+      expect(store.saveHealth).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * Daily digest service tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { MailMessage, MailTransport } from '@/lib/email/types';
+import {
+  buildDailyDigest,
+  buildDigestSubject,
+  buildDigestTemplate,
+  type DigestHistoryEntry,
+  type DigestRecipient,
+  DigestService,
+  type DigestStore,
+  isDigestDue,
+  isLateDelivery,
+} from '@/lib/services/digest';
+import type { UnifiedDelivery } from '@/types/delivery';
+import { createMockDelivery } from '../../utils/fixtures';
+
+// 9:00 AM in New York
+const NOW = new Date('2026-10-19T13:00:00Z');
+const TIMEZONE = 'America/New_York';
+
+function createActive(arrival: Date, overrides: Partial<UnifiedDelivery> = {}): UnifiedDelivery {
+  const delivery = createMockDelivery({ platform: 'doordash', status: 'out_for_delivery' });
+  return {
+    ...delivery,
+    eta: {
+      ...delivery.eta,
+      estimatedArrival: arrival,
+      minutesRemaining: Math.round((arrival.getTime() - NOW.getTime()) / 60000),
+      confidence: 'medium',
+    },
+    order: { ...delivery.order, itemCount: 3 },
+    ...overrides,
+  };
+}
+
+function createFinished(overrides: Partial<DigestHistoryEntry> = {}): DigestHistoryEntry {
+  const deliveredAt = new Date('2026-10-18T18:00:00Z');
+  return {
+    delivery: createActive(deliveredAt, { platform: 'amazon', status: 'delivered' }),
+    finalStatus: 'delivered',
+    deliveredAt,
+    timeline: [],
+    ...overrides,
+  };
+}
+
+function createRecipient(overrides: Partial<DigestRecipient> = {}): DigestRecipient {
+  return {
+    userId: 'user-1',
+    email: 'user@example.com',
+    name: 'Sam',
+    timezone: TIMEZONE,
+    digestTime: '07:00',
+    lastSentAt: null,
+    enabledPlatforms: null,
+    ...overrides,
+  };
+}
+
+function createStore(data: {
+  recipients?: DigestRecipient[];
+  active?: UnifiedDelivery[];
+  finished?: DigestHistoryEntry[];
+}) {
+  return {
+    listRecipients: vi.fn(async () => data.recipients ?? []),
+    listActiveDeliveries: vi.fn(async () => data.active ?? []),
+    listFinished: vi.fn(async () => data.finished ?? []),
+    markSent: vi.fn(async () => {}),
+  } satisfies DigestStore;
+}
+
+function createTransport() {
+  const sent: MailMessage[] = [];
+  const transport: MailTransport = {
+    send: vi.fn(async (message: MailMessage) => {
+      sent.push(message);
+      return { success: true, messageId: '<test@dropdeck.test>' };
+    }),
+  };
+  return { transport, sent };
+}
+
+describe('isDigestDue', () => {
+  it('is due after the local send time', () => {
+    expect(isDigestDue(createRecipient({ digestTime: '07:00' }), NOW)).toBe(true);
+    expect(isDigestDue(createRecipient({ digestTime: '09:30' }), NOW)).toBe(false);
+  });
+
+  it('uses the recipient timezone', () => {
+    // 9:00 AM in New York is 6:00 AM in Los Angeles
+    const recipient = createRecipient({ timezone: 'America/Los_Angeles', digestTime: '07:00' });
+    expect(isDigestDue(recipient, NOW)).toBe(false);
+  });
+
+  it('skips the day once the send window has passed', () => {
+    expect(isDigestDue(createRecipient({ digestTime: '05:30' }), NOW)).toBe(false);
+  });
+
+  it('sends once per local day', () => {
+    const sentToday = new Date('2026-10-19T11:05:00Z');
+    const sentYesterday = new Date('2026-10-18T11:05:00Z');
+
+    expect(isDigestDue(createRecipient({ lastSentAt: sentToday }), NOW)).toBe(false);
+    expect(isDigestDue(createRecipient({ lastSentAt: sentYesterday }), NOW)).toBe(true);
+  });
+});
+
+describe('isLateDelivery', () => {
+  it('flags deliveries that arrived well after their ETA', () => {
+    const entry = createFinished();
+    const late = { ...entry, deliveredAt: new Date(entry.deliveredAt!.getTime() + 30 * 60000) };
+
+    expect(isLateDelivery(entry)).toBe(false);
+    expect(isLateDelivery(late)).toBe(true);
+  });
+
+  it('flags deliveries that were delayed along the way', () => {
+    const entry = createFinished({
+      timeline: [{ status: 'delayed', timestamp: new Date('2026-10-18T17:00:00Z') }],
+    });
+    expect(isLateDelivery(entry)).toBe(true);
+  });
+
+  it('never flags cancelled orders', () => {
+    expect(isLateDelivery(createFinished({ finalStatus: 'cancelled', deliveredAt: null }))).toBe(
+      false
+    );
+  });
+});
+
+describe('buildDailyDigest', () => {
+  it('splits active deliveries into today and upcoming', () => {
+    const digest = buildDailyDigest({
+      active: [
+        createActive(new Date('2026-10-21T16:00:00Z')),
+        createActive(new Date('2026-10-19T15:00:00Z')),
+      ],
+      finished: [],
+      now: NOW,
+      timezone: TIMEZONE,
+      enabledPlatforms: null,
+    });
+
+    expect(digest.dateLabel).toBe('Monday, October 19');
+    expect(digest.today).toHaveLength(1);
+    expect(digest.today[0]?.platformName).toBe('DoorDash');
+    expect(digest.today[0]?.itemCount).toBe(3);
+    expect(digest.today[0]?.expected).toMatch(/AM|PM/);
+    expect(digest.upcoming).toHaveLength(1);
+    expect(digest.upcoming[0]?.expected).toBe('Wednesday, Oct 21');
+  });
+
+  it('shows an ETA window for deliveries due today', () => {
+    const digest = buildDailyDigest({
+      active: [createActive(new Date('2026-10-19T15:00:00Z'), { driver: undefined })],
+      finished: [],
+      now: NOW,
+      timezone: TIMEZONE,
+      enabledPlatforms: null,
+    });
+
+    // Without driver tracking, medium confidence produces a range around 11:00 AM local time
+    expect(digest.today[0]?.expected).toMatch(/^\d{1,2}:\d{2} AM - \d{1,2}:\d{2} (AM|PM)$/);
+  });
+
+  it('lists yesterday’s finished deliveries with late flags', () => {
+    const delayed = createFinished({
+      timeline: [{ status: 'delayed', timestamp: new Date('2026-10-18T17:00:00Z') }],
+    });
+    const digest = buildDailyDigest({
+      active: [],
+      finished: [createFinished(), delayed],
+      now: NOW,
+      timezone: TIMEZONE,
+      enabledPlatforms: null,
+    });
+
+    expect(digest.yesterday).toHaveLength(2);
+    expect(digest.yesterday.map((entry) => entry.late)).toEqual([false, true]);
+    expect(digest.yesterday[0]?.statusLabel).toBe('Delivered');
+    expect(digest.yesterday[0]?.expected).toBe('2:00 PM');
+  });
+
+  it('leaves out platforms the user turned off', () => {
+    const digest = buildDailyDigest({
+      active: [createActive(new Date('2026-10-19T15:00:00Z'))],
+      finished: [createFinished()],
+      now: NOW,
+      timezone: TIMEZONE,
+      enabledPlatforms: ['amazon'],
+    });
+
+    expect(digest.today).toHaveLength(0);
+    expect(digest.yesterday).toHaveLength(1);
+  });
+});
+
+describe('buildDigestSubject', () => {
+  it('counts deliveries expected today', () => {
+    const digest = buildDailyDigest({
+      active: [
+        createActive(new Date('2026-10-19T15:00:00Z')),
+        createActive(new Date('2026-10-19T18:00:00Z')),
+      ],
+      finished: [],
+      now: NOW,
+      timezone: TIMEZONE,
+      enabledPlatforms: null,
+    });
+
+    expect(buildDigestSubject(digest)).toBe('2 deliveries expected today');
+    expect(buildDigestSubject({ ...digest, today: digest.today.slice(1) })).toBe(
+      '1 delivery expected today'
+    );
+    expect(buildDigestSubject({ ...digest, today: [] })).toBe(
+      'Your deliveries for Monday, October 19'
+    );
+  });
+});
+
+describe('buildDigestTemplate', () => {
+  it('summarizes late deliveries and links to the dashboard', () => {
+    const digest = buildDailyDigest({
+      active: [],
+      finished: [
+        createFinished({
+          timeline: [{ status: 'delayed', timestamp: new Date('2026-10-18T17:00:00Z') }],
+        }),
+      ],
+      now: NOW,
+      timezone: TIMEZONE,
+      enabledPlatforms: null,
+    });
+
+    const template = buildDigestTemplate(digest, {
+      name: 'Sam',
+      appUrl: 'https://dropdeck.test',
+    });
+
+    expect(template.blocks).toContainEqual({
+      type: 'paragraph',
+      text: '1 order finished, 1 late.',
+      muted: true,
+    });
+    expect(template.blocks.at(-1)).toEqual({
+      type: 'button',
+      text: 'Open DropDeck',
+      url: 'https://dropdeck.test/dashboard',
+    });
+  });
+});
+
+describe('DigestService', () => {
+  it('sends due digests as HTML and text and marks them sent', async () => {
+    const store = createStore({
+      recipients: [createRecipient(), createRecipient({ userId: 'user-2', digestTime: '10:00' })],
+      active: [createActive(new Date('2026-10-19T15:00:00Z'))],
+    });
+    const { transport, sent } = createTransport();
+    const service = new DigestService({ store, transport, from: 'DropDeck <digest@test>' });
+
+    const count = await service.sendDue(NOW);
+
+    expect(count).toBe(1);
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({
+      from: 'DropDeck <digest@test>',
+      to: 'user@example.com',
+      subject: '1 delivery expected today',
+    });
+    expect(sent[0]?.html).toContain('DoorDash');
+    expect(sent[0]?.text).toContain('DoorDash');
+    expect(store.markSent).toHaveBeenCalledWith('user-1', NOW);
+  });
+
+  it('asks for yesterday’s history in the recipient timezone', async () => {
+    const store = createStore({});
+    const { transport } = createTransport();
+    const service = new DigestService({ store, transport });
+
+    await service.sendDigest(createRecipient(), NOW);
+
+    expect(store.listFinished).toHaveBeenCalledWith(
+      'user-1',
+      new Date('2026-10-18T04:00:00Z'),
+      new Date('2026-10-19T04:00:00Z')
+    );
+  });
+
+  it('skips empty digests but still counts the day as sent', async () => {
+    const store = createStore({});
+    const { transport, sent } = createTransport();
+    const service = new DigestService({ store, transport });
+
+    const result = await service.sendDigest(createRecipient(), NOW);
+
+    expect(result).toBeNull();
+    expect(sent).toHaveLength(0);
+    expect(store.markSent).toHaveBeenCalledWith('user-1', NOW);
+  });
+
+  it('retries on the next sweep when sending fails', async () => {
+    const store = createStore({
+      recipients: [createRecipient()],
+      active: [createActive(new Date('2026-10-19T15:00:00Z'))],
+    });
+    const transport: MailTransport = {
+      send: vi.fn(async () => ({ success: false, responseCode: 451, error: 'Try again later' })),
+    };
+    const service = new DigestService({ store, transport });
+
+    expect(await service.sendDue(NOW)).toBe(0);
+    expect(store.markSent).not.toHaveBeenCalled();
+  });
+
+  it('does nothing without a transport', async () => {
+    const store = createStore({ recipients: [createRecipient()] });
+    const service = new DigestService({ store, transport: null });
+
+    expect(await service.sendDue(NOW)).toBe(0);
+    expect(store.listRecipients).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Email import service tests
+ */
+
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, it, expect, vi } from 'vitest';
+import { type EmailImportStore, EmailImportService } from '@/lib/services/email-import';
+import type { UnifiedDelivery } from '@/types/delivery';
+import { createMockDelivery } from '../../utils/fixtures';
+
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, '../email/fixtures', name), 'utf8');
+}
+
+function createStore(cached: UnifiedDelivery | null = null): EmailImportStore {
+  return {
+    hasEmail: vi.fn(async () => false),
+    recordEmail: vi.fn(async () => {}),
+    getCachedDelivery: vi.fn(async () => cached),
+    isArchived: vi.fn(async () => false),
+    saveDelivery: vi.fn(async (_userId, delivery) => [
+      { delivery, previous: cached, timeline: [] },
+    ]),
+    discardEmailDelivery: vi.fn(async () => {}),
+    followPackage: vi.fn(async () => {}),
+  };
+}
+
+function createService(store: EmailImportStore, carrierConfigured = true) {
+  const deps = {
+    publishDeliveryUpdate: vi.fn(async () => true),
+    lifecycle: { processChanges: vi.fn(async () => []) },
+    notifier: {
+      sendDeliveryUpdate: vi.fn(async () => true),
+      sendEtaSlipped: vi.fn(async () => false),
+    },
+    webhooks: { dispatch: vi.fn(async () => 0) },
+  };
+  const service = new EmailImportService({
+    store,
+    isCarrierConfigured: async () => carrierConfigured,
+    ...deps,
+  });
+  return { service, ...deps };
+}
+
+const now = new Date('2026-10-17T14:00:00Z');
+
+describe('EmailImportService', () => {
+  it('imports an order confirmation and logs the email', async () => {
+    const store = createStore();
+    const { service, publishDeliveryUpdate, lifecycle } = createService(store);
+
+    const result = await service.importEmail('user-1', fixture('walmart-confirmation.eml'), now);
+
+    expect(result.result).toBe('imported');
+    expect(store.saveDelivery).toHaveBeenCalledWith(
+      'user-1',
+      expect.objectContaining({ id: 'wa_2000123-45678901', meta: expect.any(Object) }),
+      expect.any(Date)
+    );
+    expect(publishDeliveryUpdate).toHaveBeenCalledWith(
+      'user-1',
+      expect.objectContaining({ deliveryId: 'wa_2000123-45678901', status: 'preparing' })
+    );
+    expect(lifecycle.processChanges).toHaveBeenCalled();
+    expect(store.recordEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        messageId: 'order-2000123-45678901@walmart.com',
+        parser: 'walmart',
+        result: 'imported',
+        platform: 'walmart',
+        externalOrderId: '2000123-45678901',
+      })
+    );
+  });
+
+  it('keeps imported deliveries until a day after the expected arrival', async () => {
+    const store = createStore();
+    const { service } = createService(store);
+
+    await service.importEmail('user-1', fixture('walmart-confirmation.eml'), now);
+
+    const expiresAt = vi.mocked(store.saveDelivery).mock.calls[0]?.[2];
+    expect(expiresAt).toEqual(new Date(2026, 9, 21, 15, 0));
+  });
+
+  it('leaves orders an adapter already tracks alone', async () => {
+    const tracked = createMockDelivery({
+      platform: 'walmart',
+      externalOrderId: '2000123-45678901',
+    });
+    const store = createStore(tracked);
+    const { service, publishDeliveryUpdate } = createService(store);
+
+    const result = await service.importEmail('user-1', fixture('walmart-confirmation.eml'), now);
+
+    expect(result).toEqual({ result: 'duplicate', parser: 'walmart', delivery: null });
+    expect(store.saveDelivery).not.toHaveBeenCalled();
+    expect(publishDeliveryUpdate).not.toHaveBeenCalled();
+  });
+
+  it('updates deliveries imported from earlier emails and notifies on status changes', async () => {
+    const earlier = createMockDelivery({
+      platform: 'totalwine',
+      externalOrderId: 'c77ff497a1',
+      status: 'preparing',
+      statusUpdatedAt: new Date('2026-10-18T12:00:00Z'),
+      meta: { lastFetchedAt: now, fetchMethod: 'email', adapterId: 'totalwine' },
+    });
+    const store = createStore(earlier);
+    const { service, notifier } = createService(store);
+
+    const result = await service.importEmail('user-1', fixture('totalwine-on-the-way.eml'), now);
+
+    expect(result.result).toBe('updated');
+    expect(result.delivery?.status).toBe('out_for_delivery');
+    expect(notifier.sendDeliveryUpdate).toHaveBeenCalledWith(
+      'user-1',
+      expect.objectContaining({ status: 'out_for_delivery' }),
+      'preparing'
+    );
+  });
+
+  it('follows shipped parcels and drops the retailer-level delivery', async () => {
+    const store = createStore();
+    const { service } = createService(store);
+
+    const result = await service.importEmail('user-1', fixture('walmart-shipped.eml'), now);
+
+    expect(result.delivery?.id).toBe('up_1Z999AA10123456784');
+    expect(store.discardEmailDelivery).toHaveBeenCalledWith(
+      'user-1',
+      'walmart',
+      '2000456-11112222'
+    );
+    expect(store.followPackage).toHaveBeenCalledWith(
+      'user-1',
+      'ups',
+      '1Z999AA10123456784',
+      'Walmart order 2000456-11112222'
+    );
+  });
+
+  it('does not follow parcels with carriers that are not configured', async () => {
+    const store = createStore();
+    const { service } = createService(store, false);
+
+    const result = await service.importEmail('user-1', fixture('shop-shipped.eml'), now);
+
+    expect(result.result).toBe('imported');
+    expect(store.followPackage).not.toHaveBeenCalled();
+  });
+
+  it('skips messages it has already imported', async () => {
+    const store = createStore();
+    vi.mocked(store.hasEmail).mockResolvedValue(true);
+    const { service } = createService(store);
+
+    const result = await service.importEmail('user-1', fixture('walmart-confirmation.eml'), now);
+
+    expect(result.result).toBe('processed');
+    expect(store.recordEmail).not.toHaveBeenCalled();
+  });
+
+  it('records emails no parser understands', async () => {
+    const store = createStore();
+    const { service } = createService(store);
+
+    const result = await service.importEmail('user-1', fixture('newsletter.eml'), now);
+
+    expect(result).toEqual({ result: 'unrecognized', parser: null, delivery: null });
+    expect(store.recordEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ result: 'unrecognized', parser: null, platform: null })
+    );
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * ETA drift tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  appendEtaRevision,
+  getEtaSlip,
+  hasEtaSlipped,
+  normalizeEtaRevisions,
+} from '@/lib/services/eta-drift';
+import type { EtaRevision } from '@/types/delivery';
+import { createMockDelivery } from '../../utils/fixtures';
+
+const MINUTE = 60 * 1000;
+const promised = new Date('2026-10-19T18:00:00Z');
+const observedAt = new Date('2026-10-19T17:00:00Z');
+
+function createDelivery(slipMinutes: number, revisions: EtaRevision[] = []) {
+  return createMockDelivery({
+    status: 'preparing',
+    eta: {
+      estimatedArrival: new Date(promised.getTime() + slipMinutes * MINUTE),
+      minutesRemaining: 60 + slipMinutes,
+      confidence: 'high',
+      revisions,
+    },
+  });
+}
+
+function createRevisions(slipMinutes: number[]): EtaRevision[] {
+  return slipMinutes.map((slip, i) => ({
+    estimatedArrival: new Date(promised.getTime() + slip * MINUTE),
+    observedAt: new Date(observedAt.getTime() + i * 5 * MINUTE),
+  }));
+}
+
+describe('normalizeEtaRevisions', () => {
+  it('revives dates serialized to JSON', () => {
+    const revisions = JSON.parse(JSON.stringify(createRevisions([0, 10])));
+
+    expect(normalizeEtaRevisions(revisions)).toEqual(createRevisions([0, 10]));
+  });
+
+  it('drops revisions with unreadable dates', () => {
+    const revisions = [{ estimatedArrival: 'soon', observedAt }] as unknown as EtaRevision[];
+
+    expect(normalizeEtaRevisions(revisions)).toEqual([]);
+  });
+});
+
+describe('appendEtaRevision', () => {
+  it('records the first promise', () => {
+    expect(appendEtaRevision(undefined, createDelivery(0), observedAt)).toEqual([
+      { estimatedArrival: promised, observedAt },
+    ]);
+  });
+
+  it('records a changed ETA', () => {
+    const revisions = appendEtaRevision(createRevisions([0]), createDelivery(10), observedAt);
+
+    expect(revisions).toHaveLength(2);
+    expect(revisions[1]!.estimatedArrival).toEqual(new Date(promised.getTime() + 10 * MINUTE));
+  });
+
+  it('ignores changes under a minute', () => {
+    const delivery = createDelivery(0);
+    delivery.eta.estimatedArrival = new Date(promised.getTime() + 30 * 1000);
+
+    expect(appendEtaRevision(createRevisions([0]), delivery, observedAt)).toHaveLength(1);
+  });
+
+  it('stops recording once the delivery is final', () => {
+    const delivery = { ...createDelivery(10), status: 'delivered' as const };
+
+    expect(appendEtaRevision(createRevisions([0]), delivery, observedAt)).toHaveLength(1);
+  });
+
+  it('keeps the first promise when trimming', () => {
+    const revisions = createRevisions(Array.from({ length: 50 }, (_, i) => i * 2));
+
+    const next = appendEtaRevision(revisions, createDelivery(200), observedAt);
+
+    expect(next).toHaveLength(50);
+    expect(next[0]!.estimatedArrival).toEqual(promised);
+    expect(next[1]!.estimatedArrival).toEqual(new Date(promised.getTime() + 4 * MINUTE));
+  });
+});
+
+describe('getEtaSlip', () => {
+  it('measures minutes since the first promise', () => {
+    expect(getEtaSlip(createDelivery(25, createRevisions([0, 10, 25])))).toBe(25);
+    expect(getEtaSlip(createDelivery(-5, createRevisions([0, -5])))).toBe(-5);
+  });
+
+  it('is zero without revisions', () => {
+    expect(getEtaSlip(createDelivery(25))).toBe(0);
+  });
+});
+
+describe('hasEtaSlipped', () => {
+  it('fires when the slip crosses the threshold', () => {
+    const previous = createDelivery(10, createRevisions([0, 10]));
+    const delivery = createDelivery(20, createRevisions([0, 10, 20]));
+
+    expect(hasEtaSlipped(previous, delivery, 15)).toBe(true);
+  });
+
+  it('fires again only at the next multiple', () => {
+    const previous = createDelivery(20, createRevisions([0, 20]));
+
+    expect(hasEtaSlipped(previous, createDelivery(25, createRevisions([0, 20, 25])), 15)).toBe(
+      false
+    );
+    expect(hasEtaSlipped(previous, createDelivery(31, createRevisions([0, 20, 31])), 15)).toBe(
+      true
+    );
+  });
+
+  it('does not fire when the ETA moves earlier', () => {
+    const previous = createDelivery(20, createRevisions([0, 20]));
+    const delivery = createDelivery(5, createRevisions([0, 20, 5]));
+
+    expect(hasEtaSlipped(previous, delivery, 15)).toBe(false);
+  });
+
+  it('does not fire for finished deliveries', () => {
+    const previous = createDelivery(0, createRevisions([0]));
+    const delivery = {
+      ...createDelivery(30, createRevisions([0, 30])),
+      status: 'cancelled' as const,
+    };
+
+    expect(hasEtaSlipped(previous, delivery, 15)).toBe(false);
+  });
+});
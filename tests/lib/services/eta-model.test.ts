@@ -0,0 +1,201 @@
+/**
+ * ETA model tests
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  blendEtaStatistics,
+  buildEtaModel,
+  buildEtaStatistics,
+  type EtaHistoryRow,
+  type EtaModelStore,
+  EtaModelService,
+  type EtaSample,
+  evaluateEtaModel,
+  summarizeEtaSamples,
+  toEtaSample,
+} from '@/lib/services/eta-model';
+import type { EtaStatistics } from '@/types/eta';
+
+const MINUTE = 60 * 1000;
+
+function createRow(overrides: Partial<EtaHistoryRow> = {}, lateMinutes = 0): EtaHistoryRow {
+  const promisedArrival = overrides.promisedArrival ?? new Date('2026-03-06T18:00:00Z');
+  return {
+    userId: 'user-1',
+    platform: 'instacart',
+    promisedArrival,
+    deliveredAt: new Date(promisedArrival.getTime() + lateMinutes * MINUTE),
+    timezone: 'UTC',
+    ...overrides,
+  };
+}
+
+function createSamples(lateness: number[], overrides: Partial<EtaHistoryRow> = {}): EtaSample[] {
+  return lateness.flatMap((minutes, i) => {
+    const sample = toEtaSample(
+      createRow(
+        {
+          promisedArrival: new Date(Date.UTC(2026, 2, 1 + i, 18)),
+          ...overrides,
+        },
+        minutes
+      )
+    );
+    return sample ? [sample] : [];
+  });
+}
+
+function createStatistics(overrides: Partial<EtaStatistics> = {}): EtaStatistics {
+  return {
+    sampleCount: 20,
+    medianLateness: 0,
+    p10Lateness: -5,
+    p90Lateness: 5,
+    meanAbsoluteError: 3,
+    onTimeRate: 0.9,
+    byDayOfWeek: {},
+    byHour: {},
+    ...overrides,
+  };
+}
+
+describe('toEtaSample', () => {
+  it('measures lateness and buckets by local promised time', () => {
+    const sample = toEtaSample(createRow({ timezone: 'America/New_York' }, 25));
+
+    expect(sample).toMatchObject({ lateness: 25, dayOfWeek: 5, hour: 13 });
+  });
+
+  it('drops arrivals too far from their promise', () => {
+    expect(toEtaSample(createRow({}, 8 * 24 * 60))).toBeNull();
+  });
+});
+
+describe('summarizeEtaSamples', () => {
+  it('summarizes lateness', () => {
+    const stats = summarizeEtaSamples(createSamples([-10, 0, 5, 5, 10, 20, 30, 40, 60, 120]));
+
+    expect(stats).toMatchObject({
+      sampleCount: 10,
+      medianLateness: 15,
+      meanAbsoluteError: 30,
+      onTimeRate: 0.5,
+    });
+    expect(stats!.p10Lateness).toBeLessThan(stats!.medianLateness);
+    expect(stats!.p90Lateness).toBeGreaterThan(stats!.medianLateness);
+  });
+
+  it('groups lateness by weekday and hour', () => {
+    const stats = summarizeEtaSamples(createSamples([10, 20, 30]));
+
+    expect(stats!.byHour[18]).toEqual({ sampleCount: 3, medianLateness: 20 });
+    expect(stats!.byDayOfWeek[0]).toEqual({ sampleCount: 1, medianLateness: 10 });
+  });
+
+  it('returns null without samples', () => {
+    expect(summarizeEtaSamples([])).toBeNull();
+  });
+});
+
+describe('buildEtaStatistics', () => {
+  it('learns per user and across all users', () => {
+    const records = buildEtaStatistics([
+      ...createSamples([10, 20]),
+      ...createSamples([30], { userId: 'user-2' }),
+    ]);
+
+    expect(records).toHaveLength(3);
+    expect(records.find((r) => r.userId === null)?.sampleCount).toBe(3);
+    expect(records.find((r) => r.userId === 'user-2')?.medianLateness).toBe(30);
+  });
+});
+
+describe('blendEtaStatistics', () => {
+  it('leans on platform-wide statistics for users with little history', () => {
+    const blended = blendEtaStatistics(
+      createStatistics({ sampleCount: 2, medianLateness: 60 }),
+      createStatistics({ sampleCount: 1000, medianLateness: 0 })
+    );
+
+    expect(blended!.medianLateness).toBe(5);
+    expect(blended!.sampleCount).toBe(1002);
+  });
+
+  it('uses whichever statistics exist', () => {
+    const overall = createStatistics();
+
+    expect(blendEtaStatistics(undefined, overall)).toBe(overall);
+    expect(blendEtaStatistics(undefined, undefined)).toBeUndefined();
+  });
+});
+
+describe('buildEtaModel', () => {
+  it('ignores other users statistics', () => {
+    const model = buildEtaModel('user-1', 'UTC', [
+      { userId: 'user-2', platform: 'doordash', ...createStatistics() },
+      { userId: null, platform: 'instacart', ...createStatistics({ medianLateness: 8 }) },
+    ]);
+
+    expect(model.platforms.doordash).toBeUndefined();
+    expect(model.platforms.instacart?.medianLateness).toBe(8);
+  });
+});
+
+describe('evaluateEtaModel', () => {
+  it('beats the raw promise on a platform that runs late', () => {
+    const lateness = Array.from({ length: 100 }, (_, i) => 20 + (i % 5));
+    const report = evaluateEtaModel(createSamples(lateness));
+
+    expect(report.trainSamples).toBe(80);
+    expect(report.testSamples).toBe(20);
+    expect(report.baselineMae).toBe(22);
+    expect(report.learnedMae).toBeLessThan(5);
+    expect(report.platforms.map((p) => p.platform)).toEqual(['instacart']);
+  });
+
+  it('scores only history the model did not learn from', () => {
+    const lateness = [
+      ...Array.from({ length: 80 }, () => 0),
+      ...Array.from({ length: 20 }, () => 30),
+    ];
+    const report = evaluateEtaModel(createSamples(lateness));
+
+    expect(report.learnedMae).toBe(30);
+    expect(report.coverage).toBe(0);
+  });
+});
+
+describe('EtaModelService', () => {
+  function createStore(rows: EtaHistoryRow[]): EtaModelStore {
+    return {
+      listHistory: vi.fn(async () => rows),
+      replaceStatistics: vi.fn(async () => {}),
+      getStatistics: vi.fn(async () => ({
+        timezone: 'Europe/Berlin',
+        records: [{ userId: 'user-1', platform: 'instacart' as const, ...createStatistics() }],
+      })),
+    };
+  }
+
+  it('recomputes statistics from history', async () => {
+    const store = createStore([createRow({}, 10), createRow({ userId: 'user-2' }, 20)]);
+    const service = new EtaModelService({ store });
+    const now = new Date('2026-04-01T04:00:00Z');
+
+    const result = await service.recompute(now);
+
+    expect(result).toEqual({ samples: 2, statistics: 3 });
+    expect(store.listHistory).toHaveBeenCalledWith(new Date('2025-10-03T04:00:00Z'));
+    expect(store.replaceStatistics).toHaveBeenCalledWith(expect.any(Array), now);
+  });
+
+  it('builds the model in the user timezone', async () => {
+    const service = new EtaModelService({ store: createStore([]) });
+
+    const model = await service.getModel('user-1');
+
+    expect(model.timezone).toBe('Europe/Berlin');
+    expect(model.platforms.instacart?.sampleCount).toBe(20);
+  });
+});
@@ -11,8 +11,26 @@ import {
   hasSignificantETAChange,
   calculateBatchETAs,
 } from '@/lib/services/eta';
+import type { EtaModel, EtaStatistics } from '@/types/eta';
 import { createMockDelivery } from '../../utils/fixtures';
 
+const learned = (overrides: Partial<EtaStatistics> = {}): EtaModel => ({
+  timezone: 'UTC',
+  platforms: {
+    instacart: {
+      sampleCount: 200,
+      medianLateness: 10,
+      p10Lateness: -5,
+      p90Lateness: 40,
+      meanAbsoluteError: 15,
+      onTimeRate: 0.5,
+      byDayOfWeek: {},
+      byHour: {},
+      ...overrides,
+    },
+  },
+});
+
 describe('calculateETA', () => {
   describe('Basic Calculation', () => {
     it('returns platform-provided ETA when available', () => {
@@ -227,6 +245,80 @@ describe('calculateETA', () => {
       expect(result.factors.some((f) => f.includes('restaurant')) || result.minutesRemaining === 20).toBe(true);
     });
   });
+
+  describe('Learned Statistics', () => {
+    const delivery = () =>
+      createMockDelivery({
+        platform: 'instacart',
+        status: 'preparing',
+        driver: undefined,
+        eta: {
+          estimatedArrival: new Date('2026-03-06T18:00:00Z'), // Friday
+          minutesRemaining: 60,
+          confidence: 'medium',
+        },
+      });
+
+    it('corrects the platform ETA by how late it usually runs', () => {
+      const result = calculateETA(delivery(), learned());
+
+      // 200 / 220 of the way from the 1.15 grocery prior to a 10 min learned delay
+      expect(result.minutesRemaining).toBe(70);
+      expect(result.factors).toContain('Usually 9 min late at this time');
+      expect(result.factors).toContain('Learned from 200 past deliveries');
+    });
+
+    it('shifts the correction for the weekday and hour', () => {
+      const model = learned({
+        byDayOfWeek: { 5: { sampleCount: 180, medianLateness: 30 } },
+        byHour: { 18: { sampleCount: 20, medianLateness: 10 } },
+      });
+
+      expect(calculateETA(delivery(), model).minutesRemaining).toBeGreaterThan(
+        calculateETA(delivery(), learned()).minutesRemaining
+      );
+    });
+
+    it('lowers confidence for platforms that are often late', () => {
+      const reliable = calculateETA(delivery(), learned({ onTimeRate: 1 }));
+      const unreliable = calculateETA(delivery(), learned({ onTimeRate: 0.2 }));
+
+      expect(unreliable.confidence).toBeLessThan(reliable.confidence);
+    });
+
+    it('builds the range from past arrivals', () => {
+      const result = calculateETA(delivery(), learned({ onTimeRate: 1 }));
+
+      expect(result.range).not.toBeNull();
+      expect(result.range!.maxMinutes - result.minutesRemaining).toBeGreaterThan(
+        result.minutesRemaining - result.range!.minMinutes
+      );
+    });
+
+    it('falls back to the priors without history', () => {
+      const withModel = calculateETA(delivery(), { timezone: 'UTC', platforms: {} });
+      const without = calculateETA(delivery());
+
+      expect(withModel.minutesRemaining).toBe(without.minutesRemaining);
+      expect(withModel.confidence).toBe(without.confidence);
+    });
+
+    it('leaves live driver ETAs alone', () => {
+      const tracked = createMockDelivery({
+        platform: 'instacart',
+        status: 'out_for_delivery',
+        eta: {
+          estimatedArrival: new Date(Date.now() + 20 * 60 * 1000),
+          minutesRemaining: 20,
+          confidence: 'high',
+        },
+      });
+
+      const result = calculateETA(tracked, learned());
+
+      expect(result.factors.some((f) => f.startsWith('Usually'))).toBe(false);
+    });
+  });
 });
 
 describe('formatETADisplay', () => {
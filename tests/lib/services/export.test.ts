@@ -0,0 +1,125 @@
+/**
+ * Export service tests
+ */
+
+import type { SQL } from 'drizzle-orm';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { describe, expect, it, vi } from 'vitest';
+import type { Database } from '@/lib/db';
+import {
+  createDatabaseExportStore,
+  type ExportStore,
+  ExportService,
+  getExportFilename,
+} from '@/lib/services/export';
+import type { UnifiedDelivery } from '@/types/delivery';
+import { createMockDelivery } from '../../utils/fixtures';
+
+function createStore(active: UnifiedDelivery[], history: UnifiedDelivery[]): ExportStore {
+  const rows = history.map((deliveryData, i) => ({
+    id: `h-${i}`,
+    orderedAt: new Date(Date.UTC(2026, 0, 100 - i)),
+    deliveryData,
+  }));
+
+  return {
+    listActive: vi.fn(async () => active),
+    listHistoryPage: vi.fn(async (_userId, after, limit) => {
+      const start = after ? rows.findIndex((row) => row.id === after.id) + 1 : 0;
+      return rows.slice(start, start + limit);
+    }),
+  };
+}
+
+async function read(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return new Response(stream).text();
+}
+
+describe('ExportService', () => {
+  const active = [createMockDelivery({ status: 'preparing' })];
+  const history = Array.from({ length: 5 }, () => createMockDelivery({ status: 'delivered' }));
+
+  it('pages through history a few rows at a time', async () => {
+    const store = createStore(active, history);
+    const service = new ExportService({ store, etaModel: { getModel: vi.fn() }, pageSize: 2 });
+
+    const text = await read(await service.export('user-1', 'ndjson', { scope: 'history' }));
+    const ids = text
+      .trimEnd()
+      .split('\n')
+      .map((line) => JSON.parse(line).id);
+
+    expect(ids).toEqual(history.map((delivery) => delivery.id));
+    expect(store.listHistoryPage).toHaveBeenCalledTimes(3);
+    expect(store.listActive).not.toHaveBeenCalled();
+  });
+
+  it('exports active deliveries before history', async () => {
+    const service = new ExportService({
+      store: createStore(active, history),
+      etaModel: { getModel: vi.fn() },
+    });
+
+    const text = await read(await service.export('user-1', 'csv'));
+
+    expect(text.trimEnd().split('\r\n')).toHaveLength(1 + active.length + history.length);
+    expect(text.split('\r\n')[1]).toContain(active[0]!.id);
+  });
+
+  it('does not read deliveries until the stream is consumed', async () => {
+    const store = createStore(active, history);
+    const service = new ExportService({ store, etaModel: { getModel: vi.fn() } });
+
+    const stream = await service.export('user-1', 'csv');
+    expect(store.listActive).not.toHaveBeenCalled();
+
+    await stream.cancel();
+    expect(store.listHistoryPage).not.toHaveBeenCalled();
+  });
+
+  it('builds the calendar from active deliveries only', async () => {
+    const store = createStore(active, history);
+    const getModel = vi.fn(async () => {
+      throw new Error('unavailable');
+    });
+    const service = new ExportService({ store, etaModel: { getModel } });
+
+    const text = await read(await service.export('user-1', 'ics', { scope: 'history' }));
+
+    expect(getModel).toHaveBeenCalledWith('user-1');
+    expect(text.match(/BEGIN:VEVENT/g)).toHaveLength(active.length);
+    expect(store.listHistoryPage).not.toHaveBeenCalled();
+  });
+});
+
+describe('createDatabaseExportStore', () => {
+  it('leaves expired cache rows out of active deliveries', async () => {
+    const current = createMockDelivery({ status: 'preparing' });
+    const expired = createMockDelivery({ status: 'preparing' });
+    const rows = [
+      { deliveryData: current, expiresAt: new Date(Date.now() + 60_000) },
+      { deliveryData: expired, expiresAt: new Date(Date.now() - 60_000) },
+    ];
+    const findMany = vi.fn(async (query: { where: SQL }) => {
+      // Apply the expiry bound the query sends to the database
+      const { sql, params } = new PgDialect().sqlToQuery(query.where);
+      const index = sql.match(/"delivery_cache"\."expires_at" > \$(\d+)/)?.[1];
+      const now = index ? new Date(String(params[Number(index) - 1])) : null;
+      return rows.filter((row) => !now || row.expiresAt > now);
+    });
+    const database = { query: { deliveryCache: { findMany } } } as unknown as Database;
+
+    const deliveries = await createDatabaseExportStore(database).listActive('user-1');
+
+    expect(deliveries).toEqual([current]);
+  });
+});
+
+describe('getExportFilename', () => {
+  it('names the file after the scope and date', () => {
+    const now = new Date('2026-03-14T12:00:00Z');
+    expect(getExportFilename('csv', 'history', now)).toBe('dropdeck-history-2026-03-14.csv');
+    expect(getExportFilename('ndjson', 'all', now)).toBe('dropdeck-deliveries-2026-03-14.ndjson');
+    expect(getExportFilename('ics', 'all', now)).toBe('dropdeck-upcoming-2026-03-14.ics');
+  });
+});
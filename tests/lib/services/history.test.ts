@@ -0,0 +1,61 @@
+/**
+ * Delivery history tests
+ */
+
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { describe, expect, it } from 'vitest';
+import { buildHistoryWhere, escapeLikePattern } from '@/lib/services/history';
+
+const dialect = new PgDialect();
+
+function render(where: ReturnType<typeof buildHistoryWhere>) {
+  return dialect.sqlToQuery(where!);
+}
+
+describe('escapeLikePattern', () => {
+  it('matches wildcards literally', () => {
+    expect(escapeLikePattern('100% juice_box\\')).toBe('100\\% juice\\_box\\\\');
+  });
+});
+
+describe('buildHistoryWhere', () => {
+  it('always scopes to the user', () => {
+    const { sql, params } = render(buildHistoryWhere('user-1'));
+
+    expect(sql).toContain('"delivery_history"."user_id" = $1');
+    expect(params).toEqual(['user-1']);
+  });
+
+  it('filters by platform, outcome and a half-open date range', () => {
+    const from = new Date('2026-03-01T00:00:00Z');
+    const to = new Date('2026-04-01T00:00:00Z');
+
+    const { sql, params } = render(
+      buildHistoryWhere('user-1', { platform: 'instacart', finalStatus: 'cancelled', from, to })
+    );
+
+    expect(sql).toContain('"delivery_history"."platform" = $2');
+    expect(sql).toContain('"delivery_history"."final_status" = $3');
+    expect(sql).toContain('"delivery_history"."ordered_at" >= $4');
+    expect(sql).toContain('"delivery_history"."ordered_at" < $5');
+    expect(params).toEqual([
+      'user-1',
+      'instacart',
+      'cancelled',
+      from.toISOString(),
+      to.toISOString(),
+    ]);
+  });
+
+  it('searches item names', () => {
+    const { sql, params } = render(buildHistoryWhere('user-1', { search: '  50% milk ' }));
+
+    expect(sql).toContain(`"delivery_history"."delivery_data"->'order'->'items'`);
+    expect(sql).toContain("item->>'name' ilike $2");
+    expect(params).toEqual(['user-1', '%50\\% milk%']);
+  });
+
+  it('ignores a blank search', () => {
+    expect(render(buildHistoryWhere('user-1', { search: '   ' })).params).toEqual(['user-1']);
+  });
+});
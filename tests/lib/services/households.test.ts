@@ -0,0 +1,75 @@
+/**
+ * Household service tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  generateHouseholdInviteToken,
+  hashHouseholdInviteToken,
+  pickMemberColor,
+  shareDelivery,
+  toDeliveryOwner,
+} from '@/lib/services/households';
+import { HOUSEHOLD_MEMBER_COLORS } from '@/types/household';
+import { createMockDelivery } from '../../utils/fixtures';
+
+describe('pickMemberColor', () => {
+  it('gives the first member the first color', () => {
+    expect(pickMemberColor([])).toBe(HOUSEHOLD_MEMBER_COLORS[0]);
+  });
+
+  it('skips colors already in use, whatever their case', () => {
+    const taken = [HOUSEHOLD_MEMBER_COLORS[0].toLowerCase(), HOUSEHOLD_MEMBER_COLORS[2]];
+
+    expect(pickMemberColor(taken)).toBe(HOUSEHOLD_MEMBER_COLORS[1]);
+  });
+
+  it('reuses colors once every one is taken', () => {
+    expect(HOUSEHOLD_MEMBER_COLORS).toContain(pickMemberColor([...HOUSEHOLD_MEMBER_COLORS]));
+  });
+});
+
+describe('household invite tokens', () => {
+  it('generates distinct prefixed tokens', () => {
+    const token = generateHouseholdInviteToken();
+
+    expect(token).toMatch(/^hh_[A-Za-z0-9_-]{32}$/);
+    expect(generateHouseholdInviteToken()).not.toBe(token);
+  });
+
+  it('hashes tokens deterministically without storing them', () => {
+    const token = generateHouseholdInviteToken();
+
+    expect(hashHouseholdInviteToken(token)).toBe(hashHouseholdInviteToken(token));
+    expect(hashHouseholdInviteToken(token)).toMatch(/^[a-f0-9]{64}$/);
+    expect(hashHouseholdInviteToken(token)).not.toContain(token.slice(3));
+  });
+});
+
+describe('shareDelivery', () => {
+  const owner = toDeliveryOwner({
+    householdId: 'household-1',
+    userId: 'user-2',
+    name: 'Sam',
+    role: 'viewer',
+    color: HOUSEHOLD_MEMBER_COLORS[1],
+  });
+
+  it('tags the delivery with its owner', () => {
+    const shared = shareDelivery(createMockDelivery({ id: 'uber_eats_1' }), owner);
+
+    expect(shared.id).toBe('uber_eats_1');
+    expect(shared.owner).toEqual({ userId: 'user-2', name: 'Sam', color: '#F59E0B' });
+  });
+
+  it("leaves out the owner's raw platform data", () => {
+    const delivery = createMockDelivery();
+    delivery.meta.rawData = { accessToken: 'secret', orderUuid: 'abc' };
+
+    const shared = shareDelivery(delivery, owner);
+
+    expect(shared.meta).not.toHaveProperty('rawData');
+    expect(shared.meta.adapterId).toBe(delivery.meta.adapterId);
+    expect(delivery.meta.rawData).toBeDefined();
+  });
+});
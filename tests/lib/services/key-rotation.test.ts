@@ -0,0 +1,152 @@
+/**
+ * Key rotation tests
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Database } from '@/lib/db';
+import { platformConnections, webhookEndpoints } from '@/lib/db/schema';
+import { decryptToken, encryptToken } from '@/lib/encryption/tokens';
+import { reencryptStoredSecrets } from '@/lib/services/key-rotation';
+import type { EncryptedData } from '@/types/platform';
+
+type Row = { id: string } & Record<string, unknown>;
+
+/**
+ * A database serving each table's pending rows once, recording updates
+ * @param respond What an update returns; echoes the written values by default
+ */
+function createDatabase(
+  entries: Array<[unknown, Row[]]>,
+  respond: (values: Record<string, EncryptedData>) => unknown[] = (values) => [values]
+) {
+  const tables = new Map(entries);
+  const served = new Set<unknown>();
+  const updates: Array<Record<string, EncryptedData | null>> = [];
+
+  const database = {
+    select: vi.fn(() => ({
+      from: vi.fn((table: unknown) => ({
+        where: vi.fn(() =>
+          Object.assign(Promise.resolve([{ value: tables.get(table)?.length ?? 0 }]), {
+            orderBy: () => ({
+              limit: async () => {
+                if (served.has(table)) return [];
+                served.add(table);
+                return tables.get(table) ?? [];
+              },
+            }),
+          })
+        ),
+      })),
+    })),
+    update: vi.fn(() => ({
+      set: vi.fn((values: Record<string, EncryptedData>) => {
+        updates.push(values);
+        return {
+          where: vi.fn(() =>
+            Object.assign(Promise.resolve(), { returning: async () => respond(values) })
+          ),
+        };
+      }),
+    })),
+  } as unknown as Database;
+
+  return { database, updates };
+}
+
+describe('reencryptStoredSecrets', () => {
+  let connection: Row;
+  let endpoint: Row;
+
+  beforeEach(() => {
+    connection = {
+      id: 'conn-1',
+      accessTokenEncrypted: encryptToken('access'),
+      refreshTokenEncrypted: null,
+      sessionDataEncrypted: encryptToken('session'),
+    };
+    endpoint = { id: 'hook-1', secretEncrypted: encryptToken('whsec') };
+
+    vi.stubEnv('TOKEN_ENCRYPTION_KEY', 'a'.repeat(64));
+    vi.stubEnv('TOKEN_ENCRYPTION_KEY_VERSION', '2');
+    vi.stubEnv('TOKEN_ENCRYPTION_KEYRING', `1:${'0'.repeat(64)}`);
+  });
+
+  afterEach(() => {
+    vi.stubEnv('TOKEN_ENCRYPTION_KEY', '0'.repeat(64));
+    vi.stubEnv('TOKEN_ENCRYPTION_KEY_VERSION', '');
+    vi.stubEnv('TOKEN_ENCRYPTION_KEYRING', '');
+  });
+
+  it('moves every encrypted column to the active key and reports progress', async () => {
+    const { database, updates } = createDatabase(
+      [
+        [platformConnections, [connection]],
+        [webhookEndpoints, [endpoint]],
+      ]
+    );
+    const onProgress = vi.fn();
+
+    const result = await reencryptStoredSecrets({ onProgress }, database);
+
+    expect(result).toMatchObject({ activeVersion: 2, total: 2, reencrypted: 2, failed: 0 });
+    expect(Object.keys(updates[0]!)).toEqual(['accessTokenEncrypted', 'sessionDataEncrypted']);
+    expect(updates[0]!.accessTokenEncrypted!.version).toBe(2);
+    expect(decryptToken(updates[1]!.secretEncrypted!)).toBe('whsec');
+    expect(onProgress).toHaveBeenLastCalledWith(
+      expect.objectContaining({ total: 2, reencrypted: 2 })
+    );
+  });
+
+  it('skips rows rewritten since they were read', async () => {
+    const { database } = createDatabase([[platformConnections, [connection]]], () => []);
+
+    const result = await reencryptStoredSecrets({}, database);
+
+    expect(result).toMatchObject({ reencrypted: 0, skipped: 1, failed: 0 });
+  });
+
+  it('restores the original ciphertexts when the stored values do not verify', async () => {
+    const { database, updates } = createDatabase(
+      [[platformConnections, [connection]]],
+      (values) => [{ ...values, sessionDataEncrypted: encryptToken('something else') }]
+    );
+
+    const result = await reencryptStoredSecrets({}, database);
+
+    expect(result.failed).toBe(1);
+    expect(result.failures[0]).toMatchObject({ table: 'platform_connections', id: 'conn-1' });
+    expect(updates[1]).toEqual({
+      accessTokenEncrypted: connection.accessTokenEncrypted,
+      sessionDataEncrypted: connection.sessionDataEncrypted,
+    });
+  });
+
+  it('records rows whose key is missing as failures and carries on', async () => {
+    vi.stubEnv('TOKEN_ENCRYPTION_KEYRING', '');
+    const { database } = createDatabase(
+      [
+        [platformConnections, [connection]],
+        [webhookEndpoints, [endpoint]],
+      ]
+    );
+
+    const result = await reencryptStoredSecrets({}, database);
+
+    expect(result.failures).toEqual([
+      { table: 'platform_connections', id: 'conn-1', error: 'No encryption key for version 1' },
+      { table: 'webhook_endpoints', id: 'hook-1', error: 'No encryption key for version 1' },
+    ]);
+    expect(result.reencrypted).toBe(0);
+  });
+
+  it('leaves rows already under the active key alone', async () => {
+    const current = { id: 'hook-2', secretEncrypted: encryptToken('new') };
+    const { database, updates } = createDatabase([[webhookEndpoints, [current]]]);
+
+    const result = await reencryptStoredSecrets({}, database);
+
+    expect(result).toMatchObject({ reencrypted: 0, skipped: 1 });
+    expect(updates).toHaveLength(0);
+  });
+});
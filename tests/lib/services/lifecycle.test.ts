@@ -0,0 +1,235 @@
+/**
+ * Delivery lifecycle tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { CachedDeliveryChange } from '@/lib/services/delivery-cache';
+import {
+  appendTimelineEvent,
+  buildHistoryRecord,
+  buildTimeline,
+  type DeliveryHistoryRecord,
+  DeliveryLifecycleService,
+  type LifecycleStore,
+} from '@/lib/services/lifecycle';
+import type { TimelineEvent, UnifiedDelivery } from '@/types/delivery';
+import { createMockDelivery } from '../../utils/fixtures';
+
+const at = (time: string) => new Date(`2026-03-01T${time}:00Z`);
+
+function createDelivery(overrides: Partial<UnifiedDelivery> = {}): UnifiedDelivery {
+  return createMockDelivery({
+    externalOrderId: 'ORDER-1',
+    driver: undefined,
+    statusUpdatedAt: at('12:00'),
+    timestamps: { ordered: at('11:00') },
+    ...overrides,
+  });
+}
+
+/**
+ * In-memory lifecycle store keyed like the unique index
+ */
+function createMemoryStore() {
+  const rows = new Map<string, DeliveryHistoryRecord>();
+  const store: LifecycleStore = {
+    insertHistory: vi.fn(async (record: DeliveryHistoryRecord) => {
+      const key = `${record.userId}:${record.platform}:${record.externalOrderId}`;
+      if (rows.has(key)) return false;
+      rows.set(key, record);
+      return true;
+    }),
+  };
+  return { store, rows };
+}
+
+describe('appendTimelineEvent', () => {
+  it('starts a timeline with the current status', () => {
+    const delivery = createDelivery({ status: 'preparing', statusUpdatedAt: at('11:05') });
+
+    const timeline = appendTimelineEvent(null, delivery);
+
+    expect(timeline).toHaveLength(1);
+    expect(timeline[0]).toMatchObject({ status: 'preparing', timestamp: at('11:05') });
+  });
+
+  it('ignores repeated observations of the same status', () => {
+    const delivery = createDelivery({ status: 'preparing' });
+    const timeline = appendTimelineEvent(null, delivery);
+
+    expect(appendTimelineEvent(timeline, delivery)).toHaveLength(1);
+  });
+
+  it('appends status transitions', () => {
+    const timeline = appendTimelineEvent(null, createDelivery({ status: 'preparing' }));
+    const next = appendTimelineEvent(
+      timeline,
+      createDelivery({ status: 'out_for_delivery', statusUpdatedAt: at('11:40') })
+    );
+
+    expect(next.map((e) => e.status)).toEqual(['preparing', 'out_for_delivery']);
+  });
+
+  it('restores dates from JSON-serialized events', () => {
+    const stored = JSON.parse(
+      JSON.stringify([{ status: 'preparing', timestamp: at('11:05') }])
+    ) as TimelineEvent[];
+
+    const timeline = appendTimelineEvent(stored, createDelivery({ status: 'preparing' }));
+
+    expect(timeline[0]?.timestamp).toBeInstanceOf(Date);
+  });
+});
+
+describe('buildTimeline', () => {
+  it('fills unobserved statuses from platform timestamps in order', () => {
+    const delivery = createDelivery({
+      status: 'delivered',
+      statusUpdatedAt: at('12:00'),
+      timestamps: { ordered: at('11:00'), confirmed: at('11:02'), pickedUp: at('11:30') },
+    });
+    const observed: TimelineEvent[] = [{ status: 'delivered', timestamp: at('12:00') }];
+
+    const timeline = buildTimeline(delivery, observed);
+
+    expect(timeline.map((e) => e.status)).toEqual(['preparing', 'out_for_delivery', 'delivered']);
+  });
+
+  it('prefers observed transitions over platform timestamps', () => {
+    const delivery = createDelivery({
+      status: 'delivered',
+      timestamps: { ordered: at('11:00'), pickedUp: at('11:30') },
+    });
+    const observed: TimelineEvent[] = [
+      { status: 'out_for_delivery', timestamp: at('11:35'), message: 'On the way' },
+      { status: 'delivered', timestamp: at('12:00') },
+    ];
+
+    const timeline = buildTimeline(delivery, observed);
+
+    expect(timeline.filter((e) => e.status === 'out_for_delivery')).toEqual([observed[0]]);
+  });
+
+  it('uses carrier scans in place of observed transitions for the same status', () => {
+    const delivery = createDelivery({
+      status: 'delivered',
+      timestamps: { ordered: at('09:00'), confirmed: at('09:05') },
+      events: [
+        { status: 'out_for_delivery', timestamp: at('10:00'), message: 'Departed Facility' },
+        { status: 'out_for_delivery', timestamp: at('11:00'), message: 'Out For Delivery' },
+        { status: 'delivered', timestamp: at('11:50'), message: 'Delivered, Front Door' },
+      ],
+    });
+    const observed: TimelineEvent[] = [
+      { status: 'out_for_delivery', timestamp: at('10:30') },
+      { status: 'delivered', timestamp: at('12:00') },
+    ];
+
+    const timeline = buildTimeline(delivery, observed);
+
+    expect(timeline.map((e) => e.message)).toEqual([
+      undefined,
+      'Departed Facility',
+      'Out For Delivery',
+      'Delivered, Front Door',
+    ]);
+  });
+
+  it('includes the final status when it was never observed', () => {
+    const delivery = createDelivery({ status: 'cancelled', statusUpdatedAt: at('11:10') });
+
+    const timeline = buildTimeline(delivery, []);
+
+    expect(timeline[timeline.length - 1]).toMatchObject({ status: 'cancelled' });
+  });
+});
+
+describe('buildHistoryRecord', () => {
+  it('records order and delivery times', () => {
+    const delivery = createDelivery({
+      status: 'delivered',
+      timestamps: { ordered: at('11:00'), delivered: at('12:05') },
+    });
+
+    const record = buildHistoryRecord('user-1', delivery, []);
+
+    expect(record).toMatchObject({
+      userId: 'user-1',
+      externalOrderId: 'ORDER-1',
+      finalStatus: 'delivered',
+      orderedAt: at('11:00'),
+      deliveredAt: at('12:05'),
+    });
+  });
+
+  it('leaves deliveredAt empty for cancelled orders', () => {
+    const record = buildHistoryRecord('user-1', createDelivery({ status: 'cancelled' }), []);
+
+    expect(record.finalStatus).toBe('cancelled');
+    expect(record.deliveredAt).toBeNull();
+  });
+});
+
+describe('DeliveryLifecycleService', () => {
+  let memory: ReturnType<typeof createMemoryStore>;
+  let service: DeliveryLifecycleService;
+
+  beforeEach(() => {
+    memory = createMemoryStore();
+    service = new DeliveryLifecycleService(memory.store);
+  });
+
+  const change = (delivery: UnifiedDelivery): CachedDeliveryChange => ({
+    delivery,
+    previous: null,
+    timeline: [],
+  });
+
+  it('archives delivered and cancelled deliveries', async () => {
+    const results = await service.processChanges('user-1', [
+      change(createDelivery({ externalOrderId: 'A', status: 'delivered' })),
+      change(createDelivery({ externalOrderId: 'B', status: 'cancelled' })),
+    ]);
+
+    expect(results.map((r) => r.archived)).toEqual([true, true]);
+    expect(memory.rows.size).toBe(2);
+  });
+
+  it('skips deliveries that are still in progress', async () => {
+    const results = await service.processChanges('user-1', [
+      change(createDelivery({ status: 'out_for_delivery' })),
+    ]);
+
+    expect(results).toEqual([]);
+    expect(memory.store.insertHistory).not.toHaveBeenCalled();
+  });
+
+  it('archives each order only once', async () => {
+    const delivered = change(createDelivery({ status: 'delivered' }));
+
+    await service.processChanges('user-1', [delivered]);
+    const results = await service.processChanges('user-1', [delivered]);
+
+    expect(results[0]?.archived).toBe(false);
+    expect(memory.rows.size).toBe(1);
+  });
+
+  it('keeps the arrival the order was first promised', async () => {
+    await service.processChanges('user-1', [
+      { ...change(createDelivery({ status: 'delivered' })), promisedArrival: at('11:45') },
+    ]);
+
+    expect([...memory.rows.values()][0]?.promisedArrival).toEqual(at('11:45'));
+  });
+
+  it('continues when a single archive fails', async () => {
+    vi.mocked(memory.store.insertHistory).mockRejectedValueOnce(new Error('db down'));
+
+    const results = await service.processChanges('user-1', [
+      change(createDelivery({ externalOrderId: 'A', status: 'delivered' })),
+      change(createDelivery({ externalOrderId: 'B', status: 'delivered' })),
+    ]);
+
+    expect(results.map((r) => r.externalOrderId)).toEqual(['B']);
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Notification service tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildChannelMessage,
+  buildPushPayload,
+  buildQuietHoursDigestContent,
+  getChannelPriority,
+  getDeliveryNotificationContent,
+  getDeliveryUrl,
+  getEtaSlippedContent,
+  isCriticalNotification,
+  isQuietHours,
+} from '@/lib/services/notifications';
+import { createMockDelivery } from '../../utils/fixtures';
+
+describe('getDeliveryUrl', () => {
+  it('deep-links into the dashboard card', () => {
+    expect(getDeliveryUrl('doordash_A1')).toBe('/dashboard?delivery=doordash_A1');
+  });
+});
+
+describe('buildPushPayload', () => {
+  it('tags delivery notifications so updates replace each other', () => {
+    const payload = JSON.parse(
+      buildPushPayload(
+        'out_for_delivery',
+        {
+          title: 'On the Way',
+          body: 'Arriving in ~12 min',
+          data: { deliveryId: 'doordash_A1', actionUrl: getDeliveryUrl('doordash_A1') },
+        },
+        'notif-1'
+      )
+    );
+
+    expect(payload).toEqual({
+      type: 'out_for_delivery',
+      title: 'On the Way',
+      body: 'Arriving in ~12 min',
+      tag: 'delivery-doordash_A1',
+      data: {
+        deliveryId: 'doordash_A1',
+        actionUrl: '/dashboard?delivery=doordash_A1',
+        notificationId: 'notif-1',
+      },
+    });
+  });
+
+  it('falls back to the notification type as the tag', () => {
+    const payload = JSON.parse(
+      buildPushPayload('platform_disconnected', { title: 'Platform Disconnected', body: '' })
+    );
+
+    expect(payload.tag).toBe('platform_disconnected');
+  });
+});
+
+describe('getChannelPriority', () => {
+  it('sends delays and imminent arrivals at high priority', () => {
+    expect(getChannelPriority('delay_detected')).toBe('high');
+    expect(getChannelPriority('arriving_soon')).toBe('high');
+    expect(getChannelPriority('platform_disconnected')).toBe('high');
+  });
+
+  it('keeps routine updates quiet', () => {
+    expect(getChannelPriority('delivered')).toBe('default');
+    expect(getChannelPriority('eta_slipped')).toBe('default');
+    expect(getChannelPriority('driver_assigned')).toBe('low');
+    expect(getChannelPriority('platform_connected')).toBe('low');
+  });
+});
+
+describe('buildChannelMessage', () => {
+  const content = {
+    title: 'Delivery Delayed',
+    body: 'Your DoorDash order is running late - new ETA: 25 min',
+    data: { deliveryId: 'doordash_A1', actionUrl: getDeliveryUrl('doordash_A1') },
+  };
+
+  it('links to the delivery on the app URL', () => {
+    expect(buildChannelMessage('delay_detected', content, 'https://dropdeck.app')).toEqual({
+      title: 'Delivery Delayed',
+      body: 'Your DoorDash order is running late - new ETA: 25 min',
+      priority: 'high',
+      clickUrl: 'https://dropdeck.app/dashboard?delivery=doordash_A1',
+    });
+  });
+
+  it('leaves out the link when the app URL is unknown', () => {
+    expect(buildChannelMessage('delay_detected', content, '')).not.toHaveProperty('clickUrl');
+  });
+});
+
+describe('getEtaSlippedContent', () => {
+  it('gives the new ETA in the user timezone and how far it slipped', () => {
+    const delivery = createMockDelivery({
+      id: 'doordash_A1',
+      platform: 'doordash',
+      status: 'preparing',
+      eta: {
+        estimatedArrival: new Date('2026-10-19T18:40:00Z'),
+        minutesRemaining: 40,
+        confidence: 'high',
+        revisions: [
+          {
+            estimatedArrival: new Date('2026-10-19T18:00:00Z'),
+            observedAt: new Date('2026-10-19T17:30:00Z'),
+          },
+        ],
+      },
+    });
+
+    expect(getEtaSlippedContent(delivery, 'America/New_York')).toEqual({
+      title: 'ETA Slipped',
+      body: 'Your DoorDash order is now due at 2:40 PM, 40 min later than first promised',
+      data: {
+        deliveryId: 'doordash_A1',
+        platform: 'doordash',
+        status: 'preparing',
+        actionUrl: '/dashboard?delivery=doordash_A1',
+      },
+    });
+  });
+});
+
+describe('household notifications', () => {
+  it("says whose order it is when it is another member's", () => {
+    const delivery = createMockDelivery({ platform: 'doordash', status: 'delivered' });
+
+    expect(getDeliveryNotificationContent(delivery).body).toMatch(/^Your DoorDash order/);
+    expect(getDeliveryNotificationContent(delivery, undefined, 'Sam').body).toMatch(
+      /^Sam's DoorDash order/
+    );
+  });
+});
+
+describe('isQuietHours', () => {
+  const prefs = {
+    quietHoursEnabled: true,
+    quietHoursStart: '22:00',
+    quietHoursEnd: '08:00',
+    quietHoursSchedule: null,
+    timezone: 'America/New_York',
+  };
+
+  it("uses the user's timezone rather than the server's", () => {
+    // Monday 22:30 in New York
+    expect(isQuietHours(prefs, new Date('2026-01-13T03:30:00Z'))).toBe(true);
+    // Monday 21:30 in New York, already Tuesday 02:30 UTC
+    expect(isQuietHours(prefs, new Date('2026-01-13T02:30:00Z'))).toBe(false);
+    expect(isQuietHours({ ...prefs, timezone: 'UTC' }, new Date('2026-01-13T02:30:00Z'))).toBe(
+      true
+    );
+  });
+
+  it('ends overnight windows the next morning', () => {
+    // Tuesday 07:59 and 08:00 in New York
+    expect(isQuietHours(prefs, new Date('2026-01-13T12:59:00Z'))).toBe(true);
+    expect(isQuietHours(prefs, new Date('2026-01-13T13:00:00Z'))).toBe(false);
+  });
+
+  it('is off when disabled', () => {
+    expect(
+      isQuietHours({ ...prefs, quietHoursEnabled: false }, new Date('2026-01-13T03:30:00Z'))
+    ).toBe(false);
+  });
+
+  it('follows a different window on each weekday', () => {
+    const weekly = {
+      ...prefs,
+      timezone: 'UTC',
+      // Friday night runs late; no quiet hours on Saturday night
+      quietHoursSchedule: [
+        { start: '23:00', end: '09:00' },
+        { start: '22:00', end: '07:00' },
+        { start: '22:00', end: '07:00' },
+        { start: '22:00', end: '07:00' },
+        { start: '22:00', end: '07:00' },
+        { start: '12:00', end: '14:00' },
+        null,
+      ],
+    };
+
+    // Monday 22:30 and Tuesday 07:30
+    expect(isQuietHours(weekly, new Date('2026-01-12T22:30:00Z'))).toBe(true);
+    expect(isQuietHours(weekly, new Date('2026-01-13T07:30:00Z'))).toBe(false);
+    // Friday 13:00 and 22:30
+    expect(isQuietHours(weekly, new Date('2026-01-16T13:00:00Z'))).toBe(true);
+    expect(isQuietHours(weekly, new Date('2026-01-16T22:30:00Z'))).toBe(false);
+    // Saturday 23:30, then Sunday's window spilling into Monday 08:30
+    expect(isQuietHours(weekly, new Date('2026-01-17T23:30:00Z'))).toBe(false);
+    expect(isQuietHours(weekly, new Date('2026-01-19T08:30:00Z'))).toBe(true);
+  });
+});
+
+describe('isCriticalNotification', () => {
+  it('treats delays and cancellations as critical', () => {
+    expect(isCriticalNotification('delay_detected', 'delayed')).toBe(true);
+    expect(isCriticalNotification('delivery_status_change', 'cancelled')).toBe(true);
+    expect(isCriticalNotification('delivered', 'delivered')).toBe(false);
+    expect(isCriticalNotification('eta_slipped')).toBe(false);
+  });
+});
+
+describe('buildQuietHoursDigestContent', () => {
+  const update = (deliveryId: string, body: string) => ({
+    title: 'Delivery Update',
+    body,
+    data: { deliveryId, actionUrl: getDeliveryUrl(deliveryId) },
+  });
+
+  it('passes a single update through unchanged', () => {
+    const content = update('doordash_A1', 'Your DoorDash order has been delivered');
+
+    expect(buildQuietHoursDigestContent([content])).toEqual(content);
+  });
+
+  it('keeps only the latest update for each delivery', () => {
+    const digest = buildQuietHoursDigestContent([
+      update('doordash_A1', 'Your DoorDash order is out for delivery'),
+      update('ubereats_B2', 'Your Uber Eats order is out for delivery'),
+      update('doordash_A1', 'Your DoorDash order has been delivered'),
+    ]);
+
+    expect(digest).toEqual({
+      title: '2 updates during quiet hours',
+      body: 'Your Uber Eats order is out for delivery\nYour DoorDash order has been delivered',
+      data: { actionUrl: '/dashboard' },
+    });
+  });
+});
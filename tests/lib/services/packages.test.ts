@@ -0,0 +1,72 @@
+/**
+ * Package tracking service tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { PlatformAdapter } from '@/lib/adapters/base';
+import { PlatformUnavailableError } from '@/lib/adapters/errors';
+import { type PackageStore, PackageTrackingService } from '@/lib/services/packages';
+import { createMockDelivery } from '../../utils/fixtures';
+
+function createStore(): PackageStore {
+  return {
+    listActive: vi.fn(async () => []),
+    save: vi.fn(async (input) => ({ ...input, id: 'pkg-1', createdAt: new Date() })),
+    ensureConnection: vi.fn(async () => {}),
+    cacheDeliveries: vi.fn(async () => {}),
+  };
+}
+
+function createAdapter(getDeliveryDetails: PlatformAdapter['getDeliveryDetails']) {
+  return {
+    getDeliveryDetails: vi.fn(getDeliveryDetails),
+    getPollingInterval: () => 900,
+  } as unknown as PlatformAdapter;
+}
+
+describe('PackageTrackingService', () => {
+  it('saves the package and caches the first result under its label', async () => {
+    const store = createStore();
+    const delivery = createMockDelivery({ platform: 'ups', externalOrderId: '1Z999AA10123456784' });
+    const adapter = createAdapter(async () => delivery);
+    const service = new PackageTrackingService({ store, getAdapter: async () => adapter });
+
+    const result = await service.track('user-1', {
+      carrier: 'ups',
+      trackingNumber: '1Z999AA10123456784',
+      label: '  Birthday gift ',
+    });
+
+    expect(adapter.getDeliveryDetails).toHaveBeenCalledWith(
+      { accessToken: '', userId: 'user-1', platform: 'ups' },
+      '1Z999AA10123456784'
+    );
+    expect(store.save).toHaveBeenCalledWith({
+      userId: 'user-1',
+      carrier: 'ups',
+      trackingNumber: '1Z999AA10123456784',
+      label: 'Birthday gift',
+    });
+    expect(store.ensureConnection).toHaveBeenCalledWith('user-1', 'ups');
+    expect(store.cacheDeliveries).toHaveBeenCalledWith(
+      'user-1',
+      [expect.objectContaining({ id: delivery.id, label: 'Birthday gift' })],
+      expect.any(Date)
+    );
+    expect(result.delivery.label).toBe('Birthday gift');
+  });
+
+  it('leaves nothing behind when the carrier is unavailable', async () => {
+    const store = createStore();
+    const adapter = createAdapter(async () => {
+      throw new PlatformUnavailableError('dhl', 'DHL tracking is not configured');
+    });
+    const service = new PackageTrackingService({ store, getAdapter: async () => adapter });
+
+    await expect(
+      service.track('user-1', { carrier: 'dhl', trackingNumber: '1234567890' })
+    ).rejects.toBeInstanceOf(PlatformUnavailableError);
+    expect(store.save).not.toHaveBeenCalled();
+    expect(store.ensureConnection).not.toHaveBeenCalled();
+  });
+});
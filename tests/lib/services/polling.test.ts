@@ -0,0 +1,548 @@
+/**
+ * Polling scheduler tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PlatformAdapter } from '@/lib/adapters/base';
+import { PlatformAuthError, PlatformRateLimitError } from '@/lib/adapters/errors';
+import type { AdapterMetadata } from '@/lib/adapters/types';
+import { encryptToken } from '@/lib/encryption/tokens';
+import type { CachedDeliveryChange } from '@/lib/services/delivery-cache';
+import {
+  getBackoffDelay,
+  getPollingInterval,
+  PollingScheduler,
+  type PollingStore,
+  type PollTarget,
+} from '@/lib/services/polling';
+import type { DeliveryStatus, UnifiedDelivery } from '@/types/delivery';
+import { createMockDelivery } from '../../utils/fixtures';
+
+/**
+ * Stub adapter with configurable responses
+ */
+class StubAdapter extends PlatformAdapter {
+  readonly metadata: AdapterMetadata = {
+    platformId: 'doordash',
+    displayName: 'DoorDash',
+    primaryColor: '#FF3008',
+    capabilities: {
+      oauth: true,
+      webhooks: false,
+      liveLocation: true,
+      driverContact: false,
+      sessionAuth: false,
+      orderItems: true,
+      etaUpdates: true,
+    },
+    minPollingInterval: 30,
+    maxPollingInterval: 120,
+    defaultPollingInterval: 60,
+  };
+
+  getActiveDeliveries = vi.fn<() => Promise<UnifiedDelivery[]>>().mockResolvedValue([]);
+
+  async getDeliveryDetails(): Promise<UnifiedDelivery> {
+    throw new Error('not implemented');
+  }
+
+  mapStatus(status: string): DeliveryStatus {
+    return status as DeliveryStatus;
+  }
+}
+
+/**
+ * In-memory polling store
+ */
+function createMemoryStore(targets: PollTarget[]) {
+  const cache = new Map<string, UnifiedDelivery>();
+  const synced: Array<{ connectionId: string; at: Date }> = [];
+
+  const store: PollingStore = {
+    listConnections: vi.fn(async () => targets),
+    saveDeliveries: vi.fn(async (_target, deliveries: UnifiedDelivery[]) => {
+      const changes: CachedDeliveryChange[] = deliveries.map((delivery) => {
+        const previous = cache.get(delivery.externalOrderId) ?? null;
+        cache.set(delivery.externalOrderId, delivery);
+        return { delivery, previous, timeline: [] };
+      });
+      return changes;
+    }),
+    markSynced: vi.fn(async (target, at) => {
+      synced.push({ connectionId: target.connectionId, at });
+    }),
+  };
+
+  return { store, cache, synced };
+}
+
+function createTarget(overrides: Partial<PollTarget> = {}): PollTarget {
+  return {
+    connectionId: 'conn-1',
+    userId: 'user-1',
+    platform: 'doordash',
+    accessTokenEncrypted: encryptToken('access-token'),
+    refreshTokenEncrypted: null,
+    sessionDataEncrypted: null,
+    expiresAt: null,
+    status: 'connected',
+    metadata: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Connection manager stub that passes connections through unchanged
+ */
+function createConnections() {
+  return {
+    ensureFresh: vi.fn(async (connection: PollTarget, _force?: boolean) => connection),
+    recordSuccess: vi.fn(async (connection: PollTarget) => connection),
+    recordFailure: vi.fn(async (connection: PollTarget, _error: unknown) => connection),
+  };
+}
+
+function createPublisher() {
+  return {
+    publishDeliveryUpdate: vi.fn().mockResolvedValue(true),
+    publishLocationUpdate: vi.fn().mockResolvedValue(true),
+  };
+}
+
+describe('getPollingInterval', () => {
+  it('uses the minimum interval with an active delivery', () => {
+    expect(getPollingInterval(new StubAdapter(), true)).toBe(30);
+  });
+
+  it('uses the default interval without an active delivery', () => {
+    expect(getPollingInterval(new StubAdapter(), false)).toBe(60);
+  });
+
+  it('clamps adapter intervals to the metadata bounds', () => {
+    const adapter = new StubAdapter();
+    adapter.getPollingInterval = () => 1000;
+    expect(getPollingInterval(adapter, false)).toBe(120);
+
+    adapter.getPollingInterval = () => 1;
+    expect(getPollingInterval(adapter, false)).toBe(30);
+  });
+});
+
+describe('getBackoffDelay', () => {
+  const bounds = { minPollingInterval: 30, maxPollingInterval: 120 };
+
+  it('backs off exponentially up to the maximum interval', () => {
+    const error = new Error('boom');
+    expect(getBackoffDelay(error, 30, 1, bounds)).toBe(60);
+    expect(getBackoffDelay(error, 30, 2, bounds)).toBe(120);
+    expect(getBackoffDelay(error, 30, 5, bounds)).toBe(120);
+  });
+
+  it('honours Retry-After from rate limit errors', () => {
+    const error = new PlatformRateLimitError('doordash', 600);
+    expect(getBackoffDelay(error, 30, 1, bounds)).toBe(600);
+  });
+
+  it('uses the exponential delay when it exceeds Retry-After', () => {
+    const error = new PlatformRateLimitError('doordash', 10);
+    expect(getBackoffDelay(error, 30, 2, bounds)).toBe(120);
+  });
+
+  it('waits the maximum interval after auth errors', () => {
+    expect(getBackoffDelay(new PlatformAuthError('doordash'), 30, 1, bounds)).toBe(120);
+  });
+});
+
+describe('PollingScheduler', () => {
+  let adapter: StubAdapter;
+  let scheduler: PollingScheduler;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    adapter = new StubAdapter();
+  });
+
+  afterEach(() => {
+    scheduler?.stop();
+    vi.useRealTimers();
+  });
+
+  function createScheduler(targets: PollTarget[] = [createTarget()]) {
+    const memory = createMemoryStore(targets);
+    const publisher = createPublisher();
+    const lifecycle = { processChanges: vi.fn().mockResolvedValue([]) };
+    const notifier = {
+      sendDeliveryUpdate: vi.fn().mockResolvedValue(true),
+      sendEtaSlipped: vi.fn().mockResolvedValue(false),
+    };
+    const webhooks = { enqueue: vi.fn().mockResolvedValue(0) };
+    const connections = createConnections();
+    scheduler = new PollingScheduler({
+      store: memory.store,
+      getAdapter: async () => adapter,
+      publisher,
+      connections,
+      lifecycle,
+      notifier,
+      webhooks,
+      syncIntervalMs: 10 * 60 * 1000,
+    });
+    return { ...memory, publisher, lifecycle, notifier, webhooks, connections };
+  }
+
+  it('polls every connection immediately on start', async () => {
+    const { synced } = createScheduler([
+      createTarget(),
+      createTarget({ connectionId: 'conn-2', userId: 'user-2' }),
+    ]);
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(adapter.getActiveDeliveries).toHaveBeenCalledTimes(2);
+    expect(adapter.getActiveDeliveries).toHaveBeenCalledWith(
+      expect.objectContaining({ accessToken: 'access-token', userId: 'user-1' })
+    );
+    expect(synced.map((s) => s.connectionId)).toEqual(['conn-1', 'conn-2']);
+  });
+
+  it('polls on the default interval when nothing is active', async () => {
+    createScheduler();
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(adapter.getActiveDeliveries).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(59 * 1000);
+    expect(adapter.getActiveDeliveries).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(adapter.getActiveDeliveries).toHaveBeenCalledTimes(2);
+  });
+
+  it('polls on the minimum interval while a delivery is active', async () => {
+    adapter.getActiveDeliveries.mockResolvedValue([
+      createMockDelivery({ platform: 'doordash', status: 'out_for_delivery' }),
+    ]);
+    createScheduler();
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+
+    expect(adapter.getActiveDeliveries).toHaveBeenCalledTimes(2);
+  });
+
+  it('writes deliveries to the store stamped as polled', async () => {
+    adapter.getActiveDeliveries.mockResolvedValue([
+      createMockDelivery({ platform: 'doordash', status: 'preparing', externalOrderId: 'A1' }),
+    ]);
+    const { cache } = createScheduler();
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    const cached = cache.get('A1');
+    expect(cached?.meta.fetchMethod).toBe('polling');
+    expect(cached?.meta.nextFetchAt).toBeInstanceOf(Date);
+  });
+
+  it('publishes only when status or ETA changes', async () => {
+    const delivery = createMockDelivery({
+      platform: 'doordash',
+      status: 'preparing',
+      externalOrderId: 'A1',
+      driver: undefined,
+    });
+    adapter.getActiveDeliveries.mockResolvedValue([delivery]);
+    const { publisher } = createScheduler();
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(publisher.publishDeliveryUpdate).toHaveBeenCalledTimes(1);
+
+    // Same data - no publish
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+    expect(publisher.publishDeliveryUpdate).toHaveBeenCalledTimes(1);
+
+    adapter.getActiveDeliveries.mockResolvedValue([{ ...delivery, status: 'driver_assigned' }]);
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+
+    expect(publisher.publishDeliveryUpdate).toHaveBeenCalledTimes(2);
+    expect(publisher.publishDeliveryUpdate).toHaveBeenLastCalledWith(
+      'user-1',
+      expect.objectContaining({ status: 'driver_assigned', previousStatus: 'preparing' })
+    );
+  });
+
+  it('publishes location updates when the driver moves', async () => {
+    const delivery = createMockDelivery({
+      platform: 'doordash',
+      status: 'out_for_delivery',
+      externalOrderId: 'A1',
+      driver: { name: 'Sam', location: { lat: 1, lng: 1, timestamp: new Date() } },
+    });
+    adapter.getActiveDeliveries.mockResolvedValue([delivery]);
+    const { publisher } = createScheduler();
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(publisher.publishLocationUpdate).toHaveBeenCalledTimes(1);
+
+    adapter.getActiveDeliveries.mockResolvedValue([
+      { ...delivery, driver: { name: 'Sam', location: { lat: 2, lng: 2, timestamp: new Date() } } },
+    ]);
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+
+    expect(publisher.publishLocationUpdate).toHaveBeenCalledTimes(2);
+    expect(publisher.publishLocationUpdate).toHaveBeenLastCalledWith(
+      'user-1',
+      delivery.id,
+      expect.objectContaining({ location: expect.objectContaining({ lat: 2, lng: 2 }) })
+    );
+  });
+
+  it('notifies on status changes but not on first sight', async () => {
+    const delivery = createMockDelivery({
+      platform: 'doordash',
+      status: 'preparing',
+      externalOrderId: 'A1',
+      driver: undefined,
+    });
+    adapter.getActiveDeliveries.mockResolvedValue([delivery]);
+    const { notifier } = createScheduler();
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(notifier.sendDeliveryUpdate).not.toHaveBeenCalled();
+
+    adapter.getActiveDeliveries.mockResolvedValue([{ ...delivery, status: 'driver_assigned' }]);
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+
+    expect(notifier.sendDeliveryUpdate).toHaveBeenCalledWith(
+      'user-1',
+      expect.objectContaining({ status: 'driver_assigned' }),
+      'preparing'
+    );
+  });
+
+  it('checks for ETA slips when the status is unchanged', async () => {
+    const delivery = createMockDelivery({
+      platform: 'doordash',
+      status: 'preparing',
+      externalOrderId: 'A1',
+      driver: undefined,
+    });
+    adapter.getActiveDeliveries.mockResolvedValue([delivery]);
+    const { notifier } = createScheduler();
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(notifier.sendEtaSlipped).not.toHaveBeenCalled();
+
+    const later = new Date(delivery.eta.estimatedArrival.getTime() + 20 * 60 * 1000);
+    adapter.getActiveDeliveries.mockResolvedValue([
+      { ...delivery, eta: { ...delivery.eta, estimatedArrival: later } },
+    ]);
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+
+    expect(notifier.sendEtaSlipped).toHaveBeenCalledWith(
+      'user-1',
+      expect.objectContaining({ eta: expect.objectContaining({ estimatedArrival: later }) }),
+      expect.objectContaining({ externalOrderId: 'A1', eta: delivery.eta })
+    );
+    expect(notifier.sendDeliveryUpdate).not.toHaveBeenCalled();
+  });
+
+  it('keeps polling when a notification fails', async () => {
+    const delivery = createMockDelivery({
+      platform: 'doordash',
+      status: 'preparing',
+      externalOrderId: 'A1',
+      driver: undefined,
+    });
+    adapter.getActiveDeliveries.mockResolvedValue([delivery]);
+    const { notifier, synced } = createScheduler();
+    notifier.sendDeliveryUpdate.mockRejectedValue(new Error('push down'));
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    adapter.getActiveDeliveries.mockResolvedValue([{ ...delivery, status: 'driver_assigned' }]);
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+
+    expect(notifier.sendDeliveryUpdate).toHaveBeenCalledTimes(1);
+    expect(synced).toHaveLength(2);
+  });
+
+  it('queues published updates for webhooks with the previous ETA', async () => {
+    const delivery = createMockDelivery({
+      platform: 'doordash',
+      status: 'out_for_delivery',
+      externalOrderId: 'A1',
+      driver: undefined,
+    });
+    adapter.getActiveDeliveries.mockResolvedValue([delivery]);
+    const { webhooks } = createScheduler();
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    adapter.getActiveDeliveries.mockResolvedValue([
+      { ...delivery, eta: { ...delivery.eta, minutesRemaining: 4 } },
+    ]);
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+
+    expect(webhooks.enqueue).toHaveBeenCalledTimes(2);
+    expect(webhooks.enqueue).toHaveBeenLastCalledWith(
+      'user-1',
+      expect.objectContaining({ eta: 4, previousEta: delivery.eta.minutesRemaining })
+    );
+  });
+
+  it('hands every batch of changes to the lifecycle service', async () => {
+    adapter.getActiveDeliveries.mockResolvedValue([
+      createMockDelivery({ platform: 'doordash', status: 'delivered', externalOrderId: 'A1' }),
+    ]);
+    const { lifecycle } = createScheduler();
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(lifecycle.processChanges).toHaveBeenCalledWith('user-1', [
+      expect.objectContaining({ delivery: expect.objectContaining({ externalOrderId: 'A1' }) }),
+    ]);
+  });
+
+  it('backs off after a rate limit error', async () => {
+    adapter.getActiveDeliveries.mockRejectedValueOnce(new PlatformRateLimitError('doordash', 300));
+    createScheduler();
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    const status = scheduler.getStatus('conn-1');
+    expect(status?.failureCount).toBe(1);
+    expect(status?.lastError).toContain('Rate limited');
+
+    await vi.advanceTimersByTimeAsync(299 * 1000);
+    expect(adapter.getActiveDeliveries).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(adapter.getActiveDeliveries).toHaveBeenCalledTimes(2);
+    expect(scheduler.getStatus('conn-1')?.failureCount).toBe(0);
+  });
+
+  it('drops connections that are no longer connected', async () => {
+    const targets = [createTarget(), createTarget({ connectionId: 'conn-2' })];
+    const { store } = createScheduler(targets);
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(adapter.getActiveDeliveries).toHaveBeenCalledTimes(2);
+
+    vi.mocked(store.listConnections).mockResolvedValue([createTarget()]);
+    await scheduler.syncConnections();
+
+    expect(scheduler.getStatus('conn-2')).toBeUndefined();
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(adapter.getActiveDeliveries).toHaveBeenCalledTimes(3);
+  });
+
+  it('records a failure when a connection has no access token', async () => {
+    createScheduler([createTarget({ accessTokenEncrypted: null })]);
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(adapter.getActiveDeliveries).not.toHaveBeenCalled();
+    expect(scheduler.getStatus('conn-1')?.failureCount).toBe(1);
+  });
+
+  it('refreshes tokens before polling and records success', async () => {
+    const { connections } = createScheduler();
+    const refreshed = createTarget({ accessTokenEncrypted: encryptToken('refreshed-token') });
+    connections.ensureFresh.mockResolvedValueOnce(refreshed);
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(connections.ensureFresh).toHaveBeenCalledWith(
+      expect.objectContaining({ connectionId: 'conn-1' }),
+      false
+    );
+    expect(adapter.getActiveDeliveries).toHaveBeenCalledWith(
+      expect.objectContaining({ accessToken: 'refreshed-token' })
+    );
+    expect(connections.recordSuccess).toHaveBeenCalledWith(refreshed);
+  });
+
+  it('forces a token refresh after an auth error', async () => {
+    adapter.getActiveDeliveries.mockRejectedValueOnce(new PlatformAuthError('doordash'));
+    const { connections } = createScheduler();
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(connections.recordFailure).toHaveBeenCalledWith(
+      expect.objectContaining({ connectionId: 'conn-1' }),
+      expect.any(PlatformAuthError)
+    );
+
+    await vi.advanceTimersByTimeAsync(120 * 1000);
+    expect(connections.ensureFresh).toHaveBeenLastCalledWith(expect.anything(), true);
+  });
+
+  it('stops polling once the connection expires', async () => {
+    adapter.getActiveDeliveries.mockRejectedValue(new PlatformAuthError('doordash'));
+    const { connections } = createScheduler();
+    connections.recordFailure.mockImplementation(async (connection) => ({
+      ...connection,
+      status: 'expired' as const,
+    }));
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    await vi.advanceTimersByTimeAsync(10 * 60 * 1000 - 1);
+
+    expect(adapter.getActiveDeliveries).toHaveBeenCalledTimes(1);
+    expect(scheduler.getStatus('conn-1')).toBeUndefined();
+  });
+
+  it('skips the poll when a token refresh expires the connection', async () => {
+    const { connections } = createScheduler();
+    connections.ensureFresh.mockImplementationOnce(async (connection) => ({
+      ...connection,
+      status: 'expired' as const,
+    }));
+
+    await scheduler.start();
+    const result = await scheduler.pollNow('conn-1');
+
+    expect(result?.success).toBe(false);
+    expect(adapter.getActiveDeliveries).not.toHaveBeenCalled();
+    expect(scheduler.getStatus('conn-1')).toBeUndefined();
+  });
+
+  it('polls on demand with pollNow', async () => {
+    createScheduler();
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    const result = await scheduler.pollNow('conn-1');
+
+    expect(result).toMatchObject({ success: true, nextPollIn: 60 });
+    expect(adapter.getActiveDeliveries).toHaveBeenCalledTimes(2);
+    expect(await scheduler.pollNow('missing')).toBeNull();
+  });
+
+  it('stops all timers on stop', async () => {
+    createScheduler();
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    scheduler.stop();
+
+    await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+    expect(adapter.getActiveDeliveries).toHaveBeenCalledTimes(1);
+    expect(scheduler.isRunning()).toBe(false);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Security log tests
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import type { Database } from '@/lib/db';
+import {
+  type ChainedSecurityEvent,
+  getRequestMeta,
+  hashSecurityEvent,
+  recordSecurityEvent,
+  SECURITY_LOG_GENESIS_HASH,
+  verifySecurityChain,
+} from '@/lib/services/security-log';
+
+/**
+ * Build a valid chain of the given events
+ */
+function createChain(events: ChainedSecurityEvent['event'][]) {
+  const chain: Array<ChainedSecurityEvent & { hash: string }> = [];
+
+  for (const [index, event] of events.entries()) {
+    const entry: ChainedSecurityEvent = {
+      userId: 'user-1',
+      sequence: index + 1,
+      event,
+      ipAddress: '203.0.113.7',
+      userAgent: 'Mozilla/5.0',
+      details: { platform: 'instacart', method: 'oauth' },
+      createdAt: new Date(Date.UTC(2026, 2, 1, 12, index)),
+      prevHash: chain[index - 1]?.hash ?? SECURITY_LOG_GENESIS_HASH,
+    };
+    chain.push({ ...entry, hash: hashSecurityEvent(entry) });
+  }
+
+  return chain;
+}
+
+/**
+ * A database whose log ends at the given entry and whose inserts can conflict
+ */
+function createAppendDatabase(
+  last: { sequence: number; hash: string } | undefined,
+  conflicts = 0
+) {
+  const inserts: Array<Record<string, unknown>> = [];
+  let remainingConflicts = conflicts;
+
+  const database = {
+    query: { securityEvents: { findFirst: vi.fn().mockResolvedValue(last) } },
+    insert: vi.fn(() => ({
+      values: vi.fn((values: Record<string, unknown>) => ({
+        onConflictDoNothing: vi.fn(() => ({
+          returning: vi.fn(async () => {
+            inserts.push(values);
+            if (remainingConflicts > 0) {
+              remainingConflicts -= 1;
+              return [];
+            }
+            return [{ id: 'event-1' }];
+          }),
+        })),
+      })),
+    })),
+  } as unknown as Database;
+
+  return { database, inserts };
+}
+
+describe('getRequestMeta', () => {
+  it('uses the first forwarded address and the user agent', () => {
+    const headers = new Headers({
+      'x-forwarded-for': '203.0.113.7, 10.0.0.1',
+      'x-real-ip': '10.0.0.2',
+      'user-agent': 'Mozilla/5.0',
+    });
+
+    expect(getRequestMeta(headers)).toEqual({
+      ipAddress: '203.0.113.7',
+      userAgent: 'Mozilla/5.0',
+    });
+  });
+
+  it('falls back to x-real-ip and null', () => {
+    expect(getRequestMeta(new Headers({ 'x-real-ip': '10.0.0.2' }))).toEqual({
+      ipAddress: '10.0.0.2',
+      userAgent: null,
+    });
+  });
+});
+
+describe('hashSecurityEvent', () => {
+  it('ignores the key order of details', () => {
+    const [entry] = createChain(['platform_connected']);
+    const reordered = { ...entry!, details: { method: 'oauth', platform: 'instacart' } };
+
+    expect(hashSecurityEvent(reordered)).toBe(entry!.hash);
+  });
+
+  it('covers the previous hash', () => {
+    const [entry] = createChain(['sign_in']);
+
+    expect(hashSecurityEvent({ ...entry!, prevHash: 'f'.repeat(64) })).not.toBe(entry!.hash);
+  });
+});
+
+describe('verifySecurityChain', () => {
+  it('accepts an untouched chain', () => {
+    const chain = createChain(['sign_in', 'platform_connected', 'token_refreshed']);
+
+    expect(verifySecurityChain(chain)).toEqual({ valid: true, entries: 3 });
+  });
+
+  it('detects an edited entry', () => {
+    const chain = createChain(['sign_in', 'platform_connected', 'token_refreshed']);
+    chain[1] = { ...chain[1]!, ipAddress: '198.51.100.1' };
+
+    expect(verifySecurityChain(chain)).toEqual({
+      valid: false,
+      entries: 1,
+      sequence: 2,
+      reason: 'hash_mismatch',
+    });
+  });
+
+  it('detects a removed entry', () => {
+    const chain = createChain(['sign_in', 'platform_connected', 'token_refreshed']);
+    chain.splice(1, 1);
+
+    expect(verifySecurityChain(chain)).toMatchObject({
+      valid: false,
+      sequence: 2,
+      reason: 'broken_link',
+    });
+  });
+
+  it('continues from the entry before a page', () => {
+    const chain = createChain(['sign_in', 'platform_connected', 'token_refreshed']);
+
+    expect(verifySecurityChain(chain.slice(1), chain[0])).toEqual({ valid: true, entries: 2 });
+    expect(verifySecurityChain(chain.slice(1))).toMatchObject({ valid: false });
+  });
+});
+
+describe('recordSecurityEvent', () => {
+  it('chains the new entry onto the last one', async () => {
+    const [last] = createChain(['sign_in']);
+    const { database, inserts } = createAppendDatabase(last);
+
+    await recordSecurityEvent(
+      { userId: 'user-1', event: 'account_deleted', request: getRequestMeta(new Headers()) },
+      database
+    );
+
+    const [entry] = inserts as [ChainedSecurityEvent & { hash: string }];
+    expect(entry).toMatchObject({ sequence: 2, prevHash: last!.hash, event: 'account_deleted' });
+    expect(verifySecurityChain([entry], last)).toEqual({ valid: true, entries: 1 });
+  });
+
+  it('retries when another append took the sequence', async () => {
+    const { database, inserts } = createAppendDatabase(undefined, 1);
+
+    await recordSecurityEvent({ userId: 'user-1', event: 'sign_in' }, database);
+
+    expect(inserts).toHaveLength(2);
+  });
+
+  it('does not throw when the write fails', async () => {
+    const database = {
+      query: { securityEvents: { findFirst: vi.fn().mockRejectedValue(new Error('down')) } },
+    } as unknown as Database;
+
+    await expect(
+      recordSecurityEvent({ userId: 'user-1', event: 'sign_in' }, database)
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Delivery share link tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  generateShareToken,
+  hashShareToken,
+  redactSharedDelivery,
+} from '@/lib/services/shares';
+import type { UnifiedDelivery } from '@/types/delivery';
+import { createMockDelivery } from '../../utils/fixtures';
+
+/**
+ * An out-for-delivery order with every private field filled in
+ */
+function createSharedDelivery(): UnifiedDelivery {
+  const delivery = createMockDelivery({ platform: 'doordash', status: 'out_for_delivery' });
+  delivery.destination.instructions = 'Gate code 4321';
+  delivery.order.specialInstructions = 'Leave at the back door';
+  delivery.tracking.url = 'https://doordash.com/orders/abc';
+  delivery.tracking.liveUpdates = true;
+  delivery.carrier = { name: 'UPS', trackingNumber: '1Z999AA10123456784' };
+  delivery.meta.rawData = { accessToken: 'secret' };
+  return delivery;
+}
+
+describe('share tokens', () => {
+  it('generates distinct prefixed tokens', () => {
+    const token = generateShareToken();
+
+    expect(token).toMatch(/^shr_[A-Za-z0-9_-]{32}$/);
+    expect(generateShareToken()).not.toBe(token);
+  });
+
+  it('hashes tokens deterministically', () => {
+    const token = generateShareToken();
+
+    expect(hashShareToken(token)).toBe(hashShareToken(token));
+    expect(hashShareToken(token)).toMatch(/^[a-f0-9]{64}$/);
+  });
+});
+
+describe('redactSharedDelivery', () => {
+  it('leaves out order items, prices and account details', () => {
+    const shared = redactSharedDelivery(createSharedDelivery(), 'driver');
+
+    expect(shared.order).toEqual({ itemCount: expect.any(Number) });
+    expect(shared.destination).not.toHaveProperty('instructions');
+    expect(shared.tracking.url).toBeUndefined();
+    expect(shared.tracking.contactDriverAvailable).toBe(false);
+    expect(shared.carrier).toEqual({ name: 'UPS' });
+    expect(shared.meta).not.toHaveProperty('rawData');
+    expect(JSON.stringify(shared)).not.toContain('secret');
+  });
+
+  it('shows the driver name, vehicle and location, but never the phone', () => {
+    const delivery = createSharedDelivery();
+    const shared = redactSharedDelivery(delivery, 'driver');
+
+    expect(shared.driver?.name).toBe(delivery.driver?.name);
+    expect(shared.driver?.vehicle?.make).toBe(delivery.driver?.vehicle?.make);
+    expect(shared.driver?.location?.lat).toBe(delivery.driver?.location?.lat);
+    expect(shared.driver).not.toHaveProperty('phone');
+    expect(shared.driver).not.toHaveProperty('photo');
+    expect(shared.driver?.vehicle).not.toHaveProperty('licensePlate');
+  });
+
+  it('shows only the location at the location level', () => {
+    const delivery = createSharedDelivery();
+    const shared = redactSharedDelivery(delivery, 'location');
+
+    expect(shared.driver).toEqual({ location: delivery.driver?.location });
+    expect(shared.tracking.liveUpdates).toBe(true);
+  });
+
+  it('hides the driver entirely at the eta level', () => {
+    const shared = redactSharedDelivery(createSharedDelivery(), 'eta');
+
+    expect(shared.driver).toBeUndefined();
+    expect(shared.tracking.liveUpdates).toBe(false);
+  });
+
+  it('turns dates read back from jsonb into Date objects', () => {
+    const delivery = createSharedDelivery();
+    const stored = JSON.parse(JSON.stringify(delivery)) as UnifiedDelivery;
+
+    const shared = redactSharedDelivery(stored, 'location');
+
+    expect(shared.eta.estimatedArrival).toEqual(delivery.eta.estimatedArrival);
+    expect(shared.timestamps.ordered).toBeInstanceOf(Date);
+    expect(shared.driver?.location?.timestamp).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Timezone helper tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  fromZonedDateTime,
+  getZonedDateTime,
+  getZonedStartOfDay,
+  isValidTimeZone,
+  parseTimeOfDay,
+} from '@/lib/timezone';
+
+describe('timezone', () => {
+  describe('isValidTimeZone', () => {
+    it('accepts IANA zones and rejects unknown ones', () => {
+      expect(isValidTimeZone('America/New_York')).toBe(true);
+      expect(isValidTimeZone('UTC')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    });
+  });
+
+  describe('getZonedDateTime', () => {
+    it('returns the wall-clock time in a zone', () => {
+      const instant = new Date('2026-10-19T03:30:00Z');
+
+      expect(getZonedDateTime(instant, 'America/Los_Angeles')).toEqual({
+        year: 2026,
+        month: 10,
+        day: 18,
+        hour: 20,
+        minute: 30,
+        weekday: 0,
+      });
+      expect(getZonedDateTime(instant, 'Asia/Tokyo')).toMatchObject({ day: 19, hour: 12 });
+    });
+  });
+
+  describe('fromZonedDateTime', () => {
+    it('converts a wall-clock time back to an instant', () => {
+      const instant = fromZonedDateTime(
+        { year: 2026, month: 7, day: 1, hour: 7, minute: 0 },
+        'America/New_York'
+      );
+      expect(instant.toISOString()).toBe('2026-07-01T11:00:00.000Z');
+    });
+
+    it('uses the offset in effect after a DST change', () => {
+      // US clocks fall back on 2026-11-01
+      const instant = fromZonedDateTime(
+        { year: 2026, month: 11, day: 2, hour: 7 },
+        'America/New_York'
+      );
+      expect(instant.toISOString()).toBe('2026-11-02T12:00:00.000Z');
+    });
+  });
+
+  describe('getZonedStartOfDay', () => {
+    it('returns local midnight', () => {
+      const now = new Date('2026-10-19T15:00:00Z');
+      expect(getZonedStartOfDay(now, 'America/Chicago').toISOString()).toBe(
+        '2026-10-19T05:00:00.000Z'
+      );
+    });
+
+    it('supports day offsets across month boundaries', () => {
+      const now = new Date('2026-11-01T12:00:00Z');
+      expect(getZonedStartOfDay(now, 'UTC', -1).toISOString()).toBe('2026-10-31T00:00:00.000Z');
+      expect(getZonedStartOfDay(now, 'UTC', 30).toISOString()).toBe('2026-12-01T00:00:00.000Z');
+    });
+  });
+
+  describe('parseTimeOfDay', () => {
+    it('parses 24-hour times', () => {
+      expect(parseTimeOfDay('07:30')).toBe(450);
+      expect(parseTimeOfDay('23:59')).toBe(1439);
+    });
+
+    it('rejects malformed times', () => {
+      expect(parseTimeOfDay('24:00')).toBeNull();
+      expect(parseTimeOfDay('7:30')).toBeNull();
+      expect(parseTimeOfDay('')).toBeNull();
+    });
+  });
+});
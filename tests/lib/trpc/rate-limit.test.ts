@@ -0,0 +1,101 @@
+/**
+ * tRPC rate limit middleware tests
+ */
+
+import { TRPCError } from '@trpc/server';
+import { describe, it, expect, vi } from 'vitest';
+import { RateLimitError } from '@/lib/errors';
+import type { Context } from '@/lib/trpc/context';
+import {
+  createCallerFactory,
+  protectedProcedure,
+  publicProcedure,
+  router,
+} from '@/lib/trpc/init';
+
+vi.mock('@/lib/auth', () => ({ auth: vi.fn() }));
+
+const testRouter = router({
+  delivery: router({
+    getActive: protectedProcedure.query(() => 'ok'),
+  }),
+  ping: publicProcedure.query(() => 'pong'),
+});
+
+const createCaller = createCallerFactory(testRouter);
+
+/**
+ * Build a context for a signed-in user, or a signed-out caller from an IP address
+ */
+function createContext(
+  options: { userId?: string; ip?: string; source?: Context['source'] } = {}
+): Context {
+  const user = options.userId
+    ? { id: options.userId, email: `${options.userId}@example.com` }
+    : null;
+
+  return {
+    db: {} as Context['db'],
+    redis: null,
+    session: user ? { user, expires: new Date(Date.now() + 60_000).toISOString() } : null,
+    user,
+    headers: new Headers(options.ip ? { 'x-forwarded-for': options.ip } : {}),
+    source: options.source ?? 'client',
+  };
+}
+
+/**
+ * Call a procedure until it is refused, returning the calls that went through and the error
+ */
+async function callUntilRefused(call: () => Promise<unknown>, max = 200) {
+  for (let calls = 0; calls < max; calls++) {
+    try {
+      await call();
+    } catch (error) {
+      return { calls, error };
+    }
+  }
+  return { calls: max, error: null };
+}
+
+describe('rate limit middleware', () => {
+  it('gives expensive procedures a tighter per-user budget', async () => {
+    const caller = createCaller(createContext({ userId: 'rate-user-1' }));
+
+    const { calls, error } = await callUntilRefused(() => caller.delivery.getActive());
+
+    expect(calls).toBe(30);
+    expect(error).toBeInstanceOf(TRPCError);
+    expect((error as TRPCError).code).toBe('TOO_MANY_REQUESTS');
+    expect((error as TRPCError).cause).toBeInstanceOf(RateLimitError);
+    expect(((error as TRPCError).cause as RateLimitError).retryAfter).toBeGreaterThan(0);
+  });
+
+  it('keeps budgets separate for each user', async () => {
+    const first = createCaller(createContext({ userId: 'rate-user-2' }));
+    const second = createCaller(createContext({ userId: 'rate-user-3' }));
+
+    await callUntilRefused(() => first.delivery.getActive());
+
+    await expect(second.delivery.getActive()).resolves.toBe('ok');
+  });
+
+  it('limits signed-out callers by IP address', async () => {
+    const caller = createCaller(createContext({ ip: '203.0.113.7' }));
+    const other = createCaller(createContext({ ip: '203.0.113.8' }));
+
+    const { calls, error } = await callUntilRefused(() => caller.ping());
+
+    expect(calls).toBe(100);
+    expect((error as TRPCError).code).toBe('TOO_MANY_REQUESTS');
+    await expect(other.ping()).resolves.toBe('pong');
+  });
+
+  it('does not limit server-side calls', async () => {
+    const caller = createCaller(createContext({ userId: 'rate-user-4', source: 'server' }));
+
+    const { calls } = await callUntilRefused(() => caller.delivery.getActive(), 40);
+
+    expect(calls).toBe(40);
+  });
+});
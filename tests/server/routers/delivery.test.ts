@@ -0,0 +1,174 @@
+/**
+ * Delivery router subscription tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { Context } from '@/lib/trpc/context';
+import { createCallerFactory } from '@/lib/trpc/init';
+import { publishDeliveryUpdate, publishLocationUpdate } from '@/lib/realtime/pubsub';
+import { upsertCachedDeliveries } from '@/lib/services/delivery-cache';
+import { getHouseholdPeers } from '@/lib/services/households';
+import { deliveryLifecycle } from '@/lib/services/lifecycle';
+import { pollingScheduler } from '@/lib/services/polling';
+import { deliveryRouter } from '@/server/routers/delivery';
+import { createMockDelivery, createMockDriverLocation } from '../../utils/fixtures';
+
+vi.mock('@/lib/auth', () => ({ auth: vi.fn() }));
+
+vi.mock('@/lib/services/households', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/services/households')>()),
+  getHouseholdPeers: vi.fn(async () => []),
+  getDeckUserIds: vi.fn(async (userId: string) => [userId]),
+}));
+
+vi.mock('@/lib/services/delivery-cache', () => ({ upsertCachedDeliveries: vi.fn() }));
+
+vi.mock('@/lib/services/lifecycle', () => ({
+  deliveryLifecycle: { processChanges: vi.fn(async () => []) },
+}));
+
+vi.mock('@/lib/services/polling', () => ({
+  pollingScheduler: { publishChanges: vi.fn(async () => {}) },
+}));
+
+const createCaller = createCallerFactory(deliveryRouter);
+
+/**
+ * Build a context for a signed-in user whose cache holds the given delivery ids
+ */
+function createContext(userId: string, ownedDeliveryIds: string[] = []): Context {
+  const findFirst = vi.fn(async () =>
+    ownedDeliveryIds.length > 0 ? { id: 'cache-1' } : undefined
+  );
+  const user = { id: userId, email: `${userId}@example.com` };
+
+  const findMany = vi.fn(async () => []);
+
+  return {
+    db: {
+      query: { deliveryCache: { findFirst, findMany }, platformConnections: { findMany } },
+    } as unknown as Context['db'],
+    redis: null,
+    session: { user, expires: new Date(Date.now() + 60_000).toISOString() },
+    user,
+    headers: new Headers(),
+    source: 'client',
+  };
+}
+
+interface Subscribable<T> {
+  subscribe(observer: {
+    next: (value: T) => void;
+    error: (error: unknown) => void;
+  }): { unsubscribe: () => void };
+}
+
+/**
+ * Subscribe and resolve with the first value (or reject with the first error)
+ */
+function listen<T>(stream: Subscribable<T>) {
+  let unsubscribe = () => {};
+  const first = new Promise<T>((resolve, reject) => {
+    unsubscribe = stream.subscribe({ next: resolve, error: reject }).unsubscribe;
+  });
+  return { first, unsubscribe: () => unsubscribe() };
+}
+
+/**
+ * Let the asynchronous subscription setup finish
+ */
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('deliveryRouter.getActive', () => {
+  it('reports changes it writes to the cache the way the poller does', async () => {
+    const previous = createMockDelivery({ status: 'preparing' });
+    const delivery = { ...previous, status: 'out_for_delivery' as const };
+    const changes = [{ delivery, previous, timeline: [] }];
+    vi.mocked(upsertCachedDeliveries).mockResolvedValueOnce(changes);
+    const caller = createCaller(createContext('user-1'));
+
+    await expect(caller.getActive()).resolves.toEqual([delivery]);
+
+    expect(pollingScheduler.publishChanges).toHaveBeenCalledWith('user-1', changes);
+    expect(deliveryLifecycle.processChanges).toHaveBeenCalledWith('user-1', changes);
+  });
+});
+
+describe('deliveryRouter.onUpdate', () => {
+  it('streams deliveries published for the current user', async () => {
+    const caller = createCaller(createContext('user-1'));
+    const delivery = createMockDelivery();
+
+    const stream = listen(await caller.onUpdate());
+    await settle();
+    await publishDeliveryUpdate('user-1', {
+      deliveryId: delivery.id,
+      platform: delivery.platform,
+      status: delivery.status,
+      statusLabel: delivery.statusLabel,
+      delivery,
+    });
+
+    expect((await stream.first).id).toBe(delivery.id);
+    stream.unsubscribe();
+  });
+});
+
+describe('deliveryRouter.onUpdate in a household', () => {
+  it("streams other members' deliveries tagged with their owner", async () => {
+    vi.mocked(getHouseholdPeers).mockResolvedValueOnce([
+      { householdId: 'h-1', userId: 'user-1', name: 'Alex', role: 'admin', color: '#06B6D4' },
+      { householdId: 'h-1', userId: 'user-2', name: 'Sam', role: 'viewer', color: '#F59E0B' },
+    ]);
+    const caller = createCaller(createContext('user-1'));
+    const delivery = createMockDelivery();
+    delivery.meta.rawData = { accessToken: 'secret' };
+
+    const stream = listen(await caller.onUpdate());
+    await settle();
+    await publishDeliveryUpdate('user-2', {
+      deliveryId: delivery.id,
+      platform: delivery.platform,
+      status: delivery.status,
+      statusLabel: delivery.statusLabel,
+      delivery,
+    });
+
+    const shared = await stream.first;
+    expect(shared.owner).toEqual({ userId: 'user-2', name: 'Sam', color: '#F59E0B' });
+    expect(shared.meta).not.toHaveProperty('rawData');
+    stream.unsubscribe();
+  });
+});
+
+describe('deliveryRouter.onLocationUpdate', () => {
+  it('streams driver locations for an owned delivery', async () => {
+    const caller = createCaller(createContext('user-1', ['d-1']));
+    const location = createMockDriverLocation();
+
+    const stream = listen(await caller.onLocationUpdate({ deliveryId: 'd-1' }));
+    await settle();
+    await publishLocationUpdate('user-1', 'd-1', {
+      deliveryId: 'd-1',
+      platform: 'doordash',
+      location,
+    });
+
+    expect((await stream.first).lat).toBe(location.lat);
+    stream.unsubscribe();
+  });
+
+  it("rejects another user's delivery", async () => {
+    const caller = createCaller(createContext('user-2'));
+
+    const stream = listen(await caller.onLocationUpdate({ deliveryId: 'd-1' }));
+
+    await expect(stream.first).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('requires a signed-in user', async () => {
+    const caller = createCaller({ ...createContext('user-1'), session: null, user: null });
+
+    await expect(caller.onUpdate()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Notification router push subscription tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Context } from '@/lib/trpc/context';
+import { createCallerFactory } from '@/lib/trpc/init';
+import { notificationService } from '@/lib/services/notifications';
+import { notificationRouter } from '@/server/routers/notification';
+
+vi.mock('@/lib/auth', () => ({ auth: vi.fn() }));
+
+vi.mock('@/lib/services/notifications', () => ({
+  notificationService: {
+    registerPushSubscription: vi.fn(async () => 'subscription-1'),
+  },
+}));
+
+const createCaller = createCallerFactory(notificationRouter);
+
+function createContext(): Context {
+  const user = { id: 'user-1', email: 'user-1@example.com' };
+
+  return {
+    db: undefined as unknown as Context['db'],
+    redis: null,
+    session: { user, expires: new Date(Date.now() + 60_000).toISOString() },
+    user,
+    headers: new Headers({ 'user-agent': 'Test Browser' }),
+    source: 'client',
+  };
+}
+
+const keys = { p256dh: 'p256dh-key', auth: 'auth-secret' };
+
+describe('notificationRouter.subscribePush', () => {
+  beforeEach(() => {
+    vi.mocked(notificationService.registerPushSubscription).mockClear();
+  });
+
+  it('registers push service endpoints', async () => {
+    const caller = createCaller(createContext());
+    const endpoint = 'https://fcm.googleapis.com/fcm/send/abc123';
+
+    await expect(caller.subscribePush({ endpoint, keys })).resolves.toEqual({
+      id: 'subscription-1',
+    });
+    expect(notificationService.registerPushSubscription).toHaveBeenCalledWith(
+      'user-1',
+      { endpoint, keys },
+      'Test Browser'
+    );
+  });
+
+  it.each([
+    ['plain http', 'http://push.example.com/send/abc'],
+    ['localhost', 'https://localhost/send/abc'],
+    ['a private IPv4 address', 'https://192.168.1.5/send/abc'],
+    ['a 10/8 address', 'https://10.0.0.1/send/abc'],
+    ['a link-local address', 'https://169.254.169.254/latest/meta-data'],
+    ['an IPv4-mapped IPv6 address', 'https://[::ffff:7f00:1]/send/abc'],
+    ['the IPv6 loopback', 'https://[::1]/send/abc'],
+  ])('rejects %s', async (_label, endpoint) => {
+    const caller = createCaller(createContext());
+
+    await expect(caller.subscribePush({ endpoint, keys })).rejects.toMatchObject({
+      code: 'BAD_REQUEST',
+    });
+    expect(notificationService.registerPushSubscription).not.toHaveBeenCalled();
+  });
+});
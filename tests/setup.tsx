@@ -25,41 +25,58 @@ beforeAll(() => {
   vi.stubEnv('UPSTASH_REDIS_TOKEN', 'test-redis-token');
 });
 
-// Mock window.matchMedia
-Object.defineProperty(window, 'matchMedia', {
-  writable: true,
-  value: vi.fn().mockImplementation((query) => ({
-    matches: false,
-    media: query,
-    onchange: null,
-    addListener: vi.fn(),
-    removeListener: vi.fn(),
-    addEventListener: vi.fn(),
-    removeEventListener: vi.fn(),
-    dispatchEvent: vi.fn(),
-  })),
-});
-
-// Mock IntersectionObserver
-class MockIntersectionObserver implements IntersectionObserver {
-  readonly root: Element | Document | null = null;
-  readonly rootMargin: string = '';
-  readonly thresholds: ReadonlyArray<number> = [];
-
-  observe = vi.fn();
-  disconnect = vi.fn();
-  unobserve = vi.fn();
-  takeRecords = vi.fn().mockReturnValue([]);
-}
-window.IntersectionObserver = MockIntersectionObserver;
-
-// Mock ResizeObserver
-class MockResizeObserver implements ResizeObserver {
-  observe = vi.fn();
-  disconnect = vi.fn();
-  unobserve = vi.fn();
+// Browser APIs, for tests in the default jsdom environment
+if (typeof window !== 'undefined') {
+  // Mock window.matchMedia
+  Object.defineProperty(window, 'matchMedia', {
+    writable: true,
+    value: vi.fn().mockImplementation((query) => ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: vi.fn(),
+      removeListener: vi.fn(),
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+      dispatchEvent: vi.fn(),
+    })),
+  });
+
+  // Mock IntersectionObserver
+  class MockIntersectionObserver implements IntersectionObserver {
+    readonly root: Element | Document | null = null;
+    readonly rootMargin: string = '';
+    readonly thresholds: ReadonlyArray<number> = [];
+
+    observe = vi.fn();
+    disconnect = vi.fn();
+    unobserve = vi.fn();
+    takeRecords = vi.fn().mockReturnValue([]);
+  }
+  window.IntersectionObserver = MockIntersectionObserver;
+
+  // Mock ResizeObserver
+  class MockResizeObserver implements ResizeObserver {
+    observe = vi.fn();
+    disconnect = vi.fn();
+    unobserve = vi.fn();
+  }
+  window.ResizeObserver = MockResizeObserver;
+
+  // Mock requestAnimationFrame
+  window.requestAnimationFrame = vi.fn((callback) => {
+    callback(Date.now());
+    return 0;
+  });
+
+  window.cancelAnimationFrame = vi.fn();
+
+  // Mock scrollTo
+  window.scrollTo = vi.fn();
+
+  // Mock scrollIntoView
+  Element.prototype.scrollIntoView = vi.fn();
 }
-window.ResizeObserver = MockResizeObserver;
 
 // Mock crypto.randomUUID
 Object.defineProperty(globalThis, 'crypto', {
@@ -69,20 +86,6 @@ Object.defineProperty(globalThis, 'crypto', {
   },
 });
 
-// Mock requestAnimationFrame
-window.requestAnimationFrame = vi.fn((callback) => {
-  callback(Date.now());
-  return 0;
-});
-
-window.cancelAnimationFrame = vi.fn();
-
-// Mock scrollTo
-window.scrollTo = vi.fn();
-
-// Mock scrollIntoView
-Element.prototype.scrollIntoView = vi.fn();
-
 // Mock MapLibre GL (heavy library)
 vi.mock('maplibre-gl', () => ({
   default: {
@@ -0,0 +1,423 @@
+/**
+ * Conformance suite for platform adapters
+ *
+ * describeAdapterContract() runs the checks every PlatformAdapter subclass has
+ * to pass against a cassette of recorded responses: deliveries are valid
+ * UnifiedDeliverys, every documented status has a mapping, HTTP errors surface
+ * as the adapter error classes, and webhooks verify and normalize. The calling
+ * test file starts and stops the msw server.
+ */
+
+import { HttpResponse, http } from 'msw';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import type { PlatformAdapter } from '@/lib/adapters/base';
+import {
+  PlatformAuthError,
+  PlatformRateLimitError,
+  PlatformUnavailableError,
+} from '@/lib/adapters/errors';
+import { getStatusMap } from '@/lib/adapters/status-map';
+import type { AdapterConnection, WebhookPayload } from '@/lib/adapters/types';
+import type { DeliveryStatus, UnifiedDelivery } from '@/types/delivery';
+import type { Platform } from '@/types/platform';
+import { server } from '../mocks/server';
+import { ALL_PLATFORMS, ALL_STATUSES } from './fixtures';
+import { openCassette } from './http-cassette';
+
+const statusSchema = z.enum(ALL_STATUSES as [DeliveryStatus, ...DeliveryStatus[]]);
+
+const windowSchema = z.object({ start: z.date(), end: z.date() });
+
+/**
+ * Runtime schema for UnifiedDelivery
+ * Dates must be valid, coordinates in range and counts non-negative.
+ */
+export const unifiedDeliverySchema: z.ZodType<UnifiedDelivery> = z.object({
+  id: z.string().min(1),
+  platform: z.enum(ALL_PLATFORMS as [Platform, ...Platform[]]),
+  externalOrderId: z.string().min(1),
+  label: z.string().optional(),
+  owner: z
+    .object({ userId: z.string(), name: z.string().nullable(), color: z.string() })
+    .optional(),
+  fulfillment: z.enum(['delivery', 'pickup', 'shipping']).optional(),
+
+  status: statusSchema,
+  statusLabel: z.string().min(1),
+  statusUpdatedAt: z.date(),
+
+  driver: z
+    .object({
+      name: z.string().optional(),
+      photo: z.string().optional(),
+      phone: z.string().optional(),
+      rating: z.number().optional(),
+      vehicle: z
+        .object({
+          make: z.string().optional(),
+          model: z.string().optional(),
+          color: z.string().optional(),
+          licensePlate: z.string().optional(),
+        })
+        .optional(),
+      location: z
+        .object({
+          lat: z.number().min(-90).max(90),
+          lng: z.number().min(-180).max(180),
+          heading: z.number().optional(),
+          speed: z.number().nonnegative().optional(),
+          accuracy: z.number().nonnegative().optional(),
+          timestamp: z.date(),
+        })
+        .optional(),
+    })
+    .optional(),
+
+  destination: z.object({
+    address: z.string(),
+    addressLine1: z.string().optional(),
+    city: z.string().optional(),
+    state: z.string().optional(),
+    zipCode: z.string().optional(),
+    lat: z.number().min(-90).max(90),
+    lng: z.number().min(-180).max(180),
+    instructions: z.string().optional(),
+  }),
+
+  eta: z.object({
+    estimatedArrival: z.date(),
+    minutesRemaining: z.number().nonnegative(),
+    distanceRemaining: z
+      .object({ value: z.number().nonnegative(), unit: z.enum(['miles', 'km']) })
+      .optional(),
+    stopsRemaining: z.number().int().nonnegative().optional(),
+    trafficConditions: z.enum(['light', 'moderate', 'heavy']).optional(),
+    confidence: z.enum(['high', 'medium', 'low']),
+    window: windowSchema.optional(),
+    revisions: z.array(z.object({ estimatedArrival: z.date(), observedAt: z.date() })).optional(),
+  }),
+
+  carrier: z.object({ name: z.string().min(1), trackingNumber: z.string().optional() }).optional(),
+
+  pickup: z
+    .object({
+      storeName: z.string().optional(),
+      storePhone: z.string().optional(),
+      window: windowSchema.optional(),
+    })
+    .optional(),
+
+  events: z
+    .array(
+      z.object({
+        status: statusSchema,
+        timestamp: z.date(),
+        message: z.string().optional(),
+        location: z.object({ lat: z.number(), lng: z.number() }).optional(),
+      })
+    )
+    .optional(),
+
+  order: z.object({
+    itemCount: z.number().int().nonnegative(),
+    totalAmount: z.number().nonnegative().optional(),
+    currency: z.string().length(3).optional(),
+    items: z
+      .array(
+        z.object({
+          name: z.string().min(1),
+          quantity: z.number().positive(),
+          unitPrice: z.number().nonnegative().optional(),
+          imageUrl: z.string().optional(),
+          substituted: z.boolean().optional(),
+          substitutedWith: z.string().optional(),
+        })
+      )
+      .optional(),
+    specialInstructions: z.string().optional(),
+  }),
+
+  tracking: z.object({
+    url: z.url().optional(),
+    mapAvailable: z.boolean(),
+    liveUpdates: z.boolean(),
+    contactDriverAvailable: z.boolean(),
+  }),
+
+  timestamps: z.object({
+    ordered: z.date(),
+    confirmed: z.date().optional(),
+    preparing: z.date().optional(),
+    readyForPickup: z.date().optional(),
+    checkedIn: z.date().optional(),
+    driverAssigned: z.date().optional(),
+    pickedUp: z.date().optional(),
+    outForDelivery: z.date().optional(),
+    arriving: z.date().optional(),
+    delivered: z.date().optional(),
+    cancelled: z.date().optional(),
+  }),
+
+  meta: z.object({
+    lastFetchedAt: z.date(),
+    nextFetchAt: z.date().optional(),
+    fetchMethod: z.enum(['api', 'webhook', 'polling', 'embedded', 'email']),
+    adapterId: z.string().min(1),
+    rawData: z.unknown(),
+  }),
+});
+
+/**
+ * A recorded webhook event
+ */
+export interface WebhookSample {
+  name: string;
+  eventType: string;
+  /** Body as the platform sent it */
+  data: unknown;
+  /** Fields of the normalized delivery, or null when the event carries no delivery */
+  expected: Partial<UnifiedDelivery> | null;
+}
+
+/**
+ * What the suite needs to know about an adapter
+ */
+export interface AdapterContract {
+  /** Create the adapter under test */
+  adapter: () => PlatformAdapter;
+  /** Connection to fetch with */
+  connection: () => AdapterConnection;
+  /** Path of the cassette with the adapter's recorded responses */
+  cassette: string;
+  /** Query parameters that change between runs (date filters) */
+  ignoreParams?: string[];
+  /** A recorded delivery to fetch with getDeliveryDetails */
+  deliveryId: string;
+  /** Every documented platform status and the status it should map to */
+  statuses: Record<string, DeliveryStatus>;
+  /** For adapters that accept webhooks */
+  webhooks?: {
+    /** Sign a body the way the platform does */
+    sign: (data: unknown) => string;
+    events: WebhookSample[];
+  };
+}
+
+/**
+ * HTTP errors every adapter maps to an error class
+ */
+const HTTP_ERRORS = [
+  { status: 401, error: PlatformAuthError },
+  { status: 429, error: PlatformRateLimitError },
+  { status: 503, error: PlatformUnavailableError },
+];
+
+/**
+ * Assert that a delivery is a valid UnifiedDelivery from this adapter
+ */
+export function expectValidDelivery(delivery: UnifiedDelivery, adapter: PlatformAdapter): void {
+  const result = unifiedDeliverySchema.safeParse(delivery);
+  expect(result.error?.issues ?? []).toEqual([]);
+  expect(delivery.id.startsWith(`${adapter.platformId.slice(0, 2)}_`)).toBe(true);
+}
+
+/**
+ * Give up on an adapter call that has not settled after this much real time
+ * Kept under the test timeout so the failure names the cause.
+ */
+const SETTLE_DEADLINE_MS = 8000;
+
+/**
+ * Run an adapter call until it rejects and return what it threw
+ * Only setTimeout is faked, and the clock is only moved on to withRetry's
+ * backoff: a timer scheduled after a mocked response arrives. Request timeouts
+ * never fire, however long the real I/O around them takes.
+ */
+async function rejectionOf(call: () => Promise<unknown>): Promise<unknown> {
+  vi.useFakeTimers({ toFake: ['setTimeout'] });
+
+  // msw emits this before the adapter sees the response
+  let timersAtResponse: number | null = null;
+  const onResponse = () => {
+    timersAtResponse = vi.getTimerCount();
+  };
+  server.events.on('response:mocked', onResponse);
+
+  try {
+    let outcome: { resolved: true } | { resolved: false; error: unknown } | undefined;
+    call().then(
+      () => {
+        outcome = { resolved: true };
+      },
+      (error: unknown) => {
+        outcome = { resolved: false, error };
+      }
+    );
+
+    const deadline = Date.now() + SETTLE_DEADLINE_MS;
+    while (!outcome) {
+      if (Date.now() > deadline) {
+        throw new Error(`Adapter call did not settle within ${SETTLE_DEADLINE_MS}ms`);
+      }
+
+      await new Promise((resolve) => setImmediate(resolve));
+
+      if (timersAtResponse !== null && vi.getTimerCount() > timersAtResponse) {
+        timersAtResponse = null;
+        await vi.advanceTimersToNextTimerAsync();
+      }
+    }
+
+    if (outcome.resolved) {
+      throw new Error('Expected the adapter call to reject, but it resolved');
+    }
+
+    return outcome.error;
+  } finally {
+    server.events.removeListener('response:mocked', onResponse);
+    vi.useRealTimers();
+  }
+}
+
+/**
+ * Wrap a recorded webhook body the way the webhook route does
+ */
+function toWebhookPayload(adapter: PlatformAdapter, sample: WebhookSample): WebhookPayload {
+  return {
+    platform: adapter.platformId,
+    eventType: sample.eventType,
+    eventId: `evt_${sample.name}`,
+    timestamp: new Date(),
+    data: sample.data,
+  };
+}
+
+/**
+ * Declare the conformance suite for an adapter
+ */
+export function describeAdapterContract(name: string, contract: AdapterContract): void {
+  describe(`${name} adapter contract`, () => {
+    const cassette = openCassette(contract.cassette, { ignoreParams: contract.ignoreParams });
+
+    afterAll(() => cassette.save());
+
+    describe('getActiveDeliveries', () => {
+      it('returns valid deliveries from the recorded responses', async () => {
+        server.use(cassette.handler());
+        const adapter = contract.adapter();
+
+        const deliveries = await adapter.getActiveDeliveries(contract.connection());
+
+        expect(deliveries.length).toBeGreaterThan(0);
+        for (const delivery of deliveries) {
+          expectValidDelivery(delivery, adapter);
+        }
+        expect(cassette.unmatched).toEqual([]);
+      });
+    });
+
+    describe('getDeliveryDetails', () => {
+      it('returns the requested delivery', async () => {
+        server.use(cassette.handler());
+        const adapter = contract.adapter();
+
+        const delivery = await adapter.getDeliveryDetails(
+          contract.connection(),
+          contract.deliveryId
+        );
+
+        expectValidDelivery(delivery, adapter);
+        expect(delivery.id).toBe(contract.deliveryId);
+        expect(cassette.unmatched).toEqual([]);
+      });
+    });
+
+    describe('mapStatus', () => {
+      it.each(Object.entries(contract.statuses))('maps %s to %s', (platformStatus, expected) => {
+        const adapter = contract.adapter();
+        // Normalized the way every adapter's mapStatus does
+        const key = platformStatus.toLowerCase().replace(/[- ]/g, '_');
+
+        expect(adapter.mapStatus(platformStatus)).toBe(expected);
+        // Mapped explicitly rather than through the fallback for unknown statuses
+        expect(getStatusMap(adapter.platformId)).toHaveProperty([key], expected);
+      });
+    });
+
+    describe('errors', () => {
+      for (const { status, error } of HTTP_ERRORS) {
+        it(`throws ${error.name} on HTTP ${status}`, async () => {
+          server.use(
+            http.all('*', () => HttpResponse.json({ message: 'Error' }, { status }))
+          );
+          const adapter = contract.adapter();
+
+          const thrown = await rejectionOf(() =>
+            adapter.getActiveDeliveries(contract.connection())
+          );
+
+          expect(thrown).toBeInstanceOf(error);
+        });
+      }
+
+      it('rejects responses that do not match the platform schema', async () => {
+        server.use(http.all('*', () => HttpResponse.json({ unexpected: true })));
+        const adapter = contract.adapter();
+
+        const thrown = await rejectionOf(() => adapter.getActiveDeliveries(contract.connection()));
+
+        expect(thrown).toBeInstanceOf(Error);
+      });
+    });
+
+    describe('webhooks', () => {
+      const { webhooks } = contract;
+
+      if (!webhooks) {
+        it('does not accept webhooks', () => {
+          const adapter = contract.adapter();
+
+          expect(adapter.supportsWebhooks()).toBe(false);
+          expect(adapter.verifyWebhook({}, 'signature')).toBe(false);
+        });
+        return;
+      }
+
+      it('accepts webhooks', () => {
+        expect(contract.adapter().supportsWebhooks()).toBe(true);
+      });
+
+      it.each(webhooks.events)('verifies the signature of $name', (sample) => {
+        const adapter = contract.adapter();
+        const signature = webhooks.sign(sample.data);
+        const tampered = { ...(sample.data as object), tampered: true };
+
+        expect(adapter.verifyWebhook(sample.data, signature)).toBe(true);
+        expect(adapter.verifyWebhook(sample.data, null)).toBe(false);
+        expect(adapter.verifyWebhook(tampered, signature)).toBe(false);
+      });
+
+      it.each(webhooks.events)('normalizes $name', (sample) => {
+        const adapter = contract.adapter();
+
+        const delivery = adapter.normalizeWebhookPayload(toWebhookPayload(adapter, sample));
+
+        if (sample.expected === null) {
+          expect(delivery).toBeNull();
+          return;
+        }
+        if (!delivery) throw new Error('expected a delivery');
+        expectValidDelivery(delivery, adapter);
+        expect(delivery).toMatchObject(sample.expected);
+      });
+
+      it('ignores bodies it cannot read', () => {
+        const adapter = contract.adapter();
+        const sample = { name: 'malformed', eventType: 'unknown', data: {}, expected: null };
+
+        expect(adapter.normalizeWebhookPayload(toWebhookPayload(adapter, sample))).toBeNull();
+      });
+    });
+  });
+}
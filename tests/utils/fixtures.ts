@@ -21,6 +21,10 @@ export const ALL_PLATFORMS: Platform[] = [
   'totalwine',
   'costco',
   'samsclub',
+  'ups',
+  'fedex',
+  'usps',
+  'dhl',
 ];
 
 /**
@@ -29,6 +33,7 @@ export const ALL_PLATFORMS: Platform[] = [
 export const ALL_STATUSES: DeliveryStatus[] = [
   'preparing',
   'ready_for_pickup',
+  'checked_in',
   'driver_assigned',
   'driver_heading_to_store',
   'driver_at_store',
@@ -45,6 +50,7 @@ export const ALL_STATUSES: DeliveryStatus[] = [
 export const STATUS_LABELS: Record<DeliveryStatus, string> = {
   preparing: 'Preparing',
   ready_for_pickup: 'Ready for Pickup',
+  checked_in: 'Checked In',
   driver_assigned: 'Driver Assigned',
   driver_heading_to_store: 'Driver Heading to Store',
   driver_at_store: 'Driver at Store',
@@ -294,6 +300,38 @@ export function createMockPlatformConfig(platform: Platform): PlatformConfig {
       supportsWebhooks: false,
       supportsLiveLocation: true,
     },
+    ups: {
+      id: 'ups',
+      name: 'UPS',
+      color: '#6B4226',
+      supportsOAuth: false,
+      supportsWebhooks: false,
+      supportsLiveLocation: false,
+    },
+    fedex: {
+      id: 'fedex',
+      name: 'FedEx',
+      color: '#4D148C',
+      supportsOAuth: false,
+      supportsWebhooks: false,
+      supportsLiveLocation: false,
+    },
+    usps: {
+      id: 'usps',
+      name: 'USPS',
+      color: '#333366',
+      supportsOAuth: false,
+      supportsWebhooks: false,
+      supportsLiveLocation: false,
+    },
+    dhl: {
+      id: 'dhl',
+      name: 'DHL',
+      color: '#D40511',
+      supportsOAuth: false,
+      supportsWebhooks: false,
+      supportsLiveLocation: false,
+    },
   };
 
   return configs[platform];
@@ -0,0 +1,173 @@
+/**
+ * Record/replay HTTP layer for adapter tests
+ *
+ * A cassette is a JSON file of captured platform responses. Replaying serves
+ * them through msw, so tests run against real response shapes with no network
+ * access. Set RECORD_CASSETTES=1 to send requests to the platform instead and
+ * write what comes back into the cassette; request headers (and the
+ * credentials in them) are never stored, but check response bodies for
+ * personal data before committing a recording.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { type HttpHandler, HttpResponse, http, type JsonBodyType, passthrough } from 'msw';
+import { server } from '../mocks/server';
+
+/**
+ * A captured request and the platform's response to it
+ */
+export interface CassetteEntry {
+  request: {
+    method: string;
+    url: string;
+  };
+  response: {
+    status: number;
+    headers?: Record<string, string>;
+    body: unknown;
+  };
+}
+
+/**
+ * Cassette file contents
+ */
+export interface CassetteFile {
+  entries: CassetteEntry[];
+}
+
+/**
+ * Options for opening a cassette
+ */
+export interface CassetteOptions {
+  /** Query parameters that change between runs (date filters) and are left out of matching */
+  ignoreParams?: string[];
+}
+
+/**
+ * An open cassette
+ */
+export interface Cassette {
+  /** Handler for server.use() that replays the cassette, or records into it */
+  handler: () => HttpHandler;
+  /** Requests replayed without a recorded response */
+  unmatched: string[];
+  /** Write recorded responses back to the file; does nothing on replay */
+  save: () => void;
+}
+
+/**
+ * Response headers kept in recordings, for rate limit handling
+ */
+const RECORDED_HEADERS = ['retry-after', 'x-ratelimit-reset'];
+
+/**
+ * Whether requests go to the platform and are recorded
+ */
+export function isRecording(): boolean {
+  return process.env.RECORD_CASSETTES === '1';
+}
+
+/**
+ * Match key for a request: method, URL without ignored params, sorted query
+ */
+function requestKey(method: string, url: string, ignoreParams: string[]): string {
+  const parsed = new URL(url);
+  for (const param of ignoreParams) {
+    parsed.searchParams.delete(param);
+  }
+  parsed.searchParams.sort();
+  return `${method.toUpperCase()} ${parsed.toString()}`;
+}
+
+/**
+ * Read a recorded body back into a response
+ */
+function replayResponse(entry: CassetteEntry): Response {
+  const { status, headers, body } = entry.response;
+  return typeof body === 'string'
+    ? new HttpResponse(body, { status, headers })
+    : HttpResponse.json(body as JsonBodyType, { status, headers });
+}
+
+/**
+ * Open a cassette file
+ * Each request is recorded once; a repeated request replays the same response.
+ */
+export function openCassette(path: string, options: CassetteOptions = {}): Cassette {
+  const ignoreParams = options.ignoreParams ?? [];
+  const recording = isRecording();
+
+  const file: CassetteFile =
+    recording && !existsSync(path)
+      ? { entries: [] }
+      : (JSON.parse(readFileSync(path, 'utf8')) as CassetteFile);
+
+  const entries = new Map(
+    file.entries.map((entry) => [
+      requestKey(entry.request.method, entry.request.url, ignoreParams),
+      entry,
+    ])
+  );
+  const unmatched: string[] = [];
+
+  if (recording) {
+    entries.clear();
+    server.events.on('response:bypass', async ({ request, response }) => {
+      const key = requestKey(request.method, request.url, ignoreParams);
+      if (entries.has(key)) return;
+
+      const url = new URL(request.url);
+      for (const param of ignoreParams) {
+        url.searchParams.delete(param);
+      }
+
+      const text = await response.clone().text();
+      let body: unknown = text;
+      try {
+        body = JSON.parse(text);
+      } catch {
+        // Not JSON; keep the text
+      }
+
+      const headers = Object.fromEntries(
+        RECORDED_HEADERS.flatMap((name) => {
+          const value = response.headers.get(name);
+          return value ? [[name, value]] : [];
+        })
+      );
+
+      entries.set(key, {
+        request: { method: request.method, url: url.toString() },
+        response: {
+          status: response.status,
+          ...(Object.keys(headers).length > 0 && { headers }),
+          body,
+        },
+      });
+    });
+  }
+
+  return {
+    handler: () =>
+      http.all('*', ({ request }) => {
+        if (recording) return passthrough();
+
+        const key = requestKey(request.method, request.url, ignoreParams);
+        const entry = entries.get(key);
+        if (!entry) {
+          // Falls through to msw's unhandled request error
+          unmatched.push(key);
+          return;
+        }
+        return replayResponse(entry);
+      }),
+
+    unmatched,
+
+    save: () => {
+      if (!recording) return;
+      const recorded: CassetteFile = { entries: [...entries.values()] };
+      writeFileSync(path, `${JSON.stringify(recorded, null, 2)}\n`);
+    },
+  };
+}